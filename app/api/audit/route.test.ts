@@ -0,0 +1,109 @@
+import { NextRequest } from "next/server";
+import type { UserRole } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+
+let role: UserRole;
+
+vi.mock("@/lib/auth", async (importActual) => {
+  const actual = await importActual<typeof import("@/lib/auth")>();
+  const { can } = await import("@/lib/permissions");
+  return {
+    ...actual,
+    requirePermission: async (_req: unknown, permission: Parameters<typeof can>[1]) => {  // The real check, minus the session lookup.
+      if (!can(role, permission)) throw new actual.ForbiddenError(permission, role);
+      return { company: { id: "company-a" }, user: { id: "user-driver", role } };
+    },
+  };
+});
+
+type Where = Record<string, unknown>;
+
+/**
+ * load-own is assigned to the signed-in driver, load-other isn't. Each stop and accessorial
+ * has one audit event whose snapshot names its load.
+ */
+const EVENTS = [
+  { id: "e1", entityType: "Load", entityId: "load-own", after: { id: "load-own", rate: 1800 }, before: null },
+  { id: "e2", entityType: "Load", entityId: "load-other", after: { id: "load-other", rate: 2400 }, before: null },
+  { id: "e3", entityType: "LoadStop", entityId: "stop-other", after: { loadId: "load-other" }, before: null },
+  { id: "e4", entityType: "LoadAccessorial", entityId: "acc-other", after: null, before: { loadId: "load-other" } },
+  { id: "e5", entityType: "LoadStop", entityId: "stop-own", after: { loadId: "load-own" }, before: null },
+];
+
+vi.mock("@/lib/scopedDb", () => ({
+  scopedDb: () => ({
+    auditEvent: {
+      findFirst: async ({ where }: { where: Where }) =>
+        EVENTS.find((e) => e.entityType === where.entityType && e.entityId === where.entityId) ?? null,
+      findMany: async ({ where }: { where: Where }) =>
+        EVENTS.filter((e) => !where.entityType || e.entityType === where.entityType),
+    },
+    load: {
+      findFirst: async ({ where }: { where: Where }) => {
+        const visible = role === "DRIVER" ? ["load-own"] : ["load-own", "load-other"]; // What loadAccessFilter lets through.
+        if (role === "DRIVER") expect(where.loadDrivers).toBeDefined();
+        return visible.includes(where.id as string) ? { id: where.id } : null;
+      },
+    },
+  }),
+}));
+
+import { GET } from "./route";
+
+function get(query: string) {
+  return GET(new NextRequest(`http://localhost/api/audit?${query}`));
+}
+
+describe("GET /api/audit", () => {
+  describe("as a driver", () => {
+    beforeEach(() => {
+      role = "DRIVER";
+    });
+
+    it("refuses the company-wide feed", async () => {
+      expect((await get("")).status).toBe(403);
+    });
+
+    it.each(["Load", "LoadStop", "LoadAccessorial", "LoadTemplate"])(
+      "refuses every %s without an entityId",
+      async (entityType) => {
+        expect((await get(`entityType=${entityType}`)).status).toBe(400);
+      }
+    );
+
+    it.each([
+      ["Load", "load-other"],
+      ["LoadStop", "stop-other"],
+      ["LoadAccessorial", "acc-other"],
+      ["LoadTemplate", "template-1"],
+    ])("hides %s %s on someone else's load", async (entityType, entityId) => {
+      expect((await get(`entityType=${entityType}&entityId=${entityId}`)).status).toBe(404);
+    });
+
+    it("hides a stop with no history", async () => {
+      expect((await get("entityType=LoadStop&entityId=stop-unknown")).status).toBe(404);
+    });
+
+    it("shows the history of a stop on their own load", async () => {
+      const res = await get("entityType=LoadStop&entityId=stop-own");
+      expect(res.status).toBe(200);
+    });
+  });
+
+  it("refuses the company-wide feed to dispatchers and view-only users", async () => {
+    for (const r of ["DISPATCHER", "ACCOUNTING", "VIEW_ONLY"] as const) {
+      role = r;
+      expect((await get("")).status).toBe(403);
+      expect((await get("entityType=Invoice")).status).toBe(400);
+    }
+  });
+
+  it("gives owners the company-wide feed", async () => {
+    role = "OWNER";
+    const res = await get("");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toHaveLength(EVENTS.length);
+  });
+});
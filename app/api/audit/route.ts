@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";                   // Next.js helpers for reading the query and building the response.
+import type { Prisma } from "@prisma/client";                              // Filter type for the AuditEvent query.
+import { authErrorResponse, requirePermission } from "@/lib/auth";         // Session + permission checks.
+import { AUDIT_ENTITY_TYPES, AUDIT_RESOURCES, isAuditEntityType } from "@/lib/audit"; // Which models are audited and who may read their history.
+import { can, loadAccessFilter } from "@/lib/permissions";                 // Drivers only see history for their own loads.
+import { scopedDb } from "@/lib/scopedDb";                                 // Tenant-scoped Prisma client.
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const FEED_PERMISSION = "company:update";                                  // Only OWNER and ADMIN hold it.
+
+/**
+ * Load an audited load-side row belongs to, read from its own snapshots so deleted stops and
+ * accessorials still resolve. Null when the entity has no history in this company.
+ */
+async function auditedLoadId(tdb: ReturnType<typeof scopedDb>, entityType: string, entityId: string) {
+  const event = await tdb.auditEvent.findFirst({
+    where: { entityType, entityId },
+    orderBy: { createdAt: "desc" },
+    select: { before: true, after: true },
+  });
+  const snapshot = (event?.after ?? event?.before) as { loadId?: unknown } | null | undefined;
+  return typeof snapshot?.loadId === "string" ? snapshot.loadId : null;
+}
+
+/**
+ * GET /api/audit?entityType=Load&entityId=...&limit=50
+ * Returns AuditEvents for one entity, newest first. A Load's history also includes changes to
+ * its stops. Owners and admins may leave out entityId (every entity of that type) or both
+ * (the whole company); everyone else must name the entity. Load, stop and accessorial history
+ * is limited to loads the caller can see.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    const rawType = params.get("entityType");
+    const entityId = params.get("entityId");
+    const limit = Math.min(Number(params.get("limit")) || DEFAULT_LIMIT, MAX_LIMIT);
+
+    if (rawType && !isAuditEntityType(rawType)) {
+      return NextResponse.json(
+        { error: `entityType must be one of: ${AUDIT_ENTITY_TYPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const entityType = rawType && isAuditEntityType(rawType) ? rawType : null;
+    if (entityId && !entityType) {
+      return NextResponse.json({ error: "entityId requires entityType" }, { status: 400 });
+    }
+
+    const { company, user } = await requirePermission(
+      req,
+      entityType ? `${AUDIT_RESOURCES[entityType]}:read` : FEED_PERMISSION // Company-wide feed is for owners and admins.
+    );
+    if (entityType && !entityId && !can(user.role, FEED_PERMISSION)) {
+      return NextResponse.json({ error: "entityId is required" }, { status: 400 });
+    }
+    const tdb = scopedDb(company.id);
+
+    if (entityId && entityType === "LoadTemplate" && user.role === "DRIVER") {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });  // Templates carry rates and aren't tied to a load.
+    }
+    if (entityId && (entityType === "Load" || entityType === "LoadStop" || entityType === "LoadAccessorial")) {
+      const loadId = entityType === "Load" ? entityId : await auditedLoadId(tdb, entityType, entityId);
+      const load = loadId
+        ? await scopedDb(company.id, { includeDeleted: true }).load.findFirst({ // Soft-deleted loads keep their history visible.
+            where: { id: loadId, ...loadAccessFilter(user) },
+            select: { id: true },
+          })
+        : null;
+      if (!load) {
+        return NextResponse.json({ error: "Load not found" }, { status: 404 });
+      }
+    }
+
+    let where: Prisma.AuditEventWhereInput = entityType ? { entityType } : {};
+    if (entityType && entityId) {
+      where = { entityType, entityId };
+      if (entityType === "Load") {
+        where = {
+          OR: [
+            where,
+            { entityType: "LoadStop", after: { path: ["loadId"], equals: entityId } },
+            { entityType: "LoadStop", before: { path: ["loadId"], equals: entityId } }, // Deleted stops only have a "before".
+          ],
+        };
+      }
+    }
+
+    const events = await tdb.auditEvent.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      include: { actor: { select: { id: true, fullName: true, email: true } } }, // "Who" column of the timeline.
+    });
+
+    return NextResponse.json(events);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);                           // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
+    console.error("[AUDIT_GET_ERROR]", err);
+    return NextResponse.json({ error: "Failed to fetch audit events" }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";                   // Next.js helpers for reading the body and building the response.
+import { db } from "@/lib/db";                                             // Prisma client to look up the user by email.
+import { createSession, setSessionCookie, verifyPassword } from "@/lib/auth"; // Session + password helpers.
+import { LoginSchema } from "@/lib/schemas/auth";                           // Zod schema for the login payload.
+
+/**
+ * POST /api/auth/login
+ * Body: { "email": "owner@fleet.com", "password": "..." }
+ * Verifies the password and sets the HTTP-only session cookie.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = LoginSchema.safeParse(await req.json());                 // Validates email + password shape.
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Email and password are required" },                       // Keeps the message generic on purpose.
+        { status: 400 }
+      );
+    }
+
+    const { email, password } = parsed.data;
+
+    const user = await db.user.findUnique({ where: { email } });            // Email is unique across all companies.
+
+    const valid = user ? await verifyPassword(password, user.passwordHash) : false; // Only verify when a user exists.
+    if (!user || !valid || !user.isActive) {                                 // Same response for all failures so emails can't be probed.
+      return NextResponse.json(
+        { error: "Invalid email or password" },
+        { status: 401 }
+      );
+    }
+
+    const { token, expiresAt } = await createSession(user.id);             // Persists a new session row.
+
+    const res = NextResponse.json({                                          // Returns the minimal profile the UI needs after login.
+      user: {
+        id: user.id,
+        email: user.email,
+        fullName: user.fullName,
+        role: user.role,
+        companyId: user.companyId,
+      },
+    });
+    setSessionCookie(res, token, expiresAt);                                 // Attaches the HTTP-only cookie to the response.
+    return res;
+  } catch (err) {
+    console.error("[AUTH_LOGIN_ERROR]", err);
+    return NextResponse.json({ error: "Failed to log in" }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";                   // Next.js helpers for reading cookies and building the response.
+import { clearSessionCookie, destroySession, readSessionToken } from "@/lib/auth"; // Session helpers.
+
+/**
+ * POST /api/auth/logout
+ * Revokes the current session and clears the cookie. Safe to call when already signed out.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const token = await readSessionToken(req);                              // Raw token from the cookie (if any).
+    if (token) {
+      await destroySession(token);                                           // Deletes the DB row so the token is useless even if copied.
+    }
+
+    const res = NextResponse.json({ success: true });
+    clearSessionCookie(res);                                                 // Expires the cookie in the browser.
+    return res;
+  } catch (err) {
+    console.error("[AUTH_LOGOUT_ERROR]", err);
+    return NextResponse.json({ error: "Failed to log out" }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";                   // Next.js helpers for reading the body and building the response.
+import { db } from "@/lib/db";                                             // Prisma client to create the Company + owner User.
+import { createSession, hashPassword, setSessionCookie } from "@/lib/auth"; // Password + session helpers.
+import { RegisterSchema } from "@/lib/schemas/auth";                        // Zod schema for the registration payload.
+
+/**
+ * POST /api/auth/register
+ * Body: { "companyName": "Acme Freight", "fullName": "Jane Doe", "email": "...", "password": "...",
+ *         "dotNumber"?, "mcNumber"?, "timezone"?, "defaultDaysToPay"?, "defaultFuelMpg"?, "defaultTruckFixedCostPerDay"? }
+ * Creates a new Company with its OWNER user and signs them in.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = RegisterSchema.safeParse(await req.json());              // Validates the signup form.
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid registration details" }, // Surfaces the first field problem.
+        { status: 400 }
+      );
+    }
+
+    const { companyName, fullName, email, password, ...profile } = parsed.data; // `profile` = optional company defaults.
+
+    const existing = await db.user.findUnique({ where: { email } });        // Email must be unique across the whole app.
+    if (existing) {
+      return NextResponse.json(
+        { error: "An account with this email already exists" },
+        { status: 409 }                                                       // HTTP 409 = conflict.
+      );
+    }
+
+    const passwordHash = await hashPassword(password);                       // Never store the plain-text password.
+
+    const user = await db.$transaction(async (tx) => {                       // Company + owner are created together or not at all.
+      const company = await tx.company.create({
+        data: { name: companyName, ...profile },                               // Unset defaults stay null; the app falls back to its own.
+      });
+
+      return tx.user.create({
+        data: {
+          email,
+          passwordHash,
+          fullName: fullName ?? null,
+          companyId: company.id,
+          role: "OWNER",                                                       // The person who signs up owns the company account.
+        },
+      });
+    });
+
+    const { token, expiresAt } = await createSession(user.id);             // Signs the new owner in immediately.
+
+    const res = NextResponse.json(
+      {
+        user: {
+          id: user.id,
+          email: user.email,
+          fullName: user.fullName,
+          role: user.role,
+          companyId: user.companyId,
+        },
+      },
+      { status: 201 }
+    );
+    setSessionCookie(res, token, expiresAt);
+    return res;
+  } catch (err) {
+    console.error("[AUTH_REGISTER_ERROR]", err);
+    return NextResponse.json({ error: "Failed to create account" }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";                   // Next.js helpers for reading the body and building the response.
+import type { Company } from "@prisma/client";                             // Row type for the serializer below.
+import { db } from "@/lib/db";                                             // Prisma client for the Company row.
+import { authErrorResponse, requirePermission } from "@/lib/auth";         // Session + permission checks.
+import { resolveCompanySettings } from "@/lib/companySettings";            // Fills unset columns with app defaults.
+import { UpdateCompanySettingsSchema } from "@/lib/schemas/companySettings"; // Zod schema for PUT bodies.
+
+function serializeSettings(company: Company) {                             // Profile fields + effective (defaulted) settings.
+  return {
+    name: company.name,
+    dotNumber: company.dotNumber,
+    mcNumber: company.mcNumber,
+    addressLine1: company.addressLine1,
+    addressLine2: company.addressLine2,
+    city: company.city,
+    state: company.state,
+    postalCode: company.postalCode,
+    phone: company.phone,
+    billingEmail: company.billingEmail,
+    remitTo: company.remitTo,
+    ...resolveCompanySettings(company),
+  };
+}
+
+/**
+ * GET /api/company/settings
+ * Returns the current company's settings with defaults applied.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { company } = await requirePermission(req, "company:read");      // Session already loaded the Company row.
+    return NextResponse.json(serializeSettings(company));
+  } catch (err) {
+    const authResponse = authErrorResponse(err);                           // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
+    console.error("[COMPANY_SETTINGS_GET_ERROR]", err);
+    return NextResponse.json({ error: "Failed to fetch company settings" }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/company/settings
+ * Body: any subset of the settings, e.g. { "defaultDaysToPay": 21, "staleCustomerDays": null }
+ * `null` clears a value so the app default applies again.
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const { company } = await requirePermission(req, "company:update");   // OWNER / ADMIN only.
+
+    const parsed = UpdateCompanySettingsSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid settings" },  // Surfaces the first field problem.
+        { status: 400 }
+      );
+    }
+
+    const updated = await db.company.update({
+      where: { id: company.id },                                           // Only ever the caller's own company.
+      data: parsed.data,                                                   // Undefined keys are left untouched by Prisma.
+    });
+
+    return NextResponse.json(serializeSettings(updated));
+  } catch (err) {
+    const authResponse = authErrorResponse(err);                           // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
+    console.error("[COMPANY_SETTINGS_PUT_ERROR]", err);
+    return NextResponse.json({ error: "Failed to update company settings" }, { status: 500 });
+  }
+}
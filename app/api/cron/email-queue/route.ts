@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { processEmailQueue } from "@/lib/email";
+
+/**
+ * GET /api/cron/email-queue
+ * Sends queued emails whose next attempt is due, including retries of failed sends.
+ * Retries back off from a minute to two hours, so run it every few minutes.
+ */
+export async function GET(req: NextRequest) {
+  if (!isAuthorizedCronRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await processEmailQueue());
+  } catch (err) {
+    console.error("[CRON_EMAIL_QUEUE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to process the email queue" }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { markOverdueInvoices, runDunning } from "@/lib/dunning";
+
+/**
+ * GET /api/cron/invoice-dunning
+ * Marks SENT invoices past their due date OVERDUE, then runs every dunning step that has
+ * come due. Reminder emails are queued for the email-queue job. Run it daily.
+ */
+export async function GET(req: NextRequest) {
+  if (!isAuthorizedCronRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const overdue = await markOverdueInvoices();
+    const dunning = await runDunning();
+    return NextResponse.json({ overdue, ...dunning });
+  } catch (err) {
+    console.error("[CRON_INVOICE_DUNNING_ERROR]", err);
+    return NextResponse.json({ error: "Failed to run invoice dunning" }, { status: 500 });
+  }
+}
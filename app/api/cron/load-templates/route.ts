@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { generateRecurringLoads } from "@/lib/loadTemplates";
+
+/**
+ * GET /api/cron/load-templates
+ * Creates the upcoming DRAFT loads for recurring templates. Run it at least daily.
+ */
+export async function GET(req: NextRequest) {
+  if (!isAuthorizedCronRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const created = await generateRecurringLoads();
+    return NextResponse.json({ created: created.length, loads: created });
+  } catch (err) {
+    console.error("[CRON_LOAD_TEMPLATES_ERROR]", err);
+    return NextResponse.json({ error: "Failed to generate recurring loads" }, { status: 500 });
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";           // Provides types/helpers for building Next.js route handlers.
-import { db } from "@/lib/db";                                     // Prisma client for talking to the PostgreSQL database.
-import { getDemoTenant } from "@/lib/demoTenant";                  // Helper to resolve the demo company + user for multi-tenant scoping.
+import { scopedDb } from "@/lib/scopedDb";                         // Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth"; // Resolves the signed-in user + company from the session cookie.
 
 // Next 16 passes `params` as a Promise, so we type it that way and always `await params`.
 type RouteContext = {
@@ -15,7 +15,7 @@ type RouteContext = {
 // Fetch a single contact.
 //
 export async function GET(
-  _req: NextRequest,                                               // Incoming request (unused here).
+  req: NextRequest,                                                // Incoming request; carries the session cookie.
   { params }: RouteContext                                         // Receives params as a Promise in the context object.
 ) {
   try {
@@ -28,13 +28,12 @@ export async function GET(
       );
     }
 
-    const { company } = await getDemoTenant();                     // Gets the demo company so we can scope queries.
+    const { company } = await requirePermission(req, "customers:read"); // Resolves the signed-in user's company for scoping.
 
-    const contact = await db.contact.findFirst({                   // Look up this contact in the DB.
+    const contact = await scopedDb(company.id).contact.findFirst({ // Look up this contact in the company's rows.
       where: {
         id,                                                        // Must match this contact ID.
         customerId,                                                // Must belong to this customer.
-        companyId: company.id,                                     // Must belong to this company (multi-tenant isolation).
       },
     });
 
@@ -47,6 +46,8 @@ export async function GET(
 
     return NextResponse.json(contact);                             // Otherwise, return the contact as JSON.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                   // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[CONTACT_GET_ERROR]", err);                     // Log unexpected errors on the server.
     return NextResponse.json(
       { error: "Failed to fetch contact" },                        // Generic error for the client.
@@ -73,7 +74,7 @@ export async function PUT(
       );
     }
 
-    const { company } = await getDemoTenant();                     // Resolve demo company/user.
+    const { company } = await requirePermission(req, "customers:update"); // Resolves the signed-in user's company for scoping.
     const body = await req.json();                                 // Parse JSON body from the client.
 
     const rawName = String(body.name ?? "").trim();                // Ensure name is a non-empty string.
@@ -84,12 +85,13 @@ export async function PUT(
       );
     }
 
+    const tdb = scopedDb(company.id);                              // Reads and writes below only reach this company's rows.
+
     // Ensure the contact exists and belongs to this company + customer.
-    const existing = await db.contact.findFirst({
+    const existing = await tdb.contact.findFirst({
       where: {
         id,
         customerId,
-        companyId: company.id,
       },
     });
 
@@ -100,7 +102,7 @@ export async function PUT(
       );
     }
 
-    const updated = await db.contact.update({                      // Perform the update.
+    const updated = await tdb.contact.update({                     // Perform the update.
       where: { id },                                               // Primary key for the contact row.
       data: {
         name: rawName,                                             // Updated name.
@@ -113,6 +115,8 @@ export async function PUT(
 
     return NextResponse.json(updated);                             // Return the updated contact object.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                    // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[CONTACT_UPDATE_ERROR]", err);                   // Log unexpected errors.
     return NextResponse.json(
       { error: "Failed to update contact" },
@@ -126,7 +130,7 @@ export async function PUT(
 // Delete a single contact.
 //
 export async function DELETE(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: RouteContext
 ) {
   try {
@@ -139,14 +143,15 @@ export async function DELETE(
       );
     }
 
-    const { company } = await getDemoTenant();
+    const { company } = await requirePermission(req, "customers:update");
+
+    const tdb = scopedDb(company.id);                              // Reads and writes below only reach this company's rows.
 
     // Confirm the contact exists and is correctly scoped.
-    const existing = await db.contact.findFirst({
+    const existing = await tdb.contact.findFirst({
       where: {
         id,
         customerId,
-        companyId: company.id,
       },
     });
 
@@ -157,12 +162,14 @@ export async function DELETE(
       );
     }
 
-    await db.contact.delete({                                      // Delete by primary key.
+    await tdb.contact.delete({                                     // Delete by primary key.
       where: { id },
     });
 
     return NextResponse.json({ success: true });                   // Simple success response.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                   // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[CONTACT_DELETE_ERROR]", err);                  // Log error details for debugging.
     return NextResponse.json(
       { error: "Failed to delete contact" },
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/db";
+import { scopedDb } from "@/lib/scopedDb";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
 
 type RouteContext = {
   params: Promise<{ customerId?: string }>;
@@ -7,11 +8,12 @@ type RouteContext = {
 
 // GET /api/customers/:customerId/contacts → list contacts for that customer
 export async function GET(
-  _req: NextRequest,
+  req: NextRequest,
   context: RouteContext
 ) {
   try {
     const { customerId } = await context.params;
+    const { company } = await requirePermission(req, "customers:read");
 
     if (!customerId) {
       return NextResponse.json(
@@ -20,8 +22,10 @@ export async function GET(
       );
     }
 
-    // Make sure the customer exists (and get its companyId if we ever need it)
-    const customer = await db.customer.findUnique({
+    const tdb = scopedDb(company.id);
+
+    // Make sure the customer exists in the current company
+    const customer = await tdb.customer.findFirst({
       where: { id: customerId },
       select: { id: true },
     });
@@ -33,13 +37,15 @@ export async function GET(
       );
     }
 
-    const contacts = await db.contact.findMany({
+    const contacts = await tdb.contact.findMany({
       where: { customerId: customer.id },
       orderBy: { createdAt: "desc" },
     });
 
     return NextResponse.json(contacts);
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[CUSTOMER_CONTACTS_GET_ERROR]", err);
     return NextResponse.json(
       { error: "Failed to fetch contacts" },
@@ -55,6 +61,7 @@ export async function POST(
 ) {
   try {
     const { customerId } = await context.params;
+    const { company } = await requirePermission(req, "customers:update");
 
     if (!customerId) {
       return NextResponse.json(
@@ -73,8 +80,10 @@ export async function POST(
       );
     }
 
+    const tdb = scopedDb(company.id);
+
     // Get the customer so we can also attach the correct companyId
-    const customer = await db.customer.findUnique({
+    const customer = await tdb.customer.findFirst({
       where: { id: customerId },
       select: { id: true, companyId: true },
     });
@@ -86,7 +95,7 @@ export async function POST(
       );
     }
 
-    const contact = await db.contact.create({
+    const contact = await tdb.contact.create({
       data: {
         companyId: customer.companyId,
         customerId: customer.id,
@@ -100,6 +109,8 @@ export async function POST(
 
     return NextResponse.json(contact, { status: 201 });
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[CUSTOMER_CONTACTS_POST_ERROR]", err);
     return NextResponse.json(
       { error: "Failed to create contact" },
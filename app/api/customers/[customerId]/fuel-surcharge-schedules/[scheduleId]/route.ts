@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { auditedDb } from "@/lib/audit";
+import { normalizeFuelRegion } from "@/lib/fuel";
+import { FUEL_SURCHARGE_SCHEDULE_INCLUDE } from "@/lib/fuelSurcharge";
+import { scopedDb } from "@/lib/scopedDb";
+import {
+  fuelSurchargeScheduleIssue,
+  UpdateFuelSurchargeScheduleSchema,
+} from "@/lib/schemas/fuelSurcharge";
+
+type RouteContext = { params: Promise<{ customerId?: string; scheduleId?: string }> };
+
+/**
+ * PUT /api/customers/:customerId/fuel-surcharge-schedules/:scheduleId
+ * Partial update; `tiers` replaces the whole table. The merged schedule must still be
+ * complete for its method.
+ */
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "customers:update");
+    const { customerId, scheduleId } = await params;
+
+    if (!customerId || !scheduleId) {
+      return NextResponse.json({ error: "Customer and schedule IDs are required" }, { status: 400 });
+    }
+
+    const parsed = UpdateFuelSurchargeScheduleSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid fuel surcharge schedule" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await scopedDb(company.id).fuelSurchargeSchedule.findFirst({
+      where: { id: scheduleId, customerId },
+      include: FUEL_SURCHARGE_SCHEDULE_INCLUDE,
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Fuel surcharge schedule not found" }, { status: 404 });
+    }
+
+    const { tiers, priceRegion: rawRegion, ...fields } = parsed.data;
+    const priceRegion = rawRegion ? normalizeFuelRegion(rawRegion) : rawRegion;
+    if (rawRegion && !priceRegion) {
+      return NextResponse.json(
+        { error: "priceRegion must be a state code, a PADD (e.g. PADD2) or US" },
+        { status: 400 }
+      );
+    }
+
+    const method = fields.method ?? existing.method;
+    const issue = fuelSurchargeScheduleIssue({ ...existing, ...fields, method, tiers: tiers ?? existing.tiers });
+    if (issue) {
+      return NextResponse.json({ error: issue }, { status: 400 });
+    }
+
+    // Only percentage tables keep tiers; switching away from one clears them.
+    const replaceTiers = tiers !== undefined || method !== "PERCENT_OF_LINEHAUL";
+    const updated = await auditedDb({ companyId: company.id, userId: user.id }).fuelSurchargeSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        ...fields,
+        priceRegion,
+        tiers: replaceTiers
+          ? {
+              deleteMany: {},
+              create: method === "PERCENT_OF_LINEHAUL" ? tiers ?? [] : [],
+            }
+          : undefined,
+      },
+      include: FUEL_SURCHARGE_SCHEDULE_INCLUDE,
+    });
+
+    return NextResponse.json(updated);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[FUEL_SURCHARGE_SCHEDULE_PUT_ERROR]", err);
+    return NextResponse.json({ error: "Failed to update fuel surcharge schedule" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/customers/:customerId/fuel-surcharge-schedules/:scheduleId
+ * Invoices already billed keep their FSC lines.
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "customers:update");
+    const { customerId, scheduleId } = await params;
+
+    if (!customerId || !scheduleId) {
+      return NextResponse.json({ error: "Customer and schedule IDs are required" }, { status: 400 });
+    }
+
+    const existing = await scopedDb(company.id).fuelSurchargeSchedule.findFirst({
+      where: { id: scheduleId, customerId },
+      select: { id: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Fuel surcharge schedule not found" }, { status: 404 });
+    }
+
+    await auditedDb({ companyId: company.id, userId: user.id }).fuelSurchargeSchedule.delete({
+      where: { id: scheduleId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[FUEL_SURCHARGE_SCHEDULE_DELETE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to delete fuel surcharge schedule" }, { status: 500 });
+  }
+}
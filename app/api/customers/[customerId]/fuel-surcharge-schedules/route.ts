@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { auditedDb } from "@/lib/audit";
+import { normalizeFuelRegion } from "@/lib/fuel";
+import { FUEL_SURCHARGE_SCHEDULE_INCLUDE } from "@/lib/fuelSurcharge";
+import { scopedDb } from "@/lib/scopedDb";
+import { CreateFuelSurchargeScheduleSchema } from "@/lib/schemas/fuelSurcharge";
+
+type RouteContext = { params: Promise<{ customerId?: string }> };
+
+/**
+ * GET /api/customers/:customerId/fuel-surcharge-schedules
+ * The customer's FSC schedules, newest effective date first.
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company } = await requirePermission(req, "customers:read");
+    const { customerId } = await params;
+
+    if (!customerId) {
+      return NextResponse.json({ error: "Customer ID is required" }, { status: 400 });
+    }
+
+    const tdb = scopedDb(company.id);
+    const customer = await tdb.customer.findFirst({ where: { id: customerId }, select: { id: true } });
+    if (!customer) {
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+
+    const schedules = await tdb.fuelSurchargeSchedule.findMany({
+      where: { customerId },
+      orderBy: [{ effectiveFrom: { sort: "desc", nulls: "last" } }, { createdAt: "desc" }],
+      include: FUEL_SURCHARGE_SCHEDULE_INCLUDE,
+    });
+
+    return NextResponse.json(schedules);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[FUEL_SURCHARGE_SCHEDULES_GET_ERROR]", err);
+    return NextResponse.json({ error: "Failed to fetch fuel surcharge schedules" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/customers/:customerId/fuel-surcharge-schedules
+ * Body examples:
+ *   { name: "DOE peg", method: "PEG_PRICE", pegPrice: 1.25, mpg: 6, priceRegion: "US" }
+ *   { name: "Step", method: "CENTS_PER_MILE_STEP", pegPrice: 1.2, priceStep: 0.05, centsPerStep: 1 }
+ *   { name: "Table", method: "PERCENT_OF_LINEHAUL", tiers: [{ minPrice: 3, percent: 8 }, { minPrice: 3.5, percent: 12 }] }
+ * `priceRegion` (state, PADD or US) picks which weekly price the schedule is indexed to;
+ * without it the load's pickup state is used.
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "customers:update");
+    const { customerId } = await params;
+
+    if (!customerId) {
+      return NextResponse.json({ error: "Customer ID is required" }, { status: 400 });
+    }
+
+    const parsed = CreateFuelSurchargeScheduleSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid fuel surcharge schedule" },
+        { status: 400 }
+      );
+    }
+
+    const { tiers, priceRegion: rawRegion, ...fields } = parsed.data;
+    const priceRegion = rawRegion ? normalizeFuelRegion(rawRegion) : null;
+    if (rawRegion && !priceRegion) {
+      return NextResponse.json(
+        { error: "priceRegion must be a state code, a PADD (e.g. PADD2) or US" },
+        { status: 400 }
+      );
+    }
+
+    const customer = await scopedDb(company.id).customer.findFirst({
+      where: { id: customerId },
+      select: { id: true },
+    });
+    if (!customer) {
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+
+    const schedule = await auditedDb({ companyId: company.id, userId: user.id }).fuelSurchargeSchedule.create({
+      data: {
+        ...fields,
+        companyId: company.id,
+        customerId,
+        priceRegion,
+        tiers: fields.method === "PERCENT_OF_LINEHAUL" && tiers ? { create: tiers } : undefined,
+      },
+      include: FUEL_SURCHARGE_SCHEDULE_INCLUDE,
+    });
+
+    return NextResponse.json(schedule, { status: 201 });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[FUEL_SURCHARGE_SCHEDULES_POST_ERROR]", err);
+    return NextResponse.json({ error: "Failed to create fuel surcharge schedule" }, { status: 500 });
+  }
+}
@@ -1,19 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";        // Next.js request/response helpers.
-import { db } from "@/lib/db";                                  // Prisma client.
-import { getDemoTenant } from "@/lib/demoTenant";               // Demo company+user helper.
+import { scopedDb } from "@/lib/scopedDb";                      // Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth"; // Resolves the signed-in user + company from the session cookie.
 
 /**
  * GET /api/customers/:customerId/notes/:noteId
  * Fetch a single call note by ID, scoped to company + (optionally) customer.
  */
 export async function GET(
-  _req: NextRequest,                                            // Incoming request (unused).
+  req: NextRequest,                                             // Incoming request; carries the session cookie.
   context: {
     params: Promise<{ customerId?: string; noteId?: string }>;  // Dynamic params Promise with both customerId and noteId.
   }
 ) {
   try {
-    const { company } = await getDemoTenant();                  // Get current company.
+    const { company } = await requirePermission(req, "customers:read"); // Get current company.
 
     const { customerId, noteId } = await context.params;        // Await params and destructure.
     if (!noteId) {                                              // Note ID is required.
@@ -23,10 +23,9 @@ export async function GET(
       );
     }
 
-    const note = await db.callNote.findFirst({                  // Look up the note.
+    const note = await scopedDb(company.id).callNote.findFirst({ // Look up the note in this company.
       where: {
         id: noteId,                                             // Must match this note.
-        companyId: company.id,                                  // Must belong to this company.
         ...(customerId ? { customerId } : {}),                  // If a customerId is present in the route, enforce it too.
       },
       include: {
@@ -44,6 +43,8 @@ export async function GET(
 
     return NextResponse.json(note);                             // Return the note JSON.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[CUSTOMER_NOTE_GET_ERROR]", err);            // Log server-side error.
     return NextResponse.json(
       { error: "Failed to fetch note" },
@@ -57,13 +58,13 @@ export async function GET(
  * Hard-deletes a call note.
  */
 export async function DELETE(
-  _req: NextRequest,                                            // Incoming request (unused).
+  req: NextRequest,                                             // Incoming request; carries the session cookie.
   context: {
     params: Promise<{ customerId?: string; noteId?: string }>;  // Dynamic params Promise.
   }
 ) {
   try {
-    const { company } = await getDemoTenant();                  // Get current company.
+    const { company } = await requirePermission(req, "customers:update"); // Get current company.
 
     const { customerId, noteId } = await context.params;        // Await and destructure params.
     if (!noteId) {                                              // Must have noteId to delete.
@@ -73,10 +74,9 @@ export async function DELETE(
       );
     }
 
-    const result = await db.callNote.deleteMany({               // Delete any matching note(s).
+    const result = await scopedDb(company.id).callNote.deleteMany({ // Delete the matching note in this company.
       where: {
         id: noteId,                                             // Match this note ID.
-        companyId: company.id,                                  // Ensure it belongs to this company.
         ...(customerId ? { customerId } : {}),                  // Optionally also enforce customerId.
       },
     });
@@ -90,6 +90,8 @@ export async function DELETE(
 
     return NextResponse.json({ success: true });                // Success response for the client.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[CUSTOMER_NOTE_DELETE_ERROR]", err);         // Log the error details.
     return NextResponse.json(
       { error: "Failed to delete note" },
@@ -1,17 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";        // Next.js helpers for handling requests and building responses.
-import { db } from "@/lib/db";                                  // Prisma client for talking to the database.
-import { getDemoTenant } from "@/lib/demoTenant";               // Helper that returns the demo Company + User (temporary until real auth).
+import { scopedDb } from "@/lib/scopedDb";                      // Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth"; // Resolves the signed-in user + company from the session cookie.
 
 /**
  * GET /api/customers/:customerId/notes
  * Returns all call notes for a specific customer.
  */
 export async function GET(
-  _req: NextRequest,                                            // Incoming HTTP request (unused here).
+  req: NextRequest,                                             // Incoming request; carries the session cookie.
   context: { params: Promise<{ customerId?: string }> }         // Dynamic route params; in app router they come in as a Promise.
 ) {
   try {
-    const { company } = await getDemoTenant();                  // Get the current demo company (for multitenancy).
+    const { company } = await requirePermission(req, "customers:read"); // Resolves the signed-in user's company for scoping.
 
     const { customerId } = await context.params;                // Await params and pull out `customerId`.
 
@@ -22,11 +22,8 @@ export async function GET(
       );
     }
 
-    const notes = await db.callNote.findMany({                  // Query all notes for this customer.
-      where: {
-        customerId,                                             // Must match this customer.
-        companyId: company.id,                                  // Must belong to this company.
-      },
+    const notes = await scopedDb(company.id).callNote.findMany({ // Query all notes for this customer.
+      where: { customerId },                                    // Scoped: this company's notes only.
       orderBy: { createdAt: "desc" },                           // Newest notes first.
       include: {
         user: true,                                             // Include the author info so you can show who wrote it.
@@ -35,6 +32,8 @@ export async function GET(
 
     return NextResponse.json(notes);                            // Return the list of notes as JSON.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[CUSTOMER_NOTES_GET_ERROR]", err);           // Log any server-side error for debugging.
     return NextResponse.json(
       { error: "Failed to fetch customer notes" },
@@ -57,7 +56,7 @@ export async function POST(
   context: { params: Promise<{ customerId?: string }> }         // Dynamic params Promise.
 ) {
   try {
-    const { company, user } = await getDemoTenant();            // Get demo company and current user (author of note).
+    const { company, user } = await requirePermission(req, "customers:update"); // Resolves the signed-in user and their company.
 
     const { customerId } = await context.params;                // Await params and extract customerId.
 
@@ -78,14 +77,10 @@ export async function POST(
       );
     }
 
+    const tdb = scopedDb(company.id);                           // Reads and writes below only reach this company's rows.
+
     // Make sure the customer actually exists for this company.
-    const customer = await db.customer.findFirst({
-      where: {
-        id: customerId,
-        companyId: company.id,
-        deletedAt: null,
-      },
-    });
+    const customer = await tdb.customer.findFirst({ where: { id: customerId } });
 
     if (!customer) {                                            // If customer not found, return 404.
       return NextResponse.json(
@@ -94,11 +89,11 @@ export async function POST(
       );
     }
 
-    const note = await db.callNote.create({                     // Create the call note.
+    const note = await tdb.callNote.create({                    // Create the call note.
       data: {
         companyId: company.id,                                  // Link to company for multitenancy.
         customerId: customer.id,                                // Link to specific customer.
-        userId: user.id,                                        // Author is the current demo user.
+        userId: user.id,                                        // Author is the signed-in user.
         content: rawContent,                                    // Note body.
       },
       include: {
@@ -108,6 +103,8 @@ export async function POST(
 
     return NextResponse.json(note, { status: 201 });            // Return the created note with 201 Created.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[CUSTOMER_NOTES_POST_ERROR]", err);          // Log the error on the server.
     return NextResponse.json(
       { error: "Failed to create customer note" },
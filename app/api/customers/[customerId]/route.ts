@@ -1,17 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";               // Provides types and helpers for handling HTTP requests/responses in Next.js route handlers.
-import { db } from "@/lib/db";                                         // Prisma client instance used to communicate with the database.
-import { getDemoTenant } from "@/lib/demoTenant";                      // Helper that returns (or creates) the demo Company + User (for now, until real auth is wired).
+import { scopedDb } from "@/lib/scopedDb";                             // Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth";     // Resolves the signed-in user + company from the session cookie.
+import { auditedDb } from "@/lib/audit";                               // Tenant-scoped client that records an AuditEvent per write.
+import { CustomerBillingEmailSchema } from "@/lib/schemas/customers";  // Invoices and reminders go to this address.
 
 /**
  * GET /api/customers/:customerId
  * Fetch a single customer, including call notes, loads, and contacts.
  */
 export async function GET(
-  _req: NextRequest,                                                   // Incoming HTTP request (unused here).
+  req: NextRequest,                                                    // Incoming request; carries the session cookie.
   context: { params: Promise<{ customerId?: string }> }                // Dynamic route params come in as a Promise in the app router.
 ) {
   try {
-    const { company } = await getDemoTenant();                         // Retrieve the demo company; all queries are scoped to this company.
+    const { company } = await requirePermission(req, "customers:read"); // Resolves the signed-in user's company for scoping.
 
     const { customerId } = await context.params;                       // Await params and destructure `customerId` (matches folder name [customerId]).
 
@@ -22,12 +24,8 @@ export async function GET(
       );
     }
 
-    const customer = await db.customer.findFirst({                     // Look up a single customer row.
-      where: {
-        id: customerId,                                                // Must match this specific customer ID.
-        companyId: company.id,                                         // Must belong to the current company.
-        deletedAt: null,                                               // Exclude soft-deleted customers.
-      },
+    const customer = await scopedDb(company.id).customer.findFirst({   // Look up a single live customer row in this company.
+      where: { id: customerId },
       include: {
         callNotes: {
           orderBy: { createdAt: "desc" },                              // Sort notes newest first.
@@ -48,6 +46,8 @@ export async function GET(
 
     return NextResponse.json(customer);                                // Return the full customer object as JSON.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                       // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[CUSTOMER_GET_ERROR]", err);                        // Log the error on the server for debugging.
     return NextResponse.json(
       { error: "Failed to fetch customer" },                           // Generic error message to avoid exposing internals.
@@ -72,7 +72,8 @@ export async function PUT(
 ) {
   try {
     const body = await req.json();                                     // Parse JSON body into a plain JS object.
-    const { company } = await getDemoTenant();                         // Scope all updates to this company.
+    const { company, user } = await requirePermission(req, "customers:update"); // Scope all updates to this company.
+    const audited = auditedDb({ companyId: company.id, userId: user.id }); // Writes below are recorded as AuditEvents.
 
     const { customerId } = await context.params;                       // Await params and read `customerId`.
     if (!customerId) {                                                 // Guard: cannot update without an ID.
@@ -82,12 +83,8 @@ export async function PUT(
       );
     }
 
-    const existing = await db.customer.findFirst({                     // Retrieve the existing customer so we can merge updates.
-      where: {
-        id: customerId,                                                // Must match this ID.
-        companyId: company.id,                                         // Must belong to this company.
-        deletedAt: null,                                               // Don’t allow updates to soft-deleted customers.
-      },
+    const existing = await scopedDb(company.id).customer.findFirst({   // Retrieve the existing customer so we can merge updates.
+      where: { id: customerId },                                       // Scoped: this company's live customers only.
     });
 
     if (!existing) {                                                   // If no matching row is found...
@@ -97,6 +94,14 @@ export async function PUT(
       );
     }
 
+    const billingEmail = CustomerBillingEmailSchema.safeParse(body.billingEmail);
+    if (!billingEmail.success) {                                       // A malformed address gets a 400.
+      return NextResponse.json(
+        { error: billingEmail.error.issues[0]?.message ?? "Invalid billing email" },
+        { status: 400 }
+      );
+    }
+
     // Handle status + timestamp behavior.
     const rawStatus = body.status as string | undefined;               // The new status, if provided.
     const normalizedStatus = rawStatus                                 // Normalize to uppercase if provided; otherwise keep existing.
@@ -120,7 +125,7 @@ export async function PUT(
       }
     }
 
-    const updated = await db.customer.update({                         // Perform the update in the database.
+    const updated = await audited.customer.update({                    // Perform the update in the database.
       where: { id: customerId },                                       // Select the row by primary key.
       data: {
         // BASIC PROFILE
@@ -187,8 +192,8 @@ export async function PUT(
               : Number(body.daysToPay)                                 // ...otherwise cast to number.
             : existing.daysToPay,
         billingEmail:
-          body.billingEmail !== undefined
-            ? body.billingEmail ?? null
+          billingEmail.data !== undefined
+            ? billingEmail.data
             : existing.billingEmail,
         creditHold:
           body.creditHold !== undefined
@@ -204,6 +209,18 @@ export async function PUT(
           body.portalUrl !== undefined
             ? body.portalUrl ?? null
             : existing.portalUrl,
+        detentionFreeHours:
+          body.detentionFreeHours !== undefined                        // Free time override; null falls back to the company setting.
+            ? body.detentionFreeHours === null
+              ? null
+              : Number(body.detentionFreeHours)
+            : existing.detentionFreeHours,
+        detentionRatePerHour:
+          body.detentionRatePerHour !== undefined                      // Hourly rate override; null falls back to the company setting.
+            ? body.detentionRatePerHour === null
+              ? null
+              : Number(body.detentionRatePerHour)
+            : existing.detentionRatePerHour,
 
         // PIPELINE / STATUS
         leadStatus:
@@ -220,6 +237,8 @@ export async function PUT(
 
     return NextResponse.json(updated);                                 // Return the updated customer row.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                       // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[CUSTOMER_UPDATE_ERROR]", err);                     // Log the error for debugging.
     return NextResponse.json(
       { error: "Failed to update customer" },                          // Generic error message to the client.
@@ -233,11 +252,12 @@ export async function PUT(
  * Soft-delete a customer by setting deletedAt and marking them DORMANT.
  */
 export async function DELETE(
-  _req: NextRequest,                                                   // Incoming HTTP request (unused).
+  req: NextRequest,                                                    // Incoming request; carries the session cookie.
   context: { params: Promise<{ customerId?: string }> }                // Dynamic params with customerId.
 ) {
   try {
-    const { company } = await getDemoTenant();                         // Scope deletion by company.
+    const { company, user } = await requirePermission(req, "customers:delete"); // Scope deletion by company.
+    const audited = auditedDb({ companyId: company.id, userId: user.id }); // Writes below are recorded as AuditEvents.
 
     const { customerId } = await context.params;                       // Await params and read `customerId`.
     if (!customerId) {                                                 // Guard: cannot delete without an ID.
@@ -247,12 +267,8 @@ export async function DELETE(
       );
     }
 
-    const existing = await db.customer.findFirst({                     // Ensure the customer exists and belongs to this company.
-      where: {
-        id: customerId,
-        companyId: company.id,
-        deletedAt: null,
-      },
+    const existing = await scopedDb(company.id).customer.findFirst({   // Ensure the customer exists and belongs to this company.
+      where: { id: customerId },
     });
 
     if (!existing) {                                                   // If customer already deleted or never existed...
@@ -262,7 +278,7 @@ export async function DELETE(
       );
     }
 
-    await db.customer.update({                                         // Soft-delete instead of hard-delete.
+    await audited.customer.update({                                    // Soft-delete instead of hard-delete.
       where: { id: customerId },
       data: {
         deletedAt: new Date(),                                         // Record when they were deleted.
@@ -272,6 +288,8 @@ export async function DELETE(
 
     return NextResponse.json({ success: true });                       // Return a simple success flag.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                       // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[CUSTOMER_DELETE_ERROR]", err);                     // Log failure details.
     return NextResponse.json(
       { error: "Failed to delete customer" },                          // Generic error payload.
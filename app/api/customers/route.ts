@@ -1,20 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";                     // Provides Next.js types and helpers for building route handlers.
-import { db } from "@/lib/db";                                               // Imports the shared Prisma client instance to talk to the database.
-import { getDemoTenant } from "@/lib/demoTenant";                            // Helper that ensures a demo Company + User exist and returns them.
+import { scopedDb } from "@/lib/scopedDb";                                   // Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth";           // Resolves the signed-in user + company from the session cookie.
+import { auditedDb } from "@/lib/audit";                                     // Tenant-scoped client that records an AuditEvent per write.
+import { CustomerBillingEmailSchema } from "@/lib/schemas/customers";        // Invoices and reminders go to this address.
 
 /**
  * GET /api/customers
  * Returns all non-deleted customers for the current company.
  */
-export async function GET() {                                                // Defines the GET handler for the /api/customers endpoint.
+export async function GET(req: NextRequest) {                                // Defines the GET handler for the /api/customers endpoint.
   try {                                                                      // Wraps logic in try/catch so we can handle errors cleanly.
-    const { company } = await getDemoTenant();                               // Ensures we have a demo Company and retrieves it for scoping queries.
+    const { company } = await requirePermission(req, "customers:read");      // Resolves the signed-in user's company for scoping.
 
-    const customers = await db.customer.findMany({                           // Queries the Customer table for all customers belonging to this company.
-      where: {
-        companyId: company.id,                                               // Only return customers for this specific company (multi-tenant isolation).
-        deletedAt: null,                                                     // Exclude customers that have been soft-deleted.
-      },
+    const customers = await scopedDb(company.id).customer.findMany({         // This company's live customers (scopedDb adds companyId + deletedAt: null).
       orderBy: {
         createdAt: "desc",                                                   // Sorts customers by newest first; easier to see recent adds.
       },
@@ -27,6 +25,8 @@ export async function GET() {                                                //
 
     return NextResponse.json(customers);                                     // Returns the array of customers as JSON with HTTP 200 OK.
   } catch (err) {                                                            // If any error occurs during DB access...
+    const authResponse = authErrorResponse(err);                             // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[CUSTOMERS_GET_ERROR]", err);                             // Logs the error in the server console with a clear tag for debugging.
     return NextResponse.json(                                                // Responds to the client with a generic error message.
       { error: "Failed to fetch customers" },                                // JSON payload indicating the failure.
@@ -38,7 +38,8 @@ export async function GET() {                                                //
 export async function POST(req: NextRequest) {                               // Defines the POST handler for /api/customers.
   try {
     const body = await req.json();                                           // Parses the JSON request body into a plain JS object.
-    const { company, user } = await getDemoTenant();                         // Ensures we have a demo Company + User and retrieves them.
+    const { company, user } = await requirePermission(req, "customers:create"); // Resolves the signed-in user and their company.
+    const audited = auditedDb({ companyId: company.id, userId: user.id });      // Writes below are recorded as AuditEvents.
 
     const rawName = String(body.name ?? "").trim();                          // Safely reads the name field and trims whitespace.
     if (!rawName) {                                                          // If name is missing or empty after trimming...
@@ -48,6 +49,14 @@ export async function POST(req: NextRequest) {                               //
       );
     }
 
+    const billingEmail = CustomerBillingEmailSchema.safeParse(body.billingEmail);
+    if (!billingEmail.success) {                                             // A malformed address gets a 400.
+      return NextResponse.json(
+        { error: billingEmail.error.issues[0]?.message ?? "Invalid billing email" },
+        { status: 400 }
+      );
+    }
+
     const status = (body.status as string | undefined) ?? "PROSPECT";        // Uses provided status, or defaults to PROSPECT if absent.
     const normalizedStatus = status.toUpperCase() as                         // Normalizes to uppercase to match the enum in Prisma.
       | "PROSPECT"
@@ -59,7 +68,7 @@ export async function POST(req: NextRequest) {                               //
         ? new Date()                                                         // ...set convertedAt to now so we know when they became a customer.
         : null;                                                              // Otherwise, keep convertedAt null (still a prospect or dormant).
 
-    const customer = await db.customer.create({                              // Creates a new Customer row in the database.
+    const customer = await audited.customer.create({                         // Creates a new Customer row in the database.
       data: {
         companyId: company.id,                                               // Associates customer with the current company (multi-tenant).
         userId: user.id,                                                     // Associates customer with the user who created it.
@@ -86,13 +95,21 @@ export async function POST(req: NextRequest) {                               //
           body.daysToPay !== undefined                                       // If daysToPay provided...
             ? Number(body.daysToPay)                                         // ...cast to number.
             : null,                                                          // Otherwise, leave as null.
-        billingEmail: body.billingEmail ?? null,                             // Optional AP/billing email.
+        billingEmail: billingEmail.data ?? null,                             // Optional AP/billing email, validated above.
         creditHold: Boolean(body.creditHold ?? false),                       // Whether this customer is on credit hold.
         creditLimit:
           body.creditLimit !== undefined                                     // If creditLimit provided...
             ? Number(body.creditLimit)                                       // ...cast to number.
             : null,                                                          // Otherwise, leave as null.
         portalUrl: body.portalUrl ?? null,                                   // Optional external portal URL for this customer.
+        detentionFreeHours:
+          body.detentionFreeHours != null                                    // Optional free time override (hours).
+            ? Number(body.detentionFreeHours)
+            : null,                                                          // null = use the company setting.
+        detentionRatePerHour:
+          body.detentionRatePerHour != null                                  // Optional detention rate override ($/hour).
+            ? Number(body.detentionRatePerHour)
+            : null,                                                          // null = use the company setting.
 
         // SALES / PIPELINE
         leadStatus: body.leadStatus ?? null,                                 // Optional LeadStatus enum ("HOT", "WARM", etc.).
@@ -107,6 +124,8 @@ export async function POST(req: NextRequest) {                               //
 
     return NextResponse.json(customer, { status: 201 });                     // Returns the created customer as JSON with HTTP 201 Created.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                             // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[CUSTOMERS_POST_ERROR]", err);                            // Logs any error to the server console for debugging.
     return NextResponse.json(                                                // Responds to the client with a generic error.
       { error: "Failed to create customer" },                                // JSON message indicating failure.
@@ -1,37 +1,43 @@
-import { NextResponse } from "next/server";                       // Imports NextResponse to send JSON responses from this API route.
-import { db } from "@/lib/db";                                    // Imports Prisma client so we can fetch loads from the database.
+import { NextRequest, NextResponse } from "next/server";          // Imports NextResponse to send JSON responses from this API route.
+import { scopedDb } from "@/lib/scopedDb";                        // Tenant-scoped Prisma client (companyId + soft-delete filters).
+import { authErrorResponse, requirePermission } from "@/lib/auth"; // Resolves the signed-in user + company from the session cookie.
+import { resolveCompanySettings } from "@/lib/companySettings";   // Default truck fixed cost per day.
+import { computeLoadProfitability, PROFITABILITY_INCLUDE, rpmSplit } from "@/lib/profitability"; // Same per-load profit and RPM as the load pages.
 
 // Shape of the summary we will return for each customer.
 type CustomerSummary = {                                          // Defines a TypeScript type for the response items.
   customerName: string;                                           // Name of the customer (from the broker field).
   loadCount: number;                                              // How many loads we’ve run for this customer.
   totalRevenue: number;                                           // Sum of rate across all loads for this customer.
-  totalMiles: number;                                             // Sum of miles across all loads for this customer.
-  totalCosts: number;                                             // Sum of fuel + lumper + tolls + otherCosts.
+  totalMiles: number;                                             // Sum of loaded miles across all loads for this customer.
+  totalDeadheadMiles: number;                                     // Sum of empty miles driven to this customer's pickups.
+  totalCosts: number;                                             // Direct costs, linked expenses, truck fixed cost and driver pay.
   netProfit: number;                                              // Revenue minus totalCosts.
-  avgRatePerMile: number | null;                                  // Average rate per mile across all loads (null if miles = 0).
-  avgProfitPerMile: number | null;                                // Average profit per mile (null if miles = 0).
+  avgRatePerMile: number | null;                                  // Loaded RPM across all loads (null if miles = 0).
+  allInRatePerMile: number | null;                                // RPM over loaded + deadhead miles.
+  deadheadPercent: number | null;                                 // Share of miles driven empty for this customer.
+  avgProfitPerMile: number | null;                                // Profit per mile driven, loaded or empty (null if miles = 0).
 };
 
 // GET /api/customers/summary  → returns profitability by customer.
-export async function GET() {                                     // Defines the GET handler for this analytics endpoint.
+export async function GET(req: NextRequest) {                     // Defines the GET handler for this analytics endpoint.
   try {                                                           // Wrap logic in try/catch to handle DB or runtime errors cleanly.
-    const loads = await db.load.findMany({                        // Fetches all loads in the system (later we’ll filter by logged-in user).
+    const { company } = await requirePermission(req, "reports:read"); // Resolves the signed-in user's company for scoping.
+
+    const loads = await scopedDb(company.id).load.findMany({      // Fetches the company's live loads (filters injected by scopedDb).
       orderBy: { createdAt: "desc" },                             // Orders by newest first; not required for math, but useful for debugging.
+      include: PROFITABILITY_INCLUDE,                             // Expenses, truck and drivers the profit calculation needs.
     });                                                           // Ends Prisma query.
+    const settings = resolveCompanySettings(company);             // Company default fixed cost for loads whose truck has no payment.
 
     const summaryMap = new Map<string, CustomerSummary>();        // Uses a Map keyed by customerName to accumulate stats for each customer.
+    const loadsByCustomer = new Map<string, typeof loads>();      // Keeps each customer's loads for the RPM split.
 
     for (const load of loads) {                                   // Loops through every load returned from the database.
       const customerName = load.broker ?? "Unknown";              // Uses broker as the customer name; falls back to "Unknown" if null.
 
-      const fuel = load.fuelCost ?? 0;                            // Ensures fuelCost is treated as 0 if somehow null.
-      const lumper = load.lumper ?? 0;                            // Ensures lumper is treated as 0 if null.
-      const tolls = load.tolls ?? 0;                              // Ensures tolls is treated as 0 if null.
-      const other = load.otherCosts ?? 0;                         // Ensures otherCosts is treated as 0 if null.
-
-      const totalCostForLoad = fuel + lumper + tolls + other;     // Computes total direct cost for this single load.
-      const netProfitForLoad = load.rate - totalCostForLoad;      // Computes profit for this load: revenue minus costs.
+      const { profit: netProfitForLoad } = computeLoadProfitability(load, settings); // Fully loaded profit for this load.
+      const totalCostForLoad = load.rate - netProfitForLoad;      // Everything that came out of the rate.
 
       if (!summaryMap.has(customerName)) {                        // If we haven’t seen this customer yet, initialize their summary entry.
         summaryMap.set(customerName, {                            // Creates a new CustomerSummary object for this customer.
@@ -39,14 +45,19 @@ export async function GET() {                                     // Defines the
           loadCount: 0,                                           // Start with 0 loads; we’ll increment below.
           totalRevenue: 0,                                        // Start with 0 revenue.
           totalMiles: 0,                                          // Start with 0 miles.
+          totalDeadheadMiles: 0,                                  // Start with 0 empty miles.
           totalCosts: 0,                                          // Start with 0 total costs.
           netProfit: 0,                                           // Start with 0 profit.
           avgRatePerMile: null,                                   // We’ll compute averages after we finish aggregating.
+          allInRatePerMile: null,
+          deadheadPercent: null,
           avgProfitPerMile: null,                                 // Same for profit per mile.
         });
+        loadsByCustomer.set(customerName, []);
       }
 
       const entry = summaryMap.get(customerName)!;                // Safely retrieves the existing summary object for this customer.
+      loadsByCustomer.get(customerName)!.push(load);
 
       entry.loadCount += 1;                                       // Increments how many loads this customer has.
       entry.totalRevenue += load.rate;                            // Adds this load’s revenue to the total.
@@ -59,19 +70,21 @@ export async function GET() {                                     // Defines the
     const summaries: CustomerSummary[] = [];                      // Prepares an array to hold the final summary objects.
 
     for (const entry of summaryMap.values()) {                    // Loops through each aggregated customer entry.
-      if (entry.totalMiles > 0) {                                 // Only compute per-mile metrics if we have some miles.
-        entry.avgRatePerMile = entry.totalRevenue / entry.totalMiles;   // Average revenue per mile across all loads for this customer.
-        entry.avgProfitPerMile = entry.netProfit / entry.totalMiles;    // Average profit per mile across all loads.
-      } else {
-        entry.avgRatePerMile = null;                              // If there are no miles, keep averages as null to avoid division by zero.
-        entry.avgProfitPerMile = null;                            // Same for avgProfitPerMile.
-      }
+      const split = rpmSplit(loadsByCustomer.get(entry.customerName) ?? []); // Loaded vs all-in miles for this customer.
+      entry.totalDeadheadMiles = split.deadheadMiles;
+      entry.avgRatePerMile = split.loadedRpm;                     // Null when there are no loaded miles.
+      entry.allInRatePerMile = split.allInRpm;
+      entry.deadheadPercent = split.deadheadPct;
+      entry.avgProfitPerMile =
+        split.totalMiles > 0 ? entry.netProfit / split.totalMiles : null; // Profit per mile actually driven.
 
       summaries.push(entry);                                      // Pushes the completed summary into the array to be returned.
     }
 
     return NextResponse.json(summaries);                          // Returns the list of customer summaries as JSON to the client.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                  // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[CUSTOMER_SUMMARY_ERROR]", err);               // Logs the error with a clear tag for debugging.
     return NextResponse.json(                                    // Returns a 500 error if anything goes wrong.
       { error: "Failed to compute customer summary" },            // Message for the frontend/UI.
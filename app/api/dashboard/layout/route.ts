@@ -1,7 +1,8 @@
 // app/api/dashboard/layout/route.ts
 
 import { NextRequest, NextResponse } from "next/server";            // Imports Next.js helpers for building API routes.
-import { db } from "@/lib/db";                                      // Imports Prisma client to read/write dashboard layout in the DB.
+import { scopedDb } from "@/lib/scopedDb";                          // Prisma client pinned to the signed-in company.
+import { authErrorResponse, getCurrentTenant } from "@/lib/auth";   // Resolves the signed-in user + company from the session cookie.
 import {
   DEFAULT_DASHBOARD_LAYOUT,
   WidgetLayoutConfig,
@@ -18,23 +19,11 @@ type LayoutResponseItem = {                                         // Each layo
 };
 
 // GET /api/dashboard/layout  → return current user’s layout (or defaults).
-export async function GET() {                                       // Handles GET requests for this endpoint.
+export async function GET(req: NextRequest) {                       // Handles GET requests for this endpoint.
   try {
-    // TEMP AUTH: use demo user until real auth is wired in.         //
-    let user = await db.user.findFirst({                            // Looks up the demo user by email.
-      where: { email: "demo@demo.com" },                            // Filters on the fixed demo email.
-    });
-
-    if (!user) {                                                    // If the demo user doesn’t exist yet...
-      user = await db.user.create({                                 // ...create it so related data has an owner.
-        data: {
-          email: "demo@demo.com",                                   // Demo email used across the app.
-          passwordHash: "placeholder",                              // Placeholder password until proper auth.
-        },
-      });
-    }
+    const { user, company } = await getCurrentTenant(req);          // Layouts are saved per signed-in user.
 
-    const rows = await db.dashboardWidgetLayout.findMany({          // Fetches any saved layout rows for this user.
+    const rows = await scopedDb(company.id).dashboardWidgetLayout.findMany({ // Fetches any saved layout rows for this user.
       where: { userId: user.id },                                   // Filters by userId so each user has independent layout.
       orderBy: [{ y: "asc" }, { x: "asc" }],                        // Orders by row then column for stable rendering.
     });
@@ -61,6 +50,8 @@ export async function GET() {                                       // Handles G
 
     return NextResponse.json(layout);                               // Return the layout array as JSON to the client.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                    // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[DASHBOARD_LAYOUT_GET_ERROR]", err);             // Log any error for server-side debugging.
     return NextResponse.json(                                      // Return a 500 error response to caller.
       { error: "Failed to load dashboard layout" },                 // Short error message for the frontend.
@@ -82,23 +73,11 @@ export async function POST(req: NextRequest) {                      // Handles P
       );
     }
 
-    // TEMP AUTH: same demo user as above.                           //
-    let user = await db.user.findFirst({                            // Looks up the demo user row.
-      where: { email: "demo@demo.com" },                            // Fixed demo email.
-    });
-
-    if (!user) {                                                    // If demo user is missing...
-      user = await db.user.create({                                 // ...create it.
-        data: {
-          email: "demo@demo.com",                                   // Demo email.
-          passwordHash: "placeholder",                              // Placeholder hash.
-        },
-      });
-    }
+    const { user, company } = await getCurrentTenant(req);          // Layout rows belong to the signed-in user + company.
 
-    await db.$transaction(async (tx) => {                           // Use a transaction so layout updates are atomic.
+    await scopedDb(company.id).$transaction(async (tx) => {         // Use a transaction so layout updates are atomic.
       await tx.dashboardWidgetLayout.deleteMany({                   // First, remove any existing layout rows for this user.
-        where: { userId: user!.id },                                // Filter by current userId.
+        where: { userId: user.id },                                 // Filter by current userId.
       });
 
       if (layout.length === 0) {                                    // If client sent empty layout, nothing more to store.
@@ -107,7 +86,8 @@ export async function POST(req: NextRequest) {                      // Handles P
 
       await tx.dashboardWidgetLayout.createMany({                   // Inserts new layout rows for each widget.
         data: layout.map((item) => ({                               // Maps frontend layout entries into DB rows.
-          userId: user!.id,                                         // Associates row with current user.
+          userId: user.id,                                          // Associates row with current user.
+          companyId: company.id,                                    // Tenant scope for the layout row.
           widgetId: item.id,                                        // Stores widget ID string.
           x: item.x,                                                // Stores X position.
           y: item.y,                                                // Stores Y position.
@@ -119,6 +99,8 @@ export async function POST(req: NextRequest) {                      // Handles P
 
     return NextResponse.json({ success: true });                    // Return a simple success flag on save.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                    // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[DASHBOARD_LAYOUT_POST_ERROR]", err);            // Log any error that occurs during save.
     return NextResponse.json(                                      // Respond with a 500 error if saving fails.
       { error: "Failed to save dashboard layout" },                 // Error message for frontend.
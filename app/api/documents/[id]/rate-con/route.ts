@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { extractPdfText, PdfTextError } from "@/lib/pdfText";
+import { documentAccessFilter } from "@/lib/permissions";
+import { parseRateCon } from "@/lib/rateCon";
+import { scopedDb } from "@/lib/scopedDb";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+// POST /api/documents/:id/rate-con -> parse an uploaded rate confirmation PDF into a load draft.
+// Nothing is saved here: the client reviews the draft and posts it to /api/loads with
+// `sourceDocumentId`, which links this document to the new load.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id?: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!id) return NextResponse.json({ error: "Document ID is required" }, { status: 400 });
+
+    const { company, user } = await requirePermission(req, "loads:create");
+
+    const doc = await scopedDb(company.id).document.findFirst({
+      where: { id, ...documentAccessFilter(user) },
+    });
+
+    if (!doc) return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    if (doc.loadId) {
+      return NextResponse.json({ error: "Document is already linked to a load" }, { status: 409 });
+    }
+
+    const isPdf = doc.fileType === "application/pdf" || doc.fileName.toLowerCase().endsWith(".pdf");
+    if (!isPdf) {
+      return NextResponse.json({ error: "Rate confirmations must be PDF files" }, { status: 415 });
+    }
+
+    const { data, error } = await supabaseAdmin.storage.from("documents").download(doc.storageKey);
+    if (error || !data) {
+      console.error("[SUPABASE_DOWNLOAD_ERROR]", error);
+      return NextResponse.json({ error: "Failed to read document" }, { status: 500 });
+    }
+
+    const text = await extractPdfText(Buffer.from(await data.arrayBuffer()));
+    if (!text) {
+      // Scanned/image-only PDFs have no text layer to parse
+      return NextResponse.json(
+        { error: "No text found in this PDF. Scanned rate confirmations need to be entered manually." },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({ documentId: doc.id, draft: parseRateCon(text) });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    if (err instanceof PdfTextError) {
+      return NextResponse.json({ error: err.message }, { status: 422 });
+    }
+    console.error("[RATE_CON_PARSE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to parse rate confirmation" }, { status: 500 });
+  }
+}
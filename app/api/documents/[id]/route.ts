@@ -1,13 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/db";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { documentAccessFilter } from "@/lib/permissions";
+import { DocumentTypeSchema } from "@/lib/schemas/documents";
+import { scopedDb } from "@/lib/scopedDb";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 
-async function requireDemoCompanyId() {
-  let company = await db.company.findFirst({ where: { name: "Demo Company" } });
-  if (!company) company = await db.company.create({ data: { name: "Demo Company" } });
-  return company.id;
-}
-
 // GET /api/documents/:id -> return document + signed URL
 export async function GET(
   req: NextRequest,
@@ -17,10 +14,10 @@ export async function GET(
     const { id } = await params;
     if (!id) return NextResponse.json({ error: "Document ID is required" }, { status: 400 });
 
-    const companyId = await requireDemoCompanyId();
+    const { company, user } = await requirePermission(req, "documents:read");
 
-    const doc = await db.document.findFirst({
-      where: { id, companyId },
+    const doc = await scopedDb(company.id).document.findFirst({
+      where: { id, ...documentAccessFilter(user) },
     });
 
     if (!doc) return NextResponse.json({ error: "Document not found" }, { status: 404 });
@@ -40,6 +37,8 @@ export async function GET(
       expiresInSeconds: 60,
     });
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[DOCUMENT_GET_ERROR]", err);
     return NextResponse.json({ error: "Failed to fetch document" }, { status: 500 });
   }
@@ -54,11 +53,11 @@ export async function PUT(
     const { id } = await params;
     if (!id) return NextResponse.json({ error: "Document ID is required" }, { status: 400 });
 
-    const companyId = await requireDemoCompanyId();
+    const tdb = scopedDb((await requirePermission(req, "documents:update")).company.id);
     const body = await req.json().catch(() => ({}));
 
-    const updated = await db.document.updateMany({
-      where: { id, companyId },
+    const updated = await tdb.document.updateMany({
+      where: { id },
       data: {
         fileName: typeof body.fileName === "string" ? body.fileName : undefined,
         loadId: body.loadId === null || typeof body.loadId === "string" ? body.loadId : undefined,
@@ -69,6 +68,8 @@ export async function PUT(
         truckId: body.truckId === null || typeof body.truckId === "string" ? body.truckId : undefined,
         trailerId:
           body.trailerId === null || typeof body.trailerId === "string" ? body.trailerId : undefined,
+        type:
+          body.type === null || DocumentTypeSchema.safeParse(body.type).success ? body.type : undefined,
       },
     });
 
@@ -76,9 +77,11 @@ export async function PUT(
       return NextResponse.json({ error: "Document not found" }, { status: 404 });
     }
 
-    const doc = await db.document.findFirst({ where: { id, companyId } });
+    const doc = await tdb.document.findFirst({ where: { id } });
     return NextResponse.json(doc);
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[DOCUMENT_PUT_ERROR]", err);
     return NextResponse.json({ error: "Failed to update document" }, { status: 500 });
   }
@@ -93,9 +96,9 @@ export async function DELETE(
     const { id } = await params;
     if (!id) return NextResponse.json({ error: "Document ID is required" }, { status: 400 });
 
-    const companyId = await requireDemoCompanyId();
+    const tdb = scopedDb((await requirePermission(req, "documents:delete")).company.id);
 
-    const doc = await db.document.findFirst({ where: { id, companyId } });
+    const doc = await tdb.document.findFirst({ where: { id } });
     if (!doc) return NextResponse.json({ error: "Document not found" }, { status: 404 });
 
     const { error: removeError } = await supabaseAdmin.storage
@@ -107,10 +110,12 @@ export async function DELETE(
       return NextResponse.json({ error: "Failed to delete file from storage" }, { status: 500 });
     }
 
-    await db.document.delete({ where: { id: doc.id } });
+    await tdb.document.delete({ where: { id: doc.id } });
 
     return NextResponse.json({ success: true });
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[DOCUMENT_DELETE_ERROR]", err);
     return NextResponse.json({ error: "Failed to delete document" }, { status: 500 });
   }
@@ -1,31 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/db";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { inferDocumentType } from "@/lib/documents";
+import { documentAccessFilter } from "@/lib/permissions";
+import { DocumentTypeSchema } from "@/lib/schemas/documents";
+import { scopedDb } from "@/lib/scopedDb";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 
-async function requireDemoContext() {
-  // Company
-  let company = await db.company.findFirst({ where: { name: "Demo Company" } });
-  if (!company) {
-    company = await db.company.create({ data: { name: "Demo Company" } });
-  }
-
-  // User
-  let user = await db.user.findFirst({ where: { email: "demo@demo.com" } });
-  if (!user) {
-    user = await db.user.create({
-      data: {
-        email: "demo@demo.com",
-        passwordHash: "placeholder",
-        companyId: company.id,
-        role: "OWNER",
-        fullName: "Demo User",
-      },
-    });
-  }
-
-  return { user, company };
-}
-
 function safeExtFromName(name: string) {
   const parts = name.split(".");
   if (parts.length < 2) return "bin";
@@ -33,18 +13,20 @@ function safeExtFromName(name: string) {
   return ext.replace(/[^a-z0-9]/g, "") || "bin";
 }
 
-// GET /api/documents -> list documents (demo company only for now)
-export async function GET() {
+// GET /api/documents -> list documents (current company only)
+export async function GET(req: NextRequest) {
   try {
-    const { company } = await requireDemoContext();
+    const { company, user } = await requirePermission(req, "documents:read");
 
-    const docs = await db.document.findMany({
-      where: { companyId: company.id },
+    const docs = await scopedDb(company.id).document.findMany({
+      where: documentAccessFilter(user), // drivers: own uploads + assigned loads
       orderBy: { createdAt: "desc" },
     });
 
     return NextResponse.json(docs);
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[DOCUMENTS_GET_ERROR]", err);
     return NextResponse.json({ error: "Failed to fetch documents" }, { status: 500 });
   }
@@ -53,7 +35,7 @@ export async function GET() {
 // POST /api/documents -> upload file to Supabase + create Document row
 export async function POST(req: NextRequest) {
   try {
-    const { user, company } = await requireDemoContext();
+    const { user, company } = await requirePermission(req, "documents:create");
 
     const form = await req.formData();
 
@@ -68,6 +50,14 @@ export async function POST(req: NextRequest) {
     const truckId = (form.get("truckId") as string | null) ?? null;
     const trailerId = (form.get("trailerId") as string | null) ?? null;
 
+    // RATE_CON / BOL / POD / ...; guessed from the file name when not given
+    const rawType = form.get("type");
+    const parsedType = rawType ? DocumentTypeSchema.safeParse(rawType) : null;
+    if (parsedType && !parsedType.success) {
+      return NextResponse.json({ error: "Unknown document type" }, { status: 400 });
+    }
+    const type = parsedType?.data ?? inferDocumentType(file.name);
+
     // Build storage key (stable + avoids collisions)
     const ext = safeExtFromName(file.name);
     const storageKey = `company/${company.id}/${Date.now()}_${crypto.randomUUID()}.${ext}`;
@@ -87,7 +77,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Failed to upload file" }, { status: 500 });
     }
 
-    const doc = await db.document.create({
+    const doc = await scopedDb(company.id).document.create({
       data: {
         companyId: company.id,
         userId: user.id,
@@ -100,11 +90,14 @@ export async function POST(req: NextRequest) {
         fileType: file.type || null,
         fileSize: file.size ?? null,
         storageKey,
+        type,
       },
     });
 
     return NextResponse.json(doc, { status: 201 });
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[DOCUMENTS_POST_ERROR]", err);
     return NextResponse.json({ error: "Failed to upload document" }, { status: 500 });
   }
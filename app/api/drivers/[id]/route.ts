@@ -1,51 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";                       // \\ Next.js helpers for app router API handlers.
-import { db } from "@/lib/db";                                                 // \\ Prisma client instance.
-
-// Same demo auth helper pattern as in /api/drivers.                           // \\ Keeps scoping consistent across list/create + detail/update/delete.
-async function getDemoAuthContext() {                                          // \\ Returns { user, company } for demo.
-  let user = await db.user.findFirst({                                         // \\ Try to locate the demo user by email.
-    where: { email: "demo@demo.com" },
-    include: { company: true },                                                // \\ Also fetch the related company if present.
-  });
-
-  if (user && user.company) {                                                  // \\ If both exist...
-    return { user, company: user.company };                                    // \\ ...reuse them.
-  }
-
-  let company;
-
-  if (user?.companyId) {                                                       // \\ If user references a companyId...
-    company =
-      (await db.company.findUnique({ where: { id: user.companyId } })) ||      // \\ Try to load that.
-      (await db.company.create({ data: { name: "Demo Company" } }));           // \\ Or create Demo Company if missing.
-  } else {
-    company =
-      (await db.company.findFirst()) ||                                        // \\ Prefer any existing company...
-      (await db.company.create({ data: { name: "Demo Company" } }));           // \\ ...otherwise create a new one.
-  }
-
-  if (!user) {                                                                 // \\ If no demo user exists yet...
-    user = await db.user.create({                                              // \\ ...create one linked to the company.
-      data: {
-        email: "demo@demo.com",
-        passwordHash: "placeholder",
-        companyId: company.id,
-        fullName: "Demo User",
-      },
-    });
-  } else if (!user.companyId) {                                                // \\ If user had no companyId...
-    user = await db.user.update({                                              // \\ ...patch to link the company.
-      where: { id: user.id },
-      data: { companyId: company.id },
-    });
-  }
-
-  return { user, company };                                                    // \\ Done: return both.
-}
+import { scopedDb } from "@/lib/scopedDb";                                     // \\ Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth";             // \\ Resolves the signed-in user + company from the session cookie.
+import { auditedDb } from "@/lib/audit";                                       // \\ Tenant-scoped client that records an AuditEvent per write.
+import { DriverPayType } from "@prisma/client";                                // \\ PER_MILE | PERCENT_OF_RATE | FLAT_PER_LOAD.
 
 // GET /api/drivers/:id → fetch a single driver by ID.                         // \\ Read endpoint for driver details.
 export async function GET(
-  _req: NextRequest,                                                           // \\ Request object, unused here.
+  req: NextRequest,                                                            // \\ Incoming request; carries the session cookie.
   { params }: { params: Promise<{ id: string }> }                              // \\ Dynamic route params come as a Promise.
 ) {
   try {
@@ -58,13 +19,10 @@ export async function GET(
       );
     }
 
-    const { company } = await getDemoAuthContext();                            // \\ Resolve company for scoping.
+    const { company } = await requirePermission(req, "drivers:read");          // \\ Resolve company for scoping.
 
-    const driver = await db.driver.findFirst({                                 // \\ Fetch driver row from DB.
-      where: {
-        id,                                                                    // \\ Must match specific ID.
-        companyId: company.id,                                                 // \\ Must belong to this company (multi-tenant safety).
-      },
+    const driver = await scopedDb(company.id).driver.findFirst({               // \\ Fetch driver row from this company's drivers.
+      where: { id },                                                           // \\ Must match specific ID.
     });
 
     if (!driver) {                                                             // \\ If no matching driver...
@@ -76,6 +34,8 @@ export async function GET(
 
     return NextResponse.json(driver);                                          // \\ On success, return driver as JSON.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                               // \\ Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[DRIVER_GET_ERROR]", err);                                  // \\ Log server error.
     return NextResponse.json(
       { error: "Failed to fetch driver" },                                     // \\ Generic error for client.
@@ -99,10 +59,13 @@ export async function PUT(
       );
     }
 
-    const { company } = await getDemoAuthContext();                            // \\ Resolve company to scope query.
+    const { company, user } = await requirePermission(req, "drivers:update");  // \\ Resolve company to scope query.
+    const audited = auditedDb({ companyId: company.id, userId: user.id });     // \\ Writes below are recorded as AuditEvents.
+
+    const tdb = scopedDb(company.id);                                          // \\ Reads below only see this company's rows.
 
-    const existing = await db.driver.findFirst({                               // \\ Look up the existing driver row.
-      where: { id, companyId: company.id },                                    // \\ Ensure it belongs to this company.
+    const existing = await tdb.driver.findFirst({                              // \\ Look up the existing driver row.
+      where: { id },
     });
 
     if (!existing) {                                                           // \\ If not found...
@@ -123,9 +86,29 @@ export async function PUT(
       licenseNumber,
       licenseState,
       terminationDate,
+      userId,
+      payType,
+      payRate,
     } = body;
 
-    const updated = await db.driver.update({                                   // \\ Persist changes to DB.
+    if (userId) {                                                              // \\ Linked login must belong to the same company.
+      const linkedUser = await tdb.user.findFirst({ where: { id: userId } });
+      if (!linkedUser) {
+        return NextResponse.json(
+          { error: "User not found" },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (payType != null && !Object.values(DriverPayType).includes(payType)) {
+      return NextResponse.json({ error: "Invalid payType" }, { status: 400 });
+    }
+    if (payRate != null && (!Number.isFinite(Number(payRate)) || Number(payRate) < 0)) {
+      return NextResponse.json({ error: "payRate must be a non-negative number" }, { status: 400 });
+    }
+
+    const updated = await audited.driver.update({                              // \\ Persist changes to DB.
       where: { id },                                                           // \\ Primary key selection.
       data: {
         firstName: firstName ?? existing.firstName,                            // \\ Only change name fields if provided.
@@ -145,11 +128,17 @@ export async function PUT(
           terminationDate != null
             ? (terminationDate ? new Date(terminationDate) : null)             // \\ Allow explicit null to clear value.
             : existing.terminationDate,
+        userId: userId !== undefined ? userId : existing.userId,               // \\ Explicit null unlinks the login.
+        payType: payType !== undefined ? payType : existing.payType,           // \\ Explicit null clears the pay terms.
+        payRate:
+          payRate !== undefined ? (payRate === null ? null : Number(payRate)) : existing.payRate,
       },
     });
 
     return NextResponse.json(updated);                                         // \\ Return updated driver record.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                               // \\ Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[DRIVER_UPDATE_ERROR]", err);                               // \\ Log unexpected errors.
     return NextResponse.json(
       { error: "Failed to update driver" },                                    // \\ Generic client-facing message.
@@ -160,7 +149,7 @@ export async function PUT(
 
 // DELETE /api/drivers/:id → remove a driver.                                  // \\ Hard delete endpoint (no soft-delete yet).
 export async function DELETE(
-  _req: NextRequest,                                                           // \\ Request object, unused.
+  req: NextRequest,                                                            // \\ Incoming request; carries the session cookie.
   { params }: { params: Promise<{ id: string }> }                              // \\ ID from route.
 ) {
   try {
@@ -173,10 +162,11 @@ export async function DELETE(
       );
     }
 
-    const { company } = await getDemoAuthContext();                            // \\ Resolve company context.
+    const { company, user } = await requirePermission(req, "drivers:delete");  // \\ Resolve company context.
+    const audited = auditedDb({ companyId: company.id, userId: user.id });     // \\ Writes below are recorded as AuditEvents.
 
-    const existing = await db.driver.findFirst({                               // \\ Ensure driver exists & belongs to this company.
-      where: { id, companyId: company.id },
+    const existing = await scopedDb(company.id).driver.findFirst({             // \\ Ensure driver exists & belongs to this company.
+      where: { id },
     });
 
     if (!existing) {                                                           // \\ If not found -> 404.
@@ -186,12 +176,14 @@ export async function DELETE(
       );
     }
 
-    await db.driver.delete({                                                   // \\ Delete the row from the database.
+    await audited.driver.delete({                                              // \\ Delete the row from the database.
       where: { id },                                                           // \\ Use primary key for delete.
     });
 
     return NextResponse.json({ success: true });                               // \\ Simple success response.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                               // \\ Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[DRIVER_DELETE_ERROR]", err);                               // \\ Log errors for debugging.
     return NextResponse.json(
       { error: "Failed to delete driver" },                                    // \\ Generic error response.
@@ -1,60 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";                       // \\ Next.js request/response helpers for app route handlers.
-import { db } from "@/lib/db";                                                 // \\ Shared Prisma client instance to talk to the database.
+import { scopedDb } from "@/lib/scopedDb";                                     // \\ Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth";             // \\ Resolves the signed-in user + company from the session cookie.
+import { auditedDb } from "@/lib/audit";                                       // \\ Tenant-scoped client that records an AuditEvent per write.
+import { DriverPayType } from "@prisma/client";                                // \\ PER_MILE | PERCENT_OF_RATE | FLAT_PER_LOAD.
 
-// Temporary demo auth helper: reuses existing demo user + company.            // \\ Same pattern as expenses so scoping is consistent.
-async function getDemoAuthContext() {                                          // \\ Returns { user, company } for the demo environment.
-  let user = await db.user.findFirst({                                         // \\ Try to find the demo user by email.
-    where: { email: "demo@demo.com" },                                         // \\ Hard-coded until proper auth is added.
-    include: { company: true },                                                // \\ Also load the related company if it exists.
-  });
-
-  if (user && user.company) {                                                  // \\ If both user and company are present...
-    return { user, company: user.company };                                    // \\ ...reuse them so data lines up with existing records.
-  }
-
-  let company;                                                                 // \\ Will hold the resolved or newly created company.
-
-  if (user?.companyId) {                                                       // \\ If the user has a companyId reference...
-    company =
-      (await db.company.findUnique({ where: { id: user.companyId } })) ||      // \\ Try to load that company from the DB.
-      (await db.company.create({ data: { name: "Demo Company" } }));           // \\ If missing, create a fallback Demo Company.
-  } else {                                                                     // \\ If there is no user or no companyId...
-    company =
-      (await db.company.findFirst()) ||                                        // \\ Reuse any existing company, if one exists.
-      (await db.company.create({ data: { name: "Demo Company" } }));           // \\ Otherwise create a new Demo Company row.
-  }
-
-  if (!user) {                                                                 // \\ If we still don't have a user...
-    user = await db.user.create({                                              // \\ ...create the demo user and attach it to the company.
-      data: {
-        email: "demo@demo.com",                                                // \\ Demo email identity.
-        passwordHash: "placeholder",                                           // \\ Placeholder hash until real auth.
-        companyId: company.id,                                                 // \\ Attach to resolved company.
-        fullName: "Demo User",                                                 // \\ Optional human-readable name.
-      },
-    });
-  } else if (!user.companyId) {                                                // \\ If user existed but had no companyId set...
-    user = await db.user.update({                                              // \\ ...patch them to point at the resolved company.
-      where: { id: user.id },
-      data: { companyId: company.id },
-    });
-  }
-
-  return { user, company };                                                    // \\ Return both objects for use by route handlers.
-}
-
-// GET /api/drivers → list all drivers for the demo company.                   // \\ Read endpoint to show driver roster.
-export async function GET(_req: NextRequest) {                                 // \\ GET handler; we don't use the request itself yet.
+// GET /api/drivers → list all drivers for the current company.                   // \\ Read endpoint to show driver roster.
+export async function GET(req: NextRequest) {                                  // \\ GET handler; req carries the session cookie.
   try {
-    const { company } = await getDemoAuthContext();                            // \\ Resolve demo company context for scoping.
+    const { company } = await requirePermission(req, "drivers:read");          // \\ Resolves the signed-in user's company for scoping.
 
-    const drivers = await db.driver.findMany({                                 // \\ Fetch drivers from the Driver table.
-      where: { companyId: company.id },                                        // \\ Only drivers belonging to this company.
+    const drivers = await scopedDb(company.id).driver.findMany({               // \\ Fetch this company's drivers.
       orderBy: { createdAt: "desc" },                                          // \\ Newest first, for now.
     });
 
     return NextResponse.json(drivers);                                         // \\ Return list as JSON (may be [] if none exist).
   } catch (err) {
+    const authResponse = authErrorResponse(err);                               // \\ Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[DRIVERS_GET_ERROR]", err);                                 // \\ Log unexpected server-side errors.
     return NextResponse.json(
       { error: "Failed to fetch drivers" },                                    // \\ Generic error message for the client.
@@ -66,7 +28,8 @@ export async function GET(_req: NextRequest) {                                 /
 // POST /api/drivers → create a new driver.                                    // \\ Write endpoint to add a driver to the fleet.
 export async function POST(req: NextRequest) {                                 // \\ POST handler; consumes JSON body.
   try {
-    const { company } = await getDemoAuthContext();                            // \\ Only need companyId for driver creation.
+    const { company, user } = await requirePermission(req, "drivers:create");  // \\ Only need companyId for driver creation.
+    const audited = auditedDb({ companyId: company.id, userId: user.id });     // \\ Writes below are recorded as AuditEvents.
     const body = await req.json();                                             // \\ Parse JSON payload from the client.
 
     const {
@@ -78,6 +41,9 @@ export async function POST(req: NextRequest) {                                 /
       licenseNumber,                                                           // \\ Optional: CDL/license number.
       licenseState,                                                            // \\ Optional: issuing state.
       terminationDate,                                                         // \\ Optional: termination date if inactive.
+      userId,                                                                  // \\ Optional: login account for this driver (DRIVER role).
+      payType,                                                                 // \\ Optional: how the driver is paid per load.
+      payRate,                                                                 // \\ Optional: $/mile, % of rate or $ per load, per payType.
     } = body;
 
     if (!firstName || !lastName) {                                             // \\ Basic validation: we need at least a name.
@@ -87,7 +53,24 @@ export async function POST(req: NextRequest) {                                 /
       );
     }
 
-    const driver = await db.driver.create({                                    // \\ Insert new row into Driver table.
+    if (userId) {                                                              // \\ Linked login must belong to the same company.
+      const linkedUser = await scopedDb(company.id).user.findFirst({ where: { id: userId } });
+      if (!linkedUser) {
+        return NextResponse.json(
+          { error: "User not found" },                                         // \\ Never link across tenants.
+          { status: 400 }
+        );
+      }
+    }
+
+    if (payType != null && !Object.values(DriverPayType).includes(payType)) {  // \\ Pay terms feed load profitability, so reject junk.
+      return NextResponse.json({ error: "Invalid payType" }, { status: 400 });
+    }
+    if (payRate != null && (!Number.isFinite(Number(payRate)) || Number(payRate) < 0)) {
+      return NextResponse.json({ error: "payRate must be a non-negative number" }, { status: 400 });
+    }
+
+    const driver = await audited.driver.create({                               // \\ Insert new row into Driver table.
       data: {
         companyId: company.id,                                                 // \\ Link driver to this company (multi-tenant).
         firstName,                                                             // \\ Store first name as provided.
@@ -98,11 +81,16 @@ export async function POST(req: NextRequest) {                                 /
         licenseNumber: licenseNumber ?? null,                                  // \\ Optional fields stored as null if missing.
         licenseState: licenseState ?? null,
         terminationDate: terminationDate ? new Date(terminationDate) : null,   // \\ Termination date if provided, otherwise null.
+        userId: userId ?? null,                                                // \\ Lets the driver sign in and see their assigned loads.
+        payType: payType ?? null,                                              // \\ Without pay terms the driver counts as $0 in profitability.
+        payRate: payRate != null ? Number(payRate) : null,
       },
     });
 
     return NextResponse.json(driver, { status: 201 });                         // \\ Return the created driver with HTTP 201 Created.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                               // \\ Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[DRIVERS_POST_ERROR]", err);                                // \\ Log failure details.
     return NextResponse.json(
       { error: "Failed to create driver" },                                    // \\ Generic error message for client.
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { auditedDb } from "@/lib/audit";
+import { serializeDunningStep } from "@/lib/dunning";
+import { findEmailTemplate } from "@/lib/email";
+import { scopedDb } from "@/lib/scopedDb";
+import { UpdateDunningStepSchema } from "@/lib/schemas/dunning";
+
+type RouteContext = { params: Promise<{ stepId?: string }> };
+
+/**
+ * PUT /api/dunning-steps/:stepId
+ * Body: any of offsetDays, action, templateSlug, isActive. Invoices the step already ran
+ * for aren't contacted again, even if the offset moves.
+ */
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "company:update");
+    const { stepId } = await params;
+
+    if (!stepId) {
+      return NextResponse.json({ error: "Step ID is required" }, { status: 400 });
+    }
+
+    const parsed = UpdateDunningStepSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid dunning step" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await scopedDb(company.id).dunningStep.findFirst({ where: { id: stepId } });
+    if (!existing) {
+      return NextResponse.json({ error: "Dunning step not found" }, { status: 404 });
+    }
+
+    const data = { ...parsed.data };
+    if ((data.action ?? existing.action) === "TASK") data.templateSlug = null;
+    if (data.templateSlug && !(await findEmailTemplate(company.id, data.templateSlug))) {
+      return NextResponse.json({ error: `No email template "${data.templateSlug}"` }, { status: 400 });
+    }
+
+    const step = await auditedDb({ companyId: company.id, userId: user.id }).dunningStep.update({
+      where: { id: stepId },
+      data,
+    });
+
+    return NextResponse.json(serializeDunningStep(step));
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[DUNNING_STEP_UPDATE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to update dunning step" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/dunning-steps/:stepId
+ * Its run history goes with it. Emails and tasks it already created stay.
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "company:update");
+    const { stepId } = await params;
+
+    if (!stepId) {
+      return NextResponse.json({ error: "Step ID is required" }, { status: 400 });
+    }
+
+    const existing = await scopedDb(company.id).dunningStep.findFirst({
+      where: { id: stepId },
+      select: { id: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Dunning step not found" }, { status: 404 });
+    }
+
+    await auditedDb({ companyId: company.id, userId: user.id }).dunningStep.delete({
+      where: { id: stepId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[DUNNING_STEP_DELETE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to delete dunning step" }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { auditedDb } from "@/lib/audit";
+import { serializeDunningStep } from "@/lib/dunning";
+import { findEmailTemplate } from "@/lib/email";
+import { scopedDb } from "@/lib/scopedDb";
+import { CreateDunningStepSchema } from "@/lib/schemas/dunning";
+
+/**
+ * GET /api/dunning-steps
+ * The company's dunning steps, earliest first.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { company } = await requirePermission(req, "company:read");
+
+    const steps = await scopedDb(company.id).dunningStep.findMany({
+      orderBy: [{ offsetDays: "asc" }, { action: "asc" }],
+    });
+
+    return NextResponse.json(steps.map(serializeDunningStep));
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[DUNNING_STEPS_GET_ERROR]", err);
+    return NextResponse.json({ error: "Failed to fetch dunning steps" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/dunning-steps
+ * Body: { offsetDays: 15, action: "EMAIL" | "TASK", templateSlug?, isActive? }
+ * offsetDays counts from the due date (-3 = three days before). EMAIL steps send the named
+ * template, or the built-in reminder/overdue notice; TASK steps assign a COLLECT_PAYMENT
+ * task to the accounting user.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { company, user } = await requirePermission(req, "company:update");
+
+    const parsed = CreateDunningStepSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid dunning step" },
+        { status: 400 }
+      );
+    }
+
+    const { offsetDays, action, isActive } = parsed.data;
+    const templateSlug = action === "EMAIL" ? (parsed.data.templateSlug ?? null) : null;
+    if (templateSlug && !(await findEmailTemplate(company.id, templateSlug))) {
+      return NextResponse.json({ error: `No email template "${templateSlug}"` }, { status: 400 });
+    }
+
+    const step = await auditedDb({ companyId: company.id, userId: user.id }).dunningStep.create({
+      data: { companyId: company.id, offsetDays, action, templateSlug, isActive: isActive ?? true },
+    });
+
+    return NextResponse.json(serializeDunningStep(step), { status: 201 });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[DUNNING_STEPS_POST_ERROR]", err);
+    return NextResponse.json({ error: "Failed to create dunning step" }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { auditedDb } from "@/lib/audit";
+import { serializeEmailTemplate, unknownTemplateVariables } from "@/lib/email";
+import { scopedDb } from "@/lib/scopedDb";
+import { UpdateEmailTemplateSchema } from "@/lib/schemas/emailTemplates";
+
+type RouteContext = { params: Promise<{ templateId?: string }> };
+
+/**
+ * GET /api/email-templates/:templateId
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company } = await requirePermission(req, "company:read");
+    const { templateId } = await params;
+
+    if (!templateId) {
+      return NextResponse.json({ error: "Template ID is required" }, { status: 400 });
+    }
+
+    const template = await scopedDb(company.id).emailTemplate.findFirst({ where: { id: templateId } });
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(serializeEmailTemplate(template));
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[EMAIL_TEMPLATE_GET_ERROR]", err);
+    return NextResponse.json({ error: "Failed to fetch email template" }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/email-templates/:templateId
+ * Body: any of slug, name, subject, htmlBody, textBody. Emails already queued keep the
+ * text they were rendered with.
+ */
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "company:update");
+    const { templateId } = await params;
+
+    if (!templateId) {
+      return NextResponse.json({ error: "Template ID is required" }, { status: 400 });
+    }
+
+    const parsed = UpdateEmailTemplateSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid email template" },
+        { status: 400 }
+      );
+    }
+
+    const unknown = unknownTemplateVariables(parsed.data);
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown template variables: ${unknown.map((v) => `{{${v}}}`).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await scopedDb(company.id).emailTemplate.findFirst({
+      where: { id: templateId },
+      select: { id: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    const template = await auditedDb({ companyId: company.id, userId: user.id }).emailTemplate.update({
+      where: { id: templateId },
+      data: parsed.data,
+    });
+
+    return NextResponse.json(serializeEmailTemplate(template));
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      return NextResponse.json({ error: "A template with this slug already exists" }, { status: 409 });
+    }
+    console.error("[EMAIL_TEMPLATE_UPDATE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to update email template" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/email-templates/:templateId
+ * Sent emails keep their log rows; a replaced built-in template comes back.
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "company:update");
+    const { templateId } = await params;
+
+    if (!templateId) {
+      return NextResponse.json({ error: "Template ID is required" }, { status: 400 });
+    }
+
+    const tdb = scopedDb(company.id);
+    const existing = await tdb.emailTemplate.findFirst({ where: { id: templateId }, select: { id: true } });
+    if (!existing) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    await tdb.emailLog.updateMany({ where: { templateId }, data: { templateId: null } });
+    await auditedDb({ companyId: company.id, userId: user.id }).emailTemplate.delete({
+      where: { id: templateId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[EMAIL_TEMPLATE_DELETE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to delete email template" }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { auditedDb } from "@/lib/audit";
+import { listEmailTemplates, serializeEmailTemplate, unknownTemplateVariables } from "@/lib/email";
+import { CreateEmailTemplateSchema } from "@/lib/schemas/emailTemplates";
+
+/**
+ * GET /api/email-templates
+ * The company's templates plus the built-in ones it hasn't replaced (id null, builtIn true).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { company } = await requirePermission(req, "company:read");
+    return NextResponse.json(await listEmailTemplates(company.id));
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[EMAIL_TEMPLATES_GET_ERROR]", err);
+    return NextResponse.json({ error: "Failed to fetch email templates" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/email-templates
+ * Body: { slug: "invoice", name, subject, htmlBody, textBody? }
+ * Subject and bodies may use {{variables}} such as {{customer.name}} and {{invoice.total}}.
+ * Using a built-in slug replaces the built-in template for this company.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { company, user } = await requirePermission(req, "company:update");
+
+    const parsed = CreateEmailTemplateSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid email template" },
+        { status: 400 }
+      );
+    }
+
+    const unknown = unknownTemplateVariables(parsed.data);
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown template variables: ${unknown.map((v) => `{{${v}}}`).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const template = await auditedDb({ companyId: company.id, userId: user.id }).emailTemplate.create({
+      data: { ...parsed.data, textBody: parsed.data.textBody ?? null, companyId: company.id },
+    });
+
+    return NextResponse.json(serializeEmailTemplate(template), { status: 201 });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      return NextResponse.json({ error: "A template with this slug already exists" }, { status: 409 });
+    }
+    console.error("[EMAIL_TEMPLATES_POST_ERROR]", err);
+    return NextResponse.json({ error: "Failed to create email template" }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { equipmentAvailability } from "@/lib/equipment";
+import { scopedDb } from "@/lib/scopedDb";
+import { EquipmentAvailabilityQuerySchema } from "@/lib/schemas/equipment";
+
+/**
+ * GET /api/equipment/availability?from=2025-12-01&to=2025-12-07
+ * Every truck and trailer with its status and the active loads booked in the window.
+ * A date-only `to` covers the whole day.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { company } = await requirePermission(req, "trucks:read");
+
+    const { searchParams } = new URL(req.url);
+    const parsed = EquipmentAvailabilityQuerySchema.safeParse(Object.fromEntries(searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "from and to are required" },
+        { status: 400 }
+      );
+    }
+
+    const { from, to } = parsed.data;
+    const availability = await equipmentAvailability(scopedDb(company.id), from, to);
+
+    return NextResponse.json({ from: from.toISOString(), to: to.toISOString(), ...availability });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[EQUIPMENT_AVAILABILITY_ERROR]", err);
+    return NextResponse.json({ error: "Failed to fetch equipment availability" }, { status: 500 });
+  }
+}
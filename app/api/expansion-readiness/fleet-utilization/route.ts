@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"; // Imports Next.js request/response helpers. \\ Needed to read query params and return JSON.
-import { db } from "@/lib/db"; // Imports Prisma client. \\ Needed to query trucks/loads from Postgres.
-import { getDemoTenant } from "@/lib/demoTenant"; // Gets demo company/user context. \\ Ensures we scope all calculations to the correct tenant.
+import { scopedDb } from "@/lib/scopedDb"; // Prisma client pinned to one company. \\ Needed to query trucks/loads from Postgres.
+import { authErrorResponse, requirePermission } from "@/lib/auth"; // Resolves the signed-in user + company from the session cookie.
 
 type RangeKey = "month" | "90d" | "180d" | "1y"; // Allowed range options. \\ Keeps API inputs predictable.
 
@@ -79,15 +79,14 @@ function clamp(n: number, min: number, max: number) { // Bounds a number. \\ Kee
 
 async function avgRevenueDaysPerTruckForMonth(companyId: string, monthStart: Date) { // Computes avg revenue days/truck for a calendar month. \\ Needed for trend.
   const monthEnd = endOfMonthUTC(monthStart); // End of that month. \\ Month window.
-  const trucks = await db.truck.findMany({ where: { companyId }, select: { id: true } }); // All trucks. \\ You required all trucks count.
+  const tdb = scopedDb(companyId); // Tenant-scoped client. \\ Adds companyId and the "not deleted" load filter.
+  const trucks = await tdb.truck.findMany({ select: { id: true } }); // All trucks. \\ You required all trucks count.
   const truckIds = trucks.map((t) => t.id); // Extract IDs. \\ Used to build array output.
   const map = new Map<string, Set<string>>(); // truckId -> set of YYYY-MM-DD. \\ Prevents double-counting days.
   for (const id of truckIds) map.set(id, new Set()); // Initialize sets with zero baseline. \\ Ensures zeros are included.
 
-  const loads = await db.load.findMany({ // Loads in the month window. \\ Source of revenue-day truth.
+  const loads = await tdb.load.findMany({ // Loads in the month window. \\ Source of revenue-day truth.
     where: {
-      companyId, // Tenant scope. \\ Prevents cross-company contamination.
-      isSoftDeleted: false, // Exclude deleted. \\ Keeps analytics accurate.
       truckId: { not: null }, // Only truck-linked loads. \\ Needed to attribute revenue days.
       OR: [
         { pickupDate: { gte: monthStart, lte: monthEnd } }, // Loads with pickup in month. \\ Partial overlap support.
@@ -129,13 +128,14 @@ async function avgRevenueDaysPerTruckForMonth(companyId: string, monthStart: Dat
 
 export async function GET(req: NextRequest) { // Handles GET /api/expansion-readiness/fleet-utilization. \\ Returns metrics + score breakdown.
   try {
-    const { company } = await getDemoTenant(); // Resolve tenant. \\ Required for multi-tenant scoping.
+    const { company } = await requirePermission(req, "reports:read"); // Resolve tenant. \\ Required for multi-tenant scoping.
     const url = new URL(req.url); // Parse URL. \\ Used for reading query params.
     const range = (url.searchParams.get("range") as RangeKey) ?? "month"; // Read range, default month. \\ Matches your “monthly default” rule.
     const { start, end } = resolveRange(range); // Resolve date window. \\ Standardizes downstream math.
     const daysInPeriod = daysInclusive(start, end); // Inclusive period length. \\ Used for availableDays.
 
-    const trucks = await db.truck.findMany({ where: { companyId: company.id }, select: { id: true, unitNumber: true, status: true } }); // All trucks. \\ You required all trucks count.
+    const tdb = scopedDb(company.id); // Tenant-scoped client. \\ Adds companyId and the "not deleted" load filter.
+    const trucks = await tdb.truck.findMany({ select: { id: true, unitNumber: true, status: true } }); // All trucks. \\ You required all trucks count.
     const fleetTruckCount = trucks.length; // Fleet size. \\ Used for denominators and thresholds.
 
     const lowUtilThresholdDays = thresholdByFleetSize(fleetTruckCount); // Fleet-size threshold. \\ Drives Pillar 3 low-util definition.
@@ -143,10 +143,8 @@ export async function GET(req: NextRequest) { // Handles GET /api/expansion-read
     const revenueDaySets = new Map<string, Set<string>>(); // truckId -> day set. \\ Prevents double counting.
     for (const t of trucks) revenueDaySets.set(t.id, new Set()); // Initialize sets for every truck. \\ Ensures 0-day trucks are included.
 
-    const loads = await db.load.findMany({ // Loads that overlap the period and have truckId. \\ Used to compute revenue days.
+    const loads = await tdb.load.findMany({ // Loads that overlap the period and have truckId. \\ Used to compute revenue days.
       where: {
-        companyId: company.id, // Tenant scope. \\ Safety.
-        isSoftDeleted: false, // Exclude deleted. \\ Accuracy.
         truckId: { not: null }, // Only truck-linked. \\ Attribution.
         OR: [
           { pickupDate: { gte: start, lte: end } }, // Pickup inside window. \\ Overlap support.
@@ -274,6 +272,8 @@ export async function GET(req: NextRequest) { // Handles GET /api/expansion-read
       },
     }); // End JSON response. \\ Returned to frontend.
   } catch (err) {
+    const authResponse = authErrorResponse(err);           // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[FLEET_UTILIZATION_ROUTE_ERROR]", err); // Log server error. \\ Debugging.
     return NextResponse.json({ error: "Failed to compute fleet utilization" }, { status: 500 }); // Return 500. \\ Safe failure behavior.
   }
@@ -1,19 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getDemoTenant } from "@/lib/demoTenant";
 import { calculateExpansionReadiness } from "@/lib/expansionReadiness";
 import { TimeRange } from "@/lib/expansionReadiness/types";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { resolveCompanySettings } from "@/lib/companySettings";
 
 export async function GET(req: NextRequest) {
   try {
-    const { company } = await getDemoTenant();
+    const { company } = await requirePermission(req, "reports:read");
 
     const range =
       (req.nextUrl.searchParams.get("range") as TimeRange) ?? "month";
 
-    const data = await calculateExpansionReadiness(company.id, range);
+    const data = await calculateExpansionReadiness(
+      company.id,
+      range,
+      resolveCompanySettings(company)
+    );
 
     return NextResponse.json(data);
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[EXPANSION_READINESS_ERROR]", err);
     return NextResponse.json(
       { error: "Failed to calculate expansion readiness" },
@@ -1,52 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";                       // \\ Next.js request/response helpers.
-import { db } from "@/lib/db";                                                 // \\ Prisma client instance.
+import { scopedDb } from "@/lib/scopedDb";                                     // \\ Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth";             // \\ Resolves the signed-in user + company from the session cookie.
+import { auditedDb } from "@/lib/audit";                                       // \\ Tenant-scoped client that records an AuditEvent per write.
 import { RecurrenceFreq } from "@prisma/client";                               // \\ Enum for recurrence frequency.
 
-// Same demo auth helper as in /api/expenses to keep behavior consistent.      \\ Ensures GET/PUT/DELETE see the same company/user as list/create.
-async function getDemoAuthContext() {                                          // \\ Returns { user, company } for demo mode.
-  let user = await db.user.findFirst({                                         // \\ Attempt to find the demo user by email.
-    where: { email: "demo@demo.com" },                                         // \\ Hard-coded demo email.
-    include: { company: true },                                                // \\ Include company on the user if it exists.
-  });
-
-  if (user && user.company) {                                                  // \\ If user and company are both present...
-    return { user, company: user.company };                                    // \\ ...reuse them to align with existing data.
-  }
-
-  let company;                                                                 // \\ Otherwise, resolve or create a company.
-
-  if (user?.companyId) {                                                       // \\ If user has a companyId reference...
-    company =
-      (await db.company.findUnique({ where: { id: user.companyId } })) ||      // \\ Try to load that company.
-      (await db.company.create({ data: { name: "Demo Company" } }));           // \\ If not found, create a new Demo Company.
-  } else {                                                                     // \\ If no user or no companyId...
-    company =
-      (await db.company.findFirst()) ||                                        // \\ Reuse first company in DB if it exists...
-      (await db.company.create({ data: { name: "Demo Company" } }));           // \\ ...or create a fresh Demo Company row.
-  }
-
-  if (!user) {                                                                 // \\ If we still don't have a user...
-    user = await db.user.create({                                              // \\ ...create demo user tied to the resolved company.
-      data: {
-        email: "demo@demo.com",
-        passwordHash: "placeholder",
-        companyId: company.id,
-        fullName: "Demo User",
-      },
-    });
-  } else if (!user.companyId) {                                                // \\ If user existed but wasn't linked to company...
-    user = await db.user.update({                                              // \\ ...update the user to attach the company.
-      where: { id: user.id },
-      data: { companyId: company.id },
-    });
-  }
-
-  return { user, company };                                                    // \\ Return resolved user + company.
-}
-
-// GET /api/expenses/:id → fetch a single expense by ID.                       \\ Read a single expense row scoped to demo company.
+// GET /api/expenses/:id → fetch a single expense by ID.                       \\ Read a single expense row scoped to the current company.
 export async function GET(
-  _req: NextRequest,                                                           // \\ Request object (not used here).
+  req: NextRequest,                                                            // \\ Request object (not used here).
   { params }: { params: Promise<{ id: string }> }                              // \\ Next.js passes params as a Promise; we must await it.
 ) {
   try {
@@ -59,12 +19,11 @@ export async function GET(
       );
     }
 
-    const { company } = await getDemoAuthContext();                            // \\ Resolve demo company for scoping.
+    const { company } = await requirePermission(req, "expenses:read");         // \\ Resolves the signed-in user's company for scoping.
 
-    const expense = await db.expense.findFirst({                               // \\ Look up the expense in the DB.
+    const expense = await scopedDb(company.id).expense.findFirst({             // \\ Look up the expense in the DB.
       where: {
         id,                                                                    // \\ Must match this specific expense ID.
-        companyId: company.id,                                                 // \\ And must belong to this company (multi-tenant safety).
       },
     });
 
@@ -77,6 +36,8 @@ export async function GET(
 
     return NextResponse.json(expense);                                         // \\ On success, return the expense object as JSON.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                               // \\ Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[EXPENSE_BY_ID_GET_ERROR]", err);                           // \\ Log unexpected errors.
     return NextResponse.json(
       { error: "Failed to fetch expense" },                                    // \\ Generic error for the client.
@@ -100,10 +61,11 @@ export async function PUT(
       );
     }
 
-    const { company } = await getDemoAuthContext();                            // \\ Resolve demo company for scoping.
+    const { company, user } = await requirePermission(req, "expenses:update"); // \\ Resolves the signed-in user's company for scoping.
+    const audited = auditedDb({ companyId: company.id, userId: user.id });     // \\ Writes below are recorded as AuditEvents.
 
-    const existing = await db.expense.findFirst({                              // \\ Fetch the existing expense row.
-      where: { id, companyId: company.id },                                    // \\ Scoped by both ID and companyId.
+    const existing = await scopedDb(company.id).expense.findFirst({            // \\ Fetch the existing expense row.
+      where: { id },                                                           // \\ scopedDb adds the companyId filter.
     });
 
     if (!existing) {                                                           // \\ If nothing is found...
@@ -145,7 +107,7 @@ export async function PUT(
       freqValue = recurrenceFreq;                                              // \\ Valid enum; safe to use.
     }
 
-    const updated = await db.expense.update({                                  // \\ Apply updates to the Expense row.
+    const updated = await audited.expense.update({                             // \\ Apply updates to the Expense row.
       where: { id },                                                           // \\ Target row by primary key ID.
       data: {
         amount:
@@ -170,6 +132,8 @@ export async function PUT(
 
     return NextResponse.json(updated);                                         // \\ Return updated expense back to caller.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                               // \\ Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[EXPENSE_BY_ID_PUT_ERROR]", err);                           // \\ Log server-side issues.
     return NextResponse.json(
       { error: "Failed to update expense" },                                   // \\ Generic failure message.
@@ -180,7 +144,7 @@ export async function PUT(
 
 // DELETE /api/expenses/:id → remove an expense.                               \\ Hard delete endpoint for expenses.
 export async function DELETE(
-  _req: NextRequest,                                                           // \\ Request object (unused here).
+  req: NextRequest,                                                            // \\ Incoming request; carries the session cookie.
   { params }: { params: Promise<{ id: string }> }                              // \\ Route params promise with expense ID.
 ) {
   try {
@@ -193,10 +157,11 @@ export async function DELETE(
       );
     }
 
-    const { company } = await getDemoAuthContext();                            // \\ Resolve demo company to keep scoping consistent.
+    const { company, user } = await requirePermission(req, "expenses:delete"); // \\ Resolves the signed-in user's company for scoping.
+    const audited = auditedDb({ companyId: company.id, userId: user.id });     // \\ Writes below are recorded as AuditEvents.
 
-    const existing = await db.expense.findFirst({                              // \\ Ensure the expense exists and belongs to this company.
-      where: { id, companyId: company.id },
+    const existing = await scopedDb(company.id).expense.findFirst({            // \\ Ensure the expense exists and belongs to this company.
+      where: { id },
     });
 
     if (!existing) {                                                           // \\ If not found, 404.
@@ -206,12 +171,14 @@ export async function DELETE(
       );
     }
 
-    await db.expense.delete({                                                  // \\ Delete the row from Expense table.
+    await audited.expense.delete({                                             // \\ Delete the row from Expense table.
       where: { id },                                                           // \\ Use primary key ID to delete.
     });
 
     return NextResponse.json({ success: true });                               // \\ Return a simple success flag.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                               // \\ Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[EXPENSE_BY_ID_DELETE_ERROR]", err);                        // \\ Log any unexpected server error.
     return NextResponse.json(
       { error: "Failed to delete expense" },                                   // \\ Generic error response.
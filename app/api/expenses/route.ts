@@ -1,61 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";                       // \\ Next.js request/response helpers for app router API routes.
-import { db } from "@/lib/db";                                                 // \\ Shared Prisma client used to talk to the database.
+import { scopedDb } from "@/lib/scopedDb";                                     // \\ Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth";             // \\ Resolves the signed-in user + company from the session cookie.
+import { auditedDb } from "@/lib/audit";                                       // \\ Tenant-scoped client that records an AuditEvent per write.
 import { RecurrenceFreq } from "@prisma/client";                               // \\ Enum for valid recurrence frequencies as defined in Prisma schema.
 
-// Temporary demo auth helper: reuses existing demo user + company if they exist.  \\ Ensures we don't create a new company and break scoping.
-async function getDemoAuthContext() {                                          // \\ Returns { user, company } for the demo environment.
-  let user = await db.user.findFirst({                                         // \\ Look for an existing demo user by email.
-    where: { email: "demo@demo.com" },                                         // \\ Hard-coded demo email until real auth is wired.
-    include: { company: true },                                                // \\ Also load the related company so we can reuse its ID.
-  });
-
-  if (user && user.company) {                                                  // \\ If we found a user AND it already has a company attached...
-    return { user, company: user.company };                                    // \\ ...just reuse that pair; this matches any existing expenses.
-  }
-
-  let company;                                                                 // \\ We'll resolve or create a company if needed.
-
-  if (user?.companyId) {                                                       // \\ If user exists but we didn't include company (or it's missing)...
-    company =
-      (await db.company.findUnique({ where: { id: user.companyId } })) ||      // \\ Try to load company by the stored companyId.
-      (await db.company.create({ data: { name: "Demo Company" } }));           // \\ If not found, create a new Demo Company.
-  } else {                                                                     // \\ If user has no companyId or user is null...
-    company =
-      (await db.company.findFirst()) ||                                        // \\ Reuse any existing company if one exists...
-      (await db.company.create({ data: { name: "Demo Company" } }));           // \\ ...otherwise create a fresh Demo Company.
-  }
-
-  if (!user) {                                                                 // \\ If we still don't have a demo user...
-    user = await db.user.create({                                              // \\ ...create one and attach it to the resolved company.
-      data: {
-        email: "demo@demo.com",                                                // \\ Demo identity email.
-        passwordHash: "placeholder",                                           // \\ Placeholder until we wire proper auth.
-        companyId: company.id,                                                 // \\ Attach to the company we resolved/created above.
-        fullName: "Demo User",                                                 // \\ Optional friendly name.
-      },
-    });
-  } else if (!user.companyId) {                                                // \\ If user existed but had no companyId set...
-    user = await db.user.update({                                              // \\ ...patch the user to point at the resolved company.
-      where: { id: user.id },                                                  // \\ Matches the existing user row.
-      data: { companyId: company.id },                                         // \\ Sets companyId so future queries line up.
-    });
-  }
-
-  return { user, company };                                                    // \\ Final return object used by routes.
-}
-
-// GET /api/expenses → list expenses for the demo company.                     \\ Read endpoint to show all expenses scoped to demo company.
-export async function GET(_req: NextRequest) {                                 // \\ GET handler; we ignore the request body/query for now.
+// GET /api/expenses → list expenses for the current company.                     \\ Read endpoint to show all expenses scoped to the current company.
+export async function GET(req: NextRequest) {                                  // \\ GET handler; req carries the session cookie.
   try {                                                                        // \\ Wrap main logic in try/catch for safe error handling.
-    const { company } = await getDemoAuthContext();                            // \\ Resolve demo company and user; we only need company here.
+    const { company } = await requirePermission(req, "expenses:read");         // \\ Resolves the signed-in user's company for scoping.
 
-    const expenses = await db.expense.findMany({                               // \\ Fetch expenses from the Expense table.
-      where: { companyId: company.id },                                        // \\ Scope by companyId so data is multi-tenant-safe.
+    const expenses = await scopedDb(company.id).expense.findMany({             // \\ Fetch expenses from the Expense table.
       orderBy: { incurredAt: "desc" },                                         // \\ Sort newest first by when the expense occurred.
     });
 
     return NextResponse.json(expenses);                                        // \\ Return the list of expenses as JSON (may be empty array).
   } catch (err) {                                                              // \\ If anything blows up...
+    const authResponse = authErrorResponse(err);                               // \\ Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[EXPENSES_GET_ERROR]", err);                                // \\ Log with a clear tag for debugging in server logs.
     return NextResponse.json(                                                  
       { error: "Failed to fetch expenses" },                                   // \\ Generic error object for the client.
@@ -64,10 +25,11 @@ export async function GET(_req: NextRequest) {                                 /
   }
 }
 
-// POST /api/expenses → create a new expense for the demo user/company.        \\ Write endpoint to add new expense rows.
+// POST /api/expenses → create a new expense for the signed-in user/company.        \\ Write endpoint to add new expense rows.
 export async function POST(req: NextRequest) {                                 // \\ POST handler; consumes JSON body.
   try {
-    const { user, company } = await getDemoAuthContext();                      // \\ Ensure we have a demo user + company to link the expense to.
+    const { user, company } = await requirePermission(req, "expenses:create"); // \\ Resolves the signed-in user and their company.
+    const audited = auditedDb({ companyId: company.id, userId: user.id });     // \\ Writes below are recorded as AuditEvents.
     const body = await req.json();                                             // \\ Parse JSON request body into a plain object.
 
     const {
@@ -107,10 +69,10 @@ export async function POST(req: NextRequest) {                                 /
       freqValue = recurrenceFreq;                                              // \\ Safe to assign; TS + Prisma enums align here.
     }
 
-    const expense = await db.expense.create({                                  // \\ Insert a new row into the Expense table.
+    const expense = await audited.expense.create({                             // \\ Insert a new row into the Expense table.
       data: {
-        userId: user.id,                                                       // \\ Link to the demo user who created this expense.
-        companyId: company.id,                                                 // \\ Link to the demo company for multi-tenant scoping.
+        userId: user.id,                                                       // \\ Link to the signed-in user who created this expense.
+        companyId: company.id,                                                 // \\ Link to the current company for multi-tenant scoping.
         amount: Number(amount),                                                // \\ Store amount as a number (parse from string if needed).
         description: description ?? null,                                      // \\ Null if not provided for better DB hygiene.
         categoryGroup: categoryGroup ?? null,                                  // \\ Optional group.
@@ -127,6 +89,8 @@ export async function POST(req: NextRequest) {                                 /
 
     return NextResponse.json(expense, { status: 201 });                        // \\ Return the created expense with HTTP 201 Created.
   } catch (err) {                                                              // \\ Catch any unexpected error.
+    const authResponse = authErrorResponse(err);                               // \\ Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[EXPENSES_POST_ERROR]", err);                               // \\ Log error for debugging.
     return NextResponse.json(
       { error: "Failed to create expense" },                                   // \\ Generic message back to client.
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { resolveCompanySettings } from "@/lib/companySettings";
+import { estimateLoadFuel } from "@/lib/fuel";
+import { scopedDb } from "@/lib/scopedDb";
+
+/**
+ * GET /api/fuel-estimate?miles=800&deadheadMiles=60&state=TX&postalCode=75001&pickupDate=2025-12-15&truckId=...
+ * Fuel cost for a load that hasn't been saved yet, so the new-load form can pre-fill it.
+ * `cost` is null when no diesel price is on file for the pickup state, its PADD or the US.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { company } = await requirePermission(req, "expenses:read");
+    const params = req.nextUrl.searchParams;
+
+    const miles = Number(params.get("miles") ?? "");
+    const deadheadMiles = params.get("deadheadMiles") ? Number(params.get("deadheadMiles")) : null;
+    if (!Number.isFinite(miles) || miles < 0 || (deadheadMiles !== null && !Number.isFinite(deadheadMiles))) {
+      return NextResponse.json({ error: "miles must be a number" }, { status: 400 });
+    }
+
+    const pickupDate = params.get("pickupDate") ? new Date(params.get("pickupDate")!) : null;
+    if (pickupDate && Number.isNaN(pickupDate.getTime())) {
+      return NextResponse.json({ error: "Invalid pickupDate" }, { status: 400 });
+    }
+
+    const tdb = scopedDb(company.id);
+    const truckId = params.get("truckId");
+    const truck = truckId
+      ? await tdb.truck.findFirst({ where: { id: truckId }, select: { mpg: true } })
+      : null;
+    if (truckId && !truck) {
+      return NextResponse.json({ error: "Truck not found" }, { status: 400 });
+    }
+
+    const estimate = await estimateLoadFuel(
+      tdb,
+      {
+        miles,
+        deadheadMiles,
+        pickupDate,
+        truck,
+        stops: [{ sequence: 0, type: "PICKUP", state: params.get("state"), postalCode: params.get("postalCode") }],
+      },
+      resolveCompanySettings(company)
+    );
+
+    return NextResponse.json(estimate);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[FUEL_ESTIMATE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to estimate fuel cost" }, { status: 500 });
+  }
+}
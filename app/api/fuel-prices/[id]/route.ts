@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { scopedDb } from "@/lib/scopedDb";
+
+type RouteContext = { params: Promise<{ id?: string }> };
+
+/**
+ * DELETE /api/fuel-prices/:id
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company } = await requirePermission(req, "expenses:delete");
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json({ error: "Fuel price ID is required" }, { status: 400 });
+    }
+
+    const tdb = scopedDb(company.id);
+    const existing = await tdb.fuelPrice.findFirst({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return NextResponse.json({ error: "Fuel price not found" }, { status: 404 });
+    }
+
+    await tdb.fuelPrice.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[FUEL_PRICE_DELETE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to delete fuel price" }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { parseFuelPriceCsv } from "@/lib/fuel";
+import { ImportFuelPricesSchema } from "@/lib/schemas/fuelPrices";
+import { scopedDb } from "@/lib/scopedDb";
+
+/**
+ * POST /api/fuel-prices/import
+ * Body: { csv: "week,region,price\n2025-12-15,PADD3,3.59\n...", source?: "EIA" }
+ * Upserts every valid row; rows that don't parse come back in `errors` with their line number.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { company } = await requirePermission(req, "expenses:create");
+
+    const parsed = ImportFuelPricesSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid import" },
+        { status: 400 }
+      );
+    }
+
+    const { rows, errors } = parseFuelPriceCsv(parsed.data.csv);
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "No valid rows to import", errors }, { status: 400 });
+    }
+
+    const source = parsed.data.source ?? "CSV import";
+
+    const tdb = scopedDb(company.id);
+    await tdb.$transaction(
+      rows.map(({ weekOf, region, pricePerGallon }) =>
+        tdb.fuelPrice.upsert({
+          where: { companyId_weekOf_region: { companyId: company.id, weekOf, region } },
+          create: { companyId: company.id, weekOf, region, pricePerGallon, source },
+          update: { pricePerGallon, source },
+        })
+      )
+    );
+
+    return NextResponse.json({ imported: rows.length, errors });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[FUEL_PRICES_IMPORT_ERROR]", err);
+    return NextResponse.json({ error: "Failed to import fuel prices" }, { status: 500 });
+  }
+}
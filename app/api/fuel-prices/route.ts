@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { normalizeFuelRegion, weekStart } from "@/lib/fuel";
+import { scopedDb } from "@/lib/scopedDb";
+import { UpsertFuelPriceSchema } from "@/lib/schemas/fuelPrices";
+
+/**
+ * GET /api/fuel-prices?region=TX
+ * The company's weekly diesel prices, newest week first.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { company } = await requirePermission(req, "expenses:read");
+
+    const regionParam = req.nextUrl.searchParams.get("region");
+    const region = regionParam ? normalizeFuelRegion(regionParam) : null;
+    if (regionParam && !region) {
+      return NextResponse.json({ error: "Unknown region" }, { status: 400 });
+    }
+
+    const prices = await scopedDb(company.id).fuelPrice.findMany({
+      where: region ? { region } : {},
+      orderBy: [{ weekOf: "desc" }, { region: "asc" }],
+      take: 500,
+    });
+
+    return NextResponse.json(prices);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[FUEL_PRICES_GET_ERROR]", err);
+    return NextResponse.json({ error: "Failed to fetch fuel prices" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/fuel-prices
+ * Body: { weekOf: "2025-12-15", region: "TX" | "PADD3" | "US", pricePerGallon: 3.59, source?: "EIA" }
+ * Sets the price for that week and region, replacing any price already there.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { company } = await requirePermission(req, "expenses:create");
+
+    const parsed = UpsertFuelPriceSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid fuel price" },
+        { status: 400 }
+      );
+    }
+
+    const region = normalizeFuelRegion(parsed.data.region);
+    if (!region) {
+      return NextResponse.json(
+        { error: "region must be a state code, a PADD (e.g. PADD2) or US" },
+        { status: 400 }
+      );
+    }
+
+    const weekOf = weekStart(parsed.data.weekOf);
+    const { pricePerGallon } = parsed.data;
+    const source = parsed.data.source ?? null;
+
+    const price = await scopedDb(company.id).fuelPrice.upsert({
+      where: { companyId_weekOf_region: { companyId: company.id, weekOf, region } },
+      create: { companyId: company.id, weekOf, region, pricePerGallon, source },
+      update: { pricePerGallon, source },
+    });
+
+    return NextResponse.json(price, { status: 201 });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[FUEL_PRICES_POST_ERROR]", err);
+    return NextResponse.json({ error: "Failed to save fuel price" }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";                   // Next.js request/response helpers.
+import { authErrorResponse, requirePermission } from "@/lib/auth";         // Session + permission checks.
+import { scopedDb } from "@/lib/scopedDb";                                 // Prisma client pinned to the signed-in company.
+
+/**
+ * DELETE /api/invitations/:id
+ * Revokes a pending invitation so its link stops working. The row is kept for history.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id?: string }> }
+) {
+  try {
+    const { company } = await requirePermission(req, "users:delete");     // OWNER / ADMIN only.
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json({ error: "Invitation ID is required" }, { status: 400 });
+    }
+
+    const tdb = scopedDb(company.id);
+    const invitation = await tdb.invitation.findFirst({ where: { id } });
+
+    if (!invitation) {
+      return NextResponse.json({ error: "Invitation not found" }, { status: 404 });
+    }
+
+    if (invitation.acceptedAt) {
+      return NextResponse.json(
+        { error: "Invitation was already accepted" },                      // Deactivate the user instead.
+        { status: 409 }
+      );
+    }
+
+    await tdb.invitation.update({
+      where: { id },
+      data: { revokedAt: invitation.revokedAt ?? new Date() },             // Idempotent: revoking twice keeps the first timestamp.
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);                           // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
+    console.error("[INVITATION_DELETE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to revoke invitation" }, { status: 500 });
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";                   // Next.js helpers for reading the body and building the response.
+import { db } from "@/lib/db";                                             // Prisma client for Invitation + User rows.
+import { createSession, hashPassword, hashToken, setSessionCookie } from "@/lib/auth"; // Password, token and session helpers.
+import { invitationStatus } from "@/lib/invitations";                      // PENDING / ACCEPTED / EXPIRED / REVOKED.
+import { AcceptInvitationSchema } from "@/lib/schemas/invitations";        // Zod schema for the accept form.
+
+const STATUS_ERRORS = {                                                    // Why a link can't be used, in user-facing words.
+  ACCEPTED: "This invitation has already been used",
+  EXPIRED: "This invitation has expired. Ask your admin to send a new one",
+  REVOKED: "This invitation was revoked",
+} as const;
+
+async function findInvitation(token: string) {                             // Looks the invite up by hashed token (no session needed).
+  return db.invitation.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { company: { select: { name: true } } },
+  });
+}
+
+/**
+ * GET /api/invitations/accept?token=...
+ * Public. Returns who the invite is for so the accept page can greet them.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const token = req.nextUrl.searchParams.get("token");
+    if (!token) {
+      return NextResponse.json({ error: "Invitation token is required" }, { status: 400 });
+    }
+
+    const invitation = await findInvitation(token);
+    if (!invitation) {
+      return NextResponse.json({ error: "Invitation not found" }, { status: 404 });
+    }
+
+    const status = invitationStatus(invitation);
+    if (status !== "PENDING") {
+      return NextResponse.json({ error: STATUS_ERRORS[status] }, { status: 410 }); // HTTP 410 = gone.
+    }
+
+    return NextResponse.json({
+      email: invitation.email,
+      role: invitation.role,
+      companyName: invitation.company.name,
+    });
+  } catch (err) {
+    console.error("[INVITATION_ACCEPT_GET_ERROR]", err);
+    return NextResponse.json({ error: "Failed to load invitation" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/invitations/accept
+ * Body: { "token": "...", "fullName": "Jane Doe", "password": "..." }
+ * Creates the invited user in the inviting company and signs them in.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = AcceptInvitationSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid details" },   // Surfaces the first field problem.
+        { status: 400 }
+      );
+    }
+
+    const { token, fullName, password } = parsed.data;
+
+    const invitation = await findInvitation(token);
+    if (!invitation) {
+      return NextResponse.json({ error: "Invitation not found" }, { status: 404 });
+    }
+
+    const status = invitationStatus(invitation);
+    if (status !== "PENDING") {
+      return NextResponse.json({ error: STATUS_ERRORS[status] }, { status: 410 });
+    }
+
+    const existing = await db.user.findUnique({ where: { email: invitation.email } }); // Someone may have registered meanwhile.
+    if (existing) {
+      return NextResponse.json(
+        { error: "An account with this email already exists" },
+        { status: 409 }
+      );
+    }
+
+    const passwordHash = await hashPassword(password);                     // Never store the plain-text password.
+
+    const user = await db.$transaction(async (tx) => {                     // Claim the invite + create the user atomically.
+      const claimed = await tx.invitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null, revokedAt: null },   // Guards against a double submit racing us.
+        data: { acceptedAt: new Date() },
+      });
+      if (claimed.count === 0) return null;
+
+      return tx.user.create({
+        data: {
+          email: invitation.email,
+          passwordHash,
+          fullName: fullName ?? null,
+          companyId: invitation.companyId,
+          role: invitation.role,
+        },
+      });
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: STATUS_ERRORS.ACCEPTED }, { status: 410 });
+    }
+
+    const session = await createSession(user.id);                          // Signs the new teammate in immediately.
+
+    const res = NextResponse.json(
+      {
+        user: {
+          id: user.id,
+          email: user.email,
+          fullName: user.fullName,
+          role: user.role,
+          companyId: user.companyId,
+        },
+      },
+      { status: 201 }
+    );
+    setSessionCookie(res, session.token, session.expiresAt);
+    return res;
+  } catch (err) {
+    console.error("[INVITATION_ACCEPT_POST_ERROR]", err);
+    return NextResponse.json({ error: "Failed to accept invitation" }, { status: 500 });
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";                   // Next.js helpers for reading the body and building the response.
+import { db } from "@/lib/db";                                             // Unscoped client, only for the app-wide email check.
+import { authErrorResponse, generateToken, hashToken, requirePermission } from "@/lib/auth"; // Session + permission checks, token helpers.
+import { sendUnstoredEmail } from "@/lib/email";                           // Delivers the invite without keeping the link.
+import {
+  INVITATION_TTL_DAYS,
+  invitationAcceptUrl,
+  invitationEmail,
+  invitationEmailBody,
+  serializeInvitation,
+} from "@/lib/invitations";                                                // Shared invitation rules (TTL, status, email copy).
+import { CreateInvitationSchema } from "@/lib/schemas/invitations";        // Zod schema for the invite form.
+import { scopedDb } from "@/lib/scopedDb";                                 // Prisma client pinned to the signed-in company.
+
+/**
+ * GET /api/invitations
+ * Lists invitations for the current company, newest first (revoked ones included so the history is visible).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { company } = await requirePermission(req, "users:read");       // Anyone who can see the team can see pending invites.
+
+    const invitations = await scopedDb(company.id).invitation.findMany({
+      orderBy: { createdAt: "desc" },
+      include: { invitedBy: { select: { fullName: true, email: true } } }, // "Invited by" column.
+    });
+
+    return NextResponse.json(invitations.map(serializeInvitation));       // Never sends the token hash to the browser.
+  } catch (err) {
+    const authResponse = authErrorResponse(err);                           // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
+    console.error("[INVITATIONS_GET_ERROR]", err);
+    return NextResponse.json({ error: "Failed to fetch invitations" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/invitations
+ * Body: { "email": "dispatch@acme.com", "role": "DISPATCHER" }
+ * Creates an invitation, emails the accept link (logged in EmailLog) and returns the link too.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { company, user } = await requirePermission(req, "users:create"); // OWNER / ADMIN only.
+
+    const parsed = CreateInvitationSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid invitation" }, // Surfaces the first field problem.
+        { status: 400 }
+      );
+    }
+
+    const { email, role } = parsed.data;
+
+    const existingUser = await db.user.findUnique({ where: { email } });   // Emails are unique across the whole app.
+    if (existingUser) {
+      return NextResponse.json(
+        { error: "A user with this email already exists" },
+        { status: 409 }                                                     // HTTP 409 = conflict.
+      );
+    }
+
+    const token = generateToken();                                         // Sent in the link; only its hash is stored.
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 86_400_000);
+    const emailParams = {
+      companyName: company.name,
+      inviterName: user.fullName ?? user.email,
+      role,
+    };
+    const { subject, bodyPreview } = invitationEmail(emailParams);
+
+    const invitation = await scopedDb(company.id).$transaction(async (tx) => { // Invite + email log are written together.
+      await tx.invitation.updateMany({                                     // Re-inviting replaces any still-open invite for this email.
+        where: { email, acceptedAt: null, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      const emailLog = await tx.emailLog.create({
+        data: {
+          companyId: company.id,
+          toEmail: email,
+          subject,
+          bodyPreview,
+          status: "QUEUED",                                                // Updated to SENT/FAILED once the send below finishes.
+        },
+      });
+
+      return tx.invitation.create({
+        data: {
+          companyId: company.id,
+          email,
+          role,
+          tokenHash: hashToken(token),
+          invitedById: user.id,
+          emailLogId: emailLog.id,
+          expiresAt,
+        },
+      });
+    });
+
+    const acceptUrl = invitationAcceptUrl(req.nextUrl.origin, token);
+    if (invitation.emailLogId) {
+      await sendUnstoredEmail(invitation.emailLogId, {                     // A failed send is logged; the link below still works.
+        to: email,
+        subject,
+        ...invitationEmailBody({ ...emailParams, acceptUrl }),
+      });
+    }
+
+    return NextResponse.json(
+      {
+        ...serializeInvitation(invitation),
+        acceptUrl,                                                         // Lets the inviter share the link directly.
+      },
+      { status: 201 }
+    );
+  } catch (err) {
+    const authResponse = authErrorResponse(err);                           // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
+    console.error("[INVITATIONS_POST_ERROR]", err);
+    return NextResponse.json({ error: "Failed to create invitation" }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, ForbiddenError, requirePermission } from "@/lib/auth";
+import { buildInvoicePdf, INVOICE_PDF_INCLUDE } from "@/lib/invoicePdf";
+import { can } from "@/lib/permissions";
+import { scopedDb } from "@/lib/scopedDb";
+
+/**
+ * GET /api/invoices/:id/pdf[?packet=true]
+ * Renders the invoice as a PDF. With `packet=true` the rate con, BOL and POD of every load on
+ * the invoice are merged in after it, load by load, which is what brokers and factoring
+ * companies ask for. Documents that can't be merged are left out and named in
+ * X-Packet-Skipped; loads missing one of the three are named in X-Packet-Missing.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id?: string }> }
+) {
+  try {
+    const { company, user } = await requirePermission(req, "invoices:read");
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json({ error: "Invoice ID is required" }, { status: 400 });
+    }
+
+    const packet = ["1", "true"].includes(new URL(req.url).searchParams.get("packet") ?? "");
+    if (packet && !can(user.role, "documents:read")) {
+      throw new ForbiddenError("documents:read", user.role);
+    }
+
+    const invoice = await scopedDb(company.id).invoice.findFirst({
+      where: { id },
+      include: INVOICE_PDF_INCLUDE,
+    });
+    if (!invoice) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+    }
+
+    const { pdf, fileName, skipped, missing } = await buildInvoicePdf(invoice, company, { packet });
+
+    // Header values must be ASCII; file names and load numbers may not be.
+    const headers: Record<string, string> = {};
+    if (skipped.length > 0) {
+      headers["X-Packet-Skipped"] = skipped.map((s) => encodeURIComponent(`${s.fileName}: ${s.reason}`)).join(", ");
+    }
+    if (missing.length > 0) {
+      headers["X-Packet-Missing"] = missing
+        .map((m) => encodeURIComponent(`${m.loadNumber ?? m.loadId} ${m.type}`))
+        .join(", ");
+    }
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        ...headers,
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${fileName}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[INVOICE_PDF_ERROR]", err);
+    return NextResponse.json({ error: "Failed to render invoice" }, { status: 500 });
+  }
+}
@@ -1,5 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/db";
+import { authErrorResponse, ForbiddenError, requirePermission } from "@/lib/auth";
+import { auditedDb, auditedTransaction } from "@/lib/audit";
+import type { InvoiceStatus } from "@prisma/client";
+import {
+  assertInvoiceNumberAvailable,
+  assertLoadsInvoiceable,
+  cancelInvoice,
+  cancelInvoiceError,
+  claimLoadsForInvoice,
+  INVOICEABLE_LOAD_SELECT,
+  invoiceLoadsErrorResponse,
+  invoiceNumberErrorResponse,
+  unlinkInvoiceLoads,
+} from "@/lib/invoicing";
+import { applyInvoicePayments, withInvoiceBalance } from "@/lib/payments";
+import { can } from "@/lib/permissions";
+import { scopedDb } from "@/lib/scopedDb";
+
+// Statuses PUT can set directly. PAID comes from payments; CANCELLED goes through cancelInvoice
+// and needs invoices:delete, like DELETE.
+const EDITABLE_STATUSES: InvoiceStatus[] = ["DRAFT", "SENT", "OVERDUE"];
 
 // GET /api/invoices/:id
 export async function GET(
@@ -8,6 +28,7 @@ export async function GET(
 ) {
   try {
     const { id } = await params;
+    const { company } = await requirePermission(req, "invoices:read");
 
     if (!id) {
       return NextResponse.json(
@@ -16,7 +37,7 @@ export async function GET(
       );
     }
 
-    const invoice = await db.invoice.findUnique({
+    const invoice = await scopedDb(company.id).invoice.findFirst({
       where: { id },
       include: {
         customer: true,
@@ -38,8 +59,10 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(invoice);
+    return NextResponse.json(withInvoiceBalance(invoice));
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[INVOICE_GET_ERROR]", err);
     return NextResponse.json(
       { error: "Failed to fetch invoice" },
@@ -55,6 +78,8 @@ export async function PUT(
 ) {
   try {
     const { id } = await params;
+    const { company, user } = await requirePermission(req, "invoices:update");
+    const audited = auditedDb({ companyId: company.id, userId: user.id });
 
     if (!id) {
       return NextResponse.json(
@@ -80,9 +105,15 @@ export async function PUT(
       loadIds,     // Array of load IDs to attach to invoice
     } = body;
 
+    const tdb = scopedDb(company.id);
+
     // Validate existence
-    const existing = await db.invoice.findUnique({
+    const existing = await tdb.invoice.findFirst({
       where: { id },
+      include: {
+        payments: { select: { id: true } },
+        loadLinks: { select: { loadId: true } },
+      },
     });
 
     if (!existing) {
@@ -92,60 +123,145 @@ export async function PUT(
       );
     }
 
-    // Update invoice
-    const updated = await db.invoice.update({
-      where: { id },
-      data: {
-        invoiceNumber,
-        externalInvoiceNumber,
-        issueDate: issueDate ? new Date(issueDate) : null,
-        dueDate: dueDate ? new Date(dueDate) : null,
-        subtotal,
-        factoringFee,
-        total,
-        status,
-        notes,
-        customerId,
-      },
-    });
+    if (customerId !== undefined && customerId !== existing.customerId) {
+      const customer = await tdb.customer.findFirst({ where: { id: customerId }, select: { id: true } });
+      if (!customer) {
+        // Never move an invoice to another tenant's customer
+        return NextResponse.json({ error: "Customer not found" }, { status: 400 });
+      }
+    }
 
-    // Replace invoice lines
-    if (Array.isArray(lines)) {
-      await db.invoiceLine.deleteMany({
-        where: { invoiceId: id },
-      });
+    const statusChange = status !== undefined && status !== existing.status ? (status as InvoiceStatus) : null;
+    const linkedIds = new Set(existing.loadLinks.map((link) => link.loadId));
+    const nextLoadIds: string[] = Array.isArray(loadIds) ? [...new Set<string>(loadIds)] : [...linkedIds];
+    const addedIds = nextLoadIds.filter((loadId) => !linkedIds.has(loadId));
+    const removedIds = [...linkedIds].filter((loadId) => !nextLoadIds.includes(loadId));
 
-      for (const line of lines) {
-        await db.invoiceLine.create({
-          data: {
-            invoiceId: id,
-            description: line.description,
-            quantity: line.quantity ?? 1,
-            unitAmount: line.unitAmount,
-            total: line.quantity * line.unitAmount,
-          },
-        });
+    if (existing.status === "CANCELLED" && (statusChange || addedIds.length > 0)) {
+      return NextResponse.json(
+        { error: "A cancelled invoice can't be reopened or relinked; create a new one" },
+        { status: 409 }
+      );
+    }
+    if (statusChange === "PAID" || (statusChange && existing.status === "PAID")) {
+      return NextResponse.json(
+        { error: "Paid status follows the invoice's payments; record or remove a payment instead" },
+        { status: 409 }
+      );
+    }
+    if (statusChange === "CANCELLED") {
+      // Cancelling voids the invoice and releases its loads, same as DELETE
+      if (!can(user.role, "invoices:delete")) {
+        throw new ForbiddenError("invoices:delete", user.role);
+      }
+      const cancelError = cancelInvoiceError(existing);
+      if (cancelError) {
+        return NextResponse.json({ error: cancelError }, { status: 409 });
       }
+    } else if (statusChange && !EDITABLE_STATUSES.includes(statusChange)) {
+      return NextResponse.json(
+        { error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
     }
 
-    // Replace load associations
-    if (Array.isArray(loadIds)) {
-      await db.invoiceLoad.deleteMany({
-        where: { invoiceId: id },
+    // Loads added to the invoice pass the same double-billing check as a new invoice
+    const added = addedIds.length > 0
+      ? await tdb.load.findMany({
+          where: { id: { in: addedIds } },
+          select: INVOICEABLE_LOAD_SELECT,
+        })
+      : [];
+    if (added.length !== addedIds.length) {
+      const found = new Set(added.map((load) => load.id));
+      return NextResponse.json(
+        { error: `Loads not found: ${addedIds.filter((loadId) => !found.has(loadId)).join(", ")}` },
+        { status: 400 }
+      );
+    }
+    assertLoadsInvoiceable(added);
+    if (invoiceNumber !== undefined && invoiceNumber !== existing.invoiceNumber) {
+      await assertInvoiceNumberAvailable(tdb, invoiceNumber, id);
+    }
+
+    // Every write below commits together, so a failure can't leave loads claimed or half linked
+    const { updated, applied } = await auditedTransaction(audited, async (tx) => {
+      await claimLoadsForInvoice(tx, added, new Date());            // Moves them to INVOICED; a concurrent invoice makes this 409.
+
+      const updated = await tx.invoice.update({
+        where: { id },
+        data: {
+          invoiceNumber,
+          externalInvoiceNumber,
+          issueDate: issueDate ? new Date(issueDate) : undefined,
+          dueDate: dueDate !== undefined ? (dueDate ? new Date(dueDate) : null) : undefined, // Omitted = keep, null = clear.
+          subtotal,
+          factoringFee,
+          total,
+          status: statusChange && statusChange !== "CANCELLED" ? statusChange : undefined,
+          notes,
+          customerId,
+        },
       });
 
-      for (const loadId of loadIds) {
-        await db.invoiceLoad.create({
-          data: {
-            invoiceId: id,
-            loadId,
-          },
+      // Replace invoice lines
+      if (Array.isArray(lines)) {
+        await tx.invoiceLine.deleteMany({
+          where: { invoiceId: id },
         });
+
+        for (const line of lines) {
+          await tx.invoiceLine.create({
+            data: {
+              invoiceId: id,
+              description: line.description,
+              quantity: line.quantity ?? 1,
+              unitAmount: line.unitAmount,
+              total: line.quantity * line.unitAmount,
+            },
+          });
+        }
+      }
+
+      // Replace load associations; removed loads become billable again
+      if (addedIds.length > 0) {
+        await tx.invoiceLoad.createMany({
+          data: addedIds.map((loadId) => ({ invoiceId: id, loadId })),
+        });
+      }
+
+      if (removedIds.length > 0) {
+        await tx.invoiceLoad.deleteMany({
+          where: { invoiceId: id, loadId: { in: removedIds } },
+        });
+        await unlinkInvoiceLoads(tx, id, removedIds);
       }
-    }
 
-    return NextResponse.json({ success: true, updated });
+      if (statusChange === "CANCELLED") {
+        await cancelInvoice(tx, id);
+      }
+
+      // A new total can settle or un-settle the invoice
+      const applied = total !== undefined && statusChange !== "CANCELLED" ? await applyInvoicePayments(tx, id) : null;
+      return { updated, applied };
+    });
+    const payments = await tdb.payment.findMany({ where: { invoiceId: id }, select: { amount: true } });
+
+    return NextResponse.json({
+      success: true,
+      updated: withInvoiceBalance({
+        ...updated,
+        ...(statusChange === "CANCELLED" ? { status: statusChange } : applied ? { status: applied.status } : {}),
+        payments,
+      }),
+    });
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    const loadsResponse = invoiceLoadsErrorResponse(err);
+    if (loadsResponse) return loadsResponse;
+    const numberResponse = invoiceNumberErrorResponse(err);
+    if (numberResponse) return numberResponse;
     console.error("[INVOICE_PUT_ERROR]", err);
     return NextResponse.json(
       { error: "Failed to update invoice" },
@@ -161,6 +277,8 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params;
+    const { company, user } = await requirePermission(req, "invoices:delete");
+    const audited = auditedDb({ companyId: company.id, userId: user.id });
 
     if (!id) {
       return NextResponse.json(
@@ -169,7 +287,10 @@ export async function DELETE(
       );
     }
 
-    const invoice = await db.invoice.findUnique({ where: { id } });
+    const invoice = await scopedDb(company.id).invoice.findFirst({
+      where: { id },
+      include: { payments: { select: { id: true } } },
+    });
 
     if (!invoice) {
       return NextResponse.json(
@@ -178,16 +299,18 @@ export async function DELETE(
       );
     }
 
-    // Soft delete functionality:
-    const deleted = await db.invoice.update({
-      where: { id },
-      data: {
-        status: "CANCELLED",
-      },
-    });
+    const cancelError = cancelInvoiceError(invoice);
+    if (cancelError) {
+      return NextResponse.json({ error: cancelError }, { status: 409 });
+    }
+
+    // Soft delete: the invoice is kept as CANCELLED and its loads become billable again
+    const deleted = await auditedTransaction(audited, (tx) => cancelInvoice(tx, id));
 
     return NextResponse.json({ success: true, deleted });
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[INVOICE_DELETE_ERROR]", err);
     return NextResponse.json(
       { error: "Failed to delete invoice" },
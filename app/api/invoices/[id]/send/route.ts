@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, ForbiddenError, requirePermission } from "@/lib/auth";
+import {
+  deliverEmailLog,
+  findEmailTemplate,
+  invoiceEmailContext,
+  queueEmail,
+  renderTemplate,
+  serializeEmailLog,
+} from "@/lib/email";
+import { can } from "@/lib/permissions";
+import { scopedDb } from "@/lib/scopedDb";
+import { SendInvoiceSchema } from "@/lib/schemas/invoices";
+
+/**
+ * POST /api/invoices/:id/send
+ * Body: { to?, templateSlug?: "invoice", packet?: boolean }
+ * Emails the invoice PDF (or the full packet) to the customer's billing email using the
+ * company's template. The email is queued and sent right away: 201 when it went out, 202
+ * when the send failed and will be retried, 502 when the mail server refused it for good.
+ * A DRAFT invoice becomes SENT once the email goes out.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id?: string }> }
+) {
+  try {
+    const { company, user } = await requirePermission(req, "invoices:update");
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json({ error: "Invoice ID is required" }, { status: 400 });
+    }
+
+    const parsed = SendInvoiceSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid request" },
+        { status: 400 }
+      );
+    }
+
+    const { packet = false, templateSlug = "invoice" } = parsed.data;
+    if (packet && !can(user.role, "documents:read")) {
+      throw new ForbiddenError("documents:read", user.role);
+    }
+
+    const invoice = await scopedDb(company.id).invoice.findFirst({
+      where: { id },
+      include: { customer: true, payments: { select: { amount: true } } },
+    });
+    if (!invoice) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+    }
+    if (invoice.status === "CANCELLED") {
+      return NextResponse.json({ error: "Cancelled invoices can't be sent" }, { status: 400 });
+    }
+
+    const to = parsed.data.to ?? invoice.customer.billingEmail;
+    if (!to) {
+      return NextResponse.json(
+        { error: "This customer has no billing email. Add one or enter an address." },
+        { status: 400 }
+      );
+    }
+
+    const found = await findEmailTemplate(company.id, templateSlug);
+    if (!found) {
+      return NextResponse.json({ error: `No email template "${templateSlug}"` }, { status: 400 });
+    }
+
+    const queued = await queueEmail({
+      companyId: company.id,
+      to,
+      replyTo: company.billingEmail,
+      email: renderTemplate(found.template, invoiceEmailContext(invoice, company)),
+      templateId: found.id,
+      attachments: [{ type: "INVOICE_PDF", invoiceId: invoice.id, packet }],
+      relatedCustomerId: invoice.customerId,
+      relatedInvoiceId: invoice.id,
+    });
+    const log = (await deliverEmailLog(queued.id)) ?? queued;
+
+    if (log.status === "FAILED") {
+      return NextResponse.json(
+        { error: `The mail server refused the email: ${log.errorMessage}`, email: serializeEmailLog(log) },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json(serializeEmailLog(log), { status: log.status === "SENT" ? 201 : 202 });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[INVOICE_SEND_ERROR]", err);
+    return NextResponse.json({ error: "Failed to send invoice" }, { status: 500 });
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";          // Request/response helpers for the route handler.
+import { authErrorResponse, requirePermission } from "@/lib/auth"; // Resolves the signed-in user + company from the session cookie.
+import { auditedDb, auditedTransaction } from "@/lib/audit";       // Tenant-scoped client that records an AuditEvent per write.
+import { defaultDueDate, resolveCompanySettings } from "@/lib/companySettings"; // Payment-terms defaults for the due date.
+import {
+  allocateInvoiceNumber,                                          // Next number in the company's sequence.
+  assertInvoiceNumberAvailable,                                   // A typed number must be unused in the company.
+  assertLoadsInvoiceable,                                         // Double-billing guard: DELIVERED/TONU and not on an open invoice.
+  claimLoadsForInvoice,                                           // Moves the loads to INVOICED.
+  INVOICE_LOAD_SELECT,
+  INVOICEABLE_LOAD_SELECT,
+  invoiceLoadsErrorResponse,                                      // 409 listing loads that can't be billed.
+  invoiceNumberErrorResponse,                                     // 409 for a number already in use.
+  loadInvoiceLines,                                               // Linehaul/FSC/accessorial/lumper/detention lines per load.
+} from "@/lib/invoicing";
+import { withInvoiceBalance } from "@/lib/payments";               // amountPaid / balance / credit on the invoice returned.
+import { scopedDb } from "@/lib/scopedDb";                         // Tenant-scoped reads.
+import { InvoiceFromLoadsSchema } from "@/lib/schemas/invoices";   // Body validation.
+
+/**
+ * POST /api/invoices/from-loads
+ * Body: { loadIds: string[], invoiceNumber?, issueDate?, dueDate?, status?: "DRAFT" | "SENT", notes?,
+ *         includeFuelSurcharge?, includeAccessorials?, includeLumper?, includeDetention? }
+ * Bills DELIVERED and TONU loads of one customer on a new invoice: a linehaul line per load plus its
+ * FSC, accessorials, lumper and detention (each on unless turned off). The number comes from
+ * the company's sequence unless given, and a given one must be unused; the due date from the
+ * customer's terms, else the company's. The loads are claimed, the invoice created and its
+ * charges linked in one transaction. Loads that aren't DELIVERED or TONU or are already on an open
+ * invoice get a 409 listing them.
+ */
+export async function POST(req: NextRequest) {                    // Handles POST requests to /api/invoices/from-loads.
+  try {
+    const { company, user } = await requirePermission(req, "invoices:create"); // Resolves the signed-in user's company for scoping.
+
+    const parsed = InvoiceFromLoadsSchema.safeParse(await req.json().catch(() => ({}))); // A missing/invalid body fails validation.
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid invoice" }, // First validation message for the form.
+        { status: 400 }                                           // HTTP 400 = bad request.
+      );
+    }
+
+    const input = parsed.data;
+    const loadIds = [...new Set(input.loadIds)];                  // The same load twice is still one load.
+    const tdb = scopedDb(company.id);                             // Reads below only see this company's rows.
+
+    const loads = await tdb.load.findMany({
+      where: { id: { in: loadIds } },
+      orderBy: [{ deliveryDate: "asc" }, { createdAt: "asc" }],   // Lines follow the order the loads were delivered.
+      select: {
+        ...INVOICE_LOAD_SELECT,                                   // What the invoice lines are built from.
+        ...INVOICEABLE_LOAD_SELECT,                               // Status + open invoice links for the guard and the claim.
+        customer: {
+          select: { id: true, daysToPay: true, detentionFreeHours: true, detentionRatePerHour: true },
+        },
+      },
+    });
+
+    const found = new Set(loads.map((l) => l.id));                // IDs that exist in this company.
+    const missing = loadIds.filter((id) => !found.has(id));
+    if (missing.length > 0) {
+      return NextResponse.json({ error: `Loads not found: ${missing.join(", ")}` }, { status: 400 });
+    }
+
+    const customerIds = new Set(loads.map((l) => l.customer?.id ?? null)); // One invoice bills one customer.
+    const customer = loads[0].customer;
+    if (customerIds.has(null) || !customer) {
+      return NextResponse.json({ error: "Every load needs a customer before it can be invoiced" }, { status: 400 });
+    }
+    if (customerIds.size > 1) {
+      return NextResponse.json({ error: "All loads on an invoice must be for the same customer" }, { status: 400 });
+    }
+
+    assertLoadsInvoiceable(loads);                                // Not DELIVERED/TONU or already on an open invoice → 409.
+
+    const { lines, accessorialIds } = await loadInvoiceLines(
+      tdb,
+      loads,
+      { company, customerId: customer.id, customer },             // FSC schedule and detention terms come from the customer.
+      {
+        linehaul: true,
+        fuelSurcharge: input.includeFuelSurcharge !== false,      // Every extra is on unless turned off.
+        accessorials: input.includeAccessorials !== false,
+        lumper: input.includeLumper !== false,
+        detention: input.includeDetention !== false,
+      }
+    );
+    if (lines.length === 0) {
+      return NextResponse.json({ error: "These loads have nothing to bill" }, { status: 400 });
+    }
+
+    const issueDate = input.issueDate ?? new Date();              // Defaults to today.
+    const dueDate = input.dueDate ?? defaultDueDate(issueDate, resolveCompanySettings(company), customer.daysToPay); // Customer terms, else company terms.
+    const subtotal = lines.reduce((sum, line) => sum + line.total, 0);
+    if (input.invoiceNumber) await assertInvoiceNumberAvailable(tdb, input.invoiceNumber); // Typed numbers can't repeat one already used.
+    const invoiceNumber = input.invoiceNumber ?? (await allocateInvoiceNumber(company)); // Caller's number, else the next in sequence.
+
+    const audited = auditedDb({ companyId: company.id, userId: user.id }); // Writes below are recorded as AuditEvents.
+    const invoice = await auditedTransaction(audited, async (tx) => {  // Claim, invoice and accessorial links land together or not at all.
+      await claimLoadsForInvoice(tx, loads, issueDate);           // Loads move to INVOICED first, so a concurrent invoice can't take them too.
+
+      const created = await tx.invoice.create({                   // The invoice with its lines and load links in one nested write.
+        data: {
+          companyId: company.id,
+          customerId: customer.id,
+          invoiceNumber,
+          issueDate,
+          dueDate,
+          subtotal,
+          total: subtotal,                                        // No factoring fee on generated invoices.
+          status: input.status ?? "DRAFT",
+          notes: input.notes ?? null,
+          lines: { create: lines },
+          loadLinks: { create: loads.map((load) => ({ loadId: load.id })) },
+        },
+        include: {
+          customer: true,
+          lines: true,
+          loadLinks: { include: { load: true } },
+          payments: true,                                         // Empty, but withInvoiceBalance reads it.
+        },
+      });
+
+      if (accessorialIds.length > 0) {                            // Ties the charges to this invoice so they aren't billed twice.
+        await tx.loadAccessorial.updateMany({
+          where: { id: { in: accessorialIds } },
+          data: { invoiceId: created.id },
+        });
+      }
+      return created;
+    });
+
+    return NextResponse.json(withInvoiceBalance(invoice), { status: 201 }); // Returns the created invoice with its balance, 201 Created.
+  } catch (err) {
+    const authResponse = authErrorResponse(err);                  // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
+    const loadsResponse = invoiceLoadsErrorResponse(err);         // Loads that can't be billed get a 409 listing them.
+    if (loadsResponse) return loadsResponse;
+    const numberResponse = invoiceNumberErrorResponse(err);       // A number already in use gets a 409.
+    if (numberResponse) return numberResponse;
+    console.error("[INVOICES_FROM_LOADS_ERROR]", err);            // Logs unexpected errors to the server console.
+    return NextResponse.json({ error: "Failed to create invoice" }, { status: 500 }); // HTTP 500 = internal server error.
+  }
+}
@@ -1,7 +1,21 @@
 import { NextRequest, NextResponse } from "next/server"; // Imports Next.js helpers for handling HTTP requests and JSON responses.
-import { db } from "@/lib/db";                            // Imports the Prisma client so we can talk to the PostgreSQL database.
-import { getDemoTenant } from "@/lib/demoTenant";         // Imports helper that returns the demo company + user context.
+import { authErrorResponse, requirePermission } from "@/lib/auth"; // Resolves the signed-in user + company from the session cookie.
+import { auditedDb, auditedTransaction } from "@/lib/audit";       // Tenant-scoped client that records an AuditEvent per write.
 import type { InvoiceStatus } from "@prisma/client";      // Imports the InvoiceStatus enum type so we can validate status safely.
+import { defaultDueDate, resolveCompanySettings } from "@/lib/companySettings"; // Payment-terms defaults for the due date.
+import {
+  allocateInvoiceNumber,                                 // Next number in the company's sequence.
+  assertInvoiceNumberAvailable,                          // A typed number must be unused in the company.
+  assertLoadsInvoiceable,                                // Same double-billing guard as /from-loads.
+  claimLoadsForInvoice,                                  // Moves the linked loads to INVOICED.
+  INVOICE_LOAD_SELECT,
+  INVOICEABLE_LOAD_SELECT,
+  invoiceLoadsErrorResponse,                             // 409 listing loads that can't be billed.
+  invoiceNumberErrorResponse,                            // 409 for a number already in use.
+  loadInvoiceLines,                                      // FSC/accessorial/detention lines per linked load.
+} from "@/lib/invoicing";
+import { scopedDb } from "@/lib/scopedDb";                     // Tenant-scoped reads (invoices, customer, loads, FSC lookups).
+import { withInvoiceBalance } from "@/lib/payments";              // amountPaid / balance / credit on every invoice returned.
 
 // Allowed invoice statuses based on your schema enum.
 const ALLOWED_STATUSES: InvoiceStatus[] = [              // Defines a whitelist of valid InvoiceStatus values.
@@ -20,15 +34,13 @@ const ALLOWED_STATUSES: InvoiceStatus[] = [              // Defines a whitelist
  */
 export async function GET(req: NextRequest) {            // Defines the GET handler for /api/invoices.
   try {                                                  // Wraps in try/catch to handle errors gracefully.
-    const { company } = await getDemoTenant();           // Resolves the current company from the demo tenant helper.
+    const { company } = await requirePermission(req, "invoices:read"); // Resolves the signed-in user's company for scoping.
 
     const { searchParams } = new URL(req.url);           // Parses the incoming URL so we can read query parameters.
     const statusParam = searchParams.get("status");      // Reads optional ?status=... filter.
     const customerId = searchParams.get("customerId");   // Reads optional ?customerId=... filter.
 
-    const where: any = {                                 // Builds a dynamic Prisma filter object.
-      companyId: company.id,                             // Always restrict invoices to the current company (multi-tenant safe).
-    };                                                   // Ends the base filter.
+    const where: any = {};                               // Builds a dynamic Prisma filter object; scopedDb adds companyId.
 
     if (statusParam && ALLOWED_STATUSES.includes(statusParam as InvoiceStatus)) {
       where.status = statusParam;                        // If a valid status is provided, filter invoices by that status.
@@ -38,8 +50,8 @@ export async function GET(req: NextRequest) {            // Defines the GET hand
       where.customerId = customerId;                     // ...filter invoices to only that customer.
     }                                                    // Ends the customerId filter block.
 
-    const invoices = await db.invoice.findMany({         // Queries the Invoice table via Prisma.
-      where,                                             // Applies the assembled filter (company + optional status/customer).
+    const invoices = await scopedDb(company.id).invoice.findMany({ // Queries this company's invoices.
+      where,                                             // Applies the assembled filter (optional status/customer).
       orderBy: { issueDate: "desc" },                    // Orders invoices by newest issue date first.
       include: {                                         // Eager-loads related data needed for the UI.
         customer: true,                                  // Includes the Customer record.
@@ -53,8 +65,10 @@ export async function GET(req: NextRequest) {            // Defines the GET hand
       },
     });                                                  // Ends the Prisma query.
 
-    return NextResponse.json(invoices);                  // Returns the list of invoices as JSON with 200 OK.
+    return NextResponse.json(invoices.map(withInvoiceBalance)); // Returns the list of invoices, each with its balance, as JSON with 200 OK.
   } catch (err) {
+    const authResponse = authErrorResponse(err);         // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[INVOICES_GET_ERROR]", err);          // Logs any server-side error for debugging.
     return NextResponse.json(                           // Returns a generic error payload to the client.
       { error: "Failed to fetch invoices" },             // Error message shown in the frontend.
@@ -70,9 +84,9 @@ export async function GET(req: NextRequest) {            // Defines the GET hand
  *
  * {
  *   "customerId": "uuid-of-customer",
- *   "invoiceNumber": "INV-1001",
+ *   "invoiceNumber": "INV-1001",      // optional, defaults to the company's next number (prefix + sequence)
  *   "issueDate": "2025-12-10",
- *   "dueDate": "2025-12-25",
+ *   "dueDate": "2025-12-25",          // optional, defaults to issueDate + customer/company days-to-pay
  *   "status": "SENT",                 // optional, defaults to DRAFT
  *   "isFactored": true,
  *   "factoringFee": 150,              // cents or dollars depending on your convention (we’re using Int)
@@ -81,17 +95,21 @@ export async function GET(req: NextRequest) {            // Defines the GET hand
  *     { "description": "Linehaul", "quantity": 1, "unitAmount": 2000 },
  *     { "description": "Fuel surcharge", "quantity": 1, "unitAmount": 150 }
  *   ],
- *   "loadIds": ["uuid-of-load-1", "uuid-of-load-2"]
+ *   "loadIds": ["uuid-of-load-1", "uuid-of-load-2"], // DELIVERED or TONU loads not on another open invoice; moved to INVOICED
+ *   "includeDetention": true,         // optional: adds a detention line per linked load with detention hours
+ *   "includeFuelSurcharge": false,    // optional: FSC lines are added per linked load when the customer has a schedule
+ *   "includeAccessorials": false      // optional: billable, not-yet-invoiced accessorials are added per linked load
  * }
  */
 export async function POST(req: NextRequest) {           // Defines the POST handler for /api/invoices.
   try {                                                  // Wrap logic in try/catch for safe error handling.
-    const { company } = await getDemoTenant();           // Resolves the current company (and demo user, if needed).
+    const { company, user } = await requirePermission(req, "invoices:create"); // Resolves the signed-in user's company for scoping.
+    const audited = auditedDb({ companyId: company.id, userId: user.id }); // Writes below are recorded as AuditEvents.
     const body = await req.json();                       // Parses the JSON body from the incoming request.
 
     const {
       customerId,                                        // ID of the customer being invoiced.
-      invoiceNumber,                                     // External invoice number string (required for accounting).
+      invoiceNumber,                                     // Optional invoice number; auto-numbered when omitted.
       issueDate,                                         // Date the invoice was issued (string).
       dueDate,                                           // Optional due date string.
       status: rawStatus,                                 // Optional status string; we normalize it below.
@@ -100,11 +118,14 @@ export async function POST(req: NextRequest) {           // Defines the POST han
       notes,                                             // Optional free-text notes.
       lines,                                             // Array of line items.
       loadIds,                                           // Array of load IDs to link to this invoice.
+      includeDetention,                                  // Whether to append computed detention lines for the linked loads.
+      includeFuelSurcharge,                              // Pass false to skip the customer's FSC schedule.
+      includeAccessorials,                               // Pass false to leave the loads' unbilled accessorials off.
     } = body;                                            // Destructures the body into local variables.
 
-    if (!customerId || !invoiceNumber || !issueDate) {   // Basic validation for required fields.
+    if (!customerId || !issueDate) {                     // Basic validation for required fields.
       return NextResponse.json(                         // If something essential is missing...
-        { error: "customerId, invoiceNumber, and issueDate are required" }, // Tell the client what is missing.
+        { error: "customerId and issueDate are required" }, // Tell the client what is missing.
         { status: 400 }                                  // HTTP 400 = bad request.
       );
     }
@@ -114,20 +135,41 @@ export async function POST(req: NextRequest) {           // Defines the POST han
       statusUpper && ALLOWED_STATUSES.includes(statusUpper as InvoiceStatus) // If status is valid...
         ? (statusUpper as InvoiceStatus)                  // ...use it.
         : "DRAFT";                                        // Otherwise default to DRAFT.
+    if (status === "PAID" || status === "CANCELLED") {    // PAID comes from payments; a new invoice isn't cancelled.
+      return NextResponse.json(
+        { error: "New invoices start as DRAFT, SENT or OVERDUE" }, // Tell the client which statuses it can use.
+        { status: 400 }                                  // HTTP 400 = bad request.
+      );
+    }
 
     const issue = new Date(issueDate);                    // Parses issueDate into a real Date object.
     if (Number.isNaN(issue.getTime())) {                  // Validates that issueDate is a valid date.
       return NextResponse.json(
         { error: "Invalid issueDate" },                   // Respond if the date cannot be parsed.
-        { status: 400 }                                   // HTTP 400 = bad request.
+        { status: 400 }                                  // HTTP 400 = bad request.
       );
     }
 
-    const due = dueDate ? new Date(dueDate) : null;       // Parses dueDate if provided, otherwise null.
-    if (dueDate && Number.isNaN(due!.getTime())) {        // If a dueDate string was provided but invalid...
+    const tdb = scopedDb(company.id);                     // Reads below only see this company's live rows.
+
+    const customer = await tdb.customer.findFirst({       // Customer must belong to this company; also gives us its payment terms.
+      where: { id: customerId },
+      select: { daysToPay: true, detentionFreeHours: true, detentionRatePerHour: true },
+    });
+    if (!customer) {
+      return NextResponse.json(
+        { error: "Customer not found" },                  // Never invoice another tenant's customer.
+        { status: 400 }                                  // HTTP 400 = bad request.
+      );
+    }
+
+    const due = dueDate                                   // Uses the caller's dueDate when given...
+      ? new Date(dueDate)
+      : defaultDueDate(issue, resolveCompanySettings(company), customer.daysToPay); // ...otherwise issue date + payment terms.
+    if (Number.isNaN(due.getTime())) {                    // If a dueDate string was provided but invalid...
       return NextResponse.json(
         { error: "Invalid dueDate" },                     // Return a validation error to the client.
-        { status: 400 }                                   // HTTP 400 = bad request.
+        { status: 400 }                                  // HTTP 400 = bad request.
       );
     }
 
@@ -135,12 +177,51 @@ export async function POST(req: NextRequest) {           // Defines the POST han
     if (lineItems.length === 0) {                         // Require at least one line item for the invoice.
       return NextResponse.json(
         { error: "At least one invoice line is required" }, // Explain that we need at least one line.
-        { status: 400 }                                   // HTTP 400 = bad request.
+        { status: 400 }                                  // HTTP 400 = bad request.
       );
     }
 
+    const loadIdArray: string[] = Array.isArray(loadIds) // Normalizes loadIds into a string array.
+      ? [...new Set<string>(loadIds.filter((id: unknown) => typeof id === "string"))] // Keep only string IDs, once each.
+      : [];                                              // If not an array, treat as empty.
+
+    // Optional: sanity check loads belong to this company.
+    const loads = loadIdArray.length > 0                 // Only query if we actually have load IDs; kept for detention + FSC lines below.
+      ? await tdb.load.findMany({                        // Fetches this company's loads by IDs.
+          where: {
+            id: { in: loadIdArray },                     // Only loads whose ID is in the given list.
+          },
+          select: { ...INVOICE_LOAD_SELECT, ...INVOICEABLE_LOAD_SELECT }, // Line inputs plus status + open invoice links.
+        })
+      : [];
+    if (loadIdArray.length > 0) {
+
+      const foundIds = new Set(loads.map((l) => l.id));  // Collects the IDs of loads actually found.
+      const missing = loadIdArray.filter((id) => !foundIds.has(id)); // Any requested IDs that were not found.
+
+      if (missing.length > 0) {                          // If there are invalid load IDs...
+        return NextResponse.json(
+          { error: `Some loads not found or not in this company: ${missing.join(", ")}` }, // Return an error listing them.
+          { status: 400 }                               // HTTP 400 = bad request.
+        );
+      }
+    }
+    assertLoadsInvoiceable(loads);                       // Not DELIVERED/TONU or already on an open invoice → 409.
+
+    const loadLines = await loadInvoiceLines(            // Per linked load: FSC, accessorials, then detention.
+      tdb,
+      loads,
+      { company, customerId, customer },                 // FSC from the invoice's customer; detention at its terms.
+      {
+        fuelSurcharge: includeFuelSurcharge !== false,   // FSC and accessorials are on unless turned off...
+        accessorials: includeAccessorials !== false,
+        detention: Boolean(includeDetention),            // ...detention only when asked for.
+      }
+    );
+    const invoiceLines = [...lineItems, ...loadLines.lines]; // Caller's lines first.
+
     // Compute subtotal from the line items: sum(quantity * unitAmount).
-    const subtotal = lineItems.reduce(                    // Uses reduce to accumulate the total across all lines.
+    const subtotal = invoiceLines.reduce(                 // Uses reduce to accumulate the total across all lines.
       (acc, line) => {
         const qty = Number(line.quantity ?? 1);           // Coerces quantity to a number, defaulting to 1.
         const unit = Number(line.unitAmount ?? 0);        // Coerces unitAmount to a number, defaulting to 0.
@@ -159,74 +240,70 @@ export async function POST(req: NextRequest) {           // Defines the POST han
         ? subtotal - factoringFeeValue                    // ...subtract it from subtotal.
         : subtotal;                                       // Otherwise total == subtotal.
 
-    const loadIdArray: string[] = Array.isArray(loadIds) // Normalizes loadIds into a string array.
-      ? loadIds.filter((id: unknown) => typeof id === "string") // Keep only string IDs.
-      : [];                                              // If not an array, treat as empty.
+    if (invoiceNumber) await assertInvoiceNumberAvailable(tdb, invoiceNumber); // Typed numbers can't repeat one already used.
+    const number = invoiceNumber || (await allocateInvoiceNumber(company)); // Caller's number, else the next in sequence.
 
-    // Optional: sanity check loads belong to this company.
-    if (loadIdArray.length > 0) {                        // Only query if we actually have load IDs.
-      const loads = await db.load.findMany({             // Fetches loads by IDs.
-        where: {
-          id: { in: loadIdArray },                       // Only loads whose ID is in the given list.
-          companyId: company.id,                         // And must belong to the current company.
-        },
-        select: { id: true },                            // Only select the ID field.
-      });
+    // Claim the loads, create the invoice with its lines and load links, and tie the charges to it in one transaction.
+    const invoice = await auditedTransaction(audited, async (tx) => {
+      await claimLoadsForInvoice(tx, loads, issue);      // Loads move to INVOICED first, so a concurrent invoice can't take them too.
 
-      const foundIds = new Set(loads.map((l) => l.id));  // Collects the IDs of loads actually found.
-      const missing = loadIdArray.filter((id) => !foundIds.has(id)); // Any requested IDs that were not found.
+      const created = await tx.invoice.create({          // Creates a new Invoice record in the database.
+        data: {
+          companyId: company.id,                         // Associates the invoice with the current company.
+          customerId,                                    // Sets which customer is being invoiced.
+          invoiceNumber: number,                         // Caller's number, else the next in sequence.
+          externalInvoiceNumber: null,                   // Placeholder: can be used for factoring system references later.
+          issueDate: issue,                              // Stores the parsed issue date.
+          dueDate: due,                                  // Stores the explicit or defaulted due date.
+          subtotal,                                      // Stores computed subtotal.
+          factoringFee: factoringFeeValue,               // Stores factoring fee or null.
+          total,                                         // Stores computed total.
+          status,                                        // Stores normalized InvoiceStatus.
+          isFactored: Boolean(isFactored),               // Stores whether this invoice is factored.
+          notes: notes ?? null,                          // Stores optional notes or null.
 
-      if (missing.length > 0) {                          // If there are invalid load IDs...
-        return NextResponse.json(
-          { error: `Some loads not found or not in this company: ${missing.join(", ")}` }, // Return an error listing them.
-          { status: 400 }                               // HTTP 400 = bad request.
-        );
-      }
-    }
-
-    // Create the invoice, its lines, and its load links in one go using Prisma nested writes.
-    const invoice = await db.invoice.create({            // Creates a new Invoice record in the database.
-      data: {
-        companyId: company.id,                           // Associates the invoice with the current company.
-        customerId,                                      // Sets which customer is being invoiced.
-        invoiceNumber,                                   // Sets the invoice number string.
-        externalInvoiceNumber: null,                     // Placeholder: can be used for factoring system references later.
-        issueDate: issue,                                // Stores the parsed issue date.
-        dueDate: due,                                    // Stores the parsed due date or null.
-        subtotal,                                        // Stores computed subtotal.
-        factoringFee: factoringFeeValue,                 // Stores factoring fee or null.
-        total,                                           // Stores computed total.
-        status,                                          // Stores normalized InvoiceStatus.
-        isFactored: Boolean(isFactored),                 // Stores whether this invoice is factored.
-        notes: notes ?? null,                            // Stores optional notes or null.
-
-        lines: {                                         // Nested write for InvoiceLine records.
-          create: lineItems.map((line: any) => ({        // Maps each input line into a create object.
-            description: String(line.description ?? ""), // Description of the line item (forced to string).
-            quantity: Number(line.quantity ?? 1),        // Quantity with default of 1.
-            unitAmount: Number(line.unitAmount ?? 0),    // Unit amount with default of 0.
-            total: Number(line.quantity ?? 1) * Number(line.unitAmount ?? 0), // Computes total for this line.
-          })),
-        },
+          lines: {                                       // Nested write for InvoiceLine records.
+            create: invoiceLines.map((line: any) => ({   // Maps each input line into a create object.
+              description: String(line.description ?? ""), // Description of the line item (forced to string).
+              quantity: Number(line.quantity ?? 1),      // Quantity with default of 1.
+              unitAmount: Number(line.unitAmount ?? 0),  // Unit amount with default of 0.
+              total: Number(line.quantity ?? 1) * Number(line.unitAmount ?? 0), // Computes total for this line.
+            })),
+          },
 
-        loadLinks: {                                     // Nested write for InvoiceLoad join records.
-          create: loadIdArray.map((loadId) => ({         // Creates one join record per loadId.
-            loadId,                                      // The ID of the load being linked.
-          })),
+          loadLinks: {                                   // Nested write for InvoiceLoad join records.
+            create: loadIdArray.map((loadId) => ({       // Creates one join record per loadId.
+              loadId,                                    // The ID of the load being linked.
+            })),
+          },
         },
-      },
-      include: {                                         // Include related records in the response.
-        customer: true,                                  // Include Customer.
-        lines: true,                                     // Include InvoiceLine[].
-        loadLinks: {                                     // Include InvoiceLoad[] with Load.
-          include: { load: true },                       // Also include the Load for each link.
+        include: {                                       // Include related records in the response.
+          customer: true,                                // Include Customer.
+          lines: true,                                   // Include InvoiceLine[].
+          loadLinks: {                                   // Include InvoiceLoad[] with Load.
+            include: { load: true },                     // Also include the Load for each link.
+          },
+          payments: true,                                // Include any Payment records (likely empty on creation).
         },
-        payments: true,                                  // Include any Payment records (likely empty on creation).
-      },
+      });
+
+      if (loadLines.accessorialIds.length > 0) {         // Ties the charges to this invoice so they aren't billed twice.
+        await tx.loadAccessorial.updateMany({
+          where: { id: { in: loadLines.accessorialIds } },
+          data: { invoiceId: created.id },
+        });
+      }
+      return created;
     });
 
-    return NextResponse.json(invoice, { status: 201 });  // Returns the created invoice as JSON with 201 Created.
+    return NextResponse.json(withInvoiceBalance(invoice), { status: 201 }); // Returns the created invoice as JSON with 201 Created.
   } catch (err) {
+    const authResponse = authErrorResponse(err);          // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
+    const loadsResponse = invoiceLoadsErrorResponse(err); // Loads that can't be billed get a 409 listing them.
+    if (loadsResponse) return loadsResponse;
+    const numberResponse = invoiceNumberErrorResponse(err); // A number already in use gets a 409.
+    if (numberResponse) return numberResponse;
     console.error("[INVOICES_POST_ERROR]", err);          // Logs unexpected errors to the server console.
     return NextResponse.json(                           // Returns a generic error response to the client.
       { error: "Failed to create invoice" },             // Payload with a simple error message.
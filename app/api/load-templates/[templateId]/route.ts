@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { auditedDb } from "@/lib/audit";
+import { TEMPLATE_INCLUDE } from "@/lib/loadTemplates";
+import { scopedDb } from "@/lib/scopedDb";
+import { UpdateLoadTemplateSchema } from "@/lib/schemas/loadTemplates";
+
+type RouteContext = { params: Promise<{ templateId?: string }> };
+
+/**
+ * GET /api/load-templates/:templateId
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company } = await requirePermission(req, "loads:read");
+    const { templateId } = await params;
+
+    if (!templateId) {
+      return NextResponse.json({ error: "Template ID is required" }, { status: 400 });
+    }
+
+    const template = await scopedDb(company.id).loadTemplate.findFirst({
+      where: { id: templateId },
+      include: TEMPLATE_INCLUDE,
+    });
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(template);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_TEMPLATE_GET_ERROR]", err);
+    return NextResponse.json({ error: "Failed to fetch load template" }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/load-templates/:templateId
+ * Body: any of name, equipment, commodity, rate, miles, fuelCost, recurrence, nextRunAt, isActive.
+ * Stops come from the source load; save a new template to change the lane.
+ */
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "loads:update");
+    const { templateId } = await params;
+
+    if (!templateId) {
+      return NextResponse.json({ error: "Template ID is required" }, { status: 400 });
+    }
+
+    const parsed = UpdateLoadTemplateSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid template" },
+        { status: 400 }
+      );
+    }
+
+    const tdb = scopedDb(company.id);
+    const existing = await tdb.loadTemplate.findFirst({ where: { id: templateId } });
+    if (!existing) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    const recurrence = parsed.data.recurrence !== undefined ? parsed.data.recurrence : existing.recurrence;
+    const nextRunAt = parsed.data.nextRunAt !== undefined ? parsed.data.nextRunAt : existing.nextRunAt;
+    if (recurrence && !nextRunAt) {
+      return NextResponse.json(
+        { error: "nextRunAt is required for a recurring template" },
+        { status: 400 }
+      );
+    }
+
+    const audited = auditedDb({ companyId: company.id, userId: user.id });
+    await audited.loadTemplate.update({ where: { id: templateId }, data: parsed.data });
+
+    const template = await tdb.loadTemplate.findUnique({
+      where: { id: templateId },
+      include: TEMPLATE_INCLUDE,
+    });
+    return NextResponse.json(template);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_TEMPLATE_UPDATE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to update load template" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/load-templates/:templateId
+ * Loads generated from the template stay; they just lose the link.
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "loads:delete");
+    const { templateId } = await params;
+
+    if (!templateId) {
+      return NextResponse.json({ error: "Template ID is required" }, { status: 400 });
+    }
+
+    const existing = await scopedDb(company.id).loadTemplate.findFirst({
+      where: { id: templateId },
+      select: { id: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    await auditedDb({ companyId: company.id, userId: user.id }).loadTemplate.delete({
+      where: { id: templateId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_TEMPLATE_DELETE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to delete load template" }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { auditedDb } from "@/lib/audit";
+import { nextRunAfter, TEMPLATE_INCLUDE, templateDataFromLoad } from "@/lib/loadTemplates";
+import { scopedDb } from "@/lib/scopedDb";
+import { CreateLoadTemplateSchema } from "@/lib/schemas/loadTemplates";
+
+/**
+ * GET /api/load-templates
+ * Lists the company's lane templates with their stops.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { company } = await requirePermission(req, "loads:read");
+
+    const templates = await scopedDb(company.id).loadTemplate.findMany({
+      orderBy: { name: "asc" },
+      include: TEMPLATE_INCLUDE,
+    });
+
+    return NextResponse.json(templates);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_TEMPLATES_GET_ERROR]", err);
+    return NextResponse.json({ error: "Failed to fetch load templates" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/load-templates
+ * Body: { loadId: "...", name: "ATL → DAL weekly", recurrence?: "WEEKLY" | "BIWEEKLY", nextRunAt?: ISO }
+ * Saves an existing load's customer, stops, equipment, commodity and rate as a template.
+ * A recurring template's first draft is one cadence after the source load unless `nextRunAt` is set.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { company, user } = await requirePermission(req, "loads:create");
+
+    const parsed = CreateLoadTemplateSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid template" },
+        { status: 400 }
+      );
+    }
+
+    const { loadId, name, recurrence } = parsed.data;
+    const tdb = scopedDb(company.id);
+
+    const load = await tdb.load.findFirst({ where: { id: loadId }, include: { stops: true } });
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 400 });
+    }
+
+    const { stops, anchor, ...fields } = templateDataFromLoad(load);
+
+    let nextRunAt = parsed.data.nextRunAt ?? null;
+    if (recurrence && !nextRunAt) {
+      if (!anchor) {
+        return NextResponse.json(
+          { error: "nextRunAt is required when the load has no pickup date" },
+          { status: 400 }
+        );
+      }
+      nextRunAt = nextRunAfter(anchor, recurrence, new Date());
+    }
+
+    const audited = auditedDb({ companyId: company.id, userId: user.id });
+    const created = await audited.loadTemplate.create({
+      data: {
+        ...fields,
+        companyId: company.id,
+        userId: user.id,
+        name,
+        recurrence: recurrence ?? null,
+        nextRunAt,
+        stops: { create: stops },
+      },
+    });
+
+    const template = await tdb.loadTemplate.findUnique({
+      where: { id: created.id },
+      include: TEMPLATE_INCLUDE,
+    });
+
+    return NextResponse.json(template, { status: 201 });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_TEMPLATES_POST_ERROR]", err);
+    return NextResponse.json({ error: "Failed to save load template" }, { status: 500 });
+  }
+}
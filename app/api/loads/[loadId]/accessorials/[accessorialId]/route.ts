@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { UserRole } from "@prisma/client";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { auditedDb } from "@/lib/audit";
+import { accessorialAmount } from "@/lib/accessorials";
+import { loadAccessFilter } from "@/lib/permissions";
+import { scopedDb, type ScopedDb } from "@/lib/scopedDb";
+import { UpdateAccessorialSchema } from "@/lib/schemas/accessorials";
+
+type RouteContext = { params: Promise<{ loadId?: string; accessorialId?: string }> };
+
+async function findAccessorial(
+  tdb: ScopedDb,
+  user: { id: string; role: UserRole },
+  loadId: string,
+  accessorialId: string
+) {
+  const load = await tdb.load.findFirst({
+    where: { id: loadId, ...loadAccessFilter(user) },
+    select: { id: true },
+  });
+  if (!load) return null;
+  return tdb.loadAccessorial.findFirst({ where: { id: accessorialId, loadId } });
+}
+
+/**
+ * PUT /api/loads/:loadId/accessorials/:accessorialId
+ * Body: any subset of the charge fields; the amount is recomputed from quantity × rate.
+ * Charges already on an invoice are locked (409).
+ */
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "loads:update");
+    const { loadId, accessorialId } = await params;
+
+    if (!loadId || !accessorialId) {
+      return NextResponse.json({ error: "Load ID and accessorial ID are required" }, { status: 400 });
+    }
+
+    const parsed = UpdateAccessorialSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid accessorial" },
+        { status: 400 }
+      );
+    }
+
+    const tdb = scopedDb(company.id);
+    const existing = await findAccessorial(tdb, user, loadId, accessorialId);
+    if (!existing) {
+      return NextResponse.json({ error: "Accessorial not found" }, { status: 404 });
+    }
+    if (existing.invoiceId) {
+      return NextResponse.json({ error: "This charge has already been invoiced" }, { status: 409 });
+    }
+
+    const fields = parsed.data;
+    const quantity = fields.quantity ?? existing.quantity;
+    const rate = fields.rate ?? existing.rate;
+    const payableToDriver = fields.payableToDriver ?? existing.payableToDriver;
+
+    const audited = auditedDb({ companyId: company.id, userId: user.id });
+    const updated = await audited.loadAccessorial.update({
+      where: { id: accessorialId },
+      data: {
+        ...fields,
+        amount: accessorialAmount(quantity, rate),
+        ...(payableToDriver ? {} : { driverAmount: null }),
+      },
+    });
+
+    return NextResponse.json(updated);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_ACCESSORIAL_UPDATE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to update accessorial" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/loads/:loadId/accessorials/:accessorialId
+ * Charges already on an invoice can't be removed (409).
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "loads:update");
+    const { loadId, accessorialId } = await params;
+
+    if (!loadId || !accessorialId) {
+      return NextResponse.json({ error: "Load ID and accessorial ID are required" }, { status: 400 });
+    }
+
+    const tdb = scopedDb(company.id);
+    const existing = await findAccessorial(tdb, user, loadId, accessorialId);
+    if (!existing) {
+      return NextResponse.json({ error: "Accessorial not found" }, { status: 404 });
+    }
+    if (existing.invoiceId) {
+      return NextResponse.json({ error: "This charge has already been invoiced" }, { status: 409 });
+    }
+
+    const audited = auditedDb({ companyId: company.id, userId: user.id });
+    await audited.loadAccessorial.delete({ where: { id: accessorialId } });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_ACCESSORIAL_DELETE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to delete accessorial" }, { status: 500 });
+  }
+}
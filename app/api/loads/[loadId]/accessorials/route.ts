@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { auditedDb } from "@/lib/audit";
+import { ACCESSORIAL_LOAD_SELECT, resolveNewAccessorial } from "@/lib/accessorials";
+import { resolveDetentionTerms } from "@/lib/detention";
+import { loadAccessFilter } from "@/lib/permissions";
+import { scopedDb } from "@/lib/scopedDb";
+import { CreateAccessorialSchema } from "@/lib/schemas/accessorials";
+
+type RouteContext = { params: Promise<{ loadId?: string }> };
+
+/**
+ * GET /api/loads/:loadId/accessorials
+ * Returns the load's accessorial charges, oldest first.
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "loads:read");
+    const { loadId } = await params;
+
+    if (!loadId) {
+      return NextResponse.json({ error: "Load ID is required" }, { status: 400 });
+    }
+
+    const tdb = scopedDb(company.id);
+    const load = await tdb.load.findFirst({
+      where: { id: loadId, ...loadAccessFilter(user) },
+      select: { id: true },
+    });
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    const accessorials = await tdb.loadAccessorial.findMany({
+      where: { loadId }, // LoadAccessorial has no companyId; the load check above scopes it
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json(accessorials);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_ACCESSORIALS_GET_ERROR]", err);
+    return NextResponse.json({ error: "Failed to fetch accessorials" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/loads/:loadId/accessorials
+ * Body: { type: "LUMPER", rate: 250, quantity?: 1, billable?: true, payableToDriver?: false, ... }
+ * Detention and layover quantities default from the load; detention's rate from the
+ * customer's detention terms.
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "loads:update");
+    const { loadId } = await params;
+
+    if (!loadId) {
+      return NextResponse.json({ error: "Load ID is required" }, { status: 400 });
+    }
+
+    const parsed = CreateAccessorialSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid accessorial" },
+        { status: 400 }
+      );
+    }
+
+    const tdb = scopedDb(company.id);
+    const load = await tdb.load.findFirst({
+      where: { id: loadId, ...loadAccessFilter(user) },
+      select: ACCESSORIAL_LOAD_SELECT,
+    });
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    const data = resolveNewAccessorial(parsed.data, load, resolveDetentionTerms(company, load.customer));
+
+    const audited = auditedDb({ companyId: company.id, userId: user.id });
+    const accessorial = await audited.loadAccessorial.create({ data: { ...data, loadId } });
+
+    return NextResponse.json(accessorial, { status: 201 });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_ACCESSORIALS_POST_ERROR]", err);
+    return NextResponse.json({ error: "Failed to add accessorial" }, { status: 500 });
+  }
+}
@@ -1,14 +1,15 @@
 import { NextRequest, NextResponse } from "next/server"; // Next request/response helpers so we can implement GET/PUT/DELETE handlers.
-import { db } from "@/lib/db"; // Prisma client so we can query Load + LoadDriver tables.
-import { getDemoTenant } from "@/lib/demoTenant"; // Demo tenant helper so we scope reads/writes to one company consistently.
+import { authErrorResponse, requirePermission } from "@/lib/auth"; // Resolves the signed-in user + company from the session cookie.
+import { loadAccessFilter } from "@/lib/permissions"; // Limits DRIVER users to their assigned loads.
+import { scopedDb } from "@/lib/scopedDb"; // Prisma client pinned to the signed-in company; LoadDriver is reached through its load.
 
 // GET /api/loads/:loadId/drivers/:assignmentId → fetch one driver assignment for a load.
 export async function GET(
-  _req: NextRequest, // Incoming request (unused) but required by signature.
+  req: NextRequest,  // Incoming request; carries the session cookie.
   { params }: { params: Promise<{ loadId?: string; assignmentId?: string }> } // Next passes params as a Promise; must be awaited.
 ) {
   try {
-    const { company } = await getDemoTenant(); // Gets the demo company so we can enforce multi-tenant scoping.
+    const { company, user } = await requirePermission(req, "loads:read"); // Resolves the signed-in user and their company.
     const { loadId, assignmentId } = await params; // Awaits params and extracts both IDs from the URL.
 
     if (!loadId) { // Guard against missing loadId in the URL.
@@ -19,8 +20,9 @@ export async function GET(
       return NextResponse.json({ error: "Assignment ID is required" }, { status: 400 }); // 400 because client request is malformed.
     }
 
-    const load = await db.load.findFirst({ // Verifies the load exists AND belongs to this company.
-      where: { id: loadId, companyId: company.id, isSoftDeleted: false }, // Scope by company + ignore soft deleted loads.
+    const tdb = scopedDb(company.id); // Adds companyId + "not deleted" to the load lookup.
+    const load = await tdb.load.findFirst({ // Verifies the load exists AND belongs to this company.
+      where: { id: loadId, ...loadAccessFilter(user) }, // Drivers only see their assigned loads.
       select: { id: true }, // Only need the id to confirm existence.
     });
 
@@ -28,7 +30,7 @@ export async function GET(
       return NextResponse.json({ error: "Load not found" }, { status: 404 }); // 404 because the resource isn't visible in this tenant.
     }
 
-    const assignment = await db.loadDriver.findFirst({ // Fetches the assignment, ensuring it belongs to the load.
+    const assignment = await tdb.loadDriver.findFirst({ // Fetches the assignment, ensuring it belongs to the load.
       where: { id: assignmentId, loadId }, // Ties the assignment to the given loadId for safety.
       include: { driver: true }, // Includes driver so the client has display info without a second request.
     });
@@ -39,6 +41,8 @@ export async function GET(
 
     return NextResponse.json(assignment); // Returns the assignment as JSON.
   } catch (err) {
+    const authResponse = authErrorResponse(err);   // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[LOAD_DRIVER_GET_ERROR]", err); // Logs the error to server console for debugging.
     return NextResponse.json({ error: "Failed to fetch driver assignment" }, { status: 500 }); // 500 for server-side failure.
   }
@@ -50,7 +54,7 @@ export async function PUT(
   { params }: { params: Promise<{ loadId?: string; assignmentId?: string }> } // Params promise containing IDs.
 ) {
   try {
-    const { company } = await getDemoTenant(); // Gets company for scoping.
+    const { company } = await requirePermission(req, "loads:update"); // Gets company for scoping.
     const { loadId, assignmentId } = await params; // Extract ids from URL.
     const body = await req.json(); // Parse JSON body.
 
@@ -62,8 +66,9 @@ export async function PUT(
       return NextResponse.json({ error: "Assignment ID is required" }, { status: 400 }); // 400 malformed request.
     }
 
-    const load = await db.load.findFirst({ // Confirms load belongs to tenant before allowing update.
-      where: { id: loadId, companyId: company.id, isSoftDeleted: false }, // Scope by tenant.
+    const tdb = scopedDb(company.id); // Adds companyId + "not deleted" to the load lookup.
+    const load = await tdb.load.findFirst({ // Confirms load belongs to tenant before allowing update.
+      where: { id: loadId },
       select: { id: true }, // Only need to confirm existence.
     });
 
@@ -71,7 +76,7 @@ export async function PUT(
       return NextResponse.json({ error: "Load not found" }, { status: 404 }); // 404.
     }
 
-    const existing = await db.loadDriver.findFirst({ // Confirms assignment belongs to this load.
+    const existing = await tdb.loadDriver.findFirst({ // Confirms assignment belongs to this load.
       where: { id: assignmentId, loadId }, // Must match both to prevent cross-load edits.
       select: { id: true }, // Only need to confirm existence.
     });
@@ -80,7 +85,7 @@ export async function PUT(
       return NextResponse.json({ error: "Driver assignment not found" }, { status: 404 }); // 404.
     }
 
-    const updated = await db.loadDriver.update({ // Updates the assignment.
+    const updated = await tdb.loadDriver.update({ // Updates the assignment.
       where: { id: assignmentId }, // Update by unique ID.
       data: {
         role: body.role ?? null, // Updates role; allows null to clear.
@@ -90,6 +95,8 @@ export async function PUT(
 
     return NextResponse.json(updated); // Returns updated assignment.
   } catch (err) {
+    const authResponse = authErrorResponse(err);      // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[LOAD_DRIVER_UPDATE_ERROR]", err); // Logs update error.
     return NextResponse.json({ error: "Failed to update driver assignment" }, { status: 500 }); // 500.
   }
@@ -97,11 +104,11 @@ export async function PUT(
 
 // DELETE /api/loads/:loadId/drivers/:assignmentId → remove driver from load.
 export async function DELETE(
-  _req: NextRequest, // Request not used.
+  req: NextRequest,  // Request not used.
   { params }: { params: Promise<{ loadId?: string; assignmentId?: string }> } // Params promise containing IDs.
 ) {
   try {
-    const { company } = await getDemoTenant(); // Tenant scope.
+    const { company } = await requirePermission(req, "loads:update"); // Tenant scope.
     const { loadId, assignmentId } = await params; // Extract ids.
 
     if (!loadId) { // Guard missing loadId.
@@ -112,8 +119,9 @@ export async function DELETE(
       return NextResponse.json({ error: "Assignment ID is required" }, { status: 400 }); // 400.
     }
 
-    const load = await db.load.findFirst({ // Confirms load belongs to this company.
-      where: { id: loadId, companyId: company.id, isSoftDeleted: false }, // Tenant-scoped load check.
+    const tdb = scopedDb(company.id); // Adds companyId + "not deleted" to the load lookup.
+    const load = await tdb.load.findFirst({ // Confirms load belongs to this company.
+      where: { id: loadId },
       select: { id: true }, // Only confirming existence.
     });
 
@@ -121,7 +129,7 @@ export async function DELETE(
       return NextResponse.json({ error: "Load not found" }, { status: 404 }); // 404.
     }
 
-    const existing = await db.loadDriver.findFirst({ // Confirms assignment belongs to this load.
+    const existing = await tdb.loadDriver.findFirst({ // Confirms assignment belongs to this load.
       where: { id: assignmentId, loadId }, // Must match both.
       select: { id: true }, // Confirm existence only.
     });
@@ -130,10 +138,12 @@ export async function DELETE(
       return NextResponse.json({ error: "Driver assignment not found" }, { status: 404 }); // 404.
     }
 
-    await db.loadDriver.delete({ where: { id: assignmentId } }); // Deletes the assignment by unique ID.
+    await tdb.loadDriver.delete({ where: { id: assignmentId } }); // Deletes the assignment by unique ID.
 
     return NextResponse.json({ success: true }); // Returns success response.
   } catch (err) {
+    const authResponse = authErrorResponse(err);      // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[LOAD_DRIVER_DELETE_ERROR]", err); // Logs delete error.
     return NextResponse.json({ error: "Failed to delete driver assignment" }, { status: 500 }); // 500.
   }
@@ -1,17 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/db";
-import { getDemoTenant } from "@/lib/demoTenant";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { loadAccessFilter } from "@/lib/permissions";
+import { scopedDb } from "@/lib/scopedDb";
 
 /**
  * GET /api/loads/:loadId/drivers
  * Returns driver assignments for a load.
  */
 export async function GET(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: Promise<{ loadId?: string }> }
 ) {
   try {
-    const { company } = await getDemoTenant();
+    const { company, user } = await requirePermission(req, "loads:read");
 
     const { loadId } = await params;
 
@@ -19,12 +20,13 @@ export async function GET(
       return NextResponse.json({ error: "Load ID is required" }, { status: 400 });
     }
 
+    const tdb = scopedDb(company.id);
+
     // Verify the load exists in THIS company (same scoping as /api/loads)
-    const load = await db.load.findFirst({
+    const load = await tdb.load.findFirst({
       where: {
         id: loadId,
-        companyId: company.id,
-        isSoftDeleted: false,
+        ...loadAccessFilter(user), // Drivers only see assignments on their own loads
       },
       select: { id: true },
     });
@@ -33,7 +35,7 @@ export async function GET(
       return NextResponse.json({ error: "Load not found" }, { status: 404 });
     }
 
-    const assignments = await db.loadDriver.findMany({
+    const assignments = await tdb.loadDriver.findMany({
       where: { loadId },
       include: { driver: true },
       orderBy: { id: "asc" },
@@ -41,6 +43,8 @@ export async function GET(
 
     return NextResponse.json(assignments);
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[LOAD_DRIVERS_GET_ERROR]", err);
     return NextResponse.json({ error: "Failed to fetch load drivers" }, { status: 500 });
   }
@@ -55,7 +59,7 @@ export async function POST(
   { params }: { params: Promise<{ loadId?: string }> }
 ) {
   try {
-    const { company } = await getDemoTenant();
+    const { company } = await requirePermission(req, "loads:update");
     const { loadId } = await params;
 
     if (!loadId) {
@@ -70,9 +74,11 @@ export async function POST(
       return NextResponse.json({ error: "driverId is required" }, { status: 400 });
     }
 
+    const tdb = scopedDb(company.id);
+
     // Verify load belongs to company
-    const load = await db.load.findFirst({
-      where: { id: loadId, companyId: company.id, isSoftDeleted: false },
+    const load = await tdb.load.findFirst({
+      where: { id: loadId },
       select: { id: true },
     });
 
@@ -81,8 +87,8 @@ export async function POST(
     }
 
     // Verify driver belongs to company
-    const driver = await db.driver.findFirst({
-      where: { id: driverId, companyId: company.id },
+    const driver = await tdb.driver.findFirst({
+      where: { id: driverId },
       select: { id: true },
     });
 
@@ -90,7 +96,7 @@ export async function POST(
       return NextResponse.json({ error: "Driver not found" }, { status: 404 });
     }
 
-    const created = await db.loadDriver.create({
+    const created = await tdb.loadDriver.create({
       data: {
         loadId,
         driverId,
@@ -101,6 +107,8 @@ export async function POST(
 
     return NextResponse.json(created, { status: 201 });
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[LOAD_DRIVERS_POST_ERROR]", err);
     return NextResponse.json({ error: "Failed to add driver to load" }, { status: 500 });
   }
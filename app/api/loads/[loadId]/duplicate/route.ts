@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { auditedDb } from "@/lib/audit";
+import { duplicateLoad } from "@/lib/loadTemplates";
+import { loadAccessFilter } from "@/lib/permissions";
+import { scopedDb } from "@/lib/scopedDb";
+import { DuplicateLoadSchema } from "@/lib/schemas/loadTemplates";
+
+/**
+ * POST /api/loads/:loadId/duplicate
+ * Body: { pickupAt?: "2025-12-08T08:00:00.000Z" }
+ * Copies the load and its stops as a new DRAFT. With `pickupAt`, every appointment moves by the
+ * same amount so the first stop lands on it; without it the copy has no appointments.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ loadId?: string }> }
+) {
+  try {
+    const { company, user } = await requirePermission(req, "loads:create");
+    const { loadId } = await params;
+
+    if (!loadId) {
+      return NextResponse.json({ error: "Load ID is required" }, { status: 400 });
+    }
+
+    const parsed = DuplicateLoadSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid request" },
+        { status: 400 }
+      );
+    }
+
+    const tdb = scopedDb(company.id);
+    const load = await tdb.load.findFirst({
+      where: { id: loadId, ...loadAccessFilter(user) },
+      include: { stops: true },
+    });
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    const audited = auditedDb({ companyId: company.id, userId: user.id });
+    const copy = await duplicateLoad(audited, load, user.id, parsed.data.pickupAt ?? null);
+
+    const created = await tdb.load.findUnique({
+      where: { id: copy.id },
+      include: { stops: { orderBy: { sequence: "asc" } }, customer: true },
+    });
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_DUPLICATE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to duplicate load" }, { status: 500 });
+  }
+}
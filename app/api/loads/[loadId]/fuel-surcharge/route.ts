@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { resolveCompanySettings } from "@/lib/companySettings";
+import { computeLoadFuelSurcharge, FUEL_SURCHARGE_LOAD_SELECT } from "@/lib/fuelSurcharge";
+import { loadAccessFilter } from "@/lib/permissions";
+import { scopedDb } from "@/lib/scopedDb";
+
+/**
+ * GET /api/loads/:loadId/fuel-surcharge
+ * FSC owed on the load under its customer's schedule at the pickup-week diesel price.
+ * `surcharge` is null when the customer has no schedule in force; `surcharge.amount` is null
+ * when no price is on file for that week.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ loadId?: string }> }
+) {
+  try {
+    const { company, user } = await requirePermission(req, "invoices:read");
+    const { loadId } = await params;
+
+    if (!loadId) {
+      return NextResponse.json({ error: "Load ID is required" }, { status: 400 });
+    }
+
+    const tdb = scopedDb(company.id);
+    const load = await tdb.load.findFirst({
+      where: { id: loadId, ...loadAccessFilter(user) },
+      select: { id: true, ...FUEL_SURCHARGE_LOAD_SELECT },
+    });
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      loadId: load.id,
+      surcharge: await computeLoadFuelSurcharge(tdb, load, resolveCompanySettings(company)),
+    });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_FUEL_SURCHARGE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to compute fuel surcharge" }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { resolveCompanySettings } from "@/lib/companySettings";
+import { LOAD_FUEL_SELECT, loadFuelReport } from "@/lib/fuel";
+import { loadAccessFilter } from "@/lib/permissions";
+import { scopedDb } from "@/lib/scopedDb";
+
+/**
+ * GET /api/loads/:loadId/fuel
+ * Expected fuel cost (miles ÷ truck or company MPG × pickup-week diesel price) against the
+ * FUEL expenses linked to the load. `estimate.cost` and the variance are null when no price is on file.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ loadId?: string }> }
+) {
+  try {
+    const { company, user } = await requirePermission(req, "expenses:read");
+    const { loadId } = await params;
+
+    if (!loadId) {
+      return NextResponse.json({ error: "Load ID is required" }, { status: 400 });
+    }
+
+    const tdb = scopedDb(company.id);
+    const load = await tdb.load.findFirst({
+      where: { id: loadId, ...loadAccessFilter(user) },
+      select: { id: true, ...LOAD_FUEL_SELECT },
+    });
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      loadId: load.id,
+      ...(await loadFuelReport(tdb, load, resolveCompanySettings(company))),
+    });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_FUEL_ERROR]", err);
+    return NextResponse.json({ error: "Failed to estimate load fuel" }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { checkLoadMiles } from "@/lib/mileage";
+import { loadAccessFilter } from "@/lib/permissions";
+import { scopedDb } from "@/lib/scopedDb";
+
+/**
+ * GET /api/loads/:loadId/mileage
+ * Offline estimate of the load's route from its stop addresses: total and per-leg miles,
+ * a state-by-state split, and whether the entered miles are far off the estimate.
+ * `estimate` is null when fewer than two stops can be located.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ loadId?: string }> }
+) {
+  try {
+    const { company, user } = await requirePermission(req, "loads:read");
+    const { loadId } = await params;
+
+    if (!loadId) {
+      return NextResponse.json({ error: "Load ID is required" }, { status: 400 });
+    }
+
+    const load = await scopedDb(company.id).load.findFirst({
+      where: { id: loadId, ...loadAccessFilter(user) },
+      select: {
+        id: true,
+        miles: true,
+        stops: { select: { id: true, sequence: true, city: true, state: true, postalCode: true } },
+      },
+    });
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ loadId: load.id, ...checkLoadMiles(load) });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_MILEAGE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to estimate load mileage" }, { status: 500 });
+  }
+}
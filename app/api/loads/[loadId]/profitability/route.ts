@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { resolveCompanySettings } from "@/lib/companySettings";
+import { loadAccessFilter } from "@/lib/permissions";
+import { computeLoadProfitability, PROFITABILITY_INCLUDE } from "@/lib/profitability";
+import { scopedDb } from "@/lib/scopedDb";
+
+/**
+ * GET /api/loads/:loadId/profitability
+ * Gross and net margin, allocated truck fixed cost, driver pay and per-mile/per-day figures.
+ * Cost data, so it needs expenses:read on top of access to the load.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ loadId?: string }> }
+) {
+  try {
+    const { company, user } = await requirePermission(req, "expenses:read");
+    const { loadId } = await params;
+
+    if (!loadId) {
+      return NextResponse.json({ error: "Load ID is required" }, { status: 400 });
+    }
+
+    const load = await scopedDb(company.id).load.findFirst({
+      where: { id: loadId, ...loadAccessFilter(user) },
+      include: PROFITABILITY_INCLUDE,
+    });
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      loadId: load.id,
+      ...computeLoadProfitability(load, resolveCompanySettings(company)),
+    });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_PROFITABILITY_ERROR]", err);
+    return NextResponse.json({ error: "Failed to compute load profitability" }, { status: 500 });
+  }
+}
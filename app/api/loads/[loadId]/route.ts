@@ -1,17 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";               // Imports Next.js helpers for handling request/response in route handlers.
-import { db } from "@/lib/db";                                         // Imports the shared Prisma client for database access.
-import { getDemoTenant } from "@/lib/demoTenant";                      // Imports helper that returns (or creates) the demo Company + User.
+import { Prisma } from "@prisma/client";                                // Error class for the stale-status check.
+import { authErrorResponse, requirePermission } from "@/lib/auth";     // Resolves the signed-in user + company from the session cookie.
+import { auditedDb } from "@/lib/audit";                               // Tenant-scoped client that records an AuditEvent per write.
+import { loadAccessFilter } from "@/lib/permissions";                  // Narrows access for roles that only see their own loads.
+import { loadTransitionErrorResponse, planLoadTransition } from "@/lib/loadLifecycle"; // Status changes go through the lifecycle rules.
+import { assertEquipmentAvailable, equipmentConflictErrorResponse, IDLE_LOAD_STATUSES } from "@/lib/equipment"; // Double-booking and in-shop checks.
+import { scopedDb } from "@/lib/scopedDb";                             // Tenant-scoped reads.
+import { recalculateLoadDetention } from "@/lib/detention";            // Cleared detention hours fall back to the stop clocks.
 
 /**
  * GET /api/loads/:loadId
  * Fetch a single load by ID for the current company, including related data.
  */
 export async function GET(                                             // Defines the GET handler for /api/loads/[loadId].
-  _req: NextRequest,                                                   // Incoming request object (unused here but required by signature).
+  req: NextRequest,                                                    // Incoming request; carries the session cookie.
   { params }: { params: Promise<{ loadId?: string }> }                 // Next.js passes `params` as a Promise that must be awaited.
 ) {
   try {                                                                // Wraps the handler logic in try/catch for error handling.
-    const { company } = await getDemoTenant();                         // Ensures we have a demo Company and retrieves it for scoping.
+    const { company, user } = await requirePermission(req, "loads:read"); // Resolves the signed-in user and their company.
 
     const resolvedParams = await params;                               // Awaits the Promise to get the actual params object.
     const loadId = resolvedParams.loadId;                              // Extracts the `loadId` value from the resolved params.
@@ -23,11 +29,10 @@ export async function GET(                                             // Define
       );
     }
 
-    const load = await db.load.findFirst({                             // Queries the Load table to find a single load row.
+    const load = await scopedDb(company.id).load.findFirst({           // This company's live loads only (filters injected by scopedDb).
       where: {                                                         // Defines filter criteria for the query.
         id: loadId,                                                    // Matches the provided load ID.
-        companyId: company.id,                                         // Ensures the load belongs to the current company (multi-tenant safety).
-        isSoftDeleted: false,                                          // Excludes loads that were soft-deleted.
+        ...loadAccessFilter(user),                                     // Drivers get a 404 for loads they aren't assigned to.
       },
       include: {                                                       // Includes related data to provide a richer response.
         customer: true,                                                // Includes the associated Customer row, if any.
@@ -54,6 +59,8 @@ export async function GET(                                             // Define
 
     return NextResponse.json(load);                                    // On success, return the load (with relations) as JSON.
   } catch (err) {                                                      // If any error occurs during execution...
+    const authResponse = authErrorResponse(err);                       // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[LOAD_GET_ERROR]", err);                            // Log the error on the server console with a tag.
     return NextResponse.json(                                          // Respond to the client with a generic error.
       { error: "Failed to fetch load" },                               // JSON payload summarizing the failure.
@@ -65,6 +72,9 @@ export async function GET(                                             // Define
 /**
  * PUT /api/loads/:loadId
  * Update an existing load’s fields: financials, status, dates, assignments, etc.
+ * Status changes must be legal lifecycle moves (see lib/loadLifecycle); invoicedAt/paidAt/isPaid follow from them.
+ * Changing the truck, trailer, dates or status answers 409 when the equipment is in the shop or booked on
+ * an overlapping load, unless the body has `overrideConflicts: true`.
  */
 export async function PUT(                                             // Defines the PUT handler for /api/loads/[loadId].
   req: NextRequest,                                                    // Incoming request object, which carries the JSON body.
@@ -72,7 +82,8 @@ export async function PUT(                                             // Define
 ) {
   try {
     const body = await req.json();                                     // Parses the JSON payload from the request body into a JS object.
-    const { company } = await getDemoTenant();                         // Retrieves the demo Company to scope updates to one tenant.
+    const { company, user } = await requirePermission(req, "loads:update"); // Resolves the signed-in user's company for scoping.
+    const audited = auditedDb({ companyId: company.id, userId: user.id }); // Writes below are recorded as AuditEvents.
 
     const resolvedParams = await params;                               // Awaits params Promise to get the actual params object.
     const loadId = resolvedParams.loadId;                              // Extracts the loadId from the resolved params.
@@ -84,12 +95,10 @@ export async function PUT(                                             // Define
       );
     }
 
-    const existing = await db.load.findFirst({                         // Fetches the existing load to validate it belongs to this company.
-      where: {
-        id: loadId,                                                    // Matches by the provided ID.
-        companyId: company.id,                                         // Ensures the load belongs to the same company.
-        isSoftDeleted: false,                                          // Does not update soft-deleted loads.
-      },
+    const tdb = scopedDb(company.id);                                  // Reads below only see this company's live rows.
+
+    const existing = await tdb.load.findFirst({                        // Fetches the existing load to validate it belongs to this company.
+      where: { id: loadId },
     });
 
     if (!existing) {                                                   // If no such load exists...
@@ -99,26 +108,65 @@ export async function PUT(                                             // Define
       );
     }
 
-    const updated = await db.load.update({                             // Performs the update on the Load table.
-      where: { id: loadId },                                           // Uses the resolved loadId as the unique key.
+    if (body.customerId && body.customerId !== existing.customerId) {  // Never link another tenant's customer.
+      const customer = await tdb.customer.findFirst({ where: { id: body.customerId }, select: { id: true } });
+      if (!customer) {
+        return NextResponse.json({ error: "Customer not found" }, { status: 400 });
+      }
+    }
+
+    const transition =                                                 // Status edits follow the same rules as POST /transition.
+      body.status !== undefined && body.status !== existing.status
+        ? planLoadTransition(existing, body.status, {
+            truckId: body.truckId,
+            tonuReason: body.tonuReason,
+          })
+        : {};
+
+    const assignment = {                                               // Equipment and window the load will have after this update.
+      loadId,
+      status: transition.status !== undefined ? body.status : existing.status,
+      truckId: body.truckId !== undefined ? body.truckId ?? null : existing.truckId,
+      trailerId: body.trailerId !== undefined ? body.trailerId ?? null : existing.trailerId,
+      pickupDate:
+        body.pickupDate !== undefined
+          ? body.pickupDate === null ? null : new Date(body.pickupDate)
+          : existing.pickupDate,
+      deliveryDate:
+        body.deliveryDate !== undefined
+          ? body.deliveryDate === null ? null : new Date(body.deliveryDate)
+          : existing.deliveryDate,
+    };
+    const assignmentChanged =                                          // Only re-check when something the check depends on moved.
+      assignment.truckId !== existing.truckId ||
+      assignment.trailerId !== existing.trailerId ||
+      assignment.pickupDate?.getTime() !== existing.pickupDate?.getTime() ||
+      assignment.deliveryDate?.getTime() !== existing.deliveryDate?.getTime() ||
+      IDLE_LOAD_STATUSES.includes(assignment.status) !== IDLE_LOAD_STATUSES.includes(existing.status);
+    if (assignmentChanged) {
+      await assertEquipmentAvailable(tdb, assignment, { override: body.overrideConflicts === true });
+    }
+
+    const updated = await audited.load.update({                        // Performs the update on the Load table.
+      where: { id: loadId, status: existing.status },                  // Fails if someone else moved the load since the checks above.
       data: {
         // RELATION FIELDS
         customerId:
           body.customerId !== undefined
             ? body.customerId ?? null
             : existing.customerId,
-        trailerId:
-          body.trailerId !== undefined
-            ? body.trailerId ?? null
-            : existing.trailerId,
-        truckId:
-          body.truckId !== undefined
-            ? body.truckId ?? null
-            : existing.truckId,
+        trailerId: assignment.trailerId,
+        truckId: assignment.truckId,
 
         // CORE FINANCIALS
         rate: body.rate !== undefined ? Number(body.rate) : existing.rate,
         miles: body.miles !== undefined ? Number(body.miles) : existing.miles,
+        deadheadMiles:
+          body.deadheadMiles !== undefined
+            ? body.deadheadMiles === null
+              ? null
+              : Number(body.deadheadMiles)
+            : existing.deadheadMiles,
         fuelCost: body.fuelCost !== undefined ? Number(body.fuelCost) : existing.fuelCost,
         lumper:
           body.lumper !== undefined
@@ -157,6 +205,10 @@ export async function PUT(                                             // Define
               ? null
               : Number(body.detentionHours)
             : existing.detentionHours,
+        detentionComputed:
+          body.detentionHours !== undefined                            // Typed-in hours win over the stop clocks.
+            ? false
+            : existing.detentionComputed,
         layoverDays:
           body.layoverDays !== undefined
             ? body.layoverDays === null
@@ -171,33 +223,9 @@ export async function PUT(                                             // Define
         tonuReason: body.tonuReason !== undefined ? body.tonuReason : existing.tonuReason,
 
         // DATES & STATUS
-        pickupDate:
-          body.pickupDate !== undefined && body.pickupDate !== null
-            ? new Date(body.pickupDate)
-            : body.pickupDate === null
-            ? null
-            : existing.pickupDate,
-        deliveryDate:
-          body.deliveryDate !== undefined && body.deliveryDate !== null
-            ? new Date(body.deliveryDate)
-            : body.deliveryDate === null
-            ? null
-            : existing.deliveryDate,
-        status: body.status !== undefined ? body.status : existing.status,
-
-        invoicedAt:
-          body.invoicedAt !== undefined && body.invoicedAt !== null
-            ? new Date(body.invoicedAt)
-            : body.invoicedAt === null
-            ? null
-            : existing.invoicedAt,
-        isPaid: body.isPaid !== undefined ? Boolean(body.isPaid) : existing.isPaid,
-        paidAt:
-          body.paidAt !== undefined && body.paidAt !== null
-            ? new Date(body.paidAt)
-            : body.paidAt === null
-            ? null
-            : existing.paidAt,
+        pickupDate: assignment.pickupDate,
+        deliveryDate: assignment.deliveryDate,
+        ...transition,                                                 // status + invoicedAt / paidAt / isPaid side effects.
       },
       include: {                                                       // Return rich data after update, same as GET.
         customer: true,
@@ -211,8 +239,27 @@ export async function PUT(                                             // Define
       },
     });
 
+    if (body.detentionHours === null) {                                // Cleared by hand: the stop clocks take over again.
+      const detention = await recalculateLoadDetention(audited, company, loadId);
+      if (detention?.hasCompletedStops) {
+        return NextResponse.json({ ...updated, detentionHours: detention.hours, detentionComputed: true });
+      }
+    }
+
     return NextResponse.json(updated);                                 // Respond with the updated load as JSON payload.
   } catch (err) {                                                      // If error occurs anywhere in the handler...
+    const authResponse = authErrorResponse(err);                       // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
+    const transitionResponse = loadTransitionErrorResponse(err);       // Illegal status changes get a 409 with the allowed next states.
+    if (transitionResponse) return transitionResponse;
+    const conflictResponse = equipmentConflictErrorResponse(err);      // Unknown equipment gets a 400, double-booked or unavailable a 409.
+    if (conflictResponse) return conflictResponse;
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2025") {
+      return NextResponse.json(                                        // The status changed between the read and the write.
+        { error: "Load status changed while you were editing; reload and try again" },
+        { status: 409 }
+      );
+    }
     console.error("[LOAD_UPDATE_ERROR]", err);                         // Log it to the server console with a tag.
     return NextResponse.json(                                          // Respond with a generic error message.
       { error: "Failed to update load" },                              // JSON describing the failure.
@@ -226,11 +273,12 @@ export async function PUT(                                             // Define
  * Soft-deletes a load by setting isSoftDeleted + deletedAt (keeps history).
  */
 export async function DELETE(                                          // Defines the DELETE handler for /api/loads/[loadId].
-  _req: NextRequest,                                                   // Incoming request object (unused in this handler).
+  req: NextRequest,                                                    // Incoming request; carries the session cookie.
   { params }: { params: Promise<{ loadId?: string }> }                 // Route params passed as a Promise.
 ) {
   try {
-    const { company } = await getDemoTenant();                         // Retrieves the demo Company for scoping deletes.
+    const { company, user } = await requirePermission(req, "loads:delete"); // Resolves the signed-in user's company for scoping.
+    const audited = auditedDb({ companyId: company.id, userId: user.id }); // Writes below are recorded as AuditEvents.
 
     const resolvedParams = await params;                               // Awaits params Promise to get the actual params.
     const loadId = resolvedParams.loadId;                              // Extracts the loadId from the resolved params.
@@ -242,12 +290,8 @@ export async function DELETE(                                          // Define
       );
     }
 
-    const existing = await db.load.findFirst({                         // Checks whether a matching load exists for this company.
-      where: {
-        id: loadId,                                                    // Match by ID.
-        companyId: company.id,                                         // Ensure same company.
-        isSoftDeleted: false,                                          // Ignore already soft-deleted loads.
-      },
+    const existing = await scopedDb(company.id).load.findFirst({       // Checks whether a live load with this ID exists for this company.
+      where: { id: loadId },
     });
 
     if (!existing) {                                                   // If no such load exists...
@@ -257,7 +301,7 @@ export async function DELETE(                                          // Define
       );
     }
 
-    await db.load.update({                                             // Performs a soft delete instead of a hard delete.
+    await audited.load.update({                                        // Performs a soft delete instead of a hard delete.
       where: { id: loadId },                                           // Selects the load row by ID.
       data: {
         isSoftDeleted: true,                                           // Marks the load as soft-deleted.
@@ -267,6 +311,8 @@ export async function DELETE(                                          // Define
 
     return NextResponse.json({ success: true });                       // Returns a simple success JSON response.
   } catch (err) {                                                      // If any error occurs during delete...
+    const authResponse = authErrorResponse(err);                       // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[LOAD_DELETE_ERROR]", err);                         // Log the error with a tag.
     return NextResponse.json(                                          // Respond with a generic error payload.
       { error: "Failed to delete load" },                              // JSON error message.
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { auditedDb } from "@/lib/audit";
+import { findStopLoad, STOP_INCLUDE } from "@/lib/loadStops";
+import { scopedDb } from "@/lib/scopedDb";
+import { StopCheckSchema } from "@/lib/schemas/stops";
+
+/**
+ * POST /api/loads/:loadId/stops/:stopId/check-in
+ * Body: { at?: ISO datetime } (defaults to now)
+ * Stamps `arrivedAt`. A stop can only be checked in once; edit the stop to correct the time.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ loadId?: string; stopId?: string }> }
+) {
+  try {
+    const { company, user } = await requirePermission(req, "stops:update"); // Drivers can check in on their own loads
+    const { loadId, stopId } = await params;
+
+    if (!loadId || !stopId) {
+      return NextResponse.json({ error: "Load ID and stop ID are required" }, { status: 400 });
+    }
+
+    const parsed = StopCheckSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid check-in time" }, { status: 400 });
+    }
+
+    const tdb = scopedDb(company.id);
+    const load = await findStopLoad(tdb, loadId, user);
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    const stop = await tdb.loadStop.findFirst({ where: { id: stopId, loadId } });
+    if (!stop) {
+      return NextResponse.json({ error: "Stop not found" }, { status: 404 });
+    }
+
+    if (stop.arrivedAt) {
+      return NextResponse.json({ error: "Stop is already checked in" }, { status: 409 });
+    }
+
+    const audited = auditedDb({ companyId: company.id, userId: user.id });
+    const updated = await audited.loadStop.update({
+      where: { id: stopId },
+      data: { arrivedAt: parsed.data.at ?? new Date() },
+      include: STOP_INCLUDE,
+    });
+
+    return NextResponse.json(updated);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_STOP_CHECK_IN_ERROR]", err);
+    return NextResponse.json({ error: "Failed to check in" }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { auditedDb } from "@/lib/audit";
+import { recalculateLoadDetention } from "@/lib/detention";
+import { findStopLoad, STOP_INCLUDE } from "@/lib/loadStops";
+import { scopedDb } from "@/lib/scopedDb";
+import { StopCheckSchema } from "@/lib/schemas/stops";
+
+/**
+ * POST /api/loads/:loadId/stops/:stopId/check-out
+ * Body: { at?: ISO datetime } (defaults to now)
+ * Stamps `departedAt`. Requires a prior check-in and can't be earlier than it.
+ * Recomputes the stop's and load's detention.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ loadId?: string; stopId?: string }> }
+) {
+  try {
+    const { company, user } = await requirePermission(req, "stops:update"); // Drivers can check out on their own loads
+    const { loadId, stopId } = await params;
+
+    if (!loadId || !stopId) {
+      return NextResponse.json({ error: "Load ID and stop ID are required" }, { status: 400 });
+    }
+
+    const parsed = StopCheckSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid check-out time" }, { status: 400 });
+    }
+
+    const tdb = scopedDb(company.id);
+    const load = await findStopLoad(tdb, loadId, user);
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    const stop = await tdb.loadStop.findFirst({ where: { id: stopId, loadId } });
+    if (!stop) {
+      return NextResponse.json({ error: "Stop not found" }, { status: 404 });
+    }
+
+    if (!stop.arrivedAt) {
+      return NextResponse.json({ error: "Check in before checking out" }, { status: 409 });
+    }
+    if (stop.departedAt) {
+      return NextResponse.json({ error: "Stop is already checked out" }, { status: 409 });
+    }
+
+    const departedAt = parsed.data.at ?? new Date();
+    if (departedAt < stop.arrivedAt) {
+      return NextResponse.json({ error: "Departure can't be before arrival" }, { status: 400 });
+    }
+
+    const audited = auditedDb({ companyId: company.id, userId: user.id });
+    await audited.loadStop.update({ where: { id: stopId }, data: { departedAt } });
+    await recalculateLoadDetention(audited, company, loadId);
+
+    const updated = await tdb.loadStop.findUnique({ where: { id: stopId }, include: STOP_INCLUDE });
+    return NextResponse.json(updated);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_STOP_CHECK_OUT_ERROR]", err);
+    return NextResponse.json({ error: "Failed to check out" }, { status: 500 });
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { auditedDb } from "@/lib/audit";
+import { recalculateLoadDetention } from "@/lib/detention";
+import { findStopLoad, resequenceStops, STOP_INCLUDE, withLocationAddress } from "@/lib/loadStops";
+import { scopedDb } from "@/lib/scopedDb";
+import { UpdateStopSchema } from "@/lib/schemas/stops";
+
+type RouteContext = { params: Promise<{ loadId?: string; stopId?: string }> };
+
+/**
+ * GET /api/loads/:loadId/stops/:stopId
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "stops:read");
+    const { loadId, stopId } = await params;
+
+    if (!loadId || !stopId) {
+      return NextResponse.json({ error: "Load ID and stop ID are required" }, { status: 400 });
+    }
+
+    const tdb = scopedDb(company.id);
+    const load = await findStopLoad(tdb, loadId, user);
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    const stop = await tdb.loadStop.findFirst({
+      where: { id: stopId, loadId }, // LoadStop has no companyId; the load check above scopes it
+      include: STOP_INCLUDE,
+    });
+    if (!stop) {
+      return NextResponse.json({ error: "Stop not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(stop);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_STOP_GET_ERROR]", err);
+    return NextResponse.json({ error: "Failed to fetch stop" }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/loads/:loadId/stops/:stopId
+ * Body: any subset of the stop fields. Setting `locationId` fills address fields
+ * that aren't sent from the saved Location. Use PUT /stops to change the order.
+ */
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "stops:update");
+    const { loadId, stopId } = await params;
+
+    if (!loadId || !stopId) {
+      return NextResponse.json({ error: "Load ID and stop ID are required" }, { status: 400 });
+    }
+
+    const parsed = UpdateStopSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid stop" },
+        { status: 400 }
+      );
+    }
+
+    const tdb = scopedDb(company.id);
+    const load = await findStopLoad(tdb, loadId, user);
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    const existing = await tdb.loadStop.findFirst({ where: { id: stopId, loadId } });
+    if (!existing) {
+      return NextResponse.json({ error: "Stop not found" }, { status: 404 });
+    }
+
+    const { locationId, ...fields } = parsed.data;
+
+    const location = locationId
+      ? await tdb.location.findFirst({ where: { id: locationId } })
+      : null;
+    if (locationId && !location) {
+      return NextResponse.json({ error: "Location not found" }, { status: 400 });
+    }
+
+    const arrivedAt = fields.arrivedAt !== undefined ? fields.arrivedAt : existing.arrivedAt;
+    const departedAt = fields.departedAt !== undefined ? fields.departedAt : existing.departedAt;
+    if (arrivedAt && departedAt && departedAt < arrivedAt) {
+      return NextResponse.json({ error: "Departure can't be before arrival" }, { status: 400 });
+    }
+
+    const audited = auditedDb({ companyId: company.id, userId: user.id });
+    await audited.loadStop.update({
+      where: { id: stopId },
+      data: {
+        ...withLocationAddress(fields, location),
+        ...(locationId !== undefined ? { locationId: location?.id ?? null } : {}), // null unlinks the saved location
+      },
+    });
+
+    if (["scheduledAt", "arrivedAt", "departedAt"].some((key) => key in fields)) {
+      await recalculateLoadDetention(audited, company, loadId); // Clock edits change detention
+    }
+
+    const updated = await tdb.loadStop.findUnique({ where: { id: stopId }, include: STOP_INCLUDE });
+    return NextResponse.json(updated);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_STOP_UPDATE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to update stop" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/loads/:loadId/stops/:stopId
+ * Removes the stop, closes the gap in the sequence and recomputes detention.
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "stops:delete");
+    const { loadId, stopId } = await params;
+
+    if (!loadId || !stopId) {
+      return NextResponse.json({ error: "Load ID and stop ID are required" }, { status: 400 });
+    }
+
+    const tdb = scopedDb(company.id);
+    const load = await findStopLoad(tdb, loadId, user);
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    const existing = await tdb.loadStop.findFirst({ where: { id: stopId, loadId }, select: { id: true } });
+    if (!existing) {
+      return NextResponse.json({ error: "Stop not found" }, { status: 404 });
+    }
+
+    const audited = auditedDb({ companyId: company.id, userId: user.id });
+    await audited.loadStop.delete({ where: { id: stopId } });
+
+    const remaining = await tdb.loadStop.findMany({
+      where: { loadId },
+      orderBy: { sequence: "asc" },
+      select: { id: true },
+    });
+    await resequenceStops(audited, remaining.map((s) => s.id));
+    await recalculateLoadDetention(audited, company, loadId); // The removed stop's detention drops out of the total
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_STOP_DELETE_ERROR]", err);
+    return NextResponse.json({ error: "Failed to delete stop" }, { status: 500 });
+  }
+}
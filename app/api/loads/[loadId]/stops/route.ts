@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { auditedDb } from "@/lib/audit";
+import { findStopLoad, resequenceStops, STOP_INCLUDE, withLocationAddress } from "@/lib/loadStops";
+import { scopedDb } from "@/lib/scopedDb";
+import { CreateStopSchema, ReorderStopsSchema } from "@/lib/schemas/stops";
+
+type RouteContext = { params: Promise<{ loadId?: string }> };
+
+/**
+ * GET /api/loads/:loadId/stops
+ * Returns the load's stops in sequence order.
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "stops:read");
+    const { loadId } = await params;
+
+    if (!loadId) {
+      return NextResponse.json({ error: "Load ID is required" }, { status: 400 });
+    }
+
+    const tdb = scopedDb(company.id);
+    const load = await findStopLoad(tdb, loadId, user);
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    const stops = await tdb.loadStop.findMany({
+      where: { loadId },
+      orderBy: { sequence: "asc" },
+      include: STOP_INCLUDE,
+    });
+
+    return NextResponse.json(stops);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_STOPS_GET_ERROR]", err);
+    return NextResponse.json({ error: "Failed to fetch stops" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/loads/:loadId/stops
+ * Body: { type: "PICKUP", locationId?: string, sequence?: number, ...address }
+ * Adds a stop at `sequence` (or at the end) and shifts later stops down.
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "stops:create");
+    const { loadId } = await params;
+
+    if (!loadId) {
+      return NextResponse.json({ error: "Load ID is required" }, { status: 400 });
+    }
+
+    const parsed = CreateStopSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid stop" },
+        { status: 400 }
+      );
+    }
+
+    const tdb = scopedDb(company.id);
+    const load = await findStopLoad(tdb, loadId, user);
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    const { sequence, locationId, ...fields } = parsed.data;
+
+    const location = locationId
+      ? await tdb.location.findFirst({ where: { id: locationId } })
+      : null;
+    if (locationId && !location) {
+      return NextResponse.json({ error: "Location not found" }, { status: 400 });
+    }
+
+    const existing = await tdb.loadStop.findMany({
+      where: { loadId },
+      orderBy: { sequence: "asc" },
+      select: { id: true },
+    });
+    const position = Math.min(sequence ?? existing.length, existing.length);
+
+    const audited = auditedDb({ companyId: company.id, userId: user.id });
+    const created = await audited.loadStop.create({
+      data: {
+        ...withLocationAddress(fields, location),
+        loadId,
+        locationId: location?.id ?? null,
+        sequence: position,
+      },
+    });
+
+    const order = existing.map((s) => s.id);
+    order.splice(position, 0, created.id);
+    await resequenceStops(audited, order); // Shifts the stops after the new one
+
+    const stop = await tdb.loadStop.findUnique({ where: { id: created.id }, include: STOP_INCLUDE });
+    return NextResponse.json(stop, { status: 201 });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_STOPS_POST_ERROR]", err);
+    return NextResponse.json({ error: "Failed to add stop" }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/loads/:loadId/stops
+ * Body: { stopIds: ["stop-b", "stop-a", "stop-c"] }
+ * Reorders the stops (drag-to-reorder). Must list every stop on the load exactly once.
+ */
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { company, user } = await requirePermission(req, "stops:update");
+    const { loadId } = await params;
+
+    if (!loadId) {
+      return NextResponse.json({ error: "Load ID is required" }, { status: 400 });
+    }
+
+    const parsed = ReorderStopsSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid stop order" },
+        { status: 400 }
+      );
+    }
+
+    const tdb = scopedDb(company.id);
+    const load = await findStopLoad(tdb, loadId, user);
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    const { stopIds } = parsed.data;
+    const existing = await tdb.loadStop.findMany({ where: { loadId }, select: { id: true } });
+    const existingIds = new Set(existing.map((s) => s.id));
+
+    if (
+      stopIds.length !== existingIds.size ||
+      new Set(stopIds).size !== stopIds.length ||
+      stopIds.some((id) => !existingIds.has(id))
+    ) {
+      return NextResponse.json(
+        { error: "stopIds must list every stop on this load exactly once" },
+        { status: 400 }
+      );
+    }
+
+    await resequenceStops(auditedDb({ companyId: company.id, userId: user.id }), stopIds);
+
+    const stops = await tdb.loadStop.findMany({
+      where: { loadId },
+      orderBy: { sequence: "asc" },
+      include: STOP_INCLUDE,
+    });
+
+    return NextResponse.json(stops);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    console.error("[LOAD_STOPS_REORDER_ERROR]", err);
+    return NextResponse.json({ error: "Failed to reorder stops" }, { status: 500 });
+  }
+}
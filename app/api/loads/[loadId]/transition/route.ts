@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
+import { auditedDb } from "@/lib/audit";
+import { assertEquipmentAvailable, equipmentConflictErrorResponse, IDLE_LOAD_STATUSES } from "@/lib/equipment";
+import {
+  allowedNextStatuses,
+  loadTransitionErrorResponse,
+  planLoadTransition,
+} from "@/lib/loadLifecycle";
+import { scopedDb } from "@/lib/scopedDb";
+import { LoadTransitionSchema } from "@/lib/schemas/loads";
+
+/**
+ * POST /api/loads/:loadId/transition
+ * Body: { to: "IN_TRANSIT", truckId?: string, tonuReason?: string, overrideConflicts?: boolean }
+ * Moves a load to its next status and applies the side effects (invoicedAt, paidAt, ...).
+ * Illegal moves get a 409 with the allowed next states; unmet requirements get a 422.
+ * Assigning a truck, or booking a draft, also gets a 409 when the equipment is in the shop
+ * or booked on an overlapping load, unless overridden.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ loadId?: string }> }
+) {
+  try {
+    const { company, user } = await requirePermission(req, "loads:update");
+    const { loadId } = await params;
+
+    if (!loadId) {
+      return NextResponse.json({ error: "Load ID is required" }, { status: 400 });
+    }
+
+    const parsed = LoadTransitionSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid transition" },
+        { status: 400 }
+      );
+    }
+
+    const { to, truckId, tonuReason, overrideConflicts } = parsed.data;
+    const tdb = scopedDb(company.id);
+
+    const load = await tdb.load.findFirst({ where: { id: loadId } });
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    const data = planLoadTransition(load, to, { truckId, tonuReason });
+
+    if (truckId || (IDLE_LOAD_STATUSES.includes(load.status) && !IDLE_LOAD_STATUSES.includes(to))) {
+      await assertEquipmentAvailable(
+        tdb,
+        { ...load, loadId, status: to, truckId: truckId ?? load.truckId },
+        { override: overrideConflicts }
+      );
+    }
+
+    const audited = auditedDb({ companyId: company.id, userId: user.id });
+    const updated = await audited.load.update({
+      where: { id: loadId, status: load.status }, // Fails if someone else moved the load in the meantime
+      data,
+    });
+
+    return NextResponse.json({
+      ...updated,
+      allowedNextStatuses: allowedNextStatuses(updated.status),
+    });
+  } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
+    const transitionResponse = loadTransitionErrorResponse(err);
+    if (transitionResponse) return transitionResponse;
+    const conflictResponse = equipmentConflictErrorResponse(err);
+    if (conflictResponse) return conflictResponse;
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2025") {
+      return NextResponse.json(
+        { error: "Load status changed while you were editing; reload and try again" },
+        { status: 409 }
+      );
+    }
+    console.error("[LOAD_TRANSITION_ERROR]", err);
+    return NextResponse.json({ error: "Failed to change load status" }, { status: 500 });
+  }
+}
@@ -1,31 +1,54 @@
 import { NextRequest, NextResponse } from "next/server";               // Imports Next.js request/response helpers for building API route handlers.
-import { db } from "@/lib/db";                                         // Imports the shared Prisma client instance to talk to the database.
-import { getDemoTenant } from "@/lib/demoTenant";                      // Imports helper that ensures a demo Company + User exist and returns them.
+import { authErrorResponse, requirePermission } from "@/lib/auth";     // Resolves the signed-in user + company from the session cookie.
+import { auditedDb } from "@/lib/audit";                               // Tenant-scoped client that records an AuditEvent per write.
+import { listLoads, parseLoadListQuery } from "@/lib/loadList";       // Filters, sorting and cursor paging for the list.
+import { scopedDb } from "@/lib/scopedDb";                             // Tenant-scoped reads.
+import { INITIAL_LOAD_STATUSES } from "@/lib/loadLifecycle";           // Statuses a brand-new load may start in.
+import { suggestDeadhead } from "@/lib/deadhead";                      // Empty miles from the truck's previous delivery.
+import { estimateLoadRoute } from "@/lib/mileage";                     // Offline miles estimate from stop addresses.
+import { estimateLoadFuel, LOAD_FUEL_SELECT } from "@/lib/fuel";        // Expected fuel cost from miles, MPG and diesel prices.
+import { resolveCompanySettings } from "@/lib/companySettings";        // Company default MPG for the fuel estimate.
+import { assertEquipmentAvailable, equipmentConflictErrorResponse } from "@/lib/equipment"; // Double-booking and in-shop checks.
+import type { LoadStatus } from "@prisma/client";                      // Enum type for the initial status.
 
 /**
  * GET /api/loads
- * Returns all loads for the demo company, newest first.
+ * Returns one page of the company's loads plus the total count, newest first by default.
+ * DRIVER users only get the loads they're assigned to.
+ *
+ * Query params (all optional):
+ *   status=BOOKED,IN_TRANSIT  customerId  truckId  driverId  equipment=REEFER
+ *   pickupFrom / pickupTo / deliveryFrom / deliveryTo (dates; "to" includes the whole day)
+ *   q=search text (load #, external ref, broker, commodity, customer name, stop city)
+ *   sort=createdAt|pickupDate|deliveryDate|rate|miles|loadNumber|status  dir=asc|desc
+ *   limit=25 (max 100)  cursor=<nextCursor>  before=<prevCursor>
+ *
+ * Response: { loads: [...], total, nextCursor, prevCursor }
  */
-export async function GET() {                                          // Defines the GET handler for the /api/loads endpoint.
+export async function GET(req: NextRequest) {                          // Defines the GET handler for the /api/loads endpoint.
   try {                                                                // Wraps logic in try/catch so we can handle errors gracefully.
-    const { company } = await getDemoTenant();                         // Ensures demo Company exists and retrieves it; we use its id for scoping.
+    const { company, user } = await requirePermission(req, "loads:read"); // Resolves the signed-in user and their company.
 
-    const loads = await db.load.findMany({                             // Queries the Load table for all loads belonging to this company.
-      where: {
-        companyId: company.id,                                         // Filters so we only see loads for this specific company (multi-tenant isolation).
-        isSoftDeleted: false,                                          // Excludes loads that have been soft-deleted.
-      },
-      orderBy: { createdAt: "desc" },                                  // Sorts loads so the most recently created ones appear first.
-      include: {                                                       // Optionally include some related data to make the list more useful.
-        customer: true,                                                // Includes the related Customer row (if any).
-        truck: true,                                                   // Includes the assigned Truck (if any).
-        trailer: true,                                                 // Includes the assigned Trailer (if any).
-        stops: true,                                                   // Includes LoadStop rows so we can see pickups/deliveries.
-      },
+    const parsed = parseLoadListQuery(req.nextUrl.searchParams);       // Validates filters, sort and paging params.
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        { error: issue ? `${issue.path.join(".")}: ${issue.message}` : "Invalid query" }, // Names the offending param.
+        { status: 400 }                                                // HTTP 400 = bad request.
+      );
+    }
+
+    const page = await listLoads(scopedDb(company.id), user, parsed.data, { // Tenant + soft-delete filters come from scopedDb.
+      customer: true,                                                  // Includes the related Customer row (if any).
+      truck: true,                                                     // Includes the assigned Truck (if any).
+      trailer: true,                                                   // Includes the assigned Trailer (if any).
+      stops: { orderBy: { sequence: "asc" } },                         // Includes LoadStop rows so we can see pickups/deliveries.
     });
 
-    return NextResponse.json(loads);                                   // Returns the array of loads as JSON with a 200 OK status.
+    return NextResponse.json(page);                                    // Returns the page + cursors as JSON with a 200 OK status.
   } catch (err) {                                                      // If anything throws during the DB query...
+    const authResponse = authErrorResponse(err);                       // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[LOADS_GET_ERROR]", err);                           // Logs the error on the server with a clear tag for debugging.
     return NextResponse.json(                                          // Returns a structured error response to the client.
       { error: "Failed to fetch loads" },                              // Simple error message payload.
@@ -36,15 +59,20 @@ export async function GET() {                                          // Define
 
 /**
  * POST /api/loads
- * Creates a new load for the demo company + user, and optional stops.
+ * Creates a new load for the current company + user, and optional stops.
  *
  * Expected JSON body example:
  * {
  *   "rate": 2000,
  *   "miles": 800,
- *   "fuelCost": 450,
+ *   "fuelCost": 450,                  // optional: estimated from miles, MPG and fuel prices when omitted
  *   "broker": "Test Broker",
+ *   "loadNumber": "L-558812",
+ *   "sourceDocumentId": "doc-uuid",   // optional: rate confirmation to link (see POST /api/documents/:id/rate-con)
  *   "commodity": "Dry freight",
+ *   "truckId": "truck-uuid",          // optional; 409 if the truck or trailer is in the shop or booked on an overlapping load
+ *   "trailerId": "trailer-uuid",      // optional
+ *   "overrideConflicts": true,        // optional: assign anyway despite the 409
  *   "pickupDate": "2025-12-01",
  *   "deliveryDate": "2025-12-02",
  *   "stops": [
@@ -75,20 +103,88 @@ export async function POST(req: NextRequest) {                         // Define
   try {
     const body = await req.json();                                     // Parses the incoming JSON request body into a JavaScript object.
 
-    const { company, user } = await getDemoTenant();                   // Ensures demo Company + User exist and retrieves them.
+    const { company, user } = await requirePermission(req, "loads:create"); // Resolves the signed-in user and their company.
+    const audited = auditedDb({ companyId: company.id, userId: user.id });  // Writes below are recorded as AuditEvents.
+    const tdb = scopedDb(company.id);                                  // Reads and unaudited writes only reach this company's rows.
+
+    const status: LoadStatus = body.status ?? "BOOKED";               // LoadStatus; defaults to BOOKED for now.
+    if (!INITIAL_LOAD_STATUSES.includes(status)) {                     // Later statuses are reached via POST /api/loads/:id/transition.
+      return NextResponse.json(
+        { error: `New loads must start as ${INITIAL_LOAD_STATUSES.join(" or ")}` },
+        { status: 400 }                                                // HTTP 400 = bad request.
+      );
+    }
+
+    const sourceDocumentId: string | null = body.sourceDocumentId ?? null; // Optional rate confirmation the load was parsed from.
+    if (sourceDocumentId) {
+      const sourceDocument = await tdb.document.findFirst({            // Must be this company's document...
+        where: { id: sourceDocumentId },
+        select: { loadId: true },
+      });
+      if (!sourceDocument) {
+        return NextResponse.json({ error: "Source document not found" }, { status: 400 });
+      }
+      if (sourceDocument.loadId) {                                     // ...and not already attached to another load.
+        return NextResponse.json(
+          { error: "Source document is already linked to a load" },
+          { status: 409 }                                              // HTTP 409 = conflict.
+        );
+      }
+    }
+
+    if (body.customerId) {                                             // Never link another tenant's customer.
+      const customer = await tdb.customer.findFirst({ where: { id: body.customerId }, select: { id: true } });
+      if (!customer) {
+        return NextResponse.json({ error: "Customer not found" }, { status: 400 });
+      }
+    }
+
+    const truckId: string | null = body.truckId ?? null;               // Optional truck, so deadhead can be suggested right away.
+    const trailerId: string | null = body.trailerId ?? null;           // Optional trailer.
+    const pickupDate = body.pickupDate ? new Date(body.pickupDate) : null;
+    const deliveryDate = body.deliveryDate ? new Date(body.deliveryDate) : null;
+    await assertEquipmentAvailable(                                    // 400 for an unknown truck/trailer, 409 listing conflicting loads.
+      tdb,
+      { status, truckId, trailerId, pickupDate, deliveryDate },
+      { override: body.overrideConflicts === true }
+    );
+
+    const routeEstimate = Array.isArray(body.stops)                    // Fills in miles when the client leaves them blank.
+      ? estimateLoadRoute(
+          body.stops.map((stop: { sequence?: unknown; city?: string; state?: string; postalCode?: string }, index: number) => ({
+            sequence: typeof stop.sequence === "number" ? stop.sequence : index,
+            city: stop.city ?? null,
+            state: stop.state ?? null,
+            postalCode: stop.postalCode ?? null,
+          }))
+        )
+      : null;
+    const milesEntered = body.miles != null && body.miles !== "";
+    if (!milesEntered && !routeEstimate) {
+      return NextResponse.json(
+        { error: "miles is required when the stops can't be located" },
+        { status: 400 }
+      );
+    }
+
+    const fuelEntered = body.fuelCost != null && body.fuelCost !== "";
 
     // 1) Create the core Load row.
-    const load = await db.load.create({                                // Creates a new Load row inside the database.
+    const load = await audited.load.create({                           // Creates a new Load row inside the database.
       data: {
         companyId: company.id,                                         // REQUIRED: associates this load with the current company.
         userId: user.id,                                               // REQUIRED: marks which user created the load.
 
         customerId: body.customerId ?? null,                           // Optional: associates the load with a specific customer if provided.
+        truckId,                                                       // Optional: validated above.
+        trailerId,                                                     // Optional: validated above.
 
         // FINANCIALS
         rate: Number(body.rate),                                       // REQUIRED: total revenue for the load; coerced to number.
-        miles: Number(body.miles),                                     // REQUIRED: total miles; coerced to number.
-        fuelCost: Number(body.fuelCost ?? 0),                          // REQUIRED: total fuel cost; defaults to 0 if not provided.
+        miles: milesEntered ? Number(body.miles) : routeEstimate!.miles, // Loaded miles as entered, else estimated from the stops.
+        deadheadMiles:
+          body.deadheadMiles != null ? Number(body.deadheadMiles) : null, // Optional empty miles to the first pickup; suggested below if omitted.
+        fuelCost: fuelEntered ? Number(body.fuelCost) : 0,             // Total fuel cost; estimated below if not provided.
         lumper:
           body.lumper != null ? Number(body.lumper) : null,            // Optional lumper fees; null if not supplied.
         tolls:
@@ -97,6 +193,7 @@ export async function POST(req: NextRequest) {                         // Define
           body.otherCosts != null ? Number(body.otherCosts) : null,    // Optional miscellaneous costs; null if not supplied.
 
         // LOAD META
+        loadNumber: body.loadNumber ?? null,                           // Optional broker/customer load reference.
         broker: body.broker ?? null,                                   // Optional broker name or customer reference.
         commodity: body.commodity ?? null,                             // Optional commodity description.
         equipment: body.equipment ?? "DRY_VAN",                        // EquipmentType enum; defaults to DRY_VAN if not specified.
@@ -105,11 +202,9 @@ export async function POST(req: NextRequest) {                         // Define
           body.loadValue != null ? Number(body.loadValue) : null,      // Optional cargo value for risk/insurance analytics.
 
         // DATES & STATUS
-        pickupDate:
-          body.pickupDate ? new Date(body.pickupDate) : null,          // Optional snapshot pickup date (for summary).
-        deliveryDate:
-          body.deliveryDate ? new Date(body.deliveryDate) : null,      // Optional snapshot delivery date (for summary).
-        status: body.status ?? "BOOKED",                               // LoadStatus; defaults to BOOKED for now.
+        pickupDate,                                                    // Optional snapshot pickup date (for summary).
+        deliveryDate,                                                  // Optional snapshot delivery date (for summary).
+        status,                                                        // Validated initial status from above.
       },
     });
 
@@ -149,19 +244,48 @@ export async function POST(req: NextRequest) {                         // Define
         };
       });
 
-      await db.loadStop.createMany({                                   // Uses Prisma's createMany to insert all stop rows in one call.
+      await audited.loadStop.createManyAndReturn({                     // Inserts all stop rows in one call; returning them lets each stop be audited.
         data: stopsData,                                               // Provides the mapped array of stop objects as the data payload.
       });
     }
 
-    // 3) Fetch the load again including stops so the client immediately sees full data.
-    const loadWithStops = await db.load.findUnique({                   // Re-queries the Load row we just created.
+    // 3) Link the rate confirmation the load was created from, if any.
+    if (sourceDocumentId) {
+      await tdb.document.updateMany({                                  // updateMany so the company + unlinked guards apply in the write itself.
+        where: { id: sourceDocumentId, loadId: null },
+        data: { loadId: load.id, type: "RATE_CON" },                   // Parsed as a rate con, so it goes in the invoice packet as one.
+      });
+    }
+
+    // 4) Fill in deadhead from the truck's previous delivery when the client didn't send it.
+    if (truckId && body.deadheadMiles == null) {
+      const suggestion = await suggestDeadhead(tdb, load);
+      if (suggestion?.miles != null) {
+        await audited.load.update({ where: { id: load.id }, data: { deadheadMiles: suggestion.miles } });
+      }
+    }
+
+    // 5) Pre-fill fuel cost from miles, MPG and the pickup-week diesel price when the client left it blank.
+    if (!fuelEntered) {
+      const fuelLoad = await tdb.load.findFirst({ where: { id: load.id }, select: LOAD_FUEL_SELECT });
+      const estimate = fuelLoad ? await estimateLoadFuel(tdb, fuelLoad, resolveCompanySettings(company)) : null;
+      if (estimate?.cost) {                                            // No price on file → stays 0 for the user to fill in.
+        await audited.load.update({ where: { id: load.id }, data: { fuelCost: estimate.cost } });
+      }
+    }
+
+    // 6) Fetch the load again including stops so the client immediately sees full data.
+    const loadWithStops = await tdb.load.findUnique({                  // Re-queries the Load row we just created.
       where: { id: load.id },                                          // Filters by its primary key ID.
       include: { stops: true, customer: true, truck: true, trailer: true }, // Includes stops + customer + truck + trailer for convenience.
     });
 
     return NextResponse.json(loadWithStops, { status: 201 });          // Returns the created load (with stops) as JSON with HTTP 201 Created.
   } catch (err) {                                                      // If any error occurs during body parsing, load creation, or stops creation...
+    const authResponse = authErrorResponse(err);                       // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
+    const conflictResponse = equipmentConflictErrorResponse(err);      // Unknown equipment gets a 400, double-booked or unavailable a 409.
+    if (conflictResponse) return conflictResponse;
     console.error("[LOADS_POST_ERROR]", err);                          // Logs the error on the server with an identifying tag.
     return NextResponse.json(                                          // Sends a generic error response back to the client.
       { error: "Failed to create load" },                              // Simple error message payload.
@@ -1,21 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/db";
-import { requireDemoUser } from "@/lib/auth";
+import { scopedDb } from "@/lib/scopedDb";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
 
 export async function GET(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: Promise<{ locationId?: string }> }
 ) {
   try {
-    const { company } = await requireDemoUser();
+    const { company } = await requirePermission(req, "locations:read");
     const { locationId } = await params;
 
     if (!locationId) {
       return NextResponse.json({ error: "Location ID is required" }, { status: 400 });
     }
 
-    const location = await db.location.findFirst({
-      where: { id: locationId, companyId: company.id },
+    const location = await scopedDb(company.id).location.findFirst({
+      where: { id: locationId },
       include: { contacts: true, stops: true },
     });
 
@@ -25,6 +25,8 @@ export async function GET(
 
     return NextResponse.json(location);
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[LOCATION_GET_ERROR]", err);
     return NextResponse.json({ error: "Failed to fetch location" }, { status: 500 });
   }
@@ -35,20 +37,26 @@ export async function PUT(
   { params }: { params: Promise<{ locationId?: string }> }
 ) {
   try {
-    const { company } = await requireDemoUser();
+    const { company } = await requirePermission(req, "locations:update");
     const { locationId } = await params;
 
     if (!locationId) {
       return NextResponse.json({ error: "Location ID is required" }, { status: 400 });
     }
 
+    const tdb = scopedDb(company.id);
+    const existing = await tdb.location.findFirst({ where: { id: locationId } });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Location not found" }, { status: 404 });
+    }
+
     const body = await req.json();
 
     // Safety: only allow updating fields that exist on Location.
-    const updated = await db.location.update({
+    const updated = await tdb.location.update({
       where: { id: locationId },
       data: {
-        // keep company scoping enforced by checking first
         name: body.name,
         isShipper: body.isShipper,
         isReceiver: body.isReceiver,
@@ -63,42 +71,40 @@ export async function PUT(
       },
     });
 
-    // Enforce company ownership after update attempt (prevents cross-company updates if IDs collide).
-    if (updated.companyId !== company.id) {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
     return NextResponse.json(updated);
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[LOCATION_PUT_ERROR]", err);
     return NextResponse.json({ error: "Failed to update location" }, { status: 500 });
   }
 }
 
 export async function DELETE(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: Promise<{ locationId?: string }> }
 ) {
   try {
-    const { company } = await requireDemoUser();
+    const { company } = await requirePermission(req, "locations:delete");
     const { locationId } = await params;
 
     if (!locationId) {
       return NextResponse.json({ error: "Location ID is required" }, { status: 400 });
     }
 
-    const existing = await db.location.findFirst({
-      where: { id: locationId, companyId: company.id },
-    });
+    const tdb = scopedDb(company.id);
+    const existing = await tdb.location.findFirst({ where: { id: locationId } });
 
     if (!existing) {
       return NextResponse.json({ error: "Location not found" }, { status: 404 });
     }
 
-    await db.location.delete({ where: { id: locationId } });
+    await tdb.location.delete({ where: { id: locationId } });
 
     return NextResponse.json({ success: true });
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[LOCATION_DELETE_ERROR]", err);
     return NextResponse.json({ error: "Failed to delete location" }, { status: 500 });
   }
@@ -1,19 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/db";
-import { requireDemoUser } from "@/lib/auth";
+import { scopedDb } from "@/lib/scopedDb";
+import { authErrorResponse, requirePermission } from "@/lib/auth";
 
-export async function GET() {
+export async function GET(req: NextRequest) {
   try {
-    const { company } = await requireDemoUser();
+    const { company } = await requirePermission(req, "locations:read");
 
-    const locations = await db.location.findMany({
-      where: { companyId: company.id },
+    const locations = await scopedDb(company.id).location.findMany({
       orderBy: { name: "asc" },
       include: { contacts: true },
     });
 
     return NextResponse.json(locations);
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[LOCATIONS_GET_ERROR]", err);
     return NextResponse.json({ error: "Failed to load locations" }, { status: 500 });
   }
@@ -21,7 +22,7 @@ export async function GET() {
 
 export async function POST(req: NextRequest) {
   try {
-    const { company } = await requireDemoUser();
+    const { company } = await requirePermission(req, "locations:create");
     const body = await req.json();
 
     const {
@@ -42,7 +43,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Name is required" }, { status: 400 });
     }
 
-    const location = await db.location.create({
+    const location = await scopedDb(company.id).location.create({
       data: {
         companyId: company.id,
         name,
@@ -61,6 +62,8 @@ export async function POST(req: NextRequest) {
 
     return NextResponse.json(location, { status: 201 });
   } catch (err) {
+    const authResponse = authErrorResponse(err);
+    if (authResponse) return authResponse;
     console.error("[LOCATIONS_POST_ERROR]", err);
     return NextResponse.json({ error: "Failed to create location" }, { status: 500 });
   }
@@ -1,21 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";              // Imports Next.js request/response types and helpers for building API routes.
-import { getDemoTenant } from "@/lib/demoTenant";                      // Imports the helper that returns (or creates) the demo Company + User pair.
+import { authErrorResponse, getCurrentTenant } from "@/lib/auth";      // Resolves the signed-in user + company from the session cookie.
+import { permissionsFor } from "@/lib/permissions";                    // Role → permission list so the UI can hide actions the user can't take.
 
 /**
  * GET /api/me
- * Returns the "current" user and their company context.
- * For now this is the demo tenant (demo company + demo user) until real auth is wired in.
+ * Returns the signed-in user and their company context (401 when signed out).
  */
-export async function GET(_req: NextRequest) {                         // Defines the GET handler for /api/me; Next.js calls this on GET requests.
+export async function GET(req: NextRequest) {                          // Defines the GET handler for /api/me; Next.js calls this on GET requests.
   try {                                                                // Wraps the logic in a try/catch so any error is handled gracefully.
-    const { company, user } = await getDemoTenant();                   // Uses the shared demoTenant helper to resolve a Company + User pair.
-
-    if (!user || !company) {                                           // Extra guard: if for some reason either is missing...
-      return NextResponse.json(                                       // ...respond with a 500-level error indicating a server-side problem.
-        { error: "Failed to resolve demo tenant" },                    // JSON error message describing what went wrong.
-        { status: 500 }                                                // HTTP 500 = internal server error.
-      );
-    }
+    const { company, user } = await getCurrentTenant(req);             // Resolves the signed-in user and their company.
 
     return NextResponse.json({                                         // Builds a successful JSON response describing the current user + company.
       user: {                                                          // Nests user-related fields under `user` for clarity.
@@ -26,6 +19,7 @@ export async function GET(_req: NextRequest) {                         // Define
         companyId: user.companyId,                                     // Links the user explicitly to their company in the response.
         createdAt: user.createdAt,                                     // Shows when the user account was created (auditing / UX).
         isActive: user.isActive,                                       // Indicates whether the user is currently active in the system.
+        permissions: permissionsFor(user.role),                        // e.g. ["loads:read", "invoices:create"]; the API still enforces these.
       },
       company: {                                                       // Nests company-related fields under `company`.
         id: company.id,                                                // Exposes the company ID for scoping queries on the frontend.
@@ -43,6 +37,8 @@ export async function GET(_req: NextRequest) {                         // Define
       },
     });                                                                // Ends the JSON response with default 200 OK status.
   } catch (err) {                                                      // If any error occurs inside the try block...
+    const authResponse = authErrorResponse(err);                       // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[ME_GET_ERROR]", err);                              // Log the error with a clear tag so it's easy to spot in server logs.
     return NextResponse.json(                                         // Return a standardized error response to the client.
       { error: "Failed to load current user" },                        // Generic error message to avoid leaking internal details.
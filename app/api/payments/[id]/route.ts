@@ -1,17 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";          // Next.js helpers for handling HTTP requests and responses.
-import { db } from "@/lib/db";                                    // Prisma client for DB reads/writes.
-import { getDemoTenant } from "@/lib/demoTenant";                 // Helper to resolve current company context (demo tenant).
+import { scopedDb } from "@/lib/scopedDb";                        // Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth"; // Resolves the signed-in user + company from the session cookie.
+import { auditedDb } from "@/lib/audit";                           // Tenant-scoped client that records an AuditEvent per write.
+import { applyInvoicePayments, paymentAmountError } from "@/lib/payments"; // Overpayment check + invoice/load status updates.
 
 /**
  * GET /api/payments/:id
  * Fetch a single payment by ID.
  */
 export async function GET(
-  _req: NextRequest,                                              // Incoming request (not used here, but required by signature).
+  req: NextRequest,                                               // Incoming request (not used here, but required by signature).
   { params }: { params: Promise<{ id?: string }> }                // Dynamic route params (id) provided as a Promise.
 ) {
   try {
-    const { company } = await getDemoTenant();                    // Resolve the current company.
+    const { company } = await requirePermission(req, "payments:read"); // Resolve the current company.
 
     const { id } = await params;                                  // Await the params Promise and extract the payment ID.
 
@@ -22,10 +24,9 @@ export async function GET(
       );
     }
 
-    const payment = await db.payment.findFirst({                  // Query the Payment table for this ID + company.
+    const payment = await scopedDb(company.id).payment.findFirst({ // Query this company's Payment rows for this ID.
       where: {
         id,                                                       // Match the payment by primary key.
-        companyId: company.id,                                    // Ensure it belongs to the current company.
       },
       include: {
         customer: true,                                           // Include linked customer for UI.
@@ -42,6 +43,8 @@ export async function GET(
 
     return NextResponse.json(payment);                            // Return the payment as JSON.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                  // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[PAYMENT_GET_ERROR]", err);                    // Log server error.
     return NextResponse.json(
       { error: "Failed to fetch payment" },                       // Generic error response.
@@ -52,14 +55,16 @@ export async function GET(
 
 /**
  * PUT /api/payments/:id
- * Update a payment (amount, method, receivedAt, notes).
+ * Update a payment (amount, method, receivedAt, notes, isCredit).
+ * The invoice's status is re-derived afterwards, so lowering an amount can take it out of PAID.
  */
 export async function PUT(
   req: NextRequest,                                               // Incoming HTTP request with JSON body of updates.
   { params }: { params: Promise<{ id?: string }> }                // Dynamic route params containing payment ID.
 ) {
   try {
-    const { company } = await getDemoTenant();                    // Resolve the current company.
+    const { company, user } = await requirePermission(req, "payments:update"); // Resolve the current company.
+    const audited = auditedDb({ companyId: company.id, userId: user.id }); // Writes below are recorded as AuditEvents.
 
     const { id } = await params;                                  // Await params and pull out the ID.
     if (!id) {                                                    // Guard for missing ID in URL.
@@ -69,10 +74,12 @@ export async function PUT(
       );
     }
 
-    const existing = await db.payment.findFirst({                 // Look up the existing payment in the DB.
+    const existing = await scopedDb(company.id).payment.findFirst({ // Look up the existing payment in this company.
       where: {
         id,                                                       // Match by ID.
-        companyId: company.id,                                    // Ensure it belongs to this company.
+      },
+      include: {
+        invoice: { include: { payments: { select: { amount: true } } } }, // For the open balance.
       },
     });
 
@@ -121,20 +128,41 @@ export async function PUT(
       updates.notes = body.notes ?? null;                         // Allow clearing notes by sending null.
     }
 
+    if (body.isCredit !== undefined) {                            // If the credit flag was provided...
+      updates.isCredit = body.isCredit === true;
+    }
+
+    if (updates.amount !== undefined || updates.isCredit !== undefined) { // Re-check the amount against what else is paid.
+      const amountError = paymentAmountError(existing.invoice, updates.amount ?? existing.amount, {
+        isCredit: updates.isCredit ?? existing.isCredit,
+        replacing: existing.amount,                               // This payment's old amount is freed up.
+      });
+      if (amountError) {
+        return NextResponse.json(
+          { error: amountError },
+          { status: 400 }                                         // HTTP 400 = bad request.
+        );
+      }
+    }
+
     // Optionally allow changing invoice/customer if you want; for now we lock them.
     // If you want to support reassigning a payment, we’d add validation here.
 
-    const updated = await db.payment.update({                     // Perform the actual update in the DB.
+    const updated = await audited.payment.update({                // Perform the actual update in the DB.
       where: { id },                                              // Target the payment by primary key.
       data: updates,                                              // Apply only the fields we collected above.
       include: {
         customer: true,                                           // Include related customer in response.
-        invoice: true,                                            // Include related invoice in response.
       },
     });
 
-    return NextResponse.json(updated);                            // Return the updated payment as JSON.
+    const applied = await applyInvoicePayments(audited, existing.invoiceId); // Settles or un-settles the invoice and its loads.
+    const invoice = await scopedDb(company.id).invoice.findUnique({ where: { id: existing.invoiceId } }); // Re-read for the new status.
+
+    return NextResponse.json({ ...updated, invoice: { ...invoice, ...applied } }); // Invoice includes amountPaid / balance / credit.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                  // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[PAYMENT_PUT_ERROR]", err);                    // Log the error for debugging.
     return NextResponse.json(
       { error: "Failed to update payment" },                      // Generic error message for clients.
@@ -149,11 +177,12 @@ export async function PUT(
  * (If you later want soft-delete, we can add a deletedAt field instead.)
  */
 export async function DELETE(
-  _req: NextRequest,                                              // Incoming request (unused).
+  req: NextRequest,                                               // Incoming request; carries the session cookie.
   { params }: { params: Promise<{ id?: string }> }                // Route params containing the payment ID.
 ) {
   try {
-    const { company } = await getDemoTenant();                    // Resolve current company.
+    const { company, user } = await requirePermission(req, "payments:delete"); // Resolve current company.
+    const audited = auditedDb({ companyId: company.id, userId: user.id }); // Writes below are recorded as AuditEvents.
 
     const { id } = await params;                                  // Await params and get the ID.
     if (!id) {                                                    // Guard: ID is required.
@@ -163,10 +192,9 @@ export async function DELETE(
       );
     }
 
-    const existing = await db.payment.findFirst({                 // Verify the payment exists and belongs to the company.
+    const existing = await scopedDb(company.id).payment.findFirst({ // Verify the payment exists and belongs to the company.
       where: {
         id,                                                       // Match ID.
-        companyId: company.id,                                    // Match company.
       },
     });
 
@@ -177,12 +205,16 @@ export async function DELETE(
       );
     }
 
-    await db.payment.delete({                                     // Delete the payment row from the DB.
+    await audited.payment.delete({                                // Delete the payment row from the DB.
       where: { id },                                              // Target by primary key.
     });
 
-    return NextResponse.json({ success: true });                  // Return a simple success payload.
+    const applied = await applyInvoicePayments(audited, existing.invoiceId); // A PAID invoice goes back to SENT/OVERDUE, its loads to INVOICED.
+
+    return NextResponse.json({ success: true, invoice: applied }); // Return a simple success payload plus the invoice's new status and balance.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                  // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[PAYMENT_DELETE_ERROR]", err);                 // Log deletion error for debugging.
     return NextResponse.json(
       { error: "Failed to delete payment" },                      // Generic error message.
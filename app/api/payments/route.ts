@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";          // Provides types/utilities for handling requests and building JSON responses in Next.js routes.
-import { db } from "@/lib/db";                                    // Prisma client instance so we can query and write to the PostgreSQL database.
-import { getDemoTenant } from "@/lib/demoTenant";                 // Helper to resolve the current demo company + user (until real auth is wired in).
+import { scopedDb } from "@/lib/scopedDb";                        // Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth"; // Resolves the signed-in user + company from the session cookie.
+import { auditedDb } from "@/lib/audit";                           // Tenant-scoped client that records an AuditEvent per write.
+import { applyInvoicePayments, paymentAmountError } from "@/lib/payments"; // Overpayment check + invoice/load status updates.
 
 /**
  * GET /api/payments
@@ -10,15 +12,13 @@ import { getDemoTenant } from "@/lib/demoTenant";                 // Helper to r
  */
 export async function GET(req: NextRequest) {                     // Handles GET requests to /api/payments.
   try {                                                           // Wrap the logic in try/catch so an error doesn't crash the route.
-    const { company } = await getDemoTenant();                    // Resolves the current company context (multi-tenant safety).
+    const { company } = await requirePermission(req, "payments:read"); // Resolves the current company context (multi-tenant safety).
 
     const { searchParams } = new URL(req.url);                    // Parses the incoming URL so we can read query parameters.
     const customerId = searchParams.get("customerId");            // Reads optional ?customerId=... for filtering.
     const invoiceId = searchParams.get("invoiceId");              // Reads optional ?invoiceId=... for filtering.
 
-    const where: any = {                                          // Start building a dynamic Prisma filter object.
-      companyId: company.id,                                      // Always restrict payments to the current company.
-    };                                                            // End of initial filter object.
+    const where: any = {};                                        // Dynamic Prisma filter; scopedDb adds companyId.
 
     if (customerId) {                                             // If the client provided a customerId filter...
       where.customerId = customerId;                              // ...only return payments for that customer.
@@ -28,8 +28,8 @@ export async function GET(req: NextRequest) {                     // Handles GET
       where.invoiceId = invoiceId;                                // ...only return payments tied to that invoice.
     }                                                             // End invoiceId filter block.
 
-    const payments = await db.payment.findMany({                  // Query the Payment table via Prisma.
-      where,                                                      // Apply our assembled filter (company + optional customer/invoice).
+    const payments = await scopedDb(company.id).payment.findMany({ // Query this company's payments.
+      where,                                                      // Apply our assembled filter (optional customer/invoice).
       orderBy: { receivedAt: "desc" },                            // Sort most recent payments first for better UX.
       include: {                                                  // Eager-load related entities used in the UI.
         customer: true,                                           // Include the Customer this payment belongs to.
@@ -39,6 +39,8 @@ export async function GET(req: NextRequest) {                     // Handles GET
 
     return NextResponse.json(payments);                           // Return the list of payments as JSON (200 OK).
   } catch (err) {
+    const authResponse = authErrorResponse(err);                  // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[PAYMENTS_GET_ERROR]", err);                   // Log server-side error for debugging.
     return NextResponse.json(                                    // Send a structured error response.
       { error: "Failed to fetch payments" },                      // Error message the frontend can show.
@@ -57,12 +59,16 @@ export async function GET(req: NextRequest) {                     // Handles GET
  *   "amount": 1950,
  *   "method": "ACH",                    // Optional, defaults to ACH
  *   "receivedAt": "2025-12-10T15:00:00.000Z", // Optional, defaults to now
- *   "notes": "Paid via bank transfer"
+ *   "notes": "Paid via bank transfer",
+ *   "isCredit": false                   // Optional: allow paying more than the open balance; the excess is customer credit
  * }
+ *
+ * Settling the balance marks the invoice PAID and its linked loads PAID.
  */
 export async function POST(req: NextRequest) {                    // Handles POST requests to /api/payments.
   try {
-    const { company } = await getDemoTenant();                    // Get the current company context.
+    const { company, user } = await requirePermission(req, "payments:create"); // Get the current company context.
+    const audited = auditedDb({ companyId: company.id, userId: user.id }); // Writes below are recorded as AuditEvents.
 
     const body = await req.json();                                // Parse incoming JSON request body.
 
@@ -73,6 +79,7 @@ export async function POST(req: NextRequest) {                    // Handles POS
       method,                                                     // Optional payment method string (ACH, CHECK, FACTORING, etc.).
       receivedAt,                                                 // Optional receivedAt date string.
       notes,                                                      // Optional notes string.
+      isCredit,                                                   // Optional flag allowing an overpayment.
     } = body;                                                     // Destructure body into individual variables.
 
     if (!customerId || !invoiceId || amount === undefined) {      // Validate required fields exist.
@@ -91,13 +98,13 @@ export async function POST(req: NextRequest) {                    // Handles POS
     }
 
     // Verify that the invoice exists and belongs to this company.
-    const invoice = await db.invoice.findFirst({                  // Look up the invoice in the DB.
+    const invoice = await scopedDb(company.id).invoice.findFirst({ // Look up the invoice in this company.
       where: {
         id: invoiceId,                                            // Match the invoiceId from the request.
-        companyId: company.id,                                    // Ensure it belongs to the current company.
       },
       include: {
         customer: true,                                           // Also include the customer to cross-check consistency.
+        payments: { select: { amount: true } },                   // Payments so far, for the open balance.
       },
     });
 
@@ -115,6 +122,14 @@ export async function POST(req: NextRequest) {                    // Handles POS
       );
     }
 
+    const amountError = paymentAmountError(invoice, numericAmount, { isCredit: isCredit === true }); // Cancelled invoice or overpayment.
+    if (amountError) {
+      return NextResponse.json(
+        { error: amountError },
+        { status: 400 }                                           // HTTP 400 = bad request.
+      );
+    }
+
     let receivedDate: Date;                                       // Will hold the final receivedAt value.
     if (receivedAt) {                                             // If client passed a receivedAt timestamp...
       const parsed = new Date(receivedAt);                        // Try to parse it into a Date.
@@ -130,7 +145,7 @@ export async function POST(req: NextRequest) {                    // Handles POS
     }
 
     // Create the payment record.
-    const payment = await db.payment.create({                     // Insert a new Payment row in the DB.
+    const payment = await audited.payment.create({                // Insert a new Payment row in the DB.
       data: {
         companyId: company.id,                                    // Associate payment to the current company.
         customerId,                                               // Link to the paying customer.
@@ -139,18 +154,23 @@ export async function POST(req: NextRequest) {                    // Handles POS
         method: method ?? "ACH",                                  // Default payment method to ACH if none provided.
         receivedAt: receivedDate,                                 // Store the parsed or default receivedAt date.
         notes: notes ?? null,                                     // Store optional notes (or null).
+        isCredit: isCredit === true,                              // Whether the excess over the balance was accepted as credit.
       },
       include: {
         customer: true,                                           // Include customer in the response for UI convenience.
-        invoice: true,                                            // Include invoice in the response.
       },
     });
 
-    // (Optional future step: recompute invoice status based on total payments vs total.)
-    // For now, we just create the payment and leave invoice status unchanged.
+    const applied = await applyInvoicePayments(audited, invoiceId); // Flips the invoice (and its loads) to PAID once settled.
+    const updatedInvoice = await scopedDb(company.id).invoice.findUnique({ where: { id: invoiceId } }); // Re-read so the response has the new status.
 
-    return NextResponse.json(payment, { status: 201 });           // Return the created payment with 201 Created status.
+    return NextResponse.json(                                     // Return the created payment with 201 Created status.
+      { ...payment, invoice: { ...updatedInvoice, ...applied } }, // Invoice includes amountPaid / balance / credit.
+      { status: 201 }
+    );
   } catch (err) {
+    const authResponse = authErrorResponse(err);                  // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[PAYMENTS_POST_ERROR]", err);                  // Log server-side errors to help debugging.
     return NextResponse.json(
       { error: "Failed to create payment" },                      // Generic error message for clients.
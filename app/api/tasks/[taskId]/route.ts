@@ -1,17 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";             // Imports Next.js request/response helpers for building route handlers.
-import { db } from "@/lib/db";                                       // Imports the Prisma client to talk to the database.
-import { getDemoTenant } from "@/lib/demoTenant";                    // Imports helper to resolve demo company + user context.
+import { scopedDb } from "@/lib/scopedDb";                           // Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth";   // Resolves the signed-in user + company from the session cookie.
+import { auditedDb } from "@/lib/audit";                             // Tenant-scoped client that records an AuditEvent per write.
 
 /**
  * GET /api/tasks/:taskId
  * Fetch a single task by ID, including related entities.
  */
 export async function GET(                                           // Defines the GET handler for fetching a single task.
-  _req: NextRequest,                                                 // Incoming request (unused here, but part of the signature).
+  req: NextRequest,                                                  // Incoming request; carries the session cookie.
   context: { params: Promise<{ taskId?: string }> }                  // Route params provided by the app router as a Promise.
 ) {
   try {                                                              // Wrap the logic in try/catch for safe error handling.
-    const { company } = await getDemoTenant();                       // Resolves the current company (multi-tenant context).
+    const { company } = await requirePermission(req, "tasks:read");  // Resolves the current company (multi-tenant context).
 
     const { taskId } = await context.params;                         // Awaits the params Promise and extracts the taskId.
 
@@ -22,10 +23,9 @@ export async function GET(                                           // Defines
       );
     }
 
-    const task = await db.task.findFirst({                           // Queries the database for the task.
+    const task = await scopedDb(company.id).task.findFirst({         // Queries the database for the task.
       where: {
         id: taskId,                                                  // Must match this specific task ID.
-        companyId: company.id,                                       // Must belong to the current company.
       },
       include: {
         relatedCustomer: true,                                       // Include customer relation (if any).
@@ -44,6 +44,8 @@ export async function GET(                                           // Defines
 
     return NextResponse.json(task);                                  // On success, return the task object as JSON.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                     // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[TASK_GET_ERROR]", err);                          // Log any unexpected server-side error.
     return NextResponse.json(                                       // Return a 500 Internal Server Error.
       { error: "Failed to fetch task" },                             // Generic error message for the client.
@@ -61,7 +63,8 @@ export async function PATCH(                                         // Defines
   context: { params: Promise<{ taskId?: string }> }                  // Route params with the taskId to update.
 ) {
   try {                                                              // Wrap in try/catch so we can handle errors cleanly.
-    const { company } = await getDemoTenant();                       // Resolves the current company context.
+    const { company, user } = await requirePermission(req, "tasks:update"); // Resolves the current company context.
+    const audited = auditedDb({ companyId: company.id, userId: user.id }); // Writes below are recorded as AuditEvents.
 
     const { taskId } = await context.params;                         // Awaits params and extracts taskId.
     if (!taskId) {                                                   // Guard: no taskId means invalid request.
@@ -73,10 +76,9 @@ export async function PATCH(                                         // Defines
 
     const body = await req.json();                                   // Parse JSON body from the request.
 
-    const existing = await db.task.findFirst({                       // Fetch the existing task to merge updates.
+    const existing = await scopedDb(company.id).task.findFirst({     // Fetch the existing task to merge updates.
       where: {
         id: taskId,                                                  // Match by primary key.
-        companyId: company.id,                                       // Ensure it belongs to this company.
       },
     });
 
@@ -105,7 +107,7 @@ export async function PATCH(                                         // Defines
       }
     }
 
-    const updated = await db.task.update({                           // Perform the actual update in the database.
+    const updated = await audited.task.update({                      // Perform the actual update in the database.
       where: { id: taskId },                                         // Target the task by primary key.
       data: {
         status: normalizedStatus,                                    // Persist the new or existing status.
@@ -158,6 +160,8 @@ export async function PATCH(                                         // Defines
 
     return NextResponse.json(updated);                               // Return the updated task as JSON.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                      // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[TASK_PATCH_ERROR]", err);                         // Log any server-side error for debugging.
     return NextResponse.json(
       { error: "Failed to update task" },                            // Generic error message for the client.
@@ -183,11 +187,12 @@ export async function PUT(                                           // Defines
  * Permanently deletes a task.
  */
 export async function DELETE(                                        // Defines the DELETE handler for removing a task.
-  _req: NextRequest,                                                 // Incoming request (unused here).
+  req: NextRequest,                                                  // Incoming request; carries the session cookie.
   context: { params: Promise<{ taskId?: string }> }                  // Route params with the taskId to delete.
 ) {
   try {                                                              // Wrap in try/catch for safe error handling.
-    const { company } = await getDemoTenant();                       // Resolve current company.
+    const { company, user } = await requirePermission(req, "tasks:delete"); // Resolve current company.
+    const audited = auditedDb({ companyId: company.id, userId: user.id }); // Writes below are recorded as AuditEvents.
 
     const { taskId } = await context.params;                         // Await params and extract the task ID.
 
@@ -198,10 +203,9 @@ export async function DELETE(                                        // Defines
       );
     }
 
-    const existing = await db.task.findFirst({                       // Ensure the task exists and belongs to this company.
+    const existing = await scopedDb(company.id).task.findFirst({     // Ensure the task exists and belongs to this company.
       where: {
         id: taskId,                                                  // Match by ID.
-        companyId: company.id,                                       // Scope to current company.
       },
     });
 
@@ -212,12 +216,14 @@ export async function DELETE(                                        // Defines
       );
     }
 
-    await db.task.delete({                                           // Delete the task from the database.
+    await audited.task.delete({                                      // Delete the task from the database.
       where: { id: taskId },                                         // Target by primary key.
     });
 
     return NextResponse.json({ success: true });                     // Return a simple success response.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                     // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[TASK_DELETE_ERROR]", err);                       // Log unexpected errors.
     return NextResponse.json(
       { error: "Failed to delete task" },                            // Generic error message.
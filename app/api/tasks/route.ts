@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";          // Imports types/helpers for handling HTTP requests and JSON responses.
-import { db } from "@/lib/db";                                    // Prisma client instance to talk to the database.
-import { getDemoTenant } from "@/lib/demoTenant";                 // Helper that ensures we have a demo company + user.
+import { scopedDb } from "@/lib/scopedDb";                        // Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth"; // Resolves the signed-in user + company from the session cookie.
+import { auditedDb } from "@/lib/audit";                           // Tenant-scoped client that records an AuditEvent per write.
 import type { TaskStatus } from "@prisma/client";                 // Imports TaskStatus enum type to keep status values valid.
 
 /**
@@ -10,20 +11,18 @@ import type { TaskStatus } from "@prisma/client";                 // Imports Tas
  */
 export async function GET(req: NextRequest) {                     // Handles GET /api/tasks.
   try {                                                           // Wrap logic in try/catch for safe error handling.
-    const { company } = await getDemoTenant();                    // Resolves the current company (multi-tenant context).
+    const { company } = await requirePermission(req, "tasks:read"); // Resolves the current company (multi-tenant context).
 
     const { searchParams } = new URL(req.url);                    // Parses the URL so we can read query parameters.
     const statusParam = searchParams.get("status");               // Reads ?status=... if provided.
 
-    const where: any = {                                          // Builds a dynamic Prisma filter.
-      companyId: company.id,                                      // Always scope to this company.
-    };
+    const where: any = {};                                        // Builds a dynamic Prisma filter; scopedDb adds companyId.
 
     if (statusParam) {                                            // If caller passed a status filter...
       where.status = statusParam;                                 // ...filter tasks to that status.
     }
 
-    const tasks = await db.task.findMany({                        // Fetches tasks from the database.
+    const tasks = await scopedDb(company.id).task.findMany({      // Fetches this company's tasks.
       where,                                                      // Apply our filter.
       orderBy: [                                                  // Order for stable Kanban display.
         { status: "asc" },                                        // 1) By status.
@@ -40,6 +39,8 @@ export async function GET(req: NextRequest) {                     // Handles GET
 
     return NextResponse.json(tasks);                              // Send tasks as JSON (200 OK by default).
   } catch (err) {
+    const authResponse = authErrorResponse(err);                   // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[TASKS_GET_ERROR]", err);                       // Log error for backend debugging.
     return NextResponse.json(                                     // Send a structured error response.
       { error: "Failed to fetch tasks" },                         // Error message.
@@ -63,7 +64,8 @@ export async function GET(req: NextRequest) {                     // Handles GET
  */
 export async function POST(req: NextRequest) {                    // Handles POST /api/tasks.
   try {
-    const { company, user } = await getDemoTenant();              // Ensures we have a demo company + user (assignee).
+    const { company, user } = await requirePermission(req, "tasks:create"); // Resolves the signed-in user and their company.
+    const audited = auditedDb({ companyId: company.id, userId: user.id });  // Writes below are recorded as AuditEvents.
 
     const body = await req.json();                                // Parse incoming JSON body.
 
@@ -92,9 +94,8 @@ export async function POST(req: NextRequest) {                    // Handles POS
     }
 
     // ---- DETERMINE NEXT ORDER WITHIN THIS STATUS COLUMN ----
-    const lastInColumn = await db.task.findFirst({                // Find the highest-order task in this column.
+    const lastInColumn = await scopedDb(company.id).task.findFirst({ // Find the highest-order task in this company's column.
       where: {
-        companyId: company.id,                                    // Same company.
         status,                                                   // Same status/column.
       },
       orderBy: {
@@ -105,7 +106,7 @@ export async function POST(req: NextRequest) {                    // Handles POS
     const nextOrder = (lastInColumn?.order ?? -1) + 1;            // If none exist, start at 0; otherwise last order + 1.
 
     // ---- CREATE THE TASK ----
-    const task = await db.task.create({                           // Insert a new row into the Task table.
+    const task = await audited.task.create({                      // Insert a new row into the Task table.
       data: {
         companyId: company.id,                                    // Owning company.
         userId: user.id,                                          // Assigned user.
@@ -130,6 +131,8 @@ export async function POST(req: NextRequest) {                    // Handles POS
 
     return NextResponse.json(task, { status: 201 });              // Send the created task as JSON with 201 Created.
   } catch (err: any) {
+    const authResponse = authErrorResponse(err);                   // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[TASKS_POST_ERROR]", err);                      // Log the full error for debugging.
 
     // Try to surface a Prisma error message if present.
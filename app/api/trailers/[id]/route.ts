@@ -1,51 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";              // Imports Next.js helpers for server-side API routes.
-import { db } from "@/lib/db";                                        // Imports Prisma client instance for DB operations.
-
-// Same demo auth helper pattern used across the project.              // Ensures all data is scoped by company.
-async function getDemoAuthContext() {                                 // Resolves (or creates) a demo user + company.
-  let user = await db.user.findFirst({                                // Tries to find the demo user row.
-    where: { email: "demo@demo.com" },                                // Filters by fixed demo email.
-    include: { company: true },                                       // Also loads the related company row if available.
-  });
-
-  if (user && user.company) {                                         // If user already has a linked company...
-    return { user, company: user.company };                           // ...return them immediately.
-  }
-
-  let company;                                                        // Will hold the company instance.
-
-  if (user?.companyId) {                                              // If user has a companyId set...
-    company =
-      (await db.company.findUnique({ where: { id: user.companyId } })) // ...attempt to load that company.
-      || (await db.company.create({ data: { name: "Demo Company" } })); // Or create one if it doesn’t exist.
-  } else {                                                            // If user missing or no companyId...
-    company =
-      (await db.company.findFirst())                                  // Try to reuse an existing company...
-      || (await db.company.create({ data: { name: "Demo Company" } })); // Or create a fresh demo company.
-  }
-
-  if (!user) {                                                        // If the user doesn’t exist yet...
-    user = await db.user.create({                                     // ...create a demo user linked to this company.
-      data: {
-        email: "demo@demo.com",
-        passwordHash: "placeholder",
-        companyId: company.id,
-        fullName: "Demo User",
-      },
-    });
-  } else if (!user.companyId) {                                       // If user exists but is not linked to any company...
-    user = await db.user.update({                                     // ...update to attach the company.
-      where: { id: user.id },
-      data: { companyId: company.id },
-    });
-  }
-
-  return { user, company };                                           // Return both user and company to the caller.
-}
+import { scopedDb } from "@/lib/scopedDb";                            // Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth";    // Resolves the signed-in user + company from the session cookie.
+import { auditedDb } from "@/lib/audit";                              // Tenant-scoped client that records an AuditEvent per write.
 
 // GET /api/trailers/:id → fetch a single trailer by ID.
 export async function GET(
-  _req: NextRequest,                                                  // Incoming request (unused).
+  req: NextRequest,                                                   // Incoming request; carries the session cookie.
   { params }: { params: Promise<{ id: string }> }                     // Route parameters wrapped in a Promise (Next 16 behavior).
 ) {
   try {
@@ -58,12 +18,11 @@ export async function GET(
       );
     }
 
-    const { company } = await getDemoAuthContext();                   // Resolve company context for scoping.
+    const { company } = await requirePermission(req, "trailers:read"); // Resolve company context for scoping.
 
-    const trailer = await db.trailer.findFirst({                      // Query the Trailer table for this ID.
+    const trailer = await scopedDb(company.id).trailer.findFirst({    // Query the Trailer table for this ID.
       where: {
         id,                                                           // Must match the provided ID.
-        companyId: company.id,                                        // Must belong to this company.
       },
     });
 
@@ -76,6 +35,8 @@ export async function GET(
 
     return NextResponse.json(trailer);                                // On success, return the trailer as JSON.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                      // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[TRAILER_GET_ERROR]", err);                        // Log unexpected errors.
     return NextResponse.json(
       { error: "Failed to fetch trailer" },                           // Generic error message for the client.
@@ -99,13 +60,11 @@ export async function PUT(
       );
     }
 
-    const { company } = await getDemoAuthContext();                   // Resolve company for scoping.
+    const { company, user } = await requirePermission(req, "trailers:update"); // Resolve company for scoping.
+    const audited = auditedDb({ companyId: company.id, userId: user.id }); // Writes below are recorded as AuditEvents.
 
-    const existing = await db.trailer.findFirst({                     // Load the existing trailer row.
-      where: {
-        id,
-        companyId: company.id,                                        // Ensure trailer belongs to this company.
-      },
+    const existing = await scopedDb(company.id).trailer.findFirst({   // Load the existing trailer row.
+      where: { id },
     });
 
     if (!existing) {                                                  // If no trailer is found...
@@ -157,7 +116,7 @@ export async function PUT(
       }
     }
 
-    const updated = await db.trailer.update({                         // Perform the update in the database.
+    const updated = await audited.trailer.update({                    // Perform the update in the database.
       where: { id },                                                  // Identify the row by primary key.
       data: {
         trailerNumber:
@@ -225,6 +184,8 @@ export async function PUT(
 
     return NextResponse.json(updated);                                // Return the updated trailer record as JSON.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                      // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[TRAILER_UPDATE_ERROR]", err);                     // Log any unexpected error.
     return NextResponse.json(
       { error: "Failed to update trailer" },                          // Generic error for frontend.
@@ -235,7 +196,7 @@ export async function PUT(
 
 // DELETE /api/trailers/:id → delete a trailer.
 export async function DELETE(
-  _req: NextRequest,                                                  // Incoming request (not used here).
+  req: NextRequest,                                                   // Incoming request (not used here).
   { params }: { params: Promise<{ id: string }> }                     // Dynamic route params Promise.
 ) {
   try {
@@ -248,13 +209,11 @@ export async function DELETE(
       );
     }
 
-    const { company } = await getDemoAuthContext();                   // Resolve company for scoping.
+    const { company, user } = await requirePermission(req, "trailers:delete"); // Resolve company for scoping.
+    const audited = auditedDb({ companyId: company.id, userId: user.id }); // Writes below are recorded as AuditEvents.
 
-    const existing = await db.trailer.findFirst({                     // Ensure the trailer exists and belongs to this company.
-      where: {
-        id,
-        companyId: company.id,
-      },
+    const existing = await scopedDb(company.id).trailer.findFirst({   // Ensure the trailer exists and belongs to this company.
+      where: { id },
     });
 
     if (!existing) {                                                  // If no trailer matches...
@@ -264,12 +223,14 @@ export async function DELETE(
       );
     }
 
-    await db.trailer.delete({                                         // Delete the trailer row from the database.
+    await audited.trailer.delete({                                    // Delete the trailer row from the database.
       where: { id },                                                  // Identify record by primary key.
     });
 
     return NextResponse.json({ success: true });                      // Return a simple success payload.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                      // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[TRAILER_DELETE_ERROR]", err);                     // Log deletion errors for debugging.
     return NextResponse.json(
       { error: "Failed to delete trailer" },                          // Generic error message.
@@ -1,60 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";              // Imports Next.js request/response helpers for app router API routes.
-import { db } from "@/lib/db";                                        // Imports the shared Prisma client for talking to the database.
+import { scopedDb } from "@/lib/scopedDb";                            // Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth";    // Resolves the signed-in user + company from the session cookie.
+import { auditedDb } from "@/lib/audit";                              // Tenant-scoped client that records an AuditEvent per write.
 
-// TEMP: Demo auth helper – returns a demo user + company so we can scope data.  // This keeps everything multi-tenant even before real auth is wired in.
-async function getDemoAuthContext() {                                  // Defines a helper function to resolve the current demo user + company.
-  let user = await db.user.findFirst({                                 // Tries to find the demo user row in the User table.
-    where: { email: "demo@demo.com" },                                 // Filters by the fixed demo email address.
-    include: { company: true },                                        // Also loads the related Company row if there is one.
-  });
-
-  if (user && user.company) {                                          // If both a user and linked company already exist...
-    return { user, company: user.company };                            // ...we can return them directly and skip the creation logic.
-  }
-
-  let company;                                                         // Will hold the resolved Company instance.
-
-  if (user?.companyId) {                                               // If the user exists and has a companyId set...
-    company =
-      (await db.company.findUnique({ where: { id: user.companyId } })) // ...attempt to load that company by ID.
-      || (await db.company.create({ data: { name: "Demo Company" } })); // If that fails, create a new demo company.
-  } else {                                                             // If the user doesn’t exist or has no companyId...
-    company =
-      (await db.company.findFirst())                                   // ...try to reuse any existing company in the DB...
-      || (await db.company.create({ data: { name: "Demo Company" } })); // ...or create a new company if none exist.
-  }
-
-  if (!user) {                                                         // If the demo user record does not exist yet...
-    user = await db.user.create({                                      // ...create the demo user now.
-      data: {
-        email: "demo@demo.com",                                        // Hard-coded demo email – later replaced by real auth.
-        passwordHash: "placeholder",                                   // Placeholder password hash field.
-        companyId: company.id,                                         // Link this user to the resolved company.
-        fullName: "Demo User",                                         // Optional name for display purposes.
-      },
-    });
-  } else if (!user.companyId) {                                        // If the user exists but is not linked to any company...
-    user = await db.user.update({                                      // ...update the user row to attach a companyId.
-      where: { id: user.id },
-      data: { companyId: company.id },
-    });
-  }
-
-  return { user, company };                                            // Return the user + company context to callers.
-}
-
-// GET /api/trailers → list all trailers for the demo company.
-export async function GET(_req: NextRequest) {                          // Handles GET requests for /api/trailers.
+// GET /api/trailers → list all trailers for the current company.
+export async function GET(req: NextRequest) {                           // Handles GET requests for /api/trailers.
   try {
-    const { company } = await getDemoAuthContext();                     // Resolves the company context (multi-tenant scoping).
+    const { company } = await requirePermission(req, "trailers:read");  // Resolves the company context (multi-tenant scoping).
 
-    const trailers = await db.trailer.findMany({                        // Queries the Trailer table.
-      where: { companyId: company.id },                                 // Only returns trailers belonging to this company.
+    const trailers = await scopedDb(company.id).trailer.findMany({      // Queries the Trailer table.
       orderBy: { createdAt: "desc" },                                   // Sorts results by newest first.
     });
 
     return NextResponse.json(trailers);                                 // Responds with a JSON array of trailers (possibly empty).
   } catch (err) {
+    const authResponse = authErrorResponse(err);                        // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[TRAILERS_GET_ERROR]", err);                         // Logs any unexpected error to the server console.
     return NextResponse.json(                                          // Returns a generic error response.
       { error: "Failed to fetch trailers" },                            // Human-readable error message for the client.
@@ -66,7 +27,8 @@ export async function GET(_req: NextRequest) {                          // Handl
 // POST /api/trailers → create a new trailer.
 export async function POST(req: NextRequest) {                          // Handles POST requests for /api/trailers.
   try {
-    const { company } = await getDemoAuthContext();                     // Resolves the current company to attach the new trailer to.
+    const { company, user } = await requirePermission(req, "trailers:create"); // Resolves the current company to attach the new trailer to.
+    const audited = auditedDb({ companyId: company.id, userId: user.id }); // Writes below are recorded as AuditEvents.
     const body = await req.json();                                      // Parses the JSON request body into a plain object.
 
     const {
@@ -116,7 +78,7 @@ export async function POST(req: NextRequest) {                          // Handl
       }
     }
 
-    const trailer = await db.trailer.create({                           // Creates a new Trailer row in the database.
+    const trailer = await audited.trailer.create({                      // Creates a new Trailer row in the database.
       data: {
         companyId: company.id,                                          // Always store which company owns this trailer.
         trailerNumber,                                                  // Saves the visible trailer number.
@@ -146,6 +108,8 @@ export async function POST(req: NextRequest) {                          // Handl
 
     return NextResponse.json(trailer, { status: 201 });                 // Returns the created trailer with HTTP 201 Created.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                        // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[TRAILERS_POST_ERROR]", err);                        // Logs the error to the server console for debugging.
     return NextResponse.json(
       { error: "Failed to create trailer" },                            // Generic error response for the client.
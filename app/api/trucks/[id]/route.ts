@@ -1,51 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";                       // Next.js helpers for handling app route API requests.
-import { db } from "@/lib/db";                                                 // Prisma client instance to query/update the database.
-
-// Same demo auth helper pattern as other resources (drivers, expenses).       // Keeps scoping consistent across all demo APIs.
-async function getDemoAuthContext() {                                          // Returns { user, company } for demo routes.
-  let user = await db.user.findFirst({                                         // Try to load the demo user.
-    where: { email: "demo@demo.com" },                                         // Hard-coded identifier for now.
-    include: { company: true },                                                // Eager-load the linked company if present.
-  });
-
-  if (user && user.company) {                                                  // If both exist...
-    return { user, company: user.company };                                    // ...reuse them as-is.
-  }
-
-  let company;                                                                 // Will hold the resolved Company row.
-
-  if (user?.companyId) {                                                       // If the user references a companyId...
-    company =
-      (await db.company.findUnique({ where: { id: user.companyId } })) ||      // Try to load that company by ID.
-      (await db.company.create({ data: { name: "Demo Company" } }));           // Or create Demo Company if missing.
-  } else {
-    company =
-      (await db.company.findFirst()) ||                                        // Reuse any existing company if one exists.
-      (await db.company.create({ data: { name: "Demo Company" } }));           // Otherwise create a new Demo Company.
-  }
-
-  if (!user) {                                                                 // If demo user does not yet exist...
-    user = await db.user.create({                                              // ...create the user and link to company.
-      data: {
-        email: "demo@demo.com",
-        passwordHash: "placeholder",
-        companyId: company.id,
-        fullName: "Demo User",
-      },
-    });
-  } else if (!user.companyId) {                                                // If user existed but had no companyId...
-    user = await db.user.update({                                              // ...patch them to link to the resolved company.
-      where: { id: user.id },
-      data: { companyId: company.id },
-    });
-  }
-
-  return { user, company };                                                    // Return common context object.
-}
+import { scopedDb } from "@/lib/scopedDb";                                     // Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth";             // Resolves the signed-in user + company from the session cookie.
+import { auditedDb } from "@/lib/audit";                                       // Tenant-scoped client that records an AuditEvent per write.
 
 // GET /api/trucks/:id → fetch a single truck by ID.                           // Read endpoint for truck details.
 export async function GET(
-  _req: NextRequest,                                                           // Request object (unused here).
+  req: NextRequest,                                                            // Incoming request; carries the session cookie.
   { params }: { params: Promise<{ id: string }> }                              // Dynamic route params come as a Promise in Next 16.
 ) {
   try {
@@ -58,12 +18,11 @@ export async function GET(
       );
     }
 
-    const { company } = await getDemoAuthContext();                            // Resolve which company we’re scoped to.
+    const { company } = await requirePermission(req, "trucks:read");           // Resolve which company we’re scoped to.
 
-    const truck = await db.truck.findFirst({                                   // Try to load the truck from the database.
+    const truck = await scopedDb(company.id).truck.findFirst({                 // Try to load the truck from the database.
       where: {
         id,                                                                    // Must match this ID.
-        companyId: company.id,                                                 // Must belong to this company (multi-tenant safety).
       },
     });
 
@@ -76,6 +35,8 @@ export async function GET(
 
     return NextResponse.json(truck);                                           // On success, return the truck record as JSON.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                               // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[TRUCK_GET_ERROR]", err);                                   // Log unexpected errors.
     return NextResponse.json(
       { error: "Failed to fetch truck" },                                      // Generic error message for frontend.
@@ -99,10 +60,11 @@ export async function PUT(
       );
     }
 
-    const { company } = await getDemoAuthContext();                            // Resolve company for scoping.
+    const { company, user } = await requirePermission(req, "trucks:update");   // Resolve company for scoping.
+    const audited = auditedDb({ companyId: company.id, userId: user.id });     // Writes below are recorded as AuditEvents.
 
-    const existing = await db.truck.findFirst({                                // Load the current truck row to merge changes.
-      where: { id, companyId: company.id },                                    // Ensure it belongs to this company.
+    const existing = await scopedDb(company.id).truck.findFirst({              // Load the current truck row to merge changes.
+      where: { id },                                                           // Scoped client: only this company's trucks match.
     });
 
     if (!existing) {                                                           // If no match...
@@ -128,9 +90,10 @@ export async function PUT(
       monthlyPayment,
       odometer,
       purchasePrice,
+      mpg,
     } = body;
 
-    const updated = await db.truck.update({                                    // Apply updates to the Truck row.
+    const updated = await audited.truck.update({                               // Apply updates to the Truck row.
       where: { id },                                                           // Target this truck by primary key.
       data: {
         unitNumber: unitNumber ?? existing.unitNumber,                         // Update unitNumber only if provided.
@@ -165,11 +128,17 @@ export async function PUT(
           purchasePrice !== undefined
             ? (typeof purchasePrice === "number" ? purchasePrice : null)
             : existing.purchasePrice,
+        mpg:
+          mpg !== undefined
+            ? (typeof mpg === "number" && mpg > 0 ? mpg : null)                 // Non-positive clears it back to the company default.
+            : existing.mpg,
       },
     });
 
     return NextResponse.json(updated);                                         // Return the updated truck record as JSON.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                               // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[TRUCK_UPDATE_ERROR]", err);                                // Log update failures for debugging.
     return NextResponse.json(
       { error: "Failed to update truck" },                                     // Generic error message for client.
@@ -180,7 +149,7 @@ export async function PUT(
 
 // DELETE /api/trucks/:id → remove a truck.                                    // Hard delete; we can add soft-delete later if needed.
 export async function DELETE(
-  _req: NextRequest,                                                           // Request object, unused.
+  req: NextRequest,                                                            // Incoming request; carries the session cookie.
   { params }: { params: Promise<{ id: string }> }                              // Dynamic params with truck ID.
 ) {
   try {
@@ -193,10 +162,11 @@ export async function DELETE(
       );
     }
 
-    const { company } = await getDemoAuthContext();                            // Resolve company context.
+    const { company, user } = await requirePermission(req, "trucks:delete");   // Resolve company context.
+    const audited = auditedDb({ companyId: company.id, userId: user.id });     // Writes below are recorded as AuditEvents.
 
-    const existing = await db.truck.findFirst({                                // Ensure truck exists & belongs to this company.
-      where: { id, companyId: company.id },
+    const existing = await scopedDb(company.id).truck.findFirst({              // Ensure truck exists & belongs to this company.
+      where: { id },
     });
 
     if (!existing) {                                                           // If no such truck...
@@ -206,12 +176,14 @@ export async function DELETE(
       );
     }
 
-    await db.truck.delete({                                                    // Delete the truck row from DB.
+    await audited.truck.delete({                                               // Delete the truck row from DB.
       where: { id },                                                           // Use primary key for the delete.
     });
 
     return NextResponse.json({ success: true });                               // Simple success response payload.
   } catch (err) {
+    const authResponse = authErrorResponse(err);                               // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
     console.error("[TRUCK_DELETE_ERROR]", err);                                // Log deletion failure.
     return NextResponse.json(
       { error: "Failed to delete truck" },                                     // Generic error message for client.
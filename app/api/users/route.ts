@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";                   // Next.js request/response helpers.
+import { scopedDb } from "@/lib/scopedDb";                                 // Prisma client pinned to the signed-in company.
+import { authErrorResponse, requirePermission } from "@/lib/auth";         // Session + permission checks.
+
+/**
+ * GET /api/users
+ * Lists the current company's team members (no password hashes).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { company } = await requirePermission(req, "users:read");
+
+    const users = await scopedDb(company.id).user.findMany({
+      orderBy: { createdAt: "asc" },                                       // Owner first, newest hires last.
+      select: {
+        id: true,
+        email: true,
+        fullName: true,
+        role: true,
+        isActive: true,
+        createdAt: true,
+      },
+    });
+
+    return NextResponse.json(users);
+  } catch (err) {
+    const authResponse = authErrorResponse(err);                           // Signed-out callers get a 401, missing permissions a 403.
+    if (authResponse) return authResponse;
+    console.error("[USERS_GET_ERROR]", err);
+    return NextResponse.json({ error: "Failed to fetch team members" }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { acceptInvitation, getInvitationPreview } from "@/lib/api/invitations";
+import { ApiError } from "@/lib/api/client";
+import type { InvitationPreview } from "@/lib/schemas/invitations";
+
+type AcceptInviteFormProps = {
+  token: string;
+};
+
+export function AcceptInviteForm({ token }: AcceptInviteFormProps) {
+  const router = useRouter();
+
+  const [preview, setPreview] = useState<InvitationPreview | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [fullName, setFullName] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getInvitationPreview(token)
+      .then(setPreview)
+      .catch((err) => {
+        console.error("[INVITE_PREVIEW_ERROR]", err);
+        setLoadError(err instanceof ApiError ? err.message : "Failed to load invitation");
+      });
+  }, [token]);
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      await acceptInvitation({ token, fullName: fullName || undefined, password });
+      router.push("/dashboard");
+      router.refresh();
+    } catch (err) {
+      console.error("[INVITE_ACCEPT_ERROR]", err);
+      setError(err instanceof ApiError ? err.message : "Failed to accept invitation");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  if (loadError) {
+    return <p className="text-sm text-rose-400">{loadError}</p>;
+  }
+
+  if (!preview) {
+    return <p className="text-sm text-slate-400">Loading invitation…</p>;
+  }
+
+  return (
+    <>
+      <h1 className="text-2xl font-semibold">Join {preview.companyName}</h1>
+      <p className="text-sm text-slate-300">
+        You&apos;ve been invited as{" "}
+        <span className="font-medium">{preview.role.replace("_", " ").toLowerCase()}</span>. Set a
+        password to finish creating your account.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="flex flex-col gap-1">
+          <label className="text-xs font-medium text-slate-300">Email</label>
+          <input
+            type="email"
+            value={preview.email}
+            readOnly
+            className="rounded-md border border-slate-800 bg-slate-900 px-3 py-2 text-sm text-slate-400"
+          />
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label className="text-xs font-medium text-slate-300">Your name</label>
+          <input
+            type="text"
+            value={fullName}
+            onChange={(e) => setFullName(e.target.value)}
+            className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500"
+            autoComplete="name"
+          />
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label className="text-xs font-medium text-slate-300">Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500"
+            autoComplete="new-password"
+            minLength={8}
+            required
+          />
+        </div>
+
+        {error && <p className="text-xs text-rose-400">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full rounded-md bg-sky-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-sky-700 disabled:opacity-60"
+        >
+          {isSubmitting ? "Joining..." : "Accept Invitation"}
+        </button>
+      </form>
+    </>
+  );
+}
@@ -0,0 +1,23 @@
+import { AcceptInviteForm } from "./AcceptInviteForm";
+
+type AcceptInvitePageProps = {
+  searchParams: Promise<{ token?: string }>;
+};
+
+export default async function AcceptInvitePage({ searchParams }: AcceptInvitePageProps) {
+  const { token } = await searchParams;
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-slate-950 text-white">
+      <div className="w-full max-w-md space-y-4">
+        {token ? (
+          <AcceptInviteForm token={token} />
+        ) : (
+          <p className="text-sm text-rose-400">
+            This invitation link is missing its token. Ask your admin to resend it.
+          </p>
+        )}
+      </div>
+    </main>
+  );
+}
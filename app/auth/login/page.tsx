@@ -1,4 +1,36 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { login } from "@/lib/api/auth";
+import { ApiError } from "@/lib/api/client";
+
 export default function LoginPage() {
+  const router = useRouter();
+
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      await login({ email, password });
+      router.push("/dashboard");
+      router.refresh();
+    } catch (err) {
+      console.error("[LOGIN_ERROR]", err);
+      setError(err instanceof ApiError ? err.message : "Failed to log in");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
   return (
     <main className="min-h-screen flex items-center justify-center bg-slate-950 text-white">
       <div className="w-full max-w-md space-y-4">
@@ -6,6 +38,49 @@ export default function LoginPage() {
         <p className="text-sm text-slate-300">
           Use your email to access your dashboard.
         </p>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-medium text-slate-300">Email</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500"
+              autoComplete="email"
+              required
+            />
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-medium text-slate-300">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500"
+              autoComplete="current-password"
+              required
+            />
+          </div>
+
+          {error && <p className="text-xs text-rose-400">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full rounded-md bg-sky-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-sky-700 disabled:opacity-60"
+          >
+            {isSubmitting ? "Signing in..." : "Log In"}
+          </button>
+        </form>
+
+        <p className="text-xs text-slate-400">
+          New here?{" "}
+          <Link href="/auth/register" className="text-sky-400 hover:underline">
+            Create an account
+          </Link>
+        </p>
       </div>
     </main>
   );
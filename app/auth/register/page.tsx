@@ -1,4 +1,59 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { register } from "@/lib/api/auth";
+import { ApiError } from "@/lib/api/client";
+
 export default function RegisterPage() {
+  const router = useRouter();
+
+  const [companyName, setCompanyName] = useState("");
+  const [fullName, setFullName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [dotNumber, setDotNumber] = useState("");
+  const [mcNumber, setMcNumber] = useState("");
+  const [timezone, setTimezone] = useState(
+    () => Intl.DateTimeFormat().resolvedOptions().timeZone ?? ""
+  );
+  const [defaultDaysToPay, setDefaultDaysToPay] = useState("30");
+  const [defaultFuelMpg, setDefaultFuelMpg] = useState("6.5");
+  const [defaultTruckFixedCostPerDay, setDefaultTruckFixedCostPerDay] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      await register({
+        companyName,
+        fullName: fullName || undefined,
+        email,
+        password,
+        dotNumber: dotNumber || undefined,
+        mcNumber: mcNumber || undefined,
+        timezone: timezone || undefined,
+        defaultDaysToPay: defaultDaysToPay ? Number(defaultDaysToPay) : undefined,
+        defaultFuelMpg: defaultFuelMpg ? Number(defaultFuelMpg) : undefined,
+        defaultTruckFixedCostPerDay: defaultTruckFixedCostPerDay
+          ? Number(defaultTruckFixedCostPerDay)
+          : undefined,
+      });
+      router.push("/dashboard");
+      router.refresh();
+    } catch (err) {
+      console.error("[REGISTER_ERROR]", err);
+      setError(err instanceof ApiError ? err.message : "Failed to create account");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
   return (
     <main className="min-h-screen flex items-center justify-center bg-slate-950 text-white">
       <div className="w-full max-w-md space-y-4">
@@ -6,6 +61,147 @@ export default function RegisterPage() {
         <p className="text-sm text-slate-300">
           Set up your trucking cashflow dashboard in minutes.
         </p>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-medium text-slate-300">Company name</label>
+            <input
+              type="text"
+              value={companyName}
+              onChange={(e) => setCompanyName(e.target.value)}
+              className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500"
+              placeholder="Acme Freight LLC"
+              required
+            />
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-medium text-slate-300">Your name</label>
+            <input
+              type="text"
+              value={fullName}
+              onChange={(e) => setFullName(e.target.value)}
+              className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500"
+              autoComplete="name"
+            />
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-medium text-slate-300">Email</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500"
+              autoComplete="email"
+              required
+            />
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-medium text-slate-300">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500"
+              autoComplete="new-password"
+              minLength={8}
+              required
+            />
+          </div>
+
+          <fieldset className="space-y-3 rounded-md border border-slate-800 p-3">
+            <legend className="px-1 text-xs text-slate-400">
+              Company details (optional, editable later)
+            </legend>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="flex flex-col gap-1">
+                <label className="text-xs font-medium text-slate-300">DOT number</label>
+                <input
+                  type="text"
+                  value={dotNumber}
+                  onChange={(e) => setDotNumber(e.target.value)}
+                  className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500"
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label className="text-xs font-medium text-slate-300">MC number</label>
+                <input
+                  type="text"
+                  value={mcNumber}
+                  onChange={(e) => setMcNumber(e.target.value)}
+                  className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500"
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-1">
+              <label className="text-xs font-medium text-slate-300">Timezone</label>
+              <input
+                type="text"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+                className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500"
+                placeholder="America/Chicago"
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="flex flex-col gap-1">
+                <label className="text-xs font-medium text-slate-300">Days to pay</label>
+                <input
+                  type="number"
+                  value={defaultDaysToPay}
+                  onChange={(e) => setDefaultDaysToPay(e.target.value)}
+                  className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500"
+                  min={0}
+                  step={1}
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label className="text-xs font-medium text-slate-300">Fuel MPG</label>
+                <input
+                  type="number"
+                  value={defaultFuelMpg}
+                  onChange={(e) => setDefaultFuelMpg(e.target.value)}
+                  className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500"
+                  min={0}
+                  step={0.1}
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label className="text-xs font-medium text-slate-300">Fixed cost / day ($)</label>
+                <input
+                  type="number"
+                  value={defaultTruckFixedCostPerDay}
+                  onChange={(e) => setDefaultTruckFixedCostPerDay(e.target.value)}
+                  className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500"
+                  min={0}
+                  step={1}
+                />
+              </div>
+            </div>
+          </fieldset>
+
+          {error && <p className="text-xs text-rose-400">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full rounded-md bg-sky-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-sky-700 disabled:opacity-60"
+          >
+            {isSubmitting ? "Creating account..." : "Create Account"}
+          </button>
+        </form>
+
+        <p className="text-xs text-slate-400">
+          Already have an account?{" "}
+          <Link href="/auth/login" className="text-sky-400 hover:underline">
+            Log in
+          </Link>
+        </p>
       </div>
     </main>
   );
@@ -0,0 +1,33 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { logout } from "@/lib/api/auth";
+
+export function LogoutButton() {
+  const router = useRouter();
+  const [isPending, setIsPending] = useState(false);
+
+  async function handleLogout() {
+    setIsPending(true);
+    try {
+      await logout();
+    } catch (err) {
+      console.error("[LOGOUT_ERROR]", err);
+    } finally {
+      router.push("/auth/login");
+      router.refresh();
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleLogout}
+      disabled={isPending}
+      className="rounded-md border px-3 py-1 text-xs text-slate-600 hover:bg-slate-100 disabled:opacity-60"
+    >
+      {isPending ? "Signing out..." : "Log out"}
+    </button>
+  );
+}
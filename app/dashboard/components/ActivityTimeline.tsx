@@ -0,0 +1,97 @@
+"use client";
+
+import { useAuditEvents } from "@/lib/hooks/useAudit";
+import { ApiError } from "@/lib/api/client";
+import type { AuditEntityType, AuditEvent } from "@/lib/schemas/audit";
+
+type ActivityTimelineProps = {
+  entityType: AuditEntityType;
+  entityId: string;
+  title?: string;
+};
+
+const ACTION_LABELS: Record<AuditEvent["action"], string> = {
+  CREATE: "created",
+  UPDATE: "updated",
+  DELETE: "deleted",
+};
+
+const ACTION_DOT: Record<AuditEvent["action"], string> = {
+  CREATE: "bg-emerald-500",
+  UPDATE: "bg-sky-500",
+  DELETE: "bg-rose-500",
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleString(); // ISO timestamps from the JSON snapshot
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+const ENTITY_LABELS: Partial<Record<AuditEntityType, string>> = {
+  LoadStop: "a stop",
+  LoadTemplate: "a load template",
+  EmailTemplate: "an email template",
+  DunningStep: "a dunning step",
+};
+
+function describe(event: AuditEvent) {
+  const who = event.actor?.fullName ?? event.actor?.email ?? "System";
+  const what = ENTITY_LABELS[event.entityType] ?? event.entityType.toLowerCase();
+  return `${who} ${ACTION_LABELS[event.action]} ${what}`;
+}
+
+export function ActivityTimeline({ entityType, entityId, title = "Activity" }: ActivityTimelineProps) {
+  const { data, isLoading, error } = useAuditEvents({ entityType, entityId });
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-2xl font-semibold">{title}</h2>
+
+      {isLoading && <p className="text-sm text-slate-500">Loading…</p>}
+      {error && (
+        <p className="text-sm text-rose-600">
+          {error instanceof ApiError && error.isForbidden
+            ? "You don't have access to this history."
+            : "Failed to load activity"}
+        </p>
+      )}
+
+      {data && data.length === 0 && (
+        <p className="text-sm text-slate-500">No recorded changes yet.</p>
+      )}
+
+      {data && data.length > 0 && (
+        <ol className="space-y-3 border-l border-slate-200 pl-4">
+          {data.map((event) => (
+            <li key={event.id} className="relative">
+              <span
+                className={`absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full ${ACTION_DOT[event.action]}`}
+              />
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <span className="text-sm font-medium text-slate-900">{describe(event)}</span>
+                <span className="text-xs text-slate-500">
+                  {new Date(event.createdAt).toLocaleString()}
+                </span>
+              </div>
+
+              {event.changes && Object.keys(event.changes).length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-xs text-slate-600">
+                  {Object.entries(event.changes).map(([field, change]) => (
+                    <li key={field}>
+                      <span className="font-medium">{field}</span>: {formatValue(change.from)} →{" "}
+                      {formatValue(change.to)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
@@ -4,7 +4,9 @@ import React from "react"; // Imports React for component and JSX.
 import { KpiCard } from "./KpiCard"; // Imports shared KPI layout component.
 
 type RpmWidgetProps = { // Declares props for the Rate Per Mile widget.
-  rpm: number; // Average rate per mile for the period.
+  rpm: number; // All-in rate per mile (loaded + deadhead miles) for the period.
+  loadedRpm?: number | null; // Optional rate per loaded mile.
+  deadheadPercent?: number | null; // Optional share of miles driven empty.
   periodLabel: string; // Description of the period (e.g., "This month").
   deltaRpm?: number | null; // Optional change in RPM vs prior period.
   className?: string; // Optional className override for styling this widget.
@@ -12,6 +14,8 @@ type RpmWidgetProps = { // Declares props for the Rate Per Mile widget.
 
 export function RpmWidget({ // Declares and exports the RpmWidget component.
   rpm, // Destructures rpm from props.
+  loadedRpm, // Destructures loadedRpm from props.
+  deadheadPercent, // Destructures deadheadPercent from props.
   periodLabel, // Destructures periodLabel from props.
   deltaRpm, // Destructures deltaRpm from props.
   className, // Destructures className to forward to KpiCard.
@@ -19,6 +23,13 @@ export function RpmWidget({ // Declares and exports the RpmWidget component.
 
   const formattedValue = `${rpm.toFixed(2)} RPM`; // Formats the RPM value with two decimals and "RPM" suffix.
 
+  const splitLabel = [ // Loaded RPM and deadhead share, when known.
+    loadedRpm != null ? `${loadedRpm.toFixed(2)} loaded` : null,
+    deadheadPercent != null ? `${deadheadPercent.toFixed(1)}% deadhead` : null,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+
   let trendDirection: "up" | "down" | "neutral" = "neutral"; // Starts with neutral trend direction.
 
   if (typeof deltaRpm === "number") { // Only compute direction if we have numeric deltaRpm.
@@ -33,9 +44,9 @@ export function RpmWidget({ // Declares and exports the RpmWidget component.
 
   return ( // Renders the RPM KPI card.
     <KpiCard
-      title="Rate Per Mile" // KPI title for RPM.
+      title="Rate Per Mile (all-in)" // KPI title for RPM.
       value={formattedValue} // Main value showing RPM.
-      subLabel={periodLabel} // Period label under the value.
+      subLabel={splitLabel ? `${splitLabel} • ${periodLabel}` : periodLabel} // Loaded RPM + deadhead % plus the period label.
       trendLabel={trendLabel} // Optional description of RPM change.
       trendDirection={trendDirection} // Controls trend color.
       className={className} // Allows external styling for this specific widget.
@@ -0,0 +1,273 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { ApiError } from "@/lib/api/client";
+import {
+  useCreateFuelSurchargeSchedule,
+  useDeleteFuelSurchargeSchedule,
+  useFuelSurchargeSchedules,
+  useUpdateFuelSurchargeSchedule,
+} from "@/lib/hooks/useFuelSurcharge";
+import {
+  FuelSurchargeMethodSchema,
+  type FuelSurchargeMethod,
+  type FuelSurchargeSchedule,
+} from "@/lib/schemas/fuelSurcharge";
+
+type FuelSurchargeSchedulesProps = {
+  customerId: string;
+  canEdit: boolean;
+};
+
+const METHOD_LABELS: Record<FuelSurchargeMethod, string> = {
+  PEG_PRICE: "Peg price ÷ MPG",
+  CENTS_PER_MILE_STEP: "Cents per mile per price step",
+  PERCENT_OF_LINEHAUL: "% of linehaul table",
+};
+
+function describe(schedule: FuelSurchargeSchedule) {
+  switch (schedule.method) {
+    case "PEG_PRICE":
+      return `Peg $${schedule.pegPrice?.toFixed(3)}, ${schedule.mpg ?? "company"} mpg`;
+    case "CENTS_PER_MILE_STEP":
+      return `${schedule.centsPerStep}¢/mi per $${schedule.priceStep?.toFixed(3)} over $${schedule.pegPrice?.toFixed(3)}`;
+    case "PERCENT_OF_LINEHAUL":
+      return schedule.tiers.map((t) => `≥$${t.minPrice.toFixed(2)}: ${t.percent}%`).join(", ");
+  }
+}
+
+// "3.00,8" per line → tiers
+function parseTiers(text: string) {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [minPrice, percent] = line.split(",").map((cell) => Number(cell.trim().replace(/[$%]/g, "")));
+      return { minPrice, percent };
+    });
+}
+
+export function FuelSurchargeSchedules({ customerId, canEdit }: FuelSurchargeSchedulesProps) {
+  const { data: schedules, isLoading } = useFuelSurchargeSchedules(customerId);
+  const create = useCreateFuelSurchargeSchedule(customerId);
+  const update = useUpdateFuelSurchargeSchedule(customerId);
+  const remove = useDeleteFuelSurchargeSchedule(customerId);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [method, setMethod] = useState<FuelSurchargeMethod>("PEG_PRICE");
+  const [priceRegion, setPriceRegion] = useState("");
+  const [pegPrice, setPegPrice] = useState("");
+  const [mpg, setMpg] = useState("");
+  const [priceStep, setPriceStep] = useState("");
+  const [centsPerStep, setCentsPerStep] = useState("");
+  const [tiers, setTiers] = useState("");
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const num = (value: string) => (value.trim() === "" ? null : Number(value));
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      await create.mutateAsync({
+        name,
+        method,
+        priceRegion: priceRegion.trim() || null,
+        pegPrice: method === "PERCENT_OF_LINEHAUL" ? null : num(pegPrice),
+        mpg: method === "PEG_PRICE" ? num(mpg) : null,
+        priceStep: method === "CENTS_PER_MILE_STEP" ? num(priceStep) : null,
+        centsPerStep: method === "CENTS_PER_MILE_STEP" ? num(centsPerStep) : null,
+        tiers: method === "PERCENT_OF_LINEHAUL" ? parseTiers(tiers) : undefined,
+        effectiveFrom: effectiveFrom || null,
+      });
+      setName("");
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Failed to save schedule");
+    }
+  }
+
+  const inputClass = "rounded-md border px-2 py-1.5 text-sm";
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-semibold">Fuel Surcharge</h2>
+        {canEdit && (
+          <button
+            type="button"
+            onClick={() => setIsOpen((open) => !open)}
+            className="rounded-md border px-3 py-1.5 text-sm text-slate-700"
+          >
+            {isOpen ? "Cancel" : "Add schedule"}
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-3 rounded-lg border bg-white p-3 md:grid-cols-4">
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+            Name
+            <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} required />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+            Method
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as FuelSurchargeMethod)}
+              className={inputClass}
+            >
+              {FuelSurchargeMethodSchema.options.map((m) => (
+                <option key={m} value={m}>
+                  {METHOD_LABELS[m]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+            Price index
+            <input
+              value={priceRegion}
+              onChange={(e) => setPriceRegion(e.target.value)}
+              className={inputClass}
+              placeholder="Pickup state"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+            Effective from
+            <input
+              type="date"
+              value={effectiveFrom}
+              onChange={(e) => setEffectiveFrom(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+
+          {method !== "PERCENT_OF_LINEHAUL" && (
+            <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+              Peg price ($/gal)
+              <input
+                type="number"
+                step={0.001}
+                value={pegPrice}
+                onChange={(e) => setPegPrice(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </label>
+          )}
+          {method === "PEG_PRICE" && (
+            <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+              MPG
+              <input
+                type="number"
+                step={0.1}
+                value={mpg}
+                onChange={(e) => setMpg(e.target.value)}
+                className={inputClass}
+                placeholder="Company default"
+              />
+            </label>
+          )}
+          {method === "CENTS_PER_MILE_STEP" && (
+            <>
+              <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+                Price step ($/gal)
+                <input
+                  type="number"
+                  step={0.001}
+                  value={priceStep}
+                  onChange={(e) => setPriceStep(e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+                Cents per mile per step
+                <input
+                  type="number"
+                  step={0.1}
+                  value={centsPerStep}
+                  onChange={(e) => setCentsPerStep(e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </label>
+            </>
+          )}
+          {method === "PERCENT_OF_LINEHAUL" && (
+            <label className="col-span-2 flex flex-col gap-1 text-xs font-medium text-slate-600">
+              Tiers (from $/gal, % of linehaul; one per line)
+              <textarea
+                value={tiers}
+                onChange={(e) => setTiers(e.target.value)}
+                rows={4}
+                className={`${inputClass} font-mono text-xs`}
+                placeholder={"3.00,8\n3.50,12\n4.00,16"}
+                required
+              />
+            </label>
+          )}
+
+          <div className="col-span-2 flex items-end gap-2 md:col-span-4">
+            <button
+              type="submit"
+              disabled={create.isPending}
+              className="rounded-md bg-sky-600 px-3 py-1.5 text-sm font-medium text-white disabled:opacity-60"
+            >
+              {create.isPending ? "Saving..." : "Save schedule"}
+            </button>
+            {error && <p className="text-xs text-rose-600">{error}</p>}
+          </div>
+        </form>
+      )}
+
+      {isLoading && <p className="text-sm text-slate-500">Loading…</p>}
+      {schedules && schedules.length === 0 && (
+        <p className="text-gray-500">No fuel surcharge schedule; loads are invoiced without FSC.</p>
+      )}
+      {schedules && schedules.length > 0 && (
+        <ul className="divide-y rounded-lg border bg-white text-sm">
+          {schedules.map((schedule) => (
+            <li key={schedule.id} className="flex items-center justify-between gap-4 px-3 py-2">
+              <div>
+                <div className="font-medium text-slate-900">
+                  {schedule.name}
+                  {!schedule.isActive && <span className="ml-2 text-xs text-slate-400">inactive</span>}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {METHOD_LABELS[schedule.method]} · {describe(schedule)} · indexed to{" "}
+                  {schedule.priceRegion ?? "pickup state"}
+                  {schedule.effectiveFrom &&
+                    ` · from ${new Date(schedule.effectiveFrom).toISOString().slice(0, 10)}`}
+                </div>
+              </div>
+              {canEdit && (
+                <div className="flex gap-2 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => update.mutate({ scheduleId: schedule.id, input: { isActive: !schedule.isActive } })}
+                    className="text-sky-700 hover:underline"
+                  >
+                    {schedule.isActive ? "Deactivate" : "Activate"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => remove.mutate(schedule.id)}
+                    className="text-rose-600 hover:underline"
+                  >
+                    Delete
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -1,5 +1,9 @@
-import { db } from "@/lib/db";                                              // Prisma client to fetch customer and notes from the database.
+import { getCurrentTenant } from "@/lib/auth";                              // Resolves the signed-in user's company.
+import { can } from "@/lib/permissions";                                    // Role → permission check for editing billing terms.
+import { scopedDb } from "@/lib/scopedDb";                                  // Tenant-scoped Prisma client (companyId + soft-delete filters).
 import { AddNoteForm } from "./AddNoteForm";                                // Client component for creating new notes inline on this page.
+import { FuelSurchargeSchedules } from "./FuelSurchargeSchedules";          // FSC schedules billed on this customer's invoices.
+import { ActivityTimeline } from "../../components/ActivityTimeline";      // Audit history panel (who changed what, and when).
 
 // Props type for this dynamic route page.
 interface CustomerPageProps {
@@ -10,8 +14,10 @@ export default async function CustomerSummaryPage({                         // D
   params,
 }: CustomerPageProps) {
   const { id: customerId } = await params;                                  // Awaits params and extracts the customer ID from the route.
+  const { company, user } = await getCurrentTenant();                       // The dashboard layout already redirects signed-out visitors.
+  const tdb = scopedDb(company.id);                                         // Every query below is pinned to this company.
 
-  const customer = await db.customer.findUnique({                           // Fetches the customer record by ID.
+  const customer = await tdb.customer.findUnique({                          // Fetches the customer record by ID (other tenants' IDs 404).
     where: { id: customerId },                                              // Filters by the ID from the URL.
   });
 
@@ -25,7 +31,7 @@ export default async function CustomerSummaryPage({                         // D
     );
   }
 
-  const notes = await db.callNote.findMany({                                // Fetches all call notes associated with this customer.
+  const notes = await tdb.callNote.findMany({                               // Fetches all call notes associated with this customer.
     where: { customerId },                                                  // Filters notes by this customer ID.
     orderBy: { createdAt: "desc" },                                         // Orders notes newest-first for timeline-style display.
   });
@@ -90,6 +96,16 @@ export default async function CustomerSummaryPage({                         // D
           </ul>
         )}
       </section>
+
+      {/* ============================= */}
+      {/* Fuel Surcharge Schedules */}
+      {/* ============================= */}
+      <FuelSurchargeSchedules customerId={customerId} canEdit={can(user.role, "customers:update")} /> {/* Peg, step or % tables indexed to diesel prices. */}
+
+      {/* ============================= */}
+      {/* Activity Timeline */}
+      {/* ============================= */}
+      <ActivityTimeline entityType="Customer" entityId={customerId} />   {/* Create/update/delete history from AuditEvents. */}
     </div>
   );
 }
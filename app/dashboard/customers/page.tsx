@@ -1,9 +1,13 @@
 import Link from "next/link";
-import { db } from "@/lib/db";
+import { getCurrentTenant } from "@/lib/auth";
+import { scopedDb } from "@/lib/scopedDb";
 
 export default async function CustomersPage() {
+  const { company } = await getCurrentTenant();
+  const tdb = scopedDb(company.id); // companyId + soft-delete filters injected
+
   // Fetch customers + their latest call note (if any)
-  const customers = await db.customer.findMany({
+  const customers = await tdb.customer.findMany({
     orderBy: { name: "asc" },
     include: {
       callNotes: {
@@ -1,5 +1,6 @@
 import Link from "next/link";
-import { db } from "@/lib/db";
+import { getCurrentTenant } from "@/lib/auth";
+import { scopedDb } from "@/lib/scopedDb";
 import { ExpenseFilters } from "./ExpenseFilters";
 
 type ExpensesPageProps = {
@@ -9,6 +10,9 @@ type ExpensesPageProps = {
 };
 
 export default async function ExpensesPage({ searchParams }: ExpensesPageProps) {
+  const { company } = await getCurrentTenant();
+  const tdb = scopedDb(company.id); // companyId filter injected
+
   // Normalize range from searchParams (can be string or string[])
   const rawRange = Array.isArray(searchParams?.range)
     ? searchParams?.range[0]
@@ -32,7 +36,7 @@ export default async function ExpensesPage({ searchParams }: ExpensesPageProps)
     where.incurredAt = { gte: fromDate };
   }
 
-  const expenses = await db.expense.findMany({
+  const expenses = await tdb.expense.findMany({
     where,
     orderBy: { incurredAt: "desc" },
   });
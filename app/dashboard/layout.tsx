@@ -1,10 +1,22 @@
 import type { ReactNode } from "react";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getSessionTenant } from "@/lib/auth";
+import { LogoutButton } from "./LogoutButton";
 
 type DashboardLayoutProps = {
   children: ReactNode;
 };
 
-export default function DashboardLayout({ children }: DashboardLayoutProps) {
+export default async function DashboardLayout({ children }: DashboardLayoutProps) {
+  const tenant = await getSessionTenant();
+
+  if (!tenant) {
+    redirect("/auth/login");
+  }
+
+  const { user, company } = tenant;
+
   return (
     <div className="min-h-screen bg-slate-50">
       <div
@@ -39,12 +51,12 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
             >
               Dashboard
             </a>
-            <a
+            <Link
               href="/dashboard/loads"
               className="rounded-md px-3 py-2 text-slate-700 hover:bg-slate-100"
             >
               Loads
-            </a>
+            </Link>
             <a
               href="/dashboard/expenses"
               className="rounded-md px-3 py-2 text-slate-700 hover:bg-slate-100"
@@ -63,6 +75,18 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
             >
               Documents
             </a>
+            <a
+              href="/dashboard/team"
+              className="rounded-md px-3 py-2 text-slate-700 hover:bg-slate-100"
+            >
+              Team
+            </a>
+            <a
+              href="/dashboard/settings"
+              className="rounded-md px-3 py-2 text-slate-700 hover:bg-slate-100"
+            >
+              Settings
+            </a>
           </nav>
 
           <div className="mt-4 text-xs text-slate-400">
@@ -90,8 +114,9 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
 
             <div className="flex items-center gap-3">
               <span className="text-xs text-slate-500">
-                Beta workspace
+                {company.name} · {user.fullName ?? user.email}
               </span>
+              <LogoutButton />
             </div>
           </header>
 
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useEquipmentAvailability } from "@/lib/hooks/useEquipment";
+import type { EquipmentAvailability } from "@/lib/schemas/equipment";
+
+function isoDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function EquipmentRow({ item }: { item: EquipmentAvailability }) {
+  return (
+    <li className="flex items-start justify-between gap-3 px-3 py-2">
+      <div>
+        <div className="font-medium text-slate-900">#{item.label}</div>
+        {item.loads.length > 0 && (
+          <div className="text-xs text-slate-500">
+            {item.loads.map((load, index) => (
+              <span key={load.id}>
+                {index > 0 && ", "}
+                <Link href={`/dashboard/loads/${load.id}`} className="text-sky-700 hover:underline">
+                  {load.loadNumber ?? "Load"}
+                </Link>
+                {load.pickupDate && ` ${new Date(load.pickupDate).toLocaleDateString()}`}
+                {load.deliveryDate && `–${new Date(load.deliveryDate).toLocaleDateString()}`}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+      <span
+        className={`rounded-full px-2 py-0.5 text-xs ${
+          item.available
+            ? "bg-emerald-50 text-emerald-700"
+            : item.status !== "ACTIVE"
+              ? "bg-slate-100 text-slate-600"
+              : "bg-amber-50 text-amber-700"
+        }`}
+      >
+        {item.available ? "Available" : item.status !== "ACTIVE" ? item.status.replace("_", " ").toLowerCase() : "Booked"}
+      </span>
+    </li>
+  );
+}
+
+// Which trucks and trailers are free for a date range (same rules as the double-booking check)
+export function EquipmentAvailabilityPanel() {
+  const today = isoDay(new Date());
+  const [from, setFrom] = useState(today);
+  const [to, setTo] = useState(today);
+  const { data, isLoading, error } = useEquipmentAvailability(from, to);
+
+  const inputClass = "rounded-md border px-2 py-1.5 text-sm";
+
+  return (
+    <section className="space-y-3">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <h2 className="text-lg font-semibold text-slate-900">Equipment availability</h2>
+        <div className="flex gap-2 text-xs font-medium text-slate-600">
+          <label className="flex flex-col gap-1">
+            From
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1">
+            To
+            <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+          </label>
+        </div>
+      </div>
+
+      {isLoading && <p className="text-sm text-slate-500">Loading…</p>}
+      {error && <p className="text-xs text-rose-600">{error.message}</p>}
+      {data && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          {(
+            [
+              ["Trucks", data.trucks],
+              ["Trailers", data.trailers],
+            ] as const
+          ).map(([title, items]) => (
+            <div key={title}>
+              <h3 className="mb-1 text-sm font-medium text-slate-700">
+                {title} · {items.filter((i) => i.available).length} of {items.length} available
+              </h3>
+              {items.length === 0 ? (
+                <p className="text-sm text-slate-500">None on file.</p>
+              ) : (
+                <ul className="divide-y rounded-lg border bg-white text-sm">
+                  {items.map((item) => (
+                    <EquipmentRow key={item.id} item={item} />
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { EquipmentTypeSchema, LoadStatusSchema } from "@/lib/schemas/loads";
+
+type Option = { id: string; label: string };
+
+type LoadFiltersProps = {
+  customers: Option[];
+  trucks: Option[];
+  drivers: Option[];
+};
+
+const FIELDS = [
+  "q",
+  "status",
+  "customerId",
+  "truckId",
+  "driverId",
+  "equipment",
+  "pickupFrom",
+  "pickupTo",
+  "deliveryFrom",
+  "deliveryTo",
+] as const;
+
+type Field = (typeof FIELDS)[number];
+
+function label(value: string) {
+  return value.replace("_", " ").toLowerCase();
+}
+
+export function LoadFilters({ customers, trucks, drivers }: LoadFiltersProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const [values, setValues] = useState<Record<Field, string>>(
+    () => Object.fromEntries(FIELDS.map((f) => [f, searchParams.get(f) ?? ""])) as Record<Field, string>
+  );
+
+  function set(field: Field, value: string) {
+    setValues((prev) => ({ ...prev, [field]: value }));
+  }
+
+  function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+
+    const params = new URLSearchParams(searchParams.toString());
+    for (const field of FIELDS) {
+      if (values[field]) params.set(field, values[field]);
+      else params.delete(field);
+    }
+    params.delete("cursor"); // new filters start from the first page
+    params.delete("before");
+
+    const query = params.toString();
+    router.push(query ? `/dashboard/loads?${query}` : "/dashboard/loads");
+  }
+
+  function handleReset() {
+    setValues(Object.fromEntries(FIELDS.map((f) => [f, ""])) as Record<Field, string>);
+    router.push("/dashboard/loads");
+  }
+
+  const inputClass = "rounded-md border px-2 py-1 text-xs text-slate-700";
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-2 rounded-lg border bg-white p-3 shadow-sm">
+      <input
+        type="search"
+        value={values.q}
+        onChange={(e) => set("q", e.target.value)}
+        placeholder="Search load #, broker, city…"
+        className={`${inputClass} w-56`}
+      />
+
+      <select value={values.status} onChange={(e) => set("status", e.target.value)} className={inputClass}>
+        <option value="">All statuses</option>
+        {LoadStatusSchema.options.map((status) => (
+          <option key={status} value={status}>
+            {label(status)}
+          </option>
+        ))}
+      </select>
+
+      {customers.length > 0 && (
+        <select value={values.customerId} onChange={(e) => set("customerId", e.target.value)} className={inputClass}>
+          <option value="">All customers</option>
+          {customers.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.label}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {trucks.length > 0 && (
+        <select value={values.truckId} onChange={(e) => set("truckId", e.target.value)} className={inputClass}>
+          <option value="">All trucks</option>
+          {trucks.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.label}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {drivers.length > 0 && (
+        <select value={values.driverId} onChange={(e) => set("driverId", e.target.value)} className={inputClass}>
+          <option value="">All drivers</option>
+          {drivers.map((d) => (
+            <option key={d.id} value={d.id}>
+              {d.label}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <select value={values.equipment} onChange={(e) => set("equipment", e.target.value)} className={inputClass}>
+        <option value="">All equipment</option>
+        {EquipmentTypeSchema.options.map((equipment) => (
+          <option key={equipment} value={equipment}>
+            {label(equipment)}
+          </option>
+        ))}
+      </select>
+
+      <label className="flex flex-col text-[10px] uppercase text-slate-500">
+        Pickup
+        <span className="flex gap-1">
+          <input type="date" value={values.pickupFrom} onChange={(e) => set("pickupFrom", e.target.value)} className={inputClass} />
+          <input type="date" value={values.pickupTo} onChange={(e) => set("pickupTo", e.target.value)} className={inputClass} />
+        </span>
+      </label>
+
+      <label className="flex flex-col text-[10px] uppercase text-slate-500">
+        Delivery
+        <span className="flex gap-1">
+          <input type="date" value={values.deliveryFrom} onChange={(e) => set("deliveryFrom", e.target.value)} className={inputClass} />
+          <input type="date" value={values.deliveryTo} onChange={(e) => set("deliveryTo", e.target.value)} className={inputClass} />
+        </span>
+      </label>
+
+      <button type="submit" className="rounded-md bg-sky-600 px-3 py-1 text-xs font-medium text-white">
+        Apply
+      </button>
+      <button type="button" onClick={handleReset} className="rounded-md border px-3 py-1 text-xs text-slate-600">
+        Reset
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import { ApiError } from "@/lib/api/client";
+import {
+  useDeleteLoadTemplate,
+  useLoadTemplates,
+  useUpdateLoadTemplate,
+} from "@/lib/hooks/useLoadTemplates";
+import type { LoadTemplate } from "@/lib/schemas/loadTemplates";
+
+function lane(template: LoadTemplate) {
+  const stops = template.stops ?? [];
+  const first = stops[0];
+  const last = stops[stops.length - 1];
+  const place = (stop?: (typeof stops)[number]) =>
+    stop ? stop.location?.name ?? ([stop.city, stop.state].filter(Boolean).join(", ") || stop.name) : null;
+  return [place(first), stops.length > 1 ? place(last) : null].filter(Boolean).join(" → ");
+}
+
+// Saved lanes; recurring ones create DRAFT loads ahead of each pickup
+export function LoadTemplatesPanel() {
+  const { data: templates, isLoading } = useLoadTemplates();
+  const update = useUpdateLoadTemplate();
+  const remove = useDeleteLoadTemplate();
+  const [error, setError] = useState<string | null>(null);
+
+  async function toggleActive(template: LoadTemplate) {
+    setError(null);
+    try {
+      await update.mutateAsync({ templateId: template.id, input: { isActive: !template.isActive } });
+    } catch (err) {
+      console.error("[LOAD_TEMPLATE_UPDATE_ERROR]", err);
+      setError(err instanceof ApiError ? err.message : "Failed to update template");
+    }
+  }
+
+  async function handleDelete(template: LoadTemplate) {
+    if (!confirm(`Delete template "${template.name}"? Loads already created stay.`)) return;
+    setError(null);
+    try {
+      await remove.mutateAsync(template.id);
+    } catch (err) {
+      console.error("[LOAD_TEMPLATE_DELETE_ERROR]", err);
+      setError(err instanceof ApiError ? err.message : "Failed to delete template");
+    }
+  }
+
+  if (isLoading || !templates || templates.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-sm font-semibold text-slate-900">Lane templates</h2>
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+      <ul className="divide-y rounded-lg border bg-white text-sm shadow-sm">
+        {templates.map((template) => (
+          <li key={template.id} className="flex flex-wrap items-center justify-between gap-2 px-4 py-2">
+            <div>
+              <div className="font-medium text-slate-900">{template.name}</div>
+              <div className="text-xs text-slate-500">
+                {[template.customer?.name ?? template.broker, lane(template)].filter(Boolean).join(" · ")}
+              </div>
+            </div>
+            <div className="flex items-center gap-3 text-xs text-slate-500">
+              {template.recurrence ? (
+                <span>
+                  {template.recurrence.toLowerCase()}
+                  {template.isActive && template.nextRunAt
+                    ? ` · next ${new Date(template.nextRunAt).toLocaleDateString()}`
+                    : " · paused"}
+                </span>
+              ) : (
+                <span>one-off</span>
+              )}
+              {template.recurrence && (
+                <button
+                  type="button"
+                  onClick={() => toggleActive(template)}
+                  disabled={update.isPending}
+                  className="rounded-md border px-2 py-1 text-slate-700 disabled:opacity-60"
+                >
+                  {template.isActive ? "Pause" : "Resume"}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => handleDelete(template)}
+                disabled={remove.isPending}
+                className="rounded-md border px-2 py-1 text-rose-600 disabled:opacity-60"
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
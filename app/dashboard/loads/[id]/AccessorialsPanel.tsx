@@ -0,0 +1,229 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ApiError } from "@/lib/api/client";
+import {
+  useAccessorials,
+  useCreateAccessorial,
+  useDeleteAccessorial,
+  useUpdateAccessorial,
+} from "@/lib/hooks/useAccessorials";
+import {
+  ACCESSORIAL_CATALOG,
+  AccessorialTypeSchema,
+  type AccessorialType,
+  type LoadAccessorial,
+} from "@/lib/schemas/accessorials";
+
+type AccessorialsPanelProps = {
+  loadId: string;
+  canEdit: boolean;
+};
+
+function money(value: number) {
+  return value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+}
+
+function describe(accessorial: LoadAccessorial) {
+  const { label, unit } = ACCESSORIAL_CATALOG[accessorial.type];
+  const name = accessorial.description ?? label;
+  return unit === "each" && accessorial.quantity === 1
+    ? name
+    : `${name} · ${accessorial.quantity} ${unit}${accessorial.quantity === 1 ? "" : "s"} @ ${money(accessorial.rate)}`;
+}
+
+export function AccessorialsPanel({ loadId, canEdit }: AccessorialsPanelProps) {
+  const router = useRouter();
+  const { data: accessorials, isLoading } = useAccessorials(loadId);
+  const create = useCreateAccessorial(loadId);
+  const update = useUpdateAccessorial(loadId);
+  const remove = useDeleteAccessorial(loadId);
+
+  const [type, setType] = useState<AccessorialType>("LUMPER");
+  const [description, setDescription] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [rate, setRate] = useState("");
+  const [billable, setBillable] = useState(ACCESSORIAL_CATALOG.LUMPER.billable);
+  const [payableToDriver, setPayableToDriver] = useState(ACCESSORIAL_CATALOG.LUMPER.payableToDriver);
+  const [error, setError] = useState<string | null>(null);
+
+  function handleTypeChange(next: AccessorialType) {
+    setType(next);
+    setBillable(ACCESSORIAL_CATALOG[next].billable);
+    setPayableToDriver(ACCESSORIAL_CATALOG[next].payableToDriver);
+  }
+
+  async function run(action: () => Promise<unknown>, fallback: string) {
+    setError(null);
+    try {
+      await action();
+      router.refresh(); // revenue and driver pay on the page include these charges
+      return true;
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : fallback);
+      return false;
+    }
+  }
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const saved = await run(
+      () =>
+        create.mutateAsync({
+          type,
+          description: description.trim() || null,
+          quantity: quantity ? Number(quantity) : undefined, // blank = from the load (detention hours, layover days) or 1
+          rate: rate ? Number(rate) : undefined,
+          billable,
+          payableToDriver,
+        }),
+      "Failed to add charge"
+    );
+    if (saved) {
+      setDescription("");
+      setQuantity("");
+      setRate("");
+    }
+  }
+
+  const inputClass = "rounded-md border px-2 py-1.5 text-sm";
+  const unit = ACCESSORIAL_CATALOG[type].unit;
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-2xl font-semibold">Accessorials</h2>
+
+      {isLoading && <p className="text-sm text-slate-500">Loading…</p>}
+      {accessorials && accessorials.length === 0 && (
+        <p className="text-gray-500">No accessorial charges on this load.</p>
+      )}
+      {accessorials && accessorials.length > 0 && (
+        <ul className="divide-y rounded-lg border bg-white text-sm">
+          {accessorials.map((accessorial) => {
+            const locked = Boolean(accessorial.invoiceId);
+            return (
+              <li key={accessorial.id} className="flex items-center justify-between gap-4 px-3 py-2">
+                <div>
+                  <div className="font-medium text-slate-900">{describe(accessorial)}</div>
+                  <div className="text-xs text-slate-500">
+                    {accessorial.billable ? "Billed to customer" : "Not billed"}
+                    {accessorial.payableToDriver &&
+                      ` · driver gets ${money(accessorial.driverAmount ?? accessorial.amount)}`}
+                    {locked && " · invoiced"}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="font-medium">{money(accessorial.amount)}</span>
+                  {canEdit && !locked && (
+                    <div className="flex gap-2 text-xs">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          run(
+                            () =>
+                              update.mutateAsync({
+                                accessorialId: accessorial.id,
+                                input: { billable: !accessorial.billable },
+                              }),
+                            "Failed to update charge"
+                          )
+                        }
+                        className="text-sky-700 hover:underline"
+                      >
+                        {accessorial.billable ? "Don't bill" : "Bill"}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => run(() => remove.mutateAsync(accessorial.id), "Failed to delete charge")}
+                        className="text-rose-600 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-3 rounded-lg border bg-white p-3 md:grid-cols-6">
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+            Type
+            <select
+              value={type}
+              onChange={(e) => handleTypeChange(e.target.value as AccessorialType)}
+              className={inputClass}
+            >
+              {AccessorialTypeSchema.options.map((t) => (
+                <option key={t} value={t}>
+                  {ACCESSORIAL_CATALOG[t].label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+            Description
+            <input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClass}
+              placeholder={ACCESSORIAL_CATALOG[type].label}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+            Quantity ({unit}s)
+            <input
+              type="number"
+              min={0}
+              step={0.25}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              className={inputClass}
+              placeholder={type === "DETENTION" || type === "LAYOVER" ? "From load" : "1"}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+            Rate ($ per {unit})
+            <input
+              type="number"
+              min={0}
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              className={inputClass}
+              placeholder={type === "DETENTION" ? "Customer rate" : undefined}
+              required={type !== "DETENTION"}
+            />
+          </label>
+          <div className="flex flex-col justify-end gap-1 text-xs text-slate-600">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={billable} onChange={(e) => setBillable(e.target.checked)} />
+              Bill customer
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={payableToDriver}
+                onChange={(e) => setPayableToDriver(e.target.checked)}
+              />
+              Pay driver
+            </label>
+          </div>
+          <div className="flex items-end">
+            <button
+              type="submit"
+              disabled={create.isPending}
+              className="rounded-md bg-sky-600 px-3 py-1.5 text-sm font-medium text-white disabled:opacity-60"
+            >
+              {create.isPending ? "Adding..." : "Add charge"}
+            </button>
+          </div>
+        </form>
+      )}
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { ApiError } from "@/lib/api/client";
+import { useCreateInvoiceFromLoads } from "@/lib/hooks/useInvoices";
+
+type InvoiceLoadButtonProps = {
+  loadId: string;
+};
+
+export function InvoiceLoadButton({ loadId }: InvoiceLoadButtonProps) {
+  const router = useRouter();
+  const create = useCreateInvoiceFromLoads();
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleClick() {
+    setMessage(null);
+    setError(null);
+    try {
+      const invoice = await create.mutateAsync({ loadIds: [loadId] });
+      setMessage(`Invoice ${invoice.invoiceNumber} created for $${invoice.total.toLocaleString()}`);
+      router.refresh();
+    } catch (err) {
+      console.error("[LOAD_INVOICE_ERROR]", err);
+      setError(err instanceof ApiError ? err.message : "Failed to create invoice");
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={create.isPending}
+        className="rounded-md bg-emerald-600 px-3 py-1.5 text-sm font-medium text-white disabled:opacity-60"
+      >
+        {create.isPending ? "Invoicing..." : "Create invoice"}
+      </button>
+      {message && <p className="text-xs text-emerald-700">{message}</p>}
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+    </div>
+  );
+}
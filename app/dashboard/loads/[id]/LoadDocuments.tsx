@@ -0,0 +1,133 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ApiError } from "@/lib/api/client";
+import { getDocument } from "@/lib/api/documents";
+import { useUploadDocument } from "@/lib/hooks/useDocuments";
+import { DOCUMENT_TYPE_LABELS, DocumentTypeSchema, type DocumentType } from "@/lib/schemas/documents";
+
+type LoadDocument = {
+  id: string;
+  fileName: string;
+  fileType: string | null;
+  type: DocumentType | null;
+  createdAt: string;
+};
+
+type LoadDocumentsProps = {
+  loadId: string;
+  documents: LoadDocument[];
+  canUpload: boolean;
+};
+
+export function LoadDocuments({ loadId, documents, canUpload }: LoadDocumentsProps) {
+  const router = useRouter();
+  const upload = useUploadDocument();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [type, setType] = useState<DocumentType | "">("");
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleUpload(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError(null);
+    if (!file) return;
+
+    const form = new FormData();
+    form.append("file", file);
+    form.append("loadId", loadId);
+    if (type) form.append("type", type); // blank = guessed from the file name
+
+    try {
+      await upload.mutateAsync(form);
+      setFile(null);
+      setType("");
+      (e.target as HTMLFormElement).reset();
+      router.refresh();
+    } catch (err) {
+      console.error("[LOAD_DOCUMENT_UPLOAD_ERROR]", err);
+      setError(err instanceof ApiError ? err.message : "Failed to upload");
+    }
+  }
+
+  async function handleOpen(id: string) {
+    setError(null);
+    try {
+      const doc = await getDocument(id); // signed URLs expire, so fetch one per click
+      window.open(doc.signedUrl, "_blank", "noopener");
+    } catch (err) {
+      console.error("[LOAD_DOCUMENT_OPEN_ERROR]", err);
+      setError(err instanceof ApiError ? err.message : "Failed to open document");
+    }
+  }
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-2xl font-semibold">Documents</h2>
+
+      {canUpload && (
+        <form onSubmit={handleUpload} className="flex flex-wrap items-center gap-3">
+          <input
+            type="file"
+            accept="application/pdf,image/*"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="text-sm"
+          />
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as DocumentType | "")}
+            className="rounded-md border px-2 py-1.5 text-sm"
+          >
+            <option value="">Type from file name</option>
+            {DocumentTypeSchema.options.map((option) => (
+              <option key={option} value={option}>
+                {DOCUMENT_TYPE_LABELS[option]}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!file || upload.isPending}
+            className="rounded-md bg-sky-600 px-3 py-2 text-sm font-medium text-white disabled:opacity-60"
+          >
+            {upload.isPending ? "Uploading..." : "Upload"}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+
+      {documents.length === 0 ? (
+        <p className="text-gray-500">No documents attached (rate con, BOL, POD).</p>
+      ) : (
+        <ul className="divide-y rounded-lg border bg-white text-sm">
+          {documents.map((doc) => (
+            <li key={doc.id} className="flex items-center justify-between px-3 py-2">
+              <div>
+                <div className="font-medium text-slate-900">
+                  {doc.fileName}
+                  {doc.type && (
+                    <span className="ml-2 rounded bg-slate-100 px-1.5 py-0.5 text-xs font-normal text-slate-600">
+                      {DOCUMENT_TYPE_LABELS[doc.type]}
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {new Date(doc.createdAt).toLocaleString()}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleOpen(doc.id)}
+                className="text-xs font-medium text-sky-600 hover:underline"
+              >
+                Open
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ApiError } from "@/lib/api/client";
+import { useUpdateLoad } from "@/lib/hooks/useLoads";
+import type { DeadheadSuggestion } from "@/lib/deadhead";
+import type { LoadSummary, UpdateLoadFinancialsInput } from "@/lib/schemas/loads";
+
+type NumberField = Exclude<keyof UpdateLoadFinancialsInput, "loadNumber">;
+
+const FIELDS: { key: NumberField; label: string; required?: boolean; step?: number }[] = [
+  { key: "rate", label: "Rate ($)", required: true },
+  { key: "miles", label: "Loaded miles", required: true },
+  { key: "deadheadMiles", label: "Deadhead miles" },
+  { key: "fuelCost", label: "Fuel cost ($)", required: true },
+  { key: "lumper", label: "Lumper ($)" },
+  { key: "tolls", label: "Tolls ($)" },
+  { key: "otherCosts", label: "Other costs ($)" },
+  { key: "detentionHours", label: "Detention (hours)", step: 0.25 },
+];
+
+type LoadFinancialsFormProps = {
+  load: Omit<LoadSummary, "status">;
+  canEdit: boolean;
+  deadheadSuggestion?: DeadheadSuggestion | null;
+};
+
+function place(stop: DeadheadSuggestion["from"]) {
+  return [stop.city, stop.state].filter(Boolean).join(", ") || stop.name || "previous delivery";
+}
+
+export function LoadFinancialsForm({ load, canEdit, deadheadSuggestion }: LoadFinancialsFormProps) {
+  const router = useRouter();
+  const update = useUpdateLoad(load.id);
+
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      [...FIELDS.map((f) => f.key), "loadNumber" as const].map((key) => [
+        key,
+        load[key] == null ? "" : String(load[key]),
+      ])
+    )
+  );
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setMessage(null);
+    setError(null);
+
+    const input: UpdateLoadFinancialsInput = {
+      loadNumber: values.loadNumber.trim() || null,
+    };
+    for (const { key, required } of FIELDS) {
+      const raw = values[key].trim();
+      if (raw === "" && required) {
+        setError("Rate, loaded miles and fuel cost are required");
+        return;
+      }
+      (input as Record<string, number | null>)[key] = raw === "" ? null : Number(raw);
+    }
+
+    try {
+      await update.mutateAsync(input);
+      setMessage("Saved");
+      router.refresh(); // profit + header read from the server page
+    } catch (err) {
+      console.error("[LOAD_FINANCIALS_SAVE_ERROR]", err);
+      setError(err instanceof ApiError ? err.message : "Failed to save load");
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border bg-white p-4">
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        <div className="flex flex-col gap-1">
+          <label className="text-xs font-medium text-slate-600">Load #</label>
+          <input
+            type="text"
+            value={values.loadNumber}
+            onChange={(e) => setValues((prev) => ({ ...prev, loadNumber: e.target.value }))}
+            disabled={!canEdit}
+            className="rounded-md border px-3 py-2 text-sm disabled:bg-slate-50"
+          />
+        </div>
+        {FIELDS.map((field) => (
+          <div key={field.key} className="flex flex-col gap-1">
+            <label className="text-xs font-medium text-slate-600">{field.label}</label>
+            <input
+              type="number"
+              min={0}
+              step={field.step ?? 1}
+              value={values[field.key]}
+              onChange={(e) => setValues((prev) => ({ ...prev, [field.key]: e.target.value }))}
+              disabled={!canEdit}
+              className="rounded-md border px-3 py-2 text-sm disabled:bg-slate-50"
+            />
+            {field.key === "deadheadMiles" && deadheadSuggestion && (
+              <p className="text-xs text-slate-500">
+                From {place(deadheadSuggestion.from)}
+                {deadheadSuggestion.miles !== null && (
+                  <>
+                    {`: ${deadheadSuggestion.miles} mi`}
+                    {canEdit && values.deadheadMiles !== String(deadheadSuggestion.miles) && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setValues((prev) => ({ ...prev, deadheadMiles: String(deadheadSuggestion.miles) }))
+                        }
+                        className="ml-1 text-sky-700 hover:underline"
+                      >
+                        Use
+                      </button>
+                    )}
+                  </>
+                )}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {canEdit && (
+        <div className="flex items-center gap-3">
+          <button
+            type="submit"
+            disabled={update.isPending}
+            className="rounded-md bg-sky-600 px-3 py-2 text-sm font-medium text-white disabled:opacity-60"
+          >
+            {update.isPending ? "Saving..." : "Save Financials"}
+          </button>
+          {error && <p className="text-xs text-rose-600">{error}</p>}
+          {message && <p className="text-xs text-emerald-600">{message}</p>}
+        </div>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { ApiError } from "@/lib/api/client";
+import { useTransitionLoad } from "@/lib/hooks/useLoads";
+import type { LoadStatus } from "@/lib/schemas/loads";
+
+type LoadStatusControlProps = {
+  loadId: string;
+  status: LoadStatus;
+  allowed: LoadStatus[]; // next states from the lifecycle rules
+  canEdit: boolean;
+};
+
+function formatStatus(status: string) {
+  return status.replace("_", " ").toLowerCase();
+}
+
+export function LoadStatusControl({ loadId, status, allowed, canEdit }: LoadStatusControlProps) {
+  const router = useRouter();
+  const transition = useTransitionLoad(loadId);
+  const [error, setError] = useState<string | null>(null);
+
+  async function move(to: LoadStatus) {
+    setError(null);
+
+    let tonuReason: string | undefined;
+    if (to === "TONU") {
+      tonuReason = window.prompt("Reason for TONU (truck ordered, not used)")?.trim();
+      if (!tonuReason) return;
+    }
+
+    try {
+      await transition.mutateAsync({ to, tonuReason });
+      router.refresh(); // re-render the server page with the new status + side effects
+    } catch (err) {
+      console.error("[LOAD_TRANSITION_ERROR]", err);
+      setError(err instanceof ApiError ? err.message : "Failed to change status");
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <span className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold uppercase text-slate-700">
+        {formatStatus(status)}
+      </span>
+
+      {canEdit && allowed.length > 0 && (
+        <div className="flex flex-wrap justify-end gap-2">
+          {allowed.map((next) => (
+            <button
+              key={next}
+              type="button"
+              onClick={() => move(next)}
+              disabled={transition.isPending}
+              className="rounded-md border px-2 py-1 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-60"
+            >
+              Mark {formatStatus(next)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ApiError } from "@/lib/api/client";
+import { useCreateLoadTemplate, useDuplicateLoad } from "@/lib/hooks/useLoadTemplates";
+import { TemplateRecurrenceSchema, type TemplateRecurrence } from "@/lib/schemas/loadTemplates";
+
+type LoadTemplateActionsProps = {
+  loadId: string;
+  defaultName: string;
+};
+
+function errorMessage(err: unknown, fallback: string) {
+  return err instanceof ApiError ? err.message : fallback;
+}
+
+export function LoadTemplateActions({ loadId, defaultName }: LoadTemplateActionsProps) {
+  const router = useRouter();
+  const duplicate = useDuplicateLoad(loadId);
+  const createTemplate = useCreateLoadTemplate();
+
+  const [mode, setMode] = useState<"duplicate" | "template" | null>(null);
+  const [pickupAt, setPickupAt] = useState("");
+  const [name, setName] = useState(defaultName);
+  const [recurrence, setRecurrence] = useState<TemplateRecurrence | "">("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleDuplicate(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError(null);
+    try {
+      const copy = await duplicate.mutateAsync({
+        pickupAt: pickupAt ? new Date(pickupAt).toISOString() : null,
+      });
+      router.push(`/dashboard/loads/${copy.id}`);
+    } catch (err) {
+      console.error("[LOAD_DUPLICATE_ERROR]", err);
+      setError(errorMessage(err, "Failed to duplicate load"));
+    }
+  }
+
+  async function handleSaveTemplate(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError(null);
+    try {
+      const template = await createTemplate.mutateAsync({
+        loadId,
+        name: name.trim(),
+        recurrence: recurrence || null,
+      });
+      setMode(null);
+      setMessage(
+        template.nextRunAt
+          ? `Saved "${template.name}". Next draft for ${new Date(template.nextRunAt).toLocaleString()}.`
+          : `Saved "${template.name}".`
+      );
+    } catch (err) {
+      console.error("[LOAD_TEMPLATE_SAVE_ERROR]", err);
+      setError(errorMessage(err, "Failed to save template"));
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => setMode(mode === "duplicate" ? null : "duplicate")}
+          className="rounded-md border px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50"
+        >
+          Duplicate
+        </button>
+        <button
+          type="button"
+          onClick={() => setMode(mode === "template" ? null : "template")}
+          className="rounded-md border px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50"
+        >
+          Save as template
+        </button>
+      </div>
+
+      {mode === "duplicate" && (
+        <form onSubmit={handleDuplicate} className="flex flex-wrap items-end gap-2 rounded-lg border bg-slate-50 p-3">
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-medium text-slate-600">New first pickup (optional)</label>
+            <input
+              type="datetime-local"
+              value={pickupAt}
+              onChange={(e) => setPickupAt(e.target.value)}
+              className="rounded-md border px-3 py-2 text-sm"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={duplicate.isPending}
+            className="rounded-md bg-sky-600 px-3 py-2 text-sm font-medium text-white disabled:opacity-60"
+          >
+            {duplicate.isPending ? "Copying..." : "Create draft copy"}
+          </button>
+        </form>
+      )}
+
+      {mode === "template" && (
+        <form onSubmit={handleSaveTemplate} className="flex flex-wrap items-end gap-2 rounded-lg border bg-slate-50 p-3">
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-medium text-slate-600">Template name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              className="rounded-md border px-3 py-2 text-sm"
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-medium text-slate-600">Repeat</label>
+            <select
+              value={recurrence}
+              onChange={(e) => setRecurrence(e.target.value as TemplateRecurrence | "")}
+              className="rounded-md border px-3 py-2 text-sm"
+            >
+              <option value="">Don&apos;t repeat</option>
+              {TemplateRecurrenceSchema.options.map((option) => (
+                <option key={option} value={option}>
+                  {option.toLowerCase()}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={createTemplate.isPending}
+            className="rounded-md bg-sky-600 px-3 py-2 text-sm font-medium text-white disabled:opacity-60"
+          >
+            {createTemplate.isPending ? "Saving..." : "Save template"}
+          </button>
+        </form>
+      )}
+
+      {message && <p className="text-xs text-emerald-700">{message}</p>}
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+    </div>
+  );
+}
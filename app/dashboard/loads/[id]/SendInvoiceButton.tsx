@@ -0,0 +1,80 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ApiError } from "@/lib/api/client";
+import { useSendInvoice } from "@/lib/hooks/useInvoices";
+
+type SendInvoiceButtonProps = {
+  invoiceId: string;
+  billingEmail: string | null;
+  canAttachPacket: boolean;
+};
+
+export function SendInvoiceButton({ invoiceId, billingEmail, canAttachPacket }: SendInvoiceButtonProps) {
+  const router = useRouter();
+  const send = useSendInvoice();
+  const [open, setOpen] = useState(false);
+  const [to, setTo] = useState(billingEmail ?? "");
+  const [packet, setPacket] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setMessage(null);
+    setError(null);
+    try {
+      const email = await send.mutateAsync({ invoiceId, input: { to: to.trim() || undefined, packet } });
+      setMessage(
+        email.status === "SENT"
+          ? `Sent to ${email.toEmail}`
+          : `Couldn't send yet (${email.errorMessage ?? "mail server unavailable"}); it will be retried`
+      );
+      setOpen(false);
+      router.refresh();
+    } catch (err) {
+      console.error("[SEND_INVOICE_ERROR]", err);
+      setError(err instanceof ApiError ? err.message : "Failed to send invoice");
+    }
+  }
+
+  return (
+    <div className="text-xs">
+      {!open ? (
+        <button type="button" onClick={() => setOpen(true)} className="text-sky-600 hover:underline">
+          Email to customer
+        </button>
+      ) : (
+        <form onSubmit={handleSubmit} className="mt-1 flex flex-wrap items-center gap-2">
+          <input
+            type="email"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            placeholder="billing@customer.com"
+            className="w-56 rounded-md border px-2 py-1 text-xs"
+            required
+          />
+          {canAttachPacket && (
+            <label className="flex items-center gap-1 text-slate-600">
+              <input type="checkbox" checked={packet} onChange={(e) => setPacket(e.target.checked)} />
+              Attach full packet
+            </label>
+          )}
+          <button
+            type="submit"
+            disabled={send.isPending}
+            className="rounded-md bg-sky-600 px-2 py-1 font-medium text-white disabled:opacity-60"
+          >
+            {send.isPending ? "Sending..." : "Send"}
+          </button>
+          <button type="button" onClick={() => setOpen(false)} className="text-slate-500 hover:underline">
+            Cancel
+          </button>
+        </form>
+      )}
+      {message && <p className="mt-1 text-emerald-700">{message}</p>}
+      {error && <p className="mt-1 text-rose-600">{error}</p>}
+    </div>
+  );
+}
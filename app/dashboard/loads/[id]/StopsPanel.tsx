@@ -0,0 +1,345 @@
+"use client";
+
+import { DragEvent, FormEvent, useState } from "react";
+import { ApiError } from "@/lib/api/client";
+import { useLocations } from "@/lib/hooks/useLocations";
+import {
+  useCheckStop,
+  useCreateStop,
+  useDeleteStop,
+  useReorderStops,
+  useStops,
+  useUpdateStop,
+} from "@/lib/hooks/useStops";
+import { StopTypeSchema, type LoadStop, type StopType } from "@/lib/schemas/stops";
+
+type StopsPanelProps = {
+  loadId: string;
+  canEdit: boolean; // add / edit / reorder / delete
+  canCheckIn: boolean; // check-in + check-out (drivers too)
+};
+
+function formatTime(value: string | Date | null) {
+  return value ? new Date(value).toLocaleString() : null;
+}
+
+function toInputValue(value: string | Date | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16); // datetime-local wants local time
+}
+
+function stopLabel(stop: LoadStop) {
+  const place = [stop.city, stop.state].filter(Boolean).join(", ");
+  return stop.name ?? stop.location?.name ?? (place || "Unnamed stop");
+}
+
+function errorMessage(err: unknown, fallback: string) {
+  return err instanceof ApiError ? err.message : fallback;
+}
+
+export function StopsPanel({ loadId, canEdit, canCheckIn }: StopsPanelProps) {
+  const { data: stops, isLoading, error } = useStops(loadId);
+  const reorder = useReorderStops(loadId);
+  const remove = useDeleteStop(loadId);
+  const check = useCheckStop(loadId);
+
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  function handleDrop(e: DragEvent<HTMLLIElement>, targetId: string) {
+    e.preventDefault();
+    if (!stops || !draggingId || draggingId === targetId) return;
+
+    const ids = stops.map((s) => s.id);
+    const from = ids.indexOf(draggingId);
+    const to = ids.indexOf(targetId);
+    ids.splice(from, 1);
+    ids.splice(to, 0, draggingId);
+
+    setDraggingId(null);
+    setActionError(null);
+    reorder.mutate(ids, {
+      onError: (err) => setActionError(errorMessage(err, "Failed to reorder stops")),
+    });
+  }
+
+  async function handleCheck(stopId: string, kind: "check-in" | "check-out") {
+    setActionError(null);
+    try {
+      await check.mutateAsync({ stopId, kind });
+    } catch (err) {
+      console.error("[STOP_CHECK_ERROR]", err);
+      setActionError(errorMessage(err, `Failed to ${kind.replace("-", " ")}`));
+    }
+  }
+
+  async function handleDelete(stopId: string) {
+    if (!confirm("Delete this stop?")) return;
+    setActionError(null);
+    try {
+      await remove.mutateAsync(stopId);
+    } catch (err) {
+      console.error("[STOP_DELETE_ERROR]", err);
+      setActionError(errorMessage(err, "Failed to delete stop"));
+    }
+  }
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-semibold">Stops</h2>
+        {canEdit && !adding && (
+          <button
+            type="button"
+            onClick={() => setAdding(true)}
+            className="rounded-md bg-sky-600 px-3 py-2 text-sm font-medium text-white"
+          >
+            Add Stop
+          </button>
+        )}
+      </div>
+
+      {adding && <StopForm loadId={loadId} onDone={() => setAdding(false)} />}
+
+      {isLoading && <p className="text-sm text-slate-500">Loading…</p>}
+      {error && <p className="text-sm text-rose-600">{errorMessage(error, "Failed to load stops")}</p>}
+      {actionError && <p className="text-xs text-rose-600">{actionError}</p>}
+
+      {stops && stops.length === 0 && <p className="text-gray-500">No stops on this load.</p>}
+
+      {stops && stops.length > 0 && (
+        <ol className="space-y-2">
+          {stops.map((stop, index) => (
+            <li
+              key={stop.id}
+              draggable={canEdit && editingId === null}
+              onDragStart={() => setDraggingId(stop.id)}
+              onDragEnd={() => setDraggingId(null)}
+              onDragOver={(e) => canEdit && e.preventDefault()} // allows dropping here
+              onDrop={(e) => handleDrop(e, stop.id)}
+              className={`rounded-lg border bg-white p-3 text-sm shadow-sm ${
+                draggingId === stop.id ? "opacity-50" : ""
+              } ${canEdit ? "cursor-move" : ""}`}
+            >
+              {editingId === stop.id ? (
+                <StopForm loadId={loadId} stop={stop} onDone={() => setEditingId(null)} />
+              ) : (
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <div className="font-medium">
+                      {index + 1}. {stop.type} — {stopLabel(stop)}
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      {[stop.addressLine1, stop.city, stop.state, stop.postalCode]
+                        .filter(Boolean)
+                        .join(", ")}
+                    </div>
+                    {stop.scheduledAt && (
+                      <div className="text-xs text-slate-500">
+                        Scheduled {formatTime(stop.scheduledAt)}
+                      </div>
+                    )}
+                    {stop.arrivedAt && (
+                      <div className="text-xs text-emerald-700">Arrived {formatTime(stop.arrivedAt)}</div>
+                    )}
+                    {stop.departedAt && (
+                      <div className="text-xs text-emerald-700">Departed {formatTime(stop.departedAt)}</div>
+                    )}
+                    {!!stop.detentionMinutes && (
+                      <div className="text-xs font-medium text-amber-700">
+                        Detention {(stop.detentionMinutes / 60).toFixed(2)} h
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {canCheckIn && !stop.arrivedAt && (
+                      <button
+                        type="button"
+                        onClick={() => handleCheck(stop.id, "check-in")}
+                        disabled={check.isPending}
+                        className="rounded-md border px-2 py-1 text-xs font-medium text-emerald-700 disabled:opacity-60"
+                      >
+                        Check in
+                      </button>
+                    )}
+                    {canCheckIn && stop.arrivedAt && !stop.departedAt && (
+                      <button
+                        type="button"
+                        onClick={() => handleCheck(stop.id, "check-out")}
+                        disabled={check.isPending}
+                        className="rounded-md border px-2 py-1 text-xs font-medium text-emerald-700 disabled:opacity-60"
+                      >
+                        Check out
+                      </button>
+                    )}
+                    {canEdit && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => setEditingId(stop.id)}
+                          className="rounded-md border px-2 py-1 text-xs text-slate-700"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(stop.id)}
+                          disabled={remove.isPending}
+                          className="rounded-md border px-2 py-1 text-xs text-rose-600 disabled:opacity-60"
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
+
+type StopFormProps = {
+  loadId: string;
+  stop?: LoadStop; // edit mode when set
+  onDone: () => void;
+};
+
+function StopForm({ loadId, stop, onDone }: StopFormProps) {
+  const locations = useLocations();
+  const create = useCreateStop(loadId);
+  const update = useUpdateStop(loadId);
+
+  const [type, setType] = useState<StopType>(stop?.type ?? "PICKUP");
+  const [locationId, setLocationId] = useState(stop?.locationId ?? "");
+  const [name, setName] = useState(stop?.name ?? "");
+  const [city, setCity] = useState(stop?.city ?? "");
+  const [state, setState] = useState(stop?.state ?? "");
+  const [scheduledAt, setScheduledAt] = useState(toInputValue(stop?.scheduledAt ?? null));
+  const [error, setError] = useState<string | null>(null);
+
+  const saving = create.isPending || update.isPending;
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError(null);
+
+    // Blank address fields are omitted so a linked Location can fill them; when editing without one they're cleared
+    const blank = !locationId && stop ? null : undefined;
+    const input = {
+      type,
+      locationId: locationId || null,
+      name: name.trim() || blank,
+      city: city.trim() || blank,
+      state: state.trim() || blank,
+      scheduledAt: scheduledAt ? new Date(scheduledAt).toISOString() : null,
+    };
+
+    try {
+      if (stop) {
+        await update.mutateAsync({ stopId: stop.id, input });
+      } else {
+        await create.mutateAsync(input);
+      }
+      onDone();
+    } catch (err) {
+      console.error("[STOP_SAVE_ERROR]", err);
+      setError(errorMessage(err, "Failed to save stop"));
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 gap-3 rounded-lg border bg-slate-50 p-3 md:grid-cols-3">
+      <div className="flex flex-col gap-1">
+        <label className="text-xs font-medium text-slate-600">Type</label>
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as StopType)}
+          className="rounded-md border px-3 py-2 text-sm"
+        >
+          {StopTypeSchema.options.map((t) => (
+            <option key={t} value={t}>
+              {t.toLowerCase()}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col gap-1 md:col-span-2">
+        <label className="text-xs font-medium text-slate-600">Saved location</label>
+        <select
+          value={locationId}
+          onChange={(e) => setLocationId(e.target.value)}
+          className="rounded-md border px-3 py-2 text-sm"
+        >
+          <option value="">None (enter address below)</option>
+          {(locations.data ?? []).map((l) => (
+            <option key={l.id} value={l.id}>
+              {l.name}
+              {l.city ? ` — ${l.city}, ${l.state ?? ""}` : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label className="text-xs font-medium text-slate-600">Facility name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="rounded-md border px-3 py-2 text-sm"
+        />
+      </div>
+      <div className="flex flex-col gap-1">
+        <label className="text-xs font-medium text-slate-600">City</label>
+        <input
+          type="text"
+          value={city}
+          onChange={(e) => setCity(e.target.value)}
+          className="rounded-md border px-3 py-2 text-sm"
+        />
+      </div>
+      <div className="flex flex-col gap-1">
+        <label className="text-xs font-medium text-slate-600">State</label>
+        <input
+          type="text"
+          value={state}
+          onChange={(e) => setState(e.target.value)}
+          className="rounded-md border px-3 py-2 text-sm"
+        />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label className="text-xs font-medium text-slate-600">Appointment</label>
+        <input
+          type="datetime-local"
+          value={scheduledAt}
+          onChange={(e) => setScheduledAt(e.target.value)}
+          className="rounded-md border px-3 py-2 text-sm"
+        />
+      </div>
+
+      <div className="flex items-end gap-2 md:col-span-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-md bg-sky-600 px-3 py-2 text-sm font-medium text-white disabled:opacity-60"
+        >
+          {saving ? "Saving..." : stop ? "Save Stop" : "Add Stop"}
+        </button>
+        <button type="button" onClick={onDone} className="rounded-md border px-3 py-2 text-sm">
+          Cancel
+        </button>
+        {error && <p className="text-xs text-rose-600">{error}</p>}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,477 @@
+import Link from "next/link";
+import { getCurrentTenant } from "@/lib/auth";
+import { resolveCompanySettings } from "@/lib/companySettings";
+import { suggestDeadhead } from "@/lib/deadhead";
+import { estimateLoadFuel, FUEL_EXPENSE_GROUP, fuelVariance } from "@/lib/fuel";
+import { computeLoadFuelSurcharge } from "@/lib/fuelSurcharge";
+import { INVOICEABLE_STATUSES } from "@/lib/invoicing";
+import { allowedNextStatuses } from "@/lib/loadLifecycle";
+import { checkLoadMiles } from "@/lib/mileage";
+import { invoiceBalance } from "@/lib/payments";
+import { can, loadAccessFilter } from "@/lib/permissions";
+import { computeLoadProfitability } from "@/lib/profitability";
+import { scopedDb } from "@/lib/scopedDb";
+import { ActivityTimeline } from "../../components/ActivityTimeline";
+import { AccessorialsPanel } from "./AccessorialsPanel";
+import { InvoiceLoadButton } from "./InvoiceLoadButton";
+import { LoadDocuments } from "./LoadDocuments";
+import { LoadFinancialsForm } from "./LoadFinancialsForm";
+import { LoadStatusControl } from "./LoadStatusControl";
+import { LoadTemplateActions } from "./LoadTemplateActions";
+import { SendInvoiceButton } from "./SendInvoiceButton";
+import { StopsPanel } from "./StopsPanel";
+
+interface LoadPageProps {
+  params: Promise<{ id: string }>;
+}
+
+function money(value: number) {
+  return value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+}
+
+function formatDate(value: Date | null) {
+  return value ? new Date(value).toLocaleDateString() : "—";
+}
+
+export default async function LoadDetailPage({ params }: LoadPageProps) {
+  const { id } = await params;
+  const { company, user } = await getCurrentTenant();
+  const tdb = scopedDb(company.id); // companyId + soft-delete filters injected
+
+  const load = await tdb.load.findFirst({
+    where: { id, ...loadAccessFilter(user) }, // drivers only see their assigned loads
+    include: {
+      customer: true,
+      template: { select: { id: true, name: true } },
+      truck: true,
+      trailer: true,
+      loadDrivers: { include: { driver: true } },
+      stops: { select: { sequence: true, type: true, city: true, state: true, postalCode: true } }, // route + fuel estimates
+      documents: { orderBy: { createdAt: "desc" } },
+      expenses: { orderBy: { incurredAt: "desc" } },
+      accessorials: true, // billable ones count as revenue, driver shares as pay
+      invoiceLinks: {
+        include: { invoice: { include: { payments: { select: { amount: true } } } } },
+      },
+      tasks: { orderBy: { dueAt: "asc" } },
+    },
+  });
+
+  if (!load) {
+    return (
+      <div className="p-4">
+        <h1 className="text-xl font-semibold text-red-600">Load not found</h1>
+      </div>
+    );
+  }
+
+  const canEditLoad = can(user.role, "loads:update");
+  const canSeeExpenses = can(user.role, "expenses:read");
+  const canSeeInvoices = can(user.role, "invoices:read");
+
+  const settings = resolveCompanySettings(company);
+  const p = computeLoadProfitability(load, settings);
+  const deadheadSuggestion = canSeeExpenses ? await suggestDeadhead(tdb, load) : null;
+  const fuelEstimate = canSeeExpenses ? await estimateLoadFuel(tdb, load, settings) : null;
+  const fuel = fuelEstimate
+    ? fuelVariance(
+        fuelEstimate.cost,
+        load.expenses.filter((e) => e.categoryGroup === FUEL_EXPENSE_GROUP)
+      )
+    : null;
+  const mileage = checkLoadMiles(load);
+  const fuelSurcharge = canSeeInvoices ? await computeLoadFuelSurcharge(tdb, load, settings) : null;
+
+  return (
+    <div className="space-y-8 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <Link href="/dashboard/loads" className="text-sm text-sky-600 hover:underline">
+            ← All loads
+          </Link>
+          <h1 className="mt-2 text-3xl font-semibold">
+            {load.loadNumber ? `Load ${load.loadNumber}` : "Load"}
+          </h1>
+          <p className="text-gray-600">
+            {load.customer && can(user.role, "customers:read") ? (
+              <Link href={`/dashboard/customers/${load.customer.id}`} className="hover:underline">
+                {load.customer.name}
+              </Link>
+            ) : (
+              load.customer?.name || load.broker || "Unknown customer"
+            )}
+            {" · "}
+            Pickup {formatDate(load.pickupDate)} · Delivery {formatDate(load.deliveryDate)}
+          </p>
+          {load.template && (
+            <p className="text-sm text-slate-500">From template: {load.template.name}</p>
+          )}
+          {load.status === "TONU" && load.tonuReason && (
+            <p className="text-sm text-amber-700">TONU: {load.tonuReason}</p>
+          )}
+        </div>
+
+        <div className="flex flex-col items-end gap-3">
+          <LoadStatusControl
+            loadId={load.id}
+            status={load.status}
+            allowed={allowedNextStatuses(load.status)}
+            canEdit={canEditLoad}
+          />
+          {INVOICEABLE_STATUSES.includes(load.status) && load.customer && can(user.role, "invoices:create") && (
+            <InvoiceLoadButton loadId={load.id} />
+          )}
+          {can(user.role, "loads:create") && (
+            <LoadTemplateActions
+              loadId={load.id}
+              defaultName={[load.customer?.name ?? load.broker, load.loadNumber].filter(Boolean).join(" · ") || "Lane"}
+            />
+          )}
+        </div>
+      </div>
+
+      <section className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-6">
+        <div className="rounded-lg border bg-white p-3">
+          <div className="text-xs text-slate-500">Revenue</div>
+          <div className="text-lg font-semibold">{money(p.revenue)}</div>
+          {p.accessorialRevenue > 0 && (
+            <div className="text-xs text-slate-500">incl. {money(p.accessorialRevenue)} accessorials</div>
+          )}
+          <div className="text-xs text-slate-500">
+            {load.miles} loaded mi{p.revenuePerMile !== null && ` · $${p.revenuePerMile.toFixed(2)}/mi linehaul`}
+          </div>
+          {load.deadheadMiles != null && (
+            <div className="text-xs text-slate-500">
+              +{load.deadheadMiles} deadhead
+              {p.allInRevenuePerMile !== null && ` · $${p.allInRevenuePerMile.toFixed(2)}/mi all-in`}
+            </div>
+          )}
+        </div>
+        <div className="rounded-lg border bg-white p-3">
+          <div className="text-xs text-slate-500">Gross margin</div>
+          <div className="text-lg font-semibold">{money(p.grossMargin)}</div>
+          <div className="text-xs text-slate-500">After {money(p.directCosts)} fuel, lumper, tolls, other</div>
+        </div>
+        {canSeeExpenses && (
+          <>
+            <div className="rounded-lg border bg-white p-3">
+              <div className="text-xs text-slate-500">Net margin</div>
+              <div className="text-lg font-semibold">{money(p.netMargin)}</div>
+              <div className="text-xs text-slate-500">
+                After {money(p.linkedExpenses)} in {load.expenses.length} linked expense(s)
+              </div>
+            </div>
+            <div className="rounded-lg border bg-white p-3">
+              <div className="text-xs text-slate-500">Truck &amp; driver</div>
+              <div className="text-lg font-semibold">{money(p.truckFixedCost + p.driverPay)}</div>
+              <div className="text-xs text-slate-500">
+                {money(p.truckFixedCost)} fixed ({p.days} d) · {money(p.driverPay)} pay
+                {p.unpricedDrivers > 0 && ` · ${p.unpricedDrivers} driver(s) without pay terms`}
+              </div>
+            </div>
+            <div className="rounded-lg border bg-white p-3">
+              <div className="text-xs text-slate-500">True profit</div>
+              <div
+                className={`text-lg font-semibold ${p.profit >= 0 ? "text-emerald-600" : "text-rose-600"}`}
+              >
+                {money(p.profit)}
+              </div>
+              <div className="text-xs text-slate-500">
+                {p.marginPct !== null ? `${p.marginPct.toFixed(1)}% margin` : "—"}
+                {p.profitPerMile !== null && ` · $${p.profitPerMile.toFixed(2)}/mi`}
+                {` · ${money(p.profitPerDay)}/day`}
+              </div>
+            </div>
+          </>
+        )}
+        <div className="rounded-lg border bg-white p-3">
+          <div className="text-xs text-slate-500">Detention</div>
+          <div className="text-lg font-semibold">
+            {load.detentionHours ? `${load.detentionHours} h` : "—"}
+          </div>
+          {load.detentionHours ? (
+            <div className="text-xs text-slate-500">{load.detentionComputed ? "from stop times" : "entered by hand"}</div>
+          ) : null}
+        </div>
+      </section>
+
+      {canSeeExpenses && (
+        <section className="space-y-3">
+          <h2 className="text-2xl font-semibold">Financials</h2>
+          <LoadFinancialsForm
+            load={{
+              id: load.id,
+              loadNumber: load.loadNumber,
+              rate: load.rate,
+              miles: load.miles,
+              deadheadMiles: load.deadheadMiles,
+              fuelCost: load.fuelCost,
+              lumper: load.lumper,
+              tolls: load.tolls,
+              otherCosts: load.otherCosts,
+              detentionHours: load.detentionHours,
+              detentionComputed: load.detentionComputed,
+            }}
+            canEdit={canEditLoad}
+            deadheadSuggestion={deadheadSuggestion}
+          />
+        </section>
+      )}
+
+      {fuelEstimate && fuel && (
+        <section className="space-y-2">
+          <h2 className="text-2xl font-semibold">Fuel</h2>
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+            <div className="rounded-lg border bg-white p-3">
+              <div className="text-xs text-gray-500">Estimated</div>
+              <div className="text-lg font-semibold">{fuel.estimated != null ? money(fuel.estimated) : "—"}</div>
+              <div className="text-xs text-gray-500">
+                {fuelEstimate.gallons} gal at {fuelEstimate.mpg} mpg
+                {fuelEstimate.mpgSource === "company" && " (company default)"}
+              </div>
+            </div>
+            <div className="rounded-lg border bg-white p-3">
+              <div className="text-xs text-gray-500">Diesel price</div>
+              <div className="text-lg font-semibold">
+                {fuelEstimate.price ? `$${fuelEstimate.price.pricePerGallon.toFixed(3)}` : "—"}
+              </div>
+              <div className="text-xs text-gray-500">
+                {fuelEstimate.price
+                  ? `${fuelEstimate.price.region}, week of ${formatDate(fuelEstimate.price.weekOf)}`
+                  : `No price on file${fuelEstimate.state ? ` for ${fuelEstimate.state}` : ""}`}
+              </div>
+            </div>
+            <div className="rounded-lg border bg-white p-3">
+              <div className="text-xs text-gray-500">Actual (fuel expenses)</div>
+              <div className="text-lg font-semibold">{money(fuel.actual)}</div>
+              <div className="text-xs text-gray-500">Entered on load: {money(load.fuelCost)}</div>
+            </div>
+            <div className="rounded-lg border bg-white p-3">
+              <div className="text-xs text-gray-500">Variance</div>
+              <div
+                className={`text-lg font-semibold ${
+                  fuel.variance != null && fuel.variance > 0 ? "text-red-600" : "text-green-600"
+                }`}
+              >
+                {fuel.variance != null && fuel.actual > 0 ? money(fuel.variance) : "—"}
+              </div>
+              {fuel.variancePct != null && fuel.actual > 0 && (
+                <div className="text-xs text-gray-500">
+                  {fuel.variancePct > 0 ? "+" : ""}
+                  {fuel.variancePct}% vs estimate
+                </div>
+              )}
+            </div>
+          </div>
+        </section>
+      )}
+
+      {mileage.estimate && (
+        <section className="space-y-2">
+          <h2 className="text-2xl font-semibold">Route estimate</h2>
+          <div
+            className={`rounded-lg border p-3 text-sm ${
+              mileage.mismatch ? "border-amber-300 bg-amber-50" : "bg-white"
+            }`}
+          >
+            <p>
+              About <span className="font-semibold">{mileage.estimate.miles} mi</span> from the stop addresses
+              {mileage.estimate.precision !== "city" && (
+                <span className="text-slate-500"> (located by {mileage.estimate.precision === "zip3" ? "ZIP" : "state"})</span>
+              )}
+              {mileage.diffPct !== null && (
+                <span className={mileage.mismatch ? "text-amber-700" : "text-slate-500"}>
+                  {" · "}entered {load.miles} mi ({mileage.diffPct > 0 ? "+" : ""}
+                  {mileage.diffPct}%)
+                </span>
+              )}
+            </p>
+            {mileage.mismatch && (
+              <p className="text-xs text-amber-700">Entered miles differ sharply from the estimate; double-check them.</p>
+            )}
+            {mileage.estimate.unresolved.length > 0 && (
+              <p className="text-xs text-slate-500">
+                {mileage.estimate.unresolved.length} stop(s) couldn&apos;t be located and were skipped.
+              </p>
+            )}
+            <div className="mt-2 flex flex-wrap gap-2 text-xs text-slate-600">
+              {Object.entries(mileage.estimate.byState)
+                .sort(([, a], [, b]) => b - a)
+                .map(([state, miles]) => (
+                  <span key={state} className="rounded-full bg-slate-100 px-2 py-0.5">
+                    {state} {miles} mi
+                  </span>
+                ))}
+            </div>
+          </div>
+        </section>
+      )}
+
+      <section className="space-y-3">
+        <h2 className="text-2xl font-semibold">Equipment &amp; Drivers</h2>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <div className="rounded-lg border bg-white p-3 text-sm">
+            <div className="text-xs text-slate-500">Truck</div>
+            <div className="font-medium">{load.truck ? `#${load.truck.unitNumber}` : "Unassigned"}</div>
+          </div>
+          <div className="rounded-lg border bg-white p-3 text-sm">
+            <div className="text-xs text-slate-500">Trailer</div>
+            <div className="font-medium">
+              {load.trailer ? `#${load.trailer.trailerNumber}` : "Unassigned"}
+            </div>
+          </div>
+          <div className="rounded-lg border bg-white p-3 text-sm">
+            <div className="text-xs text-slate-500">Drivers</div>
+            {load.loadDrivers.length === 0 ? (
+              <div className="font-medium">Unassigned</div>
+            ) : (
+              <ul>
+                {load.loadDrivers.map((ld) => (
+                  <li key={ld.id} className="font-medium">
+                    {ld.driver.firstName} {ld.driver.lastName}
+                    {ld.role && <span className="text-xs text-slate-500"> · {ld.role}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </section>
+
+      <StopsPanel
+        loadId={load.id}
+        canEdit={can(user.role, "stops:create")}
+        canCheckIn={can(user.role, "stops:update")}
+      />
+
+      {canSeeExpenses && <AccessorialsPanel loadId={load.id} canEdit={canEditLoad} />}
+
+      <LoadDocuments
+        loadId={load.id}
+        canUpload={can(user.role, "documents:create")}
+        documents={load.documents.map((d) => ({
+          id: d.id,
+          fileName: d.fileName,
+          fileType: d.fileType,
+          type: d.type,
+          createdAt: d.createdAt.toISOString(),
+        }))}
+      />
+
+      {canSeeExpenses && (
+        <section className="space-y-3">
+          <h2 className="text-2xl font-semibold">Expenses</h2>
+          {load.expenses.length === 0 ? (
+            <p className="text-gray-500">No expenses linked to this load.</p>
+          ) : (
+            <ul className="divide-y rounded-lg border bg-white text-sm">
+              {load.expenses.map((expense) => (
+                <li key={expense.id} className="flex items-center justify-between px-3 py-2">
+                  <div>
+                    <div className="font-medium text-slate-900">
+                      {expense.label || expense.description || expense.categoryKey || "Expense"}
+                    </div>
+                    <div className="text-xs text-slate-500">{formatDate(expense.incurredAt)}</div>
+                  </div>
+                  <div className="font-medium">{money(expense.amount)}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+
+      {canSeeInvoices && (
+        <section className="space-y-3">
+          <h2 className="text-2xl font-semibold">Invoices</h2>
+          {fuelSurcharge && (
+            <p className="text-sm text-slate-600">
+              Fuel surcharge ({fuelSurcharge.scheduleName}):{" "}
+              {fuelSurcharge.amount != null && fuelSurcharge.price ? (
+                <>
+                  <span className="font-medium">{money(fuelSurcharge.amount)}</span>
+                  {fuelSurcharge.percent != null
+                    ? ` at ${fuelSurcharge.percent}% of linehaul`
+                    : ` at $${(fuelSurcharge.ratePerMile ?? 0).toFixed(3)}/mi`}
+                  {` (diesel $${fuelSurcharge.price.pricePerGallon.toFixed(3)} ${fuelSurcharge.price.region}, week of ${formatDate(fuelSurcharge.price.weekOf)})`}
+                </>
+              ) : (
+                <span className="text-amber-700">no diesel price on file for the pickup week</span>
+              )}
+            </p>
+          )}
+          {load.invoiceLinks.length === 0 ? (
+            <p className="text-gray-500">Not invoiced yet.</p>
+          ) : (
+            <ul className="divide-y rounded-lg border bg-white text-sm">
+              {load.invoiceLinks.map(({ invoice }) => {
+                const { amountPaid: paid, balance } = invoiceBalance(invoice);
+                return (
+                  <li key={invoice.id} className="flex items-center justify-between px-3 py-2">
+                    <div>
+                      <div className="font-medium text-slate-900">{invoice.invoiceNumber}</div>
+                      <div className="text-xs text-slate-500">
+                        Issued {formatDate(invoice.issueDate)} · Due {formatDate(invoice.dueDate)}
+                      </div>
+                      <div className="flex gap-3 text-xs">
+                        <a href={`/api/invoices/${invoice.id}/pdf`} target="_blank" className="text-sky-600 hover:underline">
+                          PDF
+                        </a>
+                        {can(user.role, "documents:read") && (
+                          <a
+                            href={`/api/invoices/${invoice.id}/pdf?packet=true`}
+                            target="_blank"
+                            className="text-sky-600 hover:underline"
+                          >
+                            Packet with rate con, BOL &amp; POD
+                          </a>
+                        )}
+                      </div>
+                      {invoice.status !== "CANCELLED" && can(user.role, "invoices:update") && (
+                        <SendInvoiceButton
+                          invoiceId={invoice.id}
+                          billingEmail={load.customer?.billingEmail ?? null}
+                          canAttachPacket={can(user.role, "documents:read")}
+                        />
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <div className="font-medium">{money(invoice.total)}</div>
+                      <div className="text-xs text-slate-500">
+                        {invoice.status.toLowerCase()} · {money(paid)} paid
+                        {balance > 0 && invoice.status !== "CANCELLED" && <> · {money(balance)} open</>}
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </section>
+      )}
+
+      <section className="space-y-3">
+        <h2 className="text-2xl font-semibold">Tasks</h2>
+        {load.tasks.length === 0 ? (
+          <p className="text-gray-500">No tasks for this load.</p>
+        ) : (
+          <ul className="divide-y rounded-lg border bg-white text-sm">
+            {load.tasks.map((task) => (
+              <li key={task.id} className="flex items-center justify-between px-3 py-2">
+                <div>
+                  <div className="font-medium text-slate-900">
+                    {task.notes || task.type.replaceAll("_", " ").toLowerCase()}
+                  </div>
+                  <div className="text-xs text-slate-500">Due {formatDate(task.dueAt)}</div>
+                </div>
+                <span className="text-xs uppercase text-slate-500">{task.status.replaceAll("_", " ")}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <ActivityTimeline entityType="Load" entityId={load.id} />
+    </div>
+  );
+}
@@ -4,6 +4,15 @@ import { FormEvent, useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import axios from "axios";
 import Link from "next/link";
+import { ApiError } from "@/lib/api/client";
+import { useImportRateCon } from "@/lib/hooks/useDocuments";
+import { useFuelEstimate } from "@/lib/hooks/useFuelPrices";
+import {
+  EquipmentTypeSchema,
+  type EquipmentType,
+  type RateConDraft,
+  type RateConStop,
+} from "@/lib/schemas/loads";
 
 type Customer = {
   id: string;
@@ -17,10 +26,17 @@ export default function NewLoadPage() {
   const [broker, setBroker] = useState("");
   const [rate, setRate] = useState("");
   const [miles, setMiles] = useState("");
+  const [deadheadMiles, setDeadheadMiles] = useState("");
   const [fuelCost, setFuelCost] = useState("");
   const [lumper, setLumper] = useState("");
   const [tolls, setTolls] = useState("");
   const [otherCosts, setOtherCosts] = useState("");
+  const [loadNumber, setLoadNumber] = useState("");
+  const [commodity, setCommodity] = useState("");
+  const [equipment, setEquipment] = useState<EquipmentType>("DRY_VAN");
+  const [pickupDate, setPickupDate] = useState("");
+  const [deliveryDate, setDeliveryDate] = useState("");
+  const [stops, setStops] = useState<RateConStop[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -29,6 +45,28 @@ export default function NewLoadPage() {
   const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
   const [showCustomerDropdown, setShowCustomerDropdown] = useState(false);
 
+  // rate confirmation import: the parsed PDF is linked to the load when it's saved
+  const importRateCon = useImportRateCon();
+  const [sourceDocumentId, setSourceDocumentId] = useState<string | null>(null);
+  const [importedFileName, setImportedFileName] = useState<string | null>(null);
+  const [missingFields, setMissingFields] = useState<string[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // fuel estimate from the entered miles and the first pickup; blank fuel cost is estimated on save too
+  const firstPickup = stops.find((stop) => stop.type === "PICKUP") ?? stops[0];
+  const fuelEstimate = useFuelEstimate(
+    Number(miles) > 0
+      ? {
+          miles: Number(miles),
+          deadheadMiles: deadheadMiles ? Number(deadheadMiles) : null,
+          state: firstPickup?.state ?? null,
+          postalCode: firstPickup?.postalCode ?? null,
+          pickupDate: pickupDate || null,
+        }
+      : null
+  );
+  const estimatedFuelCost = fuelEstimate.data?.cost ?? null;
+
   useEffect(() => {
     async function loadCustomers() {
       try {
@@ -45,6 +83,46 @@ export default function NewLoadPage() {
     customer.name.toLowerCase().includes(broker.toLowerCase())
   );
 
+  function applyDraft(draft: RateConDraft) {
+    if (draft.broker) {
+      const match = customers.find(
+        (customer) => customer.name.toLowerCase() === draft.broker?.toLowerCase()
+      );
+      setBroker(match?.name ?? draft.broker);
+      setSelectedCustomerId(match?.id ?? null);
+    }
+    if (draft.rate !== null) setRate(String(draft.rate));
+    if (draft.miles !== null) setMiles(String(draft.miles));
+    setLoadNumber(draft.loadNumber ?? "");
+    setCommodity(draft.commodity ?? "");
+    if (draft.equipment) setEquipment(draft.equipment);
+    setPickupDate(draft.pickupDate ?? "");
+    setDeliveryDate(draft.deliveryDate ?? "");
+    setStops(draft.stops);
+    setMissingFields(draft.missing);
+  }
+
+  async function handleImport(file: File | undefined) {
+    if (!file) return;
+    setImportError(null);
+
+    try {
+      const result = await importRateCon.mutateAsync(file);
+      applyDraft(result.draft);
+      setSourceDocumentId(result.documentId);
+      setImportedFileName(file.name);
+    } catch (err) {
+      console.error("[RATE_CON_IMPORT_ERROR]", err);
+      setImportError(
+        err instanceof ApiError ? err.message : "Failed to read rate confirmation"
+      );
+    }
+  }
+
+  function updateStop(index: number, patch: Partial<RateConStop>) {
+    setStops((prev) => prev.map((stop, i) => (i === index ? { ...stop, ...patch } : stop)));
+  }
+
   async function handleSubmit(e: FormEvent<HTMLFormElement>) {
     e.preventDefault();
     setError(null);
@@ -55,11 +133,23 @@ export default function NewLoadPage() {
         broker,
         customerId: selectedCustomerId ?? null,
         rate,
-        miles,
-        fuelCost,
+        miles: miles || null, // blank → estimated from the stop addresses
+        deadheadMiles: deadheadMiles || null,
+        fuelCost: fuelCost || null, // blank → estimated from miles, MPG and fuel prices
         lumper: lumper || null,
         tolls: tolls || null,
         otherCosts: otherCosts || null,
+        loadNumber: loadNumber.trim() || null,
+        commodity: commodity.trim() || null,
+        equipment,
+        pickupDate: pickupDate || null,
+        deliveryDate: deliveryDate || null,
+        stops: stops.map((stop, index) => ({
+          ...stop,
+          sequence: index,
+          scheduledAt: stop.scheduledAt ? new Date(stop.scheduledAt).toISOString() : null, // local input -> UTC
+        })),
+        sourceDocumentId,
       });
 
       router.push("/dashboard/loads");
@@ -100,6 +190,45 @@ export default function NewLoadPage() {
         </Link>
       </div>
 
+      {/* Rate confirmation import */}
+      <div className="space-y-2 rounded-xl border border-dashed bg-slate-50 p-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <p className="text-sm font-medium text-slate-900">
+              Import from rate confirmation
+            </p>
+            <p className="text-xs text-slate-500">
+              Upload the broker&apos;s PDF to pre-fill this form. Review everything before saving.
+            </p>
+          </div>
+          <label className="cursor-pointer rounded-md border bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-100">
+            {importRateCon.isPending ? "Reading PDF..." : "Choose PDF"}
+            <input
+              type="file"
+              accept="application/pdf,.pdf"
+              className="hidden"
+              disabled={importRateCon.isPending}
+              onChange={(e) => {
+                handleImport(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+
+        {importedFileName && (
+          <p className="text-xs text-emerald-700">
+            Pre-filled from {importedFileName}. The PDF will be attached to this load.
+          </p>
+        )}
+        {missingFields.length > 0 && (
+          <p className="text-xs text-amber-700">
+            Couldn&apos;t find: {missingFields.join(", ")}. Please fill these in.
+          </p>
+        )}
+        {importError && <p className="text-xs text-rose-600">{importError}</p>}
+      </div>
+
       <form
         onSubmit={handleSubmit}
         className="space-y-4 rounded-xl border bg-white p-4 shadow-sm"
@@ -161,15 +290,27 @@ export default function NewLoadPage() {
 
           <div className="flex flex-col gap-1">
             <label className="text-xs font-medium text-slate-700">
-              Miles
+              Loaded Miles
             </label>
             <input
               type="number"
               value={miles}
               onChange={(e) => setMiles(e.target.value)}
               className="rounded-md border px-2 py-1.5 text-sm outline-none ring-0 focus:border-sky-500"
-              placeholder="800"
-              required
+              placeholder="Estimated from stops"
+            />
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-medium text-slate-700">
+              Deadhead Miles
+            </label>
+            <input
+              type="number"
+              value={deadheadMiles}
+              onChange={(e) => setDeadheadMiles(e.target.value)}
+              className="rounded-md border px-2 py-1.5 text-sm outline-none ring-0 focus:border-sky-500"
+              placeholder="Optional"
             />
           </div>
 
@@ -182,9 +323,23 @@ export default function NewLoadPage() {
               value={fuelCost}
               onChange={(e) => setFuelCost(e.target.value)}
               className="rounded-md border px-2 py-1.5 text-sm outline-none ring-0 focus:border-sky-500"
-              placeholder="450"
-              required
+              placeholder={estimatedFuelCost != null ? String(estimatedFuelCost) : "Estimated from fuel prices"}
             />
+            {estimatedFuelCost != null && fuelEstimate.data?.price && (
+              <p className="text-[11px] text-slate-500">
+                Est. ${estimatedFuelCost} ({fuelEstimate.data.gallons} gal @ $
+                {fuelEstimate.data.price.pricePerGallon.toFixed(3)}, {fuelEstimate.data.price.region})
+                {String(estimatedFuelCost) !== fuelCost && (
+                  <button
+                    type="button"
+                    onClick={() => setFuelCost(String(estimatedFuelCost))}
+                    className="ml-1 text-sky-600 hover:underline"
+                  >
+                    Use
+                  </button>
+                )}
+              </p>
+            )}
           </div>
 
           <div className="flex flex-col gap-1">
@@ -225,8 +380,133 @@ export default function NewLoadPage() {
               placeholder="0"
             />
           </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-medium text-slate-700">
+              Load #
+            </label>
+            <input
+              type="text"
+              value={loadNumber}
+              onChange={(e) => setLoadNumber(e.target.value)}
+              className="rounded-md border px-2 py-1.5 text-sm outline-none ring-0 focus:border-sky-500"
+              placeholder="Broker reference"
+            />
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-medium text-slate-700">
+              Equipment
+            </label>
+            <select
+              value={equipment}
+              onChange={(e) => setEquipment(e.target.value as EquipmentType)}
+              className="rounded-md border px-2 py-1.5 text-sm outline-none ring-0 focus:border-sky-500"
+            >
+              {EquipmentTypeSchema.options.map((option) => (
+                <option key={option} value={option}>
+                  {option.replace("_", " ").toLowerCase()}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex flex-col gap-1 md:col-span-2">
+            <label className="text-xs font-medium text-slate-700">
+              Commodity
+            </label>
+            <input
+              type="text"
+              value={commodity}
+              onChange={(e) => setCommodity(e.target.value)}
+              className="rounded-md border px-2 py-1.5 text-sm outline-none ring-0 focus:border-sky-500"
+              placeholder="Dry freight"
+            />
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-medium text-slate-700">
+              Pickup Date
+            </label>
+            <input
+              type="date"
+              value={pickupDate}
+              onChange={(e) => setPickupDate(e.target.value)}
+              className="rounded-md border px-2 py-1.5 text-sm outline-none ring-0 focus:border-sky-500"
+            />
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-medium text-slate-700">
+              Delivery Date
+            </label>
+            <input
+              type="date"
+              value={deliveryDate}
+              onChange={(e) => setDeliveryDate(e.target.value)}
+              className="rounded-md border px-2 py-1.5 text-sm outline-none ring-0 focus:border-sky-500"
+            />
+          </div>
         </div>
 
+        {/* Stops pulled from the rate confirmation; more can be added on the load page */}
+        {stops.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-slate-700">Stops</p>
+            {stops.map((stop, index) => (
+              <div
+                key={index}
+                className="grid grid-cols-1 gap-2 rounded-md border p-2 md:grid-cols-6"
+              >
+                <select
+                  value={stop.type}
+                  onChange={(e) =>
+                    updateStop(index, { type: e.target.value as RateConStop["type"] })
+                  }
+                  className="rounded-md border px-2 py-1.5 text-sm"
+                >
+                  <option value="PICKUP">Pickup</option>
+                  <option value="DELIVERY">Delivery</option>
+                </select>
+                <input
+                  type="text"
+                  value={stop.name ?? ""}
+                  onChange={(e) => updateStop(index, { name: e.target.value || null })}
+                  className="rounded-md border px-2 py-1.5 text-sm"
+                  placeholder="Facility"
+                />
+                <input
+                  type="text"
+                  value={stop.city ?? ""}
+                  onChange={(e) => updateStop(index, { city: e.target.value || null })}
+                  className="rounded-md border px-2 py-1.5 text-sm"
+                  placeholder="City"
+                />
+                <input
+                  type="text"
+                  value={stop.state ?? ""}
+                  onChange={(e) => updateStop(index, { state: e.target.value || null })}
+                  className="rounded-md border px-2 py-1.5 text-sm"
+                  placeholder="State"
+                />
+                <input
+                  type="datetime-local"
+                  value={stop.scheduledAt ?? ""}
+                  onChange={(e) => updateStop(index, { scheduledAt: e.target.value || null })}
+                  className="rounded-md border px-2 py-1.5 text-sm"
+                />
+                <button
+                  type="button"
+                  onClick={() => setStops((prev) => prev.filter((_, i) => i !== index))}
+                  className="rounded-md border px-2 py-1.5 text-xs text-rose-600 hover:bg-rose-50"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {error && (
           <p className="text-xs text-rose-600">
             {error}
@@ -1,13 +1,99 @@
 import Link from "next/link";
-import { db } from "@/lib/db";
-
-export default async function LoadsPage() {
-  const loads = await db.load.findMany({
-    orderBy: { createdAt: "desc" },
-    include: {
-      customer: true,
-    },
+import { getCurrentTenant } from "@/lib/auth";
+import { resolveCompanySettings } from "@/lib/companySettings";
+import { listLoads, parseLoadListQuery } from "@/lib/loadList";
+import { checkLoadMiles } from "@/lib/mileage";
+import { can } from "@/lib/permissions";
+import { computeLoadProfitability, PROFITABILITY_INCLUDE } from "@/lib/profitability";
+import { scopedDb } from "@/lib/scopedDb";
+import { LoadListQuerySchema, type LoadListQuery, type LoadSortField } from "@/lib/schemas/loads";
+import { EquipmentAvailabilityPanel } from "./EquipmentAvailabilityPanel";
+import { LoadFilters } from "./LoadFilters";
+import { LoadTemplatesPanel } from "./LoadTemplatesPanel";
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+type LoadsPageProps = {
+  searchParams: Promise<SearchParams>;
+};
+
+// Rebuilds the current URL with some params replaced (undefined removes them)
+function hrefWith(searchParams: SearchParams, changes: Record<string, string | undefined>) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(searchParams)) {
+    if (value === undefined) continue;
+    params.set(key, Array.isArray(value) ? value.join(",") : value);
+  }
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === undefined) params.delete(key);
+    else params.set(key, value);
+  }
+  const query = params.toString();
+  return query ? `/dashboard/loads?${query}` : "/dashboard/loads";
+}
+
+function SortHeader({
+  field,
+  label,
+  query,
+  searchParams,
+}: {
+  field: LoadSortField;
+  label: string;
+  query: LoadListQuery;
+  searchParams: SearchParams;
+}) {
+  const active = query.sort === field;
+  const dir = active && query.dir === "desc" ? "asc" : "desc";
+
+  return (
+    <th className="px-4 py-2 text-left font-medium text-slate-600">
+      <Link
+        href={hrefWith(searchParams, { sort: field, dir, cursor: undefined, before: undefined })}
+        className="hover:text-slate-900"
+      >
+        {label}
+        {active && (query.dir === "desc" ? " ↓" : " ↑")}
+      </Link>
+    </th>
+  );
+}
+
+export default async function LoadsPage({ searchParams }: LoadsPageProps) {
+  const { company, user } = await getCurrentTenant();
+  const tdb = scopedDb(company.id); // companyId + soft-delete filters injected
+
+  const params = await searchParams;
+  const parsed = parseLoadListQuery(params);
+  const query = parsed.success ? parsed.data : LoadListQuerySchema.parse({}); // bad params fall back to the default view
+
+  const settings = resolveCompanySettings(company);
+
+  const page = await listLoads(tdb, user, query, {
+    ...PROFITABILITY_INCLUDE, // est. profit includes linked expenses, truck fixed cost and driver pay
+    customer: true,
+    template: { select: { name: true } }, // recurring/duplicated lanes get a "from template" tag
+    stops: { select: { sequence: true, city: true, state: true, postalCode: true } }, // flags miles far off the estimate
   });
+  const { loads } = page;
+
+  // Filter dropdowns only list what the role may read anyway
+  const [customers, trucks, drivers] = [
+    can(user.role, "customers:read")
+      ? await tdb.customer.findMany({ orderBy: { name: "asc" }, select: { id: true, name: true } })
+      : [],
+    can(user.role, "trucks:read")
+      ? await tdb.truck.findMany({ orderBy: { unitNumber: "asc" }, select: { id: true, unitNumber: true } })
+      : [],
+    can(user.role, "drivers:read")
+      ? await tdb.driver.findMany({
+          orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+          select: { id: true, firstName: true, lastName: true },
+        })
+      : [],
+  ];
+
+  const filtered = Object.keys(params).some((key) => !["sort", "dir", "cursor", "before", "limit"].includes(key));
 
   return (
     <div className="space-y-6">
@@ -18,20 +104,30 @@ export default async function LoadsPage() {
         </p>
       </div>
 
+      <LoadFilters
+        customers={customers.map((c) => ({ id: c.id, label: c.name }))}
+        trucks={trucks.map((t) => ({ id: t.id, label: t.unitNumber }))}
+        drivers={drivers.map((d) => ({ id: d.id, label: `${d.firstName} ${d.lastName}` }))}
+      />
+
+      {!parsed.success && (
+        <p className="text-xs text-rose-600">Some filters were invalid and have been ignored.</p>
+      )}
+
       {loads.length === 0 ? (
         <p className="text-sm text-slate-500">
-          No loads yet. Click &quot;New Load&quot; to add your first one.
+          {filtered
+            ? "No loads match these filters."
+            : <>No loads yet. Click &quot;New Load&quot; to add your first one.</>}
         </p>
       ) : (
         <div className="space-y-3">
           {/* Mobile card list */}
           <div className="space-y-3 sm:hidden">
             {loads.map((load) => {
-              const totalOther =
-                (load.lumper ?? 0) +
-                (load.tolls ?? 0) +
-                (load.otherCosts ?? 0);
-              const estProfit = load.rate - (load.fuelCost + totalOther);
+              const p = computeLoadProfitability(load, settings);
+              const totalOther = p.directCosts - load.fuelCost;
+              const estProfit = Math.round(p.profit);
 
               return (
                 <Link
@@ -42,11 +138,24 @@ export default async function LoadsPage() {
                   <div className="flex items-center justify-between">
                     <div className="font-medium text-sm text-slate-900">
                       {load.customer?.name || load.broker || "Unknown"}
+                      {load.template && (
+                        <span
+                          title={load.template.name}
+                          className="ml-2 rounded-full bg-sky-50 px-2 py-0.5 text-[10px] font-medium text-sky-700"
+                        >
+                          from template
+                        </span>
+                      )}
                     </div>
                     <div className="text-xs text-slate-500">
                       {new Date(load.createdAt).toLocaleDateString()}
                     </div>
                   </div>
+                  <div className="mt-1 text-xs text-slate-500">
+                    {load.loadNumber ? `#${load.loadNumber} · ` : ""}
+                    {load.status.replace("_", " ").toLowerCase()}
+                    {load.pickupDate && ` · pickup ${new Date(load.pickupDate).toLocaleDateString()}`}
+                  </div>
                   <div className="mt-1 text-xs text-slate-600">
                     ${load.rate} · {load.miles} miles
                   </div>
@@ -75,15 +184,13 @@ export default async function LoadsPage() {
             <table className="min-w-full text-sm">
               <thead className="bg-slate-50">
                 <tr>
+                  <SortHeader field="loadNumber" label="Load #" query={query} searchParams={params} />
                   <th className="px-4 py-2 text-left font-medium text-slate-600">
                     Customer / Broker
                   </th>
-                  <th className="px-4 py-2 text-left font-medium text-slate-600">
-                    Rate
-                  </th>
-                  <th className="px-4 py-2 text-left font-medium text-slate-600">
-                    Miles
-                  </th>
+                  <SortHeader field="status" label="Status" query={query} searchParams={params} />
+                  <SortHeader field="rate" label="Rate" query={query} searchParams={params} />
+                  <SortHeader field="miles" label="Miles" query={query} searchParams={params} />
                   <th className="px-4 py-2 text-left font-medium text-slate-600">
                     Fuel
                   </th>
@@ -93,30 +200,53 @@ export default async function LoadsPage() {
                   <th className="px-4 py-2 text-left font-medium text-slate-600">
                     Est. Profit
                   </th>
-                  <th className="px-4 py-2 text-left font-medium text-slate-600">
-                    Date
-                  </th>
+                  <SortHeader field="pickupDate" label="Pickup" query={query} searchParams={params} />
+                  <SortHeader field="createdAt" label="Created" query={query} searchParams={params} />
                   <th className="px-4 py-2" />
                 </tr>
               </thead>
               <tbody>
                 {loads.map((load) => {
-                  const totalOther =
-                    (load.lumper ?? 0) +
-                    (load.tolls ?? 0) +
-                    (load.otherCosts ?? 0);
-                  const estProfit = load.rate - (load.fuelCost + totalOther);
+                  const p = computeLoadProfitability(load, settings);
+                  const totalOther = p.directCosts - load.fuelCost;
+                  const estProfit = Math.round(p.profit);
+                  const mileage = checkLoadMiles(load);
 
                   return (
                     <tr key={load.id} className="border-t last:border-b">
+                      <td className="px-4 py-2 whitespace-nowrap text-slate-600">
+                        {load.loadNumber ?? "—"}
+                      </td>
                       <td className="px-4 py-2 whitespace-nowrap">
                         {load.customer?.name || load.broker || "Unknown"}
+                        {load.template && (
+                          <span
+                            title={load.template.name}
+                            className="ml-2 rounded-full bg-sky-50 px-2 py-0.5 text-xs font-medium text-sky-700"
+                          >
+                            from template
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        <span className="rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-600">
+                          {load.status.replace("_", " ").toLowerCase()}
+                        </span>
                       </td>
                       <td className="px-4 py-2 whitespace-nowrap">
                         ${load.rate}
                       </td>
                       <td className="px-4 py-2 whitespace-nowrap">
                         {load.miles}
+                        {mileage.mismatch && mileage.estimate && (
+                          <span
+                            title={`Estimated ${mileage.estimate.miles} mi from the stops`}
+                            className="ml-1 rounded-full bg-amber-50 px-1.5 py-0.5 text-xs text-amber-700"
+                          >
+                            {mileage.diffPct! > 0 ? "+" : ""}
+                            {mileage.diffPct}%
+                          </span>
+                        )}
                       </td>
                       <td className="px-4 py-2 whitespace-nowrap">
                         ${load.fuelCost}
@@ -135,6 +265,9 @@ export default async function LoadsPage() {
                           ${estProfit}
                         </span>
                       </td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        {load.pickupDate ? new Date(load.pickupDate).toLocaleDateString() : "—"}
+                      </td>
                       <td className="px-4 py-2 whitespace-nowrap">
                         {new Date(load.createdAt).toLocaleDateString()}
                       </td>
@@ -152,9 +285,38 @@ export default async function LoadsPage() {
               </tbody>
             </table>
           </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between text-xs text-slate-500">
+            <span>
+              Showing {loads.length} of {page.total}
+            </span>
+            <div className="flex gap-2">
+              {page.prevCursor && (
+                <Link
+                  href={hrefWith(params, { before: page.prevCursor, cursor: undefined })}
+                  className="rounded-md border bg-white px-3 py-1 text-slate-700 hover:bg-slate-50"
+                >
+                  ← Prev
+                </Link>
+              )}
+              {page.nextCursor && (
+                <Link
+                  href={hrefWith(params, { cursor: page.nextCursor, before: undefined })}
+                  className="rounded-md border bg-white px-3 py-1 text-slate-700 hover:bg-slate-50"
+                >
+                  Next →
+                </Link>
+              )}
+            </div>
+          </div>
         </div>
       )}
 
+      {can(user.role, "loads:update") && <LoadTemplatesPanel />}
+
+      {can(user.role, "trucks:read") && <EquipmentAvailabilityPanel />}
+
       {/* New Load Button */}
       <div className="flex justify-end pt-6">
         <Link
@@ -1,4 +1,7 @@
-import { db } from "@/lib/db"; // Imports the Prisma client so this server component can query the database.
+import { scopedDb } from "@/lib/scopedDb"; // Tenant-scoped Prisma client: every query is pinned to the signed-in company.
+import { getCurrentTenant } from "@/lib/auth"; // Resolves the signed-in user's company (the layout already redirects signed-out visitors).
+import { resolveCompanySettings } from "@/lib/companySettings"; // Company settings with app defaults filled in.
+import { loadDirectCosts, rpmSplit } from "@/lib/profitability"; // Shared cost + loaded/all-in RPM math used by every page.
 import DashboardGridClient from "./DashboardGridClient"; // Imports the client-side grid component that handles drag + resize.
 import { RevenueWidget } from "./components/RevenueWidget"; // Imports the Revenue KPI widget.
 import { ExpensesWidget } from "./components/ExpensesWidget"; // Imports the Expenses KPI widget.
@@ -28,8 +31,7 @@ function percentChange(current: number, previous: number): number | null { // De
 }
 
 // Helper to approximate utilization based on miles vs a theoretical maximum.
-function approxUtilization(totalMiles: number, days: number): number { // Declares a helper that computes approximate utilization.
-  const maxMilesPerDay = 600; // Assumes ~600 miles/day per truck as a theoretical upper bound.
+function approxUtilization(totalMiles: number, days: number, maxMilesPerDay: number): number { // Declares a helper that computes approximate utilization.
   const theoreticalMax = maxMilesPerDay * days; // Computes maximum possible miles over the period.
   if (theoreticalMax <= 0) return 0; // If no days or invalid input, returns 0% utilization.
   const ratio = (totalMiles / theoreticalMax) * 100; // Computes actual miles as a percentage of theoretical max.
@@ -44,6 +46,9 @@ function daysBetween(later: Date, earlier: Date): number { // Declares a helper
 }
 
 export default async function DashboardPage() { // Default export: async React Server Component for the dashboard route.
+  const { company } = await getCurrentTenant(); // Loads the signed-in company so thresholds come from its settings.
+  const settings = resolveCompanySettings(company); // Company settings with defaults (600 mi/day, 14 stale days) for unset values.
+  const tdb = scopedDb(company.id); // Injects companyId + soft-delete filters into every query below.
   const now = new Date(); // Captures the current time for all period calculations.
   const daysInPeriod = 30; // Defines the primary KPI period as the last 30 days.
 
@@ -59,7 +64,7 @@ export default async function DashboardPage() { // Default export: async React S
   const prev7Start = new Date(last7Start); // Clones last7Start to compute the prior 7-day window start.
   prev7Start.setDate(prev7Start.getDate() - 7); // Moves prev7Start back another 7 days.
 
-  const staleThresholdDays = 14; // Defines how many days of silence counts as "stale" for customers (reduced from 30 to 14).
+  const staleThresholdDays = settings.staleCustomerDays; // How many days of silence counts as "stale" for customers (company setting).
   const staleCutoff = new Date(now); // Creates a Date object to represent the cutoff for stale contacts.
   staleCutoff.setDate(staleCutoff.getDate() - staleThresholdDays); // Moves staleCutoff back by the threshold days.
 
@@ -72,25 +77,25 @@ export default async function DashboardPage() { // Default export: async React S
     expensesPrev, // Holds expenses in the previous 30-day period.
     customersWithNotes, // Holds customers plus their most recent call note.
   ] = await Promise.all([
-    db.load.findMany({ // Queries loads created in the current 30-day window.
+    tdb.load.findMany({ // Queries loads created in the current 30-day window.
       where: { createdAt: { gte: periodStart, lte: now } }, // Filters loads whose createdAt is between periodStart and now.
     }),
-    db.load.findMany({ // Queries loads created in the previous 30-day window.
+    tdb.load.findMany({ // Queries loads created in the previous 30-day window.
       where: { createdAt: { gte: prevPeriodStart, lt: periodStart } }, // Filters loads between prevPeriodStart and periodStart.
     }),
-    db.load.findMany({ // Queries loads created in the last 7 days.
+    tdb.load.findMany({ // Queries loads created in the last 7 days.
       where: { createdAt: { gte: last7Start, lte: now } }, // Filters loads between last7Start and now.
     }),
-    db.load.findMany({ // Queries loads created in the prior 7-day window.
+    tdb.load.findMany({ // Queries loads created in the prior 7-day window.
       where: { createdAt: { gte: prev7Start, lt: last7Start } }, // Filters loads between prev7Start and last7Start.
     }),
-    db.expense.findMany({ // Queries expenses incurred in the current 30-day period.
+    tdb.expense.findMany({ // Queries expenses incurred in the current 30-day period.
       where: { incurredAt: { gte: periodStart, lte: now } }, // Filters expenses whose incurredAt is within the current window.
     }),
-    db.expense.findMany({ // Queries expenses incurred in the previous 30-day period.
+    tdb.expense.findMany({ // Queries expenses incurred in the previous 30-day period.
       where: { incurredAt: { gte: prevPeriodStart, lt: periodStart } }, // Filters expenses in the prior window.
     }),
-    db.customer.findMany({ // Queries all customers along with their most recent call note for stale detection.
+    tdb.customer.findMany({ // Queries all customers along with their most recent call note for stale detection.
       include: {
         callNotes: { orderBy: { createdAt: "desc" }, take: 1 }, // Includes the latest call note (if any) for each customer.
       },
@@ -100,14 +105,16 @@ export default async function DashboardPage() { // Default export: async React S
   const totalRevenueCurrent = sum(loadsCurrent.map((l) => l.rate)); // Sums rate across current-period loads to get total revenue.
   const totalRevenuePrev = sum(loadsPrev.map((l) => l.rate)); // Sums rate across previous-period loads for revenue comparison.
 
-  const totalMilesCurrent = sum(loadsCurrent.map((l) => l.miles)); // Sums miles across current-period loads.
-  const totalMilesPrev = sum(loadsPrev.map((l) => l.miles)); // Sums miles across previous-period loads.
+  const milesCurrent = rpmSplit(loadsCurrent); // Loaded vs deadhead miles and RPM for the current period.
+  const milesPrev = rpmSplit(loadsPrev); // Same split for the previous period.
+
+  const totalMilesCurrent = milesCurrent.totalMiles; // Every mile driven, loaded or empty.
 
   const totalFuelCurrent = sum( // Sums direct load-level costs for current period.
-    loadsCurrent.map((l) => (l.fuelCost ?? 0) + (l.lumper ?? 0) + (l.tolls ?? 0) + (l.otherCosts ?? 0)) // Adds fuel, lumper, tolls, and otherCosts per load.
+    loadsCurrent.map(loadDirectCosts) // Linked expenses are already in the period expense totals below.
   );
   const totalFuelPrev = sum( // Sums direct load-level costs for previous period.
-    loadsPrev.map((l) => (l.fuelCost ?? 0) + (l.lumper ?? 0) + (l.tolls ?? 0) + (l.otherCosts ?? 0)) // Same cost aggregation for previous-period loads.
+    loadsPrev.map(loadDirectCosts) // Same cost aggregation for previous-period loads.
   );
 
   const totalExpensesCurrent = sum(expensesCurrent.map((e) => e.amount)); // Sums general expenses in the current period.
@@ -116,10 +123,8 @@ export default async function DashboardPage() { // Default export: async React S
   const netProfitCurrent = totalRevenueCurrent - totalFuelCurrent - totalExpensesCurrent; // Calculates net profit for the current period.
   const netProfitPrev = totalRevenuePrev - totalFuelPrev - totalExpensesPrev; // Calculates net profit for the previous period.
 
-  const rpmCurrent =
-    totalMilesCurrent > 0 ? totalRevenueCurrent / totalMilesCurrent : 0; // Computes current RPM safely, avoiding divide-by-zero.
-  const rpmPrev =
-    totalMilesPrev > 0 ? totalRevenuePrev / totalMilesPrev : null; // Computes previous RPM or null if no miles.
+  const rpmCurrent = milesCurrent.allInRpm ?? 0; // All-in RPM so empty miles aren't hidden; 0 when no miles.
+  const rpmPrev = milesPrev.allInRpm; // Previous all-in RPM or null if no miles.
   const rpmDelta = rpmPrev != null ? rpmCurrent - rpmPrev : null; // Computes change in RPM vs prior period, or null if no baseline.
 
   const fuelPercentCurrent =
@@ -137,7 +142,7 @@ export default async function DashboardPage() { // Default export: async React S
   const avgMilesPerDay =
     daysInPeriod > 0 ? totalMilesCurrent / daysInPeriod : null; // Computes average miles per day over the 30-day period.
 
-  const utilizationPercent = approxUtilization(totalMilesCurrent, daysInPeriod); // Computes a rough utilization based on miles vs theoretical max.
+  const utilizationPercent = approxUtilization(totalMilesCurrent, daysInPeriod, settings.maxMilesPerTruckPerDay); // Computes a rough utilization based on miles vs the company's max miles/day.
 
   const revenueDeltaPercent = percentChange(totalRevenueCurrent, totalRevenuePrev); // Computes revenue percent change vs prior period.
   const expensesDeltaPercent = percentChange(
@@ -239,7 +244,9 @@ export default async function DashboardPage() { // Default export: async React S
           className="bg-slate-900 text-slate-50 border-slate-800" // Keeps styling consistent with other financial KPIs.
         />
         <RpmWidget
-          rpm={rpmCurrent} // Passes current-period RPM.
+          rpm={rpmCurrent} // Passes current-period all-in RPM.
+          loadedRpm={milesCurrent.loadedRpm} // Loaded-only RPM for comparison with broker rates.
+          deadheadPercent={milesCurrent.deadheadPct} // Share of miles driven empty.
           periodLabel={periodLabel} // Passes period label.
           deltaRpm={rpmDelta ?? undefined} // Passes RPM delta or undefined.
           className="bg-slate-900 text-slate-50 border-slate-800" // Styles RPM card in the same dark theme.
@@ -264,7 +271,7 @@ export default async function DashboardPage() { // Default export: async React S
         />
         <StaleCustomersWidget
           staleCustomersCount={staleCustomersCount} // Passes count of customers that have gone stale.
-          thresholdDays={staleThresholdDays} // Passes the day threshold for staleness (14 days).
+          thresholdDays={staleThresholdDays} // Passes the company's day threshold for staleness.
           customers={topStaleCustomers} // Passes the top stale customers to render as a list in the card.
           className="bg-amber-900/90 text-amber-50 border-amber-500" // Highlights this widget in amber as a warning.
         />
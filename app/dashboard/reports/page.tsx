@@ -1,4 +1,11 @@
-import { db } from "@/lib/db"; // Imports the shared Prisma client so this server component can query the database.
+import Link from "next/link"; // Client-side navigation to a load from the fuel table.
+import { redirect } from "next/navigation"; // Server-side redirect for roles that can't view reports.
+import { getCurrentTenant } from "@/lib/auth"; // Resolves the signed-in user + company from the session cookie.
+import { can } from "@/lib/permissions"; // Role → permission check.
+import { scopedDb } from "@/lib/scopedDb"; // Tenant-scoped Prisma client (companyId + soft-delete filters).
+import { rpmSplit } from "@/lib/profitability"; // Loaded vs all-in RPM and deadhead share.
+import { resolveCompanySettings } from "@/lib/companySettings"; // Company default MPG for fuel estimates.
+import { FUEL_EXPENSE_GROUP, LOAD_FUEL_SELECT, loadsFuelReport } from "@/lib/fuel"; // Estimated vs actual fuel per load.
 import ReportsChart from "./ReportsChart"; // Imports the client ReportsChart component; Next.js handles the client/server boundary.
 
 // Type describing a single daily summary point we’ll send to the chart.
@@ -10,33 +17,21 @@ type DailySummaryPoint = { // Defines the shape of each data point used for the
 };
 
 export default async function ReportsPage() { // Default export: async React Server Component for /dashboard/reports.
-  // TEMP AUTH: find the demo user that owns the current data.
-  const user = await db.user.findFirst({ // Looks up the demo user row in the User table.
-    where: { email: "demo@demo.com" }, // Filters by the fixed demo email we use across the app until real auth is in place.
-  });
-
-  if (!user) { // If the demo user does not exist, we can’t show any real numbers yet.
-    return (
-      <div className="p-4 space-y-2"> {/* Basic padded container for the empty state. */}
-        <h1 className="text-2xl font-semibold">Reports</h1> {/* Page title so the user knows they’re on the Reports page. */}
-        <p className="text-sm text-gray-500">
-          No data yet. Create loads and expenses to see reports.
-        </p> {/* Helper text to guide the user to create data first. */}
-      </div>
-    );
-  }
+  const { company, user } = await getCurrentTenant(); // The dashboard layout already redirects signed-out visitors.
+  if (!can(user.role, "reports:read")) redirect("/dashboard"); // Drivers don't get revenue reports.
+  const tdb = scopedDb(company.id); // Every query below is pinned to this company.
 
-  const loads = await db.load.findMany({ // Fetches all loads for this user to calculate revenue.
-    where: { userId: user.id }, // Filters loads by userId for multi-tenant safety later.
+  const loads = await tdb.load.findMany({ // Fetches all live loads for this company to calculate revenue.
     select: {
-      rate: true, // Only selects the rate (revenue) field for each load.
+      rate: true, // Selects the rate (revenue) field for each load.
+      miles: true, // Loaded miles, for the RPM split.
+      deadheadMiles: true, // Empty miles, for the RPM split.
       createdAt: true, // Also selects createdAt so we can aggregate by day.
     },
     orderBy: { createdAt: "asc" }, // Orders loads oldest to newest for consistent aggregation.
   });
 
-  const expenses = await db.expense.findMany({ // Fetches all expenses for this user to calculate costs.
-    where: { userId: user.id }, // Filters expenses by userId to match loads.
+  const expenses = await tdb.expense.findMany({ // Fetches all expenses for this company to calculate costs.
     select: {
       amount: true, // Only selects the amount (cost) field for each expense.
       incurredAt: true, // Also selects incurredAt so we can aggregate by day.
@@ -44,7 +39,6 @@ export default async function ReportsPage() { // Default export: async React Ser
     orderBy: { incurredAt: "asc" }, // Orders expenses oldest to newest.
   });
 
-  console.log(loads, expenses)
   const map = new Map<string, DailySummaryPoint>(); // Uses a Map keyed by date string to accumulate daily totals.
 
   // Helper to turn a JS Date into YYYY-MM-DD (date-only) string.
@@ -93,6 +87,28 @@ export default async function ReportsPage() { // Default export: async React Ser
     }))
     .sort((a, b) => (a.date < b.date ? -1 : 1)); // Sorts by date string so the chart X-axis is chronological.
 
+  const rpm = rpmSplit(loads); // Loaded RPM, all-in RPM and deadhead % across every load.
+  const rpmCards = [ // Stat cards shown above the chart.
+    { label: "Loaded RPM", value: rpm.loadedRpm != null ? `$${rpm.loadedRpm.toFixed(2)}` : "—" },
+    { label: "All-in RPM", value: rpm.allInRpm != null ? `$${rpm.allInRpm.toFixed(2)}` : "—" },
+    { label: "Deadhead", value: rpm.deadheadPct != null ? `${rpm.deadheadPct.toFixed(1)}%` : "—" },
+  ];
+
+  const fuelLoads = await tdb.load.findMany({ // Recent loads with fuel receipts, for the estimate vs actual table.
+    where: { expenses: { some: { categoryGroup: FUEL_EXPENSE_GROUP } } },
+    select: { id: true, loadNumber: true, createdAt: true, ...LOAD_FUEL_SELECT },
+    orderBy: { createdAt: "desc" },
+    take: 25,
+  });
+  const fuelRows = await loadsFuelReport(tdb, fuelLoads, resolveCompanySettings(company)); // One price lookup for every row.
+  const pricedFuelRows = fuelRows.filter((row) => row.variance != null); // Rows with no price on file can't be compared.
+  const fuelTotals = pricedFuelRows.reduce( // Sums over priced rows only, so the variance compares like with like.
+    (acc, row) => ({ estimated: acc.estimated + (row.estimated ?? 0), actual: acc.actual + row.actual }),
+    { estimated: 0, actual: 0 }
+  );
+  const dollars = (value: number) => `$${Math.round(value).toLocaleString()}`; // Whole-dollar formatting for the fuel table.
+  const signedDollars = (value: number) => `${value > 0 ? "+" : value < 0 ? "−" : ""}${dollars(Math.abs(value))}`; // Over (+) / under (−) the estimate.
+
   return (
     <div className="p-4 space-y-4"> {/* Main page container with padding and vertical spacing. */}
       <div className="space-y-1"> {/* Header block for title and subtitle. */}
@@ -102,6 +118,67 @@ export default async function ReportsPage() { // Default export: async React Ser
         </p> {/* Brief description of what this page shows. */}
       </div>
 
+      <div className="grid grid-cols-3 gap-3"> {/* Loaded vs all-in RPM across all loads. */}
+        {rpmCards.map((card) => (
+          <div key={card.label} className="rounded-lg border bg-white p-3">
+            <div className="text-xs text-gray-500">{card.label}</div>
+            <div className="text-lg font-semibold">{card.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {fuelRows.length > 0 && ( // Only shown once loads have fuel expenses linked to them.
+        <div className="space-y-2">
+          <h2 className="text-lg font-semibold">Fuel: estimated vs actual</h2>
+          {pricedFuelRows.length > 0 && (
+            <p className="text-sm text-gray-500">
+              {dollars(fuelTotals.actual)} spent vs {dollars(fuelTotals.estimated)} estimated (
+              {signedDollars(fuelTotals.actual - fuelTotals.estimated)}) on the last {pricedFuelRows.length} priced loads.
+            </p>
+          )}
+          <table className="w-full rounded-lg border bg-white text-sm">
+            <thead className="text-left text-xs text-gray-500">
+              <tr>
+                <th className="px-3 py-2">Load</th>
+                <th className="px-3 py-2">Miles</th>
+                <th className="px-3 py-2">Price</th>
+                <th className="px-3 py-2">Estimated</th>
+                <th className="px-3 py-2">Actual</th>
+                <th className="px-3 py-2">Variance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {fuelRows.map((row) => (
+                <tr key={row.load.id}>
+                  <td className="px-3 py-2">
+                    <Link href={`/dashboard/loads/${row.load.id}`} className="text-sky-700 hover:underline">
+                      {row.load.loadNumber ?? row.load.id.slice(0, 8)}
+                    </Link>
+                  </td>
+                  <td className="px-3 py-2">{row.estimate.miles}</td>
+                  <td className="px-3 py-2">
+                    {row.estimate.price
+                      ? `$${row.estimate.price.pricePerGallon.toFixed(3)} ${row.estimate.price.region}`
+                      : "No price"}
+                  </td>
+                  <td className="px-3 py-2">{row.estimated != null ? dollars(row.estimated) : "—"}</td>
+                  <td className="px-3 py-2">{dollars(row.actual)}</td>
+                  <td
+                    className={`px-3 py-2 ${
+                      row.variance != null && row.variance > 0 ? "text-red-600" : "text-green-700"
+                    }`}
+                  >
+                    {row.variance != null
+                      ? `${signedDollars(row.variance)} (${row.variancePct ?? 0}%)`
+                      : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {dailyData.length === 0 ? ( // If there are no data points at all, show a friendly empty state.
         <p className="text-sm text-gray-500">
           No activity yet. Add loads and expenses to see your trends.
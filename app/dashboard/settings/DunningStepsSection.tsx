@@ -0,0 +1,180 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { ApiError } from "@/lib/api/client";
+import {
+  useCreateDunningStep,
+  useDeleteDunningStep,
+  useDunningSteps,
+  useUpdateDunningStep,
+} from "@/lib/hooks/useDunning";
+import { useEmailTemplates } from "@/lib/hooks/useEmailTemplates";
+import { RECOMMENDED_DUNNING_STEPS, type DunningAction } from "@/lib/schemas/dunning";
+
+function describeOffset(days: number) {
+  if (days === 0) return "On the due date";
+  const n = Math.abs(days);
+  return `${n} day${n === 1 ? "" : "s"} ${days < 0 ? "before" : "after"} due`;
+}
+
+// When overdue invoices get reminder emails or collection tasks
+export function DunningStepsSection() {
+  const { data: steps, isLoading, error } = useDunningSteps();
+  const { data: templates } = useEmailTemplates();
+  const create = useCreateDunningStep();
+  const update = useUpdateDunningStep();
+  const remove = useDeleteDunningStep();
+
+  const [days, setDays] = useState("1");
+  const [timing, setTiming] = useState<"before" | "after">("after");
+  const [action, setAction] = useState<DunningAction>("EMAIL");
+  const [templateSlug, setTemplateSlug] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  if (error instanceof ApiError && error.isForbidden) return null;
+
+  async function handleAdd(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setFormError(null);
+
+    const n = Math.abs(Number(days));
+    try {
+      await create.mutateAsync({
+        offsetDays: timing === "before" ? -n : n,
+        action,
+        templateSlug: action === "EMAIL" && templateSlug ? templateSlug : null,
+      });
+    } catch (err) {
+      setFormError(err instanceof ApiError ? err.message : "Failed to add step");
+    }
+  }
+
+  async function handleRecommended() {
+    setFormError(null);
+    try {
+      for (const step of RECOMMENDED_DUNNING_STEPS) await create.mutateAsync(step);
+    } catch (err) {
+      setFormError(err instanceof ApiError ? err.message : "Failed to add steps");
+    }
+  }
+
+  return (
+    <section className="max-w-2xl space-y-4 rounded-lg border bg-white p-4">
+      <div>
+        <h2 className="text-lg font-semibold">Payment reminders</h2>
+        <p className="text-xs text-slate-500">
+          Checked daily for sent and overdue invoices with a balance. Email steps send the invoice to the
+          customer&apos;s billing email; task steps give your accounting user a collection task. Nothing more
+          goes out once an invoice is paid.
+        </p>
+      </div>
+
+      {isLoading && <p className="text-sm text-slate-500">Loading…</p>}
+      {steps && steps.length === 0 && (
+        <div className="flex items-center gap-2 text-sm text-slate-500">
+          <span>No reminders are set up.</span>
+          <button
+            type="button"
+            onClick={handleRecommended}
+            disabled={create.isPending}
+            className="rounded-md border px-3 py-1.5 text-sm text-slate-700 disabled:opacity-60"
+          >
+            Add recommended steps
+          </button>
+        </div>
+      )}
+      {steps && steps.length > 0 && (
+        <table className="w-full text-sm">
+          <thead className="text-left text-xs text-slate-500">
+            <tr>
+              <th className="py-1">When</th>
+              <th className="py-1">Action</th>
+              <th className="py-1">Active</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {steps.map((s) => (
+              <tr key={s.id} className={s.isActive ? "" : "text-slate-400"}>
+                <td className="py-1">{describeOffset(s.offsetDays)}</td>
+                <td className="py-1">
+                  {s.action === "TASK" ? "Collection task" : `Email (${s.templateSlug ?? "default template"})`}
+                </td>
+                <td className="py-1">
+                  <input
+                    type="checkbox"
+                    checked={s.isActive}
+                    onChange={(e) => update.mutate({ stepId: s.id, input: { isActive: e.target.checked } })}
+                  />
+                </td>
+                <td className="py-1 text-right">
+                  <button
+                    type="button"
+                    onClick={() => remove.mutate(s.id)}
+                    className="text-xs text-rose-600 hover:underline"
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-2">
+        <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+          Days
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+            className="w-20 rounded-md border px-2 py-1.5 text-sm"
+            required
+          />
+        </label>
+        <select
+          value={timing}
+          onChange={(e) => setTiming(e.target.value as "before" | "after")}
+          className="rounded-md border px-2 py-1.5 text-sm"
+        >
+          <option value="before">before due</option>
+          <option value="after">after due</option>
+        </select>
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value as DunningAction)}
+          className="rounded-md border px-2 py-1.5 text-sm"
+        >
+          <option value="EMAIL">Email customer</option>
+          <option value="TASK">Collection task</option>
+        </select>
+        {action === "EMAIL" && (
+          <select
+            value={templateSlug}
+            onChange={(e) => setTemplateSlug(e.target.value)}
+            className="rounded-md border px-2 py-1.5 text-sm"
+          >
+            <option value="">Default template</option>
+            {templates?.map((t) => (
+              <option key={t.slug} value={t.slug}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          type="submit"
+          disabled={create.isPending}
+          className="rounded-md bg-sky-600 px-3 py-1.5 text-sm font-medium text-white disabled:opacity-60"
+        >
+          Add step
+        </button>
+      </form>
+
+      {formError && <p className="text-xs text-rose-600">{formError}</p>}
+    </section>
+  );
+}
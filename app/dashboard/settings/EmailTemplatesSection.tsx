@@ -0,0 +1,188 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { ApiError } from "@/lib/api/client";
+import {
+  useCreateEmailTemplate,
+  useDeleteEmailTemplate,
+  useEmailTemplates,
+  useUpdateEmailTemplate,
+} from "@/lib/hooks/useEmailTemplates";
+import { EMAIL_TEMPLATE_VARIABLES, type EmailTemplate } from "@/lib/schemas/emailTemplates";
+
+type Draft = {
+  id: string | null;
+  slug: string;
+  name: string;
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+};
+
+const EMPTY_DRAFT: Draft = { id: null, slug: "", name: "", subject: "", htmlBody: "", textBody: "" };
+
+function toDraft(template: EmailTemplate): Draft {
+  return { ...template, textBody: template.textBody ?? "" };
+}
+
+// Subject and body of the emails sent to customers, e.g. with an invoice
+export function EmailTemplatesSection() {
+  const { data: templates, isLoading, error } = useEmailTemplates();
+  const create = useCreateEmailTemplate();
+  const update = useUpdateEmailTemplate();
+  const remove = useDeleteEmailTemplate();
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  if (error instanceof ApiError && error.isForbidden) return null;
+
+  function edit(next: Draft, fresh: boolean) {
+    setDraft(next);
+    setIsNew(fresh);
+    setFormError(null);
+  }
+
+  async function handleSave(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!draft) return;
+    setFormError(null);
+
+    const input = {
+      slug: draft.slug,
+      name: draft.name,
+      subject: draft.subject,
+      htmlBody: draft.htmlBody,
+      textBody: draft.textBody.trim() ? draft.textBody : null,
+    };
+
+    try {
+      // A built-in template has no id yet; saving it creates the company's own copy
+      if (draft.id) await update.mutateAsync({ templateId: draft.id, input });
+      else await create.mutateAsync(input);
+      setDraft(null);
+    } catch (err) {
+      setFormError(err instanceof ApiError ? err.message : "Failed to save template");
+    }
+  }
+
+  const field = (key: keyof Draft) => ({
+    value: draft?.[key] ?? "",
+    onChange: (e: { target: { value: string } }) => setDraft((d) => (d ? { ...d, [key]: e.target.value } : d)),
+  });
+
+  return (
+    <section className="max-w-2xl space-y-4 rounded-lg border bg-white p-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold">Email templates</h2>
+          <p className="text-xs text-slate-500">
+            Built-in templates are used until you customize them. Deleting a customized one brings the
+            built-in back.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => edit(EMPTY_DRAFT, true)}
+          className="rounded-md border px-3 py-1.5 text-sm text-slate-700"
+        >
+          New template
+        </button>
+      </div>
+
+      {isLoading && <p className="text-sm text-slate-500">Loading…</p>}
+      {templates && templates.length > 0 && (
+        <table className="w-full text-sm">
+          <thead className="text-left text-xs text-slate-500">
+            <tr>
+              <th className="py-1">Name</th>
+              <th className="py-1">Slug</th>
+              <th className="py-1">Subject</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {templates.map((t) => (
+              <tr key={t.slug}>
+                <td className="py-1">
+                  {t.name}
+                  {t.builtIn && (
+                    <span className="ml-2 rounded bg-slate-100 px-1.5 py-0.5 text-xs text-slate-500">Built-in</span>
+                  )}
+                </td>
+                <td className="py-1 font-mono text-xs">{t.slug}</td>
+                <td className="max-w-xs truncate py-1 text-slate-500">{t.subject}</td>
+                <td className="space-x-3 py-1 text-right">
+                  <button type="button" onClick={() => edit(toDraft(t), false)} className="text-xs text-sky-600 hover:underline">
+                    {t.builtIn ? "Customize" : "Edit"}
+                  </button>
+                  {t.id && (
+                    <button
+                      type="button"
+                      onClick={() => remove.mutate(t.id!)}
+                      className="text-xs text-rose-600 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {draft && (
+        <form onSubmit={handleSave} className="space-y-2 border-t pt-4">
+          <div className="flex flex-wrap gap-2">
+            <label className="flex flex-1 flex-col gap-1 text-xs font-medium text-slate-600">
+              Name
+              <input type="text" {...field("name")} className="rounded-md border px-2 py-1.5 text-sm" required />
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+              Slug
+              <input
+                type="text"
+                {...field("slug")}
+                disabled={!isNew}
+                className="w-40 rounded-md border px-2 py-1.5 font-mono text-sm disabled:bg-slate-50"
+                placeholder="invoice-reminder"
+                required
+              />
+            </label>
+          </div>
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+            Subject
+            <input type="text" {...field("subject")} className="rounded-md border px-2 py-1.5 text-sm" required />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+            HTML body
+            <textarea {...field("htmlBody")} rows={6} className="rounded-md border px-2 py-1.5 font-mono text-xs" required />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+            Plain-text body (optional; generated from the HTML when empty)
+            <textarea {...field("textBody")} rows={4} className="rounded-md border px-2 py-1.5 font-mono text-xs" />
+          </label>
+          <p className="text-xs text-slate-500">
+            Variables: {EMAIL_TEMPLATE_VARIABLES.map((v) => `{{${v}}}`).join(", ")}
+          </p>
+
+          {formError && <p className="text-xs text-rose-600">{formError}</p>}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={create.isPending || update.isPending}
+              className="rounded-md bg-sky-600 px-3 py-1.5 text-sm font-medium text-white disabled:opacity-60"
+            >
+              Save template
+            </button>
+            <button type="button" onClick={() => setDraft(null)} className="rounded-md border px-3 py-1.5 text-sm text-slate-700">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+}
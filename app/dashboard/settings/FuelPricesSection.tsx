@@ -0,0 +1,182 @@
+"use client";
+
+import { ChangeEvent, FormEvent, useState } from "react";
+import { ApiError } from "@/lib/api/client";
+import {
+  useDeleteFuelPrice,
+  useFuelPrices,
+  useImportFuelPrices,
+  useUpsertFuelPrice,
+} from "@/lib/hooks/useFuelPrices";
+
+// Weekly diesel prices used to estimate load fuel cost
+export function FuelPricesSection() {
+  const { data: prices, isLoading, error } = useFuelPrices();
+  const upsert = useUpsertFuelPrice();
+  const importPrices = useImportFuelPrices();
+  const remove = useDeleteFuelPrice();
+
+  const [weekOf, setWeekOf] = useState("");
+  const [region, setRegion] = useState("US");
+  const [price, setPrice] = useState("");
+  const [csv, setCsv] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // roles without expenses:read don't get the section at all
+  if (error instanceof ApiError && error.isForbidden) return null;
+
+  async function handleAdd(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setMessage(null);
+    setFormError(null);
+
+    try {
+      await upsert.mutateAsync({ weekOf, region, pricePerGallon: Number(price), source: "Manual" });
+      setPrice("");
+      setMessage("Price saved");
+    } catch (err) {
+      setFormError(err instanceof ApiError ? err.message : "Failed to save price");
+    }
+  }
+
+  async function handleFile(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (file) setCsv(await file.text());
+    e.target.value = "";
+  }
+
+  async function handleImport() {
+    setMessage(null);
+    setFormError(null);
+
+    try {
+      const result = await importPrices.mutateAsync({ csv });
+      setCsv("");
+      setMessage(
+        `Imported ${result.imported} price(s)` +
+          (result.errors.length > 0
+            ? `; skipped ${result.errors.map((e) => `line ${e.line} (${e.message})`).join(", ")}`
+            : "")
+      );
+    } catch (err) {
+      setFormError(err instanceof ApiError ? err.message : "Failed to import prices");
+    }
+  }
+
+  return (
+    <section className="max-w-2xl space-y-4 rounded-lg border bg-white p-4">
+      <div>
+        <h2 className="text-lg font-semibold">Fuel prices</h2>
+        <p className="text-xs text-slate-500">
+          Weekly diesel $/gal by state, PADD region (PADD1A–PADD5) or US. Loads are priced at their
+          pickup week, using the state first, then its PADD, then the US average.
+        </p>
+      </div>
+
+      <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-2">
+        <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+          Week of
+          <input
+            type="date"
+            value={weekOf}
+            onChange={(e) => setWeekOf(e.target.value)}
+            className="rounded-md border px-2 py-1.5 text-sm"
+            required
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+          Region
+          <input
+            type="text"
+            value={region}
+            onChange={(e) => setRegion(e.target.value)}
+            className="w-24 rounded-md border px-2 py-1.5 text-sm"
+            placeholder="TX, PADD3, US"
+            required
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+          $/gal
+          <input
+            type="number"
+            step={0.001}
+            min={0}
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            className="w-24 rounded-md border px-2 py-1.5 text-sm"
+            required
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={upsert.isPending}
+          className="rounded-md bg-sky-600 px-3 py-1.5 text-sm font-medium text-white disabled:opacity-60"
+        >
+          Save
+        </button>
+      </form>
+
+      <div className="space-y-2">
+        <textarea
+          value={csv}
+          onChange={(e) => setCsv(e.target.value)}
+          rows={3}
+          className="w-full rounded-md border px-2 py-1.5 font-mono text-xs"
+          placeholder={"week,region,price\n2025-12-15,PADD3,3.589"}
+        />
+        <div className="flex items-center gap-2">
+          <input type="file" accept=".csv,text/csv" onChange={handleFile} className="text-xs" />
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={!csv.trim() || importPrices.isPending}
+            className="rounded-md border px-3 py-1.5 text-sm text-slate-700 disabled:opacity-60"
+          >
+            {importPrices.isPending ? "Importing..." : "Import CSV"}
+          </button>
+        </div>
+      </div>
+
+      {formError && <p className="text-xs text-rose-600">{formError}</p>}
+      {message && <p className="text-xs text-emerald-600">{message}</p>}
+
+      {isLoading && <p className="text-sm text-slate-500">Loading…</p>}
+      {prices && prices.length === 0 && (
+        <p className="text-sm text-slate-500">No prices yet; fuel cost won&apos;t be estimated until one is added.</p>
+      )}
+      {prices && prices.length > 0 && (
+        <table className="w-full text-sm">
+          <thead className="text-left text-xs text-slate-500">
+            <tr>
+              <th className="py-1">Week of</th>
+              <th className="py-1">Region</th>
+              <th className="py-1">$/gal</th>
+              <th className="py-1">Source</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {prices.map((p) => (
+              <tr key={p.id}>
+                <td className="py-1">{new Date(p.weekOf).toISOString().slice(0, 10)}</td>
+                <td className="py-1">{p.region}</td>
+                <td className="py-1">{p.pricePerGallon.toFixed(3)}</td>
+                <td className="py-1 text-slate-500">{p.source ?? "—"}</td>
+                <td className="py-1 text-right">
+                  <button
+                    type="button"
+                    onClick={() => remove.mutate(p.id)}
+                    className="text-xs text-rose-600 hover:underline"
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
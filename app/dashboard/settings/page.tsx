@@ -0,0 +1,272 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useCompanySettings, useUpdateCompanySettings } from "@/lib/hooks/useCompanySettings";
+import { ApiError } from "@/lib/api/client";
+import type { CompanySettings } from "@/lib/schemas/companySettings";
+import { DunningStepsSection } from "./DunningStepsSection";
+import { EmailTemplatesSection } from "./EmailTemplatesSection";
+import { FuelPricesSection } from "./FuelPricesSection";
+
+type ProfileKey =
+  | "addressLine1"
+  | "addressLine2"
+  | "city"
+  | "state"
+  | "postalCode"
+  | "phone"
+  | "billingEmail";
+
+type FieldConfig = {
+  key: Exclude<keyof CompanySettings, "name" | "dotNumber" | "mcNumber" | "remitTo" | ProfileKey>;
+  label: string;
+  hint: string;
+  type: "number" | "text";
+  step?: number;
+};
+
+// Printed in the invoice header
+const PROFILE_FIELDS: { key: ProfileKey; label: string; wide?: boolean }[] = [
+  { key: "addressLine1", label: "Address", wide: true },
+  { key: "addressLine2", label: "Address line 2", wide: true },
+  { key: "city", label: "City" },
+  { key: "state", label: "State" },
+  { key: "postalCode", label: "ZIP" },
+  { key: "phone", label: "Phone" },
+  { key: "billingEmail", label: "Billing email", wide: true },
+];
+
+const FIELDS: FieldConfig[] = [
+  {
+    key: "defaultDaysToPay",
+    label: "Default days to pay",
+    hint: "Used for invoice due dates when the customer has no terms.",
+    type: "number",
+    step: 1,
+  },
+  {
+    key: "staleCustomerDays",
+    label: "Stale customer threshold (days)",
+    hint: "Customers with no call notes for this long show as stale.",
+    type: "number",
+    step: 1,
+  },
+  {
+    key: "maxMilesPerTruckPerDay",
+    label: "Max miles per truck per day",
+    hint: "Upper bound for the dashboard utilization estimate.",
+    type: "number",
+    step: 1,
+  },
+  {
+    key: "defaultFuelMpg",
+    label: "Default fuel MPG",
+    hint: "Used for fuel cost estimates when a truck has no MPG of its own.",
+    type: "number",
+    step: 0.1,
+  },
+  {
+    key: "defaultTruckFixedCostPerDay",
+    label: "Fixed cost per truck per day ($)",
+    hint: "Insurance, payments, permits; used in profitability.",
+    type: "number",
+    step: 1,
+  },
+  {
+    key: "detentionFreeHours",
+    label: "Detention free time (hours)",
+    hint: "Time on site before detention starts; customers can override it.",
+    type: "number",
+    step: 0.25,
+  },
+  {
+    key: "detentionRatePerHour",
+    label: "Detention rate per hour ($)",
+    hint: "Billed for each hour past free time; customers can override it.",
+    type: "number",
+    step: 1,
+  },
+  {
+    key: "invoiceNumberPrefix",
+    label: "Invoice number prefix",
+    hint: "Put in front of auto-numbered invoices, e.g. INV-1001.",
+    type: "text",
+  },
+  {
+    key: "expandThreshold",
+    label: "Expansion readiness threshold",
+    hint: "Score at which the fleet counts as ready to expand.",
+    type: "number",
+    step: 1,
+  },
+  {
+    key: "defaultCurrency",
+    label: "Currency",
+    hint: "3-letter ISO code, e.g. USD.",
+    type: "text",
+  },
+  {
+    key: "timezone",
+    label: "Timezone",
+    hint: "IANA name, e.g. America/Chicago.",
+    type: "text",
+  },
+];
+
+export default function SettingsPage() {
+  const { data, isLoading, error } = useCompanySettings();
+
+  return (
+    <div className="space-y-4 p-4">
+      <h1 className="text-2xl font-semibold">Company Settings</h1>
+
+      {isLoading && <p className="text-sm text-slate-500">Loading…</p>}
+      {error && (
+        <p className="text-sm text-rose-600">
+          {error instanceof ApiError ? error.message : "Failed to load settings"}
+        </p>
+      )}
+
+      {data && <SettingsForm initial={data} />}
+
+      <EmailTemplatesSection />
+
+      <DunningStepsSection />
+
+      <FuelPricesSection />
+    </div>
+  );
+}
+
+function SettingsForm({ initial }: { initial: CompanySettings }) {
+  const update = useUpdateCompanySettings();
+
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      Object.entries(initial).map(([k, v]) => [k, v == null ? "" : String(v)])
+    )
+  );
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  function setValue(key: string, value: string) {
+    setValues((prev) => ({ ...prev, [key]: value }));
+  }
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setMessage(null);
+    setError(null);
+
+    const settings = Object.fromEntries(
+      FIELDS.map(({ key, type }) => {
+        const raw = values[key]?.trim() ?? "";
+        if (raw === "") return [key, null]; // Blank = fall back to the app default.
+        return [key, type === "number" ? Number(raw) : raw];
+      })
+    );
+
+    try {
+      await update.mutateAsync({
+        name: values.name,
+        dotNumber: values.dotNumber || null,
+        mcNumber: values.mcNumber || null,
+        ...Object.fromEntries(PROFILE_FIELDS.map(({ key }) => [key, values[key]?.trim() || null])),
+        remitTo: values.remitTo?.trim() || null,
+        ...settings,
+      });
+      setMessage("Settings saved");
+    } catch (err) {
+      console.error("[SETTINGS_SAVE_ERROR]", err);
+      setError(err instanceof ApiError ? err.message : "Failed to save settings");
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-2xl space-y-6 rounded-lg border bg-white p-4">
+      <section className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <div className="flex flex-col gap-1 md:col-span-3">
+          <label className="text-xs font-medium text-slate-600">Company name</label>
+          <input
+            type="text"
+            value={values.name ?? ""}
+            onChange={(e) => setValue("name", e.target.value)}
+            className="rounded-md border px-3 py-2 text-sm"
+            required
+          />
+        </div>
+        <div className="flex flex-col gap-1">
+          <label className="text-xs font-medium text-slate-600">DOT number</label>
+          <input
+            type="text"
+            value={values.dotNumber ?? ""}
+            onChange={(e) => setValue("dotNumber", e.target.value)}
+            className="rounded-md border px-3 py-2 text-sm"
+          />
+        </div>
+        <div className="flex flex-col gap-1">
+          <label className="text-xs font-medium text-slate-600">MC number</label>
+          <input
+            type="text"
+            value={values.mcNumber ?? ""}
+            onChange={(e) => setValue("mcNumber", e.target.value)}
+            className="rounded-md border px-3 py-2 text-sm"
+          />
+        </div>
+      </section>
+
+      <section className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        {PROFILE_FIELDS.map((field) => (
+          <div key={field.key} className={`flex flex-col gap-1 ${field.wide ? "md:col-span-3" : ""}`}>
+            <label className="text-xs font-medium text-slate-600">{field.label}</label>
+            <input
+              type={field.key === "billingEmail" ? "email" : "text"}
+              value={values[field.key] ?? ""}
+              onChange={(e) => setValue(field.key, e.target.value)}
+              className="rounded-md border px-3 py-2 text-sm"
+            />
+          </div>
+        ))}
+        <div className="flex flex-col gap-1 md:col-span-3">
+          <label className="text-xs font-medium text-slate-600">Remit to</label>
+          <textarea
+            value={values.remitTo ?? ""}
+            onChange={(e) => setValue("remitTo", e.target.value)}
+            rows={3}
+            className="rounded-md border px-3 py-2 text-sm"
+          />
+          <p className="text-xs text-slate-400">
+            Where customers send payment, e.g. your factoring company. Invoices use the address above when blank.
+          </p>
+        </div>
+      </section>
+
+      <section className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        {FIELDS.map((field) => (
+          <div key={field.key} className="flex flex-col gap-1">
+            <label className="text-xs font-medium text-slate-600">{field.label}</label>
+            <input
+              type={field.type}
+              step={field.step}
+              value={values[field.key] ?? ""}
+              onChange={(e) => setValue(field.key, e.target.value)}
+              className="rounded-md border px-3 py-2 text-sm"
+            />
+            <p className="text-xs text-slate-400">{field.hint}</p>
+          </div>
+        ))}
+      </section>
+
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+      {message && <p className="text-xs text-emerald-600">{message}</p>}
+
+      <button
+        type="submit"
+        disabled={update.isPending}
+        className="rounded-md bg-sky-600 px-3 py-2 text-sm font-medium text-white disabled:opacity-60"
+      >
+        {update.isPending ? "Saving..." : "Save Settings"}
+      </button>
+    </form>
+  );
+}
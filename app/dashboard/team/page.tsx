@@ -0,0 +1,167 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import {
+  useCreateInvitation,
+  useInvitations,
+  useRevokeInvitation,
+  useTeamMembers,
+} from "@/lib/hooks/useInvitations";
+import { ApiError } from "@/lib/api/client";
+import { InvitableRoleSchema, type InvitableRole } from "@/lib/schemas/invitations";
+
+function formatRole(role: string) {
+  return role.replace("_", " ").toLowerCase();
+}
+
+export default function TeamPage() {
+  const members = useTeamMembers();
+  const invitations = useInvitations();
+  const createInvite = useCreateInvitation();
+  const revokeInvite = useRevokeInvitation();
+
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<InvitableRole>("DISPATCHER");
+  const [acceptUrl, setAcceptUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleInvite(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError(null);
+    setAcceptUrl(null);
+
+    try {
+      const invite = await createInvite.mutateAsync({ email, role });
+      setAcceptUrl(invite.acceptUrl);
+      setEmail("");
+    } catch (err) {
+      console.error("[INVITE_CREATE_ERROR]", err);
+      setError(err instanceof ApiError ? err.message : "Failed to send invitation");
+    }
+  }
+
+  const pending = (invitations.data ?? []).filter((i) => i.status === "PENDING");
+
+  return (
+    <div className="space-y-6 p-4">
+      <h1 className="text-2xl font-semibold">Team</h1>
+
+      <form
+        onSubmit={handleInvite}
+        className="flex flex-wrap items-end gap-3 rounded-lg border bg-white p-4"
+      >
+        <div className="flex flex-col gap-1">
+          <label className="text-xs font-medium text-slate-600">Email</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-64 rounded-md border px-3 py-2 text-sm"
+            placeholder="dispatch@acme.com"
+            required
+          />
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label className="text-xs font-medium text-slate-600">Role</label>
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as InvitableRole)}
+            className="rounded-md border px-3 py-2 text-sm"
+          >
+            {InvitableRoleSchema.options.map((r) => (
+              <option key={r} value={r}>
+                {formatRole(r)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <button
+          type="submit"
+          disabled={createInvite.isPending}
+          className="rounded-md bg-sky-600 px-3 py-2 text-sm font-medium text-white disabled:opacity-60"
+        >
+          {createInvite.isPending ? "Sending..." : "Send Invite"}
+        </button>
+
+        {error && <p className="w-full text-xs text-rose-600">{error}</p>}
+        {acceptUrl && (
+          <p className="w-full break-all text-xs text-slate-600">
+            Invitation created. Share this link if the email doesn&apos;t arrive:{" "}
+            <span className="font-mono">{acceptUrl}</span>
+          </p>
+        )}
+      </form>
+
+      <section className="space-y-2">
+        <h2 className="text-sm font-semibold text-slate-700">Members</h2>
+        {members.isLoading && <p className="text-sm text-slate-500">Loading…</p>}
+        {members.data && (
+          <div className="overflow-x-auto rounded-lg border bg-white">
+            <table className="min-w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-4 py-2 text-left">Name</th>
+                  <th className="px-4 py-2 text-left">Email</th>
+                  <th className="px-4 py-2 text-left">Role</th>
+                  <th className="px-4 py-2 text-left">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {members.data.map((m) => (
+                  <tr key={m.id} className="border-t">
+                    <td className="px-4 py-2">{m.fullName ?? "-"}</td>
+                    <td className="px-4 py-2">{m.email}</td>
+                    <td className="px-4 py-2 capitalize">{formatRole(m.role)}</td>
+                    <td className="px-4 py-2">{m.isActive ? "Active" : "Deactivated"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-sm font-semibold text-slate-700">Pending invitations</h2>
+        {invitations.isLoading && <p className="text-sm text-slate-500">Loading…</p>}
+        {!invitations.isLoading && pending.length === 0 && (
+          <p className="text-sm text-slate-500">No pending invitations.</p>
+        )}
+        {pending.length > 0 && (
+          <div className="overflow-x-auto rounded-lg border bg-white">
+            <table className="min-w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-4 py-2 text-left">Email</th>
+                  <th className="px-4 py-2 text-left">Role</th>
+                  <th className="px-4 py-2 text-left">Expires</th>
+                  <th className="px-4 py-2 text-left">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pending.map((i) => (
+                  <tr key={i.id} className="border-t">
+                    <td className="px-4 py-2">{i.email}</td>
+                    <td className="px-4 py-2 capitalize">{formatRole(i.role)}</td>
+                    <td className="px-4 py-2">{new Date(i.expiresAt).toLocaleDateString()}</td>
+                    <td className="px-4 py-2">
+                      <button
+                        onClick={() => revokeInvite.mutate(i.id)}
+                        disabled={revokeInvite.isPending}
+                        className="rounded-md border px-2 py-1 text-xs text-rose-600 disabled:opacity-60"
+                      >
+                        Revoke
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
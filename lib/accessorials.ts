@@ -0,0 +1,84 @@
+import type { Load, LoadAccessorial } from "@prisma/client";               // Charges and the loads they sit on.
+import type { DetentionTerms } from "@/lib/detention";                     // Default detention rate.
+import {
+  ACCESSORIAL_CATALOG,                                                     // Labels, units and default flags per type.
+  type CreateAccessorialInput,
+} from "@/lib/schemas/accessorials";
+
+type Charge = Pick<LoadAccessorial, "type" | "description" | "quantity" | "rate" | "amount">;
+
+export function accessorialAmount(quantity: number, rate: number): number {
+  return Math.round(quantity * rate);
+}
+
+export const ACCESSORIAL_LOAD_SELECT = {                                   // What resolveNewAccessorial reads from the load.
+  id: true,
+  detentionHours: true,
+  layoverDays: true,
+  customer: { select: { detentionFreeHours: true, detentionRatePerHour: true } },
+} as const;
+
+/**
+ * Fills in what the caller left out of a new charge. Detention defaults to the load's
+ * detention hours at the customer's (else the company's) hourly rate, layover to the
+ * load's layover days; the flags come from the catalog. A driver amount is only kept
+ * on charges payable to the driver.
+ */
+export function resolveNewAccessorial(
+  input: CreateAccessorialInput,
+  load: Pick<Load, "detentionHours" | "layoverDays">,
+  terms: DetentionTerms
+) {
+  const catalog = ACCESSORIAL_CATALOG[input.type];
+  const quantity =
+    input.quantity ??
+    (input.type === "DETENTION" ? load.detentionHours : input.type === "LAYOVER" ? load.layoverDays : null) ??
+    1;
+  const rate = input.rate ?? (input.type === "DETENTION" ? terms.ratePerHour : 0);
+  const payableToDriver = input.payableToDriver ?? catalog.payableToDriver;
+
+  return {
+    type: input.type,
+    description: input.description ?? null,
+    quantity,
+    rate,
+    amount: accessorialAmount(quantity, rate),
+    billable: input.billable ?? catalog.billable,
+    payableToDriver,
+    driverAmount: payableToDriver ? (input.driverAmount ?? null) : null,
+  };
+}
+
+/**
+ * What the driver is owed for a charge: the override when set, else the whole amount.
+ * Zero when the charge isn't payable to the driver.
+ */
+export function accessorialDriverPay(
+  charge: Pick<LoadAccessorial, "amount" | "payableToDriver" | "driverAmount">
+): number {
+  if (!charge.payableToDriver) return 0;
+  return charge.driverAmount ?? charge.amount;
+}
+
+/**
+ * Invoice line for one billable charge, or null when it comes to nothing.
+ * Quantity stays 1 because InvoiceLine.quantity is whole units; hours/days go in the description.
+ */
+export function accessorialInvoiceLine(load: Pick<Load, "loadNumber">, charge: Charge) {
+  if (charge.amount <= 0) return null;
+
+  const { label, unit } = ACCESSORIAL_CATALOG[charge.type];
+  const detail =
+    unit === "each" && charge.quantity === 1
+      ? null
+      : `${charge.quantity} ${unit}${charge.quantity === 1 ? "" : "s"} @ $${charge.rate}`;
+
+  return {
+    description:
+      `${charge.description ?? label}${load.loadNumber ? ` — Load ${load.loadNumber}` : ""}` +
+      (detail ? ` (${detail})` : ""),
+    quantity: 1,
+    unitAmount: charge.amount,
+    total: charge.amount,
+  };
+}
@@ -0,0 +1,44 @@
+import { apiRequest } from "./client";
+import {
+  LoadAccessorialListSchema,
+  LoadAccessorialSchema,
+  type CreateAccessorialInput,
+  type LoadAccessorial,
+  type UpdateAccessorialInput,
+} from "@/lib/schemas/accessorials";
+
+function accessorialsPath(loadId: string) {
+  return `/api/loads/${loadId}/accessorials`;
+}
+
+export async function listAccessorials(loadId: string): Promise<LoadAccessorial[]> {
+  const data = await apiRequest<unknown>(accessorialsPath(loadId));
+  return LoadAccessorialListSchema.parse(data);
+}
+
+export async function createAccessorial(
+  loadId: string,
+  input: CreateAccessorialInput
+): Promise<LoadAccessorial> {
+  const data = await apiRequest<unknown>(accessorialsPath(loadId), {
+    method: "POST",
+    body: input,
+  });
+  return LoadAccessorialSchema.parse(data);
+}
+
+export async function updateAccessorial(
+  loadId: string,
+  accessorialId: string,
+  input: UpdateAccessorialInput
+): Promise<LoadAccessorial> {
+  const data = await apiRequest<unknown>(`${accessorialsPath(loadId)}/${accessorialId}`, {
+    method: "PUT",
+    body: input,
+  });
+  return LoadAccessorialSchema.parse(data);
+}
+
+export async function deleteAccessorial(loadId: string, accessorialId: string): Promise<void> {
+  await apiRequest<unknown>(`${accessorialsPath(loadId)}/${accessorialId}`, { method: "DELETE" });
+}
@@ -0,0 +1,17 @@
+import { apiRequest } from "./client";
+import {
+  AuditEventListSchema,
+  type AuditEvent,
+  type AuditQuery,
+} from "@/lib/schemas/audit";
+
+export async function listAuditEvents(query: AuditQuery = {}): Promise<AuditEvent[]> {
+  const params = new URLSearchParams();
+  if (query.entityType) params.set("entityType", query.entityType);
+  if (query.entityId) params.set("entityId", query.entityId);
+  if (query.limit) params.set("limit", String(query.limit));
+
+  const qs = params.toString();
+  const data = await apiRequest<unknown>(`/api/audit${qs ? `?${qs}` : ""}`);
+  return AuditEventListSchema.parse(data);
+}
@@ -0,0 +1,32 @@
+import { apiRequest } from "./client";
+import type { LoginInput, RegisterInput } from "@/lib/schemas/auth";
+
+export type SessionUser = {
+  id: string;
+  email: string;
+  fullName: string | null;
+  role: string;
+  companyId: string;
+};
+
+export async function login(input: LoginInput): Promise<{ user: SessionUser }> {
+  return apiRequest<{ user: SessionUser }>("/api/auth/login", {
+    method: "POST",
+    body: input,
+  });
+}
+
+export async function register(
+  input: RegisterInput
+): Promise<{ user: SessionUser }> {
+  return apiRequest<{ user: SessionUser }>("/api/auth/register", {
+    method: "POST",
+    body: input,
+  });
+}
+
+export async function logout(): Promise<{ success: boolean }> {
+  return apiRequest<{ success: boolean }>("/api/auth/logout", {
+    method: "POST",
+  });
+}
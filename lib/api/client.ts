@@ -1,12 +1,20 @@
 export class ApiError extends Error {
   status: number;
   payload: unknown;
+  code?: string; // machine-readable reason, e.g. "FORBIDDEN"
 
   constructor(message: string, status: number, payload?: unknown) {
     super(message);
     this.name = "ApiError";
     this.status = status;
     this.payload = payload;
+    const code = (payload as { code?: unknown } | null | undefined)?.code;
+    this.code = typeof code === "string" ? code : undefined;
+  }
+
+  // True when the user is signed in but their role doesn't allow the action
+  get isForbidden() {
+    return this.status === 403;
   }
 }
 
@@ -0,0 +1,21 @@
+import { apiRequest } from "./client";
+import {
+  CompanySettingsSchema,
+  type CompanySettings,
+  type UpdateCompanySettingsInput,
+} from "@/lib/schemas/companySettings";
+
+export async function getCompanySettings(): Promise<CompanySettings> {
+  const data = await apiRequest<unknown>("/api/company/settings");
+  return CompanySettingsSchema.parse(data);
+}
+
+export async function updateCompanySettings(
+  input: UpdateCompanySettingsInput
+): Promise<CompanySettings> {
+  const data = await apiRequest<unknown>("/api/company/settings", {
+    method: "PUT",
+    body: input,
+  });
+  return CompanySettingsSchema.parse(data);
+}
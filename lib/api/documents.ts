@@ -4,8 +4,10 @@ import {
   DocumentSchema,
   DocumentWithSignedUrlSchema,
   type Document,
+  type DocumentType,
   type DocumentWithSignedUrl,
 } from "@/lib/schemas/documents";
+import { RateConParseResultSchema, type RateConParseResult } from "@/lib/schemas/loads";
 
 type UpdateDocumentInput = Partial<{
   fileName: string;
@@ -14,6 +16,7 @@ type UpdateDocumentInput = Partial<{
   driverId: string | null;
   truckId: string | null;
   trailerId: string | null;
+  type: DocumentType | null;
 }>;
 
 export async function listDocuments(): Promise<Document[]> {
@@ -50,3 +53,11 @@ export async function deleteDocument(id: string): Promise<{ success: boolean }>
     method: "DELETE",
   });
 }
+
+// Parses an uploaded rate confirmation PDF into an unsaved load draft
+export async function parseRateCon(id: string): Promise<RateConParseResult> {
+  const data = await apiRequest<unknown>(`/api/documents/${id}/rate-con`, {
+    method: "POST",
+  });
+  return RateConParseResultSchema.parse(data);
+}
@@ -0,0 +1,35 @@
+import { apiRequest } from "./client";
+import {
+  DunningStepListSchema,
+  DunningStepSchema,
+  type CreateDunningStepInput,
+  type DunningStep,
+  type UpdateDunningStepInput,
+} from "@/lib/schemas/dunning";
+
+export async function listDunningSteps(): Promise<DunningStep[]> {
+  const data = await apiRequest<unknown>("/api/dunning-steps");
+  return DunningStepListSchema.parse(data);
+}
+
+export async function createDunningStep(input: CreateDunningStepInput): Promise<DunningStep> {
+  const data = await apiRequest<unknown>("/api/dunning-steps", {
+    method: "POST",
+    body: input,
+  });
+  return DunningStepSchema.parse(data);
+}
+
+export async function updateDunningStep(stepId: string, input: UpdateDunningStepInput): Promise<DunningStep> {
+  const data = await apiRequest<unknown>(`/api/dunning-steps/${stepId}`, {
+    method: "PUT",
+    body: input,
+  });
+  return DunningStepSchema.parse(data);
+}
+
+export async function deleteDunningStep(stepId: string): Promise<{ success: boolean }> {
+  return apiRequest<{ success: boolean }>(`/api/dunning-steps/${stepId}`, {
+    method: "DELETE",
+  });
+}
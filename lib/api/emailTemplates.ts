@@ -0,0 +1,38 @@
+import { apiRequest } from "./client";
+import {
+  EmailTemplateListSchema,
+  EmailTemplateSchema,
+  type CreateEmailTemplateInput,
+  type EmailTemplate,
+  type UpdateEmailTemplateInput,
+} from "@/lib/schemas/emailTemplates";
+
+export async function listEmailTemplates(): Promise<EmailTemplate[]> {
+  const data = await apiRequest<unknown>("/api/email-templates");
+  return EmailTemplateListSchema.parse(data);
+}
+
+export async function createEmailTemplate(input: CreateEmailTemplateInput): Promise<EmailTemplate> {
+  const data = await apiRequest<unknown>("/api/email-templates", {
+    method: "POST",
+    body: input,
+  });
+  return EmailTemplateSchema.parse(data);
+}
+
+export async function updateEmailTemplate(
+  templateId: string,
+  input: UpdateEmailTemplateInput
+): Promise<EmailTemplate> {
+  const data = await apiRequest<unknown>(`/api/email-templates/${templateId}`, {
+    method: "PUT",
+    body: input,
+  });
+  return EmailTemplateSchema.parse(data);
+}
+
+export async function deleteEmailTemplate(templateId: string): Promise<{ success: boolean }> {
+  return apiRequest<{ success: boolean }>(`/api/email-templates/${templateId}`, {
+    method: "DELETE",
+  });
+}
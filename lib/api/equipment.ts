@@ -0,0 +1,12 @@
+import { apiRequest } from "./client";
+import {
+  EquipmentAvailabilityResponseSchema,
+  type EquipmentAvailabilityResponse,
+} from "@/lib/schemas/equipment";
+
+// `from` / `to` as YYYY-MM-DD; `to` covers the whole day
+export async function getEquipmentAvailability(from: string, to: string): Promise<EquipmentAvailabilityResponse> {
+  const params = new URLSearchParams({ from, to });
+  const data = await apiRequest<unknown>(`/api/equipment/availability?${params.toString()}`);
+  return EquipmentAvailabilityResponseSchema.parse(data);
+}
@@ -0,0 +1,49 @@
+import { apiRequest } from "./client";
+import {
+  FuelEstimateSchema,
+  FuelPriceListSchema,
+  FuelPriceSchema,
+  ImportFuelPricesResultSchema,
+  type FuelEstimate,
+  type FuelEstimateQuery,
+  type FuelPrice,
+  type ImportFuelPricesInput,
+  type ImportFuelPricesResult,
+  type UpsertFuelPriceInput,
+} from "@/lib/schemas/fuelPrices";
+
+export async function listFuelPrices(): Promise<FuelPrice[]> {
+  const data = await apiRequest<unknown>("/api/fuel-prices");
+  return FuelPriceListSchema.parse(data);
+}
+
+export async function upsertFuelPrice(input: UpsertFuelPriceInput): Promise<FuelPrice> {
+  const data = await apiRequest<unknown>("/api/fuel-prices", {
+    method: "POST",
+    body: input,
+  });
+  return FuelPriceSchema.parse(data);
+}
+
+export async function importFuelPrices(input: ImportFuelPricesInput): Promise<ImportFuelPricesResult> {
+  const data = await apiRequest<unknown>("/api/fuel-prices/import", {
+    method: "POST",
+    body: input,
+  });
+  return ImportFuelPricesResultSchema.parse(data);
+}
+
+export async function deleteFuelPrice(id: string): Promise<{ success: boolean }> {
+  return apiRequest<{ success: boolean }>(`/api/fuel-prices/${id}`, {
+    method: "DELETE",
+  });
+}
+
+export async function estimateFuel(query: FuelEstimateQuery): Promise<FuelEstimate> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value != null && value !== "") params.set(key, String(value));
+  }
+  const data = await apiRequest<unknown>(`/api/fuel-estimate?${params.toString()}`);
+  return FuelEstimateSchema.parse(data);
+}
@@ -0,0 +1,53 @@
+import { apiRequest } from "./client";
+import {
+  FuelSurchargeScheduleListSchema,
+  FuelSurchargeScheduleSchema,
+  LoadFuelSurchargeSchema,
+  type CreateFuelSurchargeScheduleInput,
+  type FuelSurchargeSchedule,
+  type LoadFuelSurcharge,
+  type UpdateFuelSurchargeScheduleInput,
+} from "@/lib/schemas/fuelSurcharge";
+
+export async function listFuelSurchargeSchedules(customerId: string): Promise<FuelSurchargeSchedule[]> {
+  const data = await apiRequest<unknown>(`/api/customers/${customerId}/fuel-surcharge-schedules`);
+  return FuelSurchargeScheduleListSchema.parse(data);
+}
+
+export async function createFuelSurchargeSchedule(
+  customerId: string,
+  input: CreateFuelSurchargeScheduleInput
+): Promise<FuelSurchargeSchedule> {
+  const data = await apiRequest<unknown>(`/api/customers/${customerId}/fuel-surcharge-schedules`, {
+    method: "POST",
+    body: input,
+  });
+  return FuelSurchargeScheduleSchema.parse(data);
+}
+
+export async function updateFuelSurchargeSchedule(
+  customerId: string,
+  scheduleId: string,
+  input: UpdateFuelSurchargeScheduleInput
+): Promise<FuelSurchargeSchedule> {
+  const data = await apiRequest<unknown>(
+    `/api/customers/${customerId}/fuel-surcharge-schedules/${scheduleId}`,
+    { method: "PUT", body: input }
+  );
+  return FuelSurchargeScheduleSchema.parse(data);
+}
+
+export async function deleteFuelSurchargeSchedule(
+  customerId: string,
+  scheduleId: string
+): Promise<{ success: boolean }> {
+  return apiRequest<{ success: boolean }>(
+    `/api/customers/${customerId}/fuel-surcharge-schedules/${scheduleId}`,
+    { method: "DELETE" }
+  );
+}
+
+export async function getLoadFuelSurcharge(loadId: string): Promise<LoadFuelSurcharge> {
+  const data = await apiRequest<unknown>(`/api/loads/${loadId}/fuel-surcharge`);
+  return LoadFuelSurchargeSchema.parse(data);
+}
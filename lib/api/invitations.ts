@@ -0,0 +1,56 @@
+import { apiRequest } from "./client";
+import type { SessionUser } from "./auth";
+import {
+  CreatedInvitationSchema,
+  InvitationListSchema,
+  InvitationPreviewSchema,
+  TeamMemberListSchema,
+  type AcceptInvitationInput,
+  type CreateInvitationInput,
+  type CreatedInvitation,
+  type Invitation,
+  type InvitationPreview,
+  type TeamMember,
+} from "@/lib/schemas/invitations";
+
+export async function listTeamMembers(): Promise<TeamMember[]> {
+  const data = await apiRequest<unknown>("/api/users");
+  return TeamMemberListSchema.parse(data);
+}
+
+export async function listInvitations(): Promise<Invitation[]> {
+  const data = await apiRequest<unknown>("/api/invitations");
+  return InvitationListSchema.parse(data);
+}
+
+export async function createInvitation(
+  input: CreateInvitationInput
+): Promise<CreatedInvitation> {
+  const data = await apiRequest<unknown>("/api/invitations", {
+    method: "POST",
+    body: input,
+  });
+  return CreatedInvitationSchema.parse(data);
+}
+
+export async function revokeInvitation(id: string): Promise<{ success: boolean }> {
+  return apiRequest<{ success: boolean }>(`/api/invitations/${id}`, {
+    method: "DELETE",
+  });
+}
+
+export async function getInvitationPreview(token: string): Promise<InvitationPreview> {
+  const data = await apiRequest<unknown>(
+    `/api/invitations/accept?token=${encodeURIComponent(token)}`
+  );
+  return InvitationPreviewSchema.parse(data);
+}
+
+export async function acceptInvitation(
+  input: AcceptInvitationInput
+): Promise<{ user: SessionUser }> {
+  return apiRequest<{ user: SessionUser }>("/api/invitations/accept", {
+    method: "POST",
+    body: input,
+  });
+}
@@ -0,0 +1,25 @@
+import { apiRequest } from "./client";
+import { EmailLogSchema, type EmailLog } from "@/lib/schemas/emailTemplates";
+import {
+  InvoiceSummarySchema,
+  type InvoiceFromLoadsInput,
+  type InvoiceSummary,
+  type SendInvoiceInput,
+} from "@/lib/schemas/invoices";
+
+export async function createInvoiceFromLoads(input: InvoiceFromLoadsInput): Promise<InvoiceSummary> {
+  const data = await apiRequest<unknown>("/api/invoices/from-loads", {
+    method: "POST",
+    body: input,
+  });
+  return InvoiceSummarySchema.parse(data);
+}
+
+// Resolves once the email is sent or queued for a retry (check `status`)
+export async function sendInvoice(invoiceId: string, input: SendInvoiceInput = {}): Promise<EmailLog> {
+  const data = await apiRequest<unknown>(`/api/invoices/${invoiceId}/send`, {
+    method: "POST",
+    body: input,
+  });
+  return EmailLogSchema.parse(data);
+}
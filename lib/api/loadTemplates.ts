@@ -0,0 +1,47 @@
+import { apiRequest } from "./client";
+import {
+  LoadTemplateListSchema,
+  LoadTemplateSchema,
+  type CreateLoadTemplateInput,
+  type DuplicateLoadInput,
+  type LoadTemplate,
+  type UpdateLoadTemplateInput,
+} from "@/lib/schemas/loadTemplates";
+
+export async function listLoadTemplates(): Promise<LoadTemplate[]> {
+  const data = await apiRequest<unknown>("/api/load-templates");
+  return LoadTemplateListSchema.parse(data);
+}
+
+export async function createLoadTemplate(input: CreateLoadTemplateInput): Promise<LoadTemplate> {
+  const data = await apiRequest<unknown>("/api/load-templates", {
+    method: "POST",
+    body: input,
+  });
+  return LoadTemplateSchema.parse(data);
+}
+
+export async function updateLoadTemplate(
+  templateId: string,
+  input: UpdateLoadTemplateInput
+): Promise<LoadTemplate> {
+  const data = await apiRequest<unknown>(`/api/load-templates/${templateId}`, {
+    method: "PUT",
+    body: input,
+  });
+  return LoadTemplateSchema.parse(data);
+}
+
+export async function deleteLoadTemplate(templateId: string): Promise<{ success: boolean }> {
+  return apiRequest<{ success: boolean }>(`/api/load-templates/${templateId}`, {
+    method: "DELETE",
+  });
+}
+
+// Returns the new DRAFT load's id
+export async function duplicateLoad(loadId: string, input: DuplicateLoadInput = {}): Promise<{ id: string }> {
+  return apiRequest<{ id: string }>(`/api/loads/${loadId}/duplicate`, {
+    method: "POST",
+    body: input,
+  });
+}
@@ -0,0 +1,32 @@
+import { apiRequest } from "./client";
+import {
+  LoadSummarySchema,
+  LoadTransitionResultSchema,
+  type LoadSummary,
+  type LoadTransitionInput,
+  type LoadTransitionResult,
+  type UpdateLoadFinancialsInput,
+} from "@/lib/schemas/loads";
+
+export async function updateLoad(
+  loadId: string,
+  input: UpdateLoadFinancialsInput
+): Promise<LoadSummary> {
+  const data = await apiRequest<unknown>(`/api/loads/${loadId}`, {
+    method: "PUT",
+    body: input,
+  });
+  return LoadSummarySchema.parse(data);
+}
+
+// 409 (illegal move) / 422 (missing truck or TONU reason) come back as ApiError with `allowed` in the payload
+export async function transitionLoad(
+  loadId: string,
+  input: LoadTransitionInput
+): Promise<LoadTransitionResult> {
+  const data = await apiRequest<unknown>(`/api/loads/${loadId}/transition`, {
+    method: "POST",
+    body: input,
+  });
+  return LoadTransitionResultSchema.parse(data);
+}
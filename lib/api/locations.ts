@@ -0,0 +1,7 @@
+import { apiRequest } from "./client";
+import { LocationListSchema, type Location } from "@/lib/schemas/locations";
+
+export async function listLocations(): Promise<Location[]> {
+  const data = await apiRequest<unknown>("/api/locations");
+  return LocationListSchema.parse(data);
+}
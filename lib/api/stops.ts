@@ -0,0 +1,63 @@
+import { apiRequest } from "./client";
+import {
+  LoadStopListSchema,
+  LoadStopSchema,
+  type CreateStopInput,
+  type LoadStop,
+  type StopCheckInput,
+  type UpdateStopInput,
+} from "@/lib/schemas/stops";
+
+function stopsPath(loadId: string) {
+  return `/api/loads/${loadId}/stops`;
+}
+
+export async function listStops(loadId: string): Promise<LoadStop[]> {
+  const data = await apiRequest<unknown>(stopsPath(loadId));
+  return LoadStopListSchema.parse(data);
+}
+
+export async function createStop(loadId: string, input: CreateStopInput): Promise<LoadStop> {
+  const data = await apiRequest<unknown>(stopsPath(loadId), {
+    method: "POST",
+    body: input,
+  });
+  return LoadStopSchema.parse(data);
+}
+
+export async function updateStop(
+  loadId: string,
+  stopId: string,
+  input: UpdateStopInput
+): Promise<LoadStop> {
+  const data = await apiRequest<unknown>(`${stopsPath(loadId)}/${stopId}`, {
+    method: "PUT",
+    body: input,
+  });
+  return LoadStopSchema.parse(data);
+}
+
+export async function deleteStop(loadId: string, stopId: string): Promise<void> {
+  await apiRequest<unknown>(`${stopsPath(loadId)}/${stopId}`, { method: "DELETE" });
+}
+
+export async function reorderStops(loadId: string, stopIds: string[]): Promise<LoadStop[]> {
+  const data = await apiRequest<unknown>(stopsPath(loadId), {
+    method: "PUT",
+    body: { stopIds },
+  });
+  return LoadStopListSchema.parse(data);
+}
+
+export async function checkStop(
+  loadId: string,
+  stopId: string,
+  kind: "check-in" | "check-out",
+  input: StopCheckInput = {}
+): Promise<LoadStop> {
+  const data = await apiRequest<unknown>(`${stopsPath(loadId)}/${stopId}/${kind}`, {
+    method: "POST",
+    body: input,
+  });
+  return LoadStopSchema.parse(data);
+}
@@ -0,0 +1,252 @@
+import { AsyncLocalStorage } from "node:async_hooks";                        // Which transaction the current write belongs to.
+import type { AuditAction, Prisma } from "@prisma/client";                    // Enum + JSON/model types for AuditEvent rows.
+import type { ITXClientDenyList } from "@prisma/client/runtime/library";     // Client methods a transaction doesn't have.
+import { db } from "@/lib/db";                                               // Base client; audit rows are written outside the caller's scope.
+import { scopedDb } from "@/lib/scopedDb";                                   // Tenant-pinned client the audited client builds on.
+import type { Resource } from "@/lib/permissions";                           // Maps entity types to the permission that guards their history.
+
+/**
+ * Models whose create/update/delete calls are recorded as AuditEvents.
+ * Keys are Prisma model names; values are the delegate names on the client.
+ */
+const AUDITED_MODELS = {
+  Load: "load",
+  LoadStop: "loadStop",
+  LoadAccessorial: "loadAccessorial",
+  LoadTemplate: "loadTemplate",
+  Invoice: "invoice",
+  Payment: "payment",
+  Expense: "expense",
+  Customer: "customer",
+  FuelSurchargeSchedule: "fuelSurchargeSchedule",
+  Truck: "truck",
+  Trailer: "trailer",
+  Driver: "driver",
+  Task: "task",
+  EmailTemplate: "emailTemplate",
+  DunningStep: "dunningStep",
+} as const;
+
+export type AuditEntityType = keyof typeof AUDITED_MODELS;
+
+export const AUDIT_ENTITY_TYPES = Object.keys(AUDITED_MODELS) as AuditEntityType[];
+
+/**
+ * Resource whose `:read` permission is needed to see an entity's history.
+ * Anyone who can read the row can read who changed it.
+ */
+export const AUDIT_RESOURCES: Record<AuditEntityType, Resource> = {
+  Load: "loads",
+  LoadStop: "stops",
+  LoadAccessorial: "loads",
+  LoadTemplate: "loads",
+  Invoice: "invoices",
+  Payment: "payments",
+  Expense: "expenses",
+  Customer: "customers",
+  FuelSurchargeSchedule: "customers",
+  Truck: "trucks",
+  Trailer: "trailers",
+  Driver: "drivers",
+  Task: "tasks",
+  EmailTemplate: "company",
+  DunningStep: "company",
+};
+
+export function isAuditEntityType(value: string): value is AuditEntityType {
+  return value in AUDITED_MODELS;
+}
+
+const IGNORED_FIELDS = new Set(["updatedAt"]);                                 // Noise: changes on every write.
+
+const SOFT_DELETE_MARKERS: Partial<Record<AuditEntityType, string>> = {       // Updates flipping these columns are logged as DELETE.
+  Load: "isSoftDeleted",
+  Customer: "deletedAt",
+};
+
+type Row = Record<string, unknown> & { id: string };
+
+type Delegate = {                                                              // Minimal shape we need from any model delegate.
+  findFirst(args: unknown): Promise<Row | null>;
+  findMany(args: unknown): Promise<Row[]>;
+};
+
+type TransactionClient = Record<string, Delegate> & {
+  auditEvent: { createMany(args: { data: Prisma.AuditEventCreateManyInput[] }): Promise<unknown> };
+};
+
+const activeTransaction = new AsyncLocalStorage<TransactionClient>();         // Set by auditedTransaction for the callback's duration.
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+function toJson(row: Row | null | undefined) {                                 // Dates → ISO strings so the row fits a Json column.
+  return row ? (JSON.parse(JSON.stringify(row)) as Prisma.InputJsonObject) : undefined;
+}
+
+export function diffRows(before: Row | null, after: Row | null): AuditChanges { // Field-level before/after for changed columns only.
+  const b = (toJson(before) ?? {}) as Record<string, unknown>;
+  const a = (toJson(after) ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  for (const key of new Set([...Object.keys(b), ...Object.keys(a)])) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    if (JSON.stringify(b[key]) === JSON.stringify(a[key])) continue;
+    changes[key] = { from: b[key] ?? null, to: a[key] ?? null };
+  }
+
+  return changes;
+}
+
+function actionFor(type: AuditEntityType, fallback: AuditAction, changes: AuditChanges): AuditAction {
+  const marker = SOFT_DELETE_MARKERS[type];
+  if (fallback === "UPDATE" && marker && changes[marker] && !changes[marker].from) {
+    return "DELETE";                                                           // Soft delete shows up as a delete in the timeline.
+  }
+  return fallback;
+}
+
+export type AuditActor = {
+  companyId: string;
+  userId: string | null;                                                       // null for system jobs (imports, schedulers).
+};
+
+/**
+ * Tenant-scoped client that also records an AuditEvent for every write on an audited model.
+ * Use it for mutations in route handlers; reads go through `scopedDb`.
+ * Audit failures are logged but never fail the caller's write (see auditedTransaction for
+ * the exception).
+ */
+export function auditedDb(actor: AuditActor) {
+  const scoped = scopedDb(actor.companyId);
+  const snapshots = scopedDb(actor.companyId, { includeDeleted: true });      // "before" must see soft-deleted rows too.
+
+  function delegateFor(type: AuditEntityType): Delegate {
+    const tx = activeTransaction.getStore();
+    if (!tx) return snapshots[AUDITED_MODELS[type]] as unknown as Delegate;
+
+    const delegate = tx[AUDITED_MODELS[type]];                                 // Inside a transaction, snapshots must see its uncommitted writes.
+    const marker = SOFT_DELETE_MARKERS[type];
+    if (!marker) return delegate;
+    const withDeleted = (where: unknown) => ({ AND: [where ?? {}], [marker]: undefined }); // Naming the column turns off scopedDb's "not deleted" filter.
+    return {
+      findFirst: (args) => delegate.findFirst({ where: withDeleted((args as { where?: unknown }).where) }),
+      findMany: (args) => delegate.findMany({ where: withDeleted((args as { where?: unknown }).where) }),
+    };
+  }
+
+  async function record(
+    type: AuditEntityType,
+    action: AuditAction,
+    pairs: { before: Row | null; after: Row | null }[]
+  ) {
+    const events = pairs
+      .map(({ before, after }) => {
+        const changes = diffRows(before, after);
+        const entityId = (after ?? before)?.id;
+        if (!entityId) return null;
+        if (action === "UPDATE" && Object.keys(changes).length === 0) return null; // No-op saves aren't history.
+        return {
+          companyId: actor.companyId,
+          actorUserId: actor.userId,
+          entityType: type,
+          entityId,
+          action: actionFor(type, action, changes),
+          before: toJson(before),
+          after: toJson(after),
+          changes: action === "UPDATE" ? (changes as Prisma.InputJsonObject) : undefined,
+        };
+      })
+      .filter((e): e is NonNullable<typeof e> => e !== null);
+
+    if (events.length === 0) return;
+
+    const tx = activeTransaction.getStore();
+    if (tx) {
+      await tx.auditEvent.createMany({ data: events });                        // Commits or rolls back with the writes it describes.
+      return;
+    }
+    try {
+      await db.auditEvent.createMany({ data: events });
+    } catch (err) {
+      console.error("[AUDIT_WRITE_ERROR]", err);
+    }
+  }
+
+  return scoped.$extends({
+    name: "audit",
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          if (!(model in AUDITED_MODELS)) return query(args);
+          const type = model as AuditEntityType;
+          const where = (args as { where?: unknown }).where;
+
+          switch (operation) {
+            case "create": {
+              const after = (await query(args)) as Row;
+              await record(type, "CREATE", [{ before: null, after }]);
+              return after;
+            }
+            case "createManyAndReturn": {
+              const rows = (await query(args)) as Row[];
+              await record(type, "CREATE", rows.map((after) => ({ before: null, after })));
+              return rows;
+            }
+            case "update":
+            case "upsert":
+            case "delete": {
+              const before = await delegateFor(type).findFirst({ where });
+              const result = (await query(args)) as Row;
+              const action: AuditAction =
+                operation === "delete" ? "DELETE" : before ? "UPDATE" : "CREATE";
+              await record(type, action, [
+                { before, after: operation === "delete" ? null : result },
+              ]);
+              return result;
+            }
+            case "updateMany":
+            case "deleteMany": {
+              const befores = await delegateFor(type).findMany({ where });
+              const result = await query(args);
+              if (operation === "deleteMany") {
+                await record(type, "DELETE", befores.map((before) => ({ before, after: null })));
+              } else {
+                const afters = await delegateFor(type).findMany({
+                  where: { id: { in: befores.map((r) => r.id) } },
+                });
+                const byId = new Map(afters.map((r) => [r.id, r]));
+                await record(
+                  type,
+                  "UPDATE",
+                  befores.map((before) => ({ before, after: byId.get(before.id) ?? null }))
+                );
+              }
+              return result;
+            }
+            default:
+              return query(args);                                              // Reads and createMany (no ids returned) pass straight through.
+          }
+        },
+      },
+    },
+  });
+}
+
+export type AuditedDb = ReturnType<typeof auditedDb>;
+
+/**
+ * An audited client inside auditedTransaction, or the client itself. Helpers that only
+ * write take this so they can run either way.
+ */
+export type AuditedTx = Omit<AuditedDb, ITXClientDenyList>;
+
+/**
+ * Runs `fn` in one database transaction on the audited client: its writes and their
+ * AuditEvents commit together or not at all. Use the `tx` it's given for every write
+ * inside. Unlike a standalone write, a failed audit insert fails the transaction.
+ */
+export function auditedTransaction<T>(audited: AuditedDb, fn: (tx: AuditedTx) => Promise<T>): Promise<T> {
+  return audited.$transaction((tx) =>
+    activeTransaction.run(tx as unknown as TransactionClient, () => fn(tx))
+  );
+}
@@ -1,29 +1,165 @@
-import { db } from "@/lib/db"; // Reuses the shared Prisma client to query User/Company.
-
-export async function requireDemoUser() { // Single place to resolve demo user (until real auth exists).
-  const email = "demo@demo.com"; // Fixed demo email so all routes share the same identity.
-
-  let user = await db.user.findFirst({ where: { email } }); // Try to find the demo user in the DB.
-  if (!user) { // If the user doesn’t exist, we create it so APIs always work.
-    // Ensure a company exists too (because your schema now requires companyId on User).
-    const company = await db.company.create({
-      data: { name: "Demo Company" }, // Minimal required fields for Company.
-    });
-
-    user = await db.user.create({
-      data: {
-        email, // Demo login identifier.
-        passwordHash: "placeholder", // Placeholder until real auth.
-        companyId: company.id, // REQUIRED: user must belong to a company in the new schema.
-      },
-    });
+import { NextRequest, NextResponse } from "next/server";                     // Request/response helpers so routes can read + set the session cookie.
+import { cookies } from "next/headers";                                        // Cookie store for server components (no NextRequest available there).
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";     // Node crypto primitives for password hashing and session tokens.
+import { promisify } from "util";                                              // Turns callback-style scrypt into an awaitable function.
+import { db } from "@/lib/db";                                                 // Shared Prisma client to read/write User, Company and Session rows.
+import { can, type Permission } from "@/lib/permissions";                      // Role → permission matrix.
+
+const scryptAsync = promisify(scrypt) as (                                     // Typed async wrapper around crypto.scrypt.
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+export const SESSION_COOKIE = "fc_session";                                    // Name of the HTTP-only cookie that carries the session token.
+const SESSION_TTL_DAYS = 30;                                                   // How long a login stays valid before the user must sign in again.
+const PASSWORD_KEY_LENGTH = 64;                                                // Derived key length (bytes) for scrypt password hashes.
+
+/**
+ * Thrown when a request has no valid session.
+ * Route handlers turn it into a 401 via `authErrorResponse`.
+ */
+export class UnauthorizedError extends Error {
+  status = 401;                                                                // HTTP status the route should respond with.
+
+  constructor(message = "Not authenticated") {
+    super(message);
+    this.name = "UnauthorizedError";
   }
+}
+
+/**
+ * Thrown when the signed-in user's role lacks a permission.
+ * Route handlers turn it into a 403 via `authErrorResponse`.
+ */
+export class ForbiddenError extends Error {
+  status = 403;                                                                // HTTP status the route should respond with.
 
-  // If user exists but company was deleted or missing, this would throw later — guard it now.
-  const company = await db.company.findUnique({ where: { id: user.companyId } }); // Load company for scoping.
-  if (!company) {
-    throw new Error("Demo company not found for demo user"); // Hard fail so we don’t create orphaned data.
+  constructor(public permission: Permission, public role: string) {
+    super("You don't have permission to perform this action");
+    this.name = "ForbiddenError";
   }
+}
+
+/* ------------------ passwords ------------------ */
+
+export async function hashPassword(password: string) {                        // Hashes a plain-text password for storage in User.passwordHash.
+  const salt = randomBytes(16).toString("hex");                                // Per-user random salt so equal passwords hash differently.
+  const derived = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);      // Memory-hard key derivation.
+  return `scrypt$${salt}$${derived.toString("hex")}`;                          // Self-describing format: algorithm$salt$hash.
+}
+
+export async function verifyPassword(password: string, stored: string) {      // Checks a login attempt against a stored hash.
+  const [algorithm, salt, hash] = stored.split("$");                           // Splits the self-describing format back apart.
+  if (algorithm !== "scrypt" || !salt || !hash) return false;                  // Legacy placeholder hashes can never match.
+
+  const expected = Buffer.from(hash, "hex");                                   // Stored derived key as bytes.
+  const derived = await scryptAsync(password, salt, expected.length);          // Re-derive with the same salt + length.
+  return expected.length === derived.length && timingSafeEqual(expected, derived); // Constant-time compare avoids timing leaks.
+}
+
+/* ------------------ sessions ------------------ */
+
+export function hashToken(token: string) {                                     // Only a hash of the token is stored, so a DB leak can't hijack sessions.
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateToken() {                                              // Unguessable opaque token (sessions, invitation links).
+  return randomBytes(32).toString("base64url");
+}
+
+export async function createSession(userId: string) {                         // Starts a new login session for a user.
+  const token = generateToken();                                               // Opaque token sent to the browser.
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 86_400_000);      // Absolute expiry for both cookie and DB row.
+
+  await db.session.create({
+    data: { userId, tokenHash: hashToken(token), expiresAt },                  // Persist the hashed token so logout can revoke it.
+  });
+
+  return { token, expiresAt };
+}
 
-  return { user, company }; // Standard return shape to keep routes consistent.
+export async function destroySession(token: string) {                         // Revokes a session (logout).
+  await db.session.deleteMany({ where: { tokenHash: hashToken(token) } });     // deleteMany so an unknown token is a no-op instead of an error.
+}
+
+export function setSessionCookie(res: NextResponse, token: string, expiresAt: Date) { // Attaches the session cookie to a response.
+  res.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,                                                            // Not readable from client-side JS.
+    secure: process.env.NODE_ENV === "production",                             // HTTPS-only outside local dev.
+    sameSite: "lax",                                                           // Sent on top-level navigations, blocked on cross-site POSTs.
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(res: NextResponse) {                       // Removes the session cookie from the browser.
+  res.cookies.set(SESSION_COOKIE, "", { httpOnly: true, path: "/", maxAge: 0 });
+}
+
+export async function readSessionToken(req?: NextRequest) {                   // Reads the raw token from the request (routes) or cookie store (pages).
+  if (req) return req.cookies.get(SESSION_COOKIE)?.value ?? null;
+  const store = await cookies();
+  return store.get(SESSION_COOKIE)?.value ?? null;
+}
+
+/**
+ * Resolves the signed-in user + company, or null when there is no valid session.
+ * Use this where "not signed in" is a normal state (e.g. layouts that redirect).
+ */
+export async function getSessionTenant(req?: NextRequest) {
+  const token = await readSessionToken(req);                                   // Raw cookie value (may be missing).
+  if (!token) return null;
+
+  const session = await db.session.findUnique({                                // Look up the session by its hashed token.
+    where: { tokenHash: hashToken(token) },
+    include: { user: { include: { company: true } } },                         // Pull user + company in one round trip.
+  });
+
+  if (!session || session.expiresAt < new Date()) return null;                 // Unknown or expired sessions are treated as signed out.
+  if (!session.user.isActive) return null;                                     // Deactivated users lose access immediately.
+
+  const { company, ...user } = session.user;                                   // Split so callers get the familiar { user, company } shape.
+  return { user, company };
+}
+
+/**
+ * Tenant helper every API route uses.
+ * Returns { user, company } for the signed-in user, or throws UnauthorizedError.
+ */
+export async function getCurrentTenant(req?: NextRequest) {
+  const tenant = await getSessionTenant(req);
+  if (!tenant) throw new UnauthorizedError();
+  return tenant;
+}
+
+export type Tenant = Awaited<ReturnType<typeof getCurrentTenant>>;             // { user, company } as returned above.
+
+/**
+ * Same as getCurrentTenant, but also checks the user's role.
+ * Throws ForbiddenError when the role doesn't grant `permission`.
+ */
+export async function requirePermission(req: NextRequest | undefined, permission: Permission) {
+  const tenant = await getCurrentTenant(req);
+  if (!can(tenant.user.role, permission)) {
+    throw new ForbiddenError(permission, tenant.user.role);
+  }
+  return tenant;
+}
+
+/**
+ * Maps auth errors thrown inside a route to a JSON response.
+ * Returns null for any other error so the route's own 500 handling runs.
+ */
+export function authErrorResponse(err: unknown) {
+  if (err instanceof UnauthorizedError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+  if (err instanceof ForbiddenError) {                                         // Same shape for every route so the client can rely on `code`.
+    return NextResponse.json(
+      { error: err.message, code: "FORBIDDEN", permission: err.permission, role: err.role },
+      { status: err.status }
+    );
+  }
+  return null;
 }
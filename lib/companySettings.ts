@@ -0,0 +1,65 @@
+import type { Company } from "@prisma/client";
+
+/**
+ * Fallbacks for every Company setting.
+ * Columns are nullable so existing companies keep working; callers should
+ * always go through `resolveCompanySettings` instead of reading them raw.
+ */
+export const COMPANY_SETTING_DEFAULTS = {
+  defaultDaysToPay: 30,
+  expandThreshold: 25, // Same bar as the STRONG fleet-utilization tier (0–25 scale).
+  defaultCurrency: "USD",
+  defaultFuelMpg: 6.5,
+  defaultTruckFixedCostPerDay: 0,
+  timezone: "America/Chicago",
+  maxMilesPerTruckPerDay: 600,
+  staleCustomerDays: 14,
+  detentionFreeHours: 2, // Industry-standard free time at a shipper/receiver.
+  detentionRatePerHour: 50,
+  invoiceNumberPrefix: "INV-",
+} as const;
+
+export type CompanySettings = {
+  defaultDaysToPay: number;
+  expandThreshold: number;
+  defaultCurrency: string;
+  defaultFuelMpg: number;
+  defaultTruckFixedCostPerDay: number;
+  timezone: string;
+  maxMilesPerTruckPerDay: number;
+  staleCustomerDays: number;
+  detentionFreeHours: number;
+  detentionRatePerHour: number;
+  invoiceNumberPrefix: string;
+};
+
+type CompanySettingsSource = Pick<Company, keyof CompanySettings>;
+
+export function resolveCompanySettings(company: CompanySettingsSource): CompanySettings {
+  const d = COMPANY_SETTING_DEFAULTS;
+  return {
+    defaultDaysToPay: company.defaultDaysToPay ?? d.defaultDaysToPay,
+    expandThreshold: company.expandThreshold ?? d.expandThreshold,
+    defaultCurrency: company.defaultCurrency ?? d.defaultCurrency,
+    defaultFuelMpg: company.defaultFuelMpg ?? d.defaultFuelMpg,
+    defaultTruckFixedCostPerDay: company.defaultTruckFixedCostPerDay ?? d.defaultTruckFixedCostPerDay,
+    timezone: company.timezone ?? d.timezone,
+    maxMilesPerTruckPerDay: company.maxMilesPerTruckPerDay ?? d.maxMilesPerTruckPerDay,
+    staleCustomerDays: company.staleCustomerDays ?? d.staleCustomerDays,
+    detentionFreeHours: company.detentionFreeHours ?? d.detentionFreeHours,
+    detentionRatePerHour: company.detentionRatePerHour ?? d.detentionRatePerHour,
+    invoiceNumberPrefix: company.invoiceNumberPrefix ?? d.invoiceNumberPrefix,
+  };
+}
+
+// Due date = issue date + payment terms. Customer terms win over the company default.
+export function defaultDueDate(
+  issueDate: Date,
+  settings: Pick<CompanySettings, "defaultDaysToPay">,
+  customerDaysToPay?: number | null
+) {
+  const days = customerDaysToPay ?? settings.defaultDaysToPay;
+  const due = new Date(issueDate);
+  due.setDate(due.getDate() + days);
+  return due;
+}
@@ -0,0 +1,11 @@
+import type { NextRequest } from "next/server";                            // Incoming scheduler request.
+
+/**
+ * Scheduled jobs (Vercel Cron or any external scheduler) call /api/cron/* with
+ * `Authorization: Bearer $CRON_SECRET`. Without the env var every call is refused.
+ */
+export function isAuthorizedCronRequest(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  return req.headers.get("authorization") === `Bearer ${secret}`;
+}
@@ -0,0 +1,90 @@
+import type { Load, LoadStop } from "@prisma/client";                       // Loads and the stops deadhead runs between.
+import { estimatePlaceMiles } from "@/lib/mileage";                       // Offline distance between the two stops.
+import type { ScopedDb } from "@/lib/scopedDb";                           // Tenant-scoped reads.
+
+type StopPlace = Pick<LoadStop, "id" | "locationId" | "name" | "city" | "state" | "postalCode">;
+
+export type DeadheadSuggestion = {
+  previousLoadId: string;
+  from: StopPlace;                                                         // Final delivery of the truck's previous load.
+  to: StopPlace | null;                                                    // First pickup of this load, when it has one.
+  miles: number | null;                                                    // Null when either stop can't be located.
+};
+
+const PLACE_SELECT = {
+  id: true,
+  locationId: true,
+  name: true,
+  city: true,
+  state: true,
+  postalCode: true,
+} as const;
+
+const NOT_RUN = ["DRAFT", "CANCELLED", "TONU"] as const;                   // Loads that never moved the truck.
+
+function samePlace(a: StopPlace, b: StopPlace) {
+  if (a.locationId && a.locationId === b.locationId) return true;
+  if (a.postalCode && b.postalCode) return a.postalCode.slice(0, 5) === b.postalCode.slice(0, 5);
+  return Boolean(
+    a.city &&
+      a.state &&
+      a.city.trim().toLowerCase() === b.city?.trim().toLowerCase() &&
+      a.state.trim().toLowerCase() === b.state?.trim().toLowerCase()
+  );
+}
+
+/**
+ * Empty miles from where the truck last delivered to this load's first pickup.
+ * The previous load is the same truck's latest run that picked up before this one
+ * (or was created before it, when pickup dates are missing). Null when the load has
+ * no truck or the truck has no earlier delivery on record.
+ */
+export async function suggestDeadhead(
+  tdb: ScopedDb,
+  load: Pick<Load, "id" | "truckId" | "pickupDate" | "createdAt">
+): Promise<DeadheadSuggestion | null> {
+  if (!load.truckId) return null;
+
+  const previous = await tdb.load.findFirst({
+    where: {
+      truckId: load.truckId,
+      id: { not: load.id },
+      status: { notIn: [...NOT_RUN] },
+      ...(load.pickupDate ? { pickupDate: { lt: load.pickupDate } } : { createdAt: { lt: load.createdAt } }),
+      stops: { some: { type: "DELIVERY" } },
+    },
+    orderBy: load.pickupDate ? { pickupDate: "desc" } : { createdAt: "desc" },
+    select: {
+      id: true,
+      stops: {
+        where: { type: "DELIVERY" },
+        orderBy: { sequence: "desc" },
+        take: 1,
+        select: PLACE_SELECT,
+      },
+    },
+  });
+
+  const from = previous?.stops[0];
+  if (!previous || !from) return null;
+
+  const current = await tdb.load.findFirst({
+    where: { id: load.id },
+    select: {
+      stops: {
+        where: { type: "PICKUP" },
+        orderBy: { sequence: "asc" },
+        take: 1,
+        select: PLACE_SELECT,
+      },
+    },
+  });
+  const to = current?.stops[0] ?? null;
+
+  return {
+    previousLoadId: previous.id,
+    from,
+    to,
+    miles: !to ? null : samePlace(from, to) ? 0 : estimatePlaceMiles(from, to),
+  };
+}
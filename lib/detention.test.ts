@@ -0,0 +1,149 @@
+import type { Company } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+import type { AuditedDb } from "./audit";
+import {
+  calculateLoadDetention,
+  detentionInvoiceLine,
+  recalculateLoadDetention,
+  stopDetentionMinutes,
+  type DetentionTerms,
+} from "./detention";
+
+const TERMS: DetentionTerms = { freeHours: 2, ratePerHour: 50 };
+
+function at(time: string) {
+  return new Date(`2025-06-02T${time}:00Z`);
+}
+
+function stop(id: string, scheduled: string | null, arrived: string | null, departed: string | null) {
+  return {
+    id,
+    scheduledAt: scheduled ? at(scheduled) : null,
+    arrivedAt: arrived ? at(arrived) : null,
+    departedAt: departed ? at(departed) : null,
+  };
+}
+
+describe("stopDetentionMinutes", () => {
+  it("waits for both arrival and departure", () => {
+    expect(stopDetentionMinutes(stop("s", "08:00", "08:00", null), TERMS)).toBeNull();
+    expect(stopDetentionMinutes(stop("s", "08:00", null, "12:00"), TERMS)).toBeNull();
+  });
+
+  it("starts the clock at the appointment when the truck shows up early", () => {
+    expect(stopDetentionMinutes(stop("s", "08:00", "06:00", "11:30"), TERMS)).toBe(90);
+  });
+
+  it("starts the clock at arrival when the truck is late or there's no appointment", () => {
+    expect(stopDetentionMinutes(stop("s", "08:00", "09:00", "12:00"), TERMS)).toBe(60);
+    expect(stopDetentionMinutes(stop("s", null, "09:00", "12:00"), TERMS)).toBe(60);
+  });
+
+  it("never goes below zero inside free time", () => {
+    expect(stopDetentionMinutes(stop("s", "08:00", "08:00", "09:15"), TERMS)).toBe(0);
+  });
+
+  it("rounds to whole minutes", () => {
+    const s = { ...stop("s", null, "08:00", null), departedAt: new Date(at("10:00").getTime() + 89_000) };
+    expect(stopDetentionMinutes(s, TERMS)).toBe(1);
+  });
+});
+
+describe("calculateLoadDetention", () => {
+  it("adds up checked-out stops and rounds hours to 2 decimals", () => {
+    const detention = calculateLoadDetention(
+      [stop("pickup", "08:00", "08:00", "10:20"), stop("delivery", "14:00", "14:00", "16:00"), stop("open", null, "17:00", null)],
+      TERMS
+    );
+    expect(detention.stops).toEqual([
+      { stopId: "pickup", minutes: 20 },
+      { stopId: "delivery", minutes: 0 },
+      { stopId: "open", minutes: null },
+    ]);
+    expect(detention.totalMinutes).toBe(20);
+    expect(detention.hours).toBe(0.33);
+    expect(detention.amount).toBe(17);                                     // 0.33 h × $50, whole dollars.
+    expect(detention.hasCompletedStops).toBe(true);
+  });
+
+  it("has no completed stops until one is checked out", () => {
+    expect(calculateLoadDetention([stop("s", "08:00", "08:00", null)], TERMS)).toMatchObject({
+      hours: 0,
+      hasCompletedStops: false,
+    });
+  });
+});
+
+describe("detentionInvoiceLine", () => {
+  it("bills hours at the rate as one line", () => {
+    expect(detentionInvoiceLine({ loadNumber: "L-7", detentionHours: 1.5 }, TERMS)).toEqual({
+      description: "Detention — Load L-7 (1.5 h @ $50/h)",
+      quantity: 1,
+      unitAmount: 75,
+      total: 75,
+    });
+  });
+
+  it("skips loads with nothing to bill", () => {
+    expect(detentionInvoiceLine({ loadNumber: null, detentionHours: null }, TERMS)).toBeNull();
+    expect(detentionInvoiceLine({ loadNumber: null, detentionHours: 0.005 }, TERMS)).toBeNull();
+  });
+});
+
+/**
+ * Only the load and stop reads/writes recalculateLoadDetention makes, against one load row.
+ */
+function fakeAudited(row: { detentionHours: number | null; detentionComputed: boolean; stops: ReturnType<typeof stop>[] }) {
+  const writes: Record<string, unknown>[] = [];
+  const audited = {
+    load: {
+      findFirst: async () => ({
+        id: "load-1",
+        detentionHours: row.detentionHours,
+        detentionComputed: row.detentionComputed,
+        customer: null,
+        stops: row.stops.map((s) => ({ ...s, detentionMinutes: null })),
+      }),
+      update: async ({ data }: { data: Record<string, unknown> }) => {
+        writes.push(data);
+        Object.assign(row, data);
+      },
+    },
+    loadStop: { update: async () => undefined },
+  } as unknown as AuditedDb;
+  return { audited, writes, row };
+}
+
+const COMPANY = { detentionFreeHours: 2, detentionRatePerHour: 50 } as Company;
+
+describe("recalculateLoadDetention", () => {
+  it("stores computed hours once a stop is checked out", async () => {
+    const { audited, row } = fakeAudited({
+      detentionHours: null,
+      detentionComputed: false,
+      stops: [stop("s", "08:00", "08:00", "11:00")],
+    });
+    await recalculateLoadDetention(audited, COMPANY, "load-1");
+    expect(row).toMatchObject({ detentionHours: 1, detentionComputed: true });
+  });
+
+  it("clears computed hours when no checked-out stop is left", async () => {
+    const { audited, row } = fakeAudited({
+      detentionHours: 1,
+      detentionComputed: true,
+      stops: [stop("s", "08:00", "08:00", null)],
+    });
+    await recalculateLoadDetention(audited, COMPANY, "load-1");
+    expect(row).toMatchObject({ detentionHours: null, detentionComputed: false });
+  });
+
+  it("leaves hours typed in by hand alone", async () => {
+    const { audited, writes } = fakeAudited({
+      detentionHours: 4,
+      detentionComputed: false,
+      stops: [stop("s", "08:00", "08:00", "11:00")],
+    });
+    await recalculateLoadDetention(audited, COMPANY, "load-1");
+    expect(writes).toEqual([]);
+  });
+});
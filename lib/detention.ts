@@ -0,0 +1,126 @@
+import type { Company, Customer, LoadStop } from "@prisma/client";        // Rows the detention terms and clocks come from.
+import type { AuditedDb } from "@/lib/audit";                              // Stop/load writes are audited.
+import { resolveCompanySettings } from "@/lib/companySettings";            // Company-level free time + rate defaults.
+
+export type DetentionTerms = {
+  freeHours: number;                                                       // On-site time that isn't billable.
+  ratePerHour: number;                                                     // Dollars per billable hour.
+};
+
+type StopClock = Pick<LoadStop, "id" | "scheduledAt" | "arrivedAt" | "departedAt">;
+
+/**
+ * Customer overrides win over the company settings (which fall back to app defaults).
+ */
+export function resolveDetentionTerms(
+  company: Parameters<typeof resolveCompanySettings>[0],
+  customer?: Pick<Customer, "detentionFreeHours" | "detentionRatePerHour"> | null
+): DetentionTerms {
+  const settings = resolveCompanySettings(company);
+  return {
+    freeHours: customer?.detentionFreeHours ?? settings.detentionFreeHours,
+    ratePerHour: customer?.detentionRatePerHour ?? settings.detentionRatePerHour,
+  };
+}
+
+/**
+ * Billable minutes at one stop, or null until the stop has both arrival and departure.
+ * The clock starts at the later of the appointment and the arrival, so showing up early
+ * doesn't earn detention, then free time is subtracted.
+ */
+export function stopDetentionMinutes(stop: StopClock, terms: DetentionTerms): number | null {
+  if (!stop.arrivedAt || !stop.departedAt) return null;
+
+  const start = Math.max(stop.arrivedAt.getTime(), stop.scheduledAt?.getTime() ?? 0);
+  const onSiteMinutes = Math.max(0, (stop.departedAt.getTime() - start) / 60_000);
+  return Math.max(0, Math.round(onSiteMinutes - terms.freeHours * 60));
+}
+
+export type LoadDetention = {
+  stops: { stopId: string; minutes: number | null }[];
+  totalMinutes: number;
+  hours: number;                                                           // Rounded to 2 decimals; what Load.detentionHours stores.
+  amount: number;                                                          // hours × rate, whole dollars.
+  terms: DetentionTerms;
+  hasCompletedStops: boolean;                                              // False until at least one stop has been checked out.
+};
+
+export function calculateLoadDetention(stops: StopClock[], terms: DetentionTerms): LoadDetention {
+  const perStop = stops.map((stop) => ({ stopId: stop.id, minutes: stopDetentionMinutes(stop, terms) }));
+  const totalMinutes = perStop.reduce((sum, s) => sum + (s.minutes ?? 0), 0);
+  const hours = Math.round((totalMinutes / 60) * 100) / 100;
+
+  return {
+    stops: perStop,
+    totalMinutes,
+    hours,
+    amount: Math.round(hours * terms.ratePerHour),
+    terms,
+    hasCompletedStops: perStop.some((s) => s.minutes !== null),
+  };
+}
+
+/**
+ * Recomputes every stop's `detentionMinutes` and the load's `detentionHours`.
+ * Call after anything that changes a stop's clock (check-out, edits, deletes).
+ * `Load.detentionComputed` marks hours that came from the stop clocks: those follow the
+ * stops and are cleared once no stop is checked out any more. Hours typed in by hand
+ * are never overwritten; clearing them hands the load back to the clocks.
+ */
+export async function recalculateLoadDetention(
+  audited: AuditedDb,
+  company: Company,
+  loadId: string
+): Promise<LoadDetention | null> {
+  const load = await audited.load.findFirst({
+    where: { id: loadId },
+    select: {
+      id: true,
+      detentionHours: true,
+      detentionComputed: true,
+      customer: { select: { detentionFreeHours: true, detentionRatePerHour: true } },
+      stops: {
+        orderBy: { sequence: "asc" },
+        select: { id: true, scheduledAt: true, arrivedAt: true, departedAt: true, detentionMinutes: true },
+      },
+    },
+  });
+  if (!load) return null;
+
+  const detention = calculateLoadDetention(load.stops, resolveDetentionTerms(company, load.customer));
+
+  for (const { stopId, minutes } of detention.stops) {
+    const current = load.stops.find((s) => s.id === stopId)?.detentionMinutes ?? null;
+    if (current === minutes) continue;
+    await audited.loadStop.update({ where: { id: stopId }, data: { detentionMinutes: minutes } });
+  }
+
+  const manual = !load.detentionComputed && load.detentionHours !== null;
+  const next = detention.hasCompletedStops
+    ? { detentionHours: detention.hours, detentionComputed: true }
+    : { detentionHours: null, detentionComputed: false };
+  if (!manual && (load.detentionHours !== next.detentionHours || load.detentionComputed !== next.detentionComputed)) {
+    await audited.load.update({ where: { id: loadId }, data: next });
+  }
+
+  return detention;
+}
+
+/**
+ * Invoice line for a load's detention, or null when there's nothing to bill.
+ */
+export function detentionInvoiceLine(
+  load: { loadNumber: string | null; detentionHours: number | null },
+  terms: DetentionTerms
+) {
+  const hours = load.detentionHours ?? 0;
+  const amount = Math.round(hours * terms.ratePerHour);
+  if (hours <= 0 || amount <= 0) return null;
+
+  return {
+    description: `Detention${load.loadNumber ? ` — Load ${load.loadNumber}` : ""} (${hours} h @ $${terms.ratePerHour}/h)`,
+    quantity: 1,                                                           // InvoiceLine.quantity is whole units; hours go in the description.
+    unitAmount: amount,
+    total: amount,
+  };
+}
@@ -0,0 +1,17 @@
+import type { Document, DocumentType } from "@prisma/client";             // Rows and the type enum.
+
+/**
+ * Best guess at what an untyped upload is from its file name ("BOL 1234.pdf", "signed_pod.jpg").
+ */
+export function inferDocumentType(fileName: string): DocumentType | null {
+  const name = fileName.toLowerCase().replace(/[_\-.]+/g, " ");
+  if (/\brate ?con|\bconfirmation\b|\brc\b/.test(name)) return "RATE_CON";
+  if (/\bbol\b|\bbill of lading\b|\bbill lading\b/.test(name)) return "BOL";
+  if (/\bpod\b|\bproof of delivery\b|\bdelivery receipt\b/.test(name)) return "POD";
+  if (/\blumper\b/.test(name)) return "LUMPER_RECEIPT";
+  return null;
+}
+
+export function documentType(doc: Pick<Document, "type" | "fileName">): DocumentType | null {
+  return doc.type ?? inferDocumentType(doc.fileName);
+}
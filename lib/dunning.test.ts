@@ -0,0 +1,236 @@
+import { Prisma, type DunningStep, type UserRole } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+
+/**
+ * The rows the scheduler reads and writes. The mocks below look them up when called, so
+ * each test starts from fresh tables.
+ */
+let invoices: Row[];
+let steps: DunningStep[];
+let runs: Row[];
+let users: { id: string; role: UserRole }[];
+let tasks: Row[];
+let queued: Row[];
+let statusUpdates: { companyId: string; ids: string[] }[];
+let failEmail: boolean;
+
+function prismaError(code: string) {
+  return new Prisma.PrismaClientKnownRequestError(`${code} from the database`, { code, clientVersion: "test" });
+}
+
+vi.mock("@/lib/db", () => ({
+  db: {
+    dunningStep: { findMany: async () => [...steps].sort((a, b) => a.offsetDays - b.offsetDays) },
+    company: { findUniqueOrThrow: async ({ where }: { where: Where }) => ({ id: where.id, billingEmail: "ar@carrier.test" }) },
+    invoice: {
+      findMany: async ({ where }: { where: { status: string | { in: string[] }; dueDate: { lt?: Date } } }) =>
+        invoices
+          .filter((i) =>
+            typeof where.status === "string" ? i.status === where.status : where.status.in.includes(i.status as string)
+          )
+          .filter((i) => !where.dueDate.lt || (i.dueDate as Date) < where.dueDate.lt)
+          .map((i) => ({ ...i, dunningRuns: runs.filter((run) => run.invoiceId === i.id) })),
+    },
+    user: { findFirst: async ({ where }: { where: Where }) => users.find((u) => u.role === where.role) ?? null },
+    task: {
+      findFirst: async ({ where }: { where: Where }) =>
+        tasks.filter((t) => !where.relatedInvoiceId || t.relatedInvoiceId === where.relatedInvoiceId).at(-1) ?? null,
+    },
+    dunningRun: {
+      create: async ({ data }: { data: Row }) => {
+        if (runs.some((run) => run.stepId === data.stepId && run.invoiceId === data.invoiceId)) throw prismaError("P2002");
+        const run = { id: `run-${runs.length + 1}`, ...data };
+        runs.push(run);
+        return run;
+      },
+      update: async ({ where, data }: { where: Where; data: Row }) =>
+        Object.assign(runs.find((run) => run.id === where.id)!, data),
+      delete: async ({ where }: { where: Where }) => {
+        runs = runs.filter((run) => run.id !== where.id);
+      },
+    },
+  },
+}));
+
+vi.mock("@/lib/audit", () => ({
+  auditedDb: ({ companyId }: { companyId: string }) => ({
+    invoice: {
+      updateMany: async ({ where }: { where: { id: { in: string[] } } }) => {
+        statusUpdates.push({ companyId, ids: where.id.in });
+        return { count: where.id.in.length };
+      },
+    },
+    task: {
+      create: async ({ data }: { data: Row }) => {
+        tasks.push({ id: `task-${tasks.length + 1}`, ...data });
+        return tasks.at(-1);
+      },
+    },
+  }),
+}));
+
+vi.mock("@/lib/email", () => ({
+  findEmailTemplate: async (_companyId: string, slug: string) =>
+    ["invoice-reminder", "invoice-overdue"].includes(slug) ? { id: null, template: { slug } } : null,
+  invoiceEmailContext: () => ({}),
+  renderTemplate: (template: { slug: string }) => ({ subject: template.slug, text: "", html: "" }),
+  queueEmail: async (input: Row) => {
+    if (failEmail) throw new Error("queue is down");
+    queued.push(input);
+    return { id: `email-${queued.length}` };
+  },
+}));
+
+import { defaultDunningTemplate, markOverdueInvoices, runDunning } from "./dunning";
+
+const NOW = new Date("2025-06-10T15:00:00Z");
+
+function date(iso: string) {
+  return new Date(`${iso}T00:00:00Z`);
+}
+
+function step(id: string, offsetDays: number, action: DunningStep["action"] = "EMAIL"): DunningStep {
+  return { id, companyId: "company-a", offsetDays, action, templateSlug: null, isActive: true } as DunningStep;
+}
+
+/**
+ * INV-1 for $1,000 with $400 paid, due June 2: eight days late on June 10.
+ */
+function openInvoice(extra: Row = {}): Row {
+  return {
+    id: "inv-1",
+    companyId: "company-a",
+    customerId: "customer-1",
+    invoiceNumber: "INV-1",
+    status: "OVERDUE",
+    total: 1000,
+    dueDate: date("2025-06-02"),
+    customer: { name: "Acme Foods", billingEmail: "ap@acme.test" },
+    payments: [{ amount: 400 }],
+    ...extra,
+  };
+}
+
+beforeEach(() => {
+  invoices = [openInvoice()];
+  steps = [];
+  runs = [];
+  users = [];
+  tasks = [];
+  queued = [];
+  statusUpdates = [];
+  failEmail = false;
+});
+
+describe("defaultDunningTemplate", () => {
+  it("reminds before the due date and chases after it", () => {
+    expect(defaultDunningTemplate(-3)).toBe("invoice-reminder");
+    expect(defaultDunningTemplate(0)).toBe("invoice-reminder");
+    expect(defaultDunningTemplate(1)).toBe("invoice-overdue");
+  });
+});
+
+describe("markOverdueInvoices", () => {
+  it("moves sent invoices due before today, one update per company", async () => {
+    invoices = [
+      openInvoice({ id: "a-late", status: "SENT", dueDate: date("2025-06-09") }),
+      openInvoice({ id: "a-today", status: "SENT", dueDate: date("2025-06-10") }),
+      openInvoice({ id: "a-overdue", status: "OVERDUE", dueDate: date("2025-05-01") }),
+      openInvoice({ id: "b-late", companyId: "company-b", status: "SENT", dueDate: date("2025-05-20") }),
+    ];
+
+    expect(await markOverdueInvoices(NOW)).toBe(2);
+    expect(statusUpdates).toEqual([
+      { companyId: "company-a", ids: ["a-late"] },
+      { companyId: "company-b", ids: ["b-late"] },
+    ]);
+  });
+});
+
+describe("runDunning", () => {
+  it("sends only the latest email that has come due and passes over the rest", async () => {
+    steps = [step("s-pre", -3), step("s-1", 1), step("s-7", 7), step("s-14", 14)];
+
+    expect(await runDunning(NOW)).toEqual({ emails: 1, tasks: 0, skipped: 2 });
+    expect(queued).toMatchObject([
+      { to: "ap@acme.test", replyTo: "ar@carrier.test", email: { subject: "invoice-overdue" }, relatedInvoiceId: "inv-1" },
+    ]);
+    expect(runs.map((run) => [run.stepId, run.skipReason ?? run.emailLogId])).toEqual([
+      ["s-pre", "Passed over for a later step"],
+      ["s-1", "Passed over for a later step"],
+      ["s-7", "email-1"],
+    ]);
+  });
+
+  it("fires each step once", async () => {
+    steps = [step("s-7", 7)];
+    await runDunning(NOW);
+    expect(await runDunning(NOW)).toEqual({ emails: 0, tasks: 0, skipped: 0 });
+    expect(queued).toHaveLength(1);
+  });
+
+  it("passes over a pre-due reminder once the invoice is late", async () => {
+    steps = [step("s-pre", -3)];
+    expect(await runDunning(NOW)).toEqual({ emails: 0, tasks: 0, skipped: 1 });
+    expect(runs[0]?.skipReason).toBe("Invoice was already past due");
+  });
+
+  it("leaves settled invoices alone", async () => {
+    steps = [step("s-7", 7)];
+    invoices = [openInvoice({ payments: [{ amount: 1000 }] })];
+    expect(await runDunning(NOW)).toEqual({ emails: 0, tasks: 0, skipped: 0 });
+    expect(runs).toEqual([]);
+  });
+
+  it("gives accounting a collection task with the open balance", async () => {
+    steps = [step("s-task", 5, "TASK")];
+    users = [{ id: "owner-1", role: "OWNER" }, { id: "ap-1", role: "ACCOUNTING" }];
+    tasks = [{ id: "task-0", status: "PENDING", type: "CALL_CUSTOMER", relatedInvoiceId: null, order: 3 }];
+
+    expect(await runDunning(NOW)).toEqual({ emails: 0, tasks: 1, skipped: 0 });
+    expect(tasks.at(-1)).toMatchObject({
+      userId: "ap-1",
+      type: "COLLECT_PAYMENT",
+      order: 4,
+      relatedInvoiceId: "inv-1",
+      notes: "Invoice INV-1 for Acme Foods is 8 days past due with $600.00 open.",
+    });
+  });
+
+  it("records why a step couldn't go out", async () => {
+    steps = [step("s-7", 7), step("s-task", 5, "TASK")];
+    invoices = [openInvoice({ customer: { name: "Acme Foods", billingEmail: null } })];
+
+    expect(await runDunning(NOW)).toEqual({ emails: 0, tasks: 0, skipped: 2 });
+    expect(runs.map((run) => run.skipReason)).toEqual([
+      "Customer has no billing email",
+      "No accounting, owner or admin user to assign",
+    ]);
+  });
+
+  it("doesn't open a second collection task", async () => {
+    steps = [step("s-task", 5, "TASK")];
+    users = [{ id: "ap-1", role: "ACCOUNTING" }];
+    tasks = [{ id: "task-0", status: "PENDING", type: "COLLECT_PAYMENT", relatedInvoiceId: "inv-1", order: 0 }];
+
+    expect(await runDunning(NOW)).toEqual({ emails: 0, tasks: 0, skipped: 1 });
+    expect(runs[0]?.skipReason).toBe("A collection task is already open");
+  });
+
+  it("drops the run when a step fails so the next run tries again", async () => {
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+    steps = [step("s-7", 7)];
+    failEmail = true;
+
+    expect(await runDunning(NOW)).toEqual({ emails: 0, tasks: 0, skipped: 0 });
+    expect(runs).toEqual([]);
+    expect(logged).toHaveBeenCalledOnce();
+    logged.mockRestore();
+
+    failEmail = false;
+    expect(await runDunning(NOW)).toEqual({ emails: 1, tasks: 0, skipped: 0 });
+  });
+});
@@ -0,0 +1,235 @@
+import { Prisma, type Company, type DunningAction, type DunningStep, type User } from "@prisma/client";
+import { auditedDb } from "@/lib/audit";                                   // Status flips and tasks are audited as the system.
+import { resolveCompanySettings } from "@/lib/companySettings";            // Currency in task notes.
+import { db } from "@/lib/db";                                             // The scheduler runs across every company.
+import { findEmailTemplate, invoiceEmailContext, queueEmail, renderTemplate } from "@/lib/email";
+import { daysPastDue, invoiceBalance } from "@/lib/payments";              // Open balance and how late an invoice is.
+
+/**
+ * Overdue detection and dunning. Each company configures steps at an offset from the due
+ * date (-3 = three days before) that either email the customer or give the accounting
+ * user a COLLECT_PAYMENT task. A DunningRun row per step and invoice makes each step fire
+ * once; paid and cancelled invoices drop out, so dunning stops as soon as an invoice is settled.
+ */
+
+const DUNNING_INVOICE_INCLUDE = {
+  customer: true,
+  payments: { select: { amount: true } },
+  dunningRuns: { select: { stepId: true } },
+} as const;
+
+type DunningInvoice = Prisma.InvoiceGetPayload<{ include: typeof DUNNING_INVOICE_INCLUDE }>;
+
+export type DunningResult = { emails: number; tasks: number; skipped: number };
+
+export function serializeDunningStep(step: DunningStep) {
+  return {
+    id: step.id,
+    offsetDays: step.offsetDays,
+    action: step.action,
+    templateSlug: step.templateSlug,
+    isActive: step.isActive,
+  };
+}
+
+/**
+ * Template an EMAIL step uses when it doesn't name one.
+ */
+export function defaultDunningTemplate(offsetDays: number) {
+  return offsetDays <= 0 ? "invoice-reminder" : "invoice-overdue";
+}
+
+/**
+ * Moves SENT invoices whose due date has passed to OVERDUE. Returns how many moved.
+ */
+export async function markOverdueInvoices(now = new Date()) {
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const invoices = await db.invoice.findMany({
+    where: { status: "SENT", dueDate: { lt: today } },
+    select: { id: true, companyId: true },
+  });
+
+  const byCompany = new Map<string, string[]>();
+  for (const invoice of invoices) {
+    byCompany.set(invoice.companyId, [...(byCompany.get(invoice.companyId) ?? []), invoice.id]);
+  }
+
+  let count = 0;
+  for (const [companyId, ids] of byCompany) {
+    const result = await auditedDb({ companyId, userId: null }).invoice.updateMany({
+      where: { id: { in: ids }, status: "SENT" },                          // A payment may have landed since the read.
+      data: { status: "OVERDUE" },
+    });
+    count += result.count;
+  }
+  return count;
+}
+
+/**
+ * Who collection tasks go to: the first accounting user, else the owner, else an admin.
+ */
+async function collectionsUser(companyId: string): Promise<Pick<User, "id"> | null> {
+  for (const role of ["ACCOUNTING", "OWNER", "ADMIN"] as const) {
+    const user = await db.user.findFirst({
+      where: { companyId, role, isActive: true },
+      orderBy: { createdAt: "asc" },
+      select: { id: true },
+    });
+    if (user) return user;
+  }
+  return null;
+}
+
+/**
+ * Records that `step` ran for `invoice`. Returns null when another run got there first.
+ */
+async function claimRun(step: DunningStep, invoiceId: string, skipReason: string | null = null) {
+  try {
+    return await db.dunningRun.create({
+      data: { companyId: step.companyId, stepId: step.id, invoiceId, skipReason },
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") return null;
+    throw err;
+  }
+}
+
+async function emailStep(step: DunningStep, invoice: DunningInvoice, company: Company, now: Date) {
+  const to = invoice.customer.billingEmail;
+  if (!to) return { skipReason: "Customer has no billing email" };
+
+  const slug = step.templateSlug ?? defaultDunningTemplate(step.offsetDays);
+  const found = await findEmailTemplate(company.id, slug);
+  if (!found) return { skipReason: `No email template "${slug}"` };
+
+  const log = await queueEmail({                                          // Sent by the email-queue job.
+    companyId: company.id,
+    to,
+    replyTo: company.billingEmail,
+    email: renderTemplate(found.template, invoiceEmailContext(invoice, company, now)),
+    templateId: found.id,
+    attachments: [{ type: "INVOICE_PDF", invoiceId: invoice.id }],
+    relatedCustomerId: invoice.customerId,
+    relatedInvoiceId: invoice.id,
+  });
+  return { emailLogId: log.id };
+}
+
+async function taskStep(
+  invoice: DunningInvoice,
+  company: Company,
+  assignee: Pick<User, "id"> | null,
+  days: number
+) {
+  if (!assignee) return { skipReason: "No accounting, owner or admin user to assign" };
+
+  const open = await db.task.findFirst({
+    where: { companyId: company.id, relatedInvoiceId: invoice.id, type: "COLLECT_PAYMENT", status: "PENDING" },
+    select: { id: true },
+  });
+  if (open) return { skipReason: "A collection task is already open" };
+
+  const lastInColumn = await db.task.findFirst({
+    where: { companyId: company.id, status: "PENDING" },
+    orderBy: { order: "desc" },
+    select: { order: true },
+  });
+
+  const { defaultCurrency } = resolveCompanySettings(company);
+  const balance = new Intl.NumberFormat("en-US", { style: "currency", currency: defaultCurrency }).format(
+    invoiceBalance(invoice).balance
+  );
+  const when = days > 0 ? `${days} days past due` : days === 0 ? "due today" : `due in ${-days} days`;
+
+  const task = await auditedDb({ companyId: company.id, userId: null }).task.create({
+    data: {
+      companyId: company.id,
+      userId: assignee.id,
+      type: "COLLECT_PAYMENT",
+      status: "PENDING",
+      order: (lastInColumn?.order ?? -1) + 1,
+      relatedCustomerId: invoice.customerId,
+      relatedInvoiceId: invoice.id,
+      dueAt: new Date(),
+      notes: `Invoice ${invoice.invoiceNumber} for ${invoice.customer.name} is ${when} with ${balance} open.`,
+    },
+  });
+  return { taskId: task.id };
+}
+
+/**
+ * Fires every step that has come due on an open invoice. When several steps of the same
+ * kind are due at once (new steps, or an invoice sent late) only the latest runs and the
+ * others are recorded as passed over, so nobody gets a burst of reminders. Pre-due
+ * reminders are passed over once the invoice is already late.
+ */
+export async function runDunning(now = new Date()): Promise<DunningResult> {
+  const result: DunningResult = { emails: 0, tasks: 0, skipped: 0 };
+  const steps = await db.dunningStep.findMany({
+    where: { isActive: true },
+    orderBy: { offsetDays: "asc" },
+  });
+
+  const byCompany = new Map<string, DunningStep[]>();
+  for (const step of steps) {
+    byCompany.set(step.companyId, [...(byCompany.get(step.companyId) ?? []), step]);
+  }
+
+  for (const [companyId, companySteps] of byCompany) {
+    const company = await db.company.findUniqueOrThrow({ where: { id: companyId } });
+    const invoices = await db.invoice.findMany({
+      where: { companyId, status: { in: ["SENT", "OVERDUE"] }, dueDate: { not: null } },
+      include: DUNNING_INVOICE_INCLUDE,
+    });
+    let assignee: Pick<User, "id"> | null | undefined;                    // Looked up on the first task.
+
+    for (const invoice of invoices) {
+      if (invoiceBalance(invoice).balance <= 0) continue;
+      const days = daysPastDue(invoice.dueDate!, now);
+      const ran = new Set(invoice.dunningRuns.map((run) => run.stepId));
+      const due = companySteps.filter((step) => step.offsetDays <= days && !ran.has(step.id));
+
+      for (const action of ["EMAIL", "TASK"] as DunningAction[]) {
+        const ofAction = due.filter((step) => step.action === action);
+        if (ofAction.length === 0) continue;
+        const latest = ofAction[ofAction.length - 1];
+
+        for (const step of ofAction) {
+          const passedOver =
+            step !== latest
+              ? "Passed over for a later step"
+              : step.offsetDays <= 0 && days > 0
+                ? "Invoice was already past due"
+                : null;
+          const run = await claimRun(step, invoice.id, passedOver);
+          if (!run) continue;
+          if (passedOver) {
+            result.skipped++;
+            continue;
+          }
+
+          let outcome: { skipReason?: string; emailLogId?: string; taskId?: string };
+          try {
+            if (action === "EMAIL") {
+              outcome = await emailStep(step, invoice, company, now);
+            } else {
+              if (assignee === undefined) assignee = await collectionsUser(companyId);
+              outcome = await taskStep(invoice, company, assignee, days);
+            }
+          } catch (err) {
+            console.error("[DUNNING_STEP_ERROR]", step.id, invoice.id, err);
+            await db.dunningRun.delete({ where: { id: run.id } });         // The next run tries again.
+            continue;
+          }
+
+          await db.dunningRun.update({ where: { id: run.id }, data: outcome });
+          if (outcome.skipReason) result.skipped++;
+          else if (outcome.emailLogId) result.emails++;
+          else result.tasks++;
+        }
+      }
+    }
+  }
+
+  return result;
+}
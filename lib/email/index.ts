@@ -0,0 +1,265 @@
+import type { Company, EmailLog, EmailTemplate, Prisma } from "@prisma/client"; // Queue rows, templates and the sender's company.
+import { auditedDb } from "@/lib/audit";                                   // Invoice status changes are audited.
+import { db } from "@/lib/db";                                             // The queue runs across every company.
+import { buildInvoicePdf, INVOICE_PDF_INCLUDE } from "@/lib/invoicePdf";    // Invoice attachments are rendered at send time.
+import { scopedDb } from "@/lib/scopedDb";                                 // Company templates.
+import type { EmailAttachment, OutgoingEmail } from "./mime";
+import { SmtpError } from "./smtp";
+import { BUILT_IN_TEMPLATES, type RenderedEmail, type TemplateSource } from "./templates";
+import { defaultFromAddress, emailTransport } from "./transport";
+
+/**
+ * Outgoing mail goes through EmailLog: a row is written QUEUED with the rendered body and
+ * attachment descriptors, then delivered right away or by the email-queue cron. Failed
+ * sends are retried with backoff; 5xx rejections and the last attempt mark the row FAILED.
+ */
+
+export type { EmailTransport } from "./transport";
+export { emailTransport, setEmailTransport } from "./transport";
+export * from "./templates";
+
+export const MAX_EMAIL_ATTEMPTS = 5;
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];                              // After attempts 1–4.
+const SEND_LEASE_MINUTES = 10;                                             // A row claimed by a sender that died is retried after this.
+
+/**
+ * Attachments are stored as descriptors and rendered when the email is sent, so the
+ * queue never holds file bytes and a retry sends the invoice as it is then.
+ */
+export type EmailAttachmentSpec = { type: "INVOICE_PDF"; invoiceId: string; packet?: boolean };
+
+export type QueueEmailInput = {
+  companyId: string;
+  to: string;
+  replyTo?: string | null;
+  email: RenderedEmail;
+  templateId?: string | null;
+  attachments?: EmailAttachmentSpec[];
+  relatedCustomerId?: string | null;
+  relatedInvoiceId?: string | null;
+};
+
+/**
+ * The company's template with this slug, else the built-in one. `id` is null for built-ins.
+ */
+export async function findEmailTemplate(companyId: string, slug: string) {
+  const own = await scopedDb(companyId).emailTemplate.findFirst({ where: { slug } });
+  if (own) return { id: own.id as string | null, template: own as TemplateSource };
+  const builtIn = BUILT_IN_TEMPLATES[slug];
+  return builtIn ? { id: null, template: builtIn as TemplateSource } : null;
+}
+
+export function serializeEmailTemplate(template: EmailTemplate) {
+  return {
+    id: template.id,
+    slug: template.slug,
+    name: template.name,
+    subject: template.subject,
+    htmlBody: template.htmlBody,
+    textBody: template.textBody,
+    builtIn: false,
+    updatedAt: template.updatedAt,
+  };
+}
+
+/**
+ * The company's templates plus the built-ins it hasn't replaced, by name.
+ */
+export async function listEmailTemplates(companyId: string) {
+  const own = await scopedDb(companyId).emailTemplate.findMany({ orderBy: { name: "asc" } });
+  const slugs = new Set(own.map((t) => t.slug));
+  const builtIns = Object.entries(BUILT_IN_TEMPLATES)
+    .filter(([slug]) => !slugs.has(slug))
+    .map(([slug, t]) => ({ id: null, slug, ...t, builtIn: true, updatedAt: null }));
+  return [...own.map(serializeEmailTemplate), ...builtIns].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * API shape of a log row: delivery state without the stored bodies.
+ */
+export function serializeEmailLog(log: EmailLog) {
+  return {
+    id: log.id,
+    toEmail: log.toEmail,
+    subject: log.subject,
+    status: log.status,
+    attempts: log.attempts,
+    sentAt: log.sentAt,
+    nextAttemptAt: log.nextAttemptAt,
+    errorMessage: log.errorMessage,
+    createdAt: log.createdAt,
+  };
+}
+
+function preview(email: RenderedEmail) {
+  const text = email.text ?? email.html.replace(/<[^>]+>/g, " ");
+  return text.replace(/\s+/g, " ").trim().slice(0, 200);
+}
+
+export async function queueEmail(input: QueueEmailInput): Promise<EmailLog> {
+  return db.emailLog.create({
+    data: {
+      companyId: input.companyId,
+      templateId: input.templateId ?? null,
+      toEmail: input.to,
+      replyTo: input.replyTo ?? null,
+      subject: input.email.subject,
+      bodyPreview: preview(input.email),
+      htmlBody: input.email.html,
+      textBody: input.email.text,
+      attachments: (input.attachments ?? []) as Prisma.InputJsonArray,
+      relatedCustomerId: input.relatedCustomerId ?? null,
+      relatedInvoiceId: input.relatedInvoiceId ?? null,
+      status: "QUEUED",
+    },
+  });
+}
+
+async function renderAttachments(
+  log: EmailLog,
+  company: Company
+): Promise<{ files: EmailAttachment[]; invoiceIds: string[] }> {
+  const specs = (Array.isArray(log.attachments) ? log.attachments : []) as EmailAttachmentSpec[];
+  const files: EmailAttachment[] = [];
+  const invoiceIds: string[] = [];
+
+  for (const spec of specs) {
+    if (spec.type !== "INVOICE_PDF") continue;
+    const invoice = await scopedDb(log.companyId).invoice.findFirst({
+      where: { id: spec.invoiceId },
+      include: INVOICE_PDF_INCLUDE,
+    });
+    if (!invoice) throw new Error(`Invoice ${spec.invoiceId} no longer exists`);
+    const { pdf, fileName } = await buildInvoicePdf(invoice, company, { packet: spec.packet });
+    files.push({ fileName, contentType: "application/pdf", content: pdf });
+    invoiceIds.push(invoice.id);
+  }
+
+  return { files, invoiceIds };
+}
+
+/**
+ * Sends one queued row if it's due and nobody else holds it. Returns the row as left
+ * (SENT, FAILED, CANCELLED, or QUEUED with the next attempt time), or null if it wasn't claimed.
+ */
+export async function deliverEmailLog(id: string, now = new Date()): Promise<EmailLog | null> {
+  const claimed = await db.emailLog.updateMany({
+    where: {
+      id,
+      status: "QUEUED",
+      htmlBody: { not: null },
+      OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+    },
+    data: {
+      attempts: { increment: 1 },
+      nextAttemptAt: new Date(now.getTime() + SEND_LEASE_MINUTES * 60_000),
+    },
+  });
+  if (claimed.count === 0) return null;
+
+  const log = await db.emailLog.findUniqueOrThrow({
+    where: { id },
+    include: { company: true, dunningRun: { select: { invoice: { select: { status: true } } } } },
+  });
+
+  // A reminder for an invoice settled or cancelled since it was queued is moot.
+  const dunningInvoice = log.dunningRun?.invoice;
+  if (dunningInvoice && (dunningInvoice.status === "PAID" || dunningInvoice.status === "CANCELLED")) {
+    return db.emailLog.update({
+      where: { id },
+      data: { status: "CANCELLED", nextAttemptAt: null },
+    });
+  }
+
+  try {
+    const { files, invoiceIds } = await renderAttachments(log, log.company);
+    const email: OutgoingEmail = {
+      from: defaultFromAddress(),
+      to: log.toEmail,
+      replyTo: log.replyTo,
+      subject: log.subject,
+      html: log.htmlBody!,
+      text: log.textBody,
+      attachments: files,
+    };
+    await emailTransport().send(email);
+
+    const sent = await db.emailLog.update({
+      where: { id },
+      data: { status: "SENT", sentAt: new Date(), errorMessage: null, nextAttemptAt: null },
+    });
+
+    // A draft invoice that has gone out to the customer is SENT.
+    if (invoiceIds.length > 0) {
+      await auditedDb({ companyId: log.companyId, userId: null }).invoice.updateMany({
+        where: { id: { in: invoiceIds }, status: "DRAFT" },
+        data: { status: "SENT" },
+      });
+    }
+    return sent;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const permanent = err instanceof SmtpError && err.permanent;
+    const giveUp = permanent || log.attempts >= MAX_EMAIL_ATTEMPTS;
+    if (!giveUp) console.warn("[EMAIL_SEND_RETRY]", id, message);
+    else console.error("[EMAIL_SEND_ERROR]", id, err);
+
+    const delay = RETRY_DELAYS_MINUTES[Math.min(log.attempts, RETRY_DELAYS_MINUTES.length) - 1];
+    return db.emailLog.update({
+      where: { id },
+      data: giveUp
+        ? { status: "FAILED", errorMessage: message, nextAttemptAt: null }
+        : { errorMessage: message, nextAttemptAt: new Date(now.getTime() + delay * 60_000) },
+    });
+  }
+}
+
+/**
+ * Sends every due row, oldest first, up to `limit`. Run by the email-queue cron.
+ */
+export async function processEmailQueue(limit = 50, now = new Date()) {
+  const due = await db.emailLog.findMany({
+    where: {
+      status: "QUEUED",
+      htmlBody: { not: null },
+      OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+    },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+
+  const results = { sent: 0, failed: 0, cancelled: 0, retrying: 0 };
+  for (const { id } of due) {
+    const log = await deliverEmailLog(id, now);
+    if (log?.status === "SENT") results.sent++;
+    else if (log?.status === "FAILED") results.failed++;
+    else if (log?.status === "CANCELLED") results.cancelled++;
+    else if (log) results.retrying++;
+  }
+  return results;
+}
+
+/**
+ * Sends an email whose body mustn't be stored (it carries a sign-in link, say) and records
+ * the outcome on its existing log row. There's nothing to retry from, so a failure is final.
+ */
+export async function sendUnstoredEmail(logId: string, email: Omit<OutgoingEmail, "from">) {
+  try {
+    await emailTransport().send({ ...email, from: defaultFromAddress() });
+    return db.emailLog.update({
+      where: { id: logId },
+      data: { status: "SENT", sentAt: new Date(), attempts: { increment: 1 } },
+    });
+  } catch (err) {
+    console.error("[EMAIL_SEND_ERROR]", logId, err);
+    return db.emailLog.update({
+      where: { id: logId },
+      data: {
+        status: "FAILED",
+        errorMessage: err instanceof Error ? err.message : String(err),
+        attempts: { increment: 1 },
+      },
+    });
+  }
+}
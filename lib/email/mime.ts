@@ -0,0 +1,145 @@
+import { randomBytes } from "node:crypto";                                 // Boundaries and Message-IDs.
+
+/**
+ * Builds RFC 5322 messages: a text/html alternative, wrapped in multipart/mixed when there
+ * are attachments. Bodies and attachments are base64 so nothing depends on the relay
+ * supporting 8BITMIME; non-ASCII headers are RFC 2047 encoded.
+ */
+
+export type EmailAttachment = {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+};
+
+export type OutgoingEmail = {
+  from: string;
+  to: string;
+  replyTo?: string | null;
+  subject: string;
+  html: string;
+  text?: string | null;
+  attachments?: EmailAttachment[];
+};
+
+const CRLF = "\r\n";
+
+function boundary() {
+  return `=_${randomBytes(12).toString("hex")}`;
+}
+
+function base64Lines(content: Buffer) {
+  return (content.toString("base64").match(/.{1,76}/g) ?? []).join(CRLF);
+}
+
+/**
+ * Encodes a header value as an RFC 2047 encoded-word when it isn't plain ASCII.
+ */
+export function encodeHeader(value: string) {
+  const clean = value.replace(/[\r\n]+/g, " ");                            // No header injection.
+  if (/^[\x20-\x7e]*$/.test(clean)) return clean;
+  return `=?UTF-8?B?${Buffer.from(clean, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * Encodes the display-name part of "Name <addr>" and leaves bare addresses alone.
+ */
+function encodeAddress(value: string) {
+  const match = /^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/.exec(value);
+  if (!match) return value.replace(/[\r\n]+/g, "");
+  return match[1] ? `${encodeHeader(match[1])} <${match[2]}>` : `<${match[2]}>`;
+}
+
+/**
+ * The bare address of "Name <addr>" or "addr", for the SMTP envelope.
+ */
+export function addressOnly(value: string) {
+  const match = /<([^>]+)>/.exec(value);
+  return (match ? match[1] : value).trim();
+}
+
+/**
+ * Plain-text fallback for messages that only have HTML.
+ */
+export function htmlToText(html: string) {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|tr|h[1-6]|li)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function messageId(from: string) {
+  const domain = addressOnly(from).split("@")[1] ?? "localhost";
+  return `<${Date.now().toString(36)}.${randomBytes(8).toString("hex")}@${domain}>`;
+}
+
+/**
+ * The full message, headers and body, with CRLF line endings.
+ */
+export function buildMimeMessage(email: OutgoingEmail, id: string): string {
+  const headers = [
+    `From: ${encodeAddress(email.from)}`,
+    `To: ${encodeAddress(email.to)}`,
+    ...(email.replyTo ? [`Reply-To: ${encodeAddress(email.replyTo)}`] : []),
+    `Subject: ${encodeHeader(email.subject)}`,
+    `Date: ${new Date().toUTCString().replace("GMT", "+0000")}`,
+    `Message-ID: ${id}`,
+    "MIME-Version: 1.0",
+  ];
+
+  const altBoundary = boundary();
+  const alternative = [
+    `Content-Type: multipart/alternative; boundary="${altBoundary}"`,
+    "",
+    `--${altBoundary}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(Buffer.from(email.text ?? htmlToText(email.html), "utf8")),
+    `--${altBoundary}`,
+    "Content-Type: text/html; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(Buffer.from(email.html, "utf8")),
+    `--${altBoundary}--`,
+  ];
+
+  const attachments = email.attachments ?? [];
+  if (attachments.length === 0) {
+    return [...headers, ...alternative, ""].join(CRLF);
+  }
+
+  const mixedBoundary = boundary();
+  const parts = attachments.flatMap((file) => {
+    const name = encodeHeader(file.fileName).replace(/"/g, "");
+    return [
+      `--${mixedBoundary}`,
+      `Content-Type: ${file.contentType}; name="${name}"`,
+      "Content-Transfer-Encoding: base64",
+      `Content-Disposition: attachment; filename="${name}"`,
+      "",
+      base64Lines(file.content),
+    ];
+  });
+
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`,
+    "",
+    `--${mixedBoundary}`,
+    ...alternative,
+    ...parts,
+    `--${mixedBoundary}--`,
+    "",
+  ].join(CRLF);
+}
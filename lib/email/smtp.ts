@@ -0,0 +1,217 @@
+import { connect as netConnect, type Socket } from "node:net";            // Plain and STARTTLS connections.
+import { connect as tlsConnect, type TLSSocket } from "node:tls";         // Implicit TLS (465) and the STARTTLS upgrade.
+import { hostname } from "node:os";                                        // EHLO name.
+
+/**
+ * Minimal SMTP submission client: EHLO, STARTTLS when offered, AUTH PLAIN/LOGIN, one message
+ * per connection. Enough for a relay like SES, Postmark or Mailgun; no pooling or pipelining.
+ * Credentials are only sent over TLS.
+ */
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  secure: boolean;                                                         // TLS from the first byte (port 465).
+  user?: string | null;
+  pass?: string | null;
+  allowInsecureAuth?: boolean;                                             // Plaintext AUTH, honoured for localhost dev servers only.
+  timeoutMs?: number;
+};
+
+const LOCAL_HOSTS = new Set(["localhost", "127.0.0.1", "::1"]);
+
+export class SmtpError extends Error {
+  code: number | null;
+
+  constructor(message: string, code: number | null = null) {
+    super(message);
+    this.name = "SmtpError";
+    this.code = code;
+  }
+
+  /** 5xx replies won't succeed on retry (bad address, rejected content). */
+  get permanent() {
+    return this.code !== null && this.code >= 500;
+  }
+}
+
+type SmtpReply = { code: number; lines: string[] };
+
+const CRLF = "\r\n";
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/**
+ * Reads multi-line replies ("250-..." continues, "250 ..." ends) off one socket.
+ */
+class ReplyReader {
+  private buffer = "";
+  private lines: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString("utf8");
+    let newline = this.buffer.indexOf("\n");
+    while (newline !== -1) {
+      this.lines.push(this.buffer.slice(0, newline).replace(/\r$/, ""));
+      this.buffer = this.buffer.slice(newline + 1);
+      newline = this.buffer.indexOf("\n");
+    }
+    this.deliver();
+  };
+  private readonly onError = (err: Error) => this.fail(err);
+  private readonly onClose = () => this.fail(new SmtpError("Connection closed by server"));
+
+  constructor(private readonly socket: Socket) {
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", this.onClose);
+  }
+
+  detach() {
+    this.socket.off("data", this.onData);
+    this.socket.off("error", this.onError);
+    this.socket.off("close", this.onClose);
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.deliver();
+    });
+  }
+
+  private deliver() {
+    if (!this.waiting) return;
+    const end = this.lines.findIndex((line) => !/^\d{3}-/.test(line));
+    if (end !== -1) {
+      const lines = this.lines.splice(0, end + 1);
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve({ code: Number(lines[end].slice(0, 3)) || 0, lines: lines.map((line) => line.slice(4)) });
+    } else if (this.failure) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.failure);
+    }
+  }
+
+  private fail(err: Error) {
+    this.failure ??= err;
+    this.deliver();
+  }
+}
+
+function openSocket(config: SmtpConfig, timeoutMs: number): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tlsConnect({ host: config.host, port: config.port, servername: config.host })
+      : netConnect({ host: config.host, port: config.port });
+    socket.setTimeout(timeoutMs, () => socket.destroy(new SmtpError(`Timed out talking to ${config.host}`)));
+    socket.once("error", reject);
+    socket.once(config.secure ? "secureConnect" : "connect", () => {
+      socket.off("error", reject);
+      resolve(socket);
+    });
+  });
+}
+
+function upgradeToTls(socket: Socket, host: string, timeoutMs: number): Promise<TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tlsConnect({ socket, servername: host });
+    secure.setTimeout(timeoutMs, () => secure.destroy(new SmtpError(`Timed out talking to ${host}`)));
+    secure.once("error", reject);
+    secure.once("secureConnect", () => {
+      secure.off("error", reject);
+      resolve(secure);
+    });
+  });
+}
+
+/**
+ * Sends one message. `message` is the full RFC 5322 text with CRLF line endings.
+ * Returns the server's reply to the end of DATA (usually contains its queue ID).
+ */
+export async function sendSmtp(
+  config: SmtpConfig,
+  envelope: { from: string; to: string[] },
+  message: string
+): Promise<string> {
+  for (const address of [envelope.from, ...envelope.to]) {
+    if (!address || /[\r\n<>]/.test(address)) {                             // A line break would start a new SMTP command.
+      throw new SmtpError(`Invalid email address ${JSON.stringify(address)}`, 501);
+    }
+  }
+
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let socket = await openSocket(config, timeoutMs);
+  let reader = new ReplyReader(socket);
+
+  const expect = async (codes: number[], what: string) => {
+    const reply = await reader.read();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`${what} rejected: ${reply.code} ${reply.lines.join(" ")}`.trim(), reply.code);
+    }
+    return reply;
+  };
+  const command = (line: string, codes: number[], what = line.split(" ")[0]) => {
+    socket.write(line + CRLF);
+    return expect(codes, what);
+  };
+  const hello = async () => {
+    const reply = await command(`EHLO ${hostname() || "localhost"}`, [250]);
+    return new Set(reply.lines.slice(1).map((line) => line.toUpperCase()));
+  };
+
+  try {
+    await expect([220], "Greeting");
+    let extensions = await hello();
+    let encrypted = config.secure;
+
+    if (!config.secure && extensions.has("STARTTLS")) {
+      await command("STARTTLS", [220]);
+      reader.detach();
+      socket = await upgradeToTls(socket, config.host, timeoutMs);
+      reader = new ReplyReader(socket);
+      extensions = await hello();
+      encrypted = true;
+    }
+
+    if (config.user && !encrypted && !(config.allowInsecureAuth && LOCAL_HOSTS.has(config.host))) {
+      throw new SmtpError(                                                 // 530 like a server requiring STARTTLS: a retry won't help.
+        `${config.host} doesn't offer STARTTLS; refusing to send the SMTP password unencrypted`,
+        530
+      );
+    }
+
+    if (config.user) {
+      const auth = [...extensions].find((ext) => ext.startsWith("AUTH"))?.split(/[ =]/).slice(1) ?? [];
+      if (auth.includes("PLAIN") || !auth.includes("LOGIN")) {
+        const token = Buffer.from(`\0${config.user}\0${config.pass ?? ""}`).toString("base64");
+        await command(`AUTH PLAIN ${token}`, [235], "AUTH");
+      } else {
+        await command("AUTH LOGIN", [334], "AUTH");
+        await command(Buffer.from(config.user).toString("base64"), [334], "AUTH");
+        await command(Buffer.from(config.pass ?? "").toString("base64"), [235], "AUTH");
+      }
+    }
+
+    await command(`MAIL FROM:<${envelope.from}>`, [250], "MAIL FROM");
+    for (const to of envelope.to) {
+      await command(`RCPT TO:<${to}>`, [250, 251], `RCPT TO ${to}`);
+    }
+    await command("DATA", [354]);
+
+    // A line that is just "." ends DATA, so leading dots are doubled.
+    const body = message.replace(/(^|\r\n)\./g, "$1..");
+    socket.write(body.endsWith(CRLF) ? body : body + CRLF);
+    const accepted = await command(".", [250], "Message");
+
+    socket.write(`QUIT${CRLF}`);
+    return accepted.lines.join(" ");
+  } finally {
+    reader.detach();
+    socket.on("error", () => {});                                          // Late errors after QUIT don't matter.
+    socket.end();
+  }
+}
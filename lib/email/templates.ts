@@ -0,0 +1,165 @@
+import type { Company, Customer, EmailTemplate, Invoice, Payment } from "@prisma/client";
+import { resolveCompanySettings } from "@/lib/companySettings";            // Currency for money values.
+import { daysPastDue, invoiceBalance } from "@/lib/payments";              // Balance due and days overdue.
+import { EMAIL_TEMPLATE_VARIABLES } from "@/lib/schemas/emailTemplates";    // What templates may reference.
+
+/**
+ * `{{path.to.value}}` templates. Values come from a plain context object built per email
+ * kind; money and dates are preformatted strings so templates never need helpers. In HTML
+ * bodies values are escaped; unknown variables render as nothing.
+ */
+
+export type TemplateContext = Record<string, unknown>;
+
+export type RenderedEmail = { subject: string; html: string; text: string | null };
+
+export type TemplateSource = Pick<EmailTemplate, "subject" | "htmlBody" | "textBody">;
+
+const VARIABLE = /\{\{\s*([A-Za-z_][\w]*(?:\.[A-Za-z_][\w]*)*)\s*\}\}/g;
+
+function lookup(context: TemplateContext, path: string): unknown {
+  let value: unknown = context;
+  for (const key of path.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function renderTemplateString(template: string, context: TemplateContext, { html = false } = {}) {
+  return template.replace(VARIABLE, (_, path: string) => {
+    const value = lookup(context, path);
+    if (value === null || value === undefined || typeof value === "object") return "";
+    const text = String(value);
+    return html ? escapeHtml(text).replace(/\r?\n/g, "<br>") : text;
+  });
+}
+
+export function templateVariables(template: string) {
+  return [...new Set([...template.matchAll(VARIABLE)].map((m) => m[1]))];
+}
+
+/**
+ * Variables in a template that no email provides, so typos are caught when it's saved
+ * rather than showing up as blanks in a customer's inbox.
+ */
+export function unknownTemplateVariables(template: Partial<TemplateSource>) {
+  const known = new Set<string>(EMAIL_TEMPLATE_VARIABLES);
+  const used = [template.subject, template.htmlBody, template.textBody].flatMap((part) =>
+    part ? templateVariables(part) : []
+  );
+  return [...new Set(used)].filter((name) => !known.has(name));
+}
+
+export function renderTemplate(template: TemplateSource, context: TemplateContext): RenderedEmail {
+  return {
+    subject: renderTemplateString(template.subject, context).replace(/[\r\n]+/g, " ").trim(),
+    html: renderTemplateString(template.htmlBody, context, { html: true }),
+    text: template.textBody ? renderTemplateString(template.textBody, context) : null,
+  };
+}
+
+/**
+ * Templates every company has without creating them. A company's own template with the
+ * same slug replaces the built-in one.
+ */
+export const BUILT_IN_TEMPLATES: Record<string, TemplateSource & { name: string }> = {
+  invoice: {
+    name: "Invoice",
+    subject: "Invoice {{invoice.number}} from {{company.name}}",
+    htmlBody: [
+      "<p>Hello {{customer.name}},</p>",
+      "<p>Please find attached invoice <strong>{{invoice.number}}</strong> for <strong>{{invoice.total}}</strong>, due {{invoice.dueDate}}.</p>",
+      "<p>Remit to:<br>{{company.remitTo}}</p>",
+      "<p>Thank you for your business,<br>{{company.name}}<br>{{company.phone}}</p>",
+    ].join("\n"),
+    textBody: [
+      "Hello {{customer.name}},",
+      "",
+      "Please find attached invoice {{invoice.number}} for {{invoice.total}}, due {{invoice.dueDate}}.",
+      "",
+      "Remit to:",
+      "{{company.remitTo}}",
+      "",
+      "Thank you for your business,",
+      "{{company.name}}",
+      "{{company.phone}}",
+    ].join("\n"),
+  },
+  "invoice-reminder": {
+    name: "Payment reminder",
+    subject: "Reminder: invoice {{invoice.number}} is due {{invoice.dueDate}}",
+    htmlBody: [
+      "<p>Hello {{customer.name}},</p>",
+      "<p>This is a friendly reminder that invoice <strong>{{invoice.number}}</strong> for <strong>{{invoice.balance}}</strong> is due {{invoice.dueDate}}. A copy is attached.</p>",
+      "<p>Remit to:<br>{{company.remitTo}}</p>",
+      "<p>Thank you,<br>{{company.name}}<br>{{company.phone}}</p>",
+    ].join("\n"),
+    textBody: null,
+  },
+  "invoice-overdue": {
+    name: "Overdue notice",
+    subject: "Invoice {{invoice.number}} is {{invoice.daysPastDue}} days past due",
+    htmlBody: [
+      "<p>Hello {{customer.name}},</p>",
+      "<p>Our records show invoice <strong>{{invoice.number}}</strong>, due {{invoice.dueDate}}, still has <strong>{{invoice.balance}}</strong> open. A copy is attached.</p>",
+      "<p>If payment is already on its way, please disregard this notice. Otherwise please remit to:<br>{{company.remitTo}}</p>",
+      "<p>Thank you,<br>{{company.name}}<br>{{company.phone}}</p>",
+    ].join("\n"),
+    textBody: null,
+  },
+};
+
+// Issue and due dates are calendar dates at midnight UTC; formatting in UTC keeps the day.
+function formatDate(value: Date | null) {
+  return value
+    ? value.toLocaleDateString("en-US", { timeZone: "UTC", year: "numeric", month: "short", day: "numeric" })
+    : "";
+}
+
+export function invoiceEmailContext(
+  invoice: Pick<Invoice, "invoiceNumber" | "total" | "issueDate" | "dueDate" | "status"> & {
+    customer: Pick<Customer, "name" | "email" | "billingEmail">;
+    payments: Pick<Payment, "amount">[];
+  },
+  company: Company,
+  now = new Date()
+): TemplateContext {
+  const { defaultCurrency } = resolveCompanySettings(company);
+  const pastDue = invoice.dueDate ? daysPastDue(invoice.dueDate, now) : null;
+  const money = new Intl.NumberFormat("en-US", { style: "currency", currency: defaultCurrency });
+  const { amountPaid, balance } = invoiceBalance(invoice);
+
+  return {
+    company: {
+      name: company.name,
+      phone: company.phone ?? "",
+      email: company.billingEmail ?? "",
+      remitTo: company.remitTo ?? company.name,
+    },
+    customer: {
+      name: invoice.customer.name,
+      email: invoice.customer.billingEmail ?? invoice.customer.email ?? "",
+    },
+    invoice: {
+      number: invoice.invoiceNumber,
+      total: money.format(invoice.total),
+      amountPaid: money.format(amountPaid),
+      balance: money.format(balance),
+      issueDate: formatDate(invoice.issueDate),
+      dueDate: formatDate(invoice.dueDate),
+      daysPastDue: pastDue !== null ? Math.max(0, pastDue) : "",
+      daysUntilDue: pastDue !== null ? Math.max(0, -pastDue) : "",
+      status: invoice.status,
+    },
+  };
+}
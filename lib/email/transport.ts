@@ -0,0 +1,114 @@
+import { mkdir, writeFile } from "node:fs/promises";                       // File transport output.
+import { join } from "node:path";
+import { addressOnly, buildMimeMessage, htmlToText, messageId, type OutgoingEmail } from "./mime";
+import { sendSmtp, type SmtpConfig } from "./smtp";
+
+/**
+ * Where mail actually goes. SMTP in production; in dev and tests the file transport writes
+ * each message as an .eml (open it in any mail client) and the console transport just logs.
+ *
+ * EMAIL_TRANSPORT=smtp|file|console picks one; unset means smtp when SMTP_HOST is set,
+ * otherwise console. EMAIL_FROM is the sender for every company. SMTP_ALLOW_INSECURE_AUTH=true
+ * lets a localhost dev server (MailHog, smtp4dev) take the password without TLS.
+ */
+
+export type EmailTransport = {
+  name: "smtp" | "file" | "console";
+  send(email: OutgoingEmail): Promise<{ messageId: string }>;
+};
+
+const DEFAULT_FROM = "Dispatch <no-reply@localhost>";
+
+export function defaultFromAddress() {
+  return process.env.EMAIL_FROM?.trim() || DEFAULT_FROM;
+}
+
+export function smtpTransport(config: SmtpConfig): EmailTransport {
+  return {
+    name: "smtp",
+    async send(email) {
+      const id = messageId(email.from);
+      await sendSmtp(
+        config,
+        { from: addressOnly(email.from), to: [addressOnly(email.to)] },
+        buildMimeMessage(email, id)
+      );
+      return { messageId: id };
+    },
+  };
+}
+
+export function fileTransport(dir: string): EmailTransport {
+  return {
+    name: "file",
+    async send(email) {
+      const id = messageId(email.from);
+      await mkdir(dir, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const safeTo = addressOnly(email.to).replace(/[^A-Za-z0-9@._-]+/g, "_");
+      await writeFile(join(dir, `${stamp}-${safeTo}.eml`), buildMimeMessage(email, id));
+      return { messageId: id };
+    },
+  };
+}
+
+export function consoleTransport(): EmailTransport {
+  return {
+    name: "console",
+    async send(email) {
+      const id = messageId(email.from);
+      const attachments = (email.attachments ?? []).map((a) => `${a.fileName} (${a.content.length} bytes)`);
+      console.info(
+        [
+          `[EMAIL] ${id}`,
+          `  To: ${email.to}`,
+          `  Subject: ${email.subject}`,
+          ...(attachments.length > 0 ? [`  Attachments: ${attachments.join(", ")}`] : []),
+          "",
+          email.text ?? htmlToText(email.html),
+        ].join("\n")
+      );
+      return { messageId: id };
+    },
+  };
+}
+
+let configured: EmailTransport | null = null;
+
+/**
+ * The transport from the environment, built once per process.
+ */
+export function emailTransport(): EmailTransport {
+  if (configured) return configured;
+
+  const host = process.env.SMTP_HOST?.trim();
+  const kind = process.env.EMAIL_TRANSPORT?.trim().toLowerCase() || (host ? "smtp" : "console");
+
+  if (kind === "smtp") {
+    if (!host) throw new Error("EMAIL_TRANSPORT=smtp needs SMTP_HOST");
+    const secure = process.env.SMTP_SECURE === "true" || process.env.SMTP_PORT === "465";
+    configured = smtpTransport({
+      host,
+      port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      user: process.env.SMTP_USER || null,
+      pass: process.env.SMTP_PASS || null,
+      allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === "true",
+    });
+  } else if (kind === "file") {
+    configured = fileTransport(process.env.EMAIL_FILE_DIR || join(process.cwd(), ".emails"));
+  } else if (kind === "console") {
+    configured = consoleTransport();
+  } else {
+    throw new Error(`Unknown EMAIL_TRANSPORT "${kind}" (use smtp, file or console)`);
+  }
+
+  return configured;
+}
+
+/**
+ * Swaps the transport, e.g. for a test that wants to capture what was sent.
+ */
+export function setEmailTransport(transport: EmailTransport | null) {
+  configured = transport;
+}
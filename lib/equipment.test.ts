@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertEquipmentAvailable,
+  EquipmentConflictError,
+  equipmentConflictErrorResponse,
+  EquipmentNotFoundError,
+  findEquipmentConflicts,
+  loadWindow,
+  windowsOverlap,
+  type EquipmentAssignment,
+} from "./equipment";
+import type { ScopedDb } from "./scopedDb";
+
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+
+function day(n: number, hour = 0) {
+  return new Date(Date.UTC(2025, 5, n, hour));
+}
+
+/**
+ * Just the filters findEquipmentConflicts sends: equality, null, not, notIn, lt/gt and OR.
+ */
+function matches(row: Row, where: Where): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === "OR") return (condition as Where[]).some((w) => matches(row, w));
+    const value = row[key];
+    if (condition === null || typeof condition !== "object") return value === condition;
+    const ops = condition as Record<string, unknown>;
+    if ("not" in ops) return value !== ops.not;
+    if ("notIn" in ops) return !(ops.notIn as unknown[]).includes(value);
+    if (value === null || value === undefined) return false;
+    if ("lt" in ops) return (value as Date) < (ops.lt as Date);
+    if ("gt" in ops) return (value as Date) > (ops.gt as Date);
+    return true;
+  });
+}
+
+function fakeDb(tables: { trucks: Row[]; trailers: Row[]; loads: Row[] }) {
+  const find = (rows: Row[]) => async ({ where }: { where: Where }) => rows.find((row) => matches(row, where)) ?? null;
+  return {
+    truck: { findFirst: find(tables.trucks) },
+    trailer: { findFirst: find(tables.trailers) },
+    load: { findMany: async ({ where }: { where: Where }) => tables.loads.filter((row) => matches(row, where)) },
+  } as unknown as ScopedDb;
+}
+
+/**
+ * Truck T1 is on load L-1 (June 2–4) and L-2 (pickup June 10, no delivery date); T2 is in
+ * the shop; trailer R1 is on L-1 too; L-3 is a draft on T1 that holds nothing.
+ */
+const DB = fakeDb({
+  trucks: [
+    { id: "t1", unitNumber: "101", status: "ACTIVE" },
+    { id: "t2", unitNumber: "102", status: "IN_SHOP" },
+  ],
+  trailers: [{ id: "r1", trailerNumber: "53-1", status: "ACTIVE" }],
+  loads: [
+    { id: "l1", loadNumber: "L-1", status: "BOOKED", truckId: "t1", trailerId: "r1", pickupDate: day(2), deliveryDate: day(4) },
+    { id: "l2", loadNumber: "L-2", status: "IN_TRANSIT", truckId: "t1", trailerId: null, pickupDate: day(10), deliveryDate: null },
+    { id: "l3", loadNumber: "L-3", status: "DRAFT", truckId: "t1", trailerId: null, pickupDate: day(20), deliveryDate: day(21) },
+  ],
+});
+
+function assignment(extra: Partial<EquipmentAssignment>): EquipmentAssignment {
+  return { status: "BOOKED", truckId: null, trailerId: null, pickupDate: null, deliveryDate: null, ...extra };
+}
+
+describe("loadWindow", () => {
+  it("runs from pickup to delivery", () => {
+    expect(loadWindow({ pickupDate: day(2), deliveryDate: day(4) })).toEqual({ start: day(2), end: day(4) });
+  });
+
+  it("holds at least the pickup day without a later delivery", () => {
+    expect(loadWindow({ pickupDate: day(2, 8), deliveryDate: null })).toEqual({ start: day(2, 8), end: day(3, 8) });
+    expect(loadWindow({ pickupDate: day(2, 8), deliveryDate: day(2, 8) })?.end).toEqual(day(3, 8));
+    expect(loadWindow({ pickupDate: day(2, 8), deliveryDate: day(1) })?.end).toEqual(day(3, 8));
+  });
+
+  it("is null without a pickup date", () => {
+    expect(loadWindow({ pickupDate: null, deliveryDate: day(4) })).toBeNull();
+  });
+});
+
+describe("windowsOverlap", () => {
+  const a = { start: day(2), end: day(4) };
+
+  it("overlaps when the windows share any time", () => {
+    expect(windowsOverlap(a, { start: day(3), end: day(5) })).toBe(true);
+    expect(windowsOverlap(a, { start: day(2, 12), end: day(3) })).toBe(true);
+    expect(windowsOverlap(a, a)).toBe(true);
+  });
+
+  it("lets one load deliver as the next picks up", () => {
+    expect(windowsOverlap(a, { start: day(4), end: day(6) })).toBe(false);
+    expect(windowsOverlap({ start: day(4), end: day(6) }, a)).toBe(false);
+  });
+});
+
+describe("findEquipmentConflicts", () => {
+  it("finds the loads the truck and trailer are already booked on", async () => {
+    const conflicts = await findEquipmentConflicts(
+      DB,
+      assignment({ truckId: "t1", trailerId: "r1", pickupDate: day(3), deliveryDate: day(11) })
+    );
+    expect(conflicts.map((c) => [c.kind, c.reason, c.loads.map((l) => l.loadNumber)])).toEqual([
+      ["truck", "DOUBLE_BOOKED", ["L-1", "L-2"]],
+      ["trailer", "DOUBLE_BOOKED", ["L-1"]],
+    ]);
+  });
+
+  it("ignores the load being saved, idle loads and loads that only touch", async () => {
+    for (const clear of [
+      assignment({ loadId: "l1", truckId: "t1", pickupDate: day(2), deliveryDate: day(4) }),
+      assignment({ truckId: "t1", pickupDate: day(20), deliveryDate: day(21) }),
+      assignment({ truckId: "t1", pickupDate: day(4), deliveryDate: day(10) }),
+    ]) {
+      expect(await findEquipmentConflicts(DB, clear)).toEqual([]);
+    }
+  });
+
+  it("counts a load without a delivery date as holding its pickup day", async () => {
+    const conflicts = await findEquipmentConflicts(
+      DB,
+      assignment({ truckId: "t1", pickupDate: day(10, 18), deliveryDate: day(12) })
+    );
+    expect(conflicts[0]?.loads.map((l) => l.loadNumber)).toEqual(["L-2"]);
+  });
+
+  it("flags equipment in the shop even without dates", async () => {
+    expect(await findEquipmentConflicts(DB, assignment({ truckId: "t2" }))).toEqual([
+      { kind: "truck", equipmentId: "t2", label: "102", status: "IN_SHOP", reason: "UNAVAILABLE", loads: [] },
+    ]);
+  });
+
+  it("says nothing for an idle load", async () => {
+    const draft = assignment({ status: "DRAFT", truckId: "t2", trailerId: "r1", pickupDate: day(3) });
+    expect(await findEquipmentConflicts(DB, draft)).toEqual([]);
+  });
+
+  it("throws for a truck or trailer outside the company, idle or not", async () => {
+    await expect(findEquipmentConflicts(DB, assignment({ truckId: "t-other" }))).rejects.toThrow(
+      new EquipmentNotFoundError("truck", "t-other")
+    );
+    await expect(findEquipmentConflicts(DB, assignment({ status: "CANCELLED", trailerId: "r-other" }))).rejects.toThrow(
+      "Trailer not found"
+    );
+  });
+});
+
+describe("assertEquipmentAvailable", () => {
+  it("throws the conflicts unless overridden", async () => {
+    await expect(assertEquipmentAvailable(DB, assignment({ truckId: "t2" }))).rejects.toBeInstanceOf(EquipmentConflictError);
+    await expect(assertEquipmentAvailable(DB, assignment({ truckId: "t2" }), { override: true })).resolves.toBeUndefined();
+  });
+
+  it("never overrides unknown equipment", async () => {
+    await expect(assertEquipmentAvailable(DB, assignment({ truckId: "t-other" }), { override: true })).rejects.toBeInstanceOf(
+      EquipmentNotFoundError
+    );
+  });
+});
+
+describe("equipmentConflictErrorResponse", () => {
+  it("answers 400 for unknown equipment and 409 for conflicts", async () => {
+    expect(equipmentConflictErrorResponse(new EquipmentNotFoundError("trailer", "r-other"))?.status).toBe(400);
+
+    const res = equipmentConflictErrorResponse(
+      new EquipmentConflictError([
+        { kind: "truck", equipmentId: "t2", label: "102", status: "IN_SHOP", reason: "UNAVAILABLE", loads: [] },
+      ])
+    );
+    expect(res?.status).toBe(409);
+    expect(await res?.json()).toMatchObject({
+      code: "EQUIPMENT_CONFLICT",
+      error: expect.stringContaining("Truck #102 is in shop"),
+    });
+    expect(equipmentConflictErrorResponse(new Error("boom"))).toBeNull();
+  });
+});
@@ -0,0 +1,232 @@
+import { NextResponse } from "next/server";                                 // Builds the 409 in equipmentConflictErrorResponse.
+import type { Load, LoadStatus, Prisma, TruckStatus } from "@prisma/client"; // Row, enum and filter types.
+import type { ScopedDb } from "@/lib/scopedDb";                           // Tenant-scoped reads.
+import type { BookedLoad, EquipmentAvailability, EquipmentConflict, EquipmentKind } from "@/lib/schemas/equipment";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const IDLE_LOAD_STATUSES: LoadStatus[] = ["DRAFT", "CANCELLED", "TONU"]; // Loads that don't tie up their truck or trailer.
+export const UNAVAILABLE_EQUIPMENT_STATUSES: TruckStatus[] = ["IN_SHOP", "RETIRED"]; // Can't be put on a load at all.
+
+const BOOKED_LOAD_SELECT = {
+  id: true,
+  loadNumber: true,
+  status: true,
+  pickupDate: true,
+  deliveryDate: true,
+} as const;
+
+type LoadDates = Pick<Load, "pickupDate" | "deliveryDate">;
+
+export type LoadWindow = { start: Date; end: Date };
+
+/**
+ * When a load holds its equipment: pickup to delivery, and at least the pickup day.
+ * Null without a pickup date, since there's nothing to compare.
+ */
+export function loadWindow(load: LoadDates): LoadWindow | null {
+  if (!load.pickupDate) return null;
+  const start = load.pickupDate;
+  const delivery = load.deliveryDate ?? start;
+  const end = delivery > start ? delivery : new Date(start.getTime() + DAY_MS);
+  return { start, end };
+}
+
+/**
+ * Windows that only touch (one delivers as the next picks up) don't overlap,
+ * so a truck can deliver and reload on the same day.
+ */
+export function windowsOverlap(a: LoadWindow, b: LoadWindow) {
+  return a.start < b.end && b.start < a.end;
+}
+
+// Active loads whose loadWindow may overlap `window`, so Postgres does most of the filtering.
+// Run the rows through `overlapping` for the exact check.
+function overlappingLoadsWhere(window: LoadWindow): Prisma.LoadWhereInput {
+  return {
+    status: { notIn: IDLE_LOAD_STATUSES },
+    pickupDate: { lt: window.end },
+    OR: [
+      { deliveryDate: { gt: window.start } },
+      { deliveryDate: null, pickupDate: { gt: new Date(window.start.getTime() - DAY_MS) } }, // Held for just their pickup day.
+    ],
+  };
+}
+
+// The loads whose loadWindow really overlaps `window`.
+function overlapping<T extends LoadDates>(loads: T[], window: LoadWindow) {
+  return loads.filter((load) => {
+    const held = loadWindow(load);
+    return held !== null && windowsOverlap(held, window);
+  });
+}
+
+export type EquipmentAssignment = LoadDates & {
+  loadId?: string;                                                         // The load being saved; never conflicts with itself.
+  status: LoadStatus;
+  truckId: string | null;
+  trailerId: string | null;
+};
+
+/**
+ * Thrown when the truck or trailer id on a load isn't one of the company's.
+ * Route handlers turn it into a 400 via `equipmentConflictErrorResponse`.
+ */
+export class EquipmentNotFoundError extends Error {
+  constructor(public kind: EquipmentKind, public equipmentId: string) {
+    super(`${kind === "truck" ? "Truck" : "Trailer"} not found`);
+    this.name = "EquipmentNotFoundError";
+  }
+}
+
+/**
+ * Reasons the truck and trailer can't go on this load: either is IN_SHOP/RETIRED, or
+ * already booked on another active load whose window overlaps this one. Empty when the
+ * load is idle (draft, cancelled, TONU), since it doesn't hold its equipment.
+ * Throws EquipmentNotFoundError for an id outside the company, idle or not.
+ */
+export async function findEquipmentConflicts(
+  tdb: ScopedDb,
+  assignment: EquipmentAssignment
+): Promise<EquipmentConflict[]> {
+  const truck = assignment.truckId
+    ? await tdb.truck.findFirst({
+        where: { id: assignment.truckId },
+        select: { id: true, unitNumber: true, status: true },
+      })
+    : null;
+  if (assignment.truckId && !truck) throw new EquipmentNotFoundError("truck", assignment.truckId);
+
+  const trailer = assignment.trailerId
+    ? await tdb.trailer.findFirst({
+        where: { id: assignment.trailerId },
+        select: { id: true, trailerNumber: true, status: true },
+      })
+    : null;
+  if (assignment.trailerId && !trailer) throw new EquipmentNotFoundError("trailer", assignment.trailerId);
+
+  if (IDLE_LOAD_STATUSES.includes(assignment.status)) return [];
+
+  const window = loadWindow(assignment);
+  const others = async (field: "truckId" | "trailerId", id: string) => {
+    if (!window) return [];
+    const loads = await tdb.load.findMany({
+      where: {
+        [field]: id,
+        ...(assignment.loadId ? { id: { not: assignment.loadId } } : {}),
+        ...overlappingLoadsWhere(window),
+      },
+      orderBy: { pickupDate: "asc" },
+      select: BOOKED_LOAD_SELECT,
+    });
+    return overlapping(loads, window);
+  };
+
+  const conflicts: EquipmentConflict[] = [];
+  const check = (
+    kind: EquipmentKind,
+    equipment: { id: string; label: string; status: TruckStatus },
+    loads: BookedLoad[]
+  ) => {
+    const base = { kind, equipmentId: equipment.id, label: equipment.label, status: equipment.status };
+    if (UNAVAILABLE_EQUIPMENT_STATUSES.includes(equipment.status)) {
+      conflicts.push({ ...base, reason: "UNAVAILABLE", loads: [] });
+    }
+    if (loads.length > 0) conflicts.push({ ...base, reason: "DOUBLE_BOOKED", loads });
+  };
+
+  if (truck) check("truck", { ...truck, label: truck.unitNumber }, await others("truckId", truck.id));
+  if (trailer) check("trailer", { ...trailer, label: trailer.trailerNumber }, await others("trailerId", trailer.id));
+
+  return conflicts;
+}
+
+/**
+ * Thrown when a load's truck or trailer is unavailable or double-booked.
+ * Route handlers turn it into a 409 via `equipmentConflictErrorResponse`.
+ */
+export class EquipmentConflictError extends Error {
+  constructor(public conflicts: EquipmentConflict[]) {
+    super(describeConflicts(conflicts));
+    this.name = "EquipmentConflictError";
+  }
+}
+
+function describeConflicts(conflicts: EquipmentConflict[]) {
+  return conflicts
+    .map((c) => {
+      const name = `${c.kind === "truck" ? "Truck" : "Trailer"} #${c.label}`;
+      if (c.reason === "UNAVAILABLE") return `${name} is ${c.status.replace("_", " ").toLowerCase()}`;
+      const loads = c.loads.map((l) => l.loadNumber ?? l.id).join(", ");
+      return `${name} is already booked on load${c.loads.length === 1 ? "" : "s"} ${loads}`;
+    })
+    .join("; ");
+}
+
+/**
+ * Throws EquipmentConflictError unless the assignment is clear or the caller overrides.
+ * An override skips the conflicts, never the EquipmentNotFoundError.
+ */
+export async function assertEquipmentAvailable(
+  tdb: ScopedDb,
+  assignment: EquipmentAssignment,
+  options: { override?: boolean } = {}
+) {
+  const conflicts = await findEquipmentConflicts(tdb, assignment);
+  if (conflicts.length > 0 && !options.override) throw new EquipmentConflictError(conflicts);
+}
+
+export function equipmentConflictErrorResponse(err: unknown) {
+  if (err instanceof EquipmentNotFoundError) {
+    return NextResponse.json({ error: err.message }, { status: 400 });
+  }
+  if (!(err instanceof EquipmentConflictError)) return null;
+  return NextResponse.json(
+    {
+      error: `${err.message}. Resend with overrideConflicts: true to assign anyway.`,
+      code: "EQUIPMENT_CONFLICT",
+      conflicts: err.conflicts,
+    },
+    { status: 409 }
+  );
+}
+
+/**
+ * Every truck and trailer with the active loads booked between `from` and `to`.
+ * Available means ACTIVE with nothing booked in the window.
+ */
+export async function equipmentAvailability(tdb: ScopedDb, from: Date, to: Date) {
+  const window = { start: from, end: to };
+  const candidates = await tdb.load.findMany({
+    where: {
+      OR: [{ truckId: { not: null } }, { trailerId: { not: null } }],
+      AND: [overlappingLoadsWhere(window)],
+    },
+    orderBy: { pickupDate: "asc" },
+    select: { ...BOOKED_LOAD_SELECT, truckId: true, trailerId: true },
+  });
+  const booked = overlapping(candidates, window);
+
+  const [trucks, trailers] = await Promise.all([
+    tdb.truck.findMany({ orderBy: { unitNumber: "asc" }, select: { id: true, unitNumber: true, status: true } }),
+    tdb.trailer.findMany({ orderBy: { trailerNumber: "asc" }, select: { id: true, trailerNumber: true, status: true } }),
+  ]);
+
+  const row = (kind: EquipmentKind, id: string, label: string, status: TruckStatus): EquipmentAvailability => {
+    const loads = booked
+      .filter((load) => (kind === "truck" ? load.truckId : load.trailerId) === id)
+      .map((load) => ({
+        id: load.id,
+        loadNumber: load.loadNumber,
+        status: load.status,
+        pickupDate: load.pickupDate,
+        deliveryDate: load.deliveryDate,
+      }));
+    return { kind, id, label, status, available: status === "ACTIVE" && loads.length === 0, loads };
+  };
+
+  return {
+    trucks: trucks.map((t) => row("truck", t.id, t.unitNumber, t.status)),
+    trailers: trailers.map((t) => row("trailer", t.id, t.trailerNumber, t.status)),
+  };
+}
@@ -1,4 +1,4 @@
-import { db } from "@/lib/db";
+import { scopedDb } from "@/lib/scopedDb";
 import {
   FleetSizeBand,
   FleetUtilizationMetrics,
@@ -59,15 +59,15 @@ export async function calculateFleetUtilization(
   const now = new Date();
   const { start, end, days } = resolvePeriod(range, now);
 
-  const trucks = await db.truck.findMany({
-    where: { companyId, status: "ACTIVE" },
+  const tdb = scopedDb(companyId);
+
+  const trucks = await tdb.truck.findMany({
+    where: { status: "ACTIVE" },
     select: { id: true },
   });
 
-  const loads = await db.load.findMany({
+  const loads = await tdb.load.findMany({
     where: {
-      companyId,
-      isSoftDeleted: false,
       truckId: { not: null },
       pickupDate: { lte: end },
       OR: [{ deliveryDate: { gte: start } }, { deliveryDate: null }],
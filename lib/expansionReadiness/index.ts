@@ -1,15 +1,19 @@
 import { calculateFleetUtilization } from "./fleetUtilization";
 import { TimeRange } from "./types";
+import type { CompanySettings } from "@/lib/companySettings";
 
 export async function calculateExpansionReadiness(
   companyId: string,
-  range: TimeRange
+  range: TimeRange,
+  settings: Pick<CompanySettings, "expandThreshold">
 ) {
   const fleetUtilization = await calculateFleetUtilization(companyId, range);
+  const overallScore = fleetUtilization.score.totalPoints;
 
   return {
     fleetUtilization,
-    overallScore: fleetUtilization.score.totalPoints,
-    readyToExpand: fleetUtilization.score.tier === "STRONG",
+    overallScore,
+    expandThreshold: settings.expandThreshold,
+    readyToExpand: overallScore >= settings.expandThreshold,
   };
 }
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+  estimateFuelCost,
+  estimateLoadFuel,
+  fuelMpg,
+  fuelVariance,
+  normalizeFuelRegion,
+  parseFuelPriceCsv,
+  pickFuelPrice,
+  pickupState,
+  stateToPadd,
+  weekStart,
+  type FuelPriceMatch,
+} from "./fuel";
+import type { ScopedDb } from "./scopedDb";
+
+const SETTINGS = { defaultFuelMpg: 6.5 };
+
+function date(iso: string) {
+  return new Date(`${iso}T00:00:00Z`);
+}
+
+describe("fuel regions", () => {
+  it("normalizes states, PADDs and the national average", () => {
+    expect(normalizeFuelRegion(" tx ")).toBe("TX");
+    expect(normalizeFuelRegion("padd 1a")).toBe("PADD1A");
+    expect(normalizeFuelRegion("PADD_3")).toBe("PADD3");
+    expect(normalizeFuelRegion("usa")).toBe("US");
+    expect(normalizeFuelRegion("Gulf Coast")).toBeNull();
+  });
+
+  it("maps a state to its PADD", () => {
+    expect(stateToPadd("tx")).toBe("PADD3");
+    expect(stateToPadd("MA")).toBe("PADD1A");
+    expect(stateToPadd("PR")).toBeNull();
+  });
+});
+
+describe("weekStart", () => {
+  it("snaps any day to Monday 00:00 UTC", () => {
+    expect(weekStart(new Date("2025-06-04T15:30:00Z"))).toEqual(date("2025-06-02"));   // Wednesday.
+    expect(weekStart(new Date("2025-06-08T23:59:00Z"))).toEqual(date("2025-06-02"));   // Sunday.
+    expect(weekStart(date("2025-06-02"))).toEqual(date("2025-06-02"));
+  });
+});
+
+describe("pickFuelPrice", () => {
+  const PRICES: FuelPriceMatch[] = [
+    { region: "US", weekOf: date("2025-06-02"), pricePerGallon: 3.7 },
+    { region: "PADD3", weekOf: date("2025-05-26"), pricePerGallon: 3.5 },
+    { region: "PADD3", weekOf: date("2025-06-02"), pricePerGallon: 3.45 },
+    { region: "TX", weekOf: date("2025-04-07"), pricePerGallon: 3.3 },                // Too old for June.
+    { region: "PADD3", weekOf: date("2025-06-09"), pricePerGallon: 3.6 },             // After the load's week.
+  ];
+
+  it("takes the most specific region with a recent price, latest week first", () => {
+    expect(pickFuelPrice(PRICES, { state: "TX", date: date("2025-06-05") })?.pricePerGallon).toBe(3.45);
+    expect(pickFuelPrice(PRICES, { state: "CA", date: date("2025-06-05") })?.pricePerGallon).toBe(3.7);
+    expect(pickFuelPrice(PRICES, { state: null, date: date("2025-06-05") })?.region).toBe("US");
+  });
+
+  it("uses a state price inside the age window", () => {
+    expect(pickFuelPrice(PRICES, { state: "TX", date: date("2025-04-20") })?.pricePerGallon).toBe(3.3);
+  });
+
+  it("is null when nothing is recent enough", () => {
+    expect(pickFuelPrice(PRICES, { state: "TX", date: date("2025-08-01") })).toBeNull();
+  });
+});
+
+describe("fuel cost", () => {
+  it("uses the truck's MPG, else the company default", () => {
+    expect(fuelMpg({ mpg: 7.2 }, SETTINGS)).toEqual({ mpg: 7.2, source: "truck" });
+    expect(fuelMpg({ mpg: 0 }, SETTINGS)).toEqual({ mpg: 6.5, source: "company" });
+    expect(fuelMpg(null, SETTINGS)).toEqual({ mpg: 6.5, source: "company" });
+  });
+
+  it("rounds to whole dollars and is zero without miles or MPG", () => {
+    expect(estimateFuelCost(650, 6.5, 3.899)).toBe(390);
+    expect(estimateFuelCost(0, 6.5, 3.9)).toBe(0);
+    expect(estimateFuelCost(650, 0, 3.9)).toBe(0);
+  });
+});
+
+describe("pickupState", () => {
+  it("prices at the first pickup by sequence, falling back to its ZIP", () => {
+    expect(
+      pickupState([
+        { sequence: 2, type: "PICKUP", state: "ok", postalCode: null },
+        { sequence: 1, type: "DELIVERY", state: "TX", postalCode: null },
+        { sequence: 3, type: "PICKUP", state: "AR", postalCode: null },
+      ])
+    ).toBe("OK");
+    expect(pickupState([{ sequence: 1, type: "PICKUP", state: null, postalCode: "60601" }])).toBe("IL");
+  });
+
+  it("uses the first stop without a pickup, and null without stops", () => {
+    expect(pickupState([{ sequence: 1, type: "DELIVERY", state: "TX", postalCode: null }])).toBe("TX");
+    expect(pickupState([])).toBeNull();
+  });
+});
+
+describe("estimateLoadFuel", () => {
+  it("prices loaded plus deadhead miles in the pickup state and week", async () => {
+    const tdb = {
+      fuelPrice: {
+        findMany: async () => [{ region: "PADD3", weekOf: date("2025-06-02"), pricePerGallon: 4 }],
+      },
+    } as unknown as ScopedDb;
+
+    const estimate = await estimateLoadFuel(
+      tdb,
+      {
+        miles: 600,
+        deadheadMiles: 50,
+        pickupDate: date("2025-06-04"),
+        truck: null,
+        stops: [{ sequence: 1, type: "PICKUP", state: "TX", postalCode: null }],
+      },
+      SETTINGS
+    );
+
+    expect(estimate).toMatchObject({ miles: 650, mpg: 6.5, mpgSource: "company", gallons: 100, state: "TX", cost: 400 });
+  });
+});
+
+describe("fuelVariance", () => {
+  it("compares fuel expenses with the estimate", () => {
+    expect(fuelVariance(400, [{ amount: 250 }, { amount: 190 }])).toEqual({
+      estimated: 400,
+      actual: 440,
+      variance: 40,
+      variancePct: 10,
+    });
+    expect(fuelVariance(null, [{ amount: 100 }])).toEqual({ estimated: null, actual: 100, variance: null, variancePct: null });
+  });
+});
+
+describe("parseFuelPriceCsv", () => {
+  it("snaps rows to their week and reports bad lines by number", () => {
+    const { rows, errors } = parseFuelPriceCsv(
+      ["week,region,price", "2025-06-04,TX,$3.89", "", "2025-06-04,Gulf,3.5", "someday,US,3.7", "2025-06-02,padd 2,-1"].join(
+        "\r\n"
+      )
+    );
+
+    expect(rows).toEqual([{ weekOf: date("2025-06-02"), region: "TX", pricePerGallon: 3.89 }]);
+    expect(errors).toEqual([
+      { line: 4, message: 'Unknown region "Gulf"' },
+      { line: 5, message: 'Invalid week "someday"' },
+      { line: 6, message: 'Invalid price "-1"' },
+    ]);
+  });
+});
@@ -0,0 +1,309 @@
+import type { Expense, Load, LoadStop, Truck } from "@prisma/client";    // Rows a fuel estimate is built from.
+import type { CompanySettings } from "@/lib/companySettings";              // Fallback MPG when the truck has none.
+import { zipState } from "@/lib/mileage";                                  // Pickup state from a ZIP when the stop has no state.
+import type { ScopedDb } from "@/lib/scopedDb";                           // Tenant-scoped reads.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const FUEL_PRICE_MAX_AGE_DAYS = 35;                                 // Older weekly prices aren't trusted for an estimate.
+export const NATIONAL_REGION = "US";
+
+export const FUEL_EXPENSE_GROUP = "FUEL";                                  // Expense categoryGroup that counts as actual fuel.
+
+export const LOAD_FUEL_SELECT = {                                          // Everything loadFuelReport needs from a load.
+  miles: true,
+  deadheadMiles: true,
+  pickupDate: true,
+  fuelCost: true,
+  truck: { select: { mpg: true } },
+  stops: { select: { sequence: true, type: true, state: true, postalCode: true } },
+  expenses: { where: { categoryGroup: FUEL_EXPENSE_GROUP }, select: { amount: true } },
+} as const;
+
+export const PADD_REGIONS = ["PADD1A", "PADD1B", "PADD1C", "PADD2", "PADD3", "PADD4", "PADD5"] as const;
+
+export type PaddRegion = (typeof PADD_REGIONS)[number];
+
+// EIA Petroleum Administration for Defense Districts, the regions weekly diesel prices are published for.
+const PADD_STATES: Record<PaddRegion, string[]> = {
+  PADD1A: ["CT", "MA", "ME", "NH", "RI", "VT"],                            // New England
+  PADD1B: ["DC", "DE", "MD", "NJ", "NY", "PA"],                            // Central Atlantic
+  PADD1C: ["FL", "GA", "NC", "SC", "VA", "WV"],                            // Lower Atlantic
+  PADD2: ["IA", "IL", "IN", "KS", "KY", "MI", "MN", "MO", "ND", "NE", "OH", "OK", "SD", "TN", "WI"],
+  PADD3: ["AL", "AR", "LA", "MS", "NM", "TX"],
+  PADD4: ["CO", "ID", "MT", "UT", "WY"],
+  PADD5: ["AK", "AZ", "CA", "HI", "NV", "OR", "WA"],
+};
+
+const STATE_PADD = new Map<string, PaddRegion>(
+  PADD_REGIONS.flatMap((padd) => PADD_STATES[padd].map((state) => [state, padd] as const))
+);
+
+export function stateToPadd(state: string): PaddRegion | null {
+  return STATE_PADD.get(state.trim().toUpperCase()) ?? null;
+}
+
+/**
+ * Canonical region code: a two-letter state, a PADD ("PADD1A", "padd 3" → "PADD3") or "US".
+ * Null for anything else.
+ */
+export function normalizeFuelRegion(value: string): string | null {
+  const region = value.trim().toUpperCase().replace(/[\s_-]+/g, "");
+  if (region === NATIONAL_REGION || region === "USA") return NATIONAL_REGION;
+  if ((PADD_REGIONS as readonly string[]).includes(region)) return region;
+  if (STATE_PADD.has(region)) return region;
+  return null;
+}
+
+/**
+ * Monday 00:00 UTC of the week `date` falls in. Prices are stored per week under this date.
+ */
+export function weekStart(date: Date): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const offset = (start.getUTCDay() + 6) % 7;                              // Days since Monday.
+  start.setUTCDate(start.getUTCDate() - offset);
+  return start;
+}
+
+export type FuelPriceMatch = {
+  region: string;
+  weekOf: Date;
+  pricePerGallon: number;
+};
+
+function priceRegions(state: string | null): string[] {
+  const stateCode = state ? normalizeFuelRegion(state) : null;
+  const padd = stateCode ? stateToPadd(stateCode) : null;
+  return [stateCode, padd, NATIONAL_REGION].filter((r): r is string => Boolean(r));
+}
+
+function priceWindow(date: Date) {
+  const week = weekStart(date);
+  return { lte: week, gte: new Date(week.getTime() - FUEL_PRICE_MAX_AGE_DAYS * DAY_MS) };
+}
+
+/**
+ * Diesel price for a state on a date out of `prices`: the most specific region with a price in
+ * the FUEL_PRICE_MAX_AGE_DAYS before the date wins (state, then its PADD, then US);
+ * within a region, the latest week. Null when nothing recent enough is there.
+ */
+export function pickFuelPrice(
+  prices: FuelPriceMatch[],
+  { state, date }: { state: string | null; date: Date }
+): FuelPriceMatch | null {
+  const window = priceWindow(date);
+  const candidates = prices
+    .filter((p) => p.weekOf <= window.lte && p.weekOf >= window.gte)
+    .sort((a, b) => b.weekOf.getTime() - a.weekOf.getTime());
+
+  for (const region of priceRegions(state)) {
+    const match = candidates.find((p) => p.region === region);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * pickFuelPrice against the company's price table.
+ */
+export async function findFuelPrice(
+  tdb: ScopedDb,
+  lookup: { state: string | null; date: Date }
+): Promise<FuelPriceMatch | null> {
+  const prices = await tdb.fuelPrice.findMany({
+    where: { region: { in: priceRegions(lookup.state) }, weekOf: priceWindow(lookup.date) },
+    select: { region: true, weekOf: true, pricePerGallon: true },
+  });
+  return pickFuelPrice(prices, lookup);
+}
+
+export function fuelMpg(
+  truck: Pick<Truck, "mpg"> | null,
+  settings: Pick<CompanySettings, "defaultFuelMpg">
+): { mpg: number; source: "truck" | "company" } {
+  if (truck?.mpg && truck.mpg > 0) return { mpg: truck.mpg, source: "truck" };
+  return { mpg: settings.defaultFuelMpg, source: "company" };
+}
+
+/**
+ * Whole dollars of fuel to drive `miles` at `mpg` and `pricePerGallon`.
+ */
+export function estimateFuelCost(miles: number, mpg: number, pricePerGallon: number): number {
+  if (miles <= 0 || mpg <= 0) return 0;
+  return Math.round((miles / mpg) * pricePerGallon);
+}
+
+export type FuelEstimate = {
+  miles: number;                                                           // Loaded + deadhead; the truck burns fuel either way.
+  mpg: number;
+  mpgSource: "truck" | "company";
+  gallons: number;
+  state: string | null;                                                    // Where the price was looked up (first pickup).
+  price: FuelPriceMatch | null;
+  cost: number | null;                                                     // Null when no price is on file.
+};
+
+type FuelStop = Pick<LoadStop, "sequence" | "type" | "state" | "postalCode">;
+
+/**
+ * State the load's fuel is priced in: the first pickup's, else the first stop's.
+ */
+export function pickupState(stops: FuelStop[]): string | null {
+  const ordered = [...stops].sort((a, b) => a.sequence - b.sequence);
+  const stop = ordered.find((s) => s.type === "PICKUP") ?? ordered[0];
+  if (!stop) return null;
+  return stop.state?.trim().toUpperCase() || (stop.postalCode ? zipState(stop.postalCode) : null);
+}
+
+type FuelLoad = Pick<Load, "miles" | "deadheadMiles" | "pickupDate"> & {
+  truck: Pick<Truck, "mpg"> | null;
+  stops: FuelStop[];
+};
+
+function buildFuelEstimate(
+  load: FuelLoad,
+  settings: Pick<CompanySettings, "defaultFuelMpg">,
+  state: string | null,
+  price: FuelPriceMatch | null
+): FuelEstimate {
+  const miles = load.miles + (load.deadheadMiles ?? 0);
+  const { mpg, source } = fuelMpg(load.truck, settings);
+
+  return {
+    miles,
+    mpg,
+    mpgSource: source,
+    gallons: mpg > 0 ? Math.round((miles / mpg) * 10) / 10 : 0,
+    state,
+    price,
+    cost: price ? estimateFuelCost(miles, mpg, price.pricePerGallon) : null,
+  };
+}
+
+/**
+ * Expected fuel cost of a load from its miles, the truck's MPG (company default when the
+ * truck has none) and the diesel price for the pickup state in the pickup week.
+ * Loads without a pickup date are priced as of `fallbackDate` (typically now).
+ */
+export async function estimateLoadFuel(
+  tdb: ScopedDb,
+  load: FuelLoad,
+  settings: Pick<CompanySettings, "defaultFuelMpg">,
+  fallbackDate: Date = new Date()
+): Promise<FuelEstimate> {
+  const state = pickupState(load.stops);
+  const price = await findFuelPrice(tdb, { state, date: load.pickupDate ?? fallbackDate });
+  return buildFuelEstimate(load, settings, state, price);
+}
+
+export type FuelVariance = {
+  estimated: number | null;
+  actual: number;                                                          // Linked FUEL expenses.
+  variance: number | null;                                                 // Actual minus estimated; positive = over.
+  variancePct: number | null;
+};
+
+export function fuelVariance(estimated: number | null, fuelExpenses: Pick<Expense, "amount">[]): FuelVariance {
+  const actual = fuelExpenses.reduce((sum, e) => sum + e.amount, 0);
+  const variance = estimated != null ? actual - estimated : null;
+  return {
+    estimated,
+    actual,
+    variance,
+    variancePct: variance != null && estimated ? Math.round((variance / estimated) * 1000) / 10 : null,
+  };
+}
+
+export type FuelPriceRow = {
+  weekOf: Date;
+  region: string;
+  pricePerGallon: number;
+};
+
+export type FuelPriceCsvResult = {
+  rows: FuelPriceRow[];
+  errors: { line: number; message: string }[];
+};
+
+/**
+ * Parses `week,region,price` lines (any date inside the week; header row optional;
+ * "$3.89" accepted). Rows are snapped to their week start; bad lines are reported, not thrown.
+ */
+export function parseFuelPriceCsv(text: string): FuelPriceCsvResult {
+  const rows: FuelPriceRow[] = [];
+  const errors: FuelPriceCsvResult["errors"] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    const [week, region, price] = line.split(",").map((cell) => cell.trim().replace(/^"|"$/g, ""));
+    if (index === 0 && /week|date/i.test(week ?? "")) return;             // Header row.
+
+    const date = new Date(week ?? "");
+    const regionCode = normalizeFuelRegion(region ?? "");
+    const pricePerGallon = Number((price ?? "").replace(/^\$/, ""));
+
+    if (Number.isNaN(date.getTime())) {
+      errors.push({ line: index + 1, message: `Invalid week "${week ?? ""}"` });
+    } else if (!regionCode) {
+      errors.push({ line: index + 1, message: `Unknown region "${region ?? ""}"` });
+    } else if (!Number.isFinite(pricePerGallon) || pricePerGallon <= 0) {
+      errors.push({ line: index + 1, message: `Invalid price "${price ?? ""}"` });
+    } else {
+      rows.push({ weekOf: weekStart(date), region: regionCode, pricePerGallon });
+    }
+  });
+
+  return { rows, errors };
+}
+
+export type LoadFuelReport = FuelVariance & {
+  entered: number | null;                                                  // Load.fuelCost as typed or pre-filled.
+  estimate: FuelEstimate;
+};
+
+/**
+ * Estimated vs actual fuel for a load selected with LOAD_FUEL_SELECT.
+ */
+export async function loadFuelReport(
+  tdb: ScopedDb,
+  load: FuelLoad & Pick<Load, "fuelCost"> & { expenses: Pick<Expense, "amount">[] },
+  settings: Pick<CompanySettings, "defaultFuelMpg">
+): Promise<LoadFuelReport> {
+  const estimate = await estimateLoadFuel(tdb, load, settings);
+  return { entered: load.fuelCost, estimate, ...fuelVariance(estimate.cost, load.expenses) };
+}
+
+/**
+ * loadFuelReport for many loads with a single price query (reports, exports).
+ */
+export async function loadsFuelReport<T extends FuelLoad & Pick<Load, "fuelCost" | "createdAt"> & {
+  expenses: Pick<Expense, "amount">[];
+}>(
+  tdb: ScopedDb,
+  loads: T[],
+  settings: Pick<CompanySettings, "defaultFuelMpg">
+): Promise<(LoadFuelReport & { load: T })[]> {
+  if (loads.length === 0) return [];
+
+  const lookups = loads.map((load) => ({
+    state: pickupState(load.stops),
+    date: load.pickupDate ?? load.createdAt,
+  }));
+  const times = lookups.map((l) => l.date.getTime());
+  const prices = await tdb.fuelPrice.findMany({
+    where: {
+      weekOf: {
+        gte: priceWindow(new Date(Math.min(...times))).gte,
+        lte: priceWindow(new Date(Math.max(...times))).lte,
+      },
+    },
+    select: { region: true, weekOf: true, pricePerGallon: true },
+  });
+
+  return loads.map((load, i) => {
+    const estimate = buildFuelEstimate(load, settings, lookups[i].state, pickFuelPrice(prices, lookups[i]));
+    return { load, entered: load.fuelCost, estimate, ...fuelVariance(estimate.cost, load.expenses) };
+  });
+}
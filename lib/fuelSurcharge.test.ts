@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateFuelSurcharge,
+  computeLoadFuelSurcharge,
+  fuelSurchargeInvoiceLine,
+  type LoadFuelSurcharge,
+} from "./fuelSurcharge";
+import type { ScopedDb } from "./scopedDb";
+
+const SETTINGS = { defaultFuelMpg: 6 };
+const LOAD = { miles: 1000, rate: 3000 };
+
+const PEG = { method: "PEG_PRICE" as const, pegPrice: 1.2, mpg: null, priceStep: null, centsPerStep: null, tiers: [] };
+const STEP = {
+  method: "CENTS_PER_MILE_STEP" as const,
+  pegPrice: 1.2,
+  mpg: null,
+  priceStep: 0.05,
+  centsPerStep: 1,
+  tiers: [],
+};
+const TABLE = {
+  method: "PERCENT_OF_LINEHAUL" as const,
+  pegPrice: null,
+  mpg: null,
+  priceStep: null,
+  centsPerStep: null,
+  tiers: [
+    { minPrice: 3, percent: 10 },
+    { minPrice: 4, percent: 20 },
+    { minPrice: 3.5, percent: 15 },
+  ],
+};
+
+describe("calculateFuelSurcharge", () => {
+  it("PEG_PRICE: price over the peg divided by MPG, per loaded mile", () => {
+    expect(calculateFuelSurcharge(PEG, LOAD, 3.9, SETTINGS)).toEqual({ ratePerMile: 0.45, percent: null, amount: 450 });
+    expect(calculateFuelSurcharge({ ...PEG, mpg: 7.5 }, LOAD, 3.9, SETTINGS).ratePerMile).toBe(0.36);
+  });
+
+  it("CENTS_PER_MILE_STEP: a cent for every full step over the peg", () => {
+    expect(calculateFuelSurcharge(STEP, LOAD, 1.25, SETTINGS)).toEqual({ ratePerMile: 0.01, percent: null, amount: 10 });
+    expect(calculateFuelSurcharge(STEP, LOAD, 1.299, SETTINGS).ratePerMile).toBe(0.01);
+    expect(calculateFuelSurcharge(STEP, LOAD, 3.9, SETTINGS)).toMatchObject({ ratePerMile: 0.54, amount: 540 });
+  });
+
+  it("PERCENT_OF_LINEHAUL: the highest tier the price has reached, whatever the tier order", () => {
+    expect(calculateFuelSurcharge(TABLE, LOAD, 3.5, SETTINGS)).toEqual({ ratePerMile: null, percent: 15, amount: 450 });
+    expect(calculateFuelSurcharge(TABLE, LOAD, 4.25, SETTINGS).percent).toBe(20);
+    expect(calculateFuelSurcharge(TABLE, LOAD, 2.99, SETTINGS)).toMatchObject({ percent: 0, amount: 0 });
+  });
+
+  it("owes nothing at or below the peg", () => {
+    expect(calculateFuelSurcharge(PEG, LOAD, 1.2, SETTINGS).amount).toBe(0);
+    expect(calculateFuelSurcharge(STEP, LOAD, 1, SETTINGS).amount).toBe(0);
+  });
+});
+
+/**
+ * A customer with one peg schedule priced in PADD3, and one diesel price on file.
+ */
+function fakeDb(price: number | null) {
+  return {
+    fuelSurchargeSchedule: {
+      findFirst: async ({ where }: { where: { customerId: string } }) =>
+        where.customerId === "customer-1" ? { ...PEG, id: "fsc-1", name: "DOE peg", priceRegion: "PADD3" } : null,
+    },
+    fuelPrice: {
+      findMany: async () =>
+        price === null ? [] : [{ region: "PADD3", weekOf: new Date("2025-06-02T00:00:00Z"), pricePerGallon: price }],
+    },
+  } as unknown as ScopedDb;
+}
+
+const SURCHARGE_LOAD = {
+  customerId: "customer-1",
+  loadNumber: "L-9",
+  miles: 1000,
+  rate: 3000,
+  pickupDate: new Date("2025-06-04T00:00:00Z"),
+  createdAt: new Date("2025-05-20T00:00:00Z"),
+  stops: [],
+};
+
+describe("computeLoadFuelSurcharge", () => {
+  it("prices the load under its customer's schedule", async () => {
+    expect(await computeLoadFuelSurcharge(fakeDb(3.9), SURCHARGE_LOAD, SETTINGS)).toMatchObject({
+      scheduleId: "fsc-1",
+      method: "PEG_PRICE",
+      ratePerMile: 0.45,
+      amount: 450,
+    });
+  });
+
+  it("has no amount without a diesel price, and nothing without a schedule", async () => {
+    expect(await computeLoadFuelSurcharge(fakeDb(null), SURCHARGE_LOAD, SETTINGS)).toMatchObject({ price: null, amount: null });
+    expect(await computeLoadFuelSurcharge(fakeDb(3.9), { ...SURCHARGE_LOAD, customerId: "customer-2" }, SETTINGS)).toBeNull();
+    expect(await computeLoadFuelSurcharge(fakeDb(3.9), SURCHARGE_LOAD, SETTINGS, null)).toBeNull();
+  });
+});
+
+describe("fuelSurchargeInvoiceLine", () => {
+  const FSC: LoadFuelSurcharge = {
+    scheduleId: "fsc-1",
+    scheduleName: "DOE peg",
+    method: "PEG_PRICE",
+    price: { region: "PADD3", weekOf: new Date("2025-06-02T00:00:00Z"), pricePerGallon: 3.9 },
+    ratePerMile: 0.45,
+    percent: null,
+    amount: 450,
+  };
+
+  it("describes the basis and the diesel price it was priced at", () => {
+    expect(fuelSurchargeInvoiceLine(SURCHARGE_LOAD, FSC)).toEqual({
+      description: "Fuel surcharge — Load L-9 ($0.450/mi × 1000 mi; diesel $3.900 PADD3, week of 2025-06-02)",
+      quantity: 1,
+      unitAmount: 450,
+      total: 450,
+    });
+    expect(fuelSurchargeInvoiceLine(SURCHARGE_LOAD, { ...FSC, ratePerMile: null, percent: 15 })?.description).toContain(
+      "15% of linehaul"
+    );
+  });
+
+  it("skips a surcharge with nothing to bill", () => {
+    expect(fuelSurchargeInvoiceLine(SURCHARGE_LOAD, { ...FSC, amount: 0 })).toBeNull();
+    expect(fuelSurchargeInvoiceLine(SURCHARGE_LOAD, { ...FSC, price: null })).toBeNull();
+  });
+});
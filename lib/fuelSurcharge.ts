@@ -0,0 +1,161 @@
+import type { FuelSurchargeSchedule, FuelSurchargeTier, Load } from "@prisma/client"; // Schedule rows and the loads they price.
+import type { CompanySettings } from "@/lib/companySettings";              // Fallback MPG for peg-price schedules.
+import { findFuelPrice, pickupState, type FuelPriceMatch } from "@/lib/fuel"; // Weekly diesel price lookup.
+import type { ScopedDb } from "@/lib/scopedDb";                           // Tenant-scoped reads.
+
+export const FUEL_SURCHARGE_SCHEDULE_INCLUDE = {
+  tiers: { orderBy: { minPrice: "asc" } },
+} as const;
+
+export const FUEL_SURCHARGE_LOAD_SELECT = {                                // Everything computeLoadFuelSurcharge needs from a load.
+  customerId: true,
+  miles: true,
+  rate: true,
+  pickupDate: true,
+  createdAt: true,
+  stops: { select: { sequence: true, type: true, state: true, postalCode: true } },
+} as const;
+
+type Schedule = Pick<
+  FuelSurchargeSchedule,
+  "method" | "pegPrice" | "mpg" | "priceStep" | "centsPerStep"
+> & { tiers: Pick<FuelSurchargeTier, "minPrice" | "percent">[] };
+
+type ScheduleWithMeta = Schedule & Pick<FuelSurchargeSchedule, "id" | "name" | "priceRegion">;
+
+export type FuelSurchargeCalculation = {
+  ratePerMile: number | null;                                              // Dollars per loaded mile (peg and step schedules).
+  percent: number | null;                                                  // Share of linehaul (percentage tables).
+  amount: number;                                                          // Whole dollars.
+};
+
+function round3(value: number) {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * FSC for one load at a given diesel price. Nothing is owed at or below the peg.
+ *   PEG_PRICE            (price − peg) ÷ MPG per loaded mile; schedule MPG, else the company default
+ *   CENTS_PER_MILE_STEP  centsPerStep for every full priceStep above the peg, per loaded mile
+ *   PERCENT_OF_LINEHAUL  the percent of the highest tier whose minPrice the price has reached, times the rate
+ */
+export function calculateFuelSurcharge(
+  schedule: Schedule,
+  load: Pick<Load, "miles" | "rate">,
+  pricePerGallon: number,
+  settings: Pick<CompanySettings, "defaultFuelMpg">
+): FuelSurchargeCalculation {
+  switch (schedule.method) {
+    case "PEG_PRICE": {
+      const mpg = schedule.mpg ?? settings.defaultFuelMpg;
+      const over = Math.max(0, pricePerGallon - (schedule.pegPrice ?? 0));
+      const ratePerMile = mpg > 0 ? round3(over / mpg) : 0;
+      return { ratePerMile, percent: null, amount: Math.round(ratePerMile * load.miles) };
+    }
+    case "CENTS_PER_MILE_STEP": {
+      const step = schedule.priceStep ?? 0;
+      const over = Math.max(0, pricePerGallon - (schedule.pegPrice ?? 0));
+      const steps = step > 0 ? Math.floor(round3(over / step)) : 0;       // round3 so $0.05 / $0.05 isn't 0.9999…
+      const ratePerMile = round3((steps * (schedule.centsPerStep ?? 0)) / 100);
+      return { ratePerMile, percent: null, amount: Math.round(ratePerMile * load.miles) };
+    }
+    case "PERCENT_OF_LINEHAUL": {
+      const tier = [...schedule.tiers]
+        .sort((a, b) => b.minPrice - a.minPrice)
+        .find((t) => pricePerGallon >= t.minPrice);
+      const percent = tier?.percent ?? 0;
+      return { ratePerMile: null, percent, amount: Math.round((load.rate * percent) / 100) };
+    }
+  }
+}
+
+/**
+ * The customer's schedule in force on `date`: active, effective on or before it
+ * (no effective date = always), latest effective date first.
+ */
+export async function findFuelSurchargeSchedule(
+  tdb: ScopedDb,
+  customerId: string,
+  date: Date
+) {
+  return tdb.fuelSurchargeSchedule.findFirst({
+    where: {
+      customerId,
+      isActive: true,
+      OR: [{ effectiveFrom: null }, { effectiveFrom: { lte: date } }],
+    },
+    orderBy: [{ effectiveFrom: { sort: "desc", nulls: "last" } }, { createdAt: "desc" }],
+    include: FUEL_SURCHARGE_SCHEDULE_INCLUDE,
+  });
+}
+
+export type LoadFuelSurcharge = {
+  scheduleId: string;
+  scheduleName: string;
+  method: FuelSurchargeSchedule["method"];
+  price: FuelPriceMatch | null;
+  ratePerMile: number | null;
+  percent: number | null;
+  amount: number | null;                                                   // Null when no diesel price is on file for the week.
+};
+
+type SurchargeLoad = Pick<Load, "customerId" | "miles" | "rate" | "pickupDate" | "createdAt"> & {
+  stops: Parameters<typeof pickupState>[0];
+};
+
+/**
+ * FSC for a load under its customer's schedule, priced at the pickup week (creation week
+ * when there's no pickup date) in the schedule's price region, else the pickup state.
+ * Null when the customer has no schedule in force. `customerId` overrides the load's own,
+ * e.g. for the customer on an invoice.
+ */
+export async function computeLoadFuelSurcharge(
+  tdb: ScopedDb,
+  load: SurchargeLoad,
+  settings: Pick<CompanySettings, "defaultFuelMpg">,
+  customerId: string | null = load.customerId
+): Promise<LoadFuelSurcharge | null> {
+  if (!customerId) return null;
+
+  const date = load.pickupDate ?? load.createdAt;
+  const schedule: ScheduleWithMeta | null = await findFuelSurchargeSchedule(tdb, customerId, date);
+  if (!schedule) return null;
+
+  const price = await findFuelPrice(tdb, { state: schedule.priceRegion ?? pickupState(load.stops), date });
+  const calc = price ? calculateFuelSurcharge(schedule, load, price.pricePerGallon, settings) : null;
+
+  return {
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    method: schedule.method,
+    price,
+    ratePerMile: calc?.ratePerMile ?? null,
+    percent: calc?.percent ?? null,
+    amount: calc?.amount ?? null,
+  };
+}
+
+/**
+ * Invoice line for a load's FSC, or null when there's nothing to bill.
+ */
+export function fuelSurchargeInvoiceLine(
+  load: Pick<Load, "loadNumber" | "miles">,
+  fsc: LoadFuelSurcharge
+) {
+  if (!fsc.amount || fsc.amount <= 0 || !fsc.price) return null;
+
+  const basis =
+    fsc.percent !== null
+      ? `${fsc.percent}% of linehaul`
+      : `$${(fsc.ratePerMile ?? 0).toFixed(3)}/mi × ${load.miles} mi`;
+  const week = fsc.price.weekOf.toISOString().slice(0, 10);
+
+  return {
+    description:
+      `Fuel surcharge${load.loadNumber ? ` — Load ${load.loadNumber}` : ""} ` +
+      `(${basis}; diesel $${fsc.price.pricePerGallon.toFixed(3)} ${fsc.price.region}, week of ${week})`,
+    quantity: 1,
+    unitAmount: fsc.amount,
+    total: fsc.amount,
+  };
+}
@@ -0,0 +1,56 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  createAccessorial,
+  deleteAccessorial,
+  listAccessorials,
+  updateAccessorial,
+} from "@/lib/api/accessorials";
+import type { CreateAccessorialInput, UpdateAccessorialInput } from "@/lib/schemas/accessorials";
+
+function accessorialsKey(loadId: string) {
+  return ["loads", loadId, "accessorials"];
+}
+
+export function useAccessorials(loadId: string) {
+  return useQuery({
+    queryKey: accessorialsKey(loadId),
+    queryFn: () => listAccessorials(loadId),
+    enabled: Boolean(loadId),
+  });
+}
+
+function useInvalidateAccessorials(loadId: string) {
+  const qc = useQueryClient();
+  return () => {
+    qc.invalidateQueries({ queryKey: accessorialsKey(loadId) });
+    qc.invalidateQueries({ queryKey: ["audit"] });
+  };
+}
+
+export function useCreateAccessorial(loadId: string) {
+  const invalidate = useInvalidateAccessorials(loadId);
+
+  return useMutation({
+    mutationFn: (input: CreateAccessorialInput) => createAccessorial(loadId, input),
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateAccessorial(loadId: string) {
+  const invalidate = useInvalidateAccessorials(loadId);
+
+  return useMutation({
+    mutationFn: ({ accessorialId, input }: { accessorialId: string; input: UpdateAccessorialInput }) =>
+      updateAccessorial(loadId, accessorialId, input),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteAccessorial(loadId: string) {
+  const invalidate = useInvalidateAccessorials(loadId);
+
+  return useMutation({
+    mutationFn: (accessorialId: string) => deleteAccessorial(loadId, accessorialId),
+    onSuccess: invalidate,
+  });
+}
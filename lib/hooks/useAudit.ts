@@ -0,0 +1,10 @@
+import { useQuery } from "@tanstack/react-query";
+import { listAuditEvents } from "@/lib/api/audit";
+import type { AuditQuery } from "@/lib/schemas/audit";
+
+export function useAuditEvents(query: AuditQuery) {
+  return useQuery({
+    queryKey: ["audit", query.entityType ?? null, query.entityId ?? null, query.limit ?? null],
+    queryFn: () => listAuditEvents(query),
+  });
+}
@@ -0,0 +1,21 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getCompanySettings, updateCompanySettings } from "@/lib/api/companySettings";
+import type { UpdateCompanySettingsInput } from "@/lib/schemas/companySettings";
+
+export function useCompanySettings() {
+  return useQuery({
+    queryKey: ["companySettings"],
+    queryFn: getCompanySettings,
+  });
+}
+
+export function useUpdateCompanySettings() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateCompanySettingsInput) => updateCompanySettings(input),
+    onSuccess: (data) => {
+      qc.setQueryData(["companySettings"], data);
+    },
+  });
+}
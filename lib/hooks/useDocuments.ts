@@ -3,6 +3,7 @@ import {
   deleteDocument,
   getDocument,
   listDocuments,
+  parseRateCon,
   uploadDocument,
 } from "@/lib/api/documents";
 
@@ -42,3 +43,20 @@ export function useDeleteDocument() {
     },
   });
 }
+
+// Upload + parse in one step for the new-load form
+export function useImportRateCon() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (file: File) => {
+      const form = new FormData();
+      form.append("file", file);
+      const doc = await uploadDocument(form);
+      return parseRateCon(doc.id);
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["documents"] });
+    },
+  });
+}
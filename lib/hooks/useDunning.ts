@@ -0,0 +1,49 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  createDunningStep,
+  deleteDunningStep,
+  listDunningSteps,
+  updateDunningStep,
+} from "@/lib/api/dunning";
+import type { CreateDunningStepInput, UpdateDunningStepInput } from "@/lib/schemas/dunning";
+
+export function useDunningSteps() {
+  return useQuery({
+    queryKey: ["dunningSteps"],
+    queryFn: listDunningSteps,
+  });
+}
+
+export function useCreateDunningStep() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateDunningStepInput) => createDunningStep(input),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["dunningSteps"] });
+    },
+  });
+}
+
+export function useUpdateDunningStep() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ stepId, input }: { stepId: string; input: UpdateDunningStepInput }) =>
+      updateDunningStep(stepId, input),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["dunningSteps"] });
+    },
+  });
+}
+
+export function useDeleteDunningStep() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (stepId: string) => deleteDunningStep(stepId),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["dunningSteps"] });
+    },
+  });
+}
@@ -0,0 +1,49 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  createEmailTemplate,
+  deleteEmailTemplate,
+  listEmailTemplates,
+  updateEmailTemplate,
+} from "@/lib/api/emailTemplates";
+import type { CreateEmailTemplateInput, UpdateEmailTemplateInput } from "@/lib/schemas/emailTemplates";
+
+export function useEmailTemplates() {
+  return useQuery({
+    queryKey: ["emailTemplates"],
+    queryFn: listEmailTemplates,
+  });
+}
+
+export function useCreateEmailTemplate() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateEmailTemplateInput) => createEmailTemplate(input),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["emailTemplates"] });
+    },
+  });
+}
+
+export function useUpdateEmailTemplate() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ templateId, input }: { templateId: string; input: UpdateEmailTemplateInput }) =>
+      updateEmailTemplate(templateId, input),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["emailTemplates"] });
+    },
+  });
+}
+
+export function useDeleteEmailTemplate() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (templateId: string) => deleteEmailTemplate(templateId),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["emailTemplates"] });
+    },
+  });
+}
@@ -0,0 +1,10 @@
+import { useQuery } from "@tanstack/react-query";
+import { getEquipmentAvailability } from "@/lib/api/equipment";
+
+export function useEquipmentAvailability(from: string, to: string) {
+  return useQuery({
+    queryKey: ["equipment", "availability", from, to],
+    queryFn: () => getEquipmentAvailability(from, to),
+    enabled: Boolean(from && to) && to >= from,
+  });
+}
@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  deleteFuelPrice,
+  estimateFuel,
+  importFuelPrices,
+  listFuelPrices,
+  upsertFuelPrice,
+} from "@/lib/api/fuelPrices";
+import type {
+  FuelEstimateQuery,
+  ImportFuelPricesInput,
+  UpsertFuelPriceInput,
+} from "@/lib/schemas/fuelPrices";
+
+export function useFuelPrices() {
+  return useQuery({
+    queryKey: ["fuelPrices"],
+    queryFn: listFuelPrices,
+  });
+}
+
+export function useUpsertFuelPrice() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpsertFuelPriceInput) => upsertFuelPrice(input),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["fuelPrices"] });
+    },
+  });
+}
+
+export function useImportFuelPrices() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: ImportFuelPricesInput) => importFuelPrices(input),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["fuelPrices"] });
+    },
+  });
+}
+
+export function useDeleteFuelPrice() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteFuelPrice(id),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["fuelPrices"] });
+    },
+  });
+}
+
+// Disabled until there are miles to price
+export function useFuelEstimate(query: FuelEstimateQuery | null) {
+  return useQuery({
+    queryKey: ["fuelEstimate", query],
+    queryFn: () => estimateFuel(query!),
+    enabled: query !== null && query.miles > 0,
+  });
+}
@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  createFuelSurchargeSchedule,
+  deleteFuelSurchargeSchedule,
+  getLoadFuelSurcharge,
+  listFuelSurchargeSchedules,
+  updateFuelSurchargeSchedule,
+} from "@/lib/api/fuelSurcharge";
+import type {
+  CreateFuelSurchargeScheduleInput,
+  UpdateFuelSurchargeScheduleInput,
+} from "@/lib/schemas/fuelSurcharge";
+
+export function useFuelSurchargeSchedules(customerId: string) {
+  return useQuery({
+    queryKey: ["fuelSurchargeSchedules", customerId],
+    queryFn: () => listFuelSurchargeSchedules(customerId),
+  });
+}
+
+export function useCreateFuelSurchargeSchedule(customerId: string) {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateFuelSurchargeScheduleInput) => createFuelSurchargeSchedule(customerId, input),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["fuelSurchargeSchedules", customerId] });
+    },
+  });
+}
+
+export function useUpdateFuelSurchargeSchedule(customerId: string) {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ scheduleId, input }: { scheduleId: string; input: UpdateFuelSurchargeScheduleInput }) =>
+      updateFuelSurchargeSchedule(customerId, scheduleId, input),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["fuelSurchargeSchedules", customerId] });
+    },
+  });
+}
+
+export function useDeleteFuelSurchargeSchedule(customerId: string) {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (scheduleId: string) => deleteFuelSurchargeSchedule(customerId, scheduleId),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["fuelSurchargeSchedules", customerId] });
+    },
+  });
+}
+
+export function useLoadFuelSurcharge(loadId: string) {
+  return useQuery({
+    queryKey: ["loadFuelSurcharge", loadId],
+    queryFn: () => getLoadFuelSurcharge(loadId),
+  });
+}
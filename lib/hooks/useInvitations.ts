@@ -0,0 +1,44 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  createInvitation,
+  listInvitations,
+  listTeamMembers,
+  revokeInvitation,
+} from "@/lib/api/invitations";
+import type { CreateInvitationInput } from "@/lib/schemas/invitations";
+
+export function useTeamMembers() {
+  return useQuery({
+    queryKey: ["team"],
+    queryFn: listTeamMembers,
+  });
+}
+
+export function useInvitations() {
+  return useQuery({
+    queryKey: ["invitations"],
+    queryFn: listInvitations,
+  });
+}
+
+export function useCreateInvitation() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateInvitationInput) => createInvitation(input),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["invitations"] });
+    },
+  });
+}
+
+export function useRevokeInvitation() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => revokeInvitation(id),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["invitations"] });
+    },
+  });
+}
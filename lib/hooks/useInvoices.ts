@@ -0,0 +1,28 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { createInvoiceFromLoads, sendInvoice } from "@/lib/api/invoices";
+import type { InvoiceFromLoadsInput, SendInvoiceInput } from "@/lib/schemas/invoices";
+
+export function useCreateInvoiceFromLoads() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: InvoiceFromLoadsInput) => createInvoiceFromLoads(input),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["loads"] }); // status moved to INVOICED, accessorials locked
+      qc.invalidateQueries({ queryKey: ["audit"] });
+    },
+  });
+}
+
+export function useSendInvoice() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ invoiceId, input }: { invoiceId: string; input?: SendInvoiceInput }) =>
+      sendInvoice(invoiceId, input),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["loads"] }); // a DRAFT invoice shows as SENT
+      qc.invalidateQueries({ queryKey: ["audit"] });
+    },
+  });
+}
@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  createLoadTemplate,
+  deleteLoadTemplate,
+  duplicateLoad,
+  listLoadTemplates,
+  updateLoadTemplate,
+} from "@/lib/api/loadTemplates";
+import type {
+  CreateLoadTemplateInput,
+  DuplicateLoadInput,
+  UpdateLoadTemplateInput,
+} from "@/lib/schemas/loadTemplates";
+
+export function useLoadTemplates() {
+  return useQuery({
+    queryKey: ["loadTemplates"],
+    queryFn: listLoadTemplates,
+  });
+}
+
+export function useCreateLoadTemplate() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateLoadTemplateInput) => createLoadTemplate(input),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["loadTemplates"] });
+    },
+  });
+}
+
+export function useUpdateLoadTemplate() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ templateId, input }: { templateId: string; input: UpdateLoadTemplateInput }) =>
+      updateLoadTemplate(templateId, input),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["loadTemplates"] });
+    },
+  });
+}
+
+export function useDeleteLoadTemplate() {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (templateId: string) => deleteLoadTemplate(templateId),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["loadTemplates"] });
+    },
+  });
+}
+
+export function useDuplicateLoad(loadId: string) {
+  return useMutation({
+    mutationFn: (input: DuplicateLoadInput = {}) => duplicateLoad(loadId, input),
+  });
+}
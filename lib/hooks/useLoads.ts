@@ -0,0 +1,25 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { transitionLoad, updateLoad } from "@/lib/api/loads";
+import type { LoadTransitionInput, UpdateLoadFinancialsInput } from "@/lib/schemas/loads";
+
+export function useUpdateLoad(loadId: string) {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateLoadFinancialsInput) => updateLoad(loadId, input),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["audit"] });
+    },
+  });
+}
+
+export function useTransitionLoad(loadId: string) {
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: LoadTransitionInput) => transitionLoad(loadId, input),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["audit"] });
+    },
+  });
+}
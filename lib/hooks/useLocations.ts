@@ -0,0 +1,9 @@
+import { useQuery } from "@tanstack/react-query";
+import { listLocations } from "@/lib/api/locations";
+
+export function useLocations() {
+  return useQuery({
+    queryKey: ["locations"],
+    queryFn: listLocations,
+  });
+}
@@ -0,0 +1,95 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  checkStop,
+  createStop,
+  deleteStop,
+  listStops,
+  reorderStops,
+  updateStop,
+} from "@/lib/api/stops";
+import type { CreateStopInput, LoadStop, UpdateStopInput } from "@/lib/schemas/stops";
+
+function stopsKey(loadId: string) {
+  return ["loads", loadId, "stops"];
+}
+
+export function useStops(loadId: string) {
+  return useQuery({
+    queryKey: stopsKey(loadId),
+    queryFn: () => listStops(loadId),
+    enabled: Boolean(loadId),
+  });
+}
+
+// Stop changes also show up in the load's audit timeline
+function useInvalidateStops(loadId: string) {
+  const qc = useQueryClient();
+  return () => {
+    qc.invalidateQueries({ queryKey: stopsKey(loadId) });
+    qc.invalidateQueries({ queryKey: ["audit"] });
+  };
+}
+
+export function useCreateStop(loadId: string) {
+  const invalidate = useInvalidateStops(loadId);
+
+  return useMutation({
+    mutationFn: (input: CreateStopInput) => createStop(loadId, input),
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateStop(loadId: string) {
+  const invalidate = useInvalidateStops(loadId);
+
+  return useMutation({
+    mutationFn: ({ stopId, input }: { stopId: string; input: UpdateStopInput }) =>
+      updateStop(loadId, stopId, input),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteStop(loadId: string) {
+  const invalidate = useInvalidateStops(loadId);
+
+  return useMutation({
+    mutationFn: (stopId: string) => deleteStop(loadId, stopId),
+    onSuccess: invalidate,
+  });
+}
+
+export function useReorderStops(loadId: string) {
+  const qc = useQueryClient();
+  const invalidate = useInvalidateStops(loadId);
+
+  return useMutation({
+    mutationFn: (stopIds: string[]) => reorderStops(loadId, stopIds),
+    onMutate: async (stopIds) => {
+      // Optimistic: show the dropped order right away
+      await qc.cancelQueries({ queryKey: stopsKey(loadId) });
+      const previous = qc.getQueryData<LoadStop[]>(stopsKey(loadId));
+      if (previous) {
+        const byId = new Map(previous.map((s) => [s.id, s]));
+        qc.setQueryData(
+          stopsKey(loadId),
+          stopIds.map((id, sequence) => ({ ...byId.get(id)!, sequence }))
+        );
+      }
+      return { previous };
+    },
+    onError: (_err, _stopIds, context) => {
+      if (context?.previous) qc.setQueryData(stopsKey(loadId), context.previous);
+    },
+    onSettled: invalidate,
+  });
+}
+
+export function useCheckStop(loadId: string) {
+  const invalidate = useInvalidateStops(loadId);
+
+  return useMutation({
+    mutationFn: ({ stopId, kind }: { stopId: string; kind: "check-in" | "check-out" }) =>
+      checkStop(loadId, stopId, kind),
+    onSuccess: invalidate,
+  });
+}
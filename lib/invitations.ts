@@ -0,0 +1,61 @@
+import type { Invitation } from "@prisma/client";                          // Row type for status helpers below.
+
+export const INVITATION_TTL_DAYS = 7;                                      // Invite links stop working after a week.
+
+export type InvitationStatus = "PENDING" | "ACCEPTED" | "EXPIRED" | "REVOKED";
+
+export function invitationStatus(                                          // Derives a single status from the timestamp columns.
+  invitation: Pick<Invitation, "acceptedAt" | "revokedAt" | "expiresAt">,
+  now = new Date()
+): InvitationStatus {
+  if (invitation.acceptedAt) return "ACCEPTED";
+  if (invitation.revokedAt) return "REVOKED";
+  if (invitation.expiresAt < now) return "EXPIRED";
+  return "PENDING";
+}
+
+export function invitationAcceptUrl(origin: string, token: string) {      // Link the invitee clicks; APP_URL wins so emails never point at localhost.
+  const base = process.env.APP_URL ?? origin;
+  return `${base.replace(/\/$/, "")}/auth/accept-invite?token=${encodeURIComponent(token)}`;
+}
+
+export function invitationEmail(params: {                                  // Subject + preview stored on the EmailLog row.
+  companyName: string;
+  inviterName: string;
+  role: string;
+}) {
+  const role = params.role.replace("_", " ").toLowerCase();
+  return {
+    subject: `You're invited to join ${params.companyName} on FleetCore`,
+    bodyPreview: `${params.inviterName} invited you to join ${params.companyName} as ${role}. The link expires in ${INVITATION_TTL_DAYS} days.`, // The token itself is never stored in plain text.
+  };
+}
+
+export function invitationEmailBody(params: {                              // Sent once and never stored: it carries the token.
+  companyName: string;
+  inviterName: string;
+  role: string;
+  acceptUrl: string;
+}) {
+  const { bodyPreview } = invitationEmail(params);
+  const escape = (value: string) =>
+    value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+  return {
+    html: `<p>${escape(bodyPreview)}</p>\n<p><a href="${escape(params.acceptUrl)}">Accept the invitation</a></p>`,
+    text: `${bodyPreview}\n\nAccept the invitation: ${params.acceptUrl}`,
+  };
+}
+
+export function serializeInvitation<T extends Invitation>(invitation: T) { // API shape: status added, token hash never leaves the server.
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    status: invitationStatus(invitation),
+    expiresAt: invitation.expiresAt,
+    acceptedAt: invitation.acceptedAt,
+    revokedAt: invitation.revokedAt,
+    createdAt: invitation.createdAt,
+    ...("invitedBy" in invitation ? { invitedBy: invitation.invitedBy } : {}),
+  };
+}
@@ -0,0 +1,340 @@
+import type { Company, DocumentType, Prisma } from "@prisma/client";       // Rows the invoice is printed from.
+import { resolveCompanySettings } from "@/lib/companySettings";            // Currency and timezone.
+import { documentType } from "@/lib/documents";                          // Untyped uploads are classified by file name.
+import { invoiceBalance } from "@/lib/payments";                           // Payments received / balance due.
+import { PdfImportError, importPdfPages } from "@/lib/pdfImport";          // Merges rate cons, BOLs and PODs.
+import {
+  addJpegImage,
+  addPngImage,
+  LETTER,
+  PdfDocument,
+  PdfImageError,
+  PdfPage,
+  wrapText,
+  type TextOptions,
+} from "@/lib/pdfWriter";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";                     // Packet documents are read from storage.
+
+export const INVOICE_PDF_INCLUDE = {
+  customer: true,
+  lines: true,
+  payments: { select: { amount: true } },
+  loadLinks: {
+    include: {
+      load: {
+        select: {
+          id: true,
+          loadNumber: true,
+          pickupDate: true,
+          deliveryDate: true,
+          stops: { orderBy: { sequence: "asc" }, select: { type: true, city: true, state: true } },
+          documents: {
+            orderBy: { createdAt: "asc" },
+            select: { id: true, fileName: true, fileType: true, type: true, storageKey: true },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+export type InvoiceForPdf = Prisma.InvoiceGetPayload<{ include: typeof INVOICE_PDF_INCLUDE }>;
+
+type PacketDocument = InvoiceForPdf["loadLinks"][number]["load"]["documents"][number];
+
+export const PACKET_DOCUMENT_TYPES: DocumentType[] = ["RATE_CON", "BOL", "POD"]; // Packet order within each load.
+
+const MARGIN = 48;
+const RIGHT = LETTER.width - MARGIN;
+const BOTTOM = 72;                                                         // Lowest baseline before breaking to a new page.
+const MUTED: TextOptions["color"] = [0.4, 0.45, 0.5];
+
+// Issue and due dates are calendar dates stored at midnight UTC, so they print in UTC to keep the day.
+function formatDate(value: Date | null, timeZone = "UTC") {
+  return value
+    ? value.toLocaleDateString("en-US", { timeZone, year: "numeric", month: "short", day: "numeric" })
+    : "—";
+}
+
+function cityState(place: { city: string | null; state: string | null } | undefined) {
+  return place ? [place.city, place.state].filter(Boolean).join(", ") : "";
+}
+
+function addressLines(party: {
+  addressLine1: string | null;
+  addressLine2: string | null;
+  city: string | null;
+  state: string | null;
+  postalCode: string | null;
+}) {
+  const cityLine = [[party.city, party.state].filter(Boolean).join(", "), party.postalCode].filter(Boolean).join(" ");
+  return [party.addressLine1, party.addressLine2, cityLine].filter((line): line is string => Boolean(line));
+}
+
+/**
+ * Lays the invoice out on as many letter pages as the lines need and adds them to `doc`:
+ * company header with DOT/MC, bill-to and remit-to, the loads covered, lines, totals and notes.
+ */
+export async function renderInvoice(doc: PdfDocument, invoice: InvoiceForPdf, company: Company) {
+  const { defaultCurrency, timezone } = resolveCompanySettings(company);
+  const currency = new Intl.NumberFormat("en-US", { style: "currency", currency: defaultCurrency });
+  const money = (value: number) => currency.format(value);
+  const pages: PdfPage[] = [];
+  let page = new PdfPage();
+  let y = 0;
+  pages.push(page);
+
+  // Company header, left; invoice facts, right.
+  y = LETTER.height - MARGIN - 8;
+  page.text(MARGIN, y, company.name, { font: "Helvetica-Bold", size: 18 });
+  const companyLines = [
+    ...addressLines(company),
+    [company.phone, company.billingEmail].filter(Boolean).join(" · "),
+    [company.dotNumber && `USDOT ${company.dotNumber}`, company.mcNumber && `MC ${company.mcNumber}`].filter(Boolean).join(" · "),
+  ].filter(Boolean);
+  let left = y - 16;
+  for (const line of companyLines) {
+    page.text(MARGIN, left, line, { size: 9, color: MUTED });
+    left -= 12;
+  }
+
+  page.text(RIGHT, y, "INVOICE", { font: "Helvetica-Bold", size: 22, align: "right" });
+  const terms =
+    invoice.dueDate !== null
+      ? Math.round((invoice.dueDate.getTime() - invoice.issueDate.getTime()) / 86_400_000)
+      : null;
+  const facts: [string, string][] = [
+    ["Invoice #", invoice.invoiceNumber],
+    ["Issue date", formatDate(invoice.issueDate)],
+    ["Due date", formatDate(invoice.dueDate)],
+    ...(terms !== null ? ([["Terms", terms === 0 ? "Due on receipt" : `Net ${terms}`]] as [string, string][]) : []),
+  ];
+  let right = y - 20;
+  for (const [label, value] of facts) {
+    page.text(RIGHT - 150, right, label, { size: 9, color: MUTED });
+    page.text(RIGHT, right, value, { font: "Helvetica-Bold", size: 9, align: "right" });
+    right -= 13;
+  }
+
+  // Bill to / remit to.
+  y = Math.min(left, right) - 18;
+  page.line(MARGIN, y + 10, RIGHT, y + 10);
+  page.text(MARGIN, y - 6, "BILL TO", { font: "Helvetica-Bold", size: 8, color: MUTED });
+  page.text(LETTER.width / 2, y - 6, "REMIT TO", { font: "Helvetica-Bold", size: 8, color: MUTED });
+
+  const customer = invoice.customer;
+  const billTo = [
+    ...addressLines(customer),
+    customer.billingEmail ?? customer.email ?? "",
+  ].filter(Boolean);
+  const remitTo = company.remitTo?.trim()
+    ? company.remitTo.split(/\r?\n/).map((line) => line.trim()).filter(Boolean)
+    : [company.name, ...addressLines(company)];
+
+  page.text(MARGIN, y - 20, customer.name, { font: "Helvetica-Bold", size: 11 });
+  billTo.forEach((line, i) => page.text(MARGIN, y - 34 - i * 12, line, { size: 9 }));
+  remitTo.forEach((line, i) =>
+    page.text(LETTER.width / 2, y - 20 - i * 12, line, { size: i === 0 ? 11 : 9, font: i === 0 ? "Helvetica-Bold" : "Helvetica" })
+  );
+  y -= 34 + Math.max(billTo.length * 12, (remitTo.length - 1) * 12) + 16;
+
+  const newPage = () => {
+    page = new PdfPage();
+    pages.push(page);
+    y = LETTER.height - MARGIN - 8;
+    page.text(MARGIN, y, `${company.name} · Invoice ${invoice.invoiceNumber} (continued)`, { size: 9, color: MUTED });
+    y -= 24;
+  };
+
+  const tableHeader = (columns: [string, number, TextOptions["align"]][]) => {
+    page.rect(MARGIN, y - 4, RIGHT - MARGIN, 16);
+    for (const [label, x, align] of columns) {
+      page.text(x, y, label, { font: "Helvetica-Bold", size: 8, align });
+    }
+    y -= 18;
+  };
+
+  // Loads covered.
+  if (invoice.loadLinks.length > 0) {
+    const loadColumns: [string, number, TextOptions["align"]][] = [
+      ["LOAD", MARGIN + 4, "left"],
+      ["ROUTE", MARGIN + 110, "left"],
+      ["PICKUP", RIGHT - 90, "right"],
+      ["DELIVERY", RIGHT - 4, "right"],
+    ];
+    tableHeader(loadColumns);
+    for (const { load } of invoice.loadLinks) {
+      if (y < BOTTOM) {
+        newPage();
+        tableHeader(loadColumns);
+      }
+      const origin = load.stops.find((s) => s.type === "PICKUP");
+      const destination = [...load.stops].reverse().find((s) => s.type === "DELIVERY");
+      const route = [cityState(origin), cityState(destination)].filter(Boolean).join(" → ");
+      page.text(MARGIN + 4, y, load.loadNumber ?? "—", { size: 9 });
+      page.text(MARGIN + 110, y, route || "—", { size: 9 });
+      page.text(RIGHT - 90, y, formatDate(load.pickupDate, timezone), { size: 9, align: "right" });
+      page.text(RIGHT - 4, y, formatDate(load.deliveryDate, timezone), { size: 9, align: "right" });
+      y -= 14;
+    }
+    y -= 12;
+  }
+
+  // Lines.
+  const lineColumns: [string, number, TextOptions["align"]][] = [
+    ["DESCRIPTION", MARGIN + 4, "left"],
+    ["QTY", RIGHT - 170, "right"],
+    ["RATE", RIGHT - 90, "right"],
+    ["AMOUNT", RIGHT - 4, "right"],
+  ];
+  if (y < BOTTOM + 40) newPage();
+  tableHeader(lineColumns);
+  for (const line of invoice.lines) {
+    const description = wrapText(line.description, "Helvetica", 9, RIGHT - 190 - MARGIN);
+    if (y - (description.length - 1) * 12 < BOTTOM) {
+      newPage();
+      tableHeader(lineColumns);
+    }
+    page.text(RIGHT - 170, y, String(line.quantity), { size: 9, align: "right" });
+    page.text(RIGHT - 90, y, money(line.unitAmount), { size: 9, align: "right" });
+    page.text(RIGHT - 4, y, money(line.total), { size: 9, align: "right" });
+    for (const text of description) {
+      page.text(MARGIN + 4, y, text, { size: 9 });
+      y -= 12;
+    }
+    page.line(MARGIN, y + 6, RIGHT, y + 6, 0.25, 0.85);
+    y -= 4;
+  }
+
+  // Totals.
+  const { amountPaid, balance } = invoiceBalance(invoice);
+  const totals: [string, string, boolean][] = [
+    ["Subtotal", money(invoice.subtotal), false],
+    ...(invoice.factoringFee ? ([["Less factoring fee", `-${money(invoice.factoringFee)}`, false]] as [string, string, boolean][]) : []),
+    ["Total", money(invoice.total), true],
+    ...(amountPaid > 0 ? ([["Payments received", `-${money(amountPaid)}`, false]] as [string, string, boolean][]) : []),
+    ["Balance due", money(balance), true],
+  ];
+  if (y - totals.length * 15 < BOTTOM) newPage();
+  y -= 6;
+  for (const [label, value, bold] of totals) {
+    const font = bold ? "Helvetica-Bold" : "Helvetica";
+    page.text(RIGHT - 150, y, label, { font, size: 10 });
+    page.text(RIGHT - 4, y, value, { font, size: 10, align: "right" });
+    y -= 15;
+  }
+
+  // Notes.
+  if (invoice.notes) {
+    const notes = wrapText(invoice.notes, "Helvetica", 9, RIGHT - MARGIN);
+    y -= 10;
+    if (y - notes.length * 12 < BOTTOM) newPage();
+    page.text(MARGIN, y, "NOTES", { font: "Helvetica-Bold", size: 8, color: MUTED });
+    y -= 14;
+    for (const text of notes) {
+      page.text(MARGIN, y, text, { size: 9 });
+      y -= 12;
+    }
+  }
+
+  for (const [i, p] of pages.entries()) {
+    p.text(LETTER.width / 2, 36, `Invoice ${invoice.invoiceNumber} · Page ${i + 1} of ${pages.length}`, {
+      size: 8,
+      color: MUTED,
+      align: "center",
+    });
+    await doc.addPage(p);
+  }
+}
+
+/**
+ * The rate con, BOL and POD documents of every load on the invoice, load by load.
+ * `missing` lists the types a load has nothing for, so the caller can warn before sending.
+ */
+export function packetDocuments(invoice: InvoiceForPdf) {
+  const documents: (PacketDocument & { loadNumber: string | null })[] = [];
+  const missing: { loadId: string; loadNumber: string | null; type: DocumentType }[] = [];
+
+  for (const { load } of invoice.loadLinks) {
+    for (const type of PACKET_DOCUMENT_TYPES) {
+      const ofType = load.documents.filter((doc) => documentType(doc) === type);
+      if (ofType.length === 0) missing.push({ loadId: load.id, loadNumber: load.loadNumber, type });
+      documents.push(...ofType.map((doc) => ({ ...doc, loadNumber: load.loadNumber })));
+    }
+  }
+
+  return { documents, missing };
+}
+
+export type PacketSkip = { documentId: string; fileName: string; reason: string };
+
+/**
+ * Appends one uploaded document: PDFs page by page, JPEG/PNG photos as a page each.
+ * Returns why it was left out instead of throwing, so one bad scan doesn't sink the packet.
+ */
+export async function appendPacketDocument(
+  doc: PdfDocument,
+  file: Pick<PacketDocument, "id" | "fileName" | "fileType">,
+  bytes: Buffer
+): Promise<PacketSkip | null> {
+  const name = file.fileName.toLowerCase();
+  const mime = file.fileType?.toLowerCase() ?? "";
+
+  try {
+    if (mime === "application/pdf" || name.endsWith(".pdf")) {
+      await importPdfPages(doc, bytes);
+    } else if (mime === "image/jpeg" || /\.jpe?g$/.test(name)) {
+      doc.addImagePage(await addJpegImage(doc, bytes));
+    } else if (mime === "image/png" || name.endsWith(".png")) {
+      doc.addImagePage(await addPngImage(doc, bytes));
+    } else {
+      return { documentId: file.id, fileName: file.fileName, reason: "Only PDF, JPEG and PNG files can be merged" };
+    }
+    return null;
+  } catch (err) {
+    const known = err instanceof PdfImportError || err instanceof PdfImageError;
+    if (!known) console.error("[INVOICE_PACKET_DOCUMENT_ERROR]", file.id, err);
+    return { documentId: file.id, fileName: file.fileName, reason: known ? err.message : "File couldn't be read" };
+  }
+}
+
+export type InvoicePdf = {
+  pdf: Buffer;
+  fileName: string;
+  skipped: PacketSkip[];
+  missing: ReturnType<typeof packetDocuments>["missing"];
+};
+
+/**
+ * Renders the invoice and, with `packet`, downloads and appends its loads' rate cons, BOLs
+ * and PODs. Shared by the PDF download and invoice emails.
+ */
+export async function buildInvoicePdf(
+  invoice: InvoiceForPdf,
+  company: Company,
+  { packet = false }: { packet?: boolean } = {}
+): Promise<InvoicePdf> {
+  const doc = await PdfDocument.create();
+  await renderInvoice(doc, invoice, company);
+
+  const skipped: PacketSkip[] = [];
+  let missing: InvoicePdf["missing"] = [];
+  if (packet) {
+    const packetDocs = packetDocuments(invoice);
+    missing = packetDocs.missing;
+
+    for (const file of packetDocs.documents) {
+      const { data, error } = await supabaseAdmin.storage.from("documents").download(file.storageKey);
+      if (error || !data) {
+        console.error("[SUPABASE_DOWNLOAD_ERROR]", error);
+        skipped.push({ documentId: file.id, fileName: file.fileName, reason: "Couldn't be downloaded" });
+        continue;
+      }
+      const skip = await appendPacketDocument(doc, file, Buffer.from(await data.arrayBuffer()));
+      if (skip) skipped.push(skip);
+    }
+  }
+
+  const fileName = `${invoice.invoiceNumber.replace(/[^A-Za-z0-9._-]+/g, "_")}${packet ? "-packet" : ""}.pdf`;
+  return { pdf: await doc.toBuffer(), fileName, skipped, missing };
+}
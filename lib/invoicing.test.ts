@@ -0,0 +1,171 @@
+import { Prisma, type Company, type LoadStatus } from "@prisma/client";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+
+import type { AuditedTx } from "./audit";
+import {
+  assertLoadsInvoiceable,
+  cancelInvoiceError,
+  claimLoadsForInvoice,
+  InvoiceLoadsError,
+  invoiceLoadsErrorResponse,
+  invoiceNumberErrorResponse,
+  InvoiceNumberTakenError,
+  linehaulInvoiceLine,
+  loadInvoiceLines,
+  lumperInvoiceLine,
+} from "./invoicing";
+import type { ScopedDb } from "./scopedDb";
+
+const AT = new Date("2025-06-10T12:00:00Z");
+
+function prismaError(code: string, meta?: Record<string, unknown>) {
+  return new Prisma.PrismaClientKnownRequestError(`${code} from the database`, { code, clientVersion: "test", meta });
+}
+
+function invoiceable(id: string, status: LoadStatus, openInvoice: string | null = null) {
+  return {
+    id,
+    loadNumber: id.toUpperCase(),
+    status,
+    truckId: null,
+    tonuReason: status === "TONU" ? "Shipper cancelled" : null,
+    invoicedAt: null,
+    invoiceLinks: openInvoice ? [{ invoice: { invoiceNumber: openInvoice } }] : [],
+  };
+}
+
+describe("assertLoadsInvoiceable", () => {
+  it("lets delivered and TONU loads through", () => {
+    expect(() => assertLoadsInvoiceable([invoiceable("l1", "DELIVERED"), invoiceable("l2", "TONU")])).not.toThrow();
+  });
+
+  it("lists every load that can't be billed, and why", () => {
+    let error: unknown;
+    try {
+      assertLoadsInvoiceable([
+        invoiceable("l1", "DELIVERED"),
+        invoiceable("l2", "IN_TRANSIT"),
+        invoiceable("l3", "INVOICED"),
+        invoiceable("l4", "DELIVERED", "INV-1001"),
+        invoiceable("l5", "PAID"),
+      ]);
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(InvoiceLoadsError);
+    expect((error as InvoiceLoadsError).loads.map((l) => [l.loadId, l.reason, l.invoiceNumber])).toEqual([
+      ["l2", "NOT_DELIVERED", null],
+      ["l3", "ALREADY_INVOICED", null],
+      ["l4", "ALREADY_INVOICED", "INV-1001"],
+      ["l5", "ALREADY_INVOICED", null],
+    ]);
+    expect(invoiceLoadsErrorResponse(error)?.status).toBe(409);
+  });
+});
+
+describe("claimLoadsForInvoice", () => {
+  /**
+   * Load updates guarded on status, like Postgres: P2025 when the row has moved on.
+   */
+  function fakeAudited(statuses: Record<string, LoadStatus>) {
+    const audited = {
+      load: {
+        update: async ({ where, data }: { where: { id: string; status: LoadStatus }; data: Record<string, unknown> }) => {
+          if (statuses[where.id] !== where.status) throw prismaError("P2025");
+          statuses[where.id] = data.status as LoadStatus;
+        },
+      },
+    } as unknown as AuditedTx;
+    return { audited, statuses };
+  }
+
+  it("moves delivered and TONU loads to INVOICED", async () => {
+    const { audited, statuses } = fakeAudited({ l1: "DELIVERED", l2: "TONU" });
+    await claimLoadsForInvoice(audited, [invoiceable("l1", "DELIVERED"), invoiceable("l2", "TONU")], AT);
+    expect(statuses).toEqual({ l1: "INVOICED", l2: "INVOICED" });
+  });
+
+  it("puts back what it moved when another invoice got a load first", async () => {
+    const { audited, statuses } = fakeAudited({ l1: "DELIVERED", l2: "TONU", l3: "INVOICED" });
+
+    await expect(
+      claimLoadsForInvoice(
+        audited,
+        [invoiceable("l1", "DELIVERED"), invoiceable("l2", "TONU"), invoiceable("l3", "DELIVERED")],
+        AT
+      )
+    ).rejects.toMatchObject({ loads: [{ loadId: "l3", reason: "ALREADY_INVOICED" }] });
+    expect(statuses).toEqual({ l1: "DELIVERED", l2: "TONU", l3: "INVOICED" });
+  });
+});
+
+describe("invoice lines", () => {
+  it("bills linehaul with its miles and skips a zero rate", () => {
+    expect(linehaulInvoiceLine({ loadNumber: "L-1", rate: 2500, miles: 800 })).toEqual({
+      description: "Linehaul — Load L-1 (800 mi)",
+      quantity: 1,
+      unitAmount: 2500,
+      total: 2500,
+    });
+    expect(linehaulInvoiceLine({ loadNumber: null, rate: 0, miles: 800 })).toBeNull();
+  });
+
+  it("bills a lumper reimbursement only when there was one", () => {
+    expect(lumperInvoiceLine({ loadNumber: null, lumper: 120 })?.total).toBe(120);
+    expect(lumperInvoiceLine({ loadNumber: null, lumper: null })).toBeNull();
+  });
+
+  it("lets entered accessorials replace the computed lumper and detention lines", async () => {
+    const tdb = { fuelSurchargeSchedule: { findFirst: async () => null } } as unknown as ScopedDb;
+    const load: Parameters<typeof loadInvoiceLines>[1][number] = {
+      id: "l1",
+      loadNumber: "L-1",
+      customerId: "customer-1",
+      rate: 2500,
+      miles: 800,
+      lumper: 120,
+      detentionHours: 2,
+      pickupDate: AT,
+      createdAt: AT,
+      stops: [],
+      accessorials: [
+        { id: "a1", type: "LUMPER", description: null, quantity: 1, rate: 150, amount: 150, billable: true },
+        { id: "a2", type: "OTHER", description: "Scale ticket", quantity: 1, rate: 15, amount: 15, billable: false },
+      ],
+    };
+    const context = {
+      company: { detentionFreeHours: 2, detentionRatePerHour: 50 } as Company,
+      customerId: "customer-1",
+      customer: null,
+    };
+    const all = { linehaul: true, fuelSurcharge: true, accessorials: true, lumper: true, detention: true };
+
+    const { lines, accessorialIds } = await loadInvoiceLines(tdb, [load], context, all);
+
+    expect(lines.map((line) => line.total)).toEqual([2500, 150, 100]);   // Linehaul, entered lumper, computed detention.
+    expect(accessorialIds).toEqual(["a1"]);                              // The non-billable scale ticket stays off the invoice.
+  });
+});
+
+describe("cancelInvoiceError", () => {
+  it("wants payments removed before an invoice is cancelled", () => {
+    expect(cancelInvoiceError({ status: "SENT", payments: [] })).toBeNull();
+    expect(cancelInvoiceError({ status: "SENT", payments: [{}] })).toMatch(/Remove this invoice's payments/);
+    expect(cancelInvoiceError({ status: "PAID", payments: [] })).not.toBeNull();
+  });
+});
+
+describe("invoiceNumberErrorResponse", () => {
+  it("answers 409 for a taken number, checked or raced", () => {
+    expect(invoiceNumberErrorResponse(new InvoiceNumberTakenError("INV-7"))?.status).toBe(409);
+    expect(invoiceNumberErrorResponse(prismaError("P2002", { target: ["companyId", "invoiceNumber"] }))?.status).toBe(409);
+  });
+
+  it("leaves other errors alone", () => {
+    expect(invoiceNumberErrorResponse(prismaError("P2002", { target: ["email"] }))).toBeNull();
+    expect(invoiceNumberErrorResponse(new Error("boom"))).toBeNull();
+  });
+});
@@ -0,0 +1,341 @@
+import { NextResponse } from "next/server";                                 // Builds the 409 in invoiceLoadsErrorResponse.
+import { Prisma, type Company, type Customer, type Invoice, type Load } from "@prisma/client"; // Rows the lines and number come from.
+import { accessorialInvoiceLine } from "@/lib/accessorials";              // One line per billable accessorial.
+import type { AuditedTx } from "@/lib/audit";                              // Load status writes are audited, in or out of a transaction.
+import { resolveCompanySettings } from "@/lib/companySettings";            // Default MPG for FSC, invoice number prefix.
+import { db } from "@/lib/db";                                             // Company invoice counter.
+import { detentionInvoiceLine, resolveDetentionTerms } from "@/lib/detention"; // Computed detention line.
+import { computeLoadFuelSurcharge, FUEL_SURCHARGE_LOAD_SELECT, fuelSurchargeInvoiceLine } from "@/lib/fuelSurcharge"; // FSC per load.
+import { planLoadTransition } from "@/lib/loadLifecycle";                  // DELIVERED ↔ INVOICED side effects.
+import { scopedDb, type ScopedDb } from "@/lib/scopedDb";                 // Tenant-scoped reads.
+
+export const INVOICE_LOAD_SELECT = {                                       // Everything loadInvoiceLines needs from a load.
+  id: true,
+  loadNumber: true,
+  lumper: true,
+  detentionHours: true,
+  ...FUEL_SURCHARGE_LOAD_SELECT,
+  accessorials: {                                                          // Not yet on an invoice; billed ones are locked to theirs.
+    where: { invoiceId: null },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, type: true, description: true, quantity: true, rate: true, amount: true, billable: true },
+  },
+} as const;
+
+type InvoiceLoad = Prisma.LoadGetPayload<{ select: typeof INVOICE_LOAD_SELECT }>;
+
+export type InvoiceLineInput = {
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  total: number;
+};
+
+export type LoadInvoiceLineOptions = {
+  linehaul?: boolean;                                                      // The load's rate.
+  fuelSurcharge?: boolean;                                                 // Under the customer's FSC schedule.
+  accessorials?: boolean;                                                  // Billable accessorials not yet invoiced.
+  lumper?: boolean;                                                        // Load.lumper, unless it was entered as an accessorial.
+  detention?: boolean;                                                     // Computed detention, unless entered as an accessorial.
+};
+
+function loadSuffix(load: Pick<Load, "loadNumber">) {
+  return load.loadNumber ? ` — Load ${load.loadNumber}` : "";
+}
+
+export function linehaulInvoiceLine(load: Pick<Load, "loadNumber" | "rate" | "miles">): InvoiceLineInput | null {
+  if (load.rate <= 0) return null;
+  return {
+    description: `Linehaul${loadSuffix(load)}${load.miles > 0 ? ` (${load.miles} mi)` : ""}`,
+    quantity: 1,
+    unitAmount: load.rate,
+    total: load.rate,
+  };
+}
+
+export function lumperInvoiceLine(load: Pick<Load, "loadNumber" | "lumper">): InvoiceLineInput | null {
+  if (!load.lumper || load.lumper <= 0) return null;
+  return {
+    description: `Lumper reimbursement${loadSuffix(load)}`,
+    quantity: 1,
+    unitAmount: load.lumper,
+    total: load.lumper,
+  };
+}
+
+/**
+ * Invoice lines for a set of loads, grouped by load in this order: linehaul, FSC,
+ * accessorials, lumper, detention (each only when its option is on). Layover has no rate
+ * to price Load.layoverDays with, so it's only billed as a LAYOVER accessorial.
+ * `accessorialIds` are the charges on the lines; tie them to the invoice once it exists.
+ */
+export async function loadInvoiceLines(
+  tdb: ScopedDb,
+  loads: InvoiceLoad[],
+  context: {
+    company: Company;
+    customerId: string;                                                    // Whose FSC schedule applies.
+    customer: Pick<Customer, "detentionFreeHours" | "detentionRatePerHour"> | null;
+  },
+  options: LoadInvoiceLineOptions
+) {
+  const settings = resolveCompanySettings(context.company);                  // Default MPG for the FSC.
+  const terms = resolveDetentionTerms(context.company, context.customer);    // Customer free hours/rate, else the company's.
+  const lines: InvoiceLineInput[] = [];
+  const accessorialIds: string[] = [];
+
+  for (const load of loads) {
+    const entered = (type: string) => load.accessorials.some((a) => a.type === type); // An entered charge replaces the computed one.
+    const push = (line: InvoiceLineInput | null) => {
+      if (line) lines.push(line);
+    };
+
+    if (options.linehaul) push(linehaulInvoiceLine(load));
+
+    if (options.fuelSurcharge) {
+      const fsc = await computeLoadFuelSurcharge(tdb, load, settings, context.customerId);
+      push(fsc ? fuelSurchargeInvoiceLine(load, fsc) : null);
+    }
+
+    if (options.accessorials) {
+      for (const accessorial of load.accessorials) {
+        const line = accessorial.billable ? accessorialInvoiceLine(load, accessorial) : null; // Non-billable charges are costs only.
+        if (!line) continue;
+        lines.push(line);
+        accessorialIds.push(accessorial.id);                                 // Locked to the invoice by the caller.
+      }
+    }
+
+    if (options.lumper && !entered("LUMPER")) push(lumperInvoiceLine(load));
+    if (options.detention && !entered("DETENTION")) push(detentionInvoiceLine(load, terms));
+  }
+
+  return { lines, accessorialIds };
+}
+
+/**
+ * Takes the company's next invoice number (prefix + counter) and advances the counter.
+ * The increment is atomic, so concurrent invoices never share a number; numbers already
+ * used by hand-numbered invoices are skipped.
+ */
+export async function allocateInvoiceNumber(company: Company): Promise<string> {
+  const { invoiceNumberPrefix } = resolveCompanySettings(company);
+
+  for (;;) {
+    const { nextInvoiceNumber } = await db.company.update({
+      where: { id: company.id },
+      data: { nextInvoiceNumber: { increment: 1 } },                         // Atomic, so two invoices never draw the same number.
+      select: { nextInvoiceNumber: true },
+    });
+    const invoiceNumber = `${invoiceNumberPrefix}${nextInvoiceNumber - 1}`;  // The counter holds the next number, so ours is one back.
+
+    const taken = await scopedDb(company.id).invoice.findFirst({
+      where: { invoiceNumber },
+      select: { id: true },
+    });
+    if (!taken) return invoiceNumber;                                        // Otherwise someone typed it by hand; draw again.
+  }
+}
+
+/**
+ * Thrown when an invoice number is already used in the company. Route handlers turn it
+ * into a 409 via `invoiceNumberErrorResponse`.
+ */
+export class InvoiceNumberTakenError extends Error {
+  constructor(public invoiceNumber: string) {
+    super(`Invoice number ${invoiceNumber} is already used`);
+    this.name = "InvoiceNumberTakenError";
+  }
+}
+
+/**
+ * Throws InvoiceNumberTakenError when another invoice in the company has this number.
+ * The unique index is the backstop for two requests racing past this check.
+ */
+export async function assertInvoiceNumberAvailable(tdb: ScopedDb, invoiceNumber: string, exceptInvoiceId?: string) {
+  const taken = await tdb.invoice.findFirst({
+    where: { invoiceNumber, ...(exceptInvoiceId ? { id: { not: exceptInvoiceId } } : {}) }, // An invoice keeping its own number is fine.
+    select: { id: true },
+  });
+  if (taken) throw new InvoiceNumberTakenError(invoiceNumber);
+}
+
+export function invoiceNumberErrorResponse(err: unknown) {
+  const raced =                                                            // Lost the race to @@unique([companyId, invoiceNumber]).
+    err instanceof Prisma.PrismaClientKnownRequestError &&
+    err.code === "P2002" &&
+    String(err.meta?.target ?? "").includes("invoiceNumber");
+  if (!(err instanceof InvoiceNumberTakenError) && !raced) return null;
+  return NextResponse.json(
+    { error: err instanceof InvoiceNumberTakenError ? err.message : "Invoice number is already used", code: "INVOICE_NUMBER_TAKEN" },
+    { status: 409 }
+  );
+}
+
+export type UninvoiceableLoad = {
+  loadId: string;
+  loadNumber: string | null;
+  reason: "NOT_DELIVERED" | "ALREADY_INVOICED";
+  status: Load["status"];
+  invoiceNumber: string | null;                                            // The open invoice it's already on.
+};
+
+/**
+ * Thrown when some of the loads can't go on a new invoice. Route handlers turn it into
+ * a 409 listing them via `invoiceLoadsErrorResponse`.
+ */
+export class InvoiceLoadsError extends Error {
+  constructor(public loads: UninvoiceableLoad[]) {
+    super(
+      loads.length === 1
+        ? `Load ${loads[0].loadNumber ?? loads[0].loadId} can't be invoiced`
+        : `${loads.length} loads can't be invoiced`
+    );
+    this.name = "InvoiceLoadsError";
+  }
+}
+
+export function invoiceLoadsErrorResponse(err: unknown) {
+  if (!(err instanceof InvoiceLoadsError)) return null;
+  return NextResponse.json(
+    { error: err.message, code: "LOADS_NOT_INVOICEABLE", loads: err.loads },
+    { status: 409 }
+  );
+}
+
+export const INVOICEABLE_LOAD_SELECT = {                                   // What assertLoadsInvoiceable and claimLoadsForInvoice read.
+  id: true,
+  loadNumber: true,
+  status: true,
+  truckId: true,
+  tonuReason: true,
+  invoicedAt: true,
+  invoiceLinks: {                                                          // Open invoices already billing the load.
+    where: { invoice: { status: { not: "CANCELLED" } } },
+    select: { invoice: { select: { invoiceNumber: true } } },
+    take: 1,
+  },
+} as const;
+
+type InvoiceableLoad = Prisma.LoadGetPayload<{ select: typeof INVOICEABLE_LOAD_SELECT }>;
+
+export const INVOICEABLE_STATUSES: Load["status"][] = ["DELIVERED", "TONU"]; // TONU bills the truck-ordered-not-used fee.
+
+/**
+ * Throws InvoiceLoadsError listing every load that can't go on a new invoice: anything
+ * not DELIVERED or TONU, and anything already on an open (not cancelled) invoice.
+ */
+export function assertLoadsInvoiceable(loads: InvoiceableLoad[]) {
+  const blocked = loads.flatMap((load): UninvoiceableLoad[] => {
+    const openInvoice = load.invoiceLinks[0]?.invoice.invoiceNumber ?? null; // Cancelled invoices don't count.
+    if (INVOICEABLE_STATUSES.includes(load.status) && !openInvoice) return []; // Billable.
+    return [
+      {
+        loadId: load.id,
+        loadNumber: load.loadNumber,
+        reason: openInvoice || load.status === "INVOICED" || load.status === "PAID" ? "ALREADY_INVOICED" : "NOT_DELIVERED",
+        status: load.status,
+        invoiceNumber: openInvoice,
+      },
+    ];
+  });
+  if (blocked.length > 0) throw new InvoiceLoadsError(blocked);
+}
+
+type ClaimLoad = Pick<Load, "id" | "loadNumber" | "status" | "truckId" | "tonuReason" | "invoicedAt">;
+
+/**
+ * Moves DELIVERED and TONU loads to INVOICED one at a time, guarded on their status so a load
+ * picked up by a concurrent invoice fails here instead of being billed twice. On that
+ * race the loads already moved are put back and InvoiceLoadsError is thrown.
+ */
+export async function claimLoadsForInvoice(audited: AuditedTx, loads: ClaimLoad[], at: Date) {
+  const claimed: ClaimLoad[] = [];
+
+  for (const load of loads) {
+    try {
+      await audited.load.update({
+        where: { id: load.id, status: load.status },                         // Fails with P2025 if another invoice moved it first.
+        data: planLoadTransition(load, "INVOICED", { at }),
+      });
+      claimed.push(load);
+    } catch (err) {
+      await releaseInvoicedLoads(audited, claimed);                          // Put back what this call already moved.
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2025") {
+        throw new InvoiceLoadsError([
+          { loadId: load.id, loadNumber: load.loadNumber, reason: "ALREADY_INVOICED", status: load.status, invoiceNumber: null },
+        ]);
+      }
+      throw err;
+    }
+  }
+}
+
+/**
+ * Puts INVOICED loads back to DELIVERED, or TONU when a TONU fee was billed, and clears
+ * invoicedAt: loads taken off an invoice, or the ones a claim already moved before it
+ * lost a race.
+ */
+export async function releaseInvoicedLoads(audited: AuditedTx, loads: Pick<Load, "id" | "tonuReason">[]) {
+  for (const load of loads) {
+    await audited.load.update({
+      where: { id: load.id, status: "INVOICED" },                            // Only the claim is undone.
+      data: planLoadTransition(
+        { status: "INVOICED", truckId: null, tonuReason: load.tonuReason, invoicedAt: null },
+        load.tonuReason ? "TONU" : "DELIVERED"
+      ),
+    });
+  }
+}
+
+/**
+ * Takes loads off an invoice: each goes back to DELIVERED unless another open invoice
+ * still bills it, and the accessorials this invoice billed for them are freed so the
+ * next invoice can pick them up. Call after the links are removed or the invoice is cancelled.
+ */
+export async function unlinkInvoiceLoads(audited: AuditedTx, invoiceId: string, loadIds: string[]) {
+  if (loadIds.length === 0) return;                                          // Nothing linked, nothing to free.
+
+  const loads = await audited.load.findMany({
+    where: {
+      id: { in: loadIds },
+      status: "INVOICED",                                                  // PAID loads keep their payment.
+      invoiceLinks: { none: { invoiceId: { not: invoiceId }, invoice: { status: { not: "CANCELLED" } } } },
+    },
+    select: { id: true, tonuReason: true },                                  // TONU loads go back to TONU.
+  });
+  await releaseInvoicedLoads(audited, loads);
+
+  await audited.loadAccessorial.updateMany({
+    where: { invoiceId, loadId: { in: loadIds } },                           // Only what this invoice billed for these loads.
+    data: { invoiceId: null },
+  });
+}
+
+/**
+ * Why the invoice can't be cancelled, or null when it can. Payments have to be removed
+ * first, so a load is never billable again with money already taken against it.
+ */
+export function cancelInvoiceError(invoice: Pick<Invoice, "status"> & { payments: unknown[] }): string | null {
+  if (invoice.status === "PAID" || invoice.payments.length > 0) {
+    return "Remove this invoice's payments before cancelling it";
+  }
+  return null;
+}
+
+/**
+ * Voids an invoice: marks it CANCELLED and unlinks its loads so they can be billed again.
+ * Check cancelInvoiceError first.
+ */
+export async function cancelInvoice(audited: AuditedTx, invoiceId: string) {
+  const invoice = await audited.invoice.update({
+    where: { id: invoiceId },
+    data: { status: "CANCELLED" },                                           // Kept for the record; never deleted.
+  });
+  const linked = await audited.load.findMany({
+    where: { invoiceLinks: { some: { invoiceId } } },                        // Links stay on a cancelled invoice as history.
+    select: { id: true },
+  });
+  await unlinkInvoiceLoads(audited, invoiceId, linked.map((load) => load.id));
+  return invoice;
+}
@@ -0,0 +1,116 @@
+import type { Load, LoadStatus } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+import {
+  allowedNextStatuses,
+  canTransition,
+  LOAD_TRANSITIONS,
+  LoadTransitionError,
+  loadTransitionErrorResponse,
+  planLoadTransition,
+} from "./loadLifecycle";
+
+type TransitionLoad = Pick<Load, "status" | "truckId" | "tonuReason" | "invoicedAt">;
+
+const AT = new Date("2025-06-10T12:00:00Z");
+const STATUSES = Object.keys(LOAD_TRANSITIONS) as LoadStatus[];
+
+function load(status: LoadStatus, extra: Partial<TransitionLoad> = {}): TransitionLoad {
+  return { status, truckId: "truck-1", tonuReason: null, invoicedAt: null, ...extra };
+}
+
+/**
+ * Every legal move, written out once more so a change to the table has to be made on purpose.
+ */
+const LEGAL: [LoadStatus, LoadStatus][] = [
+  ["DRAFT", "BOOKED"],
+  ["DRAFT", "CANCELLED"],
+  ["BOOKED", "IN_TRANSIT"],
+  ["BOOKED", "CANCELLED"],
+  ["BOOKED", "TONU"],
+  ["IN_TRANSIT", "DELIVERED"],
+  ["IN_TRANSIT", "TONU"],
+  ["DELIVERED", "INVOICED"],
+  ["INVOICED", "PAID"],
+  ["INVOICED", "DELIVERED"],
+  ["INVOICED", "TONU"],
+  ["PAID", "INVOICED"],
+  ["TONU", "INVOICED"],
+];
+
+describe("load transition table", () => {
+  it.each(STATUSES.flatMap((from) => STATUSES.map((to) => [from, to] as const)))(
+    "%s → %s follows the table",
+    (from, to) => {
+      const legal = LEGAL.some(([f, t]) => f === from && t === to);
+      expect(canTransition(from, to)).toBe(legal);
+
+      const plan = () => planLoadTransition(load(from, { tonuReason: "Shipper cancelled" }), to, { at: AT });
+      if (legal) expect(plan()).toMatchObject({ status: to });
+      else expect(plan).toThrow(LoadTransitionError);
+    }
+  );
+
+  it("treats CANCELLED as terminal", () => {
+    expect(allowedNextStatuses("CANCELLED")).toEqual([]);
+  });
+});
+
+describe("planLoadTransition", () => {
+  it("needs a truck to dispatch, and assigns one given in the same step", () => {
+    expect(() => planLoadTransition(load("BOOKED", { truckId: null }), "IN_TRANSIT")).toThrow(
+      "Assign a truck before dispatching the load"
+    );
+    expect(planLoadTransition(load("BOOKED", { truckId: null }), "IN_TRANSIT", { truckId: "truck-2" })).toEqual({
+      status: "IN_TRANSIT",
+      truckId: "truck-2",
+    });
+  });
+
+  it("needs a TONU reason, from the input or already on the load", () => {
+    expect(() => planLoadTransition(load("BOOKED"), "TONU", { tonuReason: "  " })).toThrow("A TONU reason is required");
+    expect(planLoadTransition(load("BOOKED", { tonuReason: "No freight" }), "TONU")).toEqual({
+      status: "TONU",
+      tonuReason: "No freight",
+    });
+  });
+
+  it("stamps invoicedAt once and keeps it when a load is invoiced again", () => {
+    expect(planLoadTransition(load("DELIVERED"), "INVOICED", { at: AT })).toEqual({ status: "INVOICED", invoicedAt: AT });
+
+    const earlier = new Date("2025-06-01T00:00:00Z");
+    expect(planLoadTransition(load("PAID", { invoicedAt: earlier }), "INVOICED", { at: AT })).toEqual({
+      status: "INVOICED",
+      invoicedAt: earlier,
+      isPaid: false,
+      paidAt: null,
+    });
+  });
+
+  it("clears invoicedAt when the invoice is voided", () => {
+    const invoiced = load("INVOICED", { invoicedAt: AT, tonuReason: "No freight" });
+    expect(planLoadTransition(invoiced, "DELIVERED")).toEqual({ status: "DELIVERED", invoicedAt: null });
+    expect(planLoadTransition(invoiced, "TONU")).toEqual({ status: "TONU", tonuReason: "No freight", invoicedAt: null });
+  });
+
+  it("marks the load paid", () => {
+    expect(planLoadTransition(load("INVOICED"), "PAID", { at: AT })).toEqual({ status: "PAID", isPaid: true, paidAt: AT });
+  });
+});
+
+describe("loadTransitionErrorResponse", () => {
+  it("answers 409 with the allowed next steps for an illegal move", async () => {
+    const res = loadTransitionErrorResponse(
+      new LoadTransitionError("Cannot move a load from DELIVERED to BOOKED", "INVALID_TRANSITION", "DELIVERED", "BOOKED")
+    );
+    expect(res?.status).toBe(409);
+    expect(await res?.json()).toMatchObject({ code: "INVALID_TRANSITION", allowed: ["INVOICED"] });
+  });
+
+  it("answers 422 for a missing requirement and ignores other errors", () => {
+    const res = loadTransitionErrorResponse(
+      new LoadTransitionError("A TONU reason is required", "TRANSITION_REQUIREMENT", "BOOKED", "TONU")
+    );
+    expect(res?.status).toBe(422);
+    expect(loadTransitionErrorResponse(new Error("boom"))).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+import { NextResponse } from "next/server";                                 // Builds the 409/422 responses in loadTransitionErrorResponse.
+import type { Load, LoadStatus, Prisma } from "@prisma/client";            // Row, enum and update-input types.
+
+/**
+ * Legal LoadStatus moves. Anything not listed is rejected with a 409.
+ *
+ *   DRAFT → BOOKED → IN_TRANSIT → DELIVERED → INVOICED → PAID
+ *   BOOKED / IN_TRANSIT → TONU → INVOICED   (truck ordered, not used; the TONU fee is still billed)
+ *   DRAFT / BOOKED → CANCELLED
+ *   INVOICED → DELIVERED / TONU             (invoice voided; back to what was billed, clears invoicedAt)
+ *   PAID → INVOICED                         (payment reversed; clears paidAt)
+ */
+export const LOAD_TRANSITIONS: Record<LoadStatus, LoadStatus[]> = {
+  DRAFT: ["BOOKED", "CANCELLED"],
+  BOOKED: ["IN_TRANSIT", "CANCELLED", "TONU"],
+  IN_TRANSIT: ["DELIVERED", "TONU"],
+  DELIVERED: ["INVOICED"],
+  INVOICED: ["PAID", "DELIVERED", "TONU"],
+  PAID: ["INVOICED"],
+  CANCELLED: [],                                                           // Terminal; create a new load instead.
+  TONU: ["INVOICED"],
+};
+
+export const INITIAL_LOAD_STATUSES: LoadStatus[] = ["DRAFT", "BOOKED"];   // What POST /api/loads may create a load as.
+
+export function allowedNextStatuses(from: LoadStatus): LoadStatus[] {
+  return LOAD_TRANSITIONS[from] ?? [];
+}
+
+export function canTransition(from: LoadStatus, to: LoadStatus) {
+  return allowedNextStatuses(from).includes(to);
+}
+
+/**
+ * Thrown when a status change is illegal (409) or its preconditions aren't met (422).
+ * Route handlers turn it into a response via `loadTransitionErrorResponse`.
+ */
+export class LoadTransitionError extends Error {
+  constructor(
+    message: string,
+    public code: "INVALID_TRANSITION" | "TRANSITION_REQUIREMENT",
+    public from: LoadStatus,
+    public to: LoadStatus,
+    public status = code === "INVALID_TRANSITION" ? 409 : 422
+  ) {
+    super(message);
+    this.name = "LoadTransitionError";
+  }
+}
+
+export type LoadTransitionInput = {
+  tonuReason?: string | null;                                              // Required (here or already on the load) for TONU.
+  truckId?: string | null;                                                 // Lets dispatch assign the truck in the same step as IN_TRANSIT.
+  at?: Date;                                                               // Timestamp for invoicedAt/paidAt; defaults to now.
+};
+
+type TransitionLoad = Pick<Load, "status" | "truckId" | "tonuReason" | "invoicedAt">;
+
+/**
+ * Validates `load.status → to` and returns the Load update (status + side-effect columns).
+ * Throws LoadTransitionError instead of returning a partial update.
+ */
+export function planLoadTransition(
+  load: TransitionLoad,
+  to: LoadStatus,
+  input: LoadTransitionInput = {}
+): Prisma.LoadUncheckedUpdateInput {
+  const from = load.status;
+  const at = input.at ?? new Date();
+
+  if (!canTransition(from, to)) {
+    throw new LoadTransitionError(
+      `Cannot move a load from ${from} to ${to}`,
+      "INVALID_TRANSITION",
+      from,
+      to
+    );
+  }
+
+  const data: Prisma.LoadUncheckedUpdateInput = { status: to };
+
+  switch (to) {
+    case "IN_TRANSIT": {
+      const truckId = input.truckId ?? load.truckId;
+      if (!truckId) {
+        throw new LoadTransitionError("Assign a truck before dispatching the load", "TRANSITION_REQUIREMENT", from, to);
+      }
+      if (input.truckId) data.truckId = input.truckId;
+      break;
+    }
+    case "TONU": {
+      const tonuReason = input.tonuReason?.trim() || load.tonuReason;
+      if (!tonuReason) {
+        throw new LoadTransitionError("A TONU reason is required", "TRANSITION_REQUIREMENT", from, to);
+      }
+      data.tonuReason = tonuReason;
+      if (from === "INVOICED") data.invoicedAt = null;                     // Invoice voided; the TONU fee is billable again.
+      break;
+    }
+    case "INVOICED":
+      data.invoicedAt = load.invoicedAt ?? at;                             // Keep the original date if the load was invoiced before.
+      if (from === "PAID") {                                               // Payment reversed; the load is owed again.
+        data.isPaid = false;
+        data.paidAt = null;
+      }
+      break;
+    case "PAID":
+      data.isPaid = true;
+      data.paidAt = at;
+      break;
+    case "DELIVERED":
+      if (from === "INVOICED") data.invoicedAt = null;                     // Invoice voided; the load is billable again.
+      break;
+  }
+
+  return data;
+}
+
+export function loadTransitionErrorResponse(err: unknown) {
+  if (!(err instanceof LoadTransitionError)) return null;
+  return NextResponse.json(
+    {
+      error: err.message,
+      code: err.code,
+      from: err.from,
+      to: err.to,
+      allowed: allowedNextStatuses(err.from),                              // Lets the UI offer the valid next steps.
+    },
+    { status: err.status }
+  );
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { listLoads } from "./loadList";
+import { LoadListQuerySchema, LoadStatusSchema } from "./schemas/loads";
+import type { ScopedDb } from "./scopedDb";
+
+type Row = { id: string; pickupDate: Date | null; loadNumber: string | null; status: string; createdAt: Date };
+type Where = Record<string, unknown>;
+
+/**
+ * Just enough of Prisma's filter and ordering semantics (AND/OR, equality, null, gt/lt, in,
+ * nulls first/last) to run listLoads' queries against an in-memory table.
+ */
+function matches(row: Row, where: Where): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === "AND") return (condition as Where[]).every((w) => matches(row, w));
+    if (key === "OR") return (condition as Where[]).some((w) => matches(row, w));
+    const value = row[key as keyof Row];
+    if (condition === null || condition instanceof Date || typeof condition !== "object") {
+      return String(value) === String(condition);
+    }
+    const ops = condition as Record<string, unknown>;
+    if ("not" in ops) return value !== null;
+    if ("in" in ops) return (ops.in as unknown[]).includes(value);
+    if (value === null) return false;
+    if ("gt" in ops) return (value as Date | string) > (ops.gt as Date | string);
+    if ("lt" in ops) return (value as Date | string) < (ops.lt as Date | string);
+    return true;
+  });
+}
+
+const STATUS_ORDER: string[] = LoadStatusSchema.options;                  // Postgres sorts enums in declaration order.
+
+function compare(a: Row, b: Row, orderBy: Record<string, unknown>[]) {
+  for (const entry of orderBy) {
+    const [field, spec] = Object.entries(entry)[0];
+    const { sort, nulls } = typeof spec === "string" ? { sort: spec, nulls: "last" } : (spec as { sort: string; nulls: string });
+    const x = a[field as keyof Row];
+    const y = b[field as keyof Row];
+    if (x === y || (x instanceof Date && y instanceof Date && x.getTime() === y.getTime())) continue;
+    if (x === null) return nulls === "first" ? -1 : 1;
+    if (y === null) return nulls === "first" ? 1 : -1;
+    const order = field === "status" ? STATUS_ORDER.indexOf(x as string) - STATUS_ORDER.indexOf(y as string) : x < y ? -1 : 1;
+    return sort === "asc" ? order : -order;
+  }
+  return 0;
+}
+
+function fakeDb(rows: Row[]) {
+  return {
+    load: {
+      findMany: async (args: { where: Where; orderBy: Record<string, unknown>[]; take: number }) =>
+        rows
+          .filter((row) => matches(row, args.where))
+          .sort((a, b) => compare(a, b, args.orderBy))
+          .slice(0, args.take),
+      count: async ({ where }: { where: Where }) => rows.filter((row) => matches(row, where)).length,
+    },
+  } as unknown as ScopedDb;
+}
+
+const OWNER = { id: "user-1", role: "OWNER" as const };
+
+function day(n: number) {
+  return new Date(Date.UTC(2025, 5, n));
+}
+
+/**
+ * Seven loads: two share a pickup date, three have none — enough that 2-row pages cross both
+ * the tie and the start of the empty tail.
+ */
+const ROWS: Row[] = [
+  { id: "a", pickupDate: day(3), loadNumber: "L-3", status: "BOOKED", createdAt: day(1) },
+  { id: "b", pickupDate: null, loadNumber: null, status: "DRAFT", createdAt: day(2) },
+  { id: "c", pickupDate: day(1), loadNumber: "L-1", status: "DELIVERED", createdAt: day(3) },
+  { id: "d", pickupDate: null, loadNumber: "L-4", status: "DRAFT", createdAt: day(4) },
+  { id: "e", pickupDate: day(3), loadNumber: null, status: "BOOKED", createdAt: day(5) },
+  { id: "f", pickupDate: null, loadNumber: "L-2", status: "IN_TRANSIT", createdAt: day(6) },
+  { id: "g", pickupDate: day(2), loadNumber: null, status: "DRAFT", createdAt: day(7) },
+];
+
+async function walk(params: Record<string, string>) {
+  const db = fakeDb(ROWS);
+  const query = (extra: Record<string, string>) => LoadListQuerySchema.parse({ limit: "2", ...params, ...extra });
+
+  const forward: string[][] = [];
+  const cursors: (string | null)[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: { loads: { id: string }[]; prevCursor: string | null; nextCursor: string | null } = await listLoads(
+      db,
+      OWNER,
+      query(cursor ? { cursor } : {}),
+      {}
+    );
+    forward.push(page.loads.map((l) => l.id));
+    cursors.push(page.prevCursor);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  const backward: string[][] = [];
+  let before = cursors[cursors.length - 1];
+  while (before) {
+    const page = await listLoads(db, OWNER, query({ before }), {});
+    backward.unshift(page.loads.map((l) => l.id));
+    before = page.prevCursor;
+  }
+
+  return { forward, backward };
+}
+
+describe("listLoads paging", () => {
+  it.each([
+    ["pickupDate", "asc", ["c", "g", "a", "e", "b", "d", "f"]],
+    ["pickupDate", "desc", ["e", "a", "g", "c", "f", "d", "b"]],
+    ["loadNumber", "asc", ["c", "f", "a", "d", "b", "e", "g"]],
+    ["status", "asc", ["b", "d", "g", "a", "e", "f", "c"]],
+    ["createdAt", "desc", ["g", "f", "e", "d", "c", "b", "a"]],
+  ])("visits every load once sorting by %s %s, empty values last", async (sort, dir, expected) => {
+    const { forward, backward } = await walk({ sort, dir });
+
+    expect(forward.flat()).toEqual(expected);
+    expect(forward.every((page) => page.length <= 2)).toBe(true);
+    expect(backward).toEqual(forward.slice(0, -1));                       // Back from the last page to the first.
+  });
+
+  it("starts over when the cursor was made for another sort", async () => {
+    const db = fakeDb(ROWS);
+    const first = await listLoads(db, OWNER, LoadListQuerySchema.parse({ sort: "pickupDate", limit: "2" }), {});
+    const page = await listLoads(
+      db,
+      OWNER,
+      LoadListQuerySchema.parse({ sort: "createdAt", limit: "2", cursor: first.nextCursor! }),
+      {}
+    );
+    expect(page.loads.map((l) => l.id)).toEqual(["g", "f"]);
+  });
+});
@@ -0,0 +1,172 @@
+import type { Prisma, UserRole } from "@prisma/client";                     // Filter/order types for the Load query.
+import { loadAccessFilter } from "@/lib/permissions";                     // Drivers only see their assigned loads.
+import type { ScopedDb } from "@/lib/scopedDb";                           // Tenant-scoped reads.
+import { LoadListQuerySchema, LoadStatusSchema, type LoadListQuery, type LoadSortField } from "@/lib/schemas/loads"; // Parsed query-string shape.
+
+const NULLABLE_SORT_FIELDS = new Set<LoadSortField>(["pickupDate", "deliveryDate", "loadNumber"]); // Rows without a value sort last either way.
+const DATE_SORT_FIELDS = new Set<LoadSortField>(["createdAt", "pickupDate", "deliveryDate"]);
+
+/**
+ * Parses URL search params (route handler) or Next's `searchParams` prop (page) into a list query.
+ * Blank values from the filter form are ignored.
+ */
+export function parseLoadListQuery(params: URLSearchParams | Record<string, string | string[] | undefined>) {
+  const entries =
+    params instanceof URLSearchParams
+      ? [...params.entries()]
+      : Object.entries(params).map(([key, value]) => [key, Array.isArray(value) ? value.join(",") : value] as const);
+
+  const raw = Object.fromEntries(entries.filter(([, value]) => typeof value === "string" && value.trim() !== ""));
+  return LoadListQuerySchema.safeParse(raw);
+}
+
+export function loadListWhere(query: LoadListQuery): Prisma.LoadWhereInput {
+  const and: Prisma.LoadWhereInput[] = [];
+
+  if (query.status?.length) and.push({ status: { in: query.status } });
+  if (query.customerId) and.push({ customerId: query.customerId });
+  if (query.truckId) and.push({ truckId: query.truckId });
+  if (query.driverId) and.push({ loadDrivers: { some: { driverId: query.driverId } } });
+  if (query.equipment) and.push({ equipment: query.equipment });
+
+  if (query.pickupFrom || query.pickupTo) {
+    and.push({ pickupDate: { gte: query.pickupFrom, lte: query.pickupTo } });
+  }
+  if (query.deliveryFrom || query.deliveryTo) {
+    and.push({ deliveryDate: { gte: query.deliveryFrom, lte: query.deliveryTo } });
+  }
+
+  if (query.q) {
+    const contains = { contains: query.q, mode: "insensitive" as const };
+    and.push({
+      OR: [
+        { loadNumber: contains },
+        { externalReference: contains },
+        { broker: contains },
+        { commodity: contains },
+        { customer: { name: contains } },
+        { stops: { some: { city: contains } } },
+      ],
+    });
+  }
+
+  return and.length ? { AND: and } : {};
+}
+
+type SortValue = string | number | Date | null;
+
+/**
+ * Position of a row in the list: its sort value plus id, which breaks ties. Encoded into the
+ * opaque `cursor`/`before` strings so a page picks up exactly after the previous one, including
+ * through the rows without a value at the end.
+ */
+type LoadCursor = { sort: LoadSortField; value: SortValue; id: string };
+
+function encodeLoadCursor(sort: LoadSortField, row: { id: string }): string {
+  const value = (row as unknown as Record<string, SortValue>)[sort] ?? null;
+  const json = JSON.stringify([sort, value instanceof Date ? value.toISOString() : value, row.id]);
+  return Buffer.from(json).toString("base64url");
+}
+
+/**
+ * The cursor's position, or null when it's unreadable or was made for another sort (a stale
+ * link), in which case the list starts from the first page.
+ */
+function decodeLoadCursor(raw: string, sort: LoadSortField): LoadCursor | null {
+  try {
+    const [cursorSort, value, id] = JSON.parse(Buffer.from(raw, "base64url").toString());
+    if (cursorSort !== sort || typeof id !== "string") return null;
+    if (value === null) return NULLABLE_SORT_FIELDS.has(sort) ? { sort, value, id } : null;
+    if (DATE_SORT_FIELDS.has(sort)) {
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? null : { sort, value: date, id };
+    }
+    return typeof value === "string" || typeof value === "number" ? { sort, value, id } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rows that come after `cursor` when sorted by its field in `dir` then id, with empty values
+ * last (`nullsLast`) or first. Paging backwards is the same question in the reversed order.
+ */
+function afterCursor(cursor: LoadCursor, dir: "asc" | "desc", nullsLast: boolean): Prisma.LoadWhereInput {
+  const { sort, value, id } = cursor;
+  const op = dir === "asc" ? "gt" : "lt";
+  const nullable = NULLABLE_SORT_FIELDS.has(sort);
+
+  if (value === null) {
+    return {
+      OR: [
+        { [sort]: null, id: { [op]: id } },
+        ...(nullsLast ? [] : [{ [sort]: { not: null } }]),                // Every row with a value follows the empty ones.
+      ],
+    };
+  }
+
+  let later: Prisma.LoadWhereInput = { [sort]: { [op]: value } };
+  if (sort === "status") {                                                 // Enums sort in declaration order and have no gt/lt filter.
+    const order = LoadStatusSchema.options;
+    const at = order.indexOf(value as (typeof order)[number]);
+    later = { status: { in: dir === "asc" ? order.slice(at + 1) : order.slice(0, Math.max(at, 0)) } };
+  }
+
+  return {
+    OR: [
+      later,
+      { [sort]: value, id: { [op]: id } },
+      ...(nullable && nullsLast ? [{ [sort]: null }] : []),
+    ],
+  };
+}
+
+function loadListOrderBy(sort: LoadSortField, dir: "asc" | "desc", nullsLast: boolean): Prisma.LoadOrderByWithRelationInput[] {
+  const primary = NULLABLE_SORT_FIELDS.has(sort)
+    ? { [sort]: { sort: dir, nulls: nullsLast ? "last" : "first" } }
+    : { [sort]: dir };
+  return [primary, { id: dir }];                                          // id breaks ties so the cursor is stable.
+}
+
+type LoadListInclude = NonNullable<Prisma.Args<ScopedDb["load"], "findMany">["include"]>; // The extended client's own include type.
+
+/**
+ * One page of loads plus the total matching count.
+ * `cursor` pages forward from a row, `before` pages backward; the response carries both
+ * neighbours' cursors (null at either end).
+ */
+export async function listLoads<Include extends LoadListInclude>(
+  tdb: ScopedDb,
+  user: { id: string; role: UserRole },
+  query: LoadListQuery,
+  include: Include
+) {
+  const where: Prisma.LoadWhereInput = { AND: [loadAccessFilter(user), loadListWhere(query)] };
+  const backwards = Boolean(query.before);
+  const rawCursor = query.before ?? query.cursor;
+  const cursor = rawCursor ? decodeLoadCursor(rawCursor, query.sort) : null;
+
+  const dir = backwards ? (query.dir === "asc" ? "desc" : "asc") : query.dir; // Backwards reads the reversed order, then flips the page.
+  const nullsLast = !backwards;
+
+  const rows = await tdb.load.findMany({
+    where: cursor ? { AND: [where, afterCursor(cursor, dir, nullsLast)] } : where,
+    orderBy: loadListOrderBy(query.sort, dir, nullsLast),
+    include,
+    take: query.limit + 1,                                                 // One extra row tells us whether another page exists.
+  });
+  const total = await tdb.load.count({ where });
+
+  const hasMore = rows.length > query.limit;
+  const loads = rows.slice(0, query.limit);
+  if (backwards) loads.reverse();
+  const first = loads[0] ? encodeLoadCursor(query.sort, loads[0]) : null;
+  const last = loads.length ? encodeLoadCursor(query.sort, loads[loads.length - 1]) : null;
+
+  return {
+    loads,
+    total,
+    nextCursor: backwards ? last : hasMore ? last : null,
+    prevCursor: backwards ? (hasMore ? first : null) : cursor ? first : null,
+  };
+}
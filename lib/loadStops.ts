@@ -0,0 +1,64 @@
+import type { Location, UserRole } from "@prisma/client";                 // Saved-location row + role enum.
+import type { AuditedDb } from "@/lib/audit";                             // Stop writes are audited.
+import { loadAccessFilter } from "@/lib/permissions";                     // Drivers only touch stops on their assigned loads.
+import type { ScopedDb } from "@/lib/scopedDb";                           // Tenant-scoped reads.
+
+export const STOP_INCLUDE = {                                             // What every stops endpoint returns per stop.
+  location: { select: { id: true, name: true } },
+} as const;
+
+const ADDRESS_FIELDS = [
+  "name",
+  "addressLine1",
+  "addressLine2",
+  "city",
+  "state",
+  "postalCode",
+  "country",
+] as const;
+
+type StopAddress = Partial<Record<(typeof ADDRESS_FIELDS)[number], string | null>>;
+
+/**
+ * Loads the stop's parent load within the tenant (and, for drivers, their assignments).
+ * Returns null when the caller can't see it, so routes answer 404 either way.
+ */
+export function findStopLoad(
+  tdb: ScopedDb,
+  loadId: string,
+  user: { id: string; role: UserRole }
+) {
+  return tdb.load.findFirst({
+    where: { id: loadId, ...loadAccessFilter(user) },
+    select: { id: true, status: true },
+  });
+}
+
+/**
+ * Fills address fields the caller left out from a saved Location.
+ * Explicit values (including null) win so a stop can override e.g. the dock name.
+ */
+export function withLocationAddress<T extends StopAddress>(input: T, location: Location | null): T {
+  if (!location) return input;
+  const filled: StopAddress = { ...input };
+  for (const field of ADDRESS_FIELDS) {
+    if (filled[field] === undefined) filled[field] = location[field];
+  }
+  return filled as T;
+}
+
+/**
+ * Rewrites `sequence` as 0..n-1 in the given order, touching only stops whose position changed.
+ */
+export async function resequenceStops(audited: AuditedDb, orderedIds: string[]) {
+  const current = await audited.loadStop.findMany({
+    where: { id: { in: orderedIds } },
+    select: { id: true, sequence: true },
+  });
+  const sequenceById = new Map(current.map((s) => [s.id, s.sequence]));
+
+  for (const [index, id] of orderedIds.entries()) {
+    if (sequenceById.get(id) === index) continue;
+    await audited.loadStop.update({ where: { id }, data: { sequence: index } });
+  }
+}
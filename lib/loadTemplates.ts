@@ -0,0 +1,241 @@
+import type { Load, LoadStop, LoadTemplate, LoadTemplateStop, RecurrenceFreq } from "@prisma/client"; // Rows copied between loads and templates.
+import { auditedDb, type AuditedDb } from "@/lib/audit";                     // Generated loads are audited like manual ones.
+import { db } from "@/lib/db";                                               // The scheduler runs across every company.
+
+export const TEMPLATE_INTERVAL_DAYS: Partial<Record<RecurrenceFreq, number>> = {
+  WEEKLY: 7,
+  BIWEEKLY: 14,
+};
+
+export const GENERATE_AHEAD_DAYS = 7;                                         // Drafts appear a week before their pickup.
+
+export const TEMPLATE_INCLUDE = {                                             // What every template endpoint returns.
+  customer: { select: { id: true, name: true } },
+  stops: {
+    orderBy: { sequence: "asc" },
+    include: { location: { select: { id: true, name: true } } },
+  },
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+type StopFields = Pick<
+  LoadStop,
+  "type" | "locationId" | "name" | "addressLine1" | "addressLine2" | "city" | "state" | "postalCode" | "country" | "notes"
+>;
+
+function stopFields(stop: StopFields): StopFields {
+  return {
+    type: stop.type,
+    locationId: stop.locationId,
+    name: stop.name,
+    addressLine1: stop.addressLine1,
+    addressLine2: stop.addressLine2,
+    city: stop.city,
+    state: stop.state,
+    postalCode: stop.postalCode,
+    country: stop.country,
+    notes: stop.notes,
+  };
+}
+
+/**
+ * When the load starts: the first stop appointment, else the pickup date.
+ */
+export function loadAnchor(load: Pick<Load, "pickupDate">, stops: Pick<LoadStop, "scheduledAt">[]): Date | null {
+  return stops.find((s) => s.scheduledAt)?.scheduledAt ?? load.pickupDate ?? null;
+}
+
+/**
+ * First run of `recurrence` from `anchor` that falls after `after`.
+ */
+export function nextRunAfter(anchor: Date, recurrence: RecurrenceFreq, after: Date): Date {
+  const step = (TEMPLATE_INTERVAL_DAYS[recurrence] ?? 7) * DAY_MS;
+  let next = anchor.getTime() + step;
+  if (next <= after.getTime()) {
+    next += Math.ceil((after.getTime() - next) / step) * step;
+    if (next <= after.getTime()) next += step;
+  }
+  return new Date(next);
+}
+
+/**
+ * Template columns + stops captured from a load. Stop appointments become offsets from the
+ * first one so every generated load keeps the same spacing between pickup and delivery.
+ */
+export function templateDataFromLoad(load: Load & { stops: LoadStop[] }) {
+  const anchor = loadAnchor(load, load.stops);
+
+  return {
+    customerId: load.customerId,
+    broker: load.broker,
+    equipment: load.equipment,
+    commodity: load.commodity,
+    rate: load.rate,
+    miles: load.miles,
+    fuelCost: load.fuelCost,
+    isTeam: load.isTeam,
+    stops: [...load.stops]
+      .sort((a, b) => a.sequence - b.sequence)
+      .map((stop, index) => ({
+        ...stopFields(stop),
+        sequence: index,
+        offsetMinutes:
+          anchor && stop.scheduledAt
+            ? Math.round((stop.scheduledAt.getTime() - anchor.getTime()) / MINUTE_MS)
+            : null,
+      })),
+    anchor,
+  };
+}
+
+/**
+ * Creates a DRAFT load from a template with its first pickup at `pickupAt` (no appointments when null).
+ */
+export async function createLoadFromTemplate(
+  audited: AuditedDb,
+  template: LoadTemplate & { stops: LoadTemplateStop[] },
+  ownerUserId: string,
+  pickupAt: Date | null
+) {
+  const scheduled = (stop: LoadTemplateStop) =>
+    pickupAt && stop.offsetMinutes !== null ? new Date(pickupAt.getTime() + stop.offsetMinutes * MINUTE_MS) : null;
+
+  const stops = [...template.stops].sort((a, b) => a.sequence - b.sequence);
+  const lastDelivery = [...stops].reverse().find((s) => s.type === "DELIVERY");
+
+  const load = await audited.load.create({
+    data: {
+      companyId: template.companyId,
+      userId: ownerUserId,
+      templateId: template.id,
+      customerId: template.customerId,
+      broker: template.broker,
+      equipment: template.equipment,
+      commodity: template.commodity,
+      rate: template.rate ?? 0,
+      miles: template.miles ?? 0,
+      fuelCost: template.fuelCost ?? 0,
+      isTeam: template.isTeam,
+      pickupDate: pickupAt,
+      deliveryDate: lastDelivery ? scheduled(lastDelivery) : null,
+      status: "DRAFT",
+    },
+  });
+
+  if (stops.length > 0) {
+    await audited.loadStop.createManyAndReturn({
+      data: stops.map((stop, index) => ({
+        ...stopFields(stop),
+        loadId: load.id,
+        sequence: index,
+        scheduledAt: scheduled(stop),
+      })),
+    });
+  }
+
+  return load;
+}
+
+/**
+ * Copies a load as a new DRAFT: same customer, lane, equipment and rate; no truck, drivers,
+ * check-in times or reference numbers. Appointments shift so the first lands on `pickupAt`.
+ */
+export async function duplicateLoad(
+  audited: AuditedDb,
+  load: Load & { stops: LoadStop[] },
+  userId: string,
+  pickupAt: Date | null
+) {
+  const anchor = loadAnchor(load, load.stops);
+  const shift = pickupAt && anchor ? pickupAt.getTime() - anchor.getTime() : null;
+  const moved = (date: Date | null) => (date && shift !== null ? new Date(date.getTime() + shift) : null);
+
+  const copy = await audited.load.create({
+    data: {
+      companyId: load.companyId,
+      userId,
+      templateId: load.templateId,
+      customerId: load.customerId,
+      broker: load.broker,
+      equipment: load.equipment,
+      commodity: load.commodity,
+      rate: load.rate,
+      miles: load.miles,
+      fuelCost: load.fuelCost,
+      isTeam: load.isTeam,
+      loadValue: load.loadValue,
+      temperature: load.temperature,
+      pickupDate: pickupAt ?? moved(load.pickupDate),
+      deliveryDate: moved(load.deliveryDate),
+      status: "DRAFT",
+    },
+  });
+
+  const stops = [...load.stops].sort((a, b) => a.sequence - b.sequence);
+  if (stops.length > 0) {
+    await audited.loadStop.createManyAndReturn({
+      data: stops.map((stop, index) => ({
+        ...stopFields(stop),
+        loadId: copy.id,
+        sequence: index,
+        scheduledAt: moved(stop.scheduledAt),
+      })),
+    });
+  }
+
+  return copy;
+}
+
+/**
+ * Scheduler entry point: creates the DRAFT loads of every active recurring template whose next
+ * pickup is within GENERATE_AHEAD_DAYS. Each run is claimed by moving `nextRunAt` forward first,
+ * so overlapping invocations can't generate the same load twice. Runs missed while the scheduler
+ * was down aren't back-filled; the template skips ahead to its next future pickup.
+ */
+export async function generateRecurringLoads(now = new Date()) {
+  const horizon = new Date(now.getTime() + GENERATE_AHEAD_DAYS * DAY_MS);
+
+  const templates = await db.loadTemplate.findMany({
+    where: {
+      isActive: true,
+      recurrence: { in: ["WEEKLY", "BIWEEKLY"] },
+      nextRunAt: { lte: horizon },
+    },
+    include: { stops: true },
+  });
+
+  const created: { templateId: string; loadId: string }[] = [];
+
+  for (const template of templates) {
+    if (!template.recurrence || !template.nextRunAt) continue;
+
+    let runAt = template.nextRunAt;
+    if (runAt < now) runAt = nextRunAfter(runAt, template.recurrence, now); // Skip missed runs
+
+    while (runAt <= horizon) {
+      const claimed = await db.loadTemplate.updateMany({
+        where: { id: template.id, nextRunAt: template.nextRunAt },
+        data: { nextRunAt: nextRunAfter(runAt, template.recurrence, runAt), lastRunAt: now },
+      });
+      if (claimed.count === 0) break;                                         // Another run got here first.
+
+      const audited = auditedDb({ companyId: template.companyId, userId: null }); // System actor.
+      const load = await createLoadFromTemplate(audited, template, template.userId, runAt);
+      created.push({ templateId: template.id, loadId: load.id });
+
+      template.nextRunAt = nextRunAfter(runAt, template.recurrence, runAt);
+      runAt = template.nextRunAt;
+    }
+
+    if (runAt > horizon && template.nextRunAt && template.nextRunAt < now) {
+      await db.loadTemplate.updateMany({                                     // Only missed runs: move the template past them.
+        where: { id: template.id, nextRunAt: template.nextRunAt },
+        data: { nextRunAt: runAt },
+      });
+    }
+  }
+
+  return created;
+}
@@ -0,0 +1,305 @@
+/**
+ * Bundled US place centroids for offline mileage estimates (no geocoding API).
+ * Coordinates are approximate city/state centers, good to a few miles, which is
+ * all a great-circle × circuity estimate needs.
+ */
+
+export type LatLng = { lat: number; lng: number };
+
+export type CityCentroid = LatLng & {
+  city: string;
+  state: string;
+  zip3: string[];                                                          // ZIP prefixes whose sectional center is this city.
+};
+
+// Geographic center of each state (plus DC).
+export const STATE_CENTROIDS: Record<string, LatLng> = {
+  AL: { lat: 32.8, lng: -86.8 },
+  AK: { lat: 64.2, lng: -149.5 },
+  AZ: { lat: 34.3, lng: -111.7 },
+  AR: { lat: 34.9, lng: -92.4 },
+  CA: { lat: 37.2, lng: -119.4 },
+  CO: { lat: 39.0, lng: -105.5 },
+  CT: { lat: 41.6, lng: -72.7 },
+  DE: { lat: 39.0, lng: -75.5 },
+  DC: { lat: 38.9, lng: -77.0 },
+  FL: { lat: 28.6, lng: -82.4 },
+  GA: { lat: 32.7, lng: -83.4 },
+  HI: { lat: 20.8, lng: -156.3 },
+  ID: { lat: 44.4, lng: -114.6 },
+  IL: { lat: 40.0, lng: -89.2 },
+  IN: { lat: 39.9, lng: -86.3 },
+  IA: { lat: 42.1, lng: -93.5 },
+  KS: { lat: 38.5, lng: -98.4 },
+  KY: { lat: 37.5, lng: -85.3 },
+  LA: { lat: 31.1, lng: -92.0 },
+  ME: { lat: 45.4, lng: -69.2 },
+  MD: { lat: 39.0, lng: -76.8 },
+  MA: { lat: 42.3, lng: -71.8 },
+  MI: { lat: 44.3, lng: -85.4 },
+  MN: { lat: 46.3, lng: -94.3 },
+  MS: { lat: 32.7, lng: -89.7 },
+  MO: { lat: 38.4, lng: -92.5 },
+  MT: { lat: 47.0, lng: -109.6 },
+  NE: { lat: 41.5, lng: -99.8 },
+  NV: { lat: 39.3, lng: -116.6 },
+  NH: { lat: 43.7, lng: -71.6 },
+  NJ: { lat: 40.2, lng: -74.7 },
+  NM: { lat: 34.4, lng: -106.1 },
+  NY: { lat: 42.9, lng: -75.5 },
+  NC: { lat: 35.6, lng: -79.4 },
+  ND: { lat: 47.5, lng: -100.5 },
+  OH: { lat: 40.3, lng: -82.8 },
+  OK: { lat: 35.6, lng: -97.5 },
+  OR: { lat: 43.9, lng: -120.6 },
+  PA: { lat: 40.9, lng: -77.8 },
+  RI: { lat: 41.7, lng: -71.5 },
+  SC: { lat: 33.9, lng: -80.9 },
+  SD: { lat: 44.4, lng: -100.2 },
+  TN: { lat: 35.9, lng: -86.4 },
+  TX: { lat: 31.5, lng: -99.3 },
+  UT: { lat: 39.3, lng: -111.7 },
+  VT: { lat: 44.1, lng: -72.7 },
+  VA: { lat: 37.5, lng: -78.9 },
+  WA: { lat: 47.4, lng: -120.5 },
+  WV: { lat: 38.6, lng: -80.6 },
+  WI: { lat: 44.6, lng: -89.9 },
+  WY: { lat: 43.0, lng: -107.6 },
+};
+
+// USPS ZIP prefix allocation: [first, last, state], inclusive.
+export const ZIP3_STATE_RANGES: [number, number, string][] = [
+  [5, 5, "NY"],
+  [10, 27, "MA"],
+  [28, 29, "RI"],
+  [30, 38, "NH"],
+  [39, 49, "ME"],
+  [50, 54, "VT"],
+  [55, 55, "MA"],
+  [56, 59, "VT"],
+  [60, 69, "CT"],
+  [70, 89, "NJ"],
+  [100, 149, "NY"],
+  [150, 196, "PA"],
+  [197, 199, "DE"],
+  [200, 200, "DC"],
+  [201, 201, "VA"],
+  [202, 205, "DC"],
+  [206, 219, "MD"],
+  [220, 246, "VA"],
+  [247, 268, "WV"],
+  [270, 289, "NC"],
+  [290, 299, "SC"],
+  [300, 319, "GA"],
+  [320, 349, "FL"],
+  [350, 369, "AL"],
+  [370, 385, "TN"],
+  [386, 397, "MS"],
+  [398, 399, "GA"],
+  [400, 427, "KY"],
+  [430, 459, "OH"],
+  [460, 479, "IN"],
+  [480, 499, "MI"],
+  [500, 528, "IA"],
+  [530, 549, "WI"],
+  [550, 567, "MN"],
+  [570, 577, "SD"],
+  [580, 588, "ND"],
+  [590, 599, "MT"],
+  [600, 629, "IL"],
+  [630, 658, "MO"],
+  [660, 679, "KS"],
+  [680, 693, "NE"],
+  [700, 714, "LA"],
+  [716, 729, "AR"],
+  [730, 749, "OK"],
+  [750, 799, "TX"],
+  [800, 816, "CO"],
+  [820, 831, "WY"],
+  [832, 838, "ID"],
+  [840, 847, "UT"],
+  [850, 865, "AZ"],
+  [870, 884, "NM"],
+  [885, 885, "TX"],
+  [889, 898, "NV"],
+  [900, 961, "CA"],
+  [967, 968, "HI"],
+  [970, 979, "OR"],
+  [980, 994, "WA"],
+  [995, 999, "AK"],
+];
+
+// Freight hubs and regional centers.
+export const CITY_CENTROIDS: CityCentroid[] = [
+  { city: "Birmingham", state: "AL", lat: 33.52, lng: -86.8, zip3: ["350", "352"] },
+  { city: "Huntsville", state: "AL", lat: 34.73, lng: -86.59, zip3: ["357", "358"] },
+  { city: "Montgomery", state: "AL", lat: 32.37, lng: -86.3, zip3: ["360", "361"] },
+  { city: "Mobile", state: "AL", lat: 30.69, lng: -88.04, zip3: ["365", "366"] },
+  { city: "Anchorage", state: "AK", lat: 61.22, lng: -149.9, zip3: ["995"] },
+  { city: "Phoenix", state: "AZ", lat: 33.45, lng: -112.07, zip3: ["850"] },
+  { city: "Tucson", state: "AZ", lat: 32.22, lng: -110.97, zip3: ["856", "857"] },
+  { city: "Flagstaff", state: "AZ", lat: 35.2, lng: -111.65, zip3: ["860"] },
+  { city: "Little Rock", state: "AR", lat: 34.75, lng: -92.29, zip3: ["720", "722"] },
+  { city: "Fort Smith", state: "AR", lat: 35.39, lng: -94.4, zip3: ["729"] },
+  { city: "Los Angeles", state: "CA", lat: 34.05, lng: -118.24, zip3: ["900"] },
+  { city: "Long Beach", state: "CA", lat: 33.77, lng: -118.19, zip3: ["907", "908"] },
+  { city: "Ontario", state: "CA", lat: 34.06, lng: -117.65, zip3: ["917"] },
+  { city: "San Bernardino", state: "CA", lat: 34.11, lng: -117.29, zip3: ["923", "924"] },
+  { city: "San Diego", state: "CA", lat: 32.72, lng: -117.16, zip3: ["919", "920", "921"] },
+  { city: "Bakersfield", state: "CA", lat: 35.37, lng: -119.02, zip3: ["932", "933"] },
+  { city: "Fresno", state: "CA", lat: 36.74, lng: -119.79, zip3: ["936", "937"] },
+  { city: "San Francisco", state: "CA", lat: 37.77, lng: -122.42, zip3: ["940", "941"] },
+  { city: "Oakland", state: "CA", lat: 37.8, lng: -122.27, zip3: ["945", "946"] },
+  { city: "San Jose", state: "CA", lat: 37.34, lng: -121.89, zip3: ["950", "951"] },
+  { city: "Stockton", state: "CA", lat: 37.96, lng: -121.29, zip3: ["952"] },
+  { city: "Sacramento", state: "CA", lat: 38.58, lng: -121.49, zip3: ["956", "957", "958"] },
+  { city: "Denver", state: "CO", lat: 39.74, lng: -104.99, zip3: ["800", "802"] },
+  { city: "Colorado Springs", state: "CO", lat: 38.83, lng: -104.82, zip3: ["808", "809"] },
+  { city: "Grand Junction", state: "CO", lat: 39.06, lng: -108.55, zip3: ["815"] },
+  { city: "Hartford", state: "CT", lat: 41.76, lng: -72.68, zip3: ["061"] },
+  { city: "New Haven", state: "CT", lat: 41.31, lng: -72.92, zip3: ["065"] },
+  { city: "Wilmington", state: "DE", lat: 39.74, lng: -75.55, zip3: ["198"] },
+  { city: "Washington", state: "DC", lat: 38.91, lng: -77.04, zip3: ["200"] },
+  { city: "Jacksonville", state: "FL", lat: 30.33, lng: -81.66, zip3: ["320", "322"] },
+  { city: "Tallahassee", state: "FL", lat: 30.44, lng: -84.28, zip3: ["323"] },
+  { city: "Orlando", state: "FL", lat: 28.54, lng: -81.38, zip3: ["327", "328"] },
+  { city: "Miami", state: "FL", lat: 25.76, lng: -80.19, zip3: ["331", "332"] },
+  { city: "Tampa", state: "FL", lat: 27.95, lng: -82.46, zip3: ["335", "336"] },
+  { city: "Lakeland", state: "FL", lat: 28.04, lng: -81.95, zip3: ["338"] },
+  { city: "Atlanta", state: "GA", lat: 33.75, lng: -84.39, zip3: ["300", "303"] },
+  { city: "Savannah", state: "GA", lat: 32.08, lng: -81.09, zip3: ["313", "314"] },
+  { city: "Honolulu", state: "HI", lat: 21.31, lng: -157.86, zip3: ["968"] },
+  { city: "Idaho Falls", state: "ID", lat: 43.49, lng: -112.03, zip3: ["834"] },
+  { city: "Boise", state: "ID", lat: 43.62, lng: -116.2, zip3: ["836", "837"] },
+  { city: "Joliet", state: "IL", lat: 41.53, lng: -88.08, zip3: ["604"] },
+  { city: "Chicago", state: "IL", lat: 41.88, lng: -87.63, zip3: ["606"] },
+  { city: "Rockford", state: "IL", lat: 42.27, lng: -89.09, zip3: ["610", "611"] },
+  { city: "Peoria", state: "IL", lat: 40.69, lng: -89.59, zip3: ["615", "616"] },
+  { city: "Springfield", state: "IL", lat: 39.8, lng: -89.64, zip3: ["625", "627"] },
+  { city: "Indianapolis", state: "IN", lat: 39.77, lng: -86.16, zip3: ["460", "461", "462"] },
+  { city: "Gary", state: "IN", lat: 41.59, lng: -87.35, zip3: ["463", "464"] },
+  { city: "Fort Wayne", state: "IN", lat: 41.08, lng: -85.14, zip3: ["467", "468"] },
+  { city: "Evansville", state: "IN", lat: 37.97, lng: -87.57, zip3: ["476", "477"] },
+  { city: "Des Moines", state: "IA", lat: 41.59, lng: -93.62, zip3: ["500", "503"] },
+  { city: "Sioux City", state: "IA", lat: 42.5, lng: -96.4, zip3: ["510", "511"] },
+  { city: "Cedar Rapids", state: "IA", lat: 41.98, lng: -91.67, zip3: ["522", "524"] },
+  { city: "Davenport", state: "IA", lat: 41.52, lng: -90.58, zip3: ["527", "528"] },
+  { city: "Kansas City", state: "KS", lat: 39.11, lng: -94.63, zip3: ["660", "661"] },
+  { city: "Wichita", state: "KS", lat: 37.69, lng: -97.34, zip3: ["670", "672"] },
+  { city: "Salina", state: "KS", lat: 38.84, lng: -97.61, zip3: ["674"] },
+  { city: "Louisville", state: "KY", lat: 38.25, lng: -85.76, zip3: ["400", "402"] },
+  { city: "Lexington", state: "KY", lat: 38.04, lng: -84.5, zip3: ["403", "405"] },
+  { city: "Bowling Green", state: "KY", lat: 36.99, lng: -86.44, zip3: ["421"] },
+  { city: "New Orleans", state: "LA", lat: 29.95, lng: -90.07, zip3: ["700", "701"] },
+  { city: "Lafayette", state: "LA", lat: 30.22, lng: -92.02, zip3: ["705"] },
+  { city: "Baton Rouge", state: "LA", lat: 30.45, lng: -91.15, zip3: ["707", "708"] },
+  { city: "Shreveport", state: "LA", lat: 32.53, lng: -93.75, zip3: ["710", "711"] },
+  { city: "Portland", state: "ME", lat: 43.66, lng: -70.26, zip3: ["040", "041"] },
+  { city: "Bangor", state: "ME", lat: 44.8, lng: -68.77, zip3: ["044"] },
+  { city: "Baltimore", state: "MD", lat: 39.29, lng: -76.61, zip3: ["210", "211", "212"] },
+  { city: "Hagerstown", state: "MD", lat: 39.64, lng: -77.72, zip3: ["217"] },
+  { city: "Springfield", state: "MA", lat: 42.1, lng: -72.59, zip3: ["010", "011"] },
+  { city: "Worcester", state: "MA", lat: 42.26, lng: -71.8, zip3: ["015", "016"] },
+  { city: "Boston", state: "MA", lat: 42.36, lng: -71.06, zip3: ["021", "022"] },
+  { city: "Detroit", state: "MI", lat: 42.33, lng: -83.05, zip3: ["480", "481", "482"] },
+  { city: "Saginaw", state: "MI", lat: 43.42, lng: -83.95, zip3: ["486", "487"] },
+  { city: "Lansing", state: "MI", lat: 42.73, lng: -84.56, zip3: ["488", "489"] },
+  { city: "Grand Rapids", state: "MI", lat: 42.96, lng: -85.67, zip3: ["493", "495"] },
+  { city: "St. Paul", state: "MN", lat: 44.95, lng: -93.09, zip3: ["550", "551"] },
+  { city: "Minneapolis", state: "MN", lat: 44.98, lng: -93.27, zip3: ["553", "554", "555"] },
+  { city: "Duluth", state: "MN", lat: 46.79, lng: -92.1, zip3: ["558"] },
+  { city: "Tupelo", state: "MS", lat: 34.26, lng: -88.7, zip3: ["388"] },
+  { city: "Jackson", state: "MS", lat: 32.3, lng: -90.18, zip3: ["390", "392"] },
+  { city: "Gulfport", state: "MS", lat: 30.37, lng: -89.09, zip3: ["395"] },
+  { city: "St. Louis", state: "MO", lat: 38.63, lng: -90.2, zip3: ["630", "631"] },
+  { city: "Kansas City", state: "MO", lat: 39.1, lng: -94.58, zip3: ["640", "641"] },
+  { city: "Joplin", state: "MO", lat: 37.08, lng: -94.51, zip3: ["648"] },
+  { city: "Springfield", state: "MO", lat: 37.21, lng: -93.29, zip3: ["656", "657", "658"] },
+  { city: "Billings", state: "MT", lat: 45.78, lng: -108.5, zip3: ["590", "591"] },
+  { city: "Great Falls", state: "MT", lat: 47.5, lng: -111.3, zip3: ["594"] },
+  { city: "Missoula", state: "MT", lat: 46.87, lng: -113.99, zip3: ["598"] },
+  { city: "Omaha", state: "NE", lat: 41.26, lng: -95.93, zip3: ["680", "681"] },
+  { city: "Lincoln", state: "NE", lat: 40.81, lng: -96.7, zip3: ["683", "684", "685"] },
+  { city: "North Platte", state: "NE", lat: 41.12, lng: -100.77, zip3: ["691"] },
+  { city: "Las Vegas", state: "NV", lat: 36.17, lng: -115.14, zip3: ["889", "890", "891"] },
+  { city: "Reno", state: "NV", lat: 39.53, lng: -119.81, zip3: ["894", "895"] },
+  { city: "Manchester", state: "NH", lat: 42.99, lng: -71.46, zip3: ["030", "031"] },
+  { city: "Newark", state: "NJ", lat: 40.74, lng: -74.17, zip3: ["070", "071"] },
+  { city: "Camden", state: "NJ", lat: 39.93, lng: -75.12, zip3: ["080", "081"] },
+  { city: "Edison", state: "NJ", lat: 40.52, lng: -74.41, zip3: ["088"] },
+  { city: "Albuquerque", state: "NM", lat: 35.08, lng: -106.65, zip3: ["870", "871"] },
+  { city: "Las Cruces", state: "NM", lat: 32.32, lng: -106.76, zip3: ["880"] },
+  { city: "New York", state: "NY", lat: 40.71, lng: -74.01, zip3: ["100", "101", "102"] },
+  { city: "Albany", state: "NY", lat: 42.65, lng: -73.76, zip3: ["120", "122"] },
+  { city: "Syracuse", state: "NY", lat: 43.05, lng: -76.15, zip3: ["130", "131", "132"] },
+  { city: "Buffalo", state: "NY", lat: 42.89, lng: -78.88, zip3: ["140", "141", "142"] },
+  { city: "Rochester", state: "NY", lat: 43.16, lng: -77.61, zip3: ["144", "145", "146"] },
+  { city: "Greensboro", state: "NC", lat: 36.07, lng: -79.79, zip3: ["270", "274"] },
+  { city: "Raleigh", state: "NC", lat: 35.78, lng: -78.64, zip3: ["275", "276"] },
+  { city: "Charlotte", state: "NC", lat: 35.23, lng: -80.84, zip3: ["280", "282"] },
+  { city: "Wilmington", state: "NC", lat: 34.23, lng: -77.94, zip3: ["284"] },
+  { city: "Fargo", state: "ND", lat: 46.88, lng: -96.79, zip3: ["580", "581"] },
+  { city: "Bismarck", state: "ND", lat: 46.81, lng: -100.78, zip3: ["585"] },
+  { city: "Columbus", state: "OH", lat: 39.96, lng: -83.0, zip3: ["430", "432"] },
+  { city: "Toledo", state: "OH", lat: 41.65, lng: -83.54, zip3: ["434", "435", "436"] },
+  { city: "Cleveland", state: "OH", lat: 41.5, lng: -81.69, zip3: ["440", "441"] },
+  { city: "Cincinnati", state: "OH", lat: 39.1, lng: -84.51, zip3: ["450", "451", "452"] },
+  { city: "Dayton", state: "OH", lat: 39.76, lng: -84.19, zip3: ["453", "454"] },
+  { city: "Oklahoma City", state: "OK", lat: 35.47, lng: -97.52, zip3: ["730", "731"] },
+  { city: "Tulsa", state: "OK", lat: 36.15, lng: -95.99, zip3: ["740", "741"] },
+  { city: "Portland", state: "OR", lat: 45.52, lng: -122.68, zip3: ["970", "971", "972"] },
+  { city: "Eugene", state: "OR", lat: 44.05, lng: -123.09, zip3: ["974"] },
+  { city: "Medford", state: "OR", lat: 42.33, lng: -122.87, zip3: ["975"] },
+  { city: "Pittsburgh", state: "PA", lat: 40.44, lng: -80.0, zip3: ["150", "152"] },
+  { city: "Erie", state: "PA", lat: 42.13, lng: -80.09, zip3: ["164", "165"] },
+  { city: "Harrisburg", state: "PA", lat: 40.27, lng: -76.88, zip3: ["170", "171"] },
+  { city: "Allentown", state: "PA", lat: 40.61, lng: -75.49, zip3: ["180", "181"] },
+  { city: "Scranton", state: "PA", lat: 41.41, lng: -75.66, zip3: ["184", "185"] },
+  { city: "Philadelphia", state: "PA", lat: 39.95, lng: -75.17, zip3: ["190", "191"] },
+  { city: "Providence", state: "RI", lat: 41.82, lng: -71.41, zip3: ["028", "029"] },
+  { city: "Columbia", state: "SC", lat: 34.0, lng: -81.03, zip3: ["290", "292"] },
+  { city: "Charleston", state: "SC", lat: 32.78, lng: -79.93, zip3: ["294"] },
+  { city: "Greenville", state: "SC", lat: 34.85, lng: -82.4, zip3: ["296"] },
+  { city: "Sioux Falls", state: "SD", lat: 43.54, lng: -96.73, zip3: ["570", "571"] },
+  { city: "Rapid City", state: "SD", lat: 44.08, lng: -103.23, zip3: ["577"] },
+  { city: "Nashville", state: "TN", lat: 36.16, lng: -86.78, zip3: ["370", "371", "372"] },
+  { city: "Chattanooga", state: "TN", lat: 35.05, lng: -85.31, zip3: ["373", "374"] },
+  { city: "Knoxville", state: "TN", lat: 35.96, lng: -83.92, zip3: ["377", "378", "379"] },
+  { city: "Memphis", state: "TN", lat: 35.15, lng: -90.05, zip3: ["375", "380", "381"] },
+  { city: "Dallas", state: "TX", lat: 32.78, lng: -96.8, zip3: ["750", "752", "753"] },
+  { city: "Tyler", state: "TX", lat: 32.35, lng: -95.3, zip3: ["757"] },
+  { city: "Fort Worth", state: "TX", lat: 32.76, lng: -97.33, zip3: ["760", "761"] },
+  { city: "Waco", state: "TX", lat: 31.55, lng: -97.15, zip3: ["765", "766", "767"] },
+  { city: "Houston", state: "TX", lat: 29.76, lng: -95.37, zip3: ["770", "772"] },
+  { city: "Beaumont", state: "TX", lat: 30.08, lng: -94.1, zip3: ["776", "777"] },
+  { city: "Laredo", state: "TX", lat: 27.51, lng: -99.51, zip3: ["780"] },
+  { city: "San Antonio", state: "TX", lat: 29.42, lng: -98.49, zip3: ["781", "782"] },
+  { city: "Corpus Christi", state: "TX", lat: 27.8, lng: -97.4, zip3: ["783", "784"] },
+  { city: "McAllen", state: "TX", lat: 26.2, lng: -98.23, zip3: ["785"] },
+  { city: "Austin", state: "TX", lat: 30.27, lng: -97.74, zip3: ["786", "787"] },
+  { city: "Amarillo", state: "TX", lat: 35.22, lng: -101.83, zip3: ["790", "791"] },
+  { city: "Lubbock", state: "TX", lat: 33.58, lng: -101.86, zip3: ["793", "794"] },
+  { city: "Abilene", state: "TX", lat: 32.45, lng: -99.73, zip3: ["795", "796"] },
+  { city: "Midland", state: "TX", lat: 32.0, lng: -102.08, zip3: ["797"] },
+  { city: "El Paso", state: "TX", lat: 31.76, lng: -106.49, zip3: ["798", "799", "885"] },
+  { city: "Salt Lake City", state: "UT", lat: 40.76, lng: -111.89, zip3: ["840", "841"] },
+  { city: "Ogden", state: "UT", lat: 41.22, lng: -111.97, zip3: ["844"] },
+  { city: "St. George", state: "UT", lat: 37.1, lng: -113.58, zip3: ["847"] },
+  { city: "Burlington", state: "VT", lat: 44.48, lng: -73.21, zip3: ["054"] },
+  { city: "Winchester", state: "VA", lat: 39.19, lng: -78.16, zip3: ["226"] },
+  { city: "Richmond", state: "VA", lat: 37.54, lng: -77.44, zip3: ["230", "231", "232"] },
+  { city: "Norfolk", state: "VA", lat: 36.85, lng: -76.29, zip3: ["233", "234", "235"] },
+  { city: "Roanoke", state: "VA", lat: 37.27, lng: -79.94, zip3: ["240", "241"] },
+  { city: "Seattle", state: "WA", lat: 47.61, lng: -122.33, zip3: ["980", "981"] },
+  { city: "Tacoma", state: "WA", lat: 47.25, lng: -122.44, zip3: ["983", "984"] },
+  { city: "Yakima", state: "WA", lat: 46.6, lng: -120.51, zip3: ["989"] },
+  { city: "Spokane", state: "WA", lat: 47.66, lng: -117.43, zip3: ["990", "991", "992"] },
+  { city: "Charleston", state: "WV", lat: 38.35, lng: -81.63, zip3: ["250", "253"] },
+  { city: "Milwaukee", state: "WI", lat: 43.04, lng: -87.91, zip3: ["530", "532"] },
+  { city: "Madison", state: "WI", lat: 43.07, lng: -89.4, zip3: ["535", "537"] },
+  { city: "Green Bay", state: "WI", lat: 44.51, lng: -88.01, zip3: ["541", "543"] },
+  { city: "Eau Claire", state: "WI", lat: 44.81, lng: -91.5, zip3: ["547"] },
+  { city: "Cheyenne", state: "WY", lat: 41.14, lng: -104.82, zip3: ["820"] },
+  { city: "Casper", state: "WY", lat: 42.87, lng: -106.31, zip3: ["826"] },
+  { city: "Rock Springs", state: "WY", lat: 41.59, lng: -109.2, zip3: ["829"] },
+];
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkLoadMiles,
+  compareMiles,
+  estimateLoadRoute,
+  estimateMiles,
+  estimateRoute,
+  greatCircleMiles,
+  resolvePlace,
+  ROAD_CIRCUITY,
+  zipState,
+} from "./index";
+
+const DALLAS = { city: "Dallas", state: "TX" };
+const HOUSTON = { city: "Houston", state: "TX" };
+const CHICAGO = { city: "Chicago", state: "IL" };
+
+describe("zipState", () => {
+  it("maps a ZIP prefix to its state", () => {
+    expect(zipState("75201")).toBe("TX");
+    expect(zipState("60601-1234")).toBe("IL");
+  });
+
+  it("is null for malformed or unassigned ZIPs", () => {
+    expect(zipState("7520")).toBeNull();
+    expect(zipState("00001")).toBeNull();
+  });
+});
+
+describe("resolvePlace", () => {
+  it("prefers the bundled city, whatever the spelling of Saint", () => {
+    expect(resolvePlace({ city: " dallas ", state: "tx" })).toMatchObject({ state: "TX", precision: "city" });
+    expect(resolvePlace({ city: "Saint Louis", state: "MO" })).toMatchObject({ state: "MO", precision: "city" });
+  });
+
+  it("falls back to the city serving the ZIP prefix, then the state center", () => {
+    expect(resolvePlace({ city: "Bellaire", state: "TX", postalCode: "77004" })).toMatchObject({
+      lat: 29.76,
+      precision: "zip3",
+    });
+    expect(resolvePlace({ city: "Nowhere", postalCode: "75901" })).toMatchObject({ state: "TX", precision: "state" });
+    expect(resolvePlace({ state: "IL" })).toMatchObject({ state: "IL", precision: "state" });
+  });
+
+  it("is null with nothing to go on", () => {
+    expect(resolvePlace({ city: "Springfield" })).toBeNull();
+    expect(resolvePlace({ state: "ZZ" })).toBeNull();
+  });
+});
+
+describe("estimateMiles", () => {
+  it("is great-circle distance times the circuity factor, rounded", () => {
+    const dallas = resolvePlace(DALLAS)!;
+    const houston = resolvePlace(HOUSTON)!;
+    expect(estimateMiles(dallas, houston)).toBe(Math.round(greatCircleMiles(dallas, houston) * ROAD_CIRCUITY));
+    expect(estimateMiles(dallas, dallas)).toBe(0);
+  });
+});
+
+describe("estimateRoute", () => {
+  it("adds up legs, skips places it can't locate and reports the worst precision", () => {
+    const route = estimateRoute([DALLAS, { city: "Springfield" }, HOUSTON, { state: "IL" }])!;
+
+    expect(route.unresolved).toEqual([1]);
+    expect(route.legs.map((leg) => [leg.from, leg.to, leg.precision])).toEqual([
+      [0, 2, "city"],
+      [2, 3, "state"],
+    ]);
+    expect(route.miles).toBe(route.legs[0].miles + route.legs[1].miles);
+    expect(route.precision).toBe("state");
+  });
+
+  it("splits miles by state and keeps in-state legs whole", () => {
+    const inState = estimateRoute([DALLAS, HOUSTON])!;
+    expect(inState.byState).toEqual({ TX: inState.miles });
+
+    const route = estimateRoute([DALLAS, CHICAGO])!;
+    expect(Object.keys(route.byState)).toEqual(expect.arrayContaining(["TX", "IL"]));
+    const split = Object.values(route.byState).reduce((sum, miles) => sum + miles, 0);
+    expect(Math.abs(split - route.miles)).toBeLessThanOrEqual(Object.keys(route.byState).length); // Per-state rounding only.
+  });
+
+  it("is null with fewer than two places located", () => {
+    expect(estimateRoute([DALLAS, { city: "Springfield" }])).toBeNull();
+  });
+});
+
+describe("estimateLoadRoute", () => {
+  it("follows stop sequence, not array order", () => {
+    const stops = [
+      { sequence: 2, city: "Chicago", state: "IL", postalCode: null },
+      { sequence: 1, city: "Dallas", state: "TX", postalCode: null },
+      { sequence: 3, city: "Houston", state: "TX", postalCode: null },
+    ];
+    expect(estimateLoadRoute(stops)!.miles).toBe(estimateRoute([DALLAS, CHICAGO, HOUSTON])!.miles);
+    expect(estimateLoadRoute(stops)!.miles).not.toBe(estimateRoute(stops)!.miles);
+  });
+});
+
+describe("compareMiles", () => {
+  it("flags entered miles more than 20% off the estimate", () => {
+    expect(compareMiles(120, 100)).toEqual({ diffPct: 20, mismatch: false });
+    expect(compareMiles(79, 100)).toEqual({ diffPct: -21, mismatch: true });
+  });
+
+  it("can't compare against a zero estimate", () => {
+    expect(compareMiles(50, 0)).toEqual({ diffPct: null, mismatch: false });
+  });
+});
+
+describe("checkLoadMiles", () => {
+  it("has no estimate or mismatch for a load without locatable stops", () => {
+    expect(checkLoadMiles({ miles: 500, stops: [] })).toEqual({
+      enteredMiles: 500,
+      estimate: null,
+      diffPct: null,
+      mismatch: false,
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import type { LoadStop } from "@prisma/client";
+import { CITY_CENTROIDS, STATE_CENTROIDS, ZIP3_STATE_RANGES, type CityCentroid, type LatLng } from "./centroids";
+
+export const ROAD_CIRCUITY = 1.18;                                         // Road miles per great-circle mile, US truck-route average.
+export const MILEAGE_MISMATCH_PCT = 20;                                    // Entered miles this far off the estimate get flagged.
+
+const EARTH_RADIUS_MILES = 3958.8;
+const STATE_SAMPLE_MILES = 20;                                             // Resolution of the state-by-state split.
+
+export type PlaceInput = {
+  city?: string | null;
+  state?: string | null;
+  postalCode?: string | null;
+};
+
+export type PlacePrecision = "city" | "zip3" | "state";                    // Best to worst.
+
+export type ResolvedPlace = LatLng & {
+  state: string;
+  precision: PlacePrecision;
+};
+
+export type RouteLeg = {
+  from: number;                                                            // Indexes into the places passed in.
+  to: number;
+  miles: number;
+  precision: PlacePrecision;
+};
+
+export type RouteEstimate = {
+  miles: number;
+  legs: RouteLeg[];
+  unresolved: number[];                                                    // Places that couldn't be located and were skipped.
+  byState: Record<string, number>;
+  precision: PlacePrecision;                                               // Worst precision of any leg.
+};
+
+const PRECISION_RANK: Record<PlacePrecision, number> = { city: 0, zip3: 1, state: 2 };
+
+function normalizeCity(city: string) {
+  return city
+    .trim()
+    .toLowerCase()
+    .replace(/^(saint|st\.?)\s+/, "st. ")
+    .replace(/\s+/g, " ");
+}
+
+const CITY_INDEX = new Map<string, CityCentroid>(
+  CITY_CENTROIDS.map((c) => [`${normalizeCity(c.city)}|${c.state}`, c])
+);
+
+const ZIP3_INDEX = new Map<string, CityCentroid>(
+  CITY_CENTROIDS.flatMap((c) => c.zip3.map((zip3) => [zip3, c] as const))
+);
+
+// Every bundled point, used to decide which state a point along a route is in.
+const STATE_POINTS: (LatLng & { state: string })[] = [
+  ...CITY_CENTROIDS,
+  ...Object.entries(STATE_CENTROIDS).map(([state, point]) => ({ ...point, state })),
+];
+
+function worse(a: PlacePrecision, b: PlacePrecision): PlacePrecision {
+  return PRECISION_RANK[a] >= PRECISION_RANK[b] ? a : b;
+}
+
+/**
+ * State a ZIP code belongs to, from its first three digits.
+ */
+export function zipState(postalCode: string): string | null {
+  const match = postalCode.trim().match(/^(\d{3})\d{2}/);
+  if (!match) return null;
+  const prefix = Number(match[1]);
+  return ZIP3_STATE_RANGES.find(([first, last]) => prefix >= first && prefix <= last)?.[2] ?? null;
+}
+
+/**
+ * Locates an address: a bundled city by name, else the city serving its ZIP prefix,
+ * else the center of its state. Null when there's nothing to go on.
+ */
+export function resolvePlace(place: PlaceInput): ResolvedPlace | null {
+  const state = place.state?.trim().toUpperCase() || null;
+  const postalCode = place.postalCode?.trim() ?? "";
+
+  if (place.city && state) {
+    const city = CITY_INDEX.get(`${normalizeCity(place.city)}|${state}`);
+    if (city) return { lat: city.lat, lng: city.lng, state: city.state, precision: "city" };
+  }
+
+  const zip3 = postalCode.match(/^(\d{3})\d{2}/)?.[1];
+  if (zip3) {
+    const city = ZIP3_INDEX.get(zip3);
+    if (city) return { lat: city.lat, lng: city.lng, state: city.state, precision: "zip3" };
+  }
+
+  const fallbackState = state && STATE_CENTROIDS[state] ? state : zip3 ? zipState(postalCode) : null;
+  if (fallbackState && STATE_CENTROIDS[fallbackState]) {
+    return { ...STATE_CENTROIDS[fallbackState], state: fallbackState, precision: "state" };
+  }
+
+  return null;
+}
+
+export function greatCircleMiles(a: LatLng, b: LatLng): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Estimated road miles between two points: great-circle distance times ROAD_CIRCUITY.
+ */
+export function estimateMiles(a: LatLng, b: LatLng): number {
+  return Math.round(greatCircleMiles(a, b) * ROAD_CIRCUITY);
+}
+
+/**
+ * Road miles between two addresses, or null when either can't be located.
+ */
+export function estimatePlaceMiles(from: PlaceInput, to: PlaceInput): number | null {
+  const a = resolvePlace(from);
+  const b = resolvePlace(to);
+  return a && b ? estimateMiles(a, b) : null;
+}
+
+function nearestState(point: LatLng): string {
+  let best = STATE_POINTS[0];
+  let bestDistance = Infinity;
+  for (const candidate of STATE_POINTS) {
+    const distance = greatCircleMiles(point, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best.state;
+}
+
+/**
+ * Spreads a leg's miles over the states it crosses by sampling the straight line every
+ * STATE_SAMPLE_MILES and assigning each slice to the state of the nearest bundled point.
+ * An estimate for planning, not an IFTA-grade record.
+ */
+function addStateMiles(from: ResolvedPlace, to: ResolvedPlace, miles: number, byState: Record<string, number>) {
+  if (from.state === to.state || miles === 0) {
+    byState[from.state] = (byState[from.state] ?? 0) + miles;
+    return;
+  }
+
+  const slices = Math.max(2, Math.ceil(miles / STATE_SAMPLE_MILES));
+  for (let i = 0; i < slices; i++) {
+    const t = (i + 0.5) / slices;
+    const state =
+      i === 0
+        ? from.state
+        : i === slices - 1
+          ? to.state
+          : nearestState({ lat: from.lat + (to.lat - from.lat) * t, lng: from.lng + (to.lng - from.lng) * t });
+    byState[state] = (byState[state] ?? 0) + miles / slices;
+  }
+}
+
+/**
+ * Estimated miles through `places` in order, with per-leg detail and a state split.
+ * Places that can't be located are skipped; null when fewer than two can be.
+ */
+export function estimateRoute(places: PlaceInput[]): RouteEstimate | null {
+  const resolved = places.map(resolvePlace);
+  const located = resolved.flatMap((place, index) => (place ? [{ place, index }] : []));
+  if (located.length < 2) return null;
+
+  const legs: RouteLeg[] = [];
+  const byState: Record<string, number> = {};
+
+  for (let i = 1; i < located.length; i++) {
+    const from = located[i - 1];
+    const to = located[i];
+    const miles = estimateMiles(from.place, to.place);
+    legs.push({ from: from.index, to: to.index, miles, precision: worse(from.place.precision, to.place.precision) });
+    addStateMiles(from.place, to.place, miles, byState);
+  }
+
+  for (const state of Object.keys(byState)) byState[state] = Math.round(byState[state]);
+
+  return {
+    miles: legs.reduce((sum, leg) => sum + leg.miles, 0),
+    legs,
+    unresolved: resolved.flatMap((place, index) => (place ? [] : [index])),
+    byState,
+    precision: legs.reduce<PlacePrecision>((acc, leg) => worse(acc, leg.precision), "city"),
+  };
+}
+
+/**
+ * Route estimate for a load's stops in sequence order (leg indexes refer to that order).
+ */
+export function estimateLoadRoute(
+  stops: Pick<LoadStop, "sequence" | "city" | "state" | "postalCode">[]
+): RouteEstimate | null {
+  return estimateRoute([...stops].sort((a, b) => a.sequence - b.sequence));
+}
+
+/**
+ * How far entered miles are from the estimate, in percent; `mismatch` past MILEAGE_MISMATCH_PCT.
+ */
+export function compareMiles(entered: number, estimated: number) {
+  const diffPct = estimated > 0 ? Math.round(((entered - estimated) / estimated) * 100) : null;
+  return {
+    diffPct,
+    mismatch: diffPct !== null && Math.abs(diffPct) > MILEAGE_MISMATCH_PCT,
+  };
+}
+
+export type LoadMileageCheck = {
+  enteredMiles: number;
+  estimate: RouteEstimate | null;
+  diffPct: number | null;
+  mismatch: boolean;
+};
+
+/**
+ * A load's entered miles against the estimate from its stops.
+ */
+export function checkLoadMiles(load: {
+  miles: number;
+  stops: Pick<LoadStop, "sequence" | "city" | "state" | "postalCode">[];
+}): LoadMileageCheck {
+  const estimate = estimateLoadRoute(load.stops);
+  const { diffPct, mismatch } = estimate ? compareMiles(load.miles, estimate.miles) : { diffPct: null, mismatch: false };
+  return { enteredMiles: load.miles, estimate, diffPct, mismatch };
+}
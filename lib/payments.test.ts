@@ -0,0 +1,134 @@
+import type { InvoiceStatus, LoadStatus } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+import type { AuditedTx } from "./audit";
+import { applyInvoicePayments, daysPastDue, invoiceBalance, paymentAmountError, settledInvoiceStatus } from "./payments";
+
+const NOW = new Date("2025-06-10T15:00:00Z");
+
+function invoice(total: number, payments: number[], status: InvoiceStatus = "SENT") {
+  return { total, status, payments: payments.map((amount) => ({ amount })) };
+}
+
+describe("invoiceBalance", () => {
+  it("keeps the open balance and any overpayment apart", () => {
+    expect(invoiceBalance(invoice(1000, []))).toEqual({ amountPaid: 0, balance: 1000, credit: 0 });
+    expect(invoiceBalance(invoice(1000, [400, 250]))).toEqual({ amountPaid: 650, balance: 350, credit: 0 });
+    expect(invoiceBalance(invoice(1000, [1000, 150]))).toEqual({ amountPaid: 1150, balance: 0, credit: 150 });
+  });
+});
+
+describe("daysPastDue", () => {
+  it("counts calendar days in UTC: due today is 0, overdue from tomorrow", () => {
+    expect(daysPastDue(new Date("2025-06-10T00:00:00Z"), NOW)).toBe(0);
+    expect(daysPastDue(new Date("2025-06-09T23:59:00Z"), NOW)).toBe(1);
+    expect(daysPastDue(new Date("2025-06-15T00:00:00Z"), NOW)).toBe(-5);
+  });
+});
+
+describe("settledInvoiceStatus", () => {
+  const due = (iso: string | null, status: InvoiceStatus = "SENT") => ({
+    status,
+    total: 1000,
+    dueDate: iso ? new Date(`${iso}T00:00:00Z`) : null,
+  });
+
+  it("settles once payments cover the total", () => {
+    expect(settledInvoiceStatus(due("2025-06-01", "OVERDUE"), 1000, NOW)).toBe("PAID");
+    expect(settledInvoiceStatus(due(null), 1200, NOW)).toBe("PAID");
+    expect(settledInvoiceStatus(due(null), 999, NOW)).toBe("SENT");
+  });
+
+  it("reopens a paid invoice as OVERDUE past its due date, else SENT", () => {
+    expect(settledInvoiceStatus(due("2025-06-01", "PAID"), 500, NOW)).toBe("OVERDUE");
+    expect(settledInvoiceStatus(due("2025-06-10", "PAID"), 500, NOW)).toBe("SENT");
+    expect(settledInvoiceStatus(due(null, "PAID"), 0, NOW)).toBe("SENT");
+  });
+
+  it("leaves cancelled invoices and a zero total alone", () => {
+    expect(settledInvoiceStatus(due(null, "CANCELLED"), 1000, NOW)).toBe("CANCELLED");
+    expect(settledInvoiceStatus({ status: "DRAFT", total: 0, dueDate: null }, 0, NOW)).toBe("DRAFT");
+  });
+});
+
+describe("paymentAmountError", () => {
+  it("rejects more than the open balance unless it's flagged as credit", () => {
+    expect(paymentAmountError(invoice(1000, [400]), 600)).toBeNull();
+    expect(paymentAmountError(invoice(1000, [400]), 601)).toMatch(/more than the \$600 open/);
+    expect(paymentAmountError(invoice(1000, [400]), 900, { isCredit: true })).toBeNull();
+  });
+
+  it("doesn't count the payment being edited against the balance", () => {
+    expect(paymentAmountError(invoice(1000, [400, 600]), 500, { replacing: 600 })).toBeNull();
+    expect(paymentAmountError(invoice(1000, [400, 600]), 700, { replacing: 600 })).not.toBeNull();
+  });
+
+  it("refuses payments on a cancelled invoice", () => {
+    expect(paymentAmountError(invoice(1000, [], "CANCELLED"), 100)).toMatch(/cancelled invoice/);
+  });
+});
+
+describe("applyInvoicePayments", () => {
+  /**
+   * One invoice with its payments and linked loads; records the writes made against it.
+   */
+  function fakeAudited(status: InvoiceStatus, payments: number[], loads: Record<string, LoadStatus>) {
+    const writes: { model: string; data: Record<string, unknown>; where: Record<string, unknown> }[] = [];
+    const record = (model: string) => async (args: { where: Record<string, unknown>; data: Record<string, unknown> }) => {
+      writes.push({ model, ...args });
+    };
+    const audited = {
+      invoice: {
+        findFirst: async () => ({
+          id: "inv-1",
+          status,
+          total: 1000,
+          dueDate: new Date("2025-06-01T00:00:00Z"),
+          payments: payments.map((amount) => ({ amount, receivedAt: new Date("2025-06-09T00:00:00Z") })),
+          loadLinks: Object.entries(loads).map(([id, loadStatus]) => ({
+            load: { id, status: loadStatus, truckId: "truck-1", tonuReason: null, invoicedAt: null },
+          })),
+        }),
+        update: record("invoice"),
+      },
+      load: { update: record("load") },
+      emailLog: { updateMany: record("emailLog") },
+      task: { updateMany: record("task") },
+    } as unknown as AuditedTx;
+    return { audited, writes };
+  }
+
+  it("settles the invoice, pays its loads and stops dunning", async () => {
+    const { audited, writes } = fakeAudited("OVERDUE", [600, 400], { l1: "INVOICED", l2: "DELIVERED", l3: "IN_TRANSIT" });
+
+    expect(await applyInvoicePayments(audited, "inv-1", NOW)).toEqual({
+      status: "PAID",
+      amountPaid: 1000,
+      balance: 0,
+      credit: 0,
+    });
+    expect(writes.map((w) => [w.model, w.data.status])).toEqual([
+      ["invoice", "PAID"],
+      ["emailLog", "CANCELLED"],
+      ["task", "DONE"],
+      ["load", "PAID"],
+      ["load", "PAID"],                                                    // Through INVOICED on the way.
+    ]);
+    expect(writes.at(-1)?.data).toMatchObject({ isPaid: true, invoicedAt: new Date("2025-06-09T00:00:00Z") });
+  });
+
+  it("puts paid loads back to INVOICED when the invoice is no longer settled", async () => {
+    const { audited, writes } = fakeAudited("PAID", [600], { l1: "PAID" });
+
+    expect((await applyInvoicePayments(audited, "inv-1", NOW))?.status).toBe("OVERDUE");
+    expect(writes.map((w) => [w.model, w.data.status])).toEqual([
+      ["invoice", "OVERDUE"],
+      ["load", "INVOICED"],
+    ]);
+  });
+
+  it("writes nothing when the status doesn't change", async () => {
+    const { audited, writes } = fakeAudited("SENT", [200], { l1: "INVOICED" });
+    await applyInvoicePayments(audited, "inv-1", NOW);
+    expect(writes).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import type { Invoice, InvoiceStatus, Load, Payment, Prisma } from "@prisma/client"; // Rows the balance and statuses come from.
+import type { AuditedTx } from "@/lib/audit";                              // Invoice and load status changes are audited.
+import { canTransition, planLoadTransition } from "@/lib/loadLifecycle";   // Loads follow their own lifecycle to PAID and back.
+
+export type InvoiceBalance = {
+  amountPaid: number;                                                      // Sum of every payment on the invoice.
+  balance: number;                                                         // Total minus payments; never below zero.
+  credit: number;                                                          // Overpayment kept as customer credit.
+};
+
+type BalanceInvoice = Pick<Invoice, "total"> & { payments: Pick<Payment, "amount">[] };
+
+export function invoiceBalance(invoice: BalanceInvoice): InvoiceBalance {
+  const amountPaid = invoice.payments.reduce((sum, p) => sum + p.amount, 0);
+  return {
+    amountPaid,
+    balance: Math.max(0, invoice.total - amountPaid),
+    credit: Math.max(0, amountPaid - invoice.total),
+  };
+}
+
+/**
+ * The invoice plus its balance, for API responses.
+ */
+export function withInvoiceBalance<T extends BalanceInvoice>(invoice: T): T & InvoiceBalance {
+  return { ...invoice, ...invoiceBalance(invoice) };
+}
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Whole days since the due date, negative before it. Due dates are calendar dates, so both
+ * sides are compared as UTC days: an invoice due today is 0 and overdue from tomorrow.
+ */
+export function daysPastDue(dueDate: Date, now = new Date()) {
+  const day = (d: Date) => Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+  return Math.round((day(now) - day(dueDate)) / DAY_MS);
+}
+
+/**
+ * Status once payments are applied: PAID when they cover the total; a PAID invoice that
+ * no longer is goes back to OVERDUE past its due date, else SENT. Cancelled invoices stay put.
+ */
+export function settledInvoiceStatus(
+  invoice: Pick<Invoice, "status" | "total" | "dueDate">,
+  amountPaid: number,
+  now = new Date()
+): InvoiceStatus {
+  if (invoice.status === "CANCELLED") return invoice.status;
+  if (amountPaid > 0 && amountPaid >= invoice.total) return "PAID";
+  if (invoice.status === "PAID") return invoice.dueDate && daysPastDue(invoice.dueDate, now) > 0 ? "OVERDUE" : "SENT";
+  return invoice.status;
+}
+
+/**
+ * Why a payment of `amount` can't be applied, or null when it can. Anything over the
+ * open balance is rejected unless the payment is flagged as credit. `replacing` is the
+ * amount of the payment being edited, which doesn't count against the balance.
+ */
+export function paymentAmountError(
+  invoice: BalanceInvoice & Pick<Invoice, "status">,
+  amount: number,
+  options: { isCredit?: boolean; replacing?: number } = {}
+): string | null {
+  if (invoice.status === "CANCELLED") return "Payments can't be applied to a cancelled invoice";
+
+  const open = invoice.total - invoiceBalance(invoice).amountPaid + (options.replacing ?? 0);
+  if (amount > open && !options.isCredit) {
+    return `Payment of $${amount} is more than the $${Math.max(0, open)} open on this invoice; flag it as credit to keep the excess`;
+  }
+  return null;
+}
+
+type PaidLoad = Pick<Load, "id" | "status" | "truckId" | "tonuReason" | "invoicedAt">;
+
+// DELIVERED/TONU loads still need to pass through INVOICED on the way to PAID.
+function planLoadPaid(load: PaidLoad, at: Date): Prisma.LoadUncheckedUpdateInput | null {
+  if (canTransition(load.status, "PAID")) return planLoadTransition(load, "PAID", { at });
+  if (canTransition(load.status, "INVOICED")) {
+    const invoiced = planLoadTransition(load, "INVOICED", { at });
+    return { ...invoiced, ...planLoadTransition({ ...load, status: "INVOICED" }, "PAID", { at }) };
+  }
+  return null;                                                             // Not delivered yet (or cancelled); leave it alone.
+}
+
+/**
+ * Re-derives the invoice's status from its payments and carries PAID to the linked loads
+ * (paidAt = the latest payment). When a payment edit or delete un-settles the invoice,
+ * its PAID loads go back to INVOICED. Settling also stops dunning: reminders still queued
+ * are cancelled and open collection tasks closed. Call after any payment write.
+ */
+export async function applyInvoicePayments(audited: AuditedTx, invoiceId: string, now = new Date()) {
+  const invoice = await audited.invoice.findFirst({
+    where: { id: invoiceId },
+    include: {
+      payments: { select: { amount: true, receivedAt: true }, orderBy: { receivedAt: "desc" } },
+      loadLinks: {
+        select: {
+          load: { select: { id: true, status: true, truckId: true, tonuReason: true, invoicedAt: true } },
+        },
+      },
+    },
+  });
+  if (!invoice) return null;
+
+  const balance = invoiceBalance(invoice);
+  const status = settledInvoiceStatus(invoice, balance.amountPaid, now);
+  if (status !== invoice.status) {
+    await audited.invoice.update({ where: { id: invoiceId }, data: { status } });
+  }
+
+  if (status === "PAID" && invoice.status !== "PAID") {
+    await audited.emailLog.updateMany({
+      where: { relatedInvoiceId: invoiceId, status: "QUEUED", dunningRun: { isNot: null } },
+      data: { status: "CANCELLED", nextAttemptAt: null },
+    });
+    await audited.task.updateMany({
+      where: { relatedInvoiceId: invoiceId, type: "COLLECT_PAYMENT", status: "PENDING" },
+      data: { status: "DONE", completedAt: now },
+    });
+  }
+
+  const paidAt = invoice.payments[0]?.receivedAt ?? now;
+  for (const { load } of invoice.loadLinks) {
+    const data =
+      status === "PAID" && load.status !== "PAID"
+        ? planLoadPaid(load, paidAt)
+        : status !== "PAID" && invoice.status === "PAID" && load.status === "PAID"
+          ? planLoadTransition(load, "INVOICED", { at: now })
+          : null;
+    if (data) await audited.load.update({ where: { id: load.id }, data });
+  }
+
+  return { status, ...balance };
+}
@@ -0,0 +1,78 @@
+import { PDFDocument, PDFName } from "pdf-lib";
+import { describe, expect, it } from "vitest";
+import { importPdfPages, PdfImportError } from "./pdfImport";
+import { PdfDocument, PdfPage, pdfSafeText, wrapText } from "./pdfWriter";
+
+/**
+ * Fixtures are built with pdf-lib, which writes object streams and a cross-reference
+ * stream, the layout many scanners and TMS exports use.
+ */
+async function uploadedPdf(pageSizes: [number, number][], options: { encrypt?: boolean } = {}) {
+  const pdf = await PDFDocument.create();
+  for (const size of pageSizes) pdf.addPage(size).drawText("Rate confirmation", { x: 50, y: 50 });
+  if (options.encrypt) {
+    const encrypt = pdf.context.obj({ Filter: "Standard", V: 1, R: 2, P: -44 });
+    pdf.context.trailerInfo.Encrypt = pdf.context.register(encrypt);
+  }
+  return Buffer.from(await pdf.save({ useObjectStreams: true, addDefaultPage: false }));
+}
+
+async function pageSizes(pdf: Buffer) {
+  const loaded = await PDFDocument.load(pdf);
+  return loaded.getPages().map((page) => [page.getWidth(), page.getHeight()]);
+}
+
+describe("importPdfPages", () => {
+  it("appends every page after the invoice, keeping their sizes", async () => {
+    const doc = await PdfDocument.create();
+    await doc.addPage(new PdfPage());
+
+    const count = await importPdfPages(doc, await uploadedPdf([[612, 792], [842, 595]]));
+
+    expect(count).toBe(2);
+    expect(await pageSizes(await doc.toBuffer())).toEqual([[612, 792], [612, 792], [842, 595]]);
+  });
+
+  it("rejects bytes that aren't a PDF", async () => {
+    const doc = await PdfDocument.create();
+    await expect(importPdfPages(doc, Buffer.from("GIF89a not a pdf"))).rejects.toThrow(
+      new PdfImportError("Not a readable PDF file")
+    );
+  });
+
+  it("rejects a truncated PDF", async () => {
+    const doc = await PdfDocument.create();
+    const pdf = await uploadedPdf([[612, 792]]);
+    await expect(importPdfPages(doc, pdf.subarray(0, 40))).rejects.toBeInstanceOf(PdfImportError);
+    expect(doc.pageCount).toBe(0);
+  });
+
+  it("rejects encrypted PDFs with a reason the packet can show", async () => {
+    const doc = await PdfDocument.create();
+    const pdf = await uploadedPdf([[612, 792]], { encrypt: true });
+    await expect(importPdfPages(doc, pdf)).rejects.toThrow("Encrypted PDFs can't be merged");
+  });
+
+  it("rejects a PDF without pages", async () => {
+    const doc = await PdfDocument.create();
+    await expect(importPdfPages(doc, await uploadedPdf([]))).rejects.toThrow("No pages found");
+  });
+});
+
+describe("pdfWriter text", () => {
+  it("swaps characters Helvetica can't encode instead of failing the PDF", async () => {
+    expect(pdfSafeText("≥ 2 stops → Δ")).toBe(">= 2 stops -> ?");
+
+    const doc = await PdfDocument.create();
+    const page = new PdfPage();
+    page.text(50, 700, "Ünloaded ≥ 2h — 日本");
+    await doc.addPage(page);
+    const fonts = (await PDFDocument.load(await doc.toBuffer())).getPage(0).node.Resources()?.get(PDFName.of("Font"));
+    expect(fonts).toBeDefined();
+  });
+
+  it("wraps on spaces and splits words wider than the column", () => {
+    expect(wrapText("Detention at shipper", "Helvetica", 10, 60)).toEqual(["Detention at", "shipper"]);
+    expect(wrapText("WWWWWWWWWW", "Helvetica", 10, 40).length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,40 @@
+import { PDFDocument } from "pdf-lib";                                      // Parses the upload and copies its pages.
+import type { PdfDocument } from "@/lib/pdfWriter";                        // Where the imported pages are written.
+
+/**
+ * Copies the pages of an uploaded PDF (rate con, BOL, POD) into a PdfDocument. pdf-lib
+ * reads xref tables and streams, object streams and incremental updates; encrypted and
+ * unreadable files throw PdfImportError with a reason the packet can show.
+ */
+
+export class PdfImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PdfImportError";
+  }
+}
+
+/**
+ * Imports every page of `pdf` into `doc`, appending them in order. Returns the page count.
+ */
+export async function importPdfPages(doc: PdfDocument, pdf: Buffer): Promise<number> {
+  let source: PDFDocument;
+  try {
+    source = await PDFDocument.load(pdf, { ignoreEncryption: true, updateMetadata: false }); // Checked below; pdf-lib's own error fails instanceof.
+  } catch {
+    throw new PdfImportError("Not a readable PDF file");
+  }
+  if (source.isEncrypted) throw new PdfImportError("Encrypted PDFs can't be merged");
+
+  const indices = source.getPageIndices();
+  if (indices.length === 0) throw new PdfImportError("No pages found");
+
+  let pages;
+  try {
+    pages = await doc.pdf.copyPages(source, indices);
+  } catch {
+    throw new PdfImportError("The PDF's pages couldn't be copied");        // Broken page tree or resources.
+  }
+  for (const page of pages) doc.pdf.addPage(page);
+  return pages.length;
+}
@@ -0,0 +1,91 @@
+import { getDocument, VerbosityLevel } from "pdfjs-dist/legacy/build/pdf.mjs"; // Legacy build runs on Node without a DOM.
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+
+/**
+ * Text extraction for machine-generated PDFs (rate confirmations, BOLs exported from a TMS),
+ * using pdf.js to decode the fonts and content streams. Text items are rebuilt into lines by
+ * their position on the page. Scanned images have no text layer and come back empty —
+ * callers should treat an empty result as "needs OCR / manual entry".
+ */
+
+export class PdfTextError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PdfTextError";
+  }
+}
+
+/**
+ * The PDF's text, one line per row of text on the page, pages in order. Throws PdfTextError
+ * for files pdf.js can't open.
+ */
+export async function extractPdfText(pdf: Buffer): Promise<string> {
+  const task = getDocument({
+    data: new Uint8Array(pdf),                                             // A copy: pdf.js takes ownership of the bytes.
+    isEvalSupported: false,
+    disableFontFace: true,
+    verbosity: VerbosityLevel.ERRORS,
+  });
+
+  let document;
+  try {
+    document = await task.promise;
+  } catch (err) {
+    await task.destroy();
+    if (err instanceof Error && err.name === "PasswordException") {
+      throw new PdfTextError("Password-protected PDFs can't be read");
+    }
+    throw new PdfTextError("Not a readable PDF file");
+  }
+
+  try {
+    const lines: string[] = [];
+    for (let n = 1; n <= document.numPages; n++) {
+      const page = await document.getPage(n);
+      const { items } = await page.getTextContent();
+      lines.push(...textLines(items.filter((item): item is TextItem => "str" in item)));
+      page.cleanup();
+    }
+
+    return lines
+      .map((line) => line.replace(/\s+/g, " ").trim())
+      .filter(Boolean)
+      .join("\n");
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Joins text items in drawing order, breaking the line when pdf.js marks an end of line or
+ * the baseline moves, and adding a space where items on one line are visibly apart.
+ */
+function textLines(items: TextItem[]): string[] {
+  const lines: string[] = [];
+  let line = "";
+  let lastY: number | null = null;
+  let lastEnd: number | null = null;
+
+  for (const item of items) {
+    const [, , , , x, y] = item.transform;
+    if (lastY !== null && Math.abs(y - lastY) > 1) {
+      lines.push(line);
+      line = "";
+    } else if (lastEnd !== null && x - lastEnd > item.height * 0.2) {
+      line += " ";                                                         // A gap wider than a thin space, e.g. between columns.
+    }
+
+    line += item.str;
+    lastY = y;
+    lastEnd = x + item.width;
+
+    if (item.hasEOL) {
+      lines.push(line);
+      line = "";
+      lastEnd = null;
+    }
+  }
+  lines.push(line);
+
+  return lines;
+}
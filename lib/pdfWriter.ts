@@ -0,0 +1,225 @@
+import {
+  grayscale,
+  PDFDocument,
+  rgb,
+  StandardFontEmbedder,
+  StandardFonts,
+  type PDFFont,
+  type PDFImage,
+} from "pdf-lib";                                                          // Writes the file; copies pages from uploaded PDFs.
+
+/**
+ * Invoice layout on top of pdf-lib: PdfPage records text in the standard Helvetica fonts,
+ * rules and boxes in PDF points, and PdfDocument writes those pages plus JPEG/PNG image
+ * pages and pages imported from other PDFs (see lib/pdfImport.ts).
+ */
+
+export type PdfFont = "Helvetica" | "Helvetica-Bold";
+
+export const LETTER = { width: 612, height: 792 } as const;               // 8.5 × 11 in, in points.
+
+const STANDARD_FONTS: Record<PdfFont, StandardFonts> = {
+  Helvetica: StandardFonts.Helvetica,
+  "Helvetica-Bold": StandardFonts.HelveticaBold,
+};
+
+type FontName = Parameters<typeof StandardFontEmbedder.for>[0];            // Same names as StandardFonts, typed separately.
+
+// Metrics only; nothing is embedded until a page is written.
+const METRICS: Record<PdfFont, StandardFontEmbedder> = {
+  Helvetica: StandardFontEmbedder.for(STANDARD_FONTS.Helvetica as string as FontName),
+  "Helvetica-Bold": StandardFontEmbedder.for(STANDARD_FONTS["Helvetica-Bold"] as string as FontName),
+};
+
+const FALLBACKS: Record<string, string> = { "≥": ">=", "≤": "<=", "→": "->", "←": "<-", "≈": "~" };
+
+/**
+ * The text as Helvetica can show it: the standard fonts are WinAnsi-encoded, so anything
+ * outside that gets an ASCII stand-in or "?" rather than failing the whole PDF.
+ */
+export function pdfSafeText(text: string) {
+  const { encoding } = METRICS.Helvetica;
+  let out = "";
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (char === " " || char === "\t") out += " ";
+    else if (encoding.canEncodeUnicodeCodePoint(code)) out += char;
+    else out += FALLBACKS[char] ?? "?";
+  }
+  return out;
+}
+
+export function textWidth(text: string, font: PdfFont, size: number) {
+  return METRICS[font].widthOfTextAtSize(pdfSafeText(text), size);
+}
+
+/**
+ * Breaks text into lines no wider than `maxWidth`, on spaces where possible.
+ */
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (textWidth(line, font, size) > maxWidth && line.length > 1) { // A single word wider than the column.
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), font, size) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+export type TextOptions = {
+  font?: PdfFont;
+  size?: number;
+  align?: "left" | "right" | "center";                                    // Relative to x.
+  color?: [number, number, number];                                        // RGB, 0–1.
+};
+
+type PageOp =
+  | { kind: "text"; x: number; y: number; text: string; font: PdfFont; size: number; color: [number, number, number] }
+  | { kind: "line"; x1: number; y1: number; x2: number; y2: number; width: number; gray: number }
+  | { kind: "rect"; x: number; y: number; width: number; height: number; fillGray: number };
+
+/**
+ * Drawing operations for one page. Coordinates are PDF points from the bottom-left corner.
+ */
+export class PdfPage {
+  readonly ops: PageOp[] = [];
+
+  constructor(
+    readonly width: number = LETTER.width,
+    readonly height: number = LETTER.height
+  ) {}
+
+  text(x: number, y: number, text: string, options: TextOptions = {}) {
+    const font = options.font ?? "Helvetica";
+    const size = options.size ?? 10;
+    const safe = pdfSafeText(text);
+    const width = METRICS[font].widthOfTextAtSize(safe, size);
+    const left = options.align === "right" ? x - width : options.align === "center" ? x - width / 2 : x;
+
+    this.ops.push({ kind: "text", x: left, y, text: safe, font, size, color: options.color ?? [0, 0, 0] });
+    return width;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5, gray = 0.75) {
+    this.ops.push({ kind: "line", x1, y1, x2, y2, width, gray });
+  }
+
+  rect(x: number, y: number, width: number, height: number, fillGray = 0.95) {
+    this.ops.push({ kind: "rect", x, y, width, height, fillGray });
+  }
+}
+
+export type PdfImage = PDFImage;
+
+/**
+ * The PDF being built. `pdf` is the underlying pdf-lib document, for importers.
+ */
+export class PdfDocument {
+  private fonts = new Map<PdfFont, Promise<PDFFont>>();
+
+  private constructor(readonly pdf: PDFDocument) {}
+
+  static async create() {
+    return new PdfDocument(await PDFDocument.create());
+  }
+
+  get pageCount() {
+    return this.pdf.getPageCount();
+  }
+
+  private font(font: PdfFont) {
+    let embedded = this.fonts.get(font);
+    if (!embedded) {
+      embedded = this.pdf.embedFont(STANDARD_FONTS[font]);
+      this.fonts.set(font, embedded);
+    }
+    return embedded;
+  }
+
+  async addPage(page: PdfPage) {
+    const out = this.pdf.addPage([page.width, page.height]);
+
+    for (const op of page.ops) {
+      if (op.kind === "text") {
+        out.drawText(op.text, {
+          x: op.x,
+          y: op.y,
+          size: op.size,
+          font: await this.font(op.font),
+          color: rgb(...op.color),
+        });
+      } else if (op.kind === "line") {
+        out.drawLine({
+          start: { x: op.x1, y: op.y1 },
+          end: { x: op.x2, y: op.y2 },
+          thickness: op.width,
+          color: grayscale(op.gray),
+        });
+      } else {
+        out.drawRectangle({ x: op.x, y: op.y, width: op.width, height: op.height, color: grayscale(op.fillGray) });
+      }
+    }
+  }
+
+  /** Adds a letter page with the image scaled to fit inside the margins and centered. */
+  addImagePage(image: PdfImage, margin = 36) {
+    const page = this.pdf.addPage([LETTER.width, LETTER.height]);
+    const scale = Math.min((LETTER.width - 2 * margin) / image.width, (LETTER.height - 2 * margin) / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    page.drawImage(image, { x: (LETTER.width - width) / 2, y: (LETTER.height - height) / 2, width, height });
+  }
+
+  async toBuffer(): Promise<Buffer> {
+    return Buffer.from(await this.pdf.save());
+  }
+}
+
+export class PdfImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PdfImageError";
+  }
+}
+
+function imageError(kind: string, err: unknown) {
+  return new PdfImageError(`${kind} couldn't be read${err instanceof Error ? `: ${err.message}` : ""}`);
+}
+
+/**
+ * Embeds a baseline or progressive JPEG as-is (the PDF reader decodes it).
+ */
+export async function addJpegImage(doc: PdfDocument, jpeg: Buffer): Promise<PdfImage> {
+  try {
+    return await doc.pdf.embedJpg(jpeg);
+  } catch (err) {
+    throw imageError("JPEG", err);
+  }
+}
+
+/**
+ * Embeds a PNG, including interlaced images and ones with transparency.
+ */
+export async function addPngImage(doc: PdfDocument, png: Buffer): Promise<PdfImage> {
+  try {
+    return await doc.pdf.embedPng(png);
+  } catch (err) {
+    throw imageError("PNG", err);
+  }
+}
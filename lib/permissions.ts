@@ -0,0 +1,129 @@
+import type { Prisma, UserRole } from "@prisma/client";                    // Role enum + Prisma filter types used by the helpers below.
+
+export type Resource =                                                     // Everything a permission can be granted on.
+  | "loads"                                                                // Loads, plus their driver assignments.
+  | "stops"                                                                // LoadStop rows (check-in/out, resequencing).
+  | "customers"                                                            // Customers plus their contacts and call notes.
+  | "invoices"
+  | "payments"
+  | "expenses"
+  | "trucks"
+  | "trailers"
+  | "drivers"
+  | "documents"
+  | "locations"
+  | "tasks"
+  | "reports"                                                              // Read-only analytics (summaries, expansion readiness).
+  | "company"                                                              // Company settings.
+  | "users";                                                               // Team members + invitations.
+
+export type Action = "read" | "create" | "update" | "delete";
+
+export type Permission = `${Resource}:${Action}`;                          // e.g. "invoices:delete".
+
+const ALL: Action[] = ["read", "create", "update", "delete"];
+const READ: Action[] = ["read"];
+const WRITE_NO_DELETE: Action[] = ["read", "create", "update"];
+
+/**
+ * Role → resource → allowed actions.
+ * Anything not listed is denied; OWNER and ADMIN get everything.
+ */
+const ROLE_MATRIX: Record<UserRole, Partial<Record<Resource, Action[]>>> = {
+  OWNER: {},                                                               // Full access via FULL_ACCESS_ROLES.
+  ADMIN: {},
+  DISPATCHER: {
+    loads: ALL,
+    stops: ALL,
+    customers: WRITE_NO_DELETE,
+    invoices: WRITE_NO_DELETE,                                             // Can draft invoices but never delete them.
+    payments: READ,
+    expenses: WRITE_NO_DELETE,
+    trucks: READ,
+    trailers: READ,
+    drivers: WRITE_NO_DELETE,
+    documents: ALL,
+    locations: ALL,
+    tasks: ALL,
+    reports: READ,
+    company: READ,
+    users: READ,
+  },
+  ACCOUNTING: {
+    loads: READ,
+    stops: READ,
+    customers: WRITE_NO_DELETE,                                            // Billing emails, credit limits, terms.
+    invoices: ALL,
+    payments: ALL,
+    expenses: ALL,
+    trucks: READ,                                                          // Sees equipment for costing, can't edit it.
+    trailers: READ,
+    drivers: READ,
+    documents: WRITE_NO_DELETE,
+    locations: READ,
+    tasks: ALL,
+    reports: READ,
+    company: READ,
+    users: READ,
+  },
+  DRIVER: {
+    loads: READ,                                                           // Further limited to assigned loads via loadAccessFilter.
+    stops: ["read", "update"],                                             // Check in / check out at stops.
+    documents: ["read", "create"],                                         // Upload BOLs and PODs.
+    locations: READ,
+    tasks: READ,
+  },
+  VIEW_ONLY: {
+    loads: READ,
+    stops: READ,
+    customers: READ,
+    invoices: READ,
+    payments: READ,
+    expenses: READ,
+    trucks: READ,
+    trailers: READ,
+    drivers: READ,
+    documents: READ,
+    locations: READ,
+    tasks: READ,
+    reports: READ,
+    company: READ,
+    users: READ,
+  },
+};
+
+const FULL_ACCESS_ROLES: UserRole[] = ["OWNER", "ADMIN"];
+
+export function can(role: UserRole, permission: Permission) {             // True when the role may perform the action.
+  if (FULL_ACCESS_ROLES.includes(role)) return true;
+  const [resource, action] = permission.split(":") as [Resource, Action];
+  return ROLE_MATRIX[role][resource]?.includes(action) ?? false;
+}
+
+export function permissionsFor(role: UserRole): Permission[] {            // Flattened list, e.g. for /api/me so the UI can hide buttons.
+  if (FULL_ACCESS_ROLES.includes(role)) {
+    const resources = Object.keys(ROLE_MATRIX.VIEW_ONLY) as Resource[];
+    return resources.flatMap((r) => ALL.map((a) => `${r}:${a}` as Permission));
+  }
+  return Object.entries(ROLE_MATRIX[role]).flatMap(([resource, actions]) =>
+    (actions ?? []).map((a) => `${resource}:${a}` as Permission)
+  );
+}
+
+/**
+ * Extra Load filter for roles that only see part of the board.
+ * DRIVER users only see loads they're assigned to through LoadDriver → Driver.userId.
+ */
+export function loadAccessFilter(user: { id: string; role: UserRole }): Prisma.LoadWhereInput {
+  if (user.role !== "DRIVER") return {};
+  return { loadDrivers: { some: { driver: { userId: user.id } } } };
+}
+
+/**
+ * Document counterpart of loadAccessFilter.
+ * DRIVER users see what they uploaded plus paperwork on their assigned loads.
+ */
+export function documentAccessFilter(user: { id: string; role: UserRole }): Prisma.DocumentWhereInput {
+  if (user.role !== "DRIVER") return {};
+  return { OR: [{ userId: user.id }, { load: loadAccessFilter(user) }] };
+}
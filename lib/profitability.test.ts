@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeLoadProfitability,
+  driverPayForLoad,
+  drivenMiles,
+  loadDays,
+  rpmSplit,
+  truckFixedCostPerDay,
+  type ProfitabilityLoad,
+} from "./profitability";
+
+const SETTINGS = { defaultTruckFixedCostPerDay: 100 };
+
+function day(n: number, hour = 8) {
+  return new Date(Date.UTC(2025, 5, n, hour));
+}
+
+/**
+ * $2,000 linehaul over 800 loaded and 200 deadhead miles, two days, one driver paid by the
+ * mile and a $150 billable detention charge that is half the driver's.
+ */
+function load(extra: Partial<ProfitabilityLoad> = {}): ProfitabilityLoad {
+  return {
+    rate: 2000,
+    miles: 800,
+    deadheadMiles: 200,
+    fuelCost: 400,
+    lumper: 50,
+    tolls: null,
+    otherCosts: null,
+    pickupDate: day(2),
+    deliveryDate: day(3, 18),
+    layoverDays: null,
+    truck: null,
+    loadDrivers: [{ driver: { payType: "PER_MILE", payRate: 0.5 } }],
+    expenses: [{ amount: 30 }],
+    accessorials: [{ amount: 150, billable: true, payableToDriver: true, driverAmount: 75 }],
+    ...extra,
+  };
+}
+
+describe("rpmSplit", () => {
+  it("splits linehaul RPM over loaded and driven miles", () => {
+    expect(
+      rpmSplit([
+        { rate: 2000, miles: 800, deadheadMiles: 200 },
+        { rate: 1000, miles: 400, deadheadMiles: null },
+      ])
+    ).toEqual({
+      loadedMiles: 1200,
+      deadheadMiles: 200,
+      totalMiles: 1400,
+      loadedRpm: 2.5,
+      allInRpm: 2.14,
+      deadheadPct: 14.29,
+    });
+  });
+
+  it("has no RPM without miles", () => {
+    expect(rpmSplit([])).toMatchObject({ loadedRpm: null, allInRpm: null, deadheadPct: null });
+  });
+});
+
+describe("loadDays", () => {
+  it("rounds the pickup-to-delivery span up, adds layover and counts at least one day", () => {
+    expect(loadDays({ pickupDate: day(2), deliveryDate: day(3, 18), layoverDays: null })).toBe(2);
+    expect(loadDays({ pickupDate: day(2), deliveryDate: day(2, 18), layoverDays: 1 })).toBe(2);
+    expect(loadDays({ pickupDate: null, deliveryDate: null, layoverDays: null })).toBe(1);
+  });
+});
+
+describe("truckFixedCostPerDay", () => {
+  it("spreads the truck's payment over the year, else uses the company default", () => {
+    expect(truckFixedCostPerDay({ monthlyPayment: 3650 }, SETTINGS)).toBe(120);
+    expect(truckFixedCostPerDay({ monthlyPayment: null }, SETTINGS)).toBe(100);
+    expect(truckFixedCostPerDay(null, SETTINGS)).toBe(100);
+  });
+});
+
+describe("driverPayForLoad", () => {
+  const trip = { rate: 2000, miles: 800, deadheadMiles: 200 };
+
+  it("pays per driven mile, a share of linehaul or a flat amount", () => {
+    expect(drivenMiles(trip)).toBe(1000);
+    expect(driverPayForLoad({ payType: "PER_MILE", payRate: 0.5 }, trip)).toBe(500);
+    expect(driverPayForLoad({ payType: "PERCENT_OF_RATE", payRate: 25 }, trip)).toBe(500);
+    expect(driverPayForLoad({ payType: "FLAT_PER_LOAD", payRate: 300 }, trip)).toBe(300);
+  });
+
+  it("has nothing to say about a driver without pay terms", () => {
+    expect(driverPayForLoad({ payType: null, payRate: 0.5 }, trip)).toBeNull();
+    expect(driverPayForLoad({ payType: "PER_MILE", payRate: null }, trip)).toBeNull();
+  });
+});
+
+describe("computeLoadProfitability", () => {
+  it("nets costs, truck time and driver pay out of revenue", () => {
+    expect(computeLoadProfitability(load(), SETTINGS)).toEqual({
+      revenue: 2150,
+      accessorialRevenue: 150,
+      directCosts: 450,
+      grossMargin: 1700,
+      linkedExpenses: 30,
+      netMargin: 1670,
+      days: 2,
+      truckFixedCostPerDay: 100,
+      truckFixedCost: 200,
+      driverPay: 575,                                                      // 1,000 driven miles × $0.50 plus $75 of detention.
+      unpricedDrivers: 0,
+      profit: 895,
+      marginPct: 41.63,
+      revenuePerMile: 2.5,                                                 // Linehaul only, as on the dashboards.
+      allInRevenuePerMile: 2,
+      deadheadPct: 20,
+      profitPerMile: 0.9,                                                  // Over the same 1,000 driven miles.
+      revenuePerDay: 1075,
+      profitPerDay: 447.5,
+    });
+  });
+
+  it("agrees with rpmSplit whatever the accessorials", () => {
+    const p = computeLoadProfitability(load(), SETTINGS);
+    const split = rpmSplit([load()]);
+    expect([p.revenuePerMile, p.allInRevenuePerMile]).toEqual([split.loadedRpm, split.allInRpm]);
+  });
+
+  it("counts drivers without pay terms as unpriced", () => {
+    const p = computeLoadProfitability(load({ loadDrivers: [{ driver: { payType: null, payRate: null } }] }), SETTINGS);
+    expect(p.unpricedDrivers).toBe(1);
+    expect(p.driverPay).toBe(75);
+  });
+
+  it("leaves the per-mile and margin figures empty without miles or revenue", () => {
+    const p = computeLoadProfitability(load({ rate: 0, miles: 0, deadheadMiles: null, accessorials: [] }), SETTINGS);
+    expect(p).toMatchObject({ marginPct: null, revenuePerMile: null, profitPerMile: null });
+  });
+});
@@ -0,0 +1,193 @@
+import type { Driver, Expense, Load, LoadAccessorial, Truck } from "@prisma/client"; // Rows a load's costs come from.
+import { accessorialDriverPay } from "@/lib/accessorials";                  // Driver's share of accessorial charges.
+import type { CompanySettings } from "@/lib/companySettings";              // Fallback truck fixed cost per day.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const PROFITABILITY_INCLUDE = {                                     // Relations computeLoadProfitability needs.
+  truck: { select: { monthlyPayment: true } },
+  loadDrivers: { select: { driver: { select: { payType: true, payRate: true } } } },
+  expenses: { select: { amount: true } },
+  accessorials: { select: { amount: true, billable: true, payableToDriver: true, driverAmount: true } },
+} as const;
+
+type LoadCostFields = Pick<Load, "rate" | "fuelCost" | "lumper" | "tolls" | "otherCosts">;
+
+export type ProfitabilityLoad = LoadCostFields &
+  Pick<Load, "miles" | "deadheadMiles" | "pickupDate" | "deliveryDate" | "layoverDays"> & {
+    truck: Pick<Truck, "monthlyPayment"> | null;
+    loadDrivers: { driver: Pick<Driver, "payType" | "payRate"> }[];
+    expenses: Pick<Expense, "amount">[];
+    accessorials: Pick<LoadAccessorial, "amount" | "billable" | "payableToDriver" | "driverAmount">[];
+  };
+
+export type LoadProfitability = {
+  revenue: number;                                                         // Linehaul rate plus billable accessorials.
+  accessorialRevenue: number;
+  directCosts: number;                                                     // Fuel, lumper, tolls and other costs entered on the load.
+  grossMargin: number;                                                     // Revenue minus direct costs.
+  linkedExpenses: number;                                                  // Expense rows attached to the load.
+  netMargin: number;                                                       // Gross margin minus linked expenses.
+  days: number;
+  truckFixedCostPerDay: number;
+  truckFixedCost: number;
+  driverPay: number;
+  unpricedDrivers: number;                                                 // Assigned drivers with no pay terms (counted as $0).
+  profit: number;                                                          // Net margin minus truck fixed cost and driver pay.
+  marginPct: number | null;                                                // Profit as a share of revenue.
+  revenuePerMile: number | null;                                           // Linehaul RPM over loaded miles, as in rpmSplit.
+  allInRevenuePerMile: number | null;                                      // Linehaul RPM over driven miles.
+  deadheadPct: number | null;
+  profitPerMile: number | null;                                            // Over driven miles.
+  revenuePerDay: number;
+  profitPerDay: number;
+};
+
+export type RpmSplit = {
+  loadedMiles: number;
+  deadheadMiles: number;
+  totalMiles: number;                                                      // Driven miles, see drivenMiles.
+  loadedRpm: number | null;                                                // Linehaul over loaded miles only.
+  allInRpm: number | null;                                                 // Linehaul over every mile the truck drove.
+  deadheadPct: number | null;                                              // Share of all miles driven empty.
+};
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Miles the truck and driver actually run for a load: `Load.miles` (loaded) plus deadhead,
+ * which counts as zero when not recorded. Per-mile driver pay, profit per mile and all-in
+ * RPM are all over these miles.
+ */
+export function drivenMiles(load: Pick<Load, "miles" | "deadheadMiles">): number {
+  return load.miles + (load.deadheadMiles ?? 0);
+}
+
+/**
+ * Loaded vs all-in RPM over a set of loads. RPM is always linehaul RPM: `Load.rate` only,
+ * since accessorials (detention, layover, lumper) aren't earned by the mile. The load
+ * pages and the dashboards both report it this way.
+ */
+export function rpmSplit(loads: Pick<Load, "rate" | "miles" | "deadheadMiles">[]): RpmSplit {
+  let revenue = 0;
+  let loadedMiles = 0;
+  let totalMiles = 0;
+  for (const load of loads) {
+    revenue += load.rate;
+    loadedMiles += load.miles;
+    totalMiles += drivenMiles(load);
+  }
+  const deadheadMiles = totalMiles - loadedMiles;
+
+  return {
+    loadedMiles,
+    deadheadMiles,
+    totalMiles,
+    loadedRpm: loadedMiles > 0 ? round2(revenue / loadedMiles) : null,
+    allInRpm: totalMiles > 0 ? round2(revenue / totalMiles) : null,
+    deadheadPct: totalMiles > 0 ? round2((deadheadMiles / totalMiles) * 100) : null,
+  };
+}
+
+/**
+ * Costs typed onto the load itself. Use this wherever only the load row is at hand
+ * (e.g. period totals that add expenses separately).
+ */
+export function loadDirectCosts(load: LoadCostFields): number {
+  return (load.fuelCost ?? 0) + (load.lumper ?? 0) + (load.tolls ?? 0) + (load.otherCosts ?? 0);
+}
+
+/**
+ * Days the truck is tied up: pickup to delivery rounded up, plus layover days; at least one.
+ */
+export function loadDays(load: Pick<Load, "pickupDate" | "deliveryDate" | "layoverDays">): number {
+  const span =
+    load.pickupDate && load.deliveryDate
+      ? Math.ceil((load.deliveryDate.getTime() - load.pickupDate.getTime()) / DAY_MS)
+      : 0;
+  return Math.max(1, span) + (load.layoverDays ?? 0);
+}
+
+/**
+ * The truck's own payment spread over the year wins; otherwise the company-wide default.
+ */
+export function truckFixedCostPerDay(
+  truck: Pick<Truck, "monthlyPayment"> | null,
+  settings: Pick<CompanySettings, "defaultTruckFixedCostPerDay">
+): number {
+  if (truck?.monthlyPayment) return (truck.monthlyPayment * 12) / 365;
+  return settings.defaultTruckFixedCostPerDay;
+}
+
+/**
+ * One driver's pay for a load under their pay terms, or null when they have none.
+ * Per-mile pay is over driven miles, deadhead included.
+ */
+export function driverPayForLoad(
+  driver: Pick<Driver, "payType" | "payRate">,
+  load: Pick<Load, "rate" | "miles" | "deadheadMiles">
+): number | null {
+  if (!driver.payType || driver.payRate == null) return null;
+
+  switch (driver.payType) {
+    case "PER_MILE":
+      return driver.payRate * drivenMiles(load);
+    case "PERCENT_OF_RATE":
+      return (load.rate * driver.payRate) / 100;
+    case "FLAT_PER_LOAD":
+      return driver.payRate;
+  }
+}
+
+export function computeLoadProfitability(
+  load: ProfitabilityLoad,
+  settings: Pick<CompanySettings, "defaultTruckFixedCostPerDay">
+): LoadProfitability {
+  const accessorialRevenue = load.accessorials
+    .filter((a) => a.billable)
+    .reduce((sum, a) => sum + a.amount, 0);
+  const revenue = load.rate + accessorialRevenue;
+  const directCosts = loadDirectCosts(load);
+  const grossMargin = revenue - directCosts;
+  const linkedExpenses = load.expenses.reduce((sum, e) => sum + e.amount, 0);
+  const netMargin = grossMargin - linkedExpenses;
+
+  const days = loadDays(load);
+  const perDay = truckFixedCostPerDay(load.truck, settings);
+  const truckFixedCost = perDay * days;
+
+  let driverPay = load.accessorials.reduce((sum, a) => sum + accessorialDriverPay(a), 0);
+  let unpricedDrivers = 0;
+  for (const { driver } of load.loadDrivers) {
+    const pay = driverPayForLoad(driver, load);
+    if (pay === null) unpricedDrivers += 1;
+    else driverPay += pay;
+  }
+
+  const profit = netMargin - truckFixedCost - driverPay;
+  const rpm = rpmSplit([load]);                                             // Linehaul only, same as the dashboards.
+
+  return {
+    revenue,
+    accessorialRevenue,
+    directCosts,
+    grossMargin,
+    linkedExpenses,
+    netMargin,
+    days,
+    truckFixedCostPerDay: round2(perDay),
+    truckFixedCost: round2(truckFixedCost),
+    driverPay: round2(driverPay),
+    unpricedDrivers,
+    profit: round2(profit),
+    marginPct: revenue > 0 ? round2((profit / revenue) * 100) : null,
+    revenuePerMile: rpm.loadedRpm,
+    allInRevenuePerMile: rpm.allInRpm,
+    deadheadPct: rpm.deadheadPct,
+    profitPerMile: rpm.totalMiles > 0 ? round2(profit / rpm.totalMiles) : null,
+    revenuePerDay: round2(revenue / days),
+    profitPerDay: round2(profit / days),
+  };
+}
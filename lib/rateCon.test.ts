@@ -0,0 +1,112 @@
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { describe, expect, it } from "vitest";
+import { extractPdfText, PdfTextError } from "./pdfText";
+import { parseRateCon } from "./rateCon";
+
+type Cell = [x: number, text: string];
+
+/**
+ * A rate con laid out the way broker TMS exports are: labels and values drawn as separate
+ * text runs in columns, compressed content and object streams, stops continuing on page 2.
+ */
+async function rateConPdf(pages: Cell[][][]) {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  for (const rows of pages) {
+    const page = pdf.addPage([612, 792]);
+    rows.forEach((cells, row) => {
+      for (const [x, text] of cells) page.drawText(text, { x, y: 740 - row * 16, size: 10, font });
+    });
+  }
+  return Buffer.from(await pdf.save({ useObjectStreams: true, addDefaultPage: false }));
+}
+
+const FIXTURE: Cell[][][] = [
+  [
+    [[50, "Summit Freight Logistics LLC"], [360, "RATE CONFIRMATION"]],
+    [[50, "Load #:"], [110, "SF-204871"], [360, "Equipment:"], [430, "53' Dry Van"]],
+    [[50, "Commodity:"], [110, "Paper products"], [360, "Weight:"], [430, "42,000 lbs"]],
+    [[50, "Miles:"], [110, "1,148"]],
+    [[50, "Pickup 1: Northside Paper Mill"]],
+    [[50, "4400 Industrial Pkwy"]],
+    [[50, "Appleton, WI 54911"]],
+    [[50, "Pickup Date:"], [130, "06/02/2025 08:00"]],
+    [[50, "PU #:"], [130, "778812"]],
+  ],
+  [
+    [[50, "Delivery 1: Lone Star Distribution"]],
+    [[50, "1200 Commerce St, Dallas, TX 75201"]],
+    [[50, "06/04/2025 2:30 PM"]],
+    [[50, "Total Carrier Pay:"], [360, "$3,250.00"]],
+  ],
+];
+
+describe("extractPdfText", () => {
+  it("keeps columns drawn as separate runs on one line, pages in order", async () => {
+    const lines = (await extractPdfText(await rateConPdf(FIXTURE))).split("\n");
+
+    expect(lines[0]).toBe("Summit Freight Logistics LLC RATE CONFIRMATION");
+    expect(lines).toContain("Load #: SF-204871 Equipment: 53' Dry Van");
+    expect(lines.indexOf("Appleton, WI 54911")).toBeLessThan(lines.indexOf("Delivery 1: Lone Star Distribution"));
+    expect(lines.at(-1)).toBe("Total Carrier Pay: $3,250.00");
+  });
+
+  it("returns nothing for a PDF without a text layer", async () => {
+    await expect(extractPdfText(await rateConPdf([[]]))).resolves.toBe("");
+  });
+
+  it("throws PdfTextError for files that aren't PDFs", async () => {
+    await expect(extractPdfText(Buffer.from("%PDF-1.7\nnot really"))).rejects.toThrow(
+      new PdfTextError("Not a readable PDF file")
+    );
+  });
+});
+
+describe("parseRateCon", () => {
+  it("drafts a load from an extracted rate con", async () => {
+    const draft = parseRateCon(await extractPdfText(await rateConPdf(FIXTURE)));
+
+    expect(draft).toMatchObject({
+      broker: "Summit Freight Logistics LLC",
+      loadNumber: "SF-204871",
+      rate: 3250,
+      miles: 1148,
+      commodity: "Paper products",
+      equipment: "DRY_VAN",
+      pickupDate: "2025-06-02",
+      deliveryDate: "2025-06-04",
+      missing: [],
+    });
+    expect(draft.stops).toEqual([
+      {
+        type: "PICKUP",
+        name: "Northside Paper Mill",
+        addressLine1: "4400 Industrial Pkwy",
+        city: "Appleton",
+        state: "WI",
+        postalCode: "54911",
+        scheduledAt: "2025-06-02T08:00",
+        pickupNumber: "778812",
+        bolNumber: null,
+      },
+      {
+        type: "DELIVERY",
+        name: "Lone Star Distribution",
+        addressLine1: "1200 Commerce St",
+        city: "Dallas",
+        state: "TX",
+        postalCode: "75201",
+        scheduledAt: "2025-06-04T14:30",
+        pickupNumber: null,
+        bolNumber: null,
+      },
+    ]);
+  });
+
+  it("lists what it couldn't find", () => {
+    const draft = parseRateCon("Load # 55120\nRate: $900");
+    expect(draft.loadNumber).toBe("55120");
+    expect(draft.rate).toBe(900);
+    expect(draft.missing).toEqual(["broker", "miles", "pickup stop", "delivery stop"]);
+  });
+});
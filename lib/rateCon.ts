@@ -0,0 +1,285 @@
+import type { EquipmentType, RateConDraft, RateConStop } from "@/lib/schemas/loads"; // Draft shape the new-load form reviews.
+import type { StopType } from "@/lib/schemas/stops";                      // PICKUP / DELIVERY.
+
+/*
+ * Rule-based parser for broker rate confirmations. Every broker lays these out differently, so
+ * the rules look for labels ("Load #", "Total Rate", "Shipper", "Consignee", ...) line by line
+ * instead of fixed positions. Anything it can't find is left null and listed in `missing`; the
+ * dispatcher always reviews the draft before it's saved.
+ */
+
+const LOAD_NUMBER_RE =
+  /\b(?:load|order|confirmation|conf|shipment|trip|pro|reference|ref)\s*(?:#|no\.?|num(?:ber)?)\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{2,})/i;
+
+const TOTAL_RATE_RE = /\btotal\s+(?:carrier\s+)?(?:rate|pay|amount|charges?|cost|due)\b/i;
+const RATE_RE = /\b(?:line\s*haul|linehaul|flat\s+rate|agreed\s+rate|carrier\s+(?:rate|pay)|rate)\b/i;
+const MONEY_RE = /\$\s*([\d,]+(?:\.\d{1,2})?)|\b(\d{1,3}(?:,\d{3})+(?:\.\d{2})?|\d+\.\d{2})\b/;
+
+const BROKER_LABEL_RE = /^(?:broker(?:age)?|customer|bill\s+to|shipper\s+of\s+record)\s*(?:name)?\s*[:\-]\s*(.+)$/i;
+const COMPANY_SUFFIX_RE = /\b(?:LLC|L\.L\.C\.|Inc\.?|Logistics|Brokerage|Freight|Transportation|Corp\.?|Company|Co\.)(?:\s|,|$)/i;
+
+const HEADER_RE =
+  /^(pick\s*-?\s*up|shipper|origin|load\s+at|delivery|deliver\s+to|consignee|receiver|destination|drop(?:\s*-?\s*off)?|unload\s+at)\b(.*)$/i;
+const NOT_A_HEADER_RE = /^(?:date|time|no\b|number|appt|appointment|hours|window|ref|reference|info|instructions)/i;
+const SECTION_END_RE =
+  /^(?:carrier\b|total\b|line\s*haul|rate\b|terms\b|payment\b|special\s+instructions|notes?\b|signature|accessorials?\b|driver\b)/i;
+
+const CITY_STATE_ZIP_RE = /(?:^|,\s*)([A-Za-z][A-Za-z .'-]*?),?\s+([A-Z]{2})\s+(\d{5})(?:-\d{4})?\b/;
+const STREET_RE = /^\d+\s+[A-Za-z0-9]/;
+const PICKUP_NUMBER_RE = /\b(?:pu|pick\s*-?\s*up|po|appt|confirmation|ref(?:erence)?)\s*(?:#|no\.?|num(?:ber)?)\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{2,})/i;
+const BOL_RE = /\bb\/?o\/?l\s*(?:#|no\.?|num(?:ber)?)?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{2,})/i;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function pad(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+function parseMoney(text: string): number | null {
+  const m = text.match(MONEY_RE);
+  if (!m) return null;
+  const value = Number((m[1] ?? m[2]).replace(/,/g, ""));
+  return Number.isFinite(value) && value > 0 ? Math.round(value) : null;   // Load.rate is whole dollars.
+}
+
+/**
+ * First date in the text as "YYYY-MM-DD", plus "THH:mm" when a time is on the same line.
+ */
+export function parseRateConDate(text: string): { date: string; dateTime: string } | null {
+  let year: number | undefined;
+  let month: number | undefined;
+  let day: number | undefined;
+
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  const us = text.match(/\b(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})\b/);
+  const named = text.match(/\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/i);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+    if (year < 100) year += 2000;
+  } else if (named) {
+    [month, day, year] = [MONTHS.indexOf(named[1].slice(0, 3).toLowerCase()) + 1, Number(named[2]), Number(named[3])];
+  }
+  if (!year || !month || !day || month > 12 || day > 31) return null;
+
+  const date = `${year}-${pad(month)}-${pad(day)}`;
+
+  let hours = 0;
+  let minutes = 0;
+  const clock = text.match(/\b(\d{1,2}):(\d{2})\s*(am|pm)?\b/i);
+  const military = text.match(/\b([01]\d|2[0-3])([0-5]\d)\s*(?:hrs?|h)\b/i);
+  if (clock) {
+    hours = Number(clock[1]) % 24;
+    minutes = Number(clock[2]);
+    if (clock[3]?.toLowerCase() === "pm" && hours < 12) hours += 12;
+    if (clock[3]?.toLowerCase() === "am" && hours === 12) hours = 0;
+  } else if (military) {
+    hours = Number(military[1]);
+    minutes = Number(military[2]);
+  }
+
+  return { date, dateTime: `${date}T${pad(hours)}:${pad(minutes)}` };
+}
+
+/**
+ * Value after a label on the same line, or the next line when the label stands alone.
+ */
+function labelled(lines: string[], label: RegExp): string | null {
+  for (let i = 0; i < lines.length; i++) {
+    const m = lines[i].match(label);
+    if (!m) continue;
+    const rest = lines[i].slice((m.index ?? 0) + m[0].length).replace(/^\s*[:#\-]?\s*/, "").trim();
+    if (rest) return rest;
+    if (lines[i + 1]) return lines[i + 1];
+  }
+  return null;
+}
+
+function findRate(lines: string[]): number | null {
+  for (const re of [TOTAL_RATE_RE, RATE_RE]) {
+    for (let i = 0; i < lines.length; i++) {
+      if (!re.test(lines[i]) || /rate\s+con/i.test(lines[i])) continue;      // The "Rate Confirmation" title isn't a rate
+      const amount = parseMoney(lines[i]) ?? (lines[i + 1] ? parseMoney(lines[i + 1]) : null);
+      if (amount !== null) return amount;
+    }
+  }
+  return null;
+}
+
+function findBroker(lines: string[]): string | null {
+  for (const line of lines) {
+    const m = line.match(BROKER_LABEL_RE);
+    if (m) return m[1].trim();
+  }
+  // Otherwise the letterhead: a company-looking line near the top that isn't the carrier block
+  for (const line of lines.slice(0, 8)) {
+    if (/carrier/i.test(line)) continue;
+    if (COMPANY_SUFFIX_RE.test(line) && line.length <= 80) return line.replace(/\s*rate\s+confirmation.*$/i, "").trim();
+  }
+  return null;
+}
+
+function findEquipment(lines: string[]): EquipmentType | null {
+  const text = labelled(lines, /\b(?:equipment|trailer\s+type|trailer)\b/i) ?? lines.join(" ");
+  if (/reefer|refrigerated|temp(?:erature)?[\s-]*controlled/i.test(text)) return "REEFER";
+  if (/step\s*-?\s*deck/i.test(text)) return "STEP_DECK";
+  if (/flat\s*-?\s*bed/i.test(text)) return "FLATBED";
+  if (/power\s+only/i.test(text)) return "POWER_ONLY";
+  if (/dry\s*van|\bvan\b/i.test(text)) return "DRY_VAN";
+  return null;
+}
+
+function findCommodity(lines: string[]): string | null {
+  const value = labelled(lines, /\b(?:commodity|description\s+of\s+goods|product)\b/i);
+  if (!value) return null;
+  return value.split(/\s+(?:weight|wt|pieces|pcs|pallets|qty|quantity)\b/i)[0].slice(0, 100).trim() || null;
+}
+
+function findMiles(lines: string[]): number | null {
+  for (const line of lines) {
+    const m = line.match(/\b(\d{1,3}(?:,\d{3})*|\d+)\s*(?:loaded\s+)?(?:miles|mi)\b/i) ??
+      line.match(/\bmiles\s*[:\-]?\s*(\d{1,3}(?:,\d{3})*|\d+)\b/i);
+    if (m) return Number(m[1].replace(/,/g, ""));
+  }
+  return null;
+}
+
+function sectionHeader(line: string): { type: StopType; name: string | null } | null {
+  const m = line.match(HEADER_RE);
+  if (!m) return null;
+
+  let rest = m[2].trim();
+  const index = rest.match(/^#?\s*\d{1,2}(?=\s|:|-|$)/);                  // "Pickup 1", "Shipper #2:"
+  if (index) rest = rest.slice(index[0].length).trim();
+  else if (rest.startsWith("#")) return null;                              // "Pickup #: PU123" is a reference, not a section
+  rest = rest.replace(/^[:\-]\s*/, "");
+  if (NOT_A_HEADER_RE.test(rest)) return null;                             // "Pickup Date: ..." belongs to the current section
+
+  const type: StopType = /^(pick|shipper|origin|load\s+at)/i.test(m[1]) ? "PICKUP" : "DELIVERY";
+  return { type, name: rest || null };
+}
+
+function parseStopSection(type: StopType, headerName: string | null, body: string[]): RateConStop {
+  const stop: RateConStop = {
+    type,
+    name: headerName,
+    addressLine1: null,
+    city: null,
+    state: null,
+    postalCode: null,
+    scheduledAt: null,
+    pickupNumber: null,
+    bolNumber: null,
+  };
+
+  for (const line of body) {
+    const place = line.match(CITY_STATE_ZIP_RE);
+    if (place && !stop.city) {
+      stop.city = place[1].trim();
+      stop.state = place[2];
+      stop.postalCode = place[3];
+      const before = line.slice(0, place.index).trim().replace(/,$/, "");
+      if (before && !stop.addressLine1) stop.addressLine1 = before;          // "123 Main St, Dallas, TX 75001" on one line
+      continue;
+    }
+
+    const when = parseRateConDate(line);
+    if (when && !stop.scheduledAt) {
+      stop.scheduledAt = when.dateTime;
+      continue;
+    }
+
+    const bol = line.match(BOL_RE);
+    if (bol) {
+      stop.bolNumber ??= bol[1];
+      continue;
+    }
+    const ref = line.match(PICKUP_NUMBER_RE);
+    if (ref) {
+      if (type === "PICKUP") stop.pickupNumber ??= ref[1];
+      continue;
+    }
+
+    if (STREET_RE.test(line) && !stop.addressLine1 && !stop.city) {
+      stop.addressLine1 = line;
+    } else if (!stop.name && !stop.city && !line.includes(":")) {
+      stop.name = line;                                                    // Facility name comes before the address
+    }
+  }
+
+  return stop;
+}
+
+function findStops(lines: string[]): RateConStop[] {
+  const stops: RateConStop[] = [];
+  let current: { type: StopType; name: string | null; body: string[] } | null = null;
+
+  const flush = () => {
+    if (current) stops.push(parseStopSection(current.type, current.name, current.body));
+    current = null;
+  };
+
+  for (const line of lines) {
+    const header = sectionHeader(line);
+    if (header) {
+      flush();
+      current = { ...header, body: [] };
+    } else if (current && SECTION_END_RE.test(line)) {
+      flush();
+    } else if (current) {
+      current.body.push(line);
+    }
+  }
+  flush();
+
+  return stops.filter((s) => s.name || s.city || s.scheduledAt);            // Drop headers that matched but held nothing
+}
+
+/**
+ * Turns extracted rate-con text into a load draft. Never throws; unknown fields are null.
+ */
+export function parseRateCon(text: string): RateConDraft {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const stops = findStops(lines);
+  const firstPickup = stops.find((s) => s.type === "PICKUP");
+  const lastDelivery = [...stops].reverse().find((s) => s.type === "DELIVERY");
+
+  const pickupDate =
+    firstPickup?.scheduledAt?.slice(0, 10) ??
+    parseRateConDate(labelled(lines, /\b(?:pick\s*-?\s*up|ship)\s+date\b/i) ?? "")?.date ??
+    null;
+  const deliveryDate =
+    lastDelivery?.scheduledAt?.slice(0, 10) ??
+    parseRateConDate(labelled(lines, /\b(?:delivery|drop)\s+date\b/i) ?? "")?.date ??
+    null;
+
+  const draft: RateConDraft = {
+    broker: findBroker(lines),
+    loadNumber: lines.map((line) => line.match(LOAD_NUMBER_RE)?.[1]).find(Boolean) ?? null,
+    rate: findRate(lines),
+    miles: findMiles(lines),
+    commodity: findCommodity(lines),
+    equipment: findEquipment(lines),
+    pickupDate,
+    deliveryDate,
+    stops,
+    missing: [],
+  };
+
+  const missing: string[] = [];
+  if (!draft.broker) missing.push("broker");
+  if (!draft.loadNumber) missing.push("loadNumber");
+  if (draft.rate === null) missing.push("rate");
+  if (draft.miles === null) missing.push("miles");
+  if (!firstPickup) missing.push("pickup stop");
+  if (!lastDelivery) missing.push("delivery stop");
+  draft.missing = missing;
+
+  return draft;
+}
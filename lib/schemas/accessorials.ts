@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+export const AccessorialTypeSchema = z.enum([
+  "DETENTION",
+  "LAYOVER",
+  "TONU",
+  "LUMPER",
+  "STOP_OFF",
+  "DRIVER_ASSIST",
+  "OTHER",
+]);
+
+export type AccessorialType = z.infer<typeof AccessorialTypeSchema>;
+
+export type AccessorialCatalogEntry = {
+  label: string;
+  unit: "hour" | "day" | "stop" | "each";
+  billable: boolean; // defaults for a new charge; either can be changed per load
+  payableToDriver: boolean;
+};
+
+// Labels, units and default flags per type
+export const ACCESSORIAL_CATALOG: Record<AccessorialType, AccessorialCatalogEntry> = {
+  DETENTION: { label: "Detention", unit: "hour", billable: true, payableToDriver: true },
+  LAYOVER: { label: "Layover", unit: "day", billable: true, payableToDriver: true },
+  TONU: { label: "Truck ordered not used", unit: "each", billable: true, payableToDriver: true },
+  LUMPER: { label: "Lumper reimbursement", unit: "each", billable: true, payableToDriver: false },
+  STOP_OFF: { label: "Stop-off", unit: "stop", billable: true, payableToDriver: true },
+  DRIVER_ASSIST: { label: "Driver assist", unit: "each", billable: true, payableToDriver: true },
+  OTHER: { label: "Other", unit: "each", billable: true, payableToDriver: false },
+};
+
+export const LoadAccessorialSchema = z.object({
+  id: z.string(),
+  loadId: z.string(),
+  type: AccessorialTypeSchema,
+  description: z.string().nullable(),
+  quantity: z.number(),
+  rate: z.number().int(), // dollars per unit
+  amount: z.number().int(), // quantity × rate, rounded
+  billable: z.boolean(),
+  payableToDriver: z.boolean(),
+  driverAmount: z.number().int().nullable(), // null = the full amount when payable
+  invoiceId: z.string().nullable(), // set once billed; billed charges are locked
+  createdAt: z.string().or(z.date()),
+});
+
+export type LoadAccessorial = z.infer<typeof LoadAccessorialSchema>;
+
+export const LoadAccessorialListSchema = z.array(LoadAccessorialSchema);
+
+const accessorialFields = {
+  description: z.string().trim().min(1).nullable().optional(),
+  quantity: z.number().positive().optional(),
+  rate: z.number().int().min(0).optional(),
+  billable: z.boolean().optional(),
+  payableToDriver: z.boolean().optional(),
+  driverAmount: z.number().int().min(0).nullable().optional(),
+};
+
+// Detention and layover default their quantity from the load and detention its rate from the customer's terms
+export const CreateAccessorialSchema = z.object({
+  type: AccessorialTypeSchema,
+  ...accessorialFields,
+});
+
+export type CreateAccessorialInput = z.input<typeof CreateAccessorialSchema>;
+
+export const UpdateAccessorialSchema = z.object({
+  type: AccessorialTypeSchema.optional(),
+  ...accessorialFields,
+});
+
+export type UpdateAccessorialInput = z.input<typeof UpdateAccessorialSchema>;
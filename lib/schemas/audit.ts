@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+export const AuditEntityTypeSchema = z.enum([
+  "Load",
+  "LoadStop",
+  "LoadAccessorial",
+  "LoadTemplate",
+  "Invoice",
+  "Payment",
+  "Expense",
+  "Customer",
+  "FuelSurchargeSchedule",
+  "Truck",
+  "Trailer",
+  "Driver",
+  "Task",
+  "EmailTemplate",
+  "DunningStep",
+]);
+
+export type AuditEntityType = z.infer<typeof AuditEntityTypeSchema>;
+
+export const AuditActionSchema = z.enum(["CREATE", "UPDATE", "DELETE"]);
+
+export type AuditAction = z.infer<typeof AuditActionSchema>;
+
+// Field-level diff: only the columns that changed on an UPDATE
+export const AuditChangesSchema = z.record(
+  z.string(),
+  z.object({ from: z.unknown(), to: z.unknown() })
+);
+
+export const AuditEventSchema = z.object({
+  id: z.string(),
+  entityType: AuditEntityTypeSchema,
+  entityId: z.string(),
+  action: AuditActionSchema,
+  before: z.record(z.string(), z.unknown()).nullable(),
+  after: z.record(z.string(), z.unknown()).nullable(),
+  changes: AuditChangesSchema.nullable(),
+  createdAt: z.string().or(z.date()),
+  actor: z
+    .object({ id: z.string(), fullName: z.string().nullable(), email: z.string() })
+    .nullable(), // null for system writes
+});
+
+export type AuditEvent = z.infer<typeof AuditEventSchema>;
+
+export const AuditEventListSchema = z.array(AuditEventSchema);
+
+export type AuditQuery = {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  limit?: number;
+};
@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+export const LoginSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1, "Password is required"),
+});
+
+export type LoginInput = z.infer<typeof LoginSchema>;
+
+export const PasswordSchema = z.string().min(8, "Password must be at least 8 characters");
+
+// Optional company profile captured at signup; everything can be edited later.
+export const CompanyProfileSchema = z.object({
+  dotNumber: z.string().trim().min(1).optional(),
+  mcNumber: z.string().trim().min(1).optional(),
+  timezone: z.string().trim().min(1).optional(),
+  defaultDaysToPay: z.coerce.number().int().min(0).max(365).optional(),
+  defaultFuelMpg: z.coerce.number().positive().max(30).optional(),
+  defaultTruckFixedCostPerDay: z.coerce.number().int().min(0).optional(),
+});
+
+export type CompanyProfileInput = z.infer<typeof CompanyProfileSchema>;
+
+export const RegisterSchema = CompanyProfileSchema.extend({
+  companyName: z.string().trim().min(1, "Company name is required"),
+  fullName: z.string().trim().min(1).optional(),
+  email: z.string().trim().toLowerCase().email(),
+  password: PasswordSchema,
+});
+
+export type RegisterInput = z.infer<typeof RegisterSchema>;
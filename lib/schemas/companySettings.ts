@@ -0,0 +1,76 @@
+import { z } from "zod";
+
+export const CompanySettingsSchema = z.object({
+  name: z.string(),
+  dotNumber: z.string().nullable(),
+  mcNumber: z.string().nullable(),
+  addressLine1: z.string().nullable(),
+  addressLine2: z.string().nullable(),
+  city: z.string().nullable(),
+  state: z.string().nullable(),
+  postalCode: z.string().nullable(),
+  phone: z.string().nullable(),
+  billingEmail: z.string().nullable(),
+  remitTo: z.string().nullable(), // printed on invoices; the company address when blank
+  defaultDaysToPay: z.number().int(),
+  expandThreshold: z.number().int(),
+  defaultCurrency: z.string(),
+  defaultFuelMpg: z.number(),
+  defaultTruckFixedCostPerDay: z.number().int(),
+  timezone: z.string(),
+  maxMilesPerTruckPerDay: z.number().int(),
+  staleCustomerDays: z.number().int(),
+  detentionFreeHours: z.number(),
+  detentionRatePerHour: z.number().int(),
+  invoiceNumberPrefix: z.string(),
+});
+
+export type CompanySettings = z.infer<typeof CompanySettingsSchema>;
+
+function isValidTimezone(tz: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Every field is optional; `null` resets a setting to the app default.
+export const UpdateCompanySettingsSchema = z.object({
+  name: z.string().trim().min(1, "Company name is required").optional(),
+  dotNumber: z.string().trim().min(1).nullable().optional(),
+  mcNumber: z.string().trim().min(1).nullable().optional(),
+  addressLine1: z.string().trim().min(1).nullable().optional(),
+  addressLine2: z.string().trim().min(1).nullable().optional(),
+  city: z.string().trim().min(1).nullable().optional(),
+  state: z.string().trim().min(1).nullable().optional(),
+  postalCode: z.string().trim().min(1).nullable().optional(),
+  phone: z.string().trim().min(1).nullable().optional(),
+  billingEmail: z.string().trim().email("Billing email must be an email address").nullable().optional(),
+  remitTo: z.string().trim().min(1).max(500).nullable().optional(),
+  defaultDaysToPay: z.number().int().min(0).max(365).nullable().optional(),
+  expandThreshold: z.number().int().min(0).max(100).nullable().optional(),
+  defaultCurrency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code")
+    .nullable()
+    .optional(),
+  defaultFuelMpg: z.number().positive().max(30).nullable().optional(),
+  defaultTruckFixedCostPerDay: z.number().int().min(0).nullable().optional(),
+  timezone: z
+    .string()
+    .trim()
+    .refine(isValidTimezone, "Unknown timezone")
+    .nullable()
+    .optional(),
+  maxMilesPerTruckPerDay: z.number().int().min(1).max(2000).nullable().optional(),
+  staleCustomerDays: z.number().int().min(1).max(365).nullable().optional(),
+  detentionFreeHours: z.number().min(0).max(24).nullable().optional(),
+  detentionRatePerHour: z.number().int().min(0).nullable().optional(),
+  invoiceNumberPrefix: z.string().trim().max(20).nullable().optional(),
+});
+
+export type UpdateCompanySettingsInput = z.infer<typeof UpdateCompanySettingsSchema>;
@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+/**
+ * A customer's billing email as sent on create/update: blank clears it. Invoices and
+ * dunning reminders go to this address, so it has to be a real one.
+ */
+export const CustomerBillingEmailSchema = z
+  .string()
+  .trim()
+  .transform((value) => value || null)
+  .pipe(z.string().email("Billing email must be an email address").nullable())
+  .nullable()
+  .optional();
@@ -1,5 +1,17 @@
 import { z } from "zod";
 
+export const DocumentTypeSchema = z.enum(["RATE_CON", "BOL", "POD", "LUMPER_RECEIPT", "OTHER"]);
+
+export type DocumentType = z.infer<typeof DocumentTypeSchema>;
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  RATE_CON: "Rate con",
+  BOL: "BOL",
+  POD: "POD",
+  LUMPER_RECEIPT: "Lumper receipt",
+  OTHER: "Other",
+};
+
 export const DocumentSchema = z.object({
   id: z.string(),
   companyId: z.string(),
@@ -13,6 +25,7 @@ export const DocumentSchema = z.object({
   fileType: z.string().nullable().optional(),
   fileSize: z.number().int().nullable().optional(),
   storageKey: z.string(),
+  type: DocumentTypeSchema.nullable().optional(),
   createdAt: z.string().or(z.date()).optional(),
 });
 
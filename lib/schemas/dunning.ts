@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { EmailTemplateSlugSchema } from "./emailTemplates";
+
+export const DunningActionSchema = z.enum(["EMAIL", "TASK"]);
+
+export type DunningAction = z.infer<typeof DunningActionSchema>;
+
+export const DunningStepSchema = z.object({
+  id: z.string(),
+  offsetDays: z.number().int(), // days after the due date; negative = before it
+  action: DunningActionSchema,
+  templateSlug: z.string().nullable(), // EMAIL steps; null = "invoice-reminder" before due, "invoice-overdue" after
+  isActive: z.boolean(),
+});
+
+export type DunningStep = z.infer<typeof DunningStepSchema>;
+
+export const DunningStepListSchema = z.array(DunningStepSchema);
+
+export const CreateDunningStepSchema = z.object({
+  offsetDays: z.number().int().min(-90).max(365),
+  action: DunningActionSchema,
+  templateSlug: EmailTemplateSlugSchema.nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type CreateDunningStepInput = z.input<typeof CreateDunningStepSchema>;
+
+export const UpdateDunningStepSchema = CreateDunningStepSchema.partial();
+
+export type UpdateDunningStepInput = z.input<typeof UpdateDunningStepSchema>;
+
+// Offered when a company has no steps yet
+export const RECOMMENDED_DUNNING_STEPS: CreateDunningStepInput[] = [
+  { offsetDays: -3, action: "EMAIL" },
+  { offsetDays: 1, action: "EMAIL" },
+  { offsetDays: 15, action: "EMAIL" },
+  { offsetDays: 30, action: "TASK" },
+];
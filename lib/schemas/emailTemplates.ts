@@ -0,0 +1,75 @@
+import { z } from "zod";
+
+// Slugs are how code picks a template ("invoice"); a company template replaces the built-in with its slug
+export const EmailTemplateSlugSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(60)
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug must be lowercase letters, numbers and dashes");
+
+export const EmailTemplateSchema = z.object({
+  id: z.string().nullable(), // null for a built-in template the company hasn't customized
+  slug: z.string(),
+  name: z.string(),
+  subject: z.string(),
+  htmlBody: z.string(),
+  textBody: z.string().nullable(),
+  builtIn: z.boolean(),
+  updatedAt: z.string().or(z.date()).nullable(),
+});
+
+export type EmailTemplate = z.infer<typeof EmailTemplateSchema>;
+
+export const EmailTemplateListSchema = z.array(EmailTemplateSchema);
+
+export const CreateEmailTemplateSchema = z.object({
+  slug: EmailTemplateSlugSchema,
+  name: z.string().trim().min(1).max(100),
+  subject: z.string().trim().min(1).max(300),
+  htmlBody: z.string().trim().min(1),
+  textBody: z.string().trim().min(1).nullable().optional(),
+});
+
+export type CreateEmailTemplateInput = z.input<typeof CreateEmailTemplateSchema>;
+
+export const UpdateEmailTemplateSchema = CreateEmailTemplateSchema.partial();
+
+export type UpdateEmailTemplateInput = z.input<typeof UpdateEmailTemplateSchema>;
+
+// {{variables}} templates can use; shown in the editor and checked on save
+export const EMAIL_TEMPLATE_VARIABLES = [
+  "company.name",
+  "company.phone",
+  "company.email",
+  "company.remitTo",
+  "customer.name",
+  "customer.email",
+  "invoice.number",
+  "invoice.total",
+  "invoice.amountPaid",
+  "invoice.balance",
+  "invoice.issueDate",
+  "invoice.dueDate",
+  "invoice.daysPastDue",
+  "invoice.daysUntilDue",
+  "invoice.status",
+] as const;
+
+export const EmailStatusSchema = z.enum(["QUEUED", "SENT", "FAILED", "CANCELLED"]);
+
+export type EmailStatus = z.infer<typeof EmailStatusSchema>;
+
+export const EmailLogSchema = z.object({
+  id: z.string(),
+  toEmail: z.string(),
+  subject: z.string(),
+  status: EmailStatusSchema,
+  attempts: z.number().int(),
+  sentAt: z.string().or(z.date()).nullable(),
+  nextAttemptAt: z.string().or(z.date()).nullable(),
+  errorMessage: z.string().nullable(),
+  createdAt: z.string().or(z.date()),
+});
+
+export type EmailLog = z.infer<typeof EmailLogSchema>;
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { endOfDay, LoadStatusSchema } from "./loads";
+
+export const EquipmentKindSchema = z.enum(["truck", "trailer"]);
+
+export type EquipmentKind = z.infer<typeof EquipmentKindSchema>;
+
+export const EquipmentStatusSchema = z.enum(["ACTIVE", "IN_SHOP", "INACTIVE", "RETIRED"]); // TruckStatus and TrailerStatus share values
+
+export const BookedLoadSchema = z.object({
+  id: z.string(),
+  loadNumber: z.string().nullable(),
+  status: LoadStatusSchema,
+  pickupDate: z.string().or(z.date()).nullable(),
+  deliveryDate: z.string().or(z.date()).nullable(),
+});
+
+export type BookedLoad = z.infer<typeof BookedLoadSchema>;
+
+export const EquipmentConflictSchema = z.object({
+  kind: EquipmentKindSchema,
+  equipmentId: z.string(),
+  label: z.string(), // truck unit # or trailer #
+  reason: z.enum(["UNAVAILABLE", "DOUBLE_BOOKED"]),
+  status: EquipmentStatusSchema,
+  loads: z.array(BookedLoadSchema), // overlapping loads (DOUBLE_BOOKED only)
+});
+
+export type EquipmentConflict = z.infer<typeof EquipmentConflictSchema>;
+
+// 409 body when an assignment conflicts; resend with overrideConflicts: true to save anyway
+export const EquipmentConflictErrorSchema = z.object({
+  error: z.string(),
+  code: z.literal("EQUIPMENT_CONFLICT"),
+  conflicts: z.array(EquipmentConflictSchema),
+});
+
+// Query string of GET /api/equipment/availability
+export const EquipmentAvailabilityQuerySchema = z
+  .object({
+    from: z.coerce.date({ error: "from must be a date, e.g. 2025-12-01" }),
+    to: z.preprocess(endOfDay, z.coerce.date({ error: "to must be a date, e.g. 2025-12-07" })),
+  })
+  .refine((q) => q.to >= q.from, { message: "to must be on or after from", path: ["to"] });
+
+export type EquipmentAvailabilityQuery = z.infer<typeof EquipmentAvailabilityQuerySchema>;
+
+export const EquipmentAvailabilitySchema = z.object({
+  kind: EquipmentKindSchema,
+  id: z.string(),
+  label: z.string(),
+  status: EquipmentStatusSchema,
+  available: z.boolean(), // ACTIVE and no load booked in the window
+  loads: z.array(BookedLoadSchema),
+});
+
+export type EquipmentAvailability = z.infer<typeof EquipmentAvailabilitySchema>;
+
+export const EquipmentAvailabilityResponseSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  trucks: z.array(EquipmentAvailabilitySchema),
+  trailers: z.array(EquipmentAvailabilitySchema),
+});
+
+export type EquipmentAvailabilityResponse = z.infer<typeof EquipmentAvailabilityResponseSchema>;
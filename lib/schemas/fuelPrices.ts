@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+export const FuelPriceSchema = z.object({
+  id: z.string(),
+  weekOf: z.string().or(z.date()), // Monday (UTC) of the week the price applies to
+  region: z.string(), // state code, PADD (e.g. "PADD2") or "US"
+  pricePerGallon: z.number(),
+  source: z.string().nullable(),
+});
+
+export type FuelPrice = z.infer<typeof FuelPriceSchema>;
+
+export const FuelPriceListSchema = z.array(FuelPriceSchema);
+
+// Saving a week/region that already has a price replaces it
+export const UpsertFuelPriceSchema = z.object({
+  weekOf: z.coerce.date(), // any day in the week
+  region: z.string().trim().min(1),
+  pricePerGallon: z.number().positive(),
+  source: z.string().trim().min(1).nullable().optional(),
+});
+
+export type UpsertFuelPriceInput = z.input<typeof UpsertFuelPriceSchema>;
+
+export const ImportFuelPricesSchema = z.object({
+  csv: z.string().min(1), // week,region,price per line
+  source: z.string().trim().min(1).nullable().optional(),
+});
+
+export type ImportFuelPricesInput = z.input<typeof ImportFuelPricesSchema>;
+
+export const ImportFuelPricesResultSchema = z.object({
+  imported: z.number().int(),
+  errors: z.array(z.object({ line: z.number().int(), message: z.string() })),
+});
+
+export type ImportFuelPricesResult = z.infer<typeof ImportFuelPricesResultSchema>;
+
+export const FuelEstimateSchema = z.object({
+  miles: z.number(), // loaded + deadhead
+  mpg: z.number(),
+  mpgSource: z.enum(["truck", "company"]),
+  gallons: z.number(),
+  state: z.string().nullable(),
+  price: z
+    .object({ region: z.string(), weekOf: z.string().or(z.date()), pricePerGallon: z.number() })
+    .nullable(),
+  cost: z.number().nullable(), // null when no price is on file
+});
+
+export type FuelEstimate = z.infer<typeof FuelEstimateSchema>;
+
+export type FuelEstimateQuery = {
+  miles: number;
+  deadheadMiles?: number | null;
+  state?: string | null;
+  postalCode?: string | null;
+  pickupDate?: string | null;
+  truckId?: string | null;
+};
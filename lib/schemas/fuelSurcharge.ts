@@ -0,0 +1,107 @@
+import { z } from "zod";
+
+export const FuelSurchargeMethodSchema = z.enum(["PEG_PRICE", "CENTS_PER_MILE_STEP", "PERCENT_OF_LINEHAUL"]);
+
+export type FuelSurchargeMethod = z.infer<typeof FuelSurchargeMethodSchema>;
+
+export const FuelSurchargeTierSchema = z.object({
+  minPrice: z.number().min(0), // $/gal at which this tier starts
+  percent: z.number().min(0).max(100), // of linehaul
+});
+
+export const FuelSurchargeScheduleSchema = z.object({
+  id: z.string(),
+  customerId: z.string(),
+  name: z.string(),
+  method: FuelSurchargeMethodSchema,
+  priceRegion: z.string().nullable(), // null = pickup state
+  pegPrice: z.number().nullable(),
+  mpg: z.number().nullable(),
+  priceStep: z.number().nullable(),
+  centsPerStep: z.number().nullable(),
+  effectiveFrom: z.string().or(z.date()).nullable(),
+  isActive: z.boolean(),
+  tiers: z.array(FuelSurchargeTierSchema.extend({ id: z.string() })),
+});
+
+export type FuelSurchargeSchedule = z.infer<typeof FuelSurchargeScheduleSchema>;
+
+export const FuelSurchargeScheduleListSchema = z.array(FuelSurchargeScheduleSchema);
+
+const scheduleFields = {
+  name: z.string().trim().min(1),
+  method: FuelSurchargeMethodSchema,
+  priceRegion: z.string().trim().min(1).nullable().optional(),
+  pegPrice: z.number().min(0).nullable().optional(),
+  mpg: z.number().positive().nullable().optional(), // peg schedules; company default when blank
+  priceStep: z.number().positive().nullable().optional(),
+  centsPerStep: z.number().min(0).nullable().optional(),
+  effectiveFrom: z.coerce.date().nullable().optional(),
+  isActive: z.boolean().optional(),
+  tiers: z.array(FuelSurchargeTierSchema).optional(),
+};
+
+type ScheduleFields = {
+  method?: FuelSurchargeMethod;
+  pegPrice?: number | null;
+  priceStep?: number | null;
+  centsPerStep?: number | null;
+  tiers?: { minPrice: number }[];
+};
+
+// Each method needs its own parameters; checked against the merged row on update
+export function fuelSurchargeScheduleIssue(schedule: ScheduleFields): string | null {
+  switch (schedule.method) {
+    case "PEG_PRICE":
+      return schedule.pegPrice == null ? "pegPrice is required for PEG_PRICE schedules" : null;
+    case "CENTS_PER_MILE_STEP":
+      return schedule.pegPrice == null || schedule.priceStep == null || schedule.centsPerStep == null
+        ? "pegPrice, priceStep and centsPerStep are required for CENTS_PER_MILE_STEP schedules"
+        : null;
+    case "PERCENT_OF_LINEHAUL": {
+      const tiers = schedule.tiers ?? [];
+      if (tiers.length === 0) return "At least one tier is required for PERCENT_OF_LINEHAUL schedules";
+      const prices = tiers.map((t) => t.minPrice);
+      return new Set(prices).size !== prices.length ? "Tier minPrice values must be unique" : null;
+    }
+    default:
+      return null;
+  }
+}
+
+export const CreateFuelSurchargeScheduleSchema = z
+  .object(scheduleFields)
+  .superRefine((value, ctx) => {
+    const issue = fuelSurchargeScheduleIssue(value);
+    if (issue) ctx.addIssue({ code: "custom", message: issue });
+  });
+
+export type CreateFuelSurchargeScheduleInput = z.input<typeof CreateFuelSurchargeScheduleSchema>;
+
+// Sending `tiers` replaces the whole table
+export const UpdateFuelSurchargeScheduleSchema = z.object({
+  ...scheduleFields,
+  name: scheduleFields.name.optional(),
+  method: scheduleFields.method.optional(),
+});
+
+export type UpdateFuelSurchargeScheduleInput = z.input<typeof UpdateFuelSurchargeScheduleSchema>;
+
+export const LoadFuelSurchargeSchema = z.object({
+  loadId: z.string(),
+  surcharge: z
+    .object({
+      scheduleId: z.string(),
+      scheduleName: z.string(),
+      method: FuelSurchargeMethodSchema,
+      price: z
+        .object({ region: z.string(), weekOf: z.string().or(z.date()), pricePerGallon: z.number() })
+        .nullable(),
+      ratePerMile: z.number().nullable(),
+      percent: z.number().nullable(),
+      amount: z.number().nullable(),
+    })
+    .nullable(), // null when the customer has no schedule in force
+});
+
+export type LoadFuelSurcharge = z.infer<typeof LoadFuelSurchargeSchema>;
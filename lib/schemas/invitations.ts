@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { PasswordSchema } from "./auth";
+
+// Roles an OWNER/ADMIN can hand out. OWNER is only ever created at signup.
+export const InvitableRoleSchema = z.enum([
+  "ADMIN",
+  "DISPATCHER",
+  "ACCOUNTING",
+  "DRIVER",
+  "VIEW_ONLY",
+]);
+
+export type InvitableRole = z.infer<typeof InvitableRoleSchema>;
+
+export const CreateInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: InvitableRoleSchema.default("DISPATCHER"),
+});
+
+export type CreateInvitationInput = z.input<typeof CreateInvitationSchema>;
+
+export const AcceptInvitationSchema = z.object({
+  token: z.string().min(1, "Invitation token is required"),
+  fullName: z.string().trim().min(1).optional(),
+  password: PasswordSchema,
+});
+
+export type AcceptInvitationInput = z.infer<typeof AcceptInvitationSchema>;
+
+export const InvitationStatusSchema = z.enum(["PENDING", "ACCEPTED", "EXPIRED", "REVOKED"]);
+
+export const InvitationSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  role: z.string(),
+  status: InvitationStatusSchema,
+  expiresAt: z.string().or(z.date()),
+  acceptedAt: z.string().or(z.date()).nullable().optional(),
+  createdAt: z.string().or(z.date()).optional(),
+  invitedBy: z
+    .object({ fullName: z.string().nullable(), email: z.string() })
+    .nullable()
+    .optional(),
+});
+
+export type Invitation = z.infer<typeof InvitationSchema>;
+
+export const InvitationListSchema = z.array(InvitationSchema);
+
+// Returned by POST /api/invitations so the inviter can copy the link
+// while outbound email isn't wired up.
+export const CreatedInvitationSchema = InvitationSchema.extend({
+  acceptUrl: z.string(),
+});
+
+export type CreatedInvitation = z.infer<typeof CreatedInvitationSchema>;
+
+// What the accept page shows before the invitee sets a password.
+export const InvitationPreviewSchema = z.object({
+  email: z.string(),
+  role: z.string(),
+  companyName: z.string(),
+});
+
+export type InvitationPreview = z.infer<typeof InvitationPreviewSchema>;
+
+export const TeamMemberSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  fullName: z.string().nullable(),
+  role: z.string(),
+  isActive: z.boolean(),
+  createdAt: z.string().or(z.date()).optional(),
+});
+
+export type TeamMember = z.infer<typeof TeamMemberSchema>;
+
+export const TeamMemberListSchema = z.array(TeamMemberSchema);
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { EmailTemplateSlugSchema } from "./emailTemplates";
+import { LoadStatusSchema } from "./loads";
+
+export const InvoiceStatusSchema = z.enum(["DRAFT", "SENT", "OVERDUE", "PAID", "CANCELLED"]);
+
+export type InvoiceStatus = z.infer<typeof InvoiceStatusSchema>;
+
+// Body for POST /api/invoices/from-loads
+export const InvoiceFromLoadsSchema = z.object({
+  loadIds: z.array(z.string().min(1)).min(1, "Select at least one load"),
+  invoiceNumber: z.string().trim().min(1).optional(), // defaults to the company's next number
+  issueDate: z.coerce.date().optional(), // defaults to today
+  dueDate: z.coerce.date().optional(), // defaults to issueDate + customer/company days to pay
+  status: z.enum(["DRAFT", "SENT"]).optional(),
+  notes: z.string().trim().min(1).nullable().optional(),
+  includeFuelSurcharge: z.boolean().optional(), // each include* defaults to true
+  includeAccessorials: z.boolean().optional(),
+  includeLumper: z.boolean().optional(),
+  includeDetention: z.boolean().optional(),
+});
+
+export type InvoiceFromLoadsInput = z.input<typeof InvoiceFromLoadsSchema>;
+
+// Subset of the created invoice the client reads back
+export const InvoiceSummarySchema = z.object({
+  id: z.string(),
+  invoiceNumber: z.string(),
+  status: InvoiceStatusSchema,
+  issueDate: z.string().or(z.date()),
+  dueDate: z.string().or(z.date()).nullable(),
+  total: z.number(),
+  amountPaid: z.number(),
+  balance: z.number(),
+});
+
+export type InvoiceSummary = z.infer<typeof InvoiceSummarySchema>;
+
+// 409 body when some loads can't be invoiced
+export const InvoiceLoadsErrorSchema = z.object({
+  error: z.string(),
+  code: z.literal("LOADS_NOT_INVOICEABLE"),
+  loads: z.array(
+    z.object({
+      loadId: z.string(),
+      loadNumber: z.string().nullable(),
+      reason: z.enum(["NOT_DELIVERED", "ALREADY_INVOICED"]),
+      status: LoadStatusSchema,
+      invoiceNumber: z.string().nullable(),
+    })
+  ),
+});
+
+// Body for POST /api/invoices/:id/send
+export const SendInvoiceSchema = z.object({
+  to: z.string().trim().email().optional(), // defaults to the customer's billing email
+  templateSlug: EmailTemplateSlugSchema.optional(), // defaults to "invoice"
+  packet: z.boolean().optional(), // attach the rate con / BOL / POD packet instead of the bare invoice
+});
+
+export type SendInvoiceInput = z.input<typeof SendInvoiceSchema>;
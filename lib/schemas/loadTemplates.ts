@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { EquipmentTypeSchema } from "./loads";
+import { StopTypeSchema } from "./stops";
+
+// Cadences the scheduler supports (subset of the RecurrenceFreq enum)
+export const TemplateRecurrenceSchema = z.enum(["WEEKLY", "BIWEEKLY"]);
+
+export type TemplateRecurrence = z.infer<typeof TemplateRecurrenceSchema>;
+
+export const LoadTemplateStopSchema = z.object({
+  id: z.string(),
+  sequence: z.number().int(),
+  type: StopTypeSchema,
+  locationId: z.string().nullable(),
+  name: z.string().nullable(),
+  city: z.string().nullable(),
+  state: z.string().nullable(),
+  offsetMinutes: z.number().int().nullable(), // appointment, in minutes after the first pickup
+  location: z.object({ id: z.string(), name: z.string() }).nullable().optional(),
+});
+
+export const LoadTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  customerId: z.string().nullable(),
+  broker: z.string().nullable(),
+  equipment: EquipmentTypeSchema,
+  commodity: z.string().nullable(),
+  rate: z.number().nullable(),
+  miles: z.number().nullable(),
+  fuelCost: z.number().nullable(),
+  isTeam: z.boolean(),
+  recurrence: z.string().nullable(),
+  nextRunAt: z.string().or(z.date()).nullable(),
+  lastRunAt: z.string().or(z.date()).nullable(),
+  isActive: z.boolean(),
+  customer: z.object({ id: z.string(), name: z.string() }).nullable().optional(),
+  stops: z.array(LoadTemplateStopSchema).optional(),
+});
+
+export type LoadTemplate = z.infer<typeof LoadTemplateSchema>;
+
+export const LoadTemplateListSchema = z.array(LoadTemplateSchema);
+
+// Templates are always saved from an existing load
+export const CreateLoadTemplateSchema = z.object({
+  loadId: z.string().min(1),
+  name: z.string().trim().min(1),
+  recurrence: TemplateRecurrenceSchema.nullable().optional(),
+  nextRunAt: z.coerce.date().nullable().optional(), // first generated pickup; defaults to one cadence after the source load
+});
+
+export type CreateLoadTemplateInput = z.input<typeof CreateLoadTemplateSchema>;
+
+export const UpdateLoadTemplateSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  equipment: EquipmentTypeSchema.optional(),
+  commodity: z.string().trim().min(1).nullable().optional(),
+  rate: z.number().int().min(0).nullable().optional(),
+  miles: z.number().int().min(0).nullable().optional(),
+  fuelCost: z.number().int().min(0).nullable().optional(),
+  recurrence: TemplateRecurrenceSchema.nullable().optional(),
+  nextRunAt: z.coerce.date().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type UpdateLoadTemplateInput = z.input<typeof UpdateLoadTemplateSchema>;
+
+// POST /api/loads/:id/duplicate; stop appointments shift with the new pickup time
+export const DuplicateLoadSchema = z.object({
+  pickupAt: z.coerce.date().nullable().optional(),
+});
+
+export type DuplicateLoadInput = z.input<typeof DuplicateLoadSchema>;
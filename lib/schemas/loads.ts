@@ -0,0 +1,164 @@
+import { z } from "zod";
+import { StopTypeSchema } from "./stops";
+
+export const LoadStatusSchema = z.enum([
+  "DRAFT",
+  "BOOKED",
+  "IN_TRANSIT",
+  "DELIVERED",
+  "INVOICED",
+  "PAID",
+  "CANCELLED",
+  "TONU",
+]);
+
+export type LoadStatus = z.infer<typeof LoadStatusSchema>;
+
+// Body for POST /api/loads/:id/transition
+export const LoadTransitionSchema = z.object({
+  to: LoadStatusSchema,
+  tonuReason: z.string().trim().min(1).nullable().optional(), // required when `to` is TONU (unless already set)
+  truckId: z.string().min(1).nullable().optional(), // lets dispatch assign the truck while moving to IN_TRANSIT
+  overrideConflicts: z.boolean().optional(), // save despite a double-booked or unavailable truck/trailer
+});
+
+export type LoadTransitionInput = z.infer<typeof LoadTransitionSchema>;
+
+// 409/422 body when a transition is rejected
+export const LoadTransitionErrorSchema = z.object({
+  error: z.string(),
+  code: z.enum(["INVALID_TRANSITION", "TRANSITION_REQUIREMENT"]),
+  from: LoadStatusSchema,
+  to: LoadStatusSchema,
+  allowed: z.array(LoadStatusSchema),
+});
+
+// Editable money/mileage fields on the load detail page (whole dollars, like the Load columns)
+export const UpdateLoadFinancialsSchema = z.object({
+  rate: z.number().int().min(0).optional(),
+  miles: z.number().int().min(0).optional(),
+  deadheadMiles: z.number().int().min(0).nullable().optional(),
+  fuelCost: z.number().int().min(0).optional(),
+  lumper: z.number().int().min(0).nullable().optional(),
+  tolls: z.number().int().min(0).nullable().optional(),
+  otherCosts: z.number().int().min(0).nullable().optional(),
+  detentionHours: z.number().min(0).nullable().optional(),
+  loadNumber: z.string().trim().min(1).nullable().optional(),
+});
+
+export type UpdateLoadFinancialsInput = z.infer<typeof UpdateLoadFinancialsSchema>;
+
+// Subset of the Load row the client reads back after a write
+export const LoadSummarySchema = z.object({
+  id: z.string(),
+  status: LoadStatusSchema,
+  rate: z.number(),
+  miles: z.number(),
+  deadheadMiles: z.number().nullable(),
+  fuelCost: z.number(),
+  lumper: z.number().nullable(),
+  tolls: z.number().nullable(),
+  otherCosts: z.number().nullable(),
+  detentionHours: z.number().nullable(),
+  detentionComputed: z.boolean(),
+  loadNumber: z.string().nullable(),
+});
+
+export type LoadSummary = z.infer<typeof LoadSummarySchema>;
+
+export const LoadTransitionResultSchema = LoadSummarySchema.extend({
+  allowedNextStatuses: z.array(LoadStatusSchema),
+});
+
+export type LoadTransitionResult = z.infer<typeof LoadTransitionResultSchema>;
+
+export const EquipmentTypeSchema = z.enum([
+  "DRY_VAN",
+  "REEFER",
+  "FLATBED",
+  "STEP_DECK",
+  "POWER_ONLY",
+  "OTHER",
+]);
+
+export type EquipmentType = z.infer<typeof EquipmentTypeSchema>;
+
+// One stop pulled off a rate confirmation; scheduledAt is local "YYYY-MM-DDTHH:mm" (datetime-local input format)
+export const RateConStopSchema = z.object({
+  type: StopTypeSchema,
+  name: z.string().nullable(),
+  addressLine1: z.string().nullable(),
+  city: z.string().nullable(),
+  state: z.string().nullable(),
+  postalCode: z.string().nullable(),
+  scheduledAt: z.string().nullable(),
+  pickupNumber: z.string().nullable(),
+  bolNumber: z.string().nullable(),
+});
+
+export type RateConStop = z.infer<typeof RateConStopSchema>;
+
+// Unsaved load pre-filled from a rate confirmation; the user reviews it and posts it to /api/loads
+export const RateConDraftSchema = z.object({
+  broker: z.string().nullable(),
+  loadNumber: z.string().nullable(),
+  rate: z.number().nullable(),
+  miles: z.number().nullable(),
+  commodity: z.string().nullable(),
+  equipment: EquipmentTypeSchema.nullable(),
+  pickupDate: z.string().nullable(), // YYYY-MM-DD
+  deliveryDate: z.string().nullable(),
+  stops: z.array(RateConStopSchema),
+  missing: z.array(z.string()), // fields the parser couldn't find, for the review banner
+});
+
+export type RateConDraft = z.infer<typeof RateConDraftSchema>;
+
+// Response of POST /api/documents/:id/rate-con
+export const RateConParseResultSchema = z.object({
+  documentId: z.string(),
+  draft: RateConDraftSchema,
+});
+
+export type RateConParseResult = z.infer<typeof RateConParseResultSchema>;
+
+export const LOAD_SORT_FIELDS = [
+  "createdAt",
+  "pickupDate",
+  "deliveryDate",
+  "rate",
+  "miles",
+  "loadNumber",
+  "status",
+] as const;
+
+export type LoadSortField = (typeof LOAD_SORT_FIELDS)[number];
+
+// "2025-12-01" as an upper bound means the whole day
+export const endOfDay = (value: unknown) =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value;
+
+// Query string of GET /api/loads (and the loads page); every filter is optional
+export const LoadListQuerySchema = z.object({
+  status: z
+    .string()
+    .transform((value) => value.split(",").filter(Boolean))
+    .pipe(z.array(LoadStatusSchema))
+    .optional(), // comma-separated, e.g. BOOKED,IN_TRANSIT
+  customerId: z.string().min(1).optional(),
+  truckId: z.string().min(1).optional(),
+  driverId: z.string().min(1).optional(),
+  equipment: EquipmentTypeSchema.optional(),
+  pickupFrom: z.coerce.date().optional(),
+  pickupTo: z.preprocess(endOfDay, z.coerce.date()).optional(),
+  deliveryFrom: z.coerce.date().optional(),
+  deliveryTo: z.preprocess(endOfDay, z.coerce.date()).optional(),
+  q: z.string().trim().min(1).optional(), // load #, external ref, broker, commodity, customer, stop city
+  sort: z.enum(LOAD_SORT_FIELDS).default("createdAt"),
+  dir: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().min(1).optional(), // position of the last row on the previous page (opaque)
+  before: z.string().min(1).optional(), // position of the first row on the next page (paging backwards)
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export type LoadListQuery = z.infer<typeof LoadListQuerySchema>;
@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+export const LocationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  isShipper: z.boolean(),
+  isReceiver: z.boolean(),
+  addressLine1: z.string().nullable(),
+  addressLine2: z.string().nullable(),
+  city: z.string().nullable(),
+  state: z.string().nullable(),
+  postalCode: z.string().nullable(),
+  country: z.string().nullable(),
+  shippingHours: z.string().nullable(),
+  notes: z.string().nullable(),
+});
+
+export type Location = z.infer<typeof LocationSchema>;
+
+export const LocationListSchema = z.array(LocationSchema);
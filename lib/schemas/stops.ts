@@ -0,0 +1,79 @@
+import { z } from "zod";
+
+export const StopTypeSchema = z.enum(["PICKUP", "DELIVERY"]);
+
+export type StopType = z.infer<typeof StopTypeSchema>;
+
+const optionalText = z.string().trim().min(1).nullable().optional();
+const optionalDate = z.coerce.date().nullable().optional();
+
+export const LoadStopSchema = z.object({
+  id: z.string(),
+  loadId: z.string(),
+  sequence: z.number().int(),
+  type: StopTypeSchema,
+  locationId: z.string().nullable(),
+  name: z.string().nullable(),
+  addressLine1: z.string().nullable(),
+  addressLine2: z.string().nullable(),
+  city: z.string().nullable(),
+  state: z.string().nullable(),
+  postalCode: z.string().nullable(),
+  country: z.string().nullable(),
+  scheduledAt: z.string().or(z.date()).nullable(),
+  arrivedAt: z.string().or(z.date()).nullable(),
+  departedAt: z.string().or(z.date()).nullable(),
+  bolNumber: z.string().nullable(),
+  pickupNumber: z.string().nullable(),
+  notes: z.string().nullable(),
+  detentionMinutes: z.number().int().nullable().optional(), // billable minutes past free time; null until checked out
+  location: z.object({ id: z.string(), name: z.string() }).nullable().optional(),
+});
+
+export type LoadStop = z.infer<typeof LoadStopSchema>;
+
+export const LoadStopListSchema = z.array(LoadStopSchema);
+
+// Address fields left out are copied from the linked Location
+export const CreateStopSchema = z.object({
+  type: StopTypeSchema,
+  sequence: z.number().int().min(0).optional(), // insert position; appended when omitted
+  locationId: z.string().min(1).nullable().optional(),
+  name: optionalText,
+  addressLine1: optionalText,
+  addressLine2: optionalText,
+  city: optionalText,
+  state: optionalText,
+  postalCode: optionalText,
+  country: optionalText,
+  scheduledAt: optionalDate,
+  bolNumber: optionalText,
+  pickupNumber: optionalText,
+  notes: optionalText,
+});
+
+export type CreateStopInput = z.input<typeof CreateStopSchema>;
+
+// Order changes go through ReorderStopsSchema, not here
+export const UpdateStopSchema = CreateStopSchema.omit({ sequence: true })
+  .partial()
+  .extend({
+    arrivedAt: optionalDate,
+    departedAt: optionalDate,
+  });
+
+export type UpdateStopInput = z.input<typeof UpdateStopSchema>;
+
+// Every stop of the load, in the new order
+export const ReorderStopsSchema = z.object({
+  stopIds: z.array(z.string().min(1)).min(1),
+});
+
+export type ReorderStopsInput = z.infer<typeof ReorderStopsSchema>;
+
+// Check-in / check-out; `at` defaults to now (set it when logging a past arrival)
+export const StopCheckSchema = z.object({
+  at: z.coerce.date().optional(),
+});
+
+export type StopCheckInput = z.input<typeof StopCheckSchema>;
@@ -0,0 +1,246 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  db: { $extends: (extension: unknown) => extension },                      // scopedDb returns its extension so the hook can be called directly.
+}));
+
+import { scopedDb, TenantScopeError } from "./scopedDb";
+
+type Args = Record<string, unknown>;
+type Row = Record<string, unknown> & { id: string };
+
+type TenantHook = (params: {
+  model: string;
+  operation: string;
+  args: unknown;
+  query: (args: unknown) => Promise<unknown>;
+}) => Promise<unknown>;
+
+/**
+ * A two-tenant table the fake query runs against: equality filters on the columns the
+ * scoped client injects are enough to show which rows a caller can reach.
+ */
+let tables: Record<string, Row[]>;
+
+beforeEach(() => {
+  tables = {
+    Load: [
+      { id: "load-a", companyId: "company-a", isSoftDeleted: false },
+      { id: "load-a-deleted", companyId: "company-a", isSoftDeleted: true },
+      { id: "load-b", companyId: "company-b", isSoftDeleted: false },
+    ],
+    Customer: [
+      { id: "customer-a", companyId: "company-a", deletedAt: null },
+      { id: "customer-a-deleted", companyId: "company-a", deletedAt: new Date("2025-01-01") },
+      { id: "customer-b", companyId: "company-b", deletedAt: null },
+    ],
+    Invoice: [
+      { id: "invoice-a", companyId: "company-a", status: "SENT" },
+      { id: "invoice-b", companyId: "company-b", status: "SENT" },
+    ],
+  };
+});
+
+function matches(row: Row, where: Args = {}) {
+  return Object.entries(where).every(([key, value]) => row[key] === value);
+}
+
+function fakeQuery(model: string, operation: string) {
+  return async (raw: unknown) => {
+    const args = raw as Args;
+    const table = (tables[model] ??= []);
+    const where = args.where as Args | undefined;
+
+    switch (operation) {
+      case "findMany":
+        return table.filter((row) => matches(row, where));
+      case "findFirst":
+        return table.find((row) => matches(row, where)) ?? null;
+      case "update": {
+        const row = table.find((r) => matches(r, where));
+        if (!row) throw new Error("Record to update not found.");
+        return Object.assign(row, args.data);
+      }
+      case "updateMany": {
+        const rows = table.filter((row) => matches(row, where));
+        rows.forEach((row) => Object.assign(row, args.data));
+        return { count: rows.length };
+      }
+      case "create": {
+        const row = { id: `${model}-${table.length + 1}`, ...(args.data as Args) };
+        table.push(row);
+        return row;
+      }
+      case "createMany": {
+        const rows = (Array.isArray(args.data) ? args.data : [args.data]) as Args[];
+        rows.forEach((data, i) => table.push({ id: `${model}-new-${i}`, ...data }));
+        return { count: rows.length };
+      }
+      default:
+        return args;                                                           // Echo the scoped args back.
+    }
+  };
+}
+
+function client(companyId: string, options?: { includeDeleted?: boolean }) {
+  const extension = scopedDb(companyId, options) as unknown as {
+    query: { $allModels: { $allOperations: TenantHook } };
+  };
+  return (model: string, operation: string, args: Args = {}) =>
+    extension.query.$allModels.$allOperations({ model, operation, args, query: fakeQuery(model, operation) });
+}
+
+describe("scopedDb", () => {
+  describe("reads", () => {
+    it("only returns the caller's company rows from findMany", async () => {
+      const rows = (await client("company-a")("Invoice", "findMany")) as Row[];
+      expect(rows.map((r) => r.id)).toEqual(["invoice-a"]);
+    });
+
+    it("overrides a companyId filter naming another company", async () => {
+      const rows = (await client("company-a")("Invoice", "findMany", { where: { companyId: "company-b" } })) as Row[];
+      expect(rows.map((r) => r.id)).toEqual(["invoice-a"]);
+    });
+
+    it("doesn't find another company's row by id", async () => {
+      const row = await client("company-a")("Invoice", "findFirst", { where: { id: "invoice-b" } });
+      expect(row).toBeNull();
+    });
+
+    it("pins count and aggregate filters too", async () => {
+      const args = (await client("company-a")("Invoice", "count", { where: { status: "SENT" } })) as Args;
+      expect(args.where).toEqual({ status: "SENT", companyId: "company-a" });
+    });
+  });
+
+  describe("soft-delete filters", () => {
+    it("hides soft-deleted loads", async () => {
+      const rows = (await client("company-a")("Load", "findMany")) as Row[];
+      expect(rows.map((r) => r.id)).toEqual(["load-a"]);
+    });
+
+    it("hides customers with deletedAt set", async () => {
+      const rows = (await client("company-a")("Customer", "findMany")) as Row[];
+      expect(rows.map((r) => r.id)).toEqual(["customer-a"]);
+    });
+
+    it("lets an explicit filter on the column through (trash views)", async () => {
+      const rows = (await client("company-a")("Load", "findMany", { where: { isSoftDeleted: true } })) as Row[];
+      expect(rows.map((r) => r.id)).toEqual(["load-a-deleted"]);
+    });
+
+    it("returns soft-deleted rows with includeDeleted, still within the company", async () => {
+      const rows = (await client("company-a", { includeDeleted: true })("Load", "findMany")) as Row[];
+      expect(rows.map((r) => r.id).sort()).toEqual(["load-a", "load-a-deleted"]);
+    });
+
+    it("can't update a soft-deleted row without asking for it", async () => {
+      await expect(
+        client("company-a")("Load", "update", { where: { id: "load-a-deleted" }, data: { isSoftDeleted: false } })
+      ).rejects.toThrow("not found");
+    });
+  });
+
+  describe("writes", () => {
+    it("can't update another company's row", async () => {
+      await expect(
+        client("company-a")("Invoice", "update", { where: { id: "invoice-b" }, data: { status: "PAID" } })
+      ).rejects.toThrow("not found");
+      expect(tables.Invoice.find((r) => r.id === "invoice-b")?.status).toBe("SENT");
+    });
+
+    it("limits updateMany to the caller's rows", async () => {
+      const result = await client("company-a")("Invoice", "updateMany", { data: { status: "OVERDUE" } });
+      expect(result).toEqual({ count: 1 });
+      expect(tables.Invoice.map((r) => r.status)).toEqual(["OVERDUE", "SENT"]);
+    });
+
+    it("stamps companyId on create, overriding one sent by the caller", async () => {
+      const row = (await client("company-a")("Invoice", "create", {
+        data: { status: "DRAFT", companyId: "company-b" },
+      })) as Row;
+      expect(row.companyId).toBe("company-a");
+    });
+
+    it("refuses a create that connects another company", async () => {
+      await expect(
+        client("company-a")("Invoice", "create", {
+          data: { status: "DRAFT", company: { connect: { id: "company-b" } } },
+        })
+      ).rejects.toBeInstanceOf(TenantScopeError);
+      await expect(
+        client("company-a")("Invoice", "create", {
+          data: { status: "DRAFT", company: { connectOrCreate: { where: { id: "company-b" } } } },
+        })
+      ).rejects.toBeInstanceOf(TenantScopeError);
+      expect(tables.Invoice).toHaveLength(2);
+    });
+
+    it("allows a create that connects the caller's own company", async () => {
+      const row = (await client("company-a")("Invoice", "create", {
+        data: { status: "DRAFT", company: { connect: { id: "company-a" } } },
+      })) as Row;
+      expect(row.company).toEqual({ connect: { id: "company-a" } });
+    });
+
+    it("refuses a createMany row that connects another company", async () => {
+      await expect(
+        client("company-a")("Invoice", "createMany", {
+          data: [{ status: "DRAFT" }, { status: "DRAFT", company: { connect: { id: "company-b" } } }],
+        })
+      ).rejects.toBeInstanceOf(TenantScopeError);
+    });
+
+    it("can't move a row to another company with update", async () => {
+      await client("company-a")("Invoice", "update", {
+        where: { id: "invoice-a" },
+        data: { status: "VOID", companyId: "company-b", company: { connect: { id: "company-b" } } },
+      });
+      const row = tables.Invoice.find((r) => r.id === "invoice-a");
+      expect(row).toMatchObject({ status: "VOID", companyId: "company-a" });
+      expect(row).not.toHaveProperty("company");
+    });
+
+    it("can't move rows to another company with updateMany", async () => {
+      await client("company-a")("Invoice", "updateMany", { data: { companyId: "company-b" } });
+      expect(tables.Invoice.map((r) => r.companyId)).toEqual(["company-a", "company-b"]);
+    });
+
+    it("stamps every row of createMany", async () => {
+      await client("company-a")("Invoice", "createMany", {
+        data: [{ status: "DRAFT" }, { status: "DRAFT", companyId: "company-b" }],
+      });
+      const created = tables.Invoice.filter((r) => r.status === "DRAFT");
+      expect(created.map((r) => r.companyId)).toEqual(["company-a", "company-a"]);
+    });
+
+    it("stamps a single-object createMany", async () => {
+      await client("company-a")("Invoice", "createMany", { data: { status: "DRAFT" } });
+      expect(tables.Invoice.find((r) => r.status === "DRAFT")?.companyId).toBe("company-a");
+    });
+
+    it("scopes the upsert lookup and stamps its create branch", async () => {
+      const args = (await client("company-a")("Invoice", "upsert", {
+        where: { id: "invoice-b" },
+        create: { status: "DRAFT", companyId: "company-b" },
+        update: { status: "SENT" },
+      })) as Args;
+      expect(args.where).toEqual({ id: "invoice-b", companyId: "company-a" });
+      expect(args.create).toEqual({ status: "DRAFT", companyId: "company-a" });
+    });
+
+    it("strips companyId from the upsert update branch", async () => {
+      const args = (await client("company-a")("Invoice", "upsert", {
+        where: { id: "invoice-a" },
+        create: { status: "DRAFT" },
+        update: { status: "SENT", companyId: "company-b" },
+      })) as Args;
+      expect(args.update).toEqual({ status: "SENT" });
+    });
+  });
+
+  it("passes models without companyId through untouched", async () => {
+    const args = { where: { invoiceId: "invoice-b" } };
+    await expect(client("company-a")("InvoiceLine", "count", args)).resolves.toEqual(args);
+  });
+});
@@ -0,0 +1,152 @@
+import type { Prisma } from "@prisma/client";                                 // Model name type for the lookup tables below.
+import { db } from "@/lib/db";                                               // Shared Prisma client the scoped client extends.
+
+/**
+ * Models that carry a companyId column. Every query on these is pinned to one tenant.
+ * Child tables without companyId (InvoiceLine, LoadStop, ...) are reached through their parent.
+ */
+const TENANT_MODELS = new Set<Prisma.ModelName>([
+  "User",
+  "Invitation",
+  "Customer",
+  "CallNote",
+  "Load",
+  "LoadTemplate",
+  "FuelPrice",
+  "FuelSurchargeSchedule",
+  "Driver",
+  "Truck",
+  "Trailer",
+  "Location",
+  "Contact",
+  "Expense",
+  "Invoice",
+  "Payment",
+  "Task",
+  "EmailTemplate",
+  "EmailLog",
+  "DunningStep",
+  "DunningRun",
+  "MetricSnapshot",
+  "ExpansionReadinessSnapshot",
+  "DashboardWidgetLayout",
+  "Document",
+  "AuditEvent",
+]);
+
+/**
+ * "Not deleted" filter per model, for models that soft-delete.
+ * Applied unless the caller filters on the same column explicitly (e.g. a trash view).
+ */
+const SOFT_DELETE_FILTERS: Partial<Record<Prisma.ModelName, Record<string, unknown>>> = {
+  Load: { isSoftDeleted: false },
+  Customer: { deletedAt: null },
+};
+
+const WHERE_OPERATIONS = new Set([                                             // Operations whose `where` gets the tenant + soft-delete filter.
+  "findUnique",
+  "findUniqueOrThrow",
+  "findFirst",
+  "findFirstOrThrow",
+  "findMany",
+  "count",
+  "aggregate",
+  "groupBy",
+  "update",
+  "updateMany",
+  "updateManyAndReturn",
+  "delete",
+  "deleteMany",
+  "upsert",
+]);
+
+type Args = Record<string, unknown>;
+
+/**
+ * Thrown when a write names another company through the `company` relation.
+ */
+export class TenantScopeError extends Error {
+  constructor(model: string) {
+    super(`${model} rows can only be written for the signed-in company`);
+    this.name = "TenantScopeError";
+  }
+}
+
+function withCompany(model: string, data: unknown, companyId: string) {         // Stamps companyId on create payloads (overrides anything sent).
+  const row = (data ?? {}) as Args;
+  if ("company" in row) {                                                      // Caller used the relation; Prisma rejects both forms together.
+    const relation = row.company as { connect?: { id?: unknown } } | undefined;
+    if (relation?.connect?.id !== companyId || Object.keys(relation).length !== 1) throw new TenantScopeError(model);
+    return row;
+  }
+  return { ...row, companyId };
+}
+
+function withoutCompany(data: unknown) {                                       // Update payloads can't move a row to another tenant.
+  if (!data || typeof data !== "object") return data;
+  const rest = { ...(data as Args) };
+  delete rest.companyId;
+  delete rest.company;
+  return rest;
+}
+
+function scopeWhere(model: Prisma.ModelName, where: unknown, companyId: string, includeDeleted: boolean) {
+  const current = (where ?? {}) as Args;
+  const softDelete = includeDeleted ? {} : SOFT_DELETE_FILTERS[model] ?? {};
+  const missingSoftDelete = Object.fromEntries(
+    Object.entries(softDelete).filter(([key]) => !(key in current))            // Explicit caller filters on the column win.
+  );
+  return { ...current, ...missingSoftDelete, companyId };                      // companyId always wins so callers can't widen scope.
+}
+
+/**
+ * Prisma client pinned to one company.
+ * Reads and writes on tenant models get `companyId` (and "not deleted" filters) injected,
+ * creates are stamped with `companyId` and updates can't change it, so a page or route can't
+ * leak or move another tenant's rows.
+ * Note: filters apply to the top-level model only; nested `include`s follow relations as usual.
+ */
+export function scopedDb(companyId: string, options: { includeDeleted?: boolean } = {}) {
+  const includeDeleted = options.includeDeleted ?? false;
+
+  return db.$extends({
+    name: "tenantScope",
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          if (!TENANT_MODELS.has(model as Prisma.ModelName)) return query(args);
+
+          const scoped = { ...((args ?? {}) as Args) };
+          const name = model as Prisma.ModelName;
+
+          if (WHERE_OPERATIONS.has(operation)) {
+            scoped.where = scopeWhere(name, scoped.where, companyId, includeDeleted);
+          }
+
+          if (operation === "create" || operation === "upsert") {
+            const key = operation === "create" ? "data" : "create";
+            scoped[key] = withCompany(model, scoped[key], companyId);
+          }
+
+          if (operation === "createMany" || operation === "createManyAndReturn") {
+            const rows = scoped.data;
+            scoped.data = Array.isArray(rows)
+              ? rows.map((row) => withCompany(model, row, companyId))
+              : withCompany(model, rows, companyId);
+          }
+
+          if (operation === "update" || operation === "updateMany" || operation === "updateManyAndReturn") {
+            scoped.data = withoutCompany(scoped.data);
+          }
+          if (operation === "upsert") {
+            scoped.update = withoutCompany(scoped.update);
+          }
+
+          return query(scoped as typeof args);
+        },
+      },
+    },
+  });
+}
+
+export type ScopedDb = ReturnType<typeof scopedDb>;
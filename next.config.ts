@@ -1,7 +1,7 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  serverExternalPackages: ["pdfjs-dist"], // Loaded from node_modules so pdf.js can find its worker file.
 };
 
 export default nextConfig;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Driver" ADD COLUMN     "userId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Driver_userId_key" ON "Driver"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Driver" ADD CONSTRAINT "Driver_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
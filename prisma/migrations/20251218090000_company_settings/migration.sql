@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN     "maxMilesPerTruckPerDay" INTEGER,
+ADD COLUMN     "staleCustomerDays" INTEGER;
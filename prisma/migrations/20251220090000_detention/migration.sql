@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN     "detentionFreeHours" DOUBLE PRECISION,
+ADD COLUMN     "detentionRatePerHour" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Customer" ADD COLUMN     "detentionFreeHours" DOUBLE PRECISION,
+ADD COLUMN     "detentionRatePerHour" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Load" ALTER COLUMN "detentionHours" SET DATA TYPE DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "LoadStop" ADD COLUMN     "detentionMinutes" INTEGER;
@@ -0,0 +1,73 @@
+-- AlterTable
+ALTER TABLE "Load" ADD COLUMN     "templateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "LoadTemplate" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "customerId" TEXT,
+    "broker" TEXT,
+    "equipment" "EquipmentType" NOT NULL DEFAULT 'DRY_VAN',
+    "commodity" TEXT,
+    "rate" INTEGER,
+    "miles" INTEGER,
+    "fuelCost" INTEGER,
+    "isTeam" BOOLEAN NOT NULL DEFAULT false,
+    "recurrence" "RecurrenceFreq",
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LoadTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LoadTemplateStop" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "type" "StopType" NOT NULL,
+    "locationId" TEXT,
+    "name" TEXT,
+    "addressLine1" TEXT,
+    "addressLine2" TEXT,
+    "city" TEXT,
+    "state" TEXT,
+    "postalCode" TEXT,
+    "country" TEXT DEFAULT 'US',
+    "offsetMinutes" INTEGER,
+    "notes" TEXT,
+
+    CONSTRAINT "LoadTemplateStop_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LoadTemplate_companyId_idx" ON "LoadTemplate"("companyId");
+
+-- CreateIndex
+CREATE INDEX "LoadTemplate_isActive_nextRunAt_idx" ON "LoadTemplate"("isActive", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "LoadTemplateStop_templateId_idx" ON "LoadTemplateStop"("templateId");
+
+-- AddForeignKey
+ALTER TABLE "Load" ADD CONSTRAINT "Load_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "LoadTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoadTemplate" ADD CONSTRAINT "LoadTemplate_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoadTemplate" ADD CONSTRAINT "LoadTemplate_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoadTemplate" ADD CONSTRAINT "LoadTemplate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoadTemplateStop" ADD CONSTRAINT "LoadTemplateStop_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoadTemplateStop" ADD CONSTRAINT "LoadTemplateStop_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "LoadTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "DriverPayType" AS ENUM ('PER_MILE', 'PERCENT_OF_RATE', 'FLAT_PER_LOAD');
+
+-- AlterTable
+ALTER TABLE "Driver" ADD COLUMN     "payRate" DOUBLE PRECISION,
+ADD COLUMN     "payType" "DriverPayType";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Load" ADD COLUMN     "deadheadMiles" INTEGER;
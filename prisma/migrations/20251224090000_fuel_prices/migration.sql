@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Truck" ADD COLUMN     "mpg" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "FuelPrice" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "weekOf" TIMESTAMP(3) NOT NULL,
+    "region" TEXT NOT NULL,
+    "pricePerGallon" DOUBLE PRECISION NOT NULL,
+    "source" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FuelPrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FuelPrice_companyId_region_weekOf_idx" ON "FuelPrice"("companyId", "region", "weekOf");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FuelPrice_companyId_weekOf_region_key" ON "FuelPrice"("companyId", "weekOf", "region");
+
+-- AddForeignKey
+ALTER TABLE "FuelPrice" ADD CONSTRAINT "FuelPrice_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "FuelSurchargeMethod" AS ENUM ('PEG_PRICE', 'CENTS_PER_MILE_STEP', 'PERCENT_OF_LINEHAUL');
+
+-- CreateTable
+CREATE TABLE "FuelSurchargeSchedule" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "method" "FuelSurchargeMethod" NOT NULL,
+    "priceRegion" TEXT,
+    "pegPrice" DOUBLE PRECISION,
+    "mpg" DOUBLE PRECISION,
+    "priceStep" DOUBLE PRECISION,
+    "centsPerStep" DOUBLE PRECISION,
+    "effectiveFrom" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FuelSurchargeSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FuelSurchargeTier" (
+    "id" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "minPrice" DOUBLE PRECISION NOT NULL,
+    "percent" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "FuelSurchargeTier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FuelSurchargeSchedule_companyId_customerId_idx" ON "FuelSurchargeSchedule"("companyId", "customerId");
+
+-- CreateIndex
+CREATE INDEX "FuelSurchargeTier_scheduleId_idx" ON "FuelSurchargeTier"("scheduleId");
+
+-- AddForeignKey
+ALTER TABLE "FuelSurchargeSchedule" ADD CONSTRAINT "FuelSurchargeSchedule_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FuelSurchargeSchedule" ADD CONSTRAINT "FuelSurchargeSchedule_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FuelSurchargeTier" ADD CONSTRAINT "FuelSurchargeTier_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "FuelSurchargeSchedule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
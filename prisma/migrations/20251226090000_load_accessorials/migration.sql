@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "AccessorialType" AS ENUM ('DETENTION', 'LAYOVER', 'TONU', 'LUMPER', 'STOP_OFF', 'DRIVER_ASSIST', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "LoadAccessorial" (
+    "id" TEXT NOT NULL,
+    "loadId" TEXT NOT NULL,
+    "type" "AccessorialType" NOT NULL,
+    "description" TEXT,
+    "quantity" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "rate" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "billable" BOOLEAN NOT NULL DEFAULT true,
+    "payableToDriver" BOOLEAN NOT NULL DEFAULT false,
+    "driverAmount" INTEGER,
+    "invoiceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LoadAccessorial_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LoadAccessorial_loadId_idx" ON "LoadAccessorial"("loadId");
+
+-- CreateIndex
+CREATE INDEX "LoadAccessorial_invoiceId_idx" ON "LoadAccessorial"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "LoadAccessorial" ADD CONSTRAINT "LoadAccessorial_loadId_fkey" FOREIGN KEY ("loadId") REFERENCES "Load"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoadAccessorial" ADD CONSTRAINT "LoadAccessorial_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
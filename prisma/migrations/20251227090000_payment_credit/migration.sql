@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "isCredit" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN     "invoiceNumberPrefix" TEXT,
+ADD COLUMN     "nextInvoiceNumber" INTEGER NOT NULL DEFAULT 1001;
@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "DocumentType" AS ENUM ('RATE_CON', 'BOL', 'POD', 'LUMPER_RECEIPT', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN     "addressLine1" TEXT,
+ADD COLUMN     "addressLine2" TEXT,
+ADD COLUMN     "billingEmail" TEXT,
+ADD COLUMN     "city" TEXT,
+ADD COLUMN     "phone" TEXT,
+ADD COLUMN     "postalCode" TEXT,
+ADD COLUMN     "remitTo" TEXT,
+ADD COLUMN     "state" TEXT;
+
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "type" "DocumentType";
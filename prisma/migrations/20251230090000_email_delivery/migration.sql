@@ -0,0 +1,16 @@
+-- DropIndex
+DROP INDEX "EmailTemplate_slug_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailTemplate_companyId_slug_key" ON "EmailTemplate"("companyId", "slug");
+
+-- AlterTable
+ALTER TABLE "EmailLog" ADD COLUMN     "htmlBody" TEXT,
+ADD COLUMN     "textBody" TEXT,
+ADD COLUMN     "attachments" JSONB,
+ADD COLUMN     "replyTo" TEXT,
+ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "EmailLog_status_nextAttemptAt_idx" ON "EmailLog"("status", "nextAttemptAt");
@@ -0,0 +1,66 @@
+-- AlterEnum
+ALTER TYPE "EmailStatus" ADD VALUE 'CANCELLED';
+
+-- CreateEnum
+CREATE TYPE "DunningAction" AS ENUM ('EMAIL', 'TASK');
+
+-- CreateTable
+CREATE TABLE "DunningStep" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "offsetDays" INTEGER NOT NULL,
+    "action" "DunningAction" NOT NULL,
+    "templateSlug" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DunningStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DunningRun" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "stepId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "emailLogId" TEXT,
+    "taskId" TEXT,
+    "skipReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DunningRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DunningStep_companyId_idx" ON "DunningStep"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DunningRun_emailLogId_key" ON "DunningRun"("emailLogId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DunningRun_taskId_key" ON "DunningRun"("taskId");
+
+-- CreateIndex
+CREATE INDEX "DunningRun_invoiceId_idx" ON "DunningRun"("invoiceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DunningRun_stepId_invoiceId_key" ON "DunningRun"("stepId", "invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "DunningStep" ADD CONSTRAINT "DunningStep_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DunningRun" ADD CONSTRAINT "DunningRun_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DunningRun" ADD CONSTRAINT "DunningRun_stepId_fkey" FOREIGN KEY ("stepId") REFERENCES "DunningStep"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DunningRun" ADD CONSTRAINT "DunningRun_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DunningRun" ADD CONSTRAINT "DunningRun_emailLogId_fkey" FOREIGN KEY ("emailLogId") REFERENCES "EmailLog"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DunningRun" ADD CONSTRAINT "DunningRun_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE SET NULL ON UPDATE CASCADE;
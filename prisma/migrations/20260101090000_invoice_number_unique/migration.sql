@@ -0,0 +1,11 @@
+-- Renumber existing duplicates so the index can be built; the oldest invoice keeps the number
+UPDATE "Invoice" AS i
+SET "invoiceNumber" = i."invoiceNumber" || '-' || d.rn
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "companyId", "invoiceNumber" ORDER BY "createdAt", "id") AS rn
+    FROM "Invoice"
+) AS d
+WHERE i."id" = d."id" AND d.rn > 1;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_companyId_invoiceNumber_key" ON "Invoice"("companyId", "invoiceNumber");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Load" ADD COLUMN     "detentionComputed" BOOLEAN NOT NULL DEFAULT false;
+
+-- Loads with a checked-out stop had their hours overwritten from the stop clocks
+UPDATE "Load" AS l
+SET "detentionComputed" = true
+WHERE l."detentionHours" IS NOT NULL
+  AND EXISTS (SELECT 1 FROM "LoadStop" AS s WHERE s."loadId" = l."id" AND s."detentionMinutes" IS NOT NULL);